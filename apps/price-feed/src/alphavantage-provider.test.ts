@@ -0,0 +1,104 @@
+// Alpha Vantage provider suite (the equities fallback). No live network (every
+// fetch is mocked) and every payload below is AUTHORED here — never a recorded real
+// response.
+import { describe, expect, it } from "vitest";
+import type { InstrumentRegistryEntry } from "@numisma/engine";
+import { fetchAlphaVantageDailyClose } from "./alphavantage-provider.js";
+
+const AAPL: InstrumentRegistryEntry = {
+  instrumentId: "aapl",
+  symbol: "AAPL",
+  quoteCurrency: "USD",
+  source: "twelvedata",
+};
+
+/** Records the URL the provider asked for and answers with an authored body. */
+function recordingFetch(body: unknown): { calls: string[]; impl: typeof fetch } {
+  const calls: string[] = [];
+  const impl = ((url: string) => {
+    calls.push(String(url));
+    return Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+  }) as unknown as typeof fetch;
+  return { calls, impl };
+}
+
+/** An authored `TIME_SERIES_DAILY` body holding one bar per `[date, close]`. */
+function series(...bars: [string, string][]): unknown {
+  return {
+    "Meta Data": { "2. Symbol": "AAPL" },
+    "Time Series (Daily)": Object.fromEntries(
+      bars.map(([date, close]) => [
+        date,
+        { "1. open": "1.0", "2. high": "1.0", "3. low": "1.0", "4. close": close, "5. volume": "1" },
+      ]),
+    ),
+  };
+}
+
+const OPTS = { timeoutMs: 5_000, apiKey: "av-key" };
+const NOW = () => new Date("2026-08-17T23:00:00.000Z");
+
+describe("fetchAlphaVantageDailyClose", () => {
+  it("asks TIME_SERIES_DAILY for one symbol and takes the newest bar", async () => {
+    // Key order is not relied on: the newest DATE wins.
+    const { calls, impl } = recordingFetch(
+      series(["2026-08-13", "210.00"], ["2026-08-17", "212.50"], ["2026-08-14", "211.00"]),
+    );
+    const obs = await fetchAlphaVantageDailyClose(AAPL, { ...OPTS, fetchImpl: impl, now: NOW });
+    expect(calls).toEqual([
+      "https://www.alphavantage.co/query?function=TIME_SERIES_DAILY&symbol=AAPL" +
+        "&outputsize=compact&apikey=av-key",
+    ]);
+    expect(obs).toEqual({
+      instrumentId: "aapl",
+      symbol: "AAPL",
+      close: 212.5,
+      fetchedAt: "2026-08-17T23:00:00.000Z",
+      observationDate: "2026-08-17",
+    });
+  });
+
+  it("takes the bar dated the target day, and names the day when there is none", async () => {
+    const { impl } = recordingFetch(series(["2026-08-14", "211.00"], ["2026-08-17", "212.50"]));
+    const obs = await fetchAlphaVantageDailyClose(AAPL, {
+      ...OPTS,
+      fetchImpl: impl,
+      now: NOW,
+      targetDate: "2026-08-14",
+    });
+    expect(obs.observationDate).toBe("2026-08-14");
+    expect(obs.close).toBe(211);
+    await expect(
+      fetchAlphaVantageDailyClose(AAPL, { ...OPTS, fetchImpl: impl, targetDate: "2026-08-15" }),
+    ).rejects.toThrow(/^Alpha Vantage AAPL -> no bar dated 2026-08-15 in the response$/);
+  });
+
+  it("refuses to ask without a key", async () => {
+    const { calls, impl } = recordingFetch(series(["2026-08-17", "212.50"]));
+    await expect(
+      fetchAlphaVantageDailyClose(AAPL, { ...OPTS, apiKey: "", fetchImpl: impl }),
+    ).rejects.toThrow(/^Alpha Vantage AAPL -> ALPHAVANTAGE_API_KEY is not set/);
+    expect(calls).toEqual([]);
+  });
+
+  it("surfaces a 200 refusal body as the failure, never as an empty series", async () => {
+    for (const key of ["Error Message", "Note", "Information"]) {
+      const { impl } = recordingFetch({ [key]: "rate limit reached" });
+      await expect(
+        fetchAlphaVantageDailyClose(AAPL, { ...OPTS, fetchImpl: impl }),
+      ).rejects.toThrow(/^Alpha Vantage AAPL -> rate limit reached$/);
+    }
+  });
+
+  it("refuses a missing series and a non-positive close", async () => {
+    await expect(
+      fetchAlphaVantageDailyClose(AAPL, { ...OPTS, fetchImpl: recordingFetch({}).impl }),
+    ).rejects.toThrow(/^Alpha Vantage AAPL -> unexpected payload shape$/);
+    await expect(
+      fetchAlphaVantageDailyClose(AAPL, {
+        ...OPTS,
+        fetchImpl: recordingFetch(series(["2026-08-17", "0"])).impl,
+      }),
+    ).rejects.toThrow(/^Alpha Vantage AAPL -> non-positive close 0$/);
+  });
+});
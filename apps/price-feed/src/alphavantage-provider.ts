@@ -0,0 +1,108 @@
+/**
+ * The Alpha Vantage provider — the US-equities FALLBACK behind Twelve Data. Network
+ * IO only: it fetches ONE symbol's daily close (USD) and hands the raw close back;
+ * the orchestrator asks only after Twelve Data failed for that instrument.
+ *
+ * ONE SYMBOL PER REQUEST. `TIME_SERIES_DAILY` does not batch, and the free key
+ * allows 25 requests a day — which is why Twelve Data is the primary (see the
+ * equities rows in `@numisma/engine`'s registry). As a fallback it is asked only for
+ * what the primary could not serve, so the cap binds only on a day Twelve Data is
+ * down for every symbol.
+ *
+ * Alpha Vantage answers most refusals with HTTP 200 and a one-key body —
+ * `Error Message` for a bad symbol, `Note`/`Information` for the rate limit or a
+ * bad key — so those are read and surfaced as the failure, never parsed as an empty
+ * series. The API key is read from `ALPHAVANTAGE_API_KEY`, never committed.
+ */
+import type { InstrumentRegistryEntry } from "@numisma/engine";
+import {
+  fetchJson,
+  isRecord,
+  type FetchOptions,
+  type ProviderObservation,
+} from "./provider.js";
+
+const ALPHAVANTAGE_QUERY = "https://www.alphavantage.co/query";
+
+export interface AlphaVantageFetchOptions extends FetchOptions {
+  /** The Alpha Vantage API key, read from `ALPHAVANTAGE_API_KEY`. */
+  apiKey: string;
+  /** `YYYY-MM-DD` — select the bar dated this day instead of the newest one. */
+  targetDate?: string | undefined;
+}
+
+/**
+ * Fetch one daily close for `entry` from Alpha Vantage's `TIME_SERIES_DAILY`.
+ *
+ * The series is keyed by bar date. On the live path the close is the NEWEST date's;
+ * given `targetDate` it is the bar dated that day, and no such bar is a
+ * date-naming failure rather than a neighbour standing in. `compact` output holds
+ * the last 100 bars, which covers any day a one-day recovery can name in practice.
+ *
+ * Throws a symbol-attributable error on a missing key, HTTP failure, a refusal body,
+ * an unexpected payload shape, a missing bar, a non-positive close, or a timeout.
+ */
+export async function fetchAlphaVantageDailyClose(
+  entry: InstrumentRegistryEntry,
+  options: AlphaVantageFetchOptions,
+): Promise<ProviderObservation> {
+  const now = options.now ?? (() => new Date());
+  const fail = (reason: string) => new Error(`Alpha Vantage ${entry.symbol} -> ${reason}`);
+  if (!options.apiKey) {
+    throw fail(`ALPHAVANTAGE_API_KEY is not set; export a free Alpha Vantage key to enable it.`);
+  }
+  const url =
+    `${ALPHAVANTAGE_QUERY}?function=TIME_SERIES_DAILY` +
+    `&symbol=${encodeURIComponent(entry.symbol)}&outputsize=compact` +
+    `&apikey=${encodeURIComponent(options.apiKey)}`;
+  const r = await fetchJson(url, {
+    timeoutMs: options.timeoutMs,
+    fetchImpl: options.fetchImpl,
+    retry: options.retry,
+    label: `Alpha Vantage ${entry.symbol}`,
+  });
+  if (!r.ok) {
+    throw fail(r.reason);
+  }
+  const body = r.body;
+  if (!isRecord(body)) {
+    throw fail(`unexpected payload shape`);
+  }
+  for (const key of ["Error Message", "Note", "Information"] as const) {
+    const refusal = body[key];
+    if (typeof refusal === "string" && refusal.trim() !== "") {
+      throw fail(refusal.trim());
+    }
+  }
+  const series = body["Time Series (Daily)"];
+  if (!isRecord(series) || Array.isArray(series)) {
+    throw fail(`unexpected payload shape`);
+  }
+  const dates = Object.keys(series)
+    .filter((date) => /^\d{4}-\d{2}-\d{2}$/.test(date))
+    .sort();
+  const observationDate =
+    options.targetDate === undefined
+      ? dates.at(-1)
+      : dates.find((date) => date === options.targetDate);
+  if (observationDate === undefined) {
+    throw fail(
+      options.targetDate === undefined
+        ? `no daily bar in the response`
+        : `no bar dated ${options.targetDate} in the response`,
+    );
+  }
+  const bar = series[observationDate];
+  const rawClose = isRecord(bar) ? bar["4. close"] : undefined;
+  const close = Number(rawClose);
+  if (!Number.isFinite(close) || close <= 0) {
+    throw fail(`non-positive close ${String(rawClose)}`);
+  }
+  return {
+    instrumentId: entry.instrumentId,
+    symbol: entry.symbol,
+    close,
+    fetchedAt: now().toISOString(),
+    observationDate,
+  };
+}
@@ -3,7 +3,7 @@
 // missing-token guard, HTTP failure, malformed payloads, a missing/`N/E` rate, and
 // the request timeout — each thrown loud so the *-mxn derivations can fail cleanly.
 import { describe, expect, it } from "vitest";
-import { fetchBanxicoFix } from "./banxico-provider.js";
+import { fetchBanxicoFix, fetchBanxicoFixRange } from "./banxico-provider.js";
 
 function fixResponse(dato: string, fecha = "03/07/2026"): Response {
   return new Response(
@@ -212,3 +212,61 @@ describe("fetchBanxicoFix — target date", () => {
     ).rejects.toThrow(/no FIX observation/);
   });
 });
+
+describe("fetchBanxicoFixRange — every FIX in a window", () => {
+  const RANGE = { fromDate: "2026-08-10", toDate: "2026-08-14" };
+
+  function windowResponse(datos: Array<{ fecha: string; dato: string }>): Response {
+    return new Response(JSON.stringify({ bmx: { series: [{ idSerie: "SF43718", datos }] } }), {
+      status: 200,
+    });
+  }
+
+  it("requests /datos/<from>/<to> and returns each FIX with its own date, dropping N/E", async () => {
+    let seen = "";
+    const fixes = await fetchBanxicoFixRange({
+      ...OPTS,
+      ...RANGE,
+      fetchImpl: ((url: string) => {
+        seen = url;
+        return Promise.resolve(
+          windowResponse([
+            { fecha: "10/08/2026", dato: "18.61" },
+            { fecha: "11/08/2026", dato: "N/E" },
+            { fecha: "14/08/2026", dato: "18.9012" },
+          ]),
+        );
+      }) as unknown as typeof fetch,
+    });
+    expect(seen).toBe(
+      "https://www.banxico.org.mx/SieAPIRest/service/v1/series/SF43718/datos/2026-08-10/2026-08-14",
+    );
+    expect(fixes).toEqual([
+      { rate: 18.61, date: "2026-08-10" },
+      { rate: 18.9012, date: "2026-08-14" },
+    ]);
+  });
+
+  it("throws when the window holds no FIX at all, or a rate that is not one", async () => {
+    await expect(
+      fetchBanxicoFixRange({
+        ...OPTS,
+        ...RANGE,
+        fetchImpl: fetchWith(() => windowResponse([{ fecha: "10/08/2026", dato: "N/E" }])),
+      }),
+    ).rejects.toThrow(/no FIX observation between 2026-08-10 and 2026-08-14/);
+    await expect(
+      fetchBanxicoFixRange({
+        ...OPTS,
+        ...RANGE,
+        fetchImpl: fetchWith(() => windowResponse([{ fecha: "10/08/2026", dato: "-" }])),
+      }),
+    ).rejects.toThrow(/non-positive FIX rate '-'/);
+  });
+
+  it("fails loud when the token is missing", async () => {
+    await expect(fetchBanxicoFixRange({ ...OPTS, ...RANGE, token: "" })).rejects.toThrow(
+      /BANXICO_TOKEN/,
+    );
+  });
+});
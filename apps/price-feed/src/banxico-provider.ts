@@ -12,7 +12,7 @@
  * token is read from the environment (`BANXICO_TOKEN`), never committed.
  */
 import type { FixObservation } from "@numisma/engine";
-import { fetchJson, isRecord } from "./provider.js";
+import { fetchJson, isRecord, type RetryContext } from "./provider.js";
 
 const BANXICO_SF43718_DATOS =
   "https://www.banxico.org.mx/SieAPIRest/service/v1/series/SF43718/datos";
@@ -22,10 +22,12 @@ const BANXICO_SF43718_DATOS =
  * `/datos/oportuno`, the newest published FIX. With one it pins BOTH ends of the SIE
  * range to the same day: `/datos/<target>/<target>`, inclusive.
  *
- * There is deliberately no multi-day form. {@link extractLatestDatum} takes the LAST
- * entry and the range endpoint returns ascending, so any window wider than a single
- * day would return the newest day's FIX for every day requested — a plausible-looking
- * wrong number rather than an error. One date in, that same date on both ends.
+ * This single-FIX fetch deliberately has no multi-day form. {@link extractLatestDatum}
+ * takes the LAST entry and the range endpoint returns ascending, so any window wider
+ * than a single day would return the newest day's FIX for every day requested — a
+ * plausible-looking wrong number rather than an error. One date in, that same date on
+ * both ends. A window is {@link fetchBanxicoFixRange}'s job, which returns every
+ * entry with its own date rather than one.
  */
 function seriesUrl(targetDate?: string): string {
   return targetDate === undefined
@@ -47,6 +49,8 @@ export interface FixFetchOptions {
   targetDate?: string;
   /** Injectable for tests; defaults to the global `fetch`. */
   fetchImpl?: typeof fetch;
+  /** The run's retry policy and tally; omitted, the request is tried once. */
+  retry?: RetryContext | undefined;
 }
 
 /**
@@ -65,6 +69,8 @@ export async function fetchBanxicoFix(options: FixFetchOptions): Promise<FixObse
     timeoutMs: options.timeoutMs,
     fetchImpl: options.fetchImpl,
     init: { headers: { "Bmx-Token": options.token, Accept: "application/json" } },
+    retry: options.retry,
+    label: "Banxico SF43718",
   });
   if (!r.ok) {
     throw new Error(`Banxico SF43718 -> ${r.reason}`);
@@ -77,6 +83,66 @@ export async function fetchBanxicoFix(options: FixFetchOptions): Promise<FixObse
   return { rate, date: isoDateFromBanxico(datum.fecha) };
 }
 
+export interface FixRangeFetchOptions {
+  timeoutMs: number;
+  /** The Banxico SIE token, read from `BANXICO_TOKEN`. */
+  token: string;
+  /** `YYYY-MM-DD` — the first day of the SIE window, inclusive. */
+  fromDate: string;
+  /** `YYYY-MM-DD` — the last day of the SIE window, inclusive. */
+  toDate: string;
+  /** Injectable for tests; defaults to the global `fetch`. */
+  fetchImpl?: typeof fetch;
+  /** The run's retry policy and tally; omitted, the request is tried once. */
+  retry?: RetryContext | undefined;
+}
+
+/**
+ * Fetch every USD/MXN FIX published between `fromDate` and `toDate` in ONE request
+ * (`/datos/<from>/<to>`), ascending, each with its own date. The caller picks the FIX
+ * for each day it derives; nothing here collapses the window to one number.
+ *
+ * An `N/E` entry (no FIX determined that day) is dropped rather than thrown: over a
+ * window it means "no FIX for that date", which the caller's freshness check already
+ * handles. Any other non-numeric or non-positive rate still throws, as does a missing
+ * token, an HTTP failure, a timeout or a window with no FIX at all.
+ */
+export async function fetchBanxicoFixRange(
+  options: FixRangeFetchOptions,
+): Promise<FixObservation[]> {
+  if (!options.token) {
+    throw new Error(
+      "Banxico SF43718 -> BANXICO_TOKEN is not set; export a free Banxico SIE token " +
+        "before fetching the USD/MXN FIX.",
+    );
+  }
+  const r = await fetchJson(`${BANXICO_SF43718_DATOS}/${options.fromDate}/${options.toDate}`, {
+    timeoutMs: options.timeoutMs,
+    fetchImpl: options.fetchImpl,
+    init: { headers: { "Bmx-Token": options.token, Accept: "application/json" } },
+    retry: options.retry,
+    label: "Banxico SF43718",
+  });
+  if (!r.ok) {
+    throw new Error(`Banxico SF43718 -> ${r.reason}`);
+  }
+  const fixes: FixObservation[] = [];
+  for (const datum of extractAllData(r.body)) {
+    if (datum.dato.trim() === "N/E") continue;
+    const rate = Number(datum.dato);
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`Banxico SF43718 -> non-positive FIX rate '${datum.dato}'`);
+    }
+    fixes.push({ rate, date: isoDateFromBanxico(datum.fecha) });
+  }
+  if (fixes.length === 0) {
+    throw new Error(
+      `Banxico SF43718 -> no FIX observation between ${options.fromDate} and ${options.toDate}`,
+    );
+  }
+  return fixes;
+}
+
 interface BanxicoDatum {
   fecha: string;
   dato: string;
@@ -84,6 +150,12 @@ interface BanxicoDatum {
 
 /** Dig the single latest `{ fecha, dato }` out of the SIE `bmx.series[0].datos[0]`. */
 function extractLatestDatum(body: unknown): BanxicoDatum {
+  const datos = extractAllData(body);
+  return datos[datos.length - 1]!;
+}
+
+/** Every `{ fecha, dato }` in the SIE `bmx.series[0].datos`, in payload order (ascending). */
+function extractAllData(body: unknown): BanxicoDatum[] {
   if (!isRecord(body)) {
     throw new Error("Banxico SF43718 -> unexpected payload shape");
   }
@@ -95,11 +167,12 @@ function extractLatestDatum(body: unknown): BanxicoDatum {
   if (!isRecord(series) || !Array.isArray(series.datos) || series.datos.length === 0) {
     throw new Error("Banxico SF43718 -> no FIX observation in payload");
   }
-  const datum = series.datos[series.datos.length - 1];
-  if (!isRecord(datum) || typeof datum.fecha !== "string" || typeof datum.dato !== "string") {
-    throw new Error("Banxico SF43718 -> unexpected FIX observation shape");
-  }
-  return { fecha: datum.fecha, dato: datum.dato };
+  return series.datos.map((datum: unknown) => {
+    if (!isRecord(datum) || typeof datum.fecha !== "string" || typeof datum.dato !== "string") {
+      throw new Error("Banxico SF43718 -> unexpected FIX observation shape");
+    }
+    return { fecha: datum.fecha, dato: datum.dato };
+  });
 }
 
 /** Banxico reports `dd/MM/yyyy`; normalize to the `YYYY-MM-DD` the engine expects. */
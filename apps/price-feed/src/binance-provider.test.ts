@@ -2,7 +2,11 @@
 // every payload below is AUTHORED here — never a recorded real response.
 import { describe, expect, it } from "vitest";
 import type { InstrumentRegistryEntry } from "@numisma/engine";
-import { fetchBinanceDailyClose } from "./binance-provider.js";
+import {
+  fetchBinanceDailyClose,
+  fetchBinanceDailyCloseRange,
+  fetchBinanceIntradayClose,
+} from "./binance-provider.js";
 
 const BTC: InstrumentRegistryEntry = {
   instrumentId: "btc",
@@ -153,3 +157,101 @@ describe("fetchBinanceDailyClose — loud failures", () => {
     ).rejects.toThrow(/^Binance BTCUSDT -> HTTP 400/);
   });
 });
+
+describe("fetchBinanceDailyCloseRange — one window for a range of days", () => {
+  const FROM_START = Date.UTC(2026, 7, 10);
+  const DAY = 86_400_000;
+
+  it("asks for the whole range in one request, with limit raised past the default 500", async () => {
+    const { calls, impl } = recordingFetch([]);
+    await fetchBinanceDailyCloseRange(BTC, {
+      ...OPTS,
+      fetchImpl: impl,
+      now: NOW,
+      fromDate: "2026-08-10",
+      toDate: TARGET,
+    });
+    expect(calls).toEqual([
+      "https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1d" +
+        `&startTime=${FROM_START}&endTime=${TARGET_END}&limit=1000`,
+    ]);
+  });
+
+  it("returns every row dated by its own openTime, and an empty window as no rows", async () => {
+    const { impl } = recordingFetch([
+      kline(FROM_START, "58000.00"),
+      kline(FROM_START + 2 * DAY, "58500.25"),
+    ]);
+    const observations = await fetchBinanceDailyCloseRange(BTC, {
+      ...OPTS,
+      fetchImpl: impl,
+      now: NOW,
+      fromDate: "2026-08-10",
+      toDate: TARGET,
+    });
+    expect(observations.map((obs) => [obs.observationDate, obs.close])).toEqual([
+      ["2026-08-10", 58000],
+      ["2026-08-12", 58500.25],
+    ]);
+
+    const empty = recordingFetch([]);
+    await expect(
+      fetchBinanceDailyCloseRange(BTC, {
+        ...OPTS,
+        fetchImpl: empty.impl,
+        fromDate: "2026-08-10",
+        toDate: TARGET,
+      }),
+    ).resolves.toEqual([]);
+  });
+
+  it("fails the whole symbol on one bad row rather than dropping it", async () => {
+    const { impl } = recordingFetch([kline(FROM_START, "58000.00"), kline(FROM_START + DAY, "0")]);
+    await expect(
+      fetchBinanceDailyCloseRange(BTC, {
+        ...OPTS,
+        fetchImpl: impl,
+        fromDate: "2026-08-10",
+        toDate: TARGET,
+      }),
+    ).rejects.toThrow(/^Binance BTCUSDT -> non-positive close 0$/);
+  });
+});
+
+describe("fetchBinanceIntradayClose — the newest settled intraday candle", () => {
+  const HOUR = 3_600_000;
+  const settled = Date.parse("2026-08-17T16:00:00.000Z");
+
+  it("takes the settled candle of two, dated by its close", async () => {
+    const { calls, impl } = recordingFetch([kline(settled, "61234.5"), kline(settled + HOUR, "1")]);
+    const obs = await fetchBinanceIntradayClose(BTC, {
+      ...OPTS,
+      fetchImpl: impl,
+      now: NOW,
+      interval: "1h",
+    });
+    expect(calls[0]).toBe(
+      "https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1h&limit=2",
+    );
+    expect(obs.close).toBe(61234.5);
+    expect(obs.observedAt).toBe("2026-08-17T17:00:00.000Z");
+  });
+
+  it("refuses an interval it does not read, before any request", async () => {
+    const { calls, impl } = recordingFetch([]);
+    await expect(
+      fetchBinanceIntradayClose(BTC, { ...OPTS, fetchImpl: impl, interval: "1d" }),
+    ).rejects.toThrow(/^Binance BTCUSDT -> unsupported interval 1d$/);
+    expect(calls).toEqual([]);
+  });
+
+  it("never reads the running candle as a reading", async () => {
+    await expect(
+      fetchBinanceIntradayClose(BTC, {
+        ...OPTS,
+        fetchImpl: fetchWith(() => new Response(JSON.stringify([kline(settled, "1")]))),
+        interval: "1h",
+      }),
+    ).rejects.toThrow(/expected >=2 klines, got 1/);
+  });
+});
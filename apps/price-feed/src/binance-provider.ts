@@ -7,15 +7,24 @@
  * klines and takes the older, settled one — never the still-running current-day
  * candle (a live spot reading dressed as a close). Given a `targetDate` it instead
  * windows the request to that one past UTC day and takes the single row that comes
- * back. Every call is bounded by an `AbortController` timeout (R4) so a stalled
- * provider can never hang a scheduled run, and every failure carries the symbol so
- * it stays per-symbol attributable.
+ * back. A range recovery asks for every settled day between two past UTC days in
+ * ONE windowed request and hands back each row. Every call is bounded by an
+ * `AbortController` timeout (R4) so a stalled provider can never hang a scheduled
+ * run, and every failure carries the symbol so it stays per-symbol attributable.
+ *
+ * An INTRADAY reading (`prices:intraday`) is the live path's rule at a finer
+ * interval: the newest two candles of a configured interval, the settled one taken.
  */
 import type { InstrumentRegistryEntry } from "@numisma/engine";
 import { fetchJson, type FetchOptions, type ProviderObservation } from "./provider.js";
 
 const BINANCE_KLINES = "https://api.binance.com/api/v3/klines";
 const DAY_MS = 86_400_000;
+/**
+ * Binance's ceiling on `limit` for one klines request. A range recovery is capped at
+ * this many days so every symbol's history is exactly one request.
+ */
+export const BINANCE_MAX_KLINES = 1000;
 
 /**
  * Binance's own fetch options: the shared envelope plus an optional target day.
@@ -67,6 +76,8 @@ export async function fetchBinanceDailyClose(
   const r = await fetchJson(url, {
     timeoutMs: options.timeoutMs,
     fetchImpl: options.fetchImpl,
+    retry: options.retry,
+    label: `Binance ${entry.symbol}`,
   });
   if (!r.ok) {
     throw new Error(`Binance ${entry.symbol} -> ${r.reason}`);
@@ -92,7 +103,140 @@ export async function fetchBinanceDailyClose(
     throw new Error(`Binance ${entry.symbol} -> no kline for ${targetDate}`);
   }
   // The settled candle: the older row on the live path, the only row on the pinned one.
-  const row = rows[0];
+  return observationFromKline(entry, rows[0], now);
+}
+
+/** Binance's options for a range: the shared envelope plus both inclusive UTC days. */
+export interface BinanceRangeFetchOptions extends FetchOptions {
+  /** `YYYY-MM-DD` — the first past UTC day of the window. */
+  fromDate: string;
+  /** `YYYY-MM-DD` — the last past UTC day of the window, inclusive. */
+  toDate: string;
+}
+
+/**
+ * Fetch every settled daily close between `fromDate` and `toDate` (both inclusive)
+ * for one registry entry, in ONE request: `startTime`/`endTime` bound the whole
+ * window and `limit` is raised to {@link BINANCE_MAX_KLINES}, since Binance's default
+ * of 500 would silently truncate a long window. Both days are past UTC days, so
+ * every row is a complete candle — the same upstream guarantee the date-pinned path
+ * rests on.
+ *
+ * Returns one observation per row, each dated by its own `openTime`. A day with no
+ * row is not an error here — the orchestrator knows which days were owed and names
+ * each missing one. A malformed row or a non-positive close throws for the whole
+ * symbol, exactly as it does for one day: a range never quietly drops a bad bar.
+ */
+export async function fetchBinanceDailyCloseRange(
+  entry: InstrumentRegistryEntry,
+  options: BinanceRangeFetchOptions,
+): Promise<ProviderObservation[]> {
+  const now = options.now ?? (() => new Date());
+  const start = Date.parse(`${options.fromDate}T00:00:00.000Z`);
+  const last = Date.parse(`${options.toDate}T00:00:00.000Z`);
+  if (!Number.isFinite(start) || !Number.isFinite(last) || last < start) {
+    throw new Error(
+      `Binance ${entry.symbol} -> invalid range ${options.fromDate}..${options.toDate}`,
+    );
+  }
+  // `endTime` is INCLUSIVE, so the window ends on the last day's last millisecond.
+  const url =
+    `${BINANCE_KLINES}?symbol=${encodeURIComponent(entry.symbol)}&interval=1d` +
+    `&startTime=${start}&endTime=${last + DAY_MS - 1}&limit=${BINANCE_MAX_KLINES}`;
+  const r = await fetchJson(url, {
+    timeoutMs: options.timeoutMs,
+    fetchImpl: options.fetchImpl,
+    retry: options.retry,
+    label: `Binance ${entry.symbol}`,
+  });
+  if (!r.ok) {
+    throw new Error(`Binance ${entry.symbol} -> ${r.reason}`);
+  }
+  if (!Array.isArray(r.body)) {
+    throw new Error(`Binance ${entry.symbol} -> unexpected payload shape`);
+  }
+  return r.body.map((row: unknown) => observationFromKline(entry, row, now));
+}
+
+/**
+ * The kline intervals an intraday fetch may ask for, with their length in ms. Only
+ * intervals that divide a day evenly: every candle then closes inside one UTC day,
+ * and a cadence of "hourly" means the same candles on every day.
+ */
+export const BINANCE_INTRADAY_INTERVALS: Readonly<Record<string, number>> = {
+  "5m": 300_000,
+  "15m": 900_000,
+  "30m": 1_800_000,
+  "1h": 3_600_000,
+  "2h": 7_200_000,
+  "4h": 14_400_000,
+  "6h": 21_600_000,
+  "12h": 43_200_000,
+};
+
+/** Binance's options for an intraday reading: the shared envelope plus the interval. */
+export interface BinanceIntradayFetchOptions extends FetchOptions {
+  /** A key of {@link BINANCE_INTRADAY_INTERVALS}, e.g. `1h`. */
+  interval: string;
+}
+
+/** An intraday observation: the settled candle's close and the instant it closed. */
+export interface IntradayObservation extends ProviderObservation {
+  /** ISO instant the candle closed — its `openTime` plus the interval. */
+  observedAt: string;
+}
+
+/**
+ * Fetch the newest SETTLED intraday candle for a registry entry — the daily live
+ * path's rule at a finer interval: ask for the newest two `interval` klines and take
+ * the older one, never the still-running candle.
+ */
+export async function fetchBinanceIntradayClose(
+  entry: InstrumentRegistryEntry,
+  options: BinanceIntradayFetchOptions,
+): Promise<IntradayObservation> {
+  const now = options.now ?? (() => new Date());
+  const intervalMs = BINANCE_INTRADAY_INTERVALS[options.interval];
+  if (intervalMs === undefined) {
+    throw new Error(`Binance ${entry.symbol} -> unsupported interval ${options.interval}`);
+  }
+  const url =
+    `${BINANCE_KLINES}?symbol=${encodeURIComponent(entry.symbol)}` +
+    `&interval=${options.interval}&limit=2`;
+  const r = await fetchJson(url, {
+    timeoutMs: options.timeoutMs,
+    fetchImpl: options.fetchImpl,
+    retry: options.retry,
+    label: `Binance ${entry.symbol}`,
+  });
+  if (!r.ok) {
+    throw new Error(`Binance ${entry.symbol} -> ${r.reason}`);
+  }
+  const rows = r.body;
+  if (!Array.isArray(rows)) {
+    throw new Error(`Binance ${entry.symbol} -> unexpected payload shape`);
+  }
+  // The same settlement proxy as the daily live path: fewer than two rows may mean
+  // there is no settled candle, and a running one is never read as a close.
+  if (rows.length < 2) {
+    throw new Error(`Binance ${entry.symbol} -> expected >=2 klines, got ${rows.length}`);
+  }
+  const observation = observationFromKline(entry, rows[0], now);
+  // Unlike a daily bar, an intraday reading is useless without its instant, so a row
+  // with no usable openTime fails rather than falling back to the fetch clock.
+  const openTime = Number((rows[0] as unknown[])[0]);
+  if (!Number.isFinite(openTime)) {
+    throw new Error(`Binance ${entry.symbol} -> kline has no openTime`);
+  }
+  return { ...observation, observedAt: new Date(openTime + intervalMs).toISOString() };
+}
+
+/** One kline row as an observation, or a symbol-attributable throw. */
+function observationFromKline(
+  entry: InstrumentRegistryEntry,
+  row: unknown,
+  now: () => Date,
+): ProviderObservation {
   if (!Array.isArray(row)) {
     throw new Error(`Binance ${entry.symbol} -> unexpected payload shape`);
   }
@@ -102,7 +246,7 @@ export async function fetchBinanceDailyClose(
     throw new Error(`Binance ${entry.symbol} -> non-positive close ${String(row[4])}`);
   }
   // The bar's own date, from its `openTime` (epoch ms), in UTC — read from the
-  // payload on both paths, never assumed from the request. The orchestrator gates
+  // payload on every path, never assumed from the request. The orchestrator gates
   // the crypto mark on this equalling the run's `asOf`. Fall back to the fetch date
   // only if a payload ever omits a usable openTime.
   const openTime = Number(row[0]);
@@ -87,10 +87,13 @@ describe("parsePriceFetchArgs — refuses loudly rather than ignoring", () => {
     expect(() => parsePriceFetchArgs(["--as-of=yesterday"])).toThrow(/YYYY-MM-DD/);
   });
 
-  it("refuses a second --as-of: one date per run, a range is a shell loop", () => {
+  it("refuses a second --as-of: one date per run, several days are a range", () => {
     expect(() => parsePriceFetchArgs(["--as-of=2026-08-14", "--as-of=2026-08-15"])).toThrow(
       /once/i,
     );
+    expect(() => parsePriceFetchArgs(["--as-of=2026-08-14", "--as-of=2026-08-15"])).toThrow(
+      /--from and --to/,
+    );
   });
 
   it("throws PriceFetchRefusal for every refusal — the type the CLI renders bare", () => {
@@ -104,12 +107,52 @@ describe("parsePriceFetchArgs — refuses loudly rather than ignoring", () => {
       ["--as-of=2026-8-14"],
       ["--as-of=2026-08-14", "--as-of=2026-08-15"],
       ["--as-of=2026-08-14", "--"],
+      ["--from=2026-08-10"],
+      ["--from=2026-08-10", "--to=2026-08-14", "--as-of=2026-08-12"],
     ]) {
       expect(() => parsePriceFetchArgs(argv)).toThrow(PriceFetchRefusal);
     }
   });
 });
 
+describe("parsePriceFetchArgs — a --from/--to range", () => {
+  it("parses both ends in either spelling and either order", () => {
+    const range = { from: "2026-08-10", to: "2026-08-14" };
+    expect(parsePriceFetchArgs(["--from=2026-08-10", "--to=2026-08-14"])).toEqual(range);
+    expect(parsePriceFetchArgs(["--", "--to", "2026-08-14", "--from", "2026-08-10"])).toEqual(
+      range,
+    );
+  });
+
+  it("refuses half a range, naming the missing end", () => {
+    expect(() => parsePriceFetchArgs(["--from=2026-08-10"])).toThrow(/--to is missing/);
+    expect(() => parsePriceFetchArgs(["--to=2026-08-14"])).toThrow(/--from is missing/);
+  });
+
+  it("refuses a range alongside --as-of rather than choosing one", () => {
+    expect(() =>
+      parsePriceFetchArgs(["--as-of=2026-08-12", "--from=2026-08-10", "--to=2026-08-14"]),
+    ).toThrow(/one or the other/);
+  });
+
+  it("holds each end to the --as-of value rules", () => {
+    expect(() => parsePriceFetchArgs(["--from", "--to=2026-08-14"])).toThrow(/--from needs a date/);
+    expect(() => parsePriceFetchArgs(["--from=2026-8-10", "--to=2026-08-14"])).toThrow(
+      /--from value "2026-8-10"/,
+    );
+    expect(() =>
+      parsePriceFetchArgs(["--from=2026-08-10", "--to=2026-08-14", "--to=2026-08-15"]),
+    ).toThrow(/--to may be given once/);
+  });
+
+  it("leaves order and past-ness to runPriceFetchRange", () => {
+    expect(parsePriceFetchArgs(["--from=2026-08-14", "--to=2026-08-10"])).toEqual({
+      from: "2026-08-14",
+      to: "2026-08-10",
+    });
+  });
+});
+
 describe("parsePriceFetchArgs — the semantic half is NOT its job (R2.2 owns it)", () => {
   it("passes a well-shaped but impossible date straight through to runPriceFetch", () => {
     // Shape here, calendar reality and past-ness in `runPriceFetch` — so a
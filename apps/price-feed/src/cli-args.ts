@@ -28,7 +28,10 @@
 
 import { PriceFetchRefusal } from "./refusal.js";
 
-/** The flag surface of `prices:fetch`. One flag, one value, no range, no dry run. */
+/**
+ * The flag surface of `prices:fetch`: nothing (the daily job), one `--as-of` day, or
+ * one `--from`/`--to` range. No dry run.
+ */
 export interface PriceFetchArgs {
   /**
    * The past trading day to recover (`YYYY-MM-DD`), or absent for the ordinary
@@ -36,17 +39,30 @@ export interface PriceFetchArgs {
    * and whether it is in the past.
    */
   asOf?: string;
+  /**
+   * The first and last days of a range to recover, inclusive — always both or
+   * neither, and never with `asOf`. Shape-checked only; `runPriceFetchRange` decides
+   * whether the days are real, in order and in the past.
+   */
+  from?: string;
+  to?: string;
 }
 
 const AS_OF_FLAG = "--as-of";
+const FROM_FLAG = "--from";
+const TO_FLAG = "--to";
+const FLAGS = [AS_OF_FLAG, FROM_FLAG, TO_FLAG] as const;
+type Flag = (typeof FLAGS)[number];
 /** Shape only — `isIsoCalendarDate` in `runPriceFetch` owns calendar reality. */
 const ISO_SHAPE = /^\d{4}-\d{2}-\d{2}$/;
 
 const USAGE =
-  "usage: pnpm prices:fetch [--as-of=YYYY-MM-DD]\n" +
+  "usage: pnpm prices:fetch [--as-of=YYYY-MM-DD | --from=YYYY-MM-DD --to=YYYY-MM-DD]\n" +
   "  no flag        fetch today's closes (the daily job)\n" +
-  "  --as-of <date> recover one past trading day; for several days, loop the\n" +
-  "                 command — the inbox merge makes repetition safe.";
+  "  --as-of <date> recover one past trading day\n" +
+  "  --from <date> --to <date>\n" +
+  "                 recover every day from one to the other, inclusive, in one\n" +
+  "                 run — the inbox merge makes repeating any day safe.";
 
 /**
  * Parse `prices:fetch` arguments, throwing an operator-readable `Error` on anything
@@ -57,40 +73,41 @@ const USAGE =
  * dangerous: `--asof=2026-08-14`, quietly dropped, would run the DAILY job against
  * today, report success and exit 0 — indistinguishable from a completed recovery of
  * 2026-08-14. That is #356's exact failure shape, re-created inside the fix for
- * #356. A missing or malformed value fails the same way, and for the same reason.
+ * #356. A missing or malformed value fails the same way, and for the same reason —
+ * and so does half a range: a lone `--from` has no honest reading.
  *
  * @param argv the arguments AFTER the node/script pair (i.e. `process.argv.slice(2)`).
  */
 export function parsePriceFetchArgs(argv: readonly string[]): PriceFetchArgs {
-  let asOf: string | undefined;
+  const values: Partial<Record<Flag, string>> = {};
 
-  const take = (value: string | undefined, spelling: string): string => {
+  const take = (flag: Flag, value: string | undefined, spelling: string): string => {
     if (value === undefined || value === "" || value.startsWith("-")) {
       throw new PriceFetchRefusal(
-        `${AS_OF_FLAG} needs a date: write ${AS_OF_FLAG}=YYYY-MM-DD or ` +
-          `${AS_OF_FLAG} YYYY-MM-DD (got "${spelling}").\n${USAGE}`,
+        `${flag} needs a date: write ${flag}=YYYY-MM-DD or ` +
+          `${flag} YYYY-MM-DD (got "${spelling}").\n${USAGE}`,
       );
     }
     if (!ISO_SHAPE.test(value)) {
       throw new PriceFetchRefusal(
-        `${AS_OF_FLAG} value "${value}" is not a date in YYYY-MM-DD form ` +
+        `${flag} value "${value}" is not a date in YYYY-MM-DD form ` +
           `(zero-padded, e.g. 2026-08-14).\n${USAGE}`,
       );
     }
     return value;
   };
 
-  const claim = (value: string): void => {
-    if (asOf !== undefined) {
-      // One date per run. A range is a shell loop wearing a flag, and a multi-day
-      // window walks into the Banxico ordering trap the pinned one-day path avoids.
+  const claim = (flag: Flag, value: string): void => {
+    const earlier = values[flag];
+    if (earlier !== undefined) {
+      // One date per flag. Several `--as-of` days are a range, and a range says so.
       throw new PriceFetchRefusal(
-        `${AS_OF_FLAG} may be given once — this command recovers one day per run ` +
-          `(got "${asOf}" and "${value}"). For several days, loop the command; the ` +
-          `inbox merges by id, so repeating a day is safe.\n${USAGE}`,
+        `${flag} may be given once (got "${earlier}" and "${value}"). For several ` +
+          `days, give ${FROM_FLAG} and ${TO_FLAG}; the inbox merges by id, so ` +
+          `repeating a day is safe.\n${USAGE}`,
       );
     }
-    asOf = value;
+    values[flag] = value;
   };
 
   // ⚠️ ONE leading bare `--`, and only a leading one, is skipped. pnpm 11 forwards
@@ -104,24 +121,41 @@ export function parsePriceFetchArgs(argv: readonly string[]): PriceFetchArgs {
   // never do (a silently-dropped flag runs the DAILY job and reports success).
   const args = argv[0] === "--" ? argv.slice(1) : argv;
 
-  for (let i = 0; i < args.length; i++) {
+  argLoop: for (let i = 0; i < args.length; i++) {
     const arg = args[i]!;
-    if (arg === AS_OF_FLAG) {
-      claim(take(args[i + 1], arg));
-      i++;
-      continue;
-    }
-    if (arg.startsWith(`${AS_OF_FLAG}=`)) {
-      claim(take(arg.slice(AS_OF_FLAG.length + 1), arg));
-      continue;
+    for (const flag of FLAGS) {
+      if (arg === flag) {
+        claim(flag, take(flag, args[i + 1], arg));
+        i++;
+        continue argLoop;
+      }
+      if (arg.startsWith(`${flag}=`)) {
+        claim(flag, take(flag, arg.slice(flag.length + 1), arg));
+        continue argLoop;
+      }
     }
     throw new PriceFetchRefusal(
-      `unknown argument "${arg}". \`prices:fetch\` takes ${AS_OF_FLAG} and nothing ` +
-        `else, and refuses what it does not understand rather than ignoring it: a ` +
-        `silently-dropped flag would run the ordinary daily job and report success, ` +
-        `which is indistinguishable from a completed recovery.\n${USAGE}`,
+      `unknown argument "${arg}". \`prices:fetch\` takes ${AS_OF_FLAG}, or ${FROM_FLAG} ` +
+        `with ${TO_FLAG}, and nothing else, and refuses what it does not understand ` +
+        `rather than ignoring it: a silently-dropped flag would run the ordinary daily ` +
+        `job and report success, which is indistinguishable from a completed recovery.\n${USAGE}`,
     );
   }
 
-  return asOf === undefined ? {} : { asOf };
+  const { [AS_OF_FLAG]: asOf, [FROM_FLAG]: from, [TO_FLAG]: to } = values;
+  if (asOf !== undefined && (from !== undefined || to !== undefined)) {
+    throw new PriceFetchRefusal(
+      `${AS_OF_FLAG} recovers one day and ${FROM_FLAG}/${TO_FLAG} a range — give one ` +
+        `or the other, not both.\n${USAGE}`,
+    );
+  }
+  if ((from === undefined) !== (to === undefined)) {
+    const missing = from === undefined ? FROM_FLAG : TO_FLAG;
+    throw new PriceFetchRefusal(
+      `${missing} is missing: a range needs both ends. For one day, give ` +
+        `${AS_OF_FLAG}.\n${USAGE}`,
+    );
+  }
+  if (asOf !== undefined) return { asOf };
+  return from === undefined || to === undefined ? {} : { from, to };
 }
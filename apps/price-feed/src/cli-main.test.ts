@@ -6,13 +6,27 @@
 // The pin that matters most is the pair: the same stale-bar skip is INFO + exit 0 on
 // the live daily path and a FAILURE + exit 1 under an explicit `--as-of`. Both
 // halves are asserted, because either one alone would let the other regress.
-import { mkdtemp, readdir, rm, stat } from "node:fs/promises";
+import { mkdtemp, readdir, readFile, rm, stat } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join, relative } from "node:path";
-import type { PriceMarkedEvent, PriceSource, Quote } from "@numisma/engine";
+import {
+  CODE_INSTRUMENT_REGISTRY,
+  extendInstrumentRegistry,
+  type PriceMarkedEvent,
+  type PriceSource,
+  type Quote,
+} from "@numisma/engine";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import { runPriceFetchCli, type PriceFetchCliDeps } from "./cli-main.js";
-import { runPriceFetch, type FetchRunResult, type RunOptions } from "./fetch-prices.js";
+import {
+  runPriceFetch,
+  runPriceFetchRange,
+  type FetchRunResult,
+  type RangeFetchRunResult,
+  type RangeRunOptions,
+  type RecoveredDay,
+  type RunOptions,
+} from "./fetch-prices.js";
 import { resolvePriceFeedPaths } from "./paths.js";
 import type { RejectionScan } from "./rejection-check.js";
 
@@ -67,8 +81,15 @@ function runResult(overrides: Partial<FetchRunResult> = {}): FetchRunResult {
     skippedCount: 0,
     markEmitted: true,
     marks: all.map((q) => mark(q.instrumentId, RECOVERY_AS_OF)),
+    fxMarks: [],
+    fxEmittedCount: 0,
     failures: [],
     staleMarkSkips: [],
+    fallbacks: [],
+    held: [],
+    retries: [],
+    instruments: CODE_INSTRUMENT_REGISTRY,
+    registryIssues: [],
     ...overrides,
   };
 }
@@ -191,6 +212,33 @@ describe("prices:fetch — with no arguments the live daily path is unchanged",
     expect(captured.exitCode).toBe(1);
     expect(captured.err).toMatch(/SPINE WOULD REJECT/);
   });
+
+  it("exits 1 on a consensus hold, reported as HELD rather than as a spine rejection", async () => {
+    const captured = await invoke(
+      [],
+      () => Promise.resolve(runResult({ asOf: LIVE_AS_OF })),
+      {
+        rejections: [
+          {
+            id: "pm-eth-2026-08-17",
+            instrumentId: "eth",
+            asOf: LIVE_AS_OF,
+            price: 3450,
+            path: "price",
+            reason: "close 3450 is 15.0% from the last stored close 3000 (2026-08-16)",
+            held: true,
+          },
+        ],
+        skipped: false,
+      },
+    );
+
+    expect(captured.exitCode).toBe(1);
+    expect(captured.err).toMatch(/HELD {2}eth {5}2026-08-17 {2}price 3450 — close 3450 is 15.0%/);
+    expect(captured.err).not.toMatch(/SPINE WOULD REJECT/);
+    expect(captured.out).toMatch(/1 fetched mark\(s\) held by the consensus check/);
+    expect(captured.out).toMatch(/PRICE_CONSENSUS_BAND= pnpm prices:fetch/);
+  });
 });
 
 describe("prices:fetch --as-of — the three-state report (R3.2)", () => {
@@ -258,6 +306,34 @@ describe("prices:fetch --as-of — the three-state report (R3.2)", () => {
     expect(captured.out).toMatch(/recovery of 2026-08-14 — 13 owed, 12 marked, 1 absent/);
   });
 
+  it("names a close the consensus check held as absent, with the check's sentence", async () => {
+    const held = {
+      id: `pm-eth-${RECOVERY_AS_OF}`,
+      instrumentId: "eth",
+      asOf: RECOVERY_AS_OF,
+      price: 3450,
+      path: "price",
+      reason: "close 3450 is 15.0% from the last stored close 3000 (2026-08-13)",
+      held: true as const,
+    };
+    const captured = await invoke(
+      ["--as-of=2026-08-14"],
+      () =>
+        Promise.resolve(
+          runResult({
+            emittedCount: 12,
+            marks: runResult().marks.filter((m) => m.instrumentId !== "eth"),
+            held: [held],
+          }),
+        ),
+      { rejections: [held], skipped: false },
+    );
+
+    expect(captured.exitCode).toBe(1);
+    expect(captured.err).toMatch(/ABSENT {2}eth .*held by the consensus check: close 3450/);
+    expect(captured.err).toMatch(/suspected: a bad print, or a real move wider than the band/);
+  });
+
   it("says in as many words that the exit code cannot tell a holiday from a fault", async () => {
     const captured = await invoke(["--as-of=2026-08-14"], () =>
       Promise.resolve(
@@ -312,6 +388,163 @@ describe("prices:fetch --as-of — the three-state report (R3.2)", () => {
     expect(captured.err).toMatch(/ABSENT {2}gram/);
     expect(captured.err).toMatch(/no reason was recorded/);
   });
+
+  it("classifies against the registry the RUN fetched, instruments.jsonl rows included", async () => {
+    const instruments = extendInstrumentRegistry([
+      {
+        instrumentId: "vti",
+        symbol: "VTI",
+        quoteCurrency: "USD",
+        source: "twelvedata",
+        addedAt: "2026-08-01",
+      },
+    ]);
+    const captured = await invoke(["--as-of=2026-08-14"], () =>
+      Promise.resolve(runResult({ instruments, totalCount: 14 })),
+    );
+
+    expect(captured.exitCode).toBe(1);
+    expect(captured.err).toMatch(/ABSENT {2}vti/);
+  });
+
+  it("prints a skipped instruments.jsonl line on stderr without failing the run", async () => {
+    const issue = "instruments.jsonl line 2 skipped (symbol): symbol is not uppercase letters";
+    const captured = await invoke(["--as-of=2026-08-14"], () =>
+      Promise.resolve(runResult({ registryIssues: [issue] })),
+    );
+
+    expect(captured.exitCode).toBe(0);
+    expect(captured.err).toMatch(/REGISTRY {2}instruments\.jsonl line 2 skipped \(symbol\)/);
+  });
+
+  it("prints a fallback that served on stdout, naming the provider, without failing the run", async () => {
+    const captured = await invoke(["--as-of=2026-08-14"], () =>
+      Promise.resolve(
+        runResult({
+          fallbacks: [
+            {
+              instrumentId: "eth",
+              symbol: "ETHUSDT",
+              source: "binance",
+              servedBy: "coinbase",
+              servedSymbol: "ETH-USD",
+              failedAttempts: ["Binance ETHUSDT -> HTTP 503 Service Unavailable"],
+            },
+          ],
+        }),
+      ),
+    );
+
+    expect(captured.exitCode).toBe(0);
+    expect(captured.out).toMatch(
+      /FALLBACK {2}eth +ETHUSDT +served by coinbase ETH-USD — Binance ETHUSDT -> HTTP 503/,
+    );
+  });
+
+  it("lists each fallback's reason under the primary failure it could not cover", async () => {
+    const captured = await invoke([], () =>
+      Promise.resolve(
+        runResult({
+          failures: [
+            {
+              instrumentId: "aapl",
+              symbol: "AAPL",
+              message: "Twelve Data AAPL -> symbol halted",
+              fallbackErrors: ["Alpha Vantage AAPL -> ALPHAVANTAGE_API_KEY is not set"],
+            },
+          ],
+        }),
+      ),
+    );
+
+    expect(captured.exitCode).toBe(1);
+    expect(captured.err).toMatch(
+      /FETCH FAILED {2}aapl +AAPL +Twelve Data AAPL -> symbol halted\n {4}fallback also failed: Alpha Vantage AAPL/,
+    );
+  });
+});
+
+describe("prices:fetch — retried requests are reported, and tallied for the heartbeat", () => {
+  const RETRIES: FetchRunResult["retries"] = [
+    {
+      request: "Binance BTCUSDT",
+      attempts: 2,
+      reasons: ["HTTP 503 Service Unavailable"],
+      recovered: true,
+    },
+    {
+      request: "Twelve Data AAPL,GOOGL",
+      attempts: 3,
+      reasons: ["HTTP 502 Bad Gateway", "request timed out after 30000ms"],
+      recovered: false,
+    },
+  ];
+  let tallyDir: string;
+
+  beforeEach(async () => {
+    tallyDir = await mkdtemp(join(tmpdir(), "price-feed-retries-"));
+  });
+
+  afterEach(async () => {
+    await rm(tallyDir, { recursive: true, force: true });
+  });
+
+  async function invokeWithTally(result: FetchRunResult) {
+    const out: string[] = [];
+    const err: string[] = [];
+    const retryTallyPath = join(tallyDir, "price-feed.retries");
+    const exitCode = await runPriceFetchCli({
+      argv: [],
+      run: () => Promise.resolve(result),
+      scan: () => Promise.resolve(CLEAN_SCAN),
+      retryTallyPath,
+      log: (line) => out.push(line),
+      logError: (line) => err.push(line),
+    });
+    const tally = await readFile(retryTallyPath, "utf8");
+    return { exitCode, out: out.join("\n"), err: err.join("\n"), tally };
+  }
+
+  it("prints a recovered retry as INFO and leaves the exit code alone", async () => {
+    const captured = await invokeWithTally(runResult({ retries: RETRIES.slice(0, 1) }));
+
+    expect(captured.exitCode).toBe(0);
+    expect(captured.out).toMatch(
+      /RETRIED {2}Binance BTCUSDT — served on attempt 2 \(HTTP 503 Service Unavailable\)/,
+    );
+    expect(captured.out).toMatch(/1 request\(s\) retried, 0 still failing/);
+    expect(captured.tally).toBe("1 0\n");
+  });
+
+  it("prints an exhausted retry on stderr with every reason, beside its failure", async () => {
+    const captured = await invokeWithTally(
+      runResult({
+        retries: RETRIES,
+        failures: [
+          {
+            instrumentId: "aapl",
+            symbol: "AAPL",
+            message: "Twelve Data AAPL -> HTTP 502 Bad Gateway",
+          },
+        ],
+      }),
+    );
+
+    // The failure exits 1, exactly as it did before the retry: nothing new gates the run.
+    expect(captured.exitCode).toBe(1);
+    expect(captured.err).toMatch(
+      /RETRIED {2}Twelve Data AAPL,GOOGL — still failing after 3 attempt\(s\): HTTP 502 Bad Gateway; request/,
+    );
+    expect(captured.out).toMatch(/2 request\(s\) retried, 1 still failing/);
+    expect(captured.tally).toBe("2 1\n");
+  });
+
+  it("writes a zero tally on a run that retried nothing, and prints nothing about it", async () => {
+    const captured = await invokeWithTally(runResult());
+
+    expect(captured.out).not.toMatch(/RETRIED|retried/);
+    expect(captured.tally).toBe("0 0\n");
+  });
 });
 
 describe("prices:fetch — refusals render as one sentence, never a stack trace", () => {
@@ -391,6 +624,133 @@ describe("prices:fetch — refusals render as one sentence, never a stack trace"
   });
 });
 
+describe("prices:fetch --from/--to — the three-state report, day by day", () => {
+  const FRIDAY = RECOVERY_AS_OF;
+  const SATURDAY = "2026-08-15";
+
+  /** An authored clean day: every owed instrument marked. */
+  function day(asOf: string, owed: ReadonlyArray<readonly [string, string]>): RecoveredDay {
+    const notOwed = EQUITIES.filter((row) => !owed.includes(row)).map(([instrumentId, symbol]) => ({
+      instrumentId,
+      symbol,
+      source: "twelvedata" as const,
+    }));
+    return {
+      asOf,
+      notOwed,
+      totalCount: owed.length,
+      quotes: owed.map(([id, symbol]) => quote(id, symbol, asOf, "binance")),
+      marks: owed.map(([id]) => mark(id, asOf)),
+      held: [],
+      fxMarks: [],
+      failures: [],
+    };
+  }
+
+  function rangeResult(days: RecoveredDay[]): RangeFetchRunResult {
+    const marks = days.flatMap((d) => d.marks);
+    return {
+      from: days[0]!.asOf,
+      to: days[days.length - 1]!.asOf,
+      days,
+      quotes: days.flatMap((d) => d.quotes),
+      marks,
+      held: [],
+      fxMarks: [],
+      fxEmittedCount: 0,
+      retries: [],
+      failures: [],
+      storedCount: marks.length,
+      emittedCount: marks.length,
+      skippedCount: 0,
+      instruments: CODE_INSTRUMENT_REGISTRY,
+      registryIssues: [],
+    };
+  }
+
+  async function invokeRange(
+    argv: readonly string[],
+    runRange: (options: RangeRunOptions) => Promise<RangeFetchRunResult>,
+  ) {
+    const out: string[] = [];
+    const err: string[] = [];
+    let options: RangeRunOptions | undefined;
+    let scanned: Parameters<NonNullable<PriceFetchCliDeps["scan"]>>[0] | undefined;
+    const exitCode = await runPriceFetchCli({
+      argv,
+      run: () => Promise.reject(new Error("the one-day run must not be reached")),
+      runRange: (received) => {
+        options = received;
+        return runRange(received);
+      },
+      scan: (received) => {
+        scanned = received;
+        return Promise.resolve(CLEAN_SCAN);
+      },
+      log: (line) => out.push(line),
+      logError: (line) => err.push(line),
+    });
+    return { exitCode, out: out.join("\n"), err: err.join("\n"), options, scanned };
+  }
+
+  it("exits 0 with one tally per day, and pre-checks the whole merge at once", async () => {
+    const all = [...CRYPTO, ...EQUITIES];
+    const captured = await invokeRange(["--from=2026-08-14", "--to", "2026-08-15"], () =>
+      Promise.resolve(rangeResult([day(FRIDAY, all), day(SATURDAY, CRYPTO)])),
+    );
+
+    expect(captured.options).toStrictEqual({ from: FRIDAY, to: SATURDAY });
+    expect(captured.exitCode).toBe(0);
+    expect(captured.out).toMatch(/recovering 2026-08-14 → 2026-08-15/);
+    expect(captured.out).toMatch(/17 quotes stored across 2 day\(s\)/);
+    expect(captured.out).toMatch(
+      /recovery of 2026-08-14 — 13 owed, 13 marked, 0 absent; 0 not owed/,
+    );
+    expect(captured.out).toMatch(
+      /recovery of 2026-08-15 — 4 owed, 4 marked, 0 absent; 9 not owed/,
+    );
+    expect(captured.scanned).toMatchObject({ markEmitted: true, emittedCount: 17 });
+    expect(captured.scanned?.marks).toHaveLength(17);
+  });
+
+  it("exits 1 when any day has an absent instrument, naming the day and the provider's words", async () => {
+    const friday = day(FRIDAY, [...CRYPTO, ...EQUITIES]);
+    const short: RecoveredDay = {
+      ...friday,
+      marks: friday.marks.filter((m) => m.instrumentId !== "tsla"),
+      failures: [
+        {
+          instrumentId: "tsla",
+          symbol: "TSLA",
+          message: "Twelve Data TSLA -> no bar dated 2026-08-14 in the response",
+        },
+      ],
+    };
+    const captured = await invokeRange(["--from=2026-08-14", "--to=2026-08-15"], () =>
+      Promise.resolve(rangeResult([short, day(SATURDAY, CRYPTO)])),
+    );
+
+    expect(captured.exitCode).toBe(1);
+    expect(captured.err).toMatch(
+      /RECOVERY INCOMPLETE — 1 owed instrument\(s\) produced no mark for 2026-08-14/,
+    );
+    expect(captured.err).toMatch(/ABSENT {2}tsla .*no bar dated 2026-08-14/);
+    expect(captured.out).toMatch(/recovery of 2026-08-15 — 4 owed, 4 marked, 0 absent/);
+    // The caveat is the run's, not the day's — said once.
+    expect(captured.out.match(/CANNOT distinguish/g)).toHaveLength(1);
+  });
+
+  it("renders runPriceFetchRange's refusal as one readable message", async () => {
+    const captured = await invokeRange(["--from=2026-08-14", "--to=2026-08-17"], (options) =>
+      runPriceFetchRange({ ...options, now: () => new Date("2026-08-17T15:00:00.000Z") }),
+    );
+
+    expect(captured.exitCode).toBe(1);
+    expect(captured.err).toMatch(/to "2026-08-17" is not in the past/);
+    expect(captured.err).not.toMatch(/\n\s+at /);
+  });
+});
+
 describe("prices:fetch --as-of — the run writes stored quotes and inbox marks ONLY (R3.4)", () => {
   let dataDir: string;
 
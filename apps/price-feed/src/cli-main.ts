@@ -36,6 +36,10 @@
  * loop — a catch-up pass at the top of the daily job — it inherits the nightly
  * channel and #266 D7's argument reaches it. Then, and only then, revisit.
  *
+ * A `--from`/`--to` range is the same contract applied day by day: each day of the
+ * range gets its own owed / marked / absent line, and an absent instrument on ANY day
+ * exits 1. The spine pre-check runs once, over the range's single inbox merge.
+ *
  * ── THE STALE-BAR BOUNDARY, WHICH CUTS BOTH WAYS ─────────────────────────────────
  *
  * A stale-bar skip (`staleMarkSkips`) on an OWED instrument is a FAILURE under an
@@ -53,12 +57,31 @@
  * daily wrapper's EXIT trap, so the operational rule is simply NEVER ROUTE RECOVERY
  * THROUGH THE WRAPPER). No spine invocation, no accumulus commit, no projection
  * refresh — all three stay the operator's, in the runbook.
+ *
+ * ── THE RETRY TALLY ──────────────────────────────────────────────────────────────
+ *
+ * Requests that needed a retry are printed as `RETRIED` lines, recovered or not, and
+ * change no exit code: one that recovered is a clean fetch, and one that did not is
+ * already a `FETCH FAILED`. Given `retryTallyPath` (the wrapper exports
+ * `PRICE_FETCH_RETRY_TALLY`), the counts are also written there as one
+ * `<retried> <exhausted>` line for the heartbeat, which is pure bash and cannot read
+ * this report. Only the wrapper sets it, so a recovery run writes nothing there.
  */
-import { instrumentsForSource, type PriceSource } from "@numisma/engine";
+import { instrumentsForSource, type InstrumentRegistry, type PriceSource } from "@numisma/engine";
+import { atomicWrite } from "./atomic-write.js";
 import { DEFAULT_CONFIG, type PriceFeedConfig } from "./config.js";
-import { parsePriceFetchArgs } from "./cli-args.js";
-import { runPriceFetch, type FetchRunResult, type RunOptions } from "./fetch-prices.js";
+import { parsePriceFetchArgs, type PriceFetchArgs } from "./cli-args.js";
+import {
+  runPriceFetch,
+  runPriceFetchRange,
+  type FetchFallback,
+  type FetchRunResult,
+  type RangeFetchRunResult,
+  type RangeRunOptions,
+  type RunOptions,
+} from "./fetch-prices.js";
 import { resolvePriceFeedPaths } from "./paths.js";
+import type { RetryOutcome } from "./provider.js";
 import { PriceFetchRefusal } from "./refusal.js";
 import { scanFetchedMarks, type RejectionScan } from "./rejection-check.js";
 
@@ -69,11 +92,21 @@ export interface PriceFetchCliDeps {
   /** Config overrides; omitted entirely on the real command so the run reads DEFAULT_CONFIG. */
   config?: Partial<PriceFeedConfig>;
   run?: (options: RunOptions) => Promise<FetchRunResult>;
+  runRange?: (options: RangeRunOptions) => Promise<RangeFetchRunResult>;
   scan?: typeof scanFetchedMarks;
+  /** Where to write the `<retried> <exhausted>` tally; omitted, nothing is written. */
+  retryTallyPath?: string | undefined;
   log?: (line: string) => void;
   logError?: (line: string) => void;
 }
 
+/** What the three-state classification reads: one recovered day, from either path. */
+type RecoveryTally = Pick<
+  FetchRunResult,
+  "asOf" | "notOwed" | "totalCount" | "marks" | "failures"
+> &
+  Partial<Pick<FetchRunResult, "staleMarkSkips" | "held">>;
+
 /** One owed instrument that produced no mark — the third state, and the one that exits 1. */
 interface AbsentInstrument {
   instrumentId: string;
@@ -102,9 +135,9 @@ export async function runPriceFetchCli(deps: PriceFetchCliDeps): Promise<number>
   const config: PriceFeedConfig = { ...DEFAULT_CONFIG, ...deps.config };
   const paths = resolvePriceFeedPaths(config.dataDir);
 
-  let asOf: string | undefined;
+  let args: PriceFetchArgs;
   try {
-    asOf = parsePriceFetchArgs(deps.argv).asOf;
+    args = parsePriceFetchArgs(deps.argv);
   } catch (error) {
     // The parser throws `PriceFetchRefusal` and nothing else; anything else escaping
     // it is a defect in the parser itself and must keep its stack.
@@ -112,6 +145,10 @@ export async function runPriceFetchCli(deps: PriceFetchCliDeps): Promise<number>
     logError(`prices:fetch — ${error.message}`);
     return 1;
   }
+  if (args.from !== undefined && args.to !== undefined) {
+    return runRangeRecoveryCli({ from: args.from, to: args.to }, deps, config, log, logError);
+  }
+  const { asOf } = args;
   const recovering = asOf !== undefined;
 
   const options: RunOptions = {
@@ -149,17 +186,32 @@ export async function runPriceFetchCli(deps: PriceFetchCliDeps): Promise<number>
       `  fetched ${quote.instrumentId.padEnd(7)} ${quote.symbol.padEnd(11)} ${quote.asOf}  ${quote.price}`,
     );
   }
+  for (const fxMark of result.fxMarks) {
+    const pair = `USD/${fxMark.currency}`;
+    log(`  rate    ${"fx".padEnd(7)} ${pair.padEnd(11)} ${fxMark.asOf}  ${fxMark.rate}`);
+  }
   for (const failure of result.failures) {
     logError(
       `  FETCH FAILED  ${failure.instrumentId.padEnd(7)} ${failure.symbol.padEnd(11)} ${failure.message}`,
     );
+    for (const fallbackError of failure.fallbackErrors ?? []) {
+      logError(`    fallback also failed: ${fallbackError}`);
+    }
   }
+  reportFallbacks(result.fallbacks, log);
+  await reportRetries(result.retries, deps.retryTallyPath, log, logError);
 
   log("");
   log(`prices:fetch — ${result.storedCount}/${result.totalCount} quotes stored in ${paths.pricesDir}`);
   if (result.markEmitted) {
     log(`  ${result.emittedCount} new PriceMarked candidate(s) written to ${paths.inbox}`);
     log(`  ${result.skippedCount} already pending (same id) — skipped`);
+    if (result.fxMarks.length > 0) {
+      log(
+        `  ${result.fxEmittedCount}/${result.fxMarks.length} FxMarked candidate(s) new to the ` +
+          `inbox; the rest already pending`,
+      );
+    }
   } else {
     log(
       `  before the ${config.markTime} ${config.timeZone} mark time — store upserted, no mark emitted`,
@@ -168,11 +220,12 @@ export async function runPriceFetchCli(deps: PriceFetchCliDeps): Promise<number>
   if (result.failures.length > 0) {
     log(`  ${result.failures.length} fetch failure(s) surfaced above (not swallowed).`);
   }
+  reportRegistryIssues(result.registryIssues, logError);
 
   // The three-state report — recovery path only. On the live path the classification
   // is not even computed: before the mark time a live run legitimately has zero marks
   // and must still exit 0, and a weekend stale skip is INFO there by design.
-  const absent = recovering ? classifyAbsent(result) : [];
+  const absent = recovering ? classifyAbsent(result, result.instruments) : [];
   if (recovering) {
     reportRecovery(result, absent, log, logError);
   }
@@ -195,12 +248,170 @@ export async function runPriceFetchCli(deps: PriceFetchCliDeps): Promise<number>
 
   // Non-zero exit so a scheduler notices — but only AFTER storing and emitting
   // everything that DID succeed (partial progress is always kept). A provider
-  // failure, a guard rejection and an absent owed instrument are three distinct
-  // triage paths (surfaced above) but all must halt a hands-off run so the operator
-  // looks before `pnpm spine`.
+  // failure, a guard rejection (or a consensus hold, which rides the same list) and
+  // an absent owed instrument are distinct triage paths (surfaced above) but all
+  // must halt a hands-off run so the operator looks before `pnpm spine`.
   return result.failures.length > 0 || scan.rejections.length > 0 || absent.length > 0 ? 1 : 0;
 }
 
+/**
+ * The `--from`/`--to` half of the command: one range run, then the same report the
+ * one-day recovery prints, with the three-state tally repeated for every day.
+ */
+async function runRangeRecoveryCli(
+  range: { from: string; to: string },
+  deps: PriceFetchCliDeps,
+  config: PriceFeedConfig,
+  log: (line: string) => void,
+  logError: (line: string) => void,
+): Promise<number> {
+  const runRange = deps.runRange ?? runPriceFetchRange;
+  const scanImpl = deps.scan ?? scanFetchedMarks;
+  const paths = resolvePriceFeedPaths(config.dataDir);
+
+  let result: RangeFetchRunResult;
+  try {
+    result = await runRange({
+      ...(deps.config === undefined ? {} : { config: deps.config }),
+      ...range,
+    });
+  } catch (error) {
+    // The same gate as the one-day path: a range refusal is a sentence, a fault keeps its stack.
+    if (error instanceof PriceFetchRefusal) {
+      logError(`prices:fetch — ${error.message}`);
+      return 1;
+    }
+    throw error;
+  }
+
+  log(`prices:fetch — recovering ${result.from} → ${result.to}: each mark is dated the day it`);
+  log("  measures, while fetchedAt records this run, because that is what a late measurement is.");
+  log("");
+  for (const quote of result.quotes) {
+    log(
+      `  fetched ${quote.instrumentId.padEnd(7)} ${quote.symbol.padEnd(11)} ${quote.asOf}  ${quote.price}`,
+    );
+  }
+  for (const fxMark of result.fxMarks) {
+    const pair = `USD/${fxMark.currency}`;
+    log(`  rate    ${"fx".padEnd(7)} ${pair.padEnd(11)} ${fxMark.asOf}  ${fxMark.rate}`);
+  }
+  for (const failure of result.failures) {
+    logError(
+      `  FETCH FAILED  ${failure.instrumentId.padEnd(7)} ${failure.symbol.padEnd(11)} ${failure.message}`,
+    );
+  }
+  await reportRetries(result.retries, deps.retryTallyPath, log, logError);
+
+  log("");
+  log(
+    `prices:fetch — ${result.storedCount} quotes stored across ${result.days.length} day(s) ` +
+      `in ${paths.pricesDir}`,
+  );
+  log(`  ${result.emittedCount} new PriceMarked candidate(s) written to ${paths.inbox}`);
+  log(`  ${result.skippedCount} already pending (same id) — skipped`);
+  if (result.fxMarks.length > 0) {
+    log(
+      `  ${result.fxEmittedCount}/${result.fxMarks.length} FxMarked candidate(s) new to the ` +
+        `inbox; the rest already pending`,
+    );
+  }
+  if (result.failures.length > 0) {
+    log(`  ${result.failures.length} fetch failure(s) surfaced above (not swallowed).`);
+  }
+  reportRegistryIssues(result.registryIssues, logError);
+
+  let absentCount = 0;
+  for (const day of result.days) {
+    const absent = classifyAbsent(day, result.instruments);
+    absentCount += absent.length;
+    reportRecoveredDay(day, absent, log, logError);
+  }
+  if (absentCount > 0) {
+    reportHolidayCaveat(log);
+  }
+
+  // One pre-check over the whole merge — the range's marks went in as one batch.
+  const scan = await scanImpl(
+    {
+      markEmitted: true,
+      emittedCount: result.emittedCount,
+      marks: result.marks,
+      held: result.held,
+    },
+    paths,
+  );
+  reportSpineScan(scan, log, logError);
+
+  log("");
+  log("Next: run `pnpm spine` to validate + append the marks to the event log.");
+
+  return result.failures.length > 0 || scan.rejections.length > 0 || absentCount > 0 ? 1 : 0;
+}
+
+/**
+ * The instruments a fallback served, on stdout beside the fetched lines. INFO, not
+ * an exit code: the quote was stored and marks as usual. Printed so a primary that
+ * is quietly failing every night is visible long before its fallback fails too.
+ */
+function reportFallbacks(fallbacks: readonly FetchFallback[], log: (line: string) => void): void {
+  if (fallbacks.length === 0) return;
+  log("");
+  for (const fallback of fallbacks) {
+    log(
+      `  FALLBACK  ${fallback.instrumentId.padEnd(7)} ${fallback.symbol.padEnd(11)} served by ` +
+        `${fallback.servedBy} ${fallback.servedSymbol} — ${fallback.failedAttempts[0] ?? ""}`,
+    );
+  }
+}
+
+/**
+ * Every request that needed a retry: a recovered one on stdout beside the fallbacks,
+ * one that ran out of attempts on stderr beside its `FETCH FAILED`. Neither moves the
+ * exit code. The tally file is written even when both counts are zero, so the
+ * heartbeat never carries a previous run's retries forward.
+ */
+async function reportRetries(
+  retries: readonly RetryOutcome[],
+  tallyPath: string | undefined,
+  log: (line: string) => void,
+  logError: (line: string) => void,
+): Promise<void> {
+  const exhausted = retries.filter((retry) => !retry.recovered);
+  if (tallyPath !== undefined) {
+    await atomicWrite(tallyPath, `${retries.length} ${exhausted.length}\n`);
+  }
+  if (retries.length === 0) return;
+  log("");
+  for (const retry of retries) {
+    const reasons = retry.reasons.join("; ");
+    if (retry.recovered) {
+      log(`  RETRIED  ${retry.request} — served on attempt ${retry.attempts} (${reasons})`);
+    } else {
+      logError(
+        `  RETRIED  ${retry.request} — still failing after ${retry.attempts} attempt(s): ` +
+          reasons,
+      );
+    }
+  }
+  log(
+    `prices:fetch — ${retries.length} request(s) retried, ${exhausted.length} still failing`,
+  );
+}
+
+/**
+ * The `instruments.jsonl` lines the run could not add, on stderr. Deliberately NOT an
+ * exit code: every instrument the registry did hold was fetched, and a skipped line
+ * is a typo to fix, not a missing mark — the gap report is what notices the mark.
+ */
+function reportRegistryIssues(issues: string[], logError: (line: string) => void): void {
+  if (issues.length === 0) return;
+  logError("");
+  for (const issue of issues) {
+    logError(`  REGISTRY  ${issue}`);
+  }
+}
+
 /**
  * The third state: instruments that were ATTEMPTED (owed) and produced no mark.
  *
@@ -209,17 +420,38 @@ export async function runPriceFetchCli(deps: PriceFetchCliDeps): Promise<number>
  * recorded still shows up, instead of the run reporting a clean recovery of a day
  * that did not come back.
  */
-function classifyAbsent(result: FetchRunResult): AbsentInstrument[] {
+function classifyAbsent(
+  result: RecoveryTally,
+  instruments: InstrumentRegistry,
+): AbsentInstrument[] {
   const notOwed = new Set(result.notOwed.map((row) => row.instrumentId));
   const marked = new Set(result.marks.map((mark) => mark.instrumentId));
   const failures = new Map(result.failures.map((failure) => [failure.instrumentId, failure.message]));
-  const stale = new Map(result.staleMarkSkips.map((skip) => [skip.instrumentId, skip.observationDate]));
+  const stale = new Map(
+    (result.staleMarkSkips ?? []).map((skip) => [skip.instrumentId, skip.observationDate]),
+  );
+  const held = new Map((result.held ?? []).map((row) => [row.instrumentId, row.reason]));
 
   const absent: AbsentInstrument[] = [];
-  for (const entry of [...instrumentsForSource("binance"), ...instrumentsForSource("twelvedata")]) {
+  for (const entry of [
+    ...instrumentsForSource("binance", instruments),
+    ...instrumentsForSource("twelvedata", instruments),
+  ]) {
     if (notOwed.has(entry.instrumentId) || marked.has(entry.instrumentId)) continue;
     const failure = failures.get(entry.instrumentId);
     const staleBar = stale.get(entry.instrumentId);
+    const heldReason = held.get(entry.instrumentId);
+    if (heldReason !== undefined) {
+      absent.push({
+        instrumentId: entry.instrumentId,
+        symbol: entry.symbol,
+        source: entry.source,
+        reason: `held by the consensus check: ${heldReason}`,
+        suspected:
+          "a bad print, or a real move wider than the band — the close is stored; review it",
+      });
+      continue;
+    }
     absent.push({
       instrumentId: entry.instrumentId,
       symbol: entry.symbol,
@@ -246,6 +478,19 @@ function reportRecovery(
   absent: readonly AbsentInstrument[],
   log: (line: string) => void,
   logError: (line: string) => void,
+): void {
+  reportRecoveredDay(result, absent, log, logError);
+  if (absent.length > 0) {
+    reportHolidayCaveat(log);
+  }
+}
+
+/** One day's tally and absent block — shared by the one-day and the range report. */
+function reportRecoveredDay(
+  result: RecoveryTally,
+  absent: readonly AbsentInstrument[],
+  log: (line: string) => void,
+  logError: (line: string) => void,
 ): void {
   log("");
   log(
@@ -267,6 +512,10 @@ function reportRecovery(
     logError(`    ABSENT  ${row.instrumentId.padEnd(9)} ${row.symbol.padEnd(11)} ${row.reason}`);
     logError(`            suspected: ${row.suspected}`);
   }
+}
+
+/** Why an absent set is not a verdict — printed once per run, after the tallies. */
+function reportHolidayCaveat(log: (line: string) => void): void {
   log("");
   log(
     "  This exit code CANNOT distinguish a market holiday from a provider failure — it",
@@ -277,21 +526,41 @@ function reportRecovery(
   log("  which one it was; a holiday needs no action, a provider fault needs a re-run.");
 }
 
-/** The spine pre-check's own report — unchanged from the pre-R3 CLI. */
+/**
+ * The spine pre-check's own report, led by any mark the consensus check held. The
+ * two share the rejection list, and so the exit code, but not a triage path: a held
+ * mark never reached the inbox and blocks nothing, while a doomed one blocks the
+ * whole spine ingest.
+ */
 function reportSpineScan(
   scan: RejectionScan,
   log: (line: string) => void,
   logError: (line: string) => void,
 ): void {
-  for (const rejection of scan.rejections) {
+  const held = scan.rejections.filter((rejection) => rejection.held === true);
+  const doomed = scan.rejections.filter((rejection) => rejection.held !== true);
+  for (const rejection of held) {
+    logError(
+      `  HELD  ${rejection.instrumentId.padEnd(7)} ${rejection.asOf}  ` +
+        `price ${rejection.price} — ${rejection.reason}`,
+    );
+  }
+  for (const rejection of doomed) {
     logError(
       `  SPINE WOULD REJECT  ${rejection.instrumentId.padEnd(7)} ${rejection.asOf}  ` +
         `price ${rejection.price} — ${rejection.reason}`,
     );
   }
-  if (scan.rejections.length > 0) {
+  if (held.length > 0) {
+    log("");
+    log(`  ${held.length} fetched mark(s) held by the consensus check (above) — not queued.`);
+    log("  Triage: review the move against another source. If it is real, re-run that day");
+    log("  with the check off (`PRICE_CONSENSUS_BAND= pnpm prices:fetch`, adding");
+    log("  `--as-of=<day>` for a past day) or hand-author the mark through the inbox.");
+  }
+  if (doomed.length > 0) {
     log("");
-    log(`  ${scan.rejections.length} fetched mark(s) would be rejected by the spine guard (above).`);
+    log(`  ${doomed.length} fetched mark(s) would be rejected by the spine guard (above).`);
     log("  Triage: this is NOT a provider failure. Review the move; if it is real, hand-author");
     log("  the mark through the inbox (the permanent manual fallback) and re-run `pnpm spine`.");
     log("  A doomed mark left in the inbox blocks the whole spine ingest (all-or-nothing).");
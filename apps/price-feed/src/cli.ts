@@ -8,7 +8,11 @@
  */
 import { runPriceFetchCli } from "./cli-main.js";
 
-runPriceFetchCli({ argv: process.argv.slice(2) })
+runPriceFetchCli({
+  argv: process.argv.slice(2),
+  // Set by the daily wrapper only, for its heartbeat; an empty value means unset.
+  retryTallyPath: process.env.PRICE_FETCH_RETRY_TALLY || undefined,
+})
   .then((exitCode) => {
     process.exitCode = exitCode;
   })
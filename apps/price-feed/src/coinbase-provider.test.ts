@@ -0,0 +1,115 @@
+// Coinbase Exchange provider suite (the crypto fallback). No live network (every
+// fetch is mocked) and every payload below is AUTHORED here — never a recorded real
+// response.
+import { describe, expect, it } from "vitest";
+import type { InstrumentRegistryEntry } from "@numisma/engine";
+import { fetchCoinbaseDailyClose } from "./coinbase-provider.js";
+
+// The registry row as the fallback names it: Coinbase's product id, not Binance's pair.
+const BTC: InstrumentRegistryEntry = {
+  instrumentId: "btc",
+  symbol: "BTC-USD",
+  quoteCurrency: "USD",
+  source: "binance",
+};
+
+/** Records the URL the provider asked for and answers with an authored body. */
+function recordingFetch(body: unknown, status = 200): { calls: string[]; impl: typeof fetch } {
+  const calls: string[] = [];
+  const impl = ((url: string) => {
+    calls.push(String(url));
+    return Promise.resolve(
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { "content-type": "application/json" },
+      }),
+    );
+  }) as unknown as typeof fetch;
+  return { calls, impl };
+}
+
+/** An authored Coinbase daily candle: `[time (s), low, high, open, close, volume]`. */
+function candle(dayStartMs: number, close: number): unknown[] {
+  return [dayStartMs / 1000, 59000, 61000, 60000, close, 1234.5];
+}
+
+const OPTS = { timeoutMs: 5_000 };
+// 18:00 UTC on the 17th: the 17th's candle is still running, the 16th's has settled.
+const NOW = () => new Date("2026-08-17T18:00:00.000Z");
+
+describe("fetchCoinbaseDailyClose — live path (no targetDate)", () => {
+  it("takes the newest SETTLED candle, never the running one", async () => {
+    // Newest first, as Coinbase returns them.
+    const { calls, impl } = recordingFetch([
+      candle(Date.UTC(2026, 7, 17), 99999.99),
+      candle(Date.UTC(2026, 7, 16), 63000.1),
+      candle(Date.UTC(2026, 7, 15), 62000),
+    ]);
+    const obs = await fetchCoinbaseDailyClose(BTC, { ...OPTS, fetchImpl: impl, now: NOW });
+    expect(calls).toEqual([
+      "https://api.exchange.coinbase.com/products/BTC-USD/candles?granularity=86400",
+    ]);
+    expect(obs).toEqual({
+      instrumentId: "btc",
+      symbol: "BTC-USD",
+      close: 63000.1,
+      fetchedAt: "2026-08-17T18:00:00.000Z",
+      observationDate: "2026-08-16",
+    });
+  });
+
+  it("refuses a payload holding only the running candle", async () => {
+    const { impl } = recordingFetch([candle(Date.UTC(2026, 7, 17), 63000.1)]);
+    await expect(
+      fetchCoinbaseDailyClose(BTC, { ...OPTS, fetchImpl: impl, now: NOW }),
+    ).rejects.toThrow(/^Coinbase BTC-USD -> no settled daily candle$/);
+  });
+});
+
+describe("fetchCoinbaseDailyClose — date-pinned path", () => {
+  it("windows the request to the target UTC day and takes the row dated it", async () => {
+    const { calls, impl } = recordingFetch([
+      candle(Date.UTC(2026, 7, 13), 1),
+      candle(Date.UTC(2026, 7, 12), 58500.25),
+    ]);
+    const obs = await fetchCoinbaseDailyClose(BTC, {
+      ...OPTS,
+      fetchImpl: impl,
+      now: NOW,
+      targetDate: "2026-08-12",
+    });
+    expect(calls[0]).toContain("start=2026-08-12T00%3A00%3A00.000Z");
+    expect(calls[0]).toContain("end=2026-08-12T23%3A59%3A59.999Z");
+    expect(obs.observationDate).toBe("2026-08-12");
+    expect(obs.close).toBe(58500.25);
+  });
+
+  it("names the day when the window holds no candle for it", async () => {
+    const { impl } = recordingFetch([]);
+    await expect(
+      fetchCoinbaseDailyClose(BTC, { ...OPTS, fetchImpl: impl, now: NOW, targetDate: "2026-08-12" }),
+    ).rejects.toThrow(/^Coinbase BTC-USD -> no candle for 2026-08-12$/);
+  });
+});
+
+describe("fetchCoinbaseDailyClose — failures stay symbol-attributable", () => {
+  it("labels an HTTP failure with the provider's own sentence", async () => {
+    const { impl } = recordingFetch({ message: "NotFound" }, 404);
+    await expect(
+      fetchCoinbaseDailyClose(BTC, { ...OPTS, fetchImpl: impl, now: NOW }),
+    ).rejects.toThrow(/^Coinbase BTC-USD -> HTTP 404 .*NotFound/);
+  });
+
+  it("refuses a non-array payload and a non-positive close", async () => {
+    await expect(
+      fetchCoinbaseDailyClose(BTC, { ...OPTS, fetchImpl: recordingFetch({}).impl, now: NOW }),
+    ).rejects.toThrow(/^Coinbase BTC-USD -> unexpected payload shape$/);
+    await expect(
+      fetchCoinbaseDailyClose(BTC, {
+        ...OPTS,
+        fetchImpl: recordingFetch([candle(Date.UTC(2026, 7, 16), 0)]).impl,
+        now: NOW,
+      }),
+    ).rejects.toThrow(/^Coinbase BTC-USD -> non-positive close 0$/);
+  });
+});
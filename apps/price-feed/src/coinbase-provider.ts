@@ -0,0 +1,99 @@
+/**
+ * The Coinbase Exchange public-REST provider — the keyless crypto FALLBACK behind
+ * Binance. Network IO only, like every provider here: it fetches ONE settled daily
+ * close and hands the raw close back; the orchestrator decides when to ask (only
+ * after Binance failed for that instrument) and the engine turns it into a mark.
+ *
+ * Coinbase's daily candle is a UTC day, exactly as Binance's is, which is what makes
+ * it a fallback rather than a different measurement: the same bar-date rule gates
+ * its mark, and a recovered day windows to the same UTC day.
+ *
+ * `entry.symbol` is the COINBASE product id (`BTC-USD`), not the Binance pair — the
+ * orchestrator hands this provider the registry row as the fallback names it. Every
+ * failure carries that symbol and every call is bounded by the shared timeout (R4).
+ */
+import type { InstrumentRegistryEntry } from "@numisma/engine";
+import { fetchJson, type FetchOptions, type ProviderObservation } from "./provider.js";
+
+const COINBASE_PRODUCTS = "https://api.exchange.coinbase.com/products";
+const DAY_MS = 86_400_000;
+
+/** Coinbase's fetch options: the shared envelope plus an optional target UTC day. */
+export interface CoinbaseFetchOptions extends FetchOptions {
+  /** `YYYY-MM-DD` — one past UTC day to window the request to. */
+  targetDate?: string | undefined;
+}
+
+/**
+ * Fetch one settled daily close for `entry` from Coinbase's `candles` endpoint.
+ *
+ * Coinbase returns rows NEWEST FIRST and, unlike Binance, gives no fixed row count
+ * to lean on as a settlement proxy. So settlement is checked directly: on the live
+ * path the close is the newest candle whose UTC day has already ENDED by `now` —
+ * the running current-day candle is never a close. Given `targetDate` the request is
+ * windowed to that UTC day and the row dated that day is taken, selected by its own
+ * timestamp rather than its position.
+ *
+ * Throws a symbol-attributable error on HTTP failure, an unexpected payload shape,
+ * no settled (or no target-day) candle, a non-positive close, or a timeout.
+ */
+export async function fetchCoinbaseDailyClose(
+  entry: InstrumentRegistryEntry,
+  options: CoinbaseFetchOptions,
+): Promise<ProviderObservation> {
+  const now = options.now ?? (() => new Date());
+  const targetDate = options.targetDate;
+  let url = `${COINBASE_PRODUCTS}/${encodeURIComponent(entry.symbol)}/candles?granularity=86400`;
+  if (targetDate !== undefined) {
+    const start = Date.parse(`${targetDate}T00:00:00.000Z`);
+    if (!Number.isFinite(start)) {
+      throw new Error(`Coinbase ${entry.symbol} -> invalid target date ${targetDate}`);
+    }
+    url +=
+      `&start=${encodeURIComponent(new Date(start).toISOString())}` +
+      `&end=${encodeURIComponent(new Date(start + DAY_MS - 1).toISOString())}`;
+  }
+  const r = await fetchJson(url, {
+    timeoutMs: options.timeoutMs,
+    fetchImpl: options.fetchImpl,
+    retry: options.retry,
+    label: `Coinbase ${entry.symbol}`,
+  });
+  if (!r.ok) {
+    throw new Error(`Coinbase ${entry.symbol} -> ${r.reason}`);
+  }
+  const rows = r.body;
+  if (!Array.isArray(rows) || !rows.every((row) => Array.isArray(row))) {
+    throw new Error(`Coinbase ${entry.symbol} -> unexpected payload shape`);
+  }
+  // Coinbase candle row: [time (epoch SECONDS), low, high, open, close, volume].
+  const dayOf = (row: unknown[]) => Number(row[0]) * 1000;
+  const row =
+    targetDate === undefined
+      ? (rows as unknown[][])
+          .filter((candidate) => dayOf(candidate) + DAY_MS <= now().getTime())
+          .sort((a, b) => dayOf(b) - dayOf(a))[0]
+      : (rows as unknown[][]).find(
+          (candidate) =>
+            Number.isFinite(dayOf(candidate)) &&
+            new Date(dayOf(candidate)).toISOString().slice(0, 10) === targetDate,
+        );
+  if (row === undefined) {
+    throw new Error(
+      targetDate === undefined
+        ? `Coinbase ${entry.symbol} -> no settled daily candle`
+        : `Coinbase ${entry.symbol} -> no candle for ${targetDate}`,
+    );
+  }
+  const close = Number(row[4]);
+  if (!Number.isFinite(close) || close <= 0) {
+    throw new Error(`Coinbase ${entry.symbol} -> non-positive close ${String(row[4])}`);
+  }
+  return {
+    instrumentId: entry.instrumentId,
+    symbol: entry.symbol,
+    close,
+    fetchedAt: now().toISOString(),
+    observationDate: new Date(dayOf(row)).toISOString().slice(0, 10),
+  };
+}
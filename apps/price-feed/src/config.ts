@@ -8,10 +8,14 @@
  */
 import {
   resolveDataDir,
+  CURRENCIES,
   MARK_TIME,
   TRADING_DAY_TIME_ZONE,
+  type FxCurrency,
   type MarkClock,
 } from "@numisma/engine";
+import { BINANCE_INTRADAY_INTERVALS } from "./binance-provider.js";
+import { PriceFetchRefusal } from "./refusal.js";
 
 export interface PriceFeedConfig extends MarkClock {
   /**
@@ -33,9 +37,8 @@ export interface PriceFeedConfig extends MarkClock {
    * DECODE — not just time-to-headers. `fetchJson` holds one `AbortController` over
    * the whole exchange (the decode is inside the guarded region on purpose), so this
    * single number funds every phase and must be sized for the slowest of them
-   * together. A stalled provider still cannot hang a scheduled run (R4); bounded
-   * retry/backoff is deferred (a missed run is harmless under the idempotent
-   * deterministic id).
+   * together. A stalled provider still cannot hang a scheduled run (R4). The budget
+   * is PER ATTEMPT: a timed-out GET is retried under {@link retryMaxAttempts}.
    */
   requestTimeoutMs: number;
   /**
@@ -69,6 +72,57 @@ export interface PriceFeedConfig extends MarkClock {
    * fine for a daily/scheduled run and the only cost of staying on the free tier.
    */
   twelveDataPauseMs: number;
+  /**
+   * The consensus band (`0.15` = ±15%): a fetched close further than this from the
+   * instrument's last stored close is HELD — kept out of the inbox and reported as a
+   * `MarkRejection` — instead of queued. `null` turns the check off, and is the
+   * default: the spine's ±50% guard stays the only gate until an operator opts in.
+   * Read from `PRICE_CONSENSUS_BAND` (see {@link readConsensusBandFromEnv}); the
+   * engine's `checkQuoteConsensus` widens it by the instrument's own volatility.
+   */
+  consensusBand: number | null;
+  /**
+   * How many stored closes before the candidate feed the volatility widening.
+   * Default 30 — a month of crypto closes, six weeks of equity ones.
+   */
+  consensusLookback: number;
+  /**
+   * How many standard deviations of the instrument's scaled daily move the band
+   * widens to. Default 4: an ordinary day for a volatile coin is never held, while a
+   * print several times its usual move still is.
+   */
+  consensusVolatilityMultiple: number;
+  /**
+   * How many times one idempotent GET is tried before its failure stands — a
+   * timeout, a transport error, HTTP 408/429/5xx, or a transient refusal body.
+   * Default 3. `1` turns retry off; a 4xx refusal is never retried whatever this is.
+   */
+  retryMaxAttempts: number;
+  /**
+   * The first backoff in milliseconds, doubled each attempt and jittered to between
+   * half and all of it. Default 2_000. A `Retry-After` header, or Twelve Data's
+   * credit window, lengthens the wait but never shortens it.
+   */
+  retryBaseDelayMs: number;
+  /**
+   * The longest single wait in milliseconds. Default 120_000. A `Retry-After` that
+   * asks for longer gives up on the request instead of stalling the scheduled run.
+   */
+  retryMaxDelayMs: number;
+  /**
+   * The Binance kline interval `prices:intraday` reads — each run stores the newest
+   * SETTLED candle of this length. Default `1h`, matching an hourly schedule; a
+   * scheduler firing more often than this only re-reads the same candle. Read from
+   * `PRICE_INTRADAY_INTERVAL` (see {@link readIntradayIntervalFromEnv}).
+   */
+  intradayInterval: string;
+  /**
+   * The currencies the daily run queues one `FxMarked` for at the mark time, besides
+   * the FIX it already fetches for the `*-mxn` derivations. Default none: a book with
+   * no record outside USD and MXN has no rate to keep current. Read from
+   * `PRICE_FX_CURRENCIES` (see {@link readFxCurrenciesFromEnv}).
+   */
+  fxCurrencies: readonly FxCurrency[];
 }
 
 export const DEFAULT_CONFIG: PriceFeedConfig = {
@@ -83,18 +137,96 @@ export const DEFAULT_CONFIG: PriceFeedConfig = {
   dataDir: resolveDataDir(),
   twelveDataMaxSymbolsPerMinute: 8,
   twelveDataPauseMs: 60_000,
+  consensusBand: null,
+  consensusLookback: 30,
+  consensusVolatilityMultiple: 4,
+  retryMaxAttempts: 3,
+  retryBaseDelayMs: 2_000,
+  retryMaxDelayMs: 120_000,
+  intradayInterval: "1h",
+  fxCurrencies: [],
 };
 
+/**
+ * Read the consensus band from `PRICE_CONSENSUS_BAND` — a relative fraction like
+ * `0.15`. Unset or empty is `null` (the check off), so
+ * `PRICE_CONSENSUS_BAND= pnpm prices:fetch` turns it off for one run. Anything that is
+ * not a number strictly between 0 and 1 throws a {@link PriceFetchRefusal}: a typo
+ * must not silently run the fetch with no band at all.
+ */
+export function readConsensusBandFromEnv(env: NodeJS.ProcessEnv = process.env): number | null {
+  const raw = env.PRICE_CONSENSUS_BAND?.trim() ?? "";
+  if (raw === "") return null;
+  const band = Number(raw);
+  if (!Number.isFinite(band) || band <= 0 || band >= 1) {
+    throw new PriceFetchRefusal(
+      `PRICE_CONSENSUS_BAND "${raw}" is not a band. Give a fraction strictly between ` +
+        `0 and 1 — 0.15 holds a close more than 15% from the last stored one — or ` +
+        `leave it empty to run without the check.`,
+    );
+  }
+  return band;
+}
+
+/**
+ * Read the intraday candle interval from `PRICE_INTRADAY_INTERVAL` — `15m`, `1h`,
+ * `4h`… Unset or empty is the default. An interval Binance's intraday path does not
+ * take throws a {@link PriceFetchRefusal} rather than reading some other candle.
+ */
+export function readIntradayIntervalFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  const raw = env.PRICE_INTRADAY_INTERVAL?.trim() ?? "";
+  if (raw === "") return DEFAULT_CONFIG.intradayInterval;
+  if (!(raw in BINANCE_INTRADAY_INTERVALS)) {
+    throw new PriceFetchRefusal(
+      `PRICE_INTRADAY_INTERVAL "${raw}" is not an intraday interval. Give one of ` +
+        `${Object.keys(BINANCE_INTRADAY_INTERVALS).join(", ")}, or leave it empty for ` +
+        `${DEFAULT_CONFIG.intradayInterval}.`,
+    );
+  }
+  return raw;
+}
+
+/**
+ * Read the FX-marked currencies from `PRICE_FX_CURRENCIES` — a comma-separated list
+ * like `EUR,GBP`. Unset or empty is none. A code that is not a supported currency,
+ * USD, or a repeat throws a {@link PriceFetchRefusal}: a typo must not quietly leave
+ * a currency's rate unmarked.
+ */
+export function readFxCurrenciesFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): readonly FxCurrency[] {
+  const raw = env.PRICE_FX_CURRENCIES?.trim() ?? "";
+  if (raw === "") return DEFAULT_CONFIG.fxCurrencies;
+  const markable = CURRENCIES.filter((currency): currency is FxCurrency => currency !== "USD");
+  const currencies: FxCurrency[] = [];
+  for (const code of raw.split(",").map((part) => part.trim().toUpperCase())) {
+    const currency = markable.find((candidate) => candidate === code);
+    if (currency === undefined || currencies.includes(currency)) {
+      throw new PriceFetchRefusal(
+        `PRICE_FX_CURRENCIES "${raw}" is not a currency list. Give each of ` +
+          `${markable.join(", ")} at most once, comma-separated, or leave it empty to ` +
+          `mark no rate.`,
+      );
+    }
+    currencies.push(currency);
+  }
+  return currencies;
+}
+
 /**
  * Provider credentials, read from the environment — NEVER committed. Document the
- * two variables here so operators know what to export:
- *   - `TWELVEDATA_API_KEY` — free Twelve Data key for US equities.
- *   - `BANXICO_TOKEN`      — free Banxico SIE token for the USD/MXN FIX (SF43718).
- * Binance is keyless, so no credential is needed for crypto.
+ * variables here so operators know what to export:
+ *   - `TWELVEDATA_API_KEY`   — free Twelve Data key for US equities.
+ *   - `BANXICO_TOKEN`        — free Banxico SIE token for the USD/MXN FIX (SF43718).
+ *   - `ALPHAVANTAGE_API_KEY` — free Alpha Vantage key, the equities FALLBACK. Optional:
+ *     unset, a Twelve Data failure stays a failure, with the fallback's refusal
+ *     listed beside it.
+ * Binance and its Coinbase fallback are keyless, so no credential is needed for crypto.
  */
 export interface ProviderCredentials {
   twelveDataApiKey: string;
   banxicoToken: string;
+  alphaVantageApiKey: string;
 }
 
 /** Read the provider credentials from `process.env`; missing keys become "". */
@@ -104,5 +236,6 @@ export function readCredentialsFromEnv(
   return {
     twelveDataApiKey: env.TWELVEDATA_API_KEY ?? "",
     banxicoToken: env.BANXICO_TOKEN ?? "",
+    alphaVantageApiKey: env.ALPHAVANTAGE_API_KEY ?? "",
   };
 }
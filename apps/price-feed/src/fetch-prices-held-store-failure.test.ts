@@ -0,0 +1,106 @@
+/**
+ * THE FAILING CONSENSUS FLAG — the one store write no arrangement of real files can
+ * fail on its own. A held close is written twice: once as fetched, then again with
+ * `consensusHeld` after the check has READ the same file. Any file that refuses the
+ * second write refuses the first too, so the re-upsert is never reached. So
+ * `upsertQuote` is mocked, and only for a row carrying the flag; every other write is
+ * the real store in a real temp directory. Separate from `fetch-prices.test.ts`
+ * because the mock is module-wide.
+ *
+ * What it locks: the failed flag is that one instrument's failure, the mark is still
+ * held out of the inbox, and the run resolves with every other mark queued (R4).
+ */
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Quote } from "@numisma/engine";
+
+vi.mock("./price-store.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./price-store.js")>();
+  return {
+    ...actual,
+    upsertQuote: async (pricesDir: string, quote: Quote) => {
+      if (quote.consensusHeld === true) {
+        throw Object.assign(new Error("ENOSPC: no space left on device, write"), {
+          code: "ENOSPC",
+        });
+      }
+      return actual.upsertQuote(pricesDir, quote);
+    },
+  };
+});
+
+const { runPriceFetch } = await import("./fetch-prices.js");
+const { resolvePriceFeedPaths } = await import("./paths.js");
+
+// 2026-07-03T12:00Z = 06:00 in CDMX on the 3rd → asOf "2026-07-03".
+const RUN_INSTANT = new Date("2026-07-03T12:00:00.000Z");
+const AS_OF = "2026-07-03";
+
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await mkdtemp(join(tmpdir(), "price-feed-held-"));
+});
+
+afterEach(async () => {
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+/** Binance daily klines for the crypto rows; every other provider refuses. */
+const cryptoOnlyFetch = ((url: string | URL | Request) => {
+  const href = typeof url === "string" ? url : url.toString();
+  const close = /symbol=ETHUSDT/.test(href) ? 3400 : 10;
+  if (!href.includes("api.binance.com")) {
+    return Promise.resolve(new Response("", { status: 503, statusText: "Service Unavailable" }));
+  }
+  const row = (openTime: number, price: number) => [
+    openTime, "0", "0", "0", String(price), "1", openTime + 86_399_999, "0", 0, "0", "0", "0",
+  ];
+  const settled = Date.UTC(2026, 6, 3);
+  return Promise.resolve(
+    new Response(JSON.stringify([row(settled, close), row(settled + 86_400_000, close + 1)])),
+  );
+}) as typeof fetch;
+
+describe("runPriceFetch — a consensus flag that cannot be stored", () => {
+  it("records the failed flag against that instrument and still holds its mark", async () => {
+    const { pricesDir, inbox } = resolvePriceFeedPaths(dataDir);
+    await mkdir(pricesDir, { recursive: true });
+    const seeded = {
+      instrumentId: "eth",
+      symbol: "ETHUSDT",
+      asOf: "2026-07-02",
+      price: 3000,
+      source: "binance",
+      fetchedAt: "2026-07-02T23:59:00.000Z",
+    };
+    await writeFile(join(pricesDir, "eth.jsonl"), `${JSON.stringify(seeded)}\n`, "utf8");
+
+    const result = await runPriceFetch({
+      config: { dataDir, markTime: "00:00", consensusBand: 0.1, retryMaxAttempts: 1 },
+      fetchImpl: cryptoOnlyFetch,
+      now: () => RUN_INSTANT,
+      credentials: { twelveDataApiKey: "test-key", banxicoToken: "test-token" },
+      sleepImpl: async () => {},
+    });
+
+    expect(result.held.map((row) => row.id)).toEqual([`pm-eth-${AS_OF}`]);
+    expect(result.failures.filter((failure) => failure.instrumentId === "eth")).toEqual([
+      {
+        instrumentId: "eth",
+        symbol: "ETHUSDT",
+        message:
+          "held by the consensus check, but flagging its stored close failed: " +
+          "ENOSPC: no space left on device, write",
+      },
+    ]);
+    const queued = JSON.parse(await readFile(inbox, "utf8")) as { id: string }[];
+    expect(queued.map((event) => event.id)).toEqual([
+      `pm-btc-${AS_OF}`,
+      `pm-render-${AS_OF}`,
+      `pm-gram-${AS_OF}`,
+    ]);
+  });
+});
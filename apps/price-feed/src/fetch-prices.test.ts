@@ -4,18 +4,34 @@
 // instruments plus the FIX, the derived `USD × FIX` MXN marks with the `usdMxn`
 // snapshot, the pre-mark-time no-mark case, idempotent re-runs, per-symbol failure
 // isolation, and the loud missing/stale-FIX behavior.
-import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { mkdir, mkdtemp, readFile, readdir, rm, symlink, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
-import { runPriceFetch as runPriceFetchRaw, type RunOptions } from "./fetch-prices.js";
+import {
+  runIntradayFetch,
+  runPriceFetch as runPriceFetchRaw,
+  runPriceFetchRange as runPriceFetchRangeRaw,
+  type RangeRunOptions,
+  type RunOptions,
+} from "./fetch-prices.js";
+import { readConsensusBandFromEnv, readFxCurrenciesFromEnv } from "./config.js";
 import { resolvePriceFeedPaths } from "./paths.js";
+import {
+  appendIntradayQuote,
+  compactStoredQuotes,
+  readStoredQuotes,
+  upsertQuote,
+} from "./price-store.js";
+import { PriceFetchRefusal } from "./refusal.js";
 
 // Default a no-op sleep so Twelve Data pacing never waits a real minute in the
 // suite (the default 8/min cap chunks the 9 equities into [8, 1] with a 60s pause).
 // A test that asserts pacing passes its own sleepImpl — spread last, so it wins.
 const runPriceFetch = (options: RunOptions = {}) =>
   runPriceFetchRaw({ sleepImpl: async () => {}, ...options });
+const runPriceFetchRange = (options: RangeRunOptions) =>
+  runPriceFetchRangeRaw({ sleepImpl: async () => {}, ...options });
 
 // 2026-07-03T12:00Z = 06:00 in CDMX on the 3rd → asOf "2026-07-03".
 const RUN_INSTANT = new Date("2026-07-03T12:00:00.000Z");
@@ -53,6 +69,9 @@ const EQUITY_CLOSES: Record<string, number> = {
 
 const FIX_RATE = 18.5;
 
+/** ECB reference rates, units per USD, as Frankfurter serves them. */
+const FX_RATES: Record<string, number> = { EUR: 0.9182, GBP: 0.7811 };
+
 // Build one Binance 1d kline row for the UTC day `openTime` starts, with `close`.
 function klineRow(openTime: number, close: number): unknown[] {
   const closeTime = openTime + 86_399_999;
@@ -76,9 +95,16 @@ function fixResponse(rate: string, fecha = "03/07/2026"): Response {
   );
 }
 
+function frankfurterResponse(href: string, date = AS_OF): Response {
+  const currency = /[?&]symbols=([A-Z]{3})/.exec(href)?.[1] ?? "";
+  const rates = currency in FX_RATES ? { [currency]: FX_RATES[currency] } : {};
+  return new Response(JSON.stringify({ amount: 1, base: "USD", date, rates }), { status: 200 });
+}
+
 interface Overrides {
   /**
-   * Keyed by provider symbol (e.g. ETHUSDT, EWW) or "FIX". A crypto/FIX override
+   * Keyed by provider symbol (e.g. ETHUSDT, EWW), "FIX" or "FX" (every Frankfurter
+   * rate). A crypto/FIX/FX override
    * returns the whole `Response` for that (single) request. A Twelve Data equity
    * override injects that symbol's SLICE into the batched keyed response — its
    * `Response` body is parsed and placed under the symbol key (Twelve Data fetches
@@ -118,6 +144,9 @@ function mockFetch(overrides: Overrides = {}): typeof fetch {
     if (href.includes("banxico.org.mx")) {
       return Promise.resolve(overrides.FIX ? overrides.FIX() : fixResponse(String(FIX_RATE)));
     }
+    if (href.includes("api.frankfurter.app")) {
+      return Promise.resolve(overrides.FX ? overrides.FX() : frankfurterResponse(href));
+    }
     if (href.includes("api.binance.com")) {
       const symbol = Object.keys(CRYPTO_CLOSES).find((s) => href.includes(`symbol=${s}`));
       if (symbol && overrides[symbol]) return Promise.resolve(overrides[symbol]!());
@@ -205,6 +234,56 @@ describe("runPriceFetch — happy path across every provider (at/after mark time
   });
 });
 
+describe("runPriceFetch — instruments.jsonl adds to the code table", () => {
+  const VTI_LINE = JSON.stringify({
+    instrumentId: "vti",
+    symbol: "VTI",
+    quoteCurrency: "USD",
+    source: "twelvedata",
+    addedAt: "2026-07-01",
+  });
+
+  it("fetches and marks an added instrument in the same batch as the code table's", async () => {
+    const { registry } = resolvePriceFeedPaths(dataDir);
+    await writeFile(registry, `${VTI_LINE}\n{"instrumentId":"aapl"}\n`, "utf8");
+    const result = await runPriceFetch({
+      config: { dataDir, markTime: "00:00" },
+      fetchImpl: mockFetch({
+        VTI: () =>
+          new Response(
+            JSON.stringify({ status: "ok", values: [{ datetime: AS_OF, close: "301.5" }] }),
+          ),
+      }),
+      now: () => RUN_INSTANT,
+      credentials: CREDENTIALS,
+    });
+
+    expect(result.totalCount).toBe(14);
+    expect(result.failures).toEqual([]);
+    expect(result.instruments.map((entry) => entry.instrumentId)).toContain("vti");
+    expect(result.registryIssues).toEqual([
+      "instruments.jsonl line 2 skipped (symbol): symbol is not uppercase letters, digits, " +
+        "'.', '-' or '/'",
+    ]);
+    expect((await readInbox()).map((event) => event.id)).toContain(`pm-vti-${AS_OF}`);
+    expect(await readStore("vti")).toMatch(/"price":301.5/);
+  });
+
+  it("refuses to run on the code table alone when the sidecar cannot be read", async () => {
+    // A directory where the file should be: present, and unreadable as a file.
+    await mkdir(resolvePriceFeedPaths(dataDir).registry);
+    await expect(
+      runPriceFetch({
+        config: { dataDir, markTime: "00:00" },
+        fetchImpl: mockFetch(),
+        now: () => RUN_INSTANT,
+        credentials: CREDENTIALS,
+      }),
+    ).rejects.toThrow(/instruments\.jsonl could not be read \(EISDIR\)/);
+    await expect(readInbox()).rejects.toThrow();
+  });
+});
+
 describe("runPriceFetch — before the mark time", () => {
   it("upserts the store (all 13) but emits no mark and fetches no FIX", async () => {
     const result = await runPriceFetch({
@@ -293,6 +372,240 @@ describe("runPriceFetch — per-symbol failure isolation (R4)", () => {
   });
 });
 
+describe("runPriceFetch — a store write that fails is that instrument's failure (R4)", () => {
+  /**
+   * Point `eth`'s store file at a path whose directory does not exist. Every READ of it
+   * is a missing file — an empty store, as on a first run — and every APPEND throws
+   * `ENOENT`, so the write is the one thing that fails.
+   */
+  async function blockEthStore(): Promise<void> {
+    const { pricesDir } = resolvePriceFeedPaths(dataDir);
+    await mkdir(pricesDir, { recursive: true });
+    await symlink(join(dataDir, "no-such-dir", "eth.jsonl"), join(pricesDir, "eth.jsonl"));
+  }
+
+  it("records the failed upsert against that one instrument and stores every other", async () => {
+    await blockEthStore();
+    const result = await runPriceFetch({
+      config: { dataDir, markTime: "00:00" },
+      fetchImpl: mockFetch(),
+      now: () => RUN_INSTANT,
+      credentials: CREDENTIALS,
+    });
+
+    expect(result.storedCount).toBe(12);
+    expect(result.failures).toEqual([
+      { instrumentId: "eth", symbol: "ETHUSDT", message: expect.stringMatching(/ENOENT/) },
+    ]);
+    expect((await readInbox()).map((e) => e.id)).not.toContain(`pm-eth-${AS_OF}`);
+  });
+
+  it("records it beside the primary's reason when a FALLBACK's close cannot be stored", async () => {
+    await blockEthStore();
+    const result = await runPriceFetch({
+      config: { dataDir, markTime: "00:00" },
+      fetchImpl: ((url: string | URL | Request, init?: RequestInit) => {
+        const href = typeof url === "string" ? url : url.toString();
+        if (href.includes("api.exchange.coinbase.com")) {
+          const candle = [Date.UTC(2026, 6, 3) / 1000, 1, 1, 1, 3399.5, 1];
+          return Promise.resolve(new Response(JSON.stringify([candle]), { status: 200 }));
+        }
+        return mockFetch({
+          ETHUSDT: () => new Response("{}", { status: 503, statusText: "Service Unavailable" }),
+        })(url, init);
+      }) as typeof fetch,
+      now: () => new Date("2026-07-04T00:00:00.000Z"),
+      credentials: CREDENTIALS,
+    });
+
+    expect(result.fallbacks).toEqual([]);
+    expect(result.failures).toHaveLength(1);
+    expect(result.failures[0]).toMatchObject({
+      instrumentId: "eth",
+      message: "Binance ETHUSDT -> HTTP 503 Service Unavailable — {}",
+    });
+    expect(result.failures[0]?.fallbackErrors).toEqual([
+      expect.stringMatching(/^coinbase served a close, but storing it failed: .*ENOENT/),
+    ]);
+  });
+});
+
+describe("runPriceFetch — a fallback source stands in when the primary fails", () => {
+  // 18:00 CDMX on Jul 3 = 00:00 UTC on Jul 4: every default bar, and the Jul 3
+  // Coinbase candle, has settled and is dated asOf.
+  const FIRE = new Date("2026-07-04T00:00:00.000Z");
+
+  /** The default mocks, plus Coinbase and Alpha Vantage answering with Jul 3 closes. */
+  function withFallbacks(overrides: Overrides): typeof fetch {
+    return ((url: string | URL | Request, init?: RequestInit) => {
+      const href = typeof url === "string" ? url : url.toString();
+      if (href.includes("api.exchange.coinbase.com")) {
+        const candle = [Date.UTC(2026, 6, 3) / 1000, 1, 1, 1, 3399.5, 1];
+        return Promise.resolve(new Response(JSON.stringify([candle]), { status: 200 }));
+      }
+      if (href.includes("www.alphavantage.co")) {
+        const body = { "Time Series (Daily)": { [AS_OF]: { "4. close": "212.75" } } };
+        return Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+      }
+      return mockFetch(overrides)(url, init);
+    }) as typeof fetch;
+  }
+
+  it("stores the fallback's close under the instrument, naming who served it, and marks it", async () => {
+    const result = await runPriceFetch({
+      config: { dataDir, markTime: "00:00" },
+      fetchImpl: withFallbacks({
+        ETHUSDT: () => new Response("{}", { status: 503, statusText: "Service Unavailable" }),
+      }),
+      now: () => FIRE,
+      credentials: CREDENTIALS,
+    });
+
+    // A served fallback is not a failure: all 13 stored, the run stays clean.
+    expect(result.failures).toEqual([]);
+    expect(result.storedCount).toBe(13);
+    expect(result.fallbacks).toEqual([
+      {
+        instrumentId: "eth",
+        symbol: "ETHUSDT",
+        source: "binance",
+        servedBy: "coinbase",
+        servedSymbol: "ETH-USD",
+        failedAttempts: ["Binance ETHUSDT -> HTTP 503 Service Unavailable — {}"],
+      },
+    ]);
+    const stored = JSON.parse((await readStore("eth")).trim());
+    expect(stored).toMatchObject({ symbol: "ETH-USD", source: "coinbase", price: 3399.5, asOf: AS_OF });
+    const inbox = await readInbox();
+    expect(inbox.find((e) => e.id === `pm-eth-${AS_OF}`)?.price).toBe(3399.5);
+  });
+
+  it("serves an equity from Alpha Vantage when the key is set", async () => {
+    const result = await runPriceFetch({
+      config: { dataDir, markTime: "00:00" },
+      fetchImpl: withFallbacks({
+        AAPL: () =>
+          new Response(JSON.stringify({ status: "error", message: "symbol halted" }), { status: 200 }),
+      }),
+      now: () => FIRE,
+      credentials: { ...CREDENTIALS, alphaVantageApiKey: "av-key" },
+    });
+
+    expect(result.failures).toEqual([]);
+    expect(result.fallbacks.map((f) => [f.instrumentId, f.servedBy])).toEqual([
+      ["aapl", "alphavantage"],
+    ]);
+    expect(JSON.parse((await readStore("aapl")).trim())).toMatchObject({
+      symbol: "AAPL",
+      source: "alphavantage",
+      price: 212.75,
+    });
+  });
+
+  it("records the primary's failure, with each fallback's beside it, when every source fails", async () => {
+    const result = await runPriceFetch({
+      config: { dataDir, markTime: "00:00" },
+      fetchImpl: withFallbacks({
+        AAPL: () =>
+          new Response(JSON.stringify({ status: "error", message: "symbol halted" }), { status: 200 }),
+      }),
+      now: () => FIRE,
+      credentials: { ...CREDENTIALS, alphaVantageApiKey: "" },
+    });
+
+    expect(result.fallbacks).toEqual([]);
+    expect(result.failures).toHaveLength(1);
+    expect(result.failures[0]).toMatchObject({
+      instrumentId: "aapl",
+      message: "Twelve Data AAPL -> symbol halted",
+    });
+    expect(result.failures[0]?.fallbackErrors).toEqual([
+      expect.stringMatching(/^Alpha Vantage AAPL -> ALPHAVANTAGE_API_KEY is not set/),
+    ]);
+  });
+});
+
+describe("runPriceFetch — the consensus check holds a divergent close", () => {
+  /** Seed `eth`'s store with flat 3000 closes on the two days before `AS_OF`. */
+  async function seedEthHistory(): Promise<void> {
+    const { pricesDir } = resolvePriceFeedPaths(dataDir);
+    await mkdir(pricesDir, { recursive: true });
+    const rows = ["2026-07-01", "2026-07-02"].map((asOf) => ({
+      instrumentId: "eth",
+      symbol: "ETHUSDT",
+      asOf,
+      price: 3000,
+      source: "binance",
+      fetchedAt: `${asOf}T23:59:00.000Z`,
+    }));
+    await writeFile(
+      join(pricesDir, "eth.jsonl"),
+      `${rows.map((row) => JSON.stringify(row)).join("\n")}\n`,
+      "utf8",
+    );
+  }
+
+  it("keeps a close past the band out of the inbox, flags its store row and reports it", async () => {
+    await seedEthHistory();
+    const result = await runPriceFetch({
+      config: { dataDir, markTime: "00:00", consensusBand: 0.1 },
+      fetchImpl: mockFetch(),
+      now: () => RUN_INSTANT,
+      credentials: CREDENTIALS,
+    });
+
+    // 3400 against 3000 is +13.3%; every other instrument has no history and marks.
+    expect(result.held).toEqual([
+      {
+        id: `pm-eth-${AS_OF}`,
+        instrumentId: "eth",
+        asOf: AS_OF,
+        price: 3400,
+        path: "price",
+        reason:
+          "close 3400 is 13.3% from the last stored close 3000 (2026-07-02); the consensus " +
+          "band allows ±10.0% over 1 day(s)",
+        held: true,
+      },
+    ]);
+    expect(result.failures).toEqual([]);
+    expect(result.marks.map((m) => m.instrumentId)).not.toContain("eth");
+    expect(result.emittedCount).toBe(12);
+    expect((await readInbox()).map((e) => e.id)).not.toContain(`pm-eth-${AS_OF}`);
+    // The close is still stored — flagged, so it never becomes the next reference.
+    const stored = (await readStore("eth")).trim().split("\n").map((line) => JSON.parse(line));
+    expect(stored).toHaveLength(3);
+    expect(stored[2]).toMatchObject({ asOf: AS_OF, price: 3400, consensusHeld: true });
+  });
+
+  it("marks the same close as before with the band unset (the default)", async () => {
+    await seedEthHistory();
+    const result = await runPriceFetch({
+      config: { dataDir, markTime: "00:00" },
+      fetchImpl: mockFetch(),
+      now: () => RUN_INSTANT,
+      credentials: CREDENTIALS,
+    });
+
+    expect(result.held).toEqual([]);
+    expect(result.emittedCount).toBe(13);
+    expect(JSON.parse((await readStore("eth")).trim().split("\n")[2]!)).not.toHaveProperty(
+      "consensusHeld",
+    );
+  });
+
+  it("reads the band from PRICE_CONSENSUS_BAND and refuses one that is not a fraction", () => {
+    expect(readConsensusBandFromEnv({})).toBeNull();
+    expect(readConsensusBandFromEnv({ PRICE_CONSENSUS_BAND: " " })).toBeNull();
+    expect(readConsensusBandFromEnv({ PRICE_CONSENSUS_BAND: "0.15" })).toBe(0.15);
+    for (const raw of ["15", "15%", "0", "-0.1"]) {
+      expect(() => readConsensusBandFromEnv({ PRICE_CONSENSUS_BAND: raw })).toThrow(
+        PriceFetchRefusal,
+      );
+    }
+  });
+});
+
 describe("runPriceFetch — missing/stale FIX fails *-mxn loudly (ADR-005)", () => {
   it("fails every *-mxn derivation when the FIX is unavailable, keeping USD marks", async () => {
     const result = await runPriceFetch({
@@ -347,6 +660,81 @@ describe("runPriceFetch — missing/stale FIX fails *-mxn loudly (ADR-005)", ()
   });
 });
 
+describe("runPriceFetch — FX marks for the configured currencies", () => {
+  it("queues one FxMarked per currency ahead of the price marks, MXN off the FIX", async () => {
+    const result = await runPriceFetch({
+      config: { dataDir, markTime: "00:00", fxCurrencies: ["EUR", "GBP", "MXN"] },
+      fetchImpl: mockFetch(),
+      now: () => RUN_INSTANT,
+      credentials: CREDENTIALS,
+    });
+
+    expect(result.failures).toEqual([]);
+    expect(result.fxEmittedCount).toBe(3);
+    expect(result.emittedCount).toBe(13);
+    const inbox = await readInbox();
+    expect(inbox.slice(0, 3)).toEqual([
+      { id: `fx-EUR-${AS_OF}`, asOf: AS_OF, type: "FxMarked", currency: "EUR", rate: 0.9182 },
+      { id: `fx-GBP-${AS_OF}`, asOf: AS_OF, type: "FxMarked", currency: "GBP", rate: 0.7811 },
+      { id: `fx-MXN-${AS_OF}`, asOf: AS_OF, type: "FxMarked", currency: "MXN", rate: FIX_RATE },
+    ]);
+    expect(inbox.at(-1)?.id).toBe(`pm-sbux-mxn-${AS_OF}`);
+  });
+
+  it("fails a stale or missing rate attributably and still marks every price", async () => {
+    const result = await runPriceFetch({
+      config: { dataDir, markTime: "00:00", fxCurrencies: ["EUR", "CHF"] },
+      fetchImpl: mockFetch({ FX: () => frankfurterResponse("?symbols=EUR", "2026-06-25") }),
+      now: () => RUN_INSTANT,
+      credentials: CREDENTIALS,
+    });
+
+    expect(result.fxMarks).toEqual([]);
+    expect(result.emittedCount).toBe(13);
+    expect(result.failures.map((f) => [f.instrumentId, f.symbol])).toEqual([
+      ["usd-eur-fx", "USD/EUR"],
+      ["usd-chf-fx", "USD/CHF"],
+    ]);
+    expect(result.failures[0]?.message).toMatch(/USD\/EUR rate is stale/);
+    expect(result.failures[1]?.message).toMatch(/no positive CHF rate/);
+  });
+
+  it("asks for no rate before the mark time, or with none configured", async () => {
+    const hrefs: string[] = [];
+    const spy: typeof fetch = (url, init) => {
+      hrefs.push(String(url));
+      return mockFetch()(url, init);
+    };
+    await runPriceFetch({
+      config: { dataDir, fxCurrencies: ["EUR"] },
+      fetchImpl: spy,
+      now: () => RUN_INSTANT,
+      credentials: CREDENTIALS,
+    });
+    await runPriceFetch({
+      config: { dataDir, markTime: "00:00" },
+      fetchImpl: spy,
+      now: () => RUN_INSTANT,
+      credentials: CREDENTIALS,
+    });
+
+    expect(hrefs.filter((href) => href.includes("frankfurter"))).toEqual([]);
+  });
+
+  it("reads the currencies from PRICE_FX_CURRENCIES and refuses a list it cannot mark", () => {
+    expect(readFxCurrenciesFromEnv({})).toEqual([]);
+    expect(readFxCurrenciesFromEnv({ PRICE_FX_CURRENCIES: " eur, GBP " })).toEqual([
+      "EUR",
+      "GBP",
+    ]);
+    for (const raw of ["USD", "BRL", "EUR,EUR", "EUR;GBP"]) {
+      expect(() => readFxCurrenciesFromEnv({ PRICE_FX_CURRENCIES: raw })).toThrow(
+        PriceFetchRefusal,
+      );
+    }
+  });
+});
+
 describe("runPriceFetch — request timeout attribution (R4)", () => {
   it("attributes a stalled batched equities request to every equity symbol", async () => {
     const result = await runPriceFetch({
@@ -380,6 +768,287 @@ describe("runPriceFetch — request timeout attribution (R4)", () => {
   });
 });
 
+describe("runPriceFetch — a transient failure is retried before it counts", () => {
+  it("stores a close served on a retry, and reports every retried request", async () => {
+    let btcCalls = 0;
+    const sleeps: number[] = [];
+    const result = await runPriceFetch({
+      config: { dataDir, markTime: "00:00", twelveDataPauseMs: 60_000 },
+      fetchImpl: ((url: string | URL | Request, init?: RequestInit) => {
+        const href = typeof url === "string" ? url : url.toString();
+        if (href.includes("symbol=BTCUSDT") && btcCalls++ === 0) {
+          return Promise.resolve(
+            new Response("", { status: 503, statusText: "Service Unavailable" }),
+          );
+        }
+        // Twelve Data is down for the whole run: every attempt of every chunk fails.
+        if (href.includes("api.twelvedata.com")) {
+          return Promise.resolve(new Response("", { status: 502, statusText: "Bad Gateway" }));
+        }
+        return mockFetch()(url as string, init);
+      }) as typeof fetch,
+      now: () => RUN_INSTANT,
+      credentials: CREDENTIALS,
+      sleepImpl: async (ms) => {
+        sleeps.push(ms);
+      },
+    });
+
+    expect(result.quotes.map((q) => q.instrumentId)).toContain("btc");
+    expect(result.failures.map((f) => f.instrumentId)).not.toContain("btc");
+    expect(result.retries[0]).toEqual({
+      request: "Binance BTCUSDT",
+      attempts: 2,
+      reasons: ["HTTP 503 Service Unavailable"],
+      recovered: true,
+    });
+    // Both Twelve Data chunks ran out of attempts; their symbols still fail as before.
+    expect(result.retries.slice(1)).toMatchObject([
+      { attempts: 3, recovered: false },
+      { attempts: 3, recovered: false },
+    ]);
+    expect(result.failures).toHaveLength(9);
+    // Every Twelve Data retry waited out a credit window, like the pacing pause.
+    expect(sleeps.filter((ms) => ms === 60_000)).toHaveLength(5);
+  });
+
+  it("tries once when retryMaxAttempts is 1", async () => {
+    const result = await runPriceFetch({
+      config: { dataDir, markTime: "00:00", retryMaxAttempts: 1 },
+      fetchImpl: mockFetch({
+        BTCUSDT: () => new Response("", { status: 503, statusText: "Service Unavailable" }),
+      }),
+      now: () => RUN_INSTANT,
+      credentials: CREDENTIALS,
+    });
+    expect(result.retries).toEqual([]);
+    expect(result.failures.find((f) => f.instrumentId === "btc")?.message).toMatch(/HTTP 503/);
+  });
+});
+
+describe("runPriceFetch — a recorded run replays offline", () => {
+  it("replays a recording into the same marks, on the recording's clock, with no fetch", async () => {
+    const fixture = join(dataDir, "fixture");
+    const recorded = await runPriceFetch({
+      config: { dataDir: join(dataDir, "recorded"), markTime: "00:00" },
+      fetchImpl: mockFetch(),
+      now: () => RUN_INSTANT,
+      credentials: CREDENTIALS,
+      replay: { kind: "record", dir: fixture },
+    });
+
+    // No fetchImpl, no clock, different credentials: everything comes from the fixture.
+    const replayed = await runPriceFetch({
+      config: { dataDir, markTime: "00:00" },
+      credentials: { twelveDataApiKey: "other-key", banxicoToken: "other-token" },
+      replay: { kind: "replay", dir: fixture },
+    });
+
+    expect(replayed.failures).toEqual([]);
+    expect(replayed.emittedCount).toBe(13);
+    expect(replayed.quotes).toEqual(recorded.quotes);
+    expect((await readInbox()).map((event) => event.id)).toContain(`pm-eww-mxn-${AS_OF}`);
+  });
+
+  it("refuses to replay a directory that holds no recording, before any request", async () => {
+    await expect(
+      runPriceFetch({
+        config: { dataDir, markTime: "00:00" },
+        credentials: CREDENTIALS,
+        replay: { kind: "replay", dir: join(dataDir, "missing") },
+      }),
+    ).rejects.toThrow(PriceFetchRefusal);
+  });
+});
+
+describe("runIntradayFetch — hourly crypto readings, never a mark", () => {
+  // The settled hour before RUN_INSTANT and the running one: 11:00Z closes at 12:00Z,
+  // 06:00 in CDMX on the 3rd.
+  const hourlyFetch = ((url: string | URL | Request) => {
+    const href = typeof url === "string" ? url : url.toString();
+    const symbol = Object.keys(CRYPTO_CLOSES).find((s) => href.includes(`symbol=${s}`))!;
+    const hour = (openTime: number, close: number) => [
+      openTime, "0", "0", "0", String(close), "1", openTime + 3_599_999, "0", 0, "0", "0", "0",
+    ];
+    const settled = Date.parse("2026-07-03T11:00:00.000Z");
+    return Promise.resolve(
+      new Response(
+        JSON.stringify([hour(settled, CRYPTO_CLOSES[symbol]!), hour(settled + 3_600_000, 1)]),
+      ),
+    );
+  }) as typeof fetch;
+
+  it("stores one reading per crypto instrument and queues nothing", async () => {
+    const result = await runIntradayFetch({
+      config: { dataDir, intradayInterval: "1h" },
+      fetchImpl: hourlyFetch,
+      now: () => RUN_INSTANT,
+    });
+
+    expect(result.failures).toEqual([]);
+    expect(result.quotes.map((q) => q.instrumentId)).toEqual(["btc", "eth", "render", "gram"]);
+    expect(result.quotes[0]).toMatchObject({
+      asOf: AS_OF,
+      price: 65000,
+      intraday: true,
+      observedAt: "2026-07-03T12:00:00.000Z",
+    });
+    // A reading is not a close: the consensus history and the inbox never see it.
+    const { pricesDir, inbox } = resolvePriceFeedPaths(dataDir);
+    expect(await readStoredQuotes(pricesDir, "btc")).toEqual([]);
+    await expect(readFile(inbox, "utf8")).rejects.toThrow(/ENOENT/);
+  });
+
+  it("records a reading it could not append against that one instrument", async () => {
+    const { pricesDir } = resolvePriceFeedPaths(dataDir);
+    await mkdir(pricesDir, { recursive: true });
+    await symlink(join(dataDir, "no-such-dir", "eth.jsonl"), join(pricesDir, "eth.jsonl"));
+
+    const result = await runIntradayFetch({
+      config: { dataDir, intradayInterval: "1h" },
+      fetchImpl: hourlyFetch,
+      now: () => RUN_INSTANT,
+    });
+
+    expect(result.quotes.map((q) => q.instrumentId)).toEqual(["btc", "render", "gram"]);
+    expect(result.failures).toEqual([
+      { instrumentId: "eth", symbol: "ETHUSDT", message: expect.stringMatching(/ENOENT/) },
+    ]);
+  });
+
+  it("refuses an interval it cannot read, before any request", async () => {
+    await expect(
+      runIntradayFetch({ config: { dataDir, intradayInterval: "1d" }, fetchImpl: hourlyFetch }),
+    ).rejects.toThrow(PriceFetchRefusal);
+  });
+});
+
+describe("runPriceFetch — the daily run compacts the append-only store", () => {
+  it("folds an earlier day to its close and keeps one line per close", async () => {
+    const { pricesDir } = resolvePriceFeedPaths(dataDir);
+    const yesterday = "2026-07-02";
+    const close = {
+      instrumentId: "btc",
+      symbol: "BTCUSDT",
+      asOf: yesterday,
+      price: 64000,
+      source: "binance" as const,
+      fetchedAt: "2026-07-03T00:00:00.000Z",
+    };
+    for (const hour of ["20", "21"]) {
+      const observedAt = `${yesterday}T${hour}:00:00.000Z`;
+      await appendIntradayQuote(pricesDir, {
+        ...close,
+        price: 63000,
+        fetchedAt: observedAt,
+        intraday: true,
+        observedAt,
+      });
+    }
+    await upsertQuote(pricesDir, close);
+
+    const options = {
+      config: { dataDir, markTime: "00:00" },
+      fetchImpl: mockFetch(),
+      now: () => RUN_INSTANT,
+      credentials: CREDENTIALS,
+    };
+    // Twice, as the hourly evening window does: the second run's close supersedes
+    // the first's, and compaction leaves one line for it.
+    await runPriceFetch(options);
+    await runPriceFetch(options);
+
+    const lines = (await readStore("btc")).trim().split("\n").map((l) => JSON.parse(l));
+    expect(lines.map((l) => [l.asOf, l.price, l.intraday])).toEqual([
+      [yesterday, 64000, undefined],
+      [AS_OF, 65000, undefined],
+    ]);
+  });
+
+  it("records a compaction that fails against that one instrument, marks still queued", async () => {
+    // A directory where `eth`'s store file belongs: its upsert AND its compaction fail.
+    const { pricesDir } = resolvePriceFeedPaths(dataDir);
+    await mkdir(join(pricesDir, "eth.jsonl"), { recursive: true });
+
+    const result = await runPriceFetch({
+      config: { dataDir, markTime: "00:00" },
+      fetchImpl: mockFetch(),
+      now: () => RUN_INSTANT,
+      credentials: CREDENTIALS,
+    });
+
+    expect(result.failures).toContainEqual({
+      instrumentId: "eth",
+      symbol: "ETHUSDT",
+      message: expect.stringMatching(/^compacting the store file failed: .*EISDIR/),
+    });
+    expect(result.failures.every((failure) => failure.instrumentId === "eth")).toBe(true);
+    expect((await readInbox()).map((e) => e.id)).toContain(`pm-btc-${AS_OF}`);
+  });
+
+  it("never compacts on a recovery", async () => {
+    const { pricesDir } = resolvePriceFeedPaths(dataDir);
+    const reading = {
+      instrumentId: "btc",
+      symbol: "BTCUSDT",
+      asOf: "2026-07-01",
+      price: 63000,
+      source: "binance" as const,
+      fetchedAt: "2026-07-01T20:00:00.000Z",
+      intraday: true as const,
+      observedAt: "2026-07-01T20:00:00.000Z",
+    };
+    await appendIntradayQuote(pricesDir, reading);
+    await appendIntradayQuote(pricesDir, { ...reading, observedAt: "2026-07-01T21:00:00.000Z" });
+
+    await runPriceFetch({
+      config: { dataDir },
+      fetchImpl: mockFetch(),
+      now: () => new Date("2026-07-04T12:00:00.000Z"),
+      asOf: AS_OF,
+      credentials: CREDENTIALS,
+    });
+
+    expect((await readStore("btc")).trim().split("\n")).toHaveLength(3);
+  });
+});
+
+describe("compactStoredQuotes — serialised with appends by the file's lock", () => {
+  it("never drops an intraday append that arrives while the file is being compacted", async () => {
+    const { pricesDir } = resolvePriceFeedPaths(dataDir);
+    const reading = {
+      instrumentId: "btc",
+      symbol: "BTCUSDT",
+      asOf: "2026-07-02",
+      price: 63000,
+      source: "binance" as const,
+      fetchedAt: "2026-07-02T20:00:00.000Z",
+      intraday: true as const,
+      observedAt: "2026-07-02T20:00:00.000Z",
+    };
+    await appendIntradayQuote(pricesDir, reading);
+    await appendIntradayQuote(pricesDir, { ...reading, observedAt: "2026-07-02T21:00:00.000Z" });
+
+    // Another writer holds the lock; both the compaction and the append must wait for it.
+    const lockPath = join(pricesDir, "btc.jsonl.lock");
+    await writeFile(lockPath, "");
+    const compaction = compactStoredQuotes(pricesDir, "btc", AS_OF);
+    const append = appendIntradayQuote(pricesDir, {
+      ...reading,
+      asOf: AS_OF,
+      observedAt: `${AS_OF}T09:00:00.000Z`,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect((await readStore("btc")).trim().split("\n")).toHaveLength(2);
+    await rm(lockPath);
+    await Promise.all([compaction, append]);
+
+    const lines = (await readStore("btc")).trim().split("\n").map((l) => JSON.parse(l));
+    expect(lines.map((l) => l.observedAt)).toContain(`${AS_OF}T09:00:00.000Z`);
+    expect((await readdir(pricesDir)).filter((entry) => entry.endsWith(".lock"))).toEqual([]);
+  });
+});
+
 describe("runPriceFetch — Twelve Data pacing under the free-tier credit cap", () => {
   // Record the symbol list of every Twelve Data request so we can assert the batches.
   function recordingFetch(batches: string[][]): typeof fetch {
@@ -836,6 +1505,25 @@ describe("runPriceFetch — recovering a past trading day (R2.1/R2.3)", () => {
     const eww = (await readInbox()).find((event) => event.id === `pm-eww-mxn-${RECOVERY_AS_OF}`);
     expect(eww).toMatchObject({ instrumentId: "eww-mxn", price: 1156.25, usdMxn: FIX_RATE });
   });
+
+  it("asks for the previous FIX on a Mexican holiday the NYSE traded through", async () => {
+    // Wed 2026-09-16 is Día de la Independencia: the equities owe a close, Banxico
+    // publishes no FIX. Asking for one dated the holiday would fail every `*-mxn`.
+    const holiday = "2026-09-16";
+    const urls: string[] = [];
+    const result = await runPriceFetch({
+      config: { dataDir },
+      asOf: holiday,
+      fetchImpl: recoveryMockFetch(urls),
+      now: () => new Date("2026-09-18T15:00:00.000Z"),
+      credentials: CREDENTIALS,
+    });
+
+    expect(urls.some((href) => href.includes("/datos/2026-09-15/2026-09-15"))).toBe(true);
+    expect(result.failures).toEqual([]);
+    const eww = (await readInbox()).find((event) => event.id === `pm-eww-mxn-${holiday}`);
+    expect(eww).toMatchObject({ instrumentId: "eww-mxn", usdMxn: FIX_RATE });
+  });
 });
 
 describe("runPriceFetch — the owed set is computed BEFORE any request (R2.4/R2.5)", () => {
@@ -881,7 +1569,7 @@ describe("runPriceFetch — the owed set is computed BEFORE any request (R2.4/R2
 });
 
 describe("runPriceFetch — recovery is additive and idempotent", () => {
-  it("inserts the recovered day in date order and adds no new marks on a re-run", async () => {
+  it("reads the recovered day back in date order and adds no new marks on a re-run", async () => {
     // A live run first lands Monday's row, then the recovery lands Friday's.
     await runPriceFetch({
       config: { dataDir, markTime: "00:00" },
@@ -917,10 +1605,10 @@ describe("runPriceFetch — recovery is additive and idempotent", () => {
     };
     await runPriceFetch(recovery);
 
-    const rows = (await readStore("btc"))
-      .trim()
-      .split("\n")
-      .map((line) => JSON.parse(line) as { asOf: string });
+    // The store is append-only: the recovered day is the LAST line, and reads back
+    // in date order.
+    const { pricesDir } = resolvePriceFeedPaths(dataDir);
+    const rows = await readStoredQuotes(pricesDir, "btc");
     expect(rows.map((row) => row.asOf)).toEqual([RECOVERY_AS_OF, RECOVERY_TODAY]);
 
     const afterFirst = await readInbox();
@@ -930,3 +1618,367 @@ describe("runPriceFetch — recovery is additive and idempotent", () => {
     expect(await readInbox()).toHaveLength(afterFirst.length);
   });
 });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Range recovery (`--from`/`--to`). Same authored calendar as above: Thu 08-13
+// and Fri 08-14 owe all 13, Sat 08-15 and Sun 08-16 only the 4 crypto.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DAY_MS = 86_400_000;
+
+interface RangeMockOptions {
+  /** Requests actually constructed, in order. */
+  urls?: string[];
+  /** The FIX Banxico publishes per day; weekdays default to `FIX_RATE`. */
+  fixes?: Record<string, number>;
+  /** `SYMBOL@YYYY-MM-DD` bars the provider leaves out of its window. */
+  missing?: string[];
+}
+
+/**
+ * A mock that answers only WINDOWED requests, deriving every bar from the window the
+ * request names: one kline per UTC day, one Twelve Data bar per weekday (newest
+ * first, `end_date` exclusive), one FIX per weekday. A crypto close moves by one per
+ * day so a test can tell the days apart.
+ */
+function rangeMockFetch(options: RangeMockOptions = {}): typeof fetch {
+  const missing = new Set(options.missing ?? []);
+  const weekdays = (from: string, toExclusive: string): string[] => {
+    const out: string[] = [];
+    for (let date = from; date < toExclusive; date = addDaysUtc(date, 1)) {
+      const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+      if (weekday !== 0 && weekday !== 6) out.push(date);
+    }
+    return out;
+  };
+  return ((url: string | URL | Request) => {
+    const href = typeof url === "string" ? url : url.toString();
+    options.urls?.push(href);
+    if (href.includes("banxico.org.mx")) {
+      const window = /\/datos\/(\d{4}-\d{2}-\d{2})\/(\d{4}-\d{2}-\d{2})$/.exec(href)!;
+      const datos = weekdays(window[1]!, addDaysUtc(window[2]!, 1)).map((date) => ({
+        fecha: banxicoFecha(date),
+        dato: String(options.fixes?.[date] ?? FIX_RATE),
+      }));
+      return Promise.resolve(
+        new Response(JSON.stringify({ bmx: { series: [{ idSerie: "SF43718", datos }] } }), {
+          status: 200,
+        }),
+      );
+    }
+    if (href.includes("api.binance.com")) {
+      const symbol = Object.keys(CRYPTO_CLOSES).find((s) => href.includes(`symbol=${s}`))!;
+      const start = Number(/[?&]startTime=(\d+)/.exec(href)![1]);
+      const end = Number(/[?&]endTime=(\d+)/.exec(href)![1]);
+      const rows: unknown[] = [];
+      for (let t = start, i = 0; t <= end; t += DAY_MS, i++) {
+        const date = new Date(t).toISOString().slice(0, 10);
+        if (!missing.has(`${symbol}@${date}`)) rows.push(klineRow(t, CRYPTO_CLOSES[symbol]! + i));
+      }
+      return Promise.resolve(new Response(JSON.stringify(rows), { status: 200 }));
+    }
+    if (href.includes("api.twelvedata.com")) {
+      const symbols = decodeURIComponent(/[?&]symbol=([^&]+)/.exec(href)![1]!).split(",");
+      const from = /[?&]start_date=([^&]+)/.exec(href)![1]!;
+      const toExclusive = /[?&]end_date=([^&]+)/.exec(href)![1]!;
+      const keyed: Record<string, unknown> = {};
+      for (const symbol of symbols) {
+        keyed[symbol] = {
+          status: "ok",
+          values: weekdays(from, toExclusive)
+            .filter((date) => !missing.has(`${symbol}@${date}`))
+            .reverse()
+            .map((datetime) => ({ datetime, close: String(EQUITY_CLOSES[symbol]) })),
+        };
+      }
+      const body = symbols.length === 1 ? keyed[symbols[0]!] : keyed;
+      return Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+    }
+    return Promise.resolve(new Response("[]", { status: 200 }));
+  }) as typeof fetch;
+}
+
+function addDaysUtc(isoDate: string, days: number): string {
+  return new Date(Date.parse(`${isoDate}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+describe("runPriceFetchRange — one window per provider, one mark per owed day", () => {
+  const range = (from: string, to: string, options: RangeMockOptions = {}) =>
+    runPriceFetchRange({
+      config: { dataDir },
+      from,
+      to,
+      fetchImpl: rangeMockFetch(options),
+      now: () => RECOVERY_NOW,
+      credentials: CREDENTIALS,
+    });
+
+  it("recovers four days with one request per crypto symbol, per equity chunk and for the FIX", async () => {
+    const urls: string[] = [];
+    const result = await range("2026-08-13", "2026-08-16", { urls });
+
+    const binance = urls.filter((href) => href.includes("api.binance.com"));
+    const twelveData = urls.filter((href) => href.includes("api.twelvedata.com"));
+    const banxico = urls.filter((href) => href.includes("banxico.org.mx"));
+    expect(binance).toHaveLength(4);
+    expect(binance.every((href) => href.includes("limit=1000"))).toBe(true);
+    // 9 symbols paced 8 + 1 — the same two requests a one-day recovery makes.
+    expect(twelveData).toHaveLength(2);
+    expect(
+      twelveData.every((href) => href.includes("start_date=2026-08-13&end_date=2026-08-17")),
+    ).toBe(true);
+    // The FIX window opens `fixMaxStaleDays` (4) before the range.
+    expect(banxico).toEqual([expect.stringMatching(/\/datos\/2026-08-09\/2026-08-16$/)]);
+
+    expect(result.days.map((day) => [day.asOf, day.totalCount, day.marks.length])).toEqual([
+      ["2026-08-13", 13, 13],
+      ["2026-08-14", 13, 13],
+      ["2026-08-15", 4, 4],
+      ["2026-08-16", 4, 4],
+    ]);
+    expect(result.days[2]!.notOwed).toHaveLength(9);
+    expect(result.failures).toEqual([]);
+    expect(result.days.every((day) => day.failures.length === 0)).toBe(true);
+    expect(result.emittedCount).toBe(34);
+
+    const ids = (await readInbox()).map((event) => event.id);
+    expect(ids).toHaveLength(34);
+    expect(ids).toContain("pm-aapl-2026-08-14");
+    expect(ids).not.toContain("pm-aapl-2026-08-15");
+    // Each day's own bar, never a neighbour's: BTC's close moves by one a day.
+    const btc = (await readStore("btc"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as { asOf: string; price: number; fetchedAt: string });
+    expect(btc.map((row) => [row.asOf, row.price])).toEqual([
+      ["2026-08-13", 65000],
+      ["2026-08-14", 65001],
+      ["2026-08-15", 65002],
+      ["2026-08-16", 65003],
+    ]);
+    expect(btc.every((row) => row.fetchedAt === RECOVERY_NOW.toISOString())).toBe(true);
+  });
+
+  it("derives each day's *-mxn mark off the FIX published that day", async () => {
+    await range("2026-08-13", "2026-08-14", { fixes: { "2026-08-13": 18, "2026-08-14": 20 } });
+
+    const inbox = await readInbox();
+    expect(inbox.find((event) => event.id === "pm-eww-mxn-2026-08-13")).toMatchObject({
+      price: 1125,
+      usdMxn: 18,
+    });
+    expect(inbox.find((event) => event.id === "pm-eww-mxn-2026-08-14")).toMatchObject({
+      price: 1250,
+      usdMxn: 20,
+    });
+  });
+
+  it("names an owed day the window left out, and still marks every other day", async () => {
+    const result = await range("2026-08-13", "2026-08-16", {
+      missing: ["BTCUSDT@2026-08-14", "AAPL@2026-08-13"],
+    });
+
+    expect(result.days[0]!.failures).toEqual([
+      {
+        instrumentId: "aapl",
+        symbol: "AAPL",
+        message: "Twelve Data AAPL -> no bar dated 2026-08-13 in the response",
+      },
+    ]);
+    expect(result.days[1]!.failures).toEqual([
+      {
+        instrumentId: "btc",
+        symbol: "BTCUSDT",
+        message: "Binance BTCUSDT -> no kline for 2026-08-14",
+      },
+    ]);
+    // No request failed — the windows came back, one bar short each.
+    expect(result.failures).toEqual([]);
+    expect(result.marks).toHaveLength(32);
+  });
+
+  it("repeats a failed window's reason on every owed day it cost", async () => {
+    const result = await runPriceFetchRange({
+      config: { dataDir },
+      from: "2026-08-13",
+      to: "2026-08-16",
+      fetchImpl: ((url: string | URL | Request) => {
+        const href = typeof url === "string" ? url : url.toString();
+        return href.includes("symbol=ETHUSDT")
+          ? Promise.resolve(new Response("", { status: 503, statusText: "Service Unavailable" }))
+          : rangeMockFetch()(url as string);
+      }) as typeof fetch,
+      now: () => RECOVERY_NOW,
+      credentials: CREDENTIALS,
+    });
+
+    expect(result.failures.map((failure) => failure.instrumentId)).toEqual(["eth"]);
+    expect(result.days.map((day) => day.failures.map((failure) => failure.message))).toEqual(
+      Array(4).fill([result.failures[0]!.message]),
+    );
+    expect(result.marks).toHaveLength(30);
+  });
+
+  it("records a store write that fails as that day's failure, and recovers every other", async () => {
+    // `eth`'s store file points into a directory that does not exist: every write fails.
+    const { pricesDir } = resolvePriceFeedPaths(dataDir);
+    await mkdir(pricesDir, { recursive: true });
+    await symlink(join(dataDir, "no-such-dir", "eth.jsonl"), join(pricesDir, "eth.jsonl"));
+
+    const result = await range("2026-08-13", "2026-08-16");
+
+    expect(result.failures).toEqual([]);
+    expect(result.days.map((day) => day.failures)).toEqual(
+      Array(4).fill([
+        { instrumentId: "eth", symbol: "ETHUSDT", message: expect.stringMatching(/ENOENT/) },
+      ]),
+    );
+    expect(result.storedCount).toBe(30);
+    expect(result.marks).toHaveLength(30);
+    expect(result.marks.some((mark) => mark.instrumentId === "eth")).toBe(false);
+  });
+
+  it("builds no Twelve Data or Banxico request for a range no equity owes", async () => {
+    const urls: string[] = [];
+    const result = await range("2026-08-15", "2026-08-16", { urls });
+
+    expect(urls.filter((href) => !href.includes("api.binance.com"))).toEqual([]);
+    expect(result.days.map((day) => day.notOwed.length)).toEqual([9, 9]);
+    expect(result.emittedCount).toBe(8);
+  });
+
+  it("adds no new marks when an overlapping range is re-run", async () => {
+    await range("2026-08-13", "2026-08-16");
+    const before = await readInbox();
+
+    const again = await range("2026-08-14", "2026-08-16");
+    expect(again.emittedCount).toBe(0);
+    expect(again.skippedCount).toBe(21);
+    expect(await readInbox()).toHaveLength(before.length);
+  });
+});
+
+describe("runPriceFetchRange — the range is validated before any request", () => {
+  const refuse = (from: string, to: string) => {
+    const urls: string[] = [];
+    return {
+      urls,
+      run: runPriceFetchRange({
+        config: { dataDir },
+        from,
+        to,
+        fetchImpl: rangeMockFetch({ urls }),
+        now: () => RECOVERY_NOW,
+        credentials: CREDENTIALS,
+      }),
+    };
+  };
+
+  it("refuses an impossible date, a reversed range, and a range that reaches today", async () => {
+    await expect(refuse("2026-02-30", "2026-08-14").run).rejects.toThrow(
+      /from "2026-02-30".*calendar/,
+    );
+    await expect(refuse("2026-08-14", "2026-08-13").run).rejects.toThrow(/after to "2026-08-13"/);
+    await expect(refuse("2026-08-14", RECOVERY_TODAY).run).rejects.toThrow(/daily job/);
+  });
+
+  it("refuses a range longer than one Binance request can return, and writes nothing", async () => {
+    const attempt = refuse("2023-11-20", "2026-08-16");
+    await expect(attempt.run).rejects.toThrow(/1001 days; one run recovers at most 1000/);
+    expect(attempt.urls).toEqual([]);
+    await expect(readInbox()).rejects.toThrow();
+  });
+});
+
+describe("runPriceFetchRange — FX marks for every owed day", () => {
+  it("queues one FxMarked per currency per day, ahead of the price marks", async () => {
+    const hrefs: string[] = [];
+    const result = await runPriceFetchRange({
+      config: { dataDir, fxCurrencies: ["EUR"] },
+      from: "2026-08-13",
+      to: "2026-08-16",
+      fetchImpl: ((url: string | URL | Request) => {
+        const href = typeof url === "string" ? url : url.toString();
+        if (!href.includes("api.frankfurter.app")) return rangeMockFetch()(href);
+        hrefs.push(href);
+        // ECB publishes weekdays only: a weekend asks for its day and gets Friday's.
+        const date = /\/(\d{4}-\d{2}-\d{2})\?/.exec(href)![1]!;
+        return Promise.resolve(frankfurterResponse(href, date > "2026-08-14" ? "2026-08-14" : date));
+      }) as typeof fetch,
+      now: () => RECOVERY_NOW,
+      credentials: CREDENTIALS,
+    });
+
+    expect(hrefs).toHaveLength(4);
+    expect(result.failures).toEqual([]);
+    expect(result.days.map((day) => day.fxMarks.map((fx) => fx.id))).toEqual([
+      ["fx-EUR-2026-08-13"],
+      ["fx-EUR-2026-08-14"],
+      ["fx-EUR-2026-08-15"],
+      ["fx-EUR-2026-08-16"],
+    ]);
+    expect(result.fxEmittedCount).toBe(4);
+    expect(result.emittedCount).toBe(34);
+    const inbox = await readInbox();
+    expect(inbox.slice(0, 4).map((event) => event.id)).toEqual(
+      result.fxMarks.map((fx) => fx.id),
+    );
+  });
+
+  it("names the day of a rate it could not get", async () => {
+    const result = await runPriceFetchRange({
+      config: { dataDir, fxCurrencies: ["CHF"] },
+      from: "2026-08-13",
+      to: "2026-08-14",
+      fetchImpl: rangeMockFetch(),
+      now: () => RECOVERY_NOW,
+      credentials: CREDENTIALS,
+    });
+
+    expect(result.fxMarks).toEqual([]);
+    expect(result.failures).toEqual(
+      ["2026-08-13", "2026-08-14"].map((date) => ({
+        instrumentId: "usd-chf-fx",
+        symbol: "USD/CHF",
+        message: expect.stringMatching(new RegExp(`^${date}: Frankfurter USD/CHF -> `)),
+      })),
+    );
+  });
+});
+
+describe("runPriceFetchRange — the consensus check runs day by day", () => {
+  it("holds each divergent day, never judging the next day against a held one", async () => {
+    const { pricesDir } = resolvePriceFeedPaths(dataDir);
+    await mkdir(pricesDir, { recursive: true });
+    const seeded = {
+      instrumentId: "eth",
+      symbol: "ETHUSDT",
+      asOf: "2026-08-12",
+      price: 2000,
+      source: "binance",
+      fetchedAt: "2026-08-12T23:59:00.000Z",
+    };
+    await writeFile(join(pricesDir, "eth.jsonl"), `${JSON.stringify(seeded)}\n`, "utf8");
+
+    const result = await runPriceFetchRange({
+      // Wide enough for the mock's one-a-day crypto drift (gram's 5.5 → 6.5 is +18%).
+      config: { dataDir, consensusBand: 0.2 },
+      from: "2026-08-13",
+      to: "2026-08-14",
+      fetchImpl: rangeMockFetch(),
+      now: () => RECOVERY_NOW,
+      credentials: CREDENTIALS,
+    });
+
+    // The 13th (3400) is held against the 12th's 2000, and so is the 14th (3401):
+    // judged against the held 13th instead, it would have passed.
+    expect(result.held.map((row) => [row.asOf, row.instrumentId])).toEqual([
+      ["2026-08-13", "eth"],
+      ["2026-08-14", "eth"],
+    ]);
+    expect(result.days.map((day) => day.held.length)).toEqual([1, 1]);
+    expect(result.held[1]?.reason).toMatch(/from the last stored close 2000 \(2026-08-12\)/);
+    expect(result.marks.some((mark) => mark.instrumentId === "eth")).toBe(false);
+    expect(result.emittedCount).toBe(24);
+  });
+});
@@ -62,43 +62,173 @@
  * it still fetches all 9 equity symbols on a Saturday, stores Friday's close under
  * Saturday's `asOf`, and records 9 stale-mark skips. Making the filter unconditional
  * would quietly change what the nightly job stores; that is a separate decision.
+ *
+ * RECOVERING A RANGE. `runPriceFetchRange` recovers every day from `from` to `to` in
+ * one run instead of one `asOf` run per day, each of which would re-spend Twelve
+ * Data's per-minute credits from scratch. Each day is filtered through `owesMarkOn`
+ * exactly as a one-day recovery is, but the requests are built per PROVIDER, not per
+ * day: one Binance klines window per symbol, one paced Twelve Data `time_series`
+ * window per chunk, and one Banxico window for the FIX. Each owed day then takes the
+ * bar dated that day — a day with none is named, never filled from a neighbour — and
+ * every mark goes through ONE inbox merge, so re-running an overlapping range is as
+ * safe as re-running a day.
+ *
+ * FALLBACK SOURCES. A registry row may name `fallbacks` — Coinbase behind Binance,
+ * Alpha Vantage behind Twelve Data. When the primary fails for an instrument, each
+ * fallback is tried in order, one symbol at a time, and the first to serve a close
+ * stands in: its quote is stored under the instrument with `source` naming the
+ * provider that ACTUALLY served it, its bar passes the same freshness gate, and the
+ * run reports it in `fallbacks`. A served fallback is not a failure — the run stays
+ * clean. Only when every source fails is the primary's error recorded, with each
+ * fallback's refusal beside it. The venue calendar and the owed set stay keyed by
+ * the row's primary `source`: a fallback serves the same bar, not a different venue.
+ * A range recovery is PRIMARY-ONLY — its windows are one request per provider, and
+ * re-running the failed days as one-day recoveries is what reaches the fallbacks.
+ *
+ * THE CONSENSUS HOLD. With `consensusBand` set, every built mark's stored close is
+ * judged against the instrument's own stored history (the engine's
+ * `checkQuoteConsensus`) BEFORE the inbox merge. A close too far from the last
+ * stored one is HELD: its mark never reaches the inbox, its store row is flagged
+ * `consensusHeld` so it is never the reference for a later close, and the run
+ * reports it in `held` as a `MarkRejection` — the channel the spine pre-check
+ * already reports through. The close is still stored: the store is every run's
+ * record of what the provider said. Off by default; a range recovery applies it day
+ * by day, so a held day is not the reference for the next one.
+ *
+ * BOUNDED RETRY. Every provider request is handed the run's one `RetryContext`: a
+ * transient failure — a timeout, a 5xx, a 429, a refusal body that says as much — is
+ * asked again under the config's `retry*` policy before it becomes a failure, so one
+ * bad response from Twelve Data no longer fails a whole batch. The waits go through
+ * `sleepImpl`, like the pacing; a Twelve Data retry also waits out `twelveDataPauseMs`,
+ * because the refused attempt may already have spent the window's credits. Every
+ * request that needed a retry is reported in `retries`, recovered or not: a run that
+ * is clean only because it retried is still worth a line in the log.
+ *
+ * RECORD / REPLAY (replay.ts). `NUMISMA_PRICE_RECORD=<dir>` wraps the run's `fetch`
+ * so every provider exchange is written to a fixture directory; `NUMISMA_PRICE_REPLAY=<dir>`
+ * replaces it with that fixture, runs on the recording's clock and never sleeps. The
+ * run itself is unchanged either way — the store, the inbox and the report are the
+ * real ones, so a replay wants its own `NUMISMA_DATA_DIR`.
+ *
+ * INTRADAY READINGS. `runIntradayFetch` (`pnpm prices:intraday`) stores the newest
+ * settled intraday candle of every crypto instrument as an intraday row in the same
+ * append-only store, and emits nothing: the Mark Cadence stays one `PriceMarked` per
+ * trading day, built by the daily run from the daily close. The daily live run then
+ * COMPACTS each file it fetched, folding every earlier trading day to its close, so
+ * an hourly cadence does not grow the store without bound. A recovery never
+ * compacts — it is about a past day, not about the store's housekeeping.
  */
 import {
+  addDays,
+  checkQuoteConsensus,
+  daysBetween,
   deriveMxnMark,
+  fxMarkFromRate,
   instrumentsForSource,
   isAtOrAfterMarkTime,
   isIsoCalendarDate,
+  lastExpectedFixDate,
   markFromQuote,
   owesMarkOn,
   requireFreshFix,
+  requireFreshFxRate,
   tradingDayAsOf,
+  type FallbackProvider,
+  type FallbackQuoteSource,
   type FixObservation,
+  type FxCurrency,
+  type FxMarkedEvent,
+  type InstrumentRegistry,
   type InstrumentRegistryEntry,
+  type IntradayQuote,
   type PriceMarkedEvent,
   type PriceSource,
   type Quote,
+  type QuoteProvider,
 } from "@numisma/engine";
 import { mkdir } from "node:fs/promises";
+import {
+  formatInstrumentRegistryLoadIssues,
+  loadInstrumentRegistryStrict,
+} from "@numisma/event-store";
 import {
   DEFAULT_CONFIG,
+  readConsensusBandFromEnv,
   readCredentialsFromEnv,
+  readFxCurrenciesFromEnv,
+  readIntradayIntervalFromEnv,
   type PriceFeedConfig,
   type ProviderCredentials,
 } from "./config.js";
-import { fetchBinanceDailyClose } from "./binance-provider.js";
-import type { ProviderObservation } from "./provider.js";
-import { fetchTwelveDataDailyCloses, type ProviderFetchResult } from "./twelvedata-provider.js";
-import { fetchBanxicoFix } from "./banxico-provider.js";
+import {
+  BINANCE_INTRADAY_INTERVALS,
+  BINANCE_MAX_KLINES,
+  fetchBinanceDailyClose,
+  fetchBinanceDailyCloseRange,
+  fetchBinanceIntradayClose,
+  type IntradayObservation,
+} from "./binance-provider.js";
+import type {
+  FetchOptions,
+  ProviderObservation,
+  RetryContext,
+  RetryOutcome,
+} from "./provider.js";
+import {
+  fetchTwelveDataDailyCloseRange,
+  fetchTwelveDataDailyCloses,
+  type ProviderFetchResult,
+} from "./twelvedata-provider.js";
+import { fetchBanxicoFix, fetchBanxicoFixRange } from "./banxico-provider.js";
+import { fetchCoinbaseDailyClose } from "./coinbase-provider.js";
+import { fetchFrankfurterRate } from "./frankfurter-provider.js";
+import { fetchAlphaVantageDailyClose } from "./alphavantage-provider.js";
 import { emitMarksToInbox } from "./inbox.js";
 import { resolvePriceFeedPaths } from "./paths.js";
-import { upsertQuote } from "./price-store.js";
+import {
+  appendIntradayQuote,
+  compactStoredQuotes,
+  readStoredQuotes,
+  upsertQuote,
+} from "./price-store.js";
 import { PriceFetchRefusal } from "./refusal.js";
+import type { MarkRejection } from "./rejection-check.js";
+import {
+  readReplayManifest,
+  readReplayModeFromEnv,
+  recordingFetch,
+  replayFetch,
+  type ReplayMode,
+} from "./replay.js";
 
 /** One instrument that could not be fetched, with the symbol-attributable reason. */
 export interface FetchFailure {
   instrumentId: string;
   symbol: string;
+  /** The PRIMARY source's reason — the one a failure has always carried. */
   message: string;
+  /**
+   * Each fallback's reason, in the row's order, when the row names any and every one
+   * of them failed too. Absent on a row with no fallbacks.
+   */
+  fallbackErrors?: string[];
+}
+
+/**
+ * One instrument whose primary source failed and a FALLBACK served instead. INFO,
+ * like a {@link MarkSkip}: the quote was stored and marks as usual, so it does not
+ * force a non-zero exit — but the operator is told which provider stood in, and why.
+ */
+export interface FetchFallback {
+  instrumentId: string;
+  /** The primary's symbol and source — the ones that failed. */
+  symbol: string;
+  source: PriceSource;
+  /** The provider that served the quote, and its own symbol for the instrument. */
+  servedBy: FallbackProvider;
+  servedSymbol: string;
+  /** The primary's reason, then any earlier fallback's, in the order they were tried. */
+  failedAttempts: string[];
 }
 
 /**
@@ -164,6 +294,14 @@ export interface FetchRunResult {
    * not a re-derivation from the raw USD quotes.
    */
   marks: PriceMarkedEvent[];
+  /**
+   * One `FxMarked` per `fxCurrencies` entry whose rate was served fresh, queued in the
+   * inbox ahead of `marks` by a merge of their own. Empty before the mark time and
+   * with no currency configured; a currency without one is in `failures`.
+   */
+  fxMarks: FxMarkedEvent[];
+  /** New FX mark candidates written to the inbox — counted apart from `emittedCount`. */
+  fxEmittedCount: number;
   failures: FetchFailure[];
   /**
    * Marks skipped because the instrument's bar predates `asOf`, so no fresh close
@@ -173,6 +311,33 @@ export interface FetchRunResult {
    * (no marks are built then) and on ordinary at/after-18:00 CDMX runs.
    */
   staleMarkSkips: MarkSkip[];
+  /**
+   * Instruments a fallback served after the primary failed. INFO, not failures — the
+   * quotes are in `quotes` and their marks in `marks`. Empty when every primary
+   * served.
+   */
+  fallbacks: FetchFallback[];
+  /**
+   * Marks the consensus check held back from the inbox, each with the check's own
+   * sentence as its `reason`. Not in `marks`, and not failures: the CLI reports
+   * them through the spine-scan channel, and they exit non-zero there. Empty with
+   * the check off.
+   */
+  held: MarkRejection[];
+  /**
+   * One entry per request that failed transiently at least once, in the order they
+   * settled: recovered ones served on a later attempt, the rest are also in
+   * `failures`. Empty on a run where every request was served first time.
+   */
+  retries: RetryOutcome[];
+  /**
+   * The registry this run fetched against: the code table plus any rows
+   * `instruments.jsonl` added. Carried so the report classifies against the same
+   * instruments the run attempted, rather than re-reading a file that may have moved on.
+   */
+  instruments: InstrumentRegistry;
+  /** One line per `instruments.jsonl` line the loader skipped. Empty on a clean load. */
+  registryIssues: string[];
 }
 
 export interface RunOptions {
@@ -193,10 +358,183 @@ export interface RunOptions {
   credentials?: Partial<ProviderCredentials>;
   /**
    * Injectable sleep used to PACE Twelve Data chunks under the free-tier per-minute
-   * credit cap. Defaults to a real `setTimeout` wait; tests pass a no-op so pacing
-   * logic is exercised without waiting a real minute.
+   * credit cap, and to wait between retries. Defaults to a real `setTimeout` wait;
+   * tests pass a no-op so pacing and backoff are exercised without waiting.
    */
   sleepImpl?: (ms: number) => Promise<void>;
+  /**
+   * Record the run's provider exchanges into a fixture, or replay one instead of the
+   * network (replay.ts). Defaults to `NUMISMA_PRICE_RECORD` / `NUMISMA_PRICE_REPLAY`.
+   * Recording wraps `fetchImpl`; replaying replaces it, and also replaces the `now`
+   * and `sleepImpl` defaults — an injected one still wins.
+   */
+  replay?: ReplayMode;
+}
+
+export interface RangeRunOptions extends Omit<RunOptions, "asOf"> {
+  /** The first past day to recover, `YYYY-MM-DD`, inclusive. */
+  from: string;
+  /**
+   * The last day to recover, `YYYY-MM-DD`, inclusive. Validated like `asOf`: a real
+   * calendar day strictly earlier than the current trading day, and not before `from`.
+   */
+  to: string;
+}
+
+export type IntradayRunOptions = Omit<RunOptions, "asOf">;
+
+/** What one `prices:intraday` run stored, and what it could not. */
+export interface IntradayRunResult {
+  /** The trading day the run fell in. */
+  asOf: string;
+  /** The run's interval, e.g. `1h`. */
+  interval: string;
+  /** One reading per crypto instrument that was served. */
+  quotes: IntradayQuote[];
+  failures: FetchFailure[];
+  retries: RetryOutcome[];
+  /** One line per `instruments.jsonl` line the loader skipped. Empty on a clean load. */
+  registryIssues: string[];
+}
+
+/** One day of a range recovery, reported the way a one-day recovery reports its day. */
+export interface RecoveredDay {
+  asOf: string;
+  /** Instruments whose venue owed no mark this day — never looked for. */
+  notOwed: readonly NotOwed[];
+  /** Instruments owed a mark this day. */
+  totalCount: number;
+  /** The quotes stored under this day. */
+  quotes: Quote[];
+  marks: PriceMarkedEvent[];
+  /** This day's marks the consensus check held back — see {@link FetchRunResult.held}. */
+  held: MarkRejection[];
+  /** This day's `FxMarked` candidates — see {@link FetchRunResult.fxMarks}. */
+  fxMarks: FxMarkedEvent[];
+  /**
+   * Why each owed instrument without a mark has none: its window request failed, the
+   * window held no bar dated this day, its quote could not be stored, or its `*-mxn`
+   * derivation had no fresh FIX. A held mark's failed store flag is here too.
+   */
+  failures: FetchFailure[];
+}
+
+export interface RangeFetchRunResult {
+  from: string;
+  to: string;
+  /** Every day of the range, in order, owed anything or not. */
+  days: RecoveredDay[];
+  /** Every quote stored, across the range. */
+  quotes: Quote[];
+  /** Every mark built, across the range — the batch handed to the one inbox merge. */
+  marks: PriceMarkedEvent[];
+  /** Every mark the consensus check held back, across the range. */
+  held: MarkRejection[];
+  /** Every `FxMarked` candidate built, across the range — merged ahead of `marks`. */
+  fxMarks: FxMarkedEvent[];
+  /** New FX mark candidates written to the inbox — counted apart from `emittedCount`. */
+  fxEmittedCount: number;
+  /** Every request that needed a retry — see {@link FetchRunResult.retries}. */
+  retries: RetryOutcome[];
+  /**
+   * One entry per failed REQUEST (an instrument's window, the FIX window, or one day's
+   * FX rate, its message led by that day). What an instrument's window cost is
+   * repeated, day by day, in `days[].failures`.
+   */
+  failures: FetchFailure[];
+  storedCount: number;
+  /** New mark candidates written to the inbox. */
+  emittedCount: number;
+  /** Marks already pending under the same id — skipped. */
+  skippedCount: number;
+  /** The registry the range fetched against — see {@link FetchRunResult.instruments}. */
+  instruments: InstrumentRegistry;
+  /** One line per `instruments.jsonl` line the loader skipped. */
+  registryIssues: string[];
+}
+
+/**
+ * The longest range one run recovers: the most daily klines one Binance request
+ * returns, so every symbol's window stays a single request.
+ */
+const MAX_RANGE_DAYS = BINANCE_MAX_KLINES;
+
+/** The options every fallback fetcher takes: the envelope, the day and the keys. */
+interface FallbackFetchOptions extends FetchOptions {
+  targetDate: string | undefined;
+  credentials: ProviderCredentials;
+}
+
+/**
+ * How to ask each fallback provider for one close. Each takes the registry row AS THE
+ * FALLBACK NAMES IT — the row's `symbol` swapped for the fallback's — so the
+ * observation, and every error, carries the symbol the provider was actually asked for.
+ */
+const FALLBACK_FETCHERS: Readonly<
+  Record<
+    FallbackProvider,
+    (entry: InstrumentRegistryEntry, options: FallbackFetchOptions) => Promise<ProviderObservation>
+  >
+> = {
+  coinbase: (entry, { credentials: _credentials, ...options }) =>
+    fetchCoinbaseDailyClose(entry, options),
+  alphavantage: (entry, { credentials, ...options }) =>
+    fetchAlphaVantageDailyClose(entry, { ...options, apiKey: credentials.alphaVantageApiKey }),
+};
+
+/** The options every FX rate fetcher takes: the envelope, the day and the keys. */
+interface FxFetchOptions {
+  timeoutMs: number;
+  fetchImpl: typeof fetch;
+  retry: RetryContext;
+  targetDate: string | undefined;
+  credentials: ProviderCredentials;
+}
+
+/**
+ * Where each currency's rate comes from — the FX counterpart of the fallback table.
+ * MXN is the Banxico FIX the `*-mxn` derivations already read, asked for the way they
+ * ask for it; every other currency is the ECB reference rate, through Frankfurter.
+ */
+const FX_FETCHERS: Readonly<
+  Record<FxCurrency, (currency: FxCurrency, options: FxFetchOptions) => Promise<FixObservation>>
+> = {
+  MXN: (_currency, { credentials, targetDate, ...options }) =>
+    fetchBanxicoFix({
+      ...options,
+      token: credentials.banxicoToken,
+      ...(targetDate === undefined ? {} : { targetDate: lastExpectedFixDate(targetDate) }),
+    }),
+  EUR: frankfurterRate,
+  GBP: frankfurterRate,
+  CAD: frankfurterRate,
+  CHF: frankfurterRate,
+  JPY: frankfurterRate,
+};
+
+function frankfurterRate(currency: FxCurrency, options: FxFetchOptions): Promise<FixObservation> {
+  const { credentials: _credentials, targetDate, ...envelope } = options;
+  return fetchFrankfurterRate(currency, {
+    ...envelope,
+    ...(targetDate === undefined ? {} : { targetDate }),
+  });
+}
+
+/**
+ * Where one run's per-instrument outcomes land, shared by the sequential and the
+ * batched fetch. `fetchFallback` asks one fallback for one row, with the run's
+ * envelope and day already bound.
+ */
+interface RunTally {
+  successes: FetchedQuote[];
+  failures: FetchFailure[];
+  fallbacks: FetchFallback[];
+  pricesDir: string;
+  asOf: string;
+  fetchFallback: (
+    entry: InstrumentRegistryEntry,
+    fallback: FallbackQuoteSource,
+  ) => Promise<ProviderObservation>;
 }
 
 /** One fetched instrument paired with its registry row (needed to build the mark). */
@@ -214,15 +552,8 @@ interface FetchedQuote {
  * mark for crypto/US equities, a derived `USD × FIX` mark for `*-mxn`).
  */
 export async function runPriceFetch(options: RunOptions = {}): Promise<FetchRunResult> {
-  const config: PriceFeedConfig = { ...DEFAULT_CONFIG, ...options.config };
-  const credentials: ProviderCredentials = {
-    ...readCredentialsFromEnv(),
-    ...options.credentials,
-  };
-  const fetchImpl = options.fetchImpl ?? fetch;
-  const now = options.now ?? (() => new Date());
-  const sleepImpl =
-    options.sleepImpl ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const { config, credentials, fetchImpl, now, sleepImpl, retry, retries } =
+    await resolveRunSeams(options);
   const instant = now();
   const today = tradingDayAsOf(instant, config.timeZone);
   // The override REPLACES the derived trading day and nothing else — validated
@@ -233,6 +564,7 @@ export async function runPriceFetch(options: RunOptions = {}): Promise<FetchRunR
   // omitted entirely on the live path so those requests stay byte-identical.
   const targetDate = override;
   const paths = resolvePriceFeedPaths(config.dataDir);
+  const registry = await loadFetchRegistry(paths.registry);
 
   // The owed set, computed BEFORE any request — recovery path only (spec §8.1).
   const notOwed: NotOwed[] = [];
@@ -248,8 +580,8 @@ export async function runPriceFetch(options: RunOptions = {}): Promise<FetchRunR
       return false;
     });
   };
-  const binanceEntries = owed(instrumentsForSource("binance"));
-  const equityEntries = owed(instrumentsForSource("twelvedata"));
+  const binanceEntries = owed(instrumentsForSource("binance", registry.instruments));
+  const equityEntries = owed(instrumentsForSource("twelvedata", registry.instruments));
   // What the run ATTEMPTED, so `storedCount/totalCount` stays an honest ratio.
   const totalCount = binanceEntries.length + equityEntries.length;
 
@@ -258,38 +590,48 @@ export async function runPriceFetch(options: RunOptions = {}): Promise<FetchRunR
   const successes: FetchedQuote[] = [];
   const failures: FetchFailure[] = [];
   const staleMarkSkips: MarkSkip[] = [];
+  const fallbacks: FetchFallback[] = [];
+  const tally: RunTally = {
+    successes,
+    failures,
+    fallbacks,
+    pricesDir: paths.pricesDir,
+    asOf,
+    fetchFallback: (entry, fallback) =>
+      FALLBACK_FETCHERS[fallback.provider](
+        { ...entry, symbol: fallback.symbol },
+        { timeoutMs: config.requestTimeoutMs, fetchImpl, now, retry, targetDate, credentials },
+      ),
+  };
 
   // Crypto (Binance): keyless, so fetch one symbol at a time — no rate budget worth
   // batching, and each stays individually attributable.
-  await fetchInto(binanceEntries, successes, failures, paths.pricesDir, asOf, (entry) =>
-    fetchBinanceDailyClose(entry, { timeoutMs: config.requestTimeoutMs, fetchImpl, now, targetDate }),
+  await fetchInto(binanceEntries, tally, (entry) =>
+    fetchBinanceDailyClose(entry, {
+      timeoutMs: config.requestTimeoutMs,
+      fetchImpl,
+      now,
+      retry,
+      targetDate,
+    }),
   );
   // Equities (Twelve Data): batched, but PACED across minute windows. The free tier
   // caps at 8 CREDITS/min and a batch costs 1 credit PER SYMBOL, so all 9 symbols in
   // one request is 9 credits > 8 ⇒ 429. Chunk to `twelveDataMaxSymbolsPerMinute` and
   // sleep `twelveDataPauseMs` between chunks so each window stays under the cap. A
   // bad symbol is still per-instrument attributable within its chunk.
-  const equityChunks = chunk(equityEntries, Math.max(1, config.twelveDataMaxSymbolsPerMinute));
-  for (let i = 0; i < equityChunks.length; i++) {
-    if (i > 0) {
-      // Pace the next chunk so the free-tier per-minute credit quota resets first.
-      // Announce it — a silent ~1-minute gap otherwise looks like a hung run.
-      console.info(
-        `  pausing ${Math.round(config.twelveDataPauseMs / 1000)}s for the Twelve Data ` +
-          `per-minute credit quota to reset (chunk ${i + 1}/${equityChunks.length}, ` +
-          `${equityChunks[i]!.length} symbol(s))…`,
-      );
-      await sleepImpl(config.twelveDataPauseMs);
-    }
-    const equityResults = await fetchTwelveDataDailyCloses(equityChunks[i]!, {
+  await forEachPacedChunk(equityEntries, config, sleepImpl, async (equityChunk) => {
+    const equityResults = await fetchTwelveDataDailyCloses(equityChunk, {
       timeoutMs: config.requestTimeoutMs,
       apiKey: credentials.twelveDataApiKey,
       fetchImpl,
       now,
+      retry,
+      creditWindowMs: config.twelveDataPauseMs,
       ...(targetDate === undefined ? {} : { targetDate }),
     });
-    await recordResults(equityResults, successes, failures, paths.pricesDir, asOf);
-  }
+    await recordResults(equityResults, tally);
+  });
 
   // Two-plane rule: the store always upserts above; marks only at/after mark time.
   //
@@ -302,7 +644,7 @@ export async function runPriceFetch(options: RunOptions = {}): Promise<FetchRunR
   // instead would fail as "correct fetch, zero marks, exit 0" — #356's exact shape,
   // re-created inside the tool built to fix #356.
   const markEmitted = override !== undefined || isAtOrAfterMarkTime(instant, config);
-  const marks = markEmitted
+  const built = markEmitted
     ? await buildMarks(
         successes,
         failures,
@@ -312,9 +654,39 @@ export async function runPriceFetch(options: RunOptions = {}): Promise<FetchRunR
         config,
         credentials,
         fetchImpl,
+        retry,
       )
     : [];
+  const { marks, held } = await holdDivergentMarks(
+    built,
+    successes.map((s) => s.quote),
+    failures,
+    paths.pricesDir,
+    config,
+  );
+  const fxMarks = markEmitted
+    ? await buildFxMarks(asOf, targetDate, failures, config, credentials, fetchImpl, retry)
+    : [];
+  // The FX marks go in FIRST, by a merge of their own, so this run's price marks stay
+  // the inbox's tail and `emittedCount` stays theirs — the spine pre-check reads both.
+  const fxEmittedCount = await emitMarksToInbox(paths.inbox, fxMarks);
   const emittedCount = await emitMarksToInbox(paths.inbox, marks);
+  if (override === undefined) {
+    // Per instrument, like the upserts: a held lock or a failed rewrite leaves that one
+    // store file uncompacted — the next run folds it — and never rejects a run whose
+    // marks are already queued (R4).
+    for (const entry of [...binanceEntries, ...equityEntries]) {
+      try {
+        await compactStoredQuotes(paths.pricesDir, entry.instrumentId, asOf);
+      } catch (error) {
+        failures.push({
+          instrumentId: entry.instrumentId,
+          symbol: entry.symbol,
+          message: `compacting the store file failed: ${error instanceof Error ? error.message : String(error)}`,
+        });
+      }
+    }
+  }
 
   return {
     quotes: successes.map((s) => s.quote),
@@ -326,11 +698,438 @@ export async function runPriceFetch(options: RunOptions = {}): Promise<FetchRunR
     skippedCount: marks.length - emittedCount,
     markEmitted,
     marks,
+    fxMarks,
+    fxEmittedCount,
     failures,
     staleMarkSkips,
+    fallbacks,
+    held,
+    retries,
+    ...registry,
   };
 }
 
+/**
+ * Recover every day from `from` to `to` in one run: per-provider window requests,
+ * each owed day's quote stored under that day, and one deterministic-id `PriceMarked`
+ * candidate per owed day and instrument merged into the inbox in one write. The mark
+ * gate is open for the reason it is open on a one-day recovery — every day in the
+ * range is strictly in the past.
+ */
+export async function runPriceFetchRange(options: RangeRunOptions): Promise<RangeFetchRunResult> {
+  const { config, credentials, fetchImpl, now, sleepImpl, retry, retries } =
+    await resolveRunSeams(options);
+  const { from, to } = validateRange(
+    options.from,
+    options.to,
+    tradingDayAsOf(now(), config.timeZone),
+  );
+  const paths = resolvePriceFeedPaths(config.dataDir);
+  const registry = await loadFetchRegistry(paths.registry);
+  const dates = Array.from({ length: daysBetween(from, to) + 1 }, (_, i) => addDays(from, i));
+  const entries = [
+    ...instrumentsForSource("binance", registry.instruments),
+    ...instrumentsForSource("twelvedata", registry.instruments),
+  ];
+  // The owed set, computed BEFORE any request: an instrument owed on no day of the
+  // range — an equity over a weekend — is never asked for at all.
+  const owedSomeDay = (entry: InstrumentRegistryEntry): boolean =>
+    dates.some((date) => owesMarkOn(entry.source, date));
+
+  await mkdir(paths.pricesDir, { recursive: true });
+
+  const failures: FetchFailure[] = [];
+  /** Each instrument's bars keyed by their own date, when its window came back. */
+  const bars = new Map<string, Map<string, ProviderObservation>>();
+  const requestFailures = new Map<string, string>();
+  const recordBars = (entry: InstrumentRegistryEntry, observations: ProviderObservation[]) => {
+    bars.set(entry.instrumentId, new Map(observations.map((o) => [o.observationDate, o])));
+  };
+  const recordFailure = (entry: InstrumentRegistryEntry, message: string) => {
+    requestFailures.set(entry.instrumentId, message);
+    failures.push({ instrumentId: entry.instrumentId, symbol: entry.symbol, message });
+  };
+
+  // Crypto (Binance): one window per symbol, the whole range in one request.
+  for (const entry of instrumentsForSource("binance", registry.instruments).filter(owedSomeDay)) {
+    try {
+      recordBars(
+        entry,
+        await fetchBinanceDailyCloseRange(entry, {
+          timeoutMs: config.requestTimeoutMs,
+          fetchImpl,
+          now,
+          retry,
+          fromDate: from,
+          toDate: to,
+        }),
+      );
+    } catch (error) {
+      recordFailure(entry, error instanceof Error ? error.message : String(error));
+    }
+  }
+  // Equities (Twelve Data): one window per paced chunk — the same credits, and the
+  // same pauses, as a one-day run, however many days the range holds.
+  await forEachPacedChunk(
+    instrumentsForSource("twelvedata", registry.instruments).filter(owedSomeDay),
+    config,
+    sleepImpl,
+    async (equityChunk) => {
+      const results = await fetchTwelveDataDailyCloseRange(equityChunk, {
+        timeoutMs: config.requestTimeoutMs,
+        apiKey: credentials.twelveDataApiKey,
+        fetchImpl,
+        now,
+        retry,
+        creditWindowMs: config.twelveDataPauseMs,
+        fromDate: from,
+        toDate: to,
+      });
+      for (const { entry, observations, error } of results) {
+        if (observations !== undefined) {
+          recordBars(entry, observations);
+        } else {
+          recordFailure(entry, error ?? `Twelve Data ${entry.symbol} -> unknown error`);
+        }
+      }
+    },
+  );
+
+  // The FIX window, fetched only when a `*-mxn` instrument has a bar on a day it
+  // owes. It opens `fixMaxStaleDays` before `from` so the range's first day can lean
+  // on an earlier FIX exactly as far as `requireFreshFix` allows a live run to.
+  let fixes: FixObservation[] = [];
+  const derivesSomeDay = entries.some(
+    (entry) =>
+      entry.derived &&
+      dates.some(
+        (date) => owesMarkOn(entry.source, date) && bars.get(entry.instrumentId)?.has(date),
+      ),
+  );
+  if (derivesSomeDay) {
+    try {
+      fixes = await fetchBanxicoFixRange({
+        timeoutMs: config.requestTimeoutMs,
+        token: credentials.banxicoToken,
+        fetchImpl,
+        retry,
+        fromDate: addDays(from, -config.fixMaxStaleDays),
+        toDate: to,
+      });
+    } catch (error) {
+      // Surfaced once; each derivation below then fails loud via `requireFreshFix`.
+      failures.push({
+        instrumentId: "usd-mxn-fix",
+        symbol: "SF43718",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const days: RecoveredDay[] = [];
+  for (const asOf of dates) {
+    const notOwed: NotOwed[] = [];
+    const day: RecoveredDay = {
+      asOf,
+      notOwed,
+      totalCount: 0,
+      quotes: [],
+      marks: [],
+      held: [],
+      fxMarks: [],
+      failures: [],
+    };
+    for (const entry of entries) {
+      if (!owesMarkOn(entry.source, asOf)) {
+        notOwed.push({
+          instrumentId: entry.instrumentId,
+          symbol: entry.symbol,
+          source: entry.source,
+        });
+        continue;
+      }
+      day.totalCount += 1;
+      const fail = (message: string) =>
+        day.failures.push({ instrumentId: entry.instrumentId, symbol: entry.symbol, message });
+      // Only the bar dated THIS day — never a neighbour standing in for a missing one.
+      const observation = bars.get(entry.instrumentId)?.get(asOf);
+      if (observation === undefined) {
+        fail(requestFailures.get(entry.instrumentId) ?? missingBarMessage(entry, asOf));
+        continue;
+      }
+      const quote: Quote = {
+        instrumentId: entry.instrumentId,
+        symbol: entry.symbol,
+        asOf,
+        price: observation.close,
+        source: entry.source,
+        fetchedAt: observation.fetchedAt,
+      };
+      const storeError = await storeQuote(paths.pricesDir, quote);
+      if (storeError !== undefined) {
+        fail(storeError);
+        continue;
+      }
+      day.quotes.push(quote);
+      try {
+        day.marks.push(
+          entry.derived
+            ? deriveMxnMark(
+                quote,
+                requireFreshFix(fixAsOf(fixes, asOf), asOf, config.fixMaxStaleDays),
+              )
+            : markFromQuote(quote),
+        );
+      } catch (error) {
+        fail(error instanceof Error ? error.message : String(error));
+      }
+    }
+    // Judged before the next day is built, so a held day is never its reference.
+    const judged = await holdDivergentMarks(
+      day.marks,
+      day.quotes,
+      day.failures,
+      paths.pricesDir,
+      config,
+    );
+    day.marks = judged.marks;
+    day.held = judged.held;
+    if (day.totalCount > 0) {
+      // One request per currency per owed day, as a one-day recovery of that day asks.
+      const fxFailures: FetchFailure[] = [];
+      day.fxMarks = await buildFxMarks(
+        asOf,
+        asOf,
+        fxFailures,
+        config,
+        credentials,
+        fetchImpl,
+        retry,
+      );
+      for (const failure of fxFailures) {
+        failures.push({ ...failure, message: `${asOf}: ${failure.message}` });
+      }
+    }
+    days.push(day);
+  }
+
+  const quotes = days.flatMap((day) => day.quotes);
+  const marks = days.flatMap((day) => day.marks);
+  const held = days.flatMap((day) => day.held);
+  const fxMarks = days.flatMap((day) => day.fxMarks);
+  // FX first, by a merge of its own — the order and the count split a one-day run keeps.
+  const fxEmittedCount = await emitMarksToInbox(paths.inbox, fxMarks);
+  const emittedCount = await emitMarksToInbox(paths.inbox, marks);
+  return {
+    from,
+    to,
+    days,
+    quotes,
+    marks,
+    held,
+    fxMarks,
+    fxEmittedCount,
+    retries,
+    failures,
+    storedCount: quotes.length,
+    emittedCount,
+    skippedCount: marks.length - emittedCount,
+    ...registry,
+  };
+}
+
+/**
+ * The instruments a run fetches: the code table plus `instruments.jsonl`'s rows.
+ * An unreadable sidecar THROWS — a run on the code table alone would stop fetching
+ * every instrument the operator added and still exit clean. A skipped line does not:
+ * the rest of the registry is fetched and the line is reported beside the run.
+ */
+async function loadFetchRegistry(
+  path: string,
+): Promise<{ instruments: InstrumentRegistry; registryIssues: string[] }> {
+  const loaded = await loadInstrumentRegistryStrict(path);
+  return {
+    instruments: loaded.registry,
+    registryIssues: formatInstrumentRegistryLoadIssues(loaded),
+  };
+}
+
+/**
+ * Store the newest settled intraday candle of every crypto instrument as an intraday
+ * reading: no marks, no inbox, no fallbacks — a missed reading is simply the next
+ * run's to make, so a failure is reported and the rest of the run goes on. The
+ * interval is `config.intradayInterval`, else `PRICE_INTRADAY_INTERVAL`, else `1h`.
+ */
+export async function runIntradayFetch(
+  options: IntradayRunOptions = {},
+): Promise<IntradayRunResult> {
+  const interval = options.config?.intradayInterval ?? readIntradayIntervalFromEnv();
+  if (!(interval in BINANCE_INTRADAY_INTERVALS)) {
+    throw new PriceFetchRefusal(
+      `intraday interval "${interval}" is not one Binance's intraday path reads; give ` +
+        `one of ${Object.keys(BINANCE_INTRADAY_INTERVALS).join(", ")}.`,
+    );
+  }
+  const { config, fetchImpl, now, retry, retries } = await resolveRunSeams(options);
+  const asOf = tradingDayAsOf(now(), config.timeZone);
+  const paths = resolvePriceFeedPaths(config.dataDir);
+  const registry = await loadFetchRegistry(paths.registry);
+
+  const quotes: IntradayQuote[] = [];
+  const failures: FetchFailure[] = [];
+  for (const entry of instrumentsForSource("binance", registry.instruments)) {
+    let observation: IntradayObservation;
+    try {
+      observation = await fetchBinanceIntradayClose(entry, {
+        timeoutMs: config.requestTimeoutMs,
+        fetchImpl,
+        now,
+        retry,
+        interval,
+      });
+    } catch (error) {
+      failures.push({
+        instrumentId: entry.instrumentId,
+        symbol: entry.symbol,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+    const quote: IntradayQuote = {
+      instrumentId: entry.instrumentId,
+      symbol: entry.symbol,
+      // The trading day the CANDLE closed in, not the run's: a reading taken just
+      // after midnight belongs to the day that just ended.
+      asOf: tradingDayAsOf(new Date(observation.observedAt), config.timeZone),
+      price: observation.close,
+      source: entry.source,
+      fetchedAt: observation.fetchedAt,
+      intraday: true,
+      observedAt: observation.observedAt,
+    };
+    try {
+      await appendIntradayQuote(paths.pricesDir, quote);
+    } catch (error) {
+      failures.push({
+        instrumentId: entry.instrumentId,
+        symbol: entry.symbol,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+    quotes.push(quote);
+  }
+  return {
+    asOf,
+    interval,
+    quotes,
+    failures,
+    retries,
+    registryIssues: registry.registryIssues,
+  };
+}
+
+/** The run's seams with their defaults filled in — shared by every entry point. */
+async function resolveRunSeams(options: Omit<RunOptions, "asOf">) {
+  const config: PriceFeedConfig = {
+    ...DEFAULT_CONFIG,
+    consensusBand: readConsensusBandFromEnv(),
+    fxCurrencies: readFxCurrenciesFromEnv(),
+    ...options.config,
+  };
+  let fetchImpl = options.fetchImpl ?? fetch;
+  let now = options.now ?? (() => new Date());
+  let sleepImpl =
+    options.sleepImpl ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const replay = options.replay ?? readReplayModeFromEnv();
+  if (replay?.kind === "replay") {
+    // Refused before any request if the directory is not a fixture.
+    const { recordedAt } = await readReplayManifest(replay.dir);
+    fetchImpl = replayFetch(replay.dir);
+    now = options.now ?? (() => new Date(recordedAt));
+    sleepImpl = options.sleepImpl ?? (async () => {});
+    console.info(
+      `prices:fetch — replaying provider exchanges recorded ${recordedAt} from ${replay.dir}`,
+    );
+  } else if (replay?.kind === "record") {
+    fetchImpl = recordingFetch(replay.dir, now(), fetchImpl);
+    console.info(`prices:fetch — recording provider exchanges into ${replay.dir}`);
+  }
+  const retries: RetryOutcome[] = [];
+  const retry: RetryContext = {
+    policy: {
+      maxAttempts: config.retryMaxAttempts,
+      baseDelayMs: config.retryBaseDelayMs,
+      maxDelayMs: config.retryMaxDelayMs,
+    },
+    sleep: sleepImpl,
+    record: (outcome) => retries.push(outcome),
+  };
+  return {
+    // The band comes from the environment like a credential does, so the scheduled
+    // wrapper and a one-off re-run can set it without a code change.
+    config,
+    credentials: { ...readCredentialsFromEnv(), ...options.credentials },
+    fetchImpl,
+    now,
+    sleepImpl,
+    retry,
+    retries,
+  };
+}
+
+/** The provider's own phrasing for "the window held no bar for this day". */
+function missingBarMessage(entry: InstrumentRegistryEntry, asOf: string): string {
+  return entry.source === "binance"
+    ? `Binance ${entry.symbol} -> no kline for ${asOf}`
+    : `Twelve Data ${entry.symbol} -> no bar dated ${asOf} in the response`;
+}
+
+/** The newest FIX dated on or before `asOf` (`fixes` ascending), if any. */
+function fixAsOf(fixes: readonly FixObservation[], asOf: string): FixObservation | undefined {
+  return fixes.filter((fix) => fix.date <= asOf).at(-1);
+}
+
+/**
+ * Validate a recovery range under the same rules as an `asOf` override — both ends
+ * real calendar days, the last strictly before the current trading day — plus two of
+ * its own: it runs forward, and it is no longer than {@link MAX_RANGE_DAYS}.
+ */
+function validateRange(from: string, to: string, today: string): { from: string; to: string } {
+  for (const [name, value] of [
+    ["from", from],
+    ["to", to],
+  ] as const) {
+    if (!isIsoCalendarDate(value)) {
+      throw new PriceFetchRefusal(
+        `${name} "${value}" is not a real calendar date. Give a day that exists, in ` +
+          `YYYY-MM-DD form — a near-miss like 2026-02-30 is refused, never quietly ` +
+          `read as March 2.`,
+      );
+    }
+  }
+  if (from > to) {
+    throw new PriceFetchRefusal(
+      `from "${from}" is after to "${to}": a range names its first day first.`,
+    );
+  }
+  if (to >= today) {
+    throw new PriceFetchRefusal(
+      `to "${to}" is not in the past: the current trading day is ${today}, and a ` +
+        `recovery range ends strictly before it. To mark ${today}, run the daily job.`,
+    );
+  }
+  const span = daysBetween(from, to) + 1;
+  if (span > MAX_RANGE_DAYS) {
+    throw new PriceFetchRefusal(
+      `${from}..${to} is ${span} days; one run recovers at most ${MAX_RANGE_DAYS}, the ` +
+        `most one Binance request returns. Split it — the inbox merges by id, so ` +
+        `overlapping ranges are safe.`,
+    );
+  }
+  return { from, to };
+}
+
 /**
  * Validate an `asOf` override, or pass `undefined` straight through (the live path).
  *
@@ -372,6 +1171,34 @@ function validateAsOfOverride(asOf: string | undefined, today: string): string |
   return asOf;
 }
 
+/**
+ * Run `fetchChunk` over `entries` in `twelveDataMaxSymbolsPerMinute`-sized chunks,
+ * sleeping `twelveDataPauseMs` before every chunk after the first so each one lands
+ * in a fresh free-tier credit window. Shared by the daily and the range fetch, which
+ * spend the same credits per chunk.
+ */
+async function forEachPacedChunk(
+  entries: readonly InstrumentRegistryEntry[],
+  config: PriceFeedConfig,
+  sleepImpl: (ms: number) => Promise<void>,
+  fetchChunk: (entries: InstrumentRegistryEntry[]) => Promise<void>,
+): Promise<void> {
+  const chunks = chunk(entries, Math.max(1, config.twelveDataMaxSymbolsPerMinute));
+  for (let i = 0; i < chunks.length; i++) {
+    if (i > 0) {
+      // Pace the next chunk so the free-tier per-minute credit quota resets first.
+      // Announce it — a silent ~1-minute gap otherwise looks like a hung run.
+      console.info(
+        `  pausing ${Math.round(config.twelveDataPauseMs / 1000)}s for the Twelve Data ` +
+          `per-minute credit quota to reset (chunk ${i + 1}/${chunks.length}, ` +
+          `${chunks[i]!.length} symbol(s))…`,
+      );
+      await sleepImpl(config.twelveDataPauseMs);
+    }
+    await fetchChunk(chunks[i]!);
+  }
+}
+
 /** Split `items` into consecutive chunks of at most `size` (size ≥ 1). */
 function chunk<T>(items: readonly T[], size: number): T[][] {
   const out: T[][] = [];
@@ -389,22 +1216,18 @@ function chunk<T>(items: readonly T[], size: number): T[][] {
  */
 async function fetchInto(
   entries: readonly InstrumentRegistryEntry[],
-  successes: FetchedQuote[],
-  failures: FetchFailure[],
-  pricesDir: string,
-  asOf: string,
+  tally: RunTally,
   fetchOne: (entry: InstrumentRegistryEntry) => Promise<ProviderObservation>,
 ): Promise<void> {
   for (const entry of entries) {
+    let observation: ProviderObservation;
     try {
-      await storeSuccess(entry, await fetchOne(entry), successes, pricesDir, asOf);
+      observation = await fetchOne(entry);
     } catch (error) {
-      failures.push({
-        instrumentId: entry.instrumentId,
-        symbol: entry.symbol,
-        message: error instanceof Error ? error.message : String(error),
-      });
+      await failOver(entry, error instanceof Error ? error.message : String(error), tally);
+      continue;
     }
+    await storePrimary(entry, observation, tally);
   }
 }
 
@@ -416,42 +1239,122 @@ async function fetchInto(
  */
 async function recordResults(
   results: readonly ProviderFetchResult[],
-  successes: FetchedQuote[],
-  failures: FetchFailure[],
-  pricesDir: string,
-  asOf: string,
+  tally: RunTally,
 ): Promise<void> {
   for (const { entry, observation, error } of results) {
     if (observation !== undefined) {
-      await storeSuccess(entry, observation, successes, pricesDir, asOf);
+      await storePrimary(entry, observation, tally);
     } else {
-      failures.push({
-        instrumentId: entry.instrumentId,
-        symbol: entry.symbol,
-        message: error ?? `Twelve Data ${entry.symbol} -> unknown error`,
-      });
+      await failOver(entry, error ?? `Twelve Data ${entry.symbol} -> unknown error`, tally);
     }
   }
 }
 
-/** Upsert one observation's USD quote into the disposable store and tally it. */
-async function storeSuccess(
+/**
+ * The primary failed for `entry` with `message`: try the row's fallbacks in order
+ * and store the first close one serves, or — when the row has none, or every one
+ * fails — record the primary's failure with each fallback's reason beside it.
+ */
+async function failOver(
+  entry: InstrumentRegistryEntry,
+  message: string,
+  tally: RunTally,
+): Promise<void> {
+  const failedAttempts = [message];
+  for (const fallback of entry.fallbacks ?? []) {
+    let observation: ProviderObservation;
+    try {
+      observation = await tally.fetchFallback(entry, fallback);
+    } catch (error) {
+      failedAttempts.push(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+    const storeError = await storeSuccess(entry, observation, fallback.provider, tally);
+    if (storeError !== undefined) {
+      // The fallback SERVED, so no later one is tried; its close just never landed. The
+      // primary's reason stays the failure's message, and this one rides beside it.
+      failedAttempts.push(
+        `${fallback.provider} served a close, but storing it failed: ${storeError}`,
+      );
+      break;
+    }
+    tally.fallbacks.push({
+      instrumentId: entry.instrumentId,
+      symbol: entry.symbol,
+      source: entry.source,
+      servedBy: fallback.provider,
+      servedSymbol: fallback.symbol,
+      failedAttempts,
+    });
+    return;
+  }
+  tally.failures.push({
+    instrumentId: entry.instrumentId,
+    symbol: entry.symbol,
+    message,
+    ...(failedAttempts.length > 1 ? { fallbackErrors: failedAttempts.slice(1) } : {}),
+  });
+}
+
+/**
+ * Store the PRIMARY source's close, or tally the failed write as that instrument's
+ * failure — a store the run could not write is no reason to go to a fallback, which
+ * would land in the same file.
+ */
+async function storePrimary(
   entry: InstrumentRegistryEntry,
   observation: ProviderObservation,
-  successes: FetchedQuote[],
-  pricesDir: string,
-  asOf: string,
+  tally: RunTally,
 ): Promise<void> {
+  const storeError = await storeSuccess(entry, observation, entry.source, tally);
+  if (storeError !== undefined) {
+    tally.failures.push({
+      instrumentId: entry.instrumentId,
+      symbol: entry.symbol,
+      message: storeError,
+    });
+  }
+}
+
+/**
+ * Upsert one observation's USD quote into the disposable store and tally it. The
+ * quote's `source` and `symbol` are the provider that served it and the symbol it
+ * was asked for — the row's own unless a fallback stood in. A failed write is
+ * returned, as {@link storeQuote} returns it.
+ */
+async function storeSuccess(
+  entry: InstrumentRegistryEntry,
+  observation: ProviderObservation,
+  servedBy: QuoteProvider,
+  tally: RunTally,
+): Promise<string | undefined> {
   const quote: Quote = {
     instrumentId: entry.instrumentId,
-    symbol: entry.symbol,
-    asOf,
+    symbol: observation.symbol,
+    asOf: tally.asOf,
     price: observation.close,
-    source: entry.source,
+    source: servedBy,
     fetchedAt: observation.fetchedAt,
   };
-  await upsertQuote(pricesDir, quote);
-  successes.push({ entry, quote, observationDate: observation.observationDate });
+  const storeError = await storeQuote(tally.pricesDir, quote);
+  if (storeError === undefined) {
+    tally.successes.push({ entry, quote, observationDate: observation.observationDate });
+  }
+  return storeError;
+}
+
+/**
+ * Upsert one quote, RETURNING a failed write's message rather than throwing it: it is
+ * that one instrument's failure, and every caller records it as one, so a full disk on
+ * one store file never rejects the run (R4).
+ */
+async function storeQuote(pricesDir: string, quote: Quote): Promise<string | undefined> {
+  try {
+    await upsertQuote(pricesDir, quote);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  return undefined;
 }
 
 /**
@@ -481,6 +1384,7 @@ async function buildMarks(
   config: PriceFeedConfig,
   credentials: ProviderCredentials,
   fetchImpl: typeof fetch,
+  retry: RetryContext,
 ): Promise<PriceMarkedEvent[]> {
   let fix: FixObservation | undefined;
   // Only fetch the FIX when a `*-mxn` instrument will actually mark (its USD leg's
@@ -493,9 +1397,11 @@ async function buildMarks(
         timeoutMs: config.requestTimeoutMs,
         token: credentials.banxicoToken,
         fetchImpl,
-        // On a recovery run the newest FIX is days too new; ask for the one
-        // published on the recovered day, or `requireFreshFix` rejects it below.
-        ...(targetDate === undefined ? {} : { targetDate }),
+        retry,
+        // On a recovery run the newest FIX is days too new; ask for the last one
+        // Banxico published by the recovered day — the day itself unless it is a
+        // Mexican banking holiday, on which no FIX exists to ask for.
+        ...(targetDate === undefined ? {} : { targetDate: lastExpectedFixDate(targetDate) }),
       });
     } catch (error) {
       // Surface the FIX outage once, attributably; each `*-mxn` derivation below
@@ -539,7 +1445,112 @@ async function buildMarks(
   return marks;
 }
 
+/**
+ * Fetch each of `config.fxCurrencies`' rates and turn the fresh ones into `FxMarked`
+ * candidates. One rate at a time, each through {@link FX_FETCHERS}; a failed fetch or
+ * a stale rate is recorded once, attributably, and the other currencies still mark.
+ */
+async function buildFxMarks(
+  asOf: string,
+  /** The provider's word for `asOf` on a recovery run; `undefined` on the live path. */
+  targetDate: string | undefined,
+  failures: FetchFailure[],
+  config: PriceFeedConfig,
+  credentials: ProviderCredentials,
+  fetchImpl: typeof fetch,
+  retry: RetryContext,
+): Promise<FxMarkedEvent[]> {
+  const marks: FxMarkedEvent[] = [];
+  for (const currency of config.fxCurrencies) {
+    try {
+      const observation = await FX_FETCHERS[currency](currency, {
+        timeoutMs: config.requestTimeoutMs,
+        fetchImpl,
+        retry,
+        targetDate,
+        credentials,
+      });
+      marks.push(
+        fxMarkFromRate(
+          currency,
+          requireFreshFxRate(currency, observation, asOf, config.fixMaxStaleDays),
+          asOf,
+        ),
+      );
+    } catch (error) {
+      failures.push({
+        instrumentId: `usd-${currency.toLowerCase()}-fx`,
+        symbol: `USD/${currency}`,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return marks;
+}
+
 /** Whether an instrument's fetched bar is today's trading day (a fresh close to mark). */
 function isFreshBar(success: FetchedQuote, asOf: string): boolean {
   return success.observationDate === asOf;
 }
+
+/**
+ * Run the consensus check over one batch of built marks. Each mark is judged by its
+ * STORED quote — the USD leg for a `*-mxn` mark, since the store holds no MXN value
+ * — against that instrument's stored history. A divergent one is dropped from the
+ * marks, its store row is re-upserted with `consensusHeld`, and it comes back as a
+ * `MarkRejection` carrying the check's sentence. A re-upsert that fails is recorded in
+ * `failures`, and the mark is held all the same. Every mark passes through untouched
+ * when `consensusBand` is `null`.
+ */
+async function holdDivergentMarks(
+  built: readonly PriceMarkedEvent[],
+  quotes: readonly Quote[],
+  failures: FetchFailure[],
+  pricesDir: string,
+  config: PriceFeedConfig,
+): Promise<{ marks: PriceMarkedEvent[]; held: MarkRejection[] }> {
+  const band = config.consensusBand;
+  if (band === null) {
+    return { marks: [...built], held: [] };
+  }
+  const marks: PriceMarkedEvent[] = [];
+  const held: MarkRejection[] = [];
+  for (const mark of built) {
+    const quote = quotes.find((q) => q.instrumentId === mark.instrumentId && q.asOf === mark.asOf);
+    if (quote === undefined) {
+      marks.push(mark);
+      continue;
+    }
+    const verdict = checkQuoteConsensus(
+      quote,
+      await readStoredQuotes(pricesDir, quote.instrumentId),
+      {
+        band,
+        lookback: config.consensusLookback,
+        volatilityMultiple: config.consensusVolatilityMultiple,
+      },
+    );
+    if (verdict.kind !== "diverges") {
+      marks.push(mark);
+      continue;
+    }
+    const storeError = await storeQuote(pricesDir, { ...quote, consensusHeld: true });
+    if (storeError !== undefined) {
+      failures.push({
+        instrumentId: quote.instrumentId,
+        symbol: quote.symbol,
+        message: `held by the consensus check, but flagging its stored close failed: ${storeError}`,
+      });
+    }
+    held.push({
+      id: mark.id,
+      instrumentId: mark.instrumentId,
+      asOf: mark.asOf,
+      price: mark.price,
+      path: "price",
+      reason: verdict.message,
+      held: true,
+    });
+  }
+  return { marks, held };
+}
@@ -0,0 +1,65 @@
+// Frankfurter (ECB reference rates) provider suite. No live network (every fetch is
+// mocked): the happy-path parse of a USD-based rate, the live and the dated URL, and
+// each loud failure — HTTP, a payload of the wrong shape or base, a missing or
+// non-positive rate — attributed to the currency asked for.
+import { describe, expect, it } from "vitest";
+import { fetchFrankfurterRate } from "./frankfurter-provider.js";
+
+function rateResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200 });
+}
+
+const EUR_BODY = { amount: 1, base: "USD", date: "2026-07-03", rates: { EUR: 0.9182 } };
+
+function spyFetch(res: () => Response, urls: string[] = []): typeof fetch {
+  return ((url: string | URL | Request) => {
+    urls.push(typeof url === "string" ? url : url.toString());
+    return Promise.resolve(res());
+  }) as typeof fetch;
+}
+
+const OPTS = { timeoutMs: 5_000 };
+
+describe("fetchFrankfurterRate — happy path", () => {
+  it("parses the units-per-USD rate and its date", async () => {
+    const rate = await fetchFrankfurterRate("EUR", {
+      ...OPTS,
+      fetchImpl: spyFetch(() => rateResponse(EUR_BODY)),
+    });
+    expect(rate).toEqual({ rate: 0.9182, date: "2026-07-03" });
+  });
+
+  it("asks for the latest rate live, and for the target day on a recovery", async () => {
+    const urls: string[] = [];
+    const fetchImpl = spyFetch(() => rateResponse(EUR_BODY), urls);
+    await fetchFrankfurterRate("EUR", { ...OPTS, fetchImpl });
+    await fetchFrankfurterRate("EUR", { ...OPTS, fetchImpl, targetDate: "2026-07-03" });
+    expect(urls).toEqual([
+      "https://api.frankfurter.app/latest?base=USD&symbols=EUR",
+      "https://api.frankfurter.app/2026-07-03?base=USD&symbols=EUR",
+    ]);
+  });
+});
+
+describe("fetchFrankfurterRate — loud failures", () => {
+  it("attributes an HTTP error", async () => {
+    await expect(
+      fetchFrankfurterRate("GBP", {
+        ...OPTS,
+        fetchImpl: spyFetch(() => new Response("nope", { status: 404, statusText: "Not Found" })),
+      }),
+    ).rejects.toThrow(/Frankfurter USD\/GBP -> HTTP 404/);
+  });
+
+  it.each([
+    [{ base: "USD", date: "2026-07-03" }, /unexpected payload shape/],
+    [{ ...EUR_BODY, base: "EUR", rates: { EUR: 1 } }, /based on EUR, not USD/],
+    [{ ...EUR_BODY, date: "03/07/2026" }, /unexpected rate date format/],
+    [{ ...EUR_BODY, rates: {} }, /no positive EUR rate/],
+    [{ ...EUR_BODY, rates: { EUR: 0 } }, /no positive EUR rate/],
+  ])("refuses %j", async (body, message) => {
+    await expect(
+      fetchFrankfurterRate("EUR", { ...OPTS, fetchImpl: spyFetch(() => rateResponse(body)) }),
+    ).rejects.toThrow(message);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * The Frankfurter provider for the non-peso FX rates — EUR, GBP, CAD, CHF and JPY
+ * against USD, from the European Central Bank's daily reference rates (keyless). It
+ * performs network IO only, like the Banxico FIX beside it: it fetches one published
+ * rate and parses it into a {@link FixObservation} (rate + date) that the engine
+ * validates for freshness and turns into an `FxMarked`. A rate is NOT an instrument
+ * and is NOT written to the price store.
+ *
+ * The request asks for `base=USD`, so the rate comes back as units of the currency
+ * per one USD — the direction every rate in the book has — and is never inverted
+ * here. The ECB publishes on TARGET business days only: a date it published nothing
+ * for answers with the last rate before it, dated as that day, which the engine's
+ * freshness window then judges like a Friday FIX on a Sunday.
+ *
+ * Same reliability envelope as the quote providers (R4): bounded by the shared
+ * timeout, retried under the run's policy, and every failure thrown loud naming the
+ * currency.
+ */
+import type { FixObservation, FxCurrency } from "@numisma/engine";
+import { fetchJson, isRecord, type RetryContext } from "./provider.js";
+
+const FRANKFURTER_API = "https://api.frankfurter.app";
+
+export interface FrankfurterFetchOptions {
+  timeoutMs: number;
+  /**
+   * Fetch the rate published for this `YYYY-MM-DD` day instead of the newest one.
+   * Omitted on the live daily path, which asks for `/latest`.
+   */
+  targetDate?: string;
+  /** Injectable for tests; defaults to the global `fetch`. */
+  fetchImpl?: typeof fetch;
+  /** The run's retry policy and tally; omitted, the request is tried once. */
+  retry?: RetryContext | undefined;
+}
+
+/**
+ * Fetch one USD/`currency` reference rate. Throws on HTTP failure, an unexpected
+ * payload shape, a payload without the currency, a non-positive rate, or a timeout.
+ */
+export async function fetchFrankfurterRate(
+  currency: FxCurrency,
+  options: FrankfurterFetchOptions,
+): Promise<FixObservation> {
+  const label = `Frankfurter USD/${currency}`;
+  const day = options.targetDate ?? "latest";
+  const r = await fetchJson(
+    `${FRANKFURTER_API}/${day}?base=USD&symbols=${encodeURIComponent(currency)}`,
+    {
+      timeoutMs: options.timeoutMs,
+      fetchImpl: options.fetchImpl,
+      init: { headers: { Accept: "application/json" } },
+      retry: options.retry,
+      label,
+    },
+  );
+  if (!r.ok) {
+    throw new Error(`${label} -> ${r.reason}`);
+  }
+  const body = r.body;
+  if (!isRecord(body) || !isRecord(body.rates) || typeof body.date !== "string") {
+    throw new Error(`${label} -> unexpected payload shape`);
+  }
+  if (body.base !== "USD") {
+    throw new Error(`${label} -> payload is based on ${String(body.base)}, not USD`);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(body.date)) {
+    throw new Error(`${label} -> unexpected rate date format '${body.date}'`);
+  }
+  const rate = body.rates[currency];
+  if (typeof rate !== "number" || !Number.isFinite(rate) || rate <= 0) {
+    throw new Error(`${label} -> no positive ${currency} rate in payload`);
+  }
+  return { rate, date: body.date };
+}
@@ -8,18 +8,23 @@
  * The fetcher NEVER writes the event log (R6): it drops candidates in the inbox
  * and `pnpm spine` owns the guarded, validated append.
  */
-import { mergeInbox, type InboxRecord, type PriceMarkedEvent } from "@numisma/engine";
+import {
+  mergeInbox,
+  type FxMarkedEvent,
+  type InboxRecord,
+  type PriceMarkedEvent,
+} from "@numisma/engine";
 import { readOptional } from "@numisma/event-store";
 import { atomicWrite } from "./atomic-write.js";
 
 /**
- * Merge fresh marks into the inbox without clobbering pending (e.g. hand-authored)
- * events, and return the number newly added. Existing records are preserved
- * verbatim; a mark whose id is already queued is skipped (idempotent re-runs).
+ * Merge fresh marks — price or FX — into the inbox without clobbering pending (e.g.
+ * hand-authored) events, and return the number newly added. Existing records are
+ * preserved verbatim; a mark whose id is already queued is skipped (idempotent re-runs).
  */
 export async function emitMarksToInbox(
   inboxPath: string,
-  marks: readonly PriceMarkedEvent[],
+  marks: readonly (PriceMarkedEvent | FxMarkedEvent)[],
 ): Promise<number> {
   // Marks are engine-typed events; the inbox may also hold hand-authored records
   // of any shape, so the merge operates on the shared `{ id }` surface — which is
@@ -48,6 +48,7 @@ import type {
   BinanceFetchOptions,
   EquitiesFetchOptions,
   FetchFailure,
+  FetchFallback,
   FetchOptions,
   FetchRunResult,
   FixFetchOptions,
@@ -60,6 +61,9 @@ import type {
   ProviderFetchResult,
   ProviderObservation,
   RejectionScan,
+  RetryContext,
+  RetryOutcome,
+  RetryPolicy,
   RunOptions,
   SpineReferencePaths,
 } from "./index.js";
@@ -113,6 +117,12 @@ type TypeSurface = {
   // through the same front door or the result type is only half-published.
   notOwed: NotOwed;
   markSkip: MarkSkip;
+  // The same argument for `fallbacks`.
+  fetchFallback: FetchFallback;
+  // And for `retries`, plus the seam `FetchOptions.retry` takes.
+  retryOutcome: RetryOutcome;
+  retryContext: RetryContext;
+  retryPolicy: RetryPolicy;
   runOptions: RunOptions;
   rejection: MarkRejection;
   spineReferencePaths: SpineReferencePaths;
@@ -18,7 +18,13 @@
 export type { PriceFeedConfig, ProviderCredentials } from "./config.js";
 export { DEFAULT_CONFIG, readCredentialsFromEnv } from "./config.js";
 export { fetchBinanceDailyClose, type BinanceFetchOptions } from "./binance-provider.js";
-export type { ProviderObservation, FetchOptions } from "./provider.js";
+export type {
+  ProviderObservation,
+  FetchOptions,
+  RetryContext,
+  RetryOutcome,
+  RetryPolicy,
+} from "./provider.js";
 export {
   fetchTwelveDataDailyCloses,
   type EquitiesFetchOptions,
@@ -38,6 +44,7 @@ export {
   // that is not actually usable.
   type NotOwed,
   type MarkSkip,
+  type FetchFallback,
 } from "./fetch-prices.js";
 export {
   loadSpineReference,
@@ -0,0 +1,52 @@
+/**
+ * `prices:intraday` — store one intraday reading per crypto instrument, and nothing
+ * else. A self-executing script, deliberately THIN: every rule lives in
+ * `runIntradayFetch`, and this file prints what came back.
+ *
+ *   pnpm prices:intraday     # the newest settled candle of PRICE_INTRADAY_INTERVAL (1h)
+ *
+ * ZERO-ARGUMENT. It has no recovery mode: a missed reading is movement nobody saw,
+ * not a lost day, and the daily close still marks the day. It never touches the
+ * inbox, so it is safe to schedule as often as the interval — and it is NOT run by
+ * the daily wrapper, which owns the mark and the spine. Exit 1 when any instrument
+ * failed, so a scheduler's log says so; a refusal (a bad `PRICE_INTRADAY_INTERVAL`)
+ * prints one sentence and exits 1 too.
+ */
+import { DEFAULT_CONFIG } from "./config.js";
+import { runIntradayFetch } from "./fetch-prices.js";
+import { resolvePriceFeedPaths } from "./paths.js";
+import { PriceFetchRefusal } from "./refusal.js";
+
+runIntradayFetch()
+  .then((result) => {
+    for (const issue of result.registryIssues) {
+      console.error(`  REGISTRY  ${issue}`);
+    }
+    for (const quote of result.quotes) {
+      console.log(
+        `  read    ${quote.instrumentId.padEnd(7)} ${quote.symbol.padEnd(11)} ` +
+          `${quote.observedAt}  ${quote.price}`,
+      );
+    }
+    for (const failure of result.failures) {
+      console.error(
+        `  FETCH FAILED  ${failure.instrumentId.padEnd(7)} ${failure.symbol.padEnd(11)} ` +
+          failure.message,
+      );
+    }
+    const { pricesDir } = resolvePriceFeedPaths(DEFAULT_CONFIG.dataDir);
+    const attempted = result.quotes.length + result.failures.length;
+    console.log(
+      `prices:intraday — ${result.quotes.length}/${attempted} ${result.interval} ` +
+        `reading(s) stored in ${pricesDir}; no mark emitted`,
+    );
+    process.exitCode = result.failures.length > 0 ? 1 : 0;
+  })
+  .catch((error: unknown) => {
+    if (error instanceof PriceFetchRefusal) {
+      console.error(`prices:intraday — ${error.message}`);
+    } else {
+      console.error(error instanceof Error ? (error.stack ?? error.message) : String(error));
+    }
+    process.exitCode = 1;
+  });
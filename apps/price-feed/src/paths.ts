@@ -7,7 +7,7 @@
  */
 import { join } from "node:path";
 import { PRICE_STORE_DIR_SEGMENT, normalizeDataDirOverride } from "@numisma/engine";
-import { resolveEventStorePaths } from "@numisma/event-store";
+import { instrumentRegistryPath, resolveEventStorePaths } from "@numisma/event-store";
 
 export interface PriceFeedPaths {
   /** Directory holding `data/prices/<instrumentId>.jsonl`. */
@@ -22,6 +22,11 @@ export interface PriceFeedPaths {
    * `events.jsonl.quarantine` side lane, exactly as every other reader does.
    */
   log: string;
+  /**
+   * The optional `instruments.jsonl` registry sidecar, beside the log. Read, never
+   * written: its rows add instruments to the fetch on top of the code table.
+   */
+  registry: string;
 }
 
 /**
@@ -62,11 +67,13 @@ export function resolvePriceFeedPaths(dataDir: string): PriceFeedPaths {
   // Reading the log refreshes its derived `events.jsonl.quarantine` lane, which is
   // shared with `pnpm spine` and the tui and is not the log itself (R6 holds).
   // `pricesDir` is assembled here because the event store has no equivalent for it.
-  const { genesis, log, inbox } = resolveEventStorePaths(base);
+  const eventStorePaths = resolveEventStorePaths(base);
+  const { genesis, log, inbox } = eventStorePaths;
   return {
     pricesDir: join(base, PRICE_STORE_DIR_SEGMENT),
     inbox,
     genesis,
     log,
+    registry: instrumentRegistryPath(eventStorePaths),
   };
 }
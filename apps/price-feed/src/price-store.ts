@@ -1,28 +1,158 @@
 /**
  * The disposable market-data plane's IO (ADR-005). One JSONL file per instrument
- * (`data/prices/<instrumentId>.jsonl`), one line per trading day, upsert-by-`asOf`
- * latest-wins. Disposable — no durability contract beyond git-ignore — but writes
- * are still atomic (temp+rename) so a crash mid-write cannot corrupt a price file.
- * The full-file rewrite per upsert is accepted at daily cadence; append-only /
- * compaction is a noted future concern gated on sub-daily fetching.
+ * (`data/prices/<instrumentId>.jsonl`), APPEND-ONLY: a daily close or an intraday
+ * reading is one appended line, and what a file says is resolved on read by the
+ * engine's `resolvePriceStore` (latest line wins per `asOf`, per `observedAt` for an
+ * intraday reading). Appending is what makes an hourly cadence affordable; a
+ * whole-file rewrite per upsert was only ever acceptable at daily cadence.
+ *
+ * COMPACTION is the one rewrite left, and it is atomic (temp+rename), so a crash
+ * mid-compaction leaves the uncompacted file intact. An append is not atomic: a
+ * crash mid-append leaves a torn line. The next append starts on a fresh line rather
+ * than completing it, the reader skips a line that does not parse, and compaction
+ * drops it — the store is disposable, and the next fetch writes the row again.
+ *
+ * Compaction reads a file and renames a rewrite over it, so an append landing between
+ * the two would be silently lost. Every append and every compaction of a file therefore
+ * holds that file's `<file>.lock` — `prices:intraday` and the daily run are separate
+ * processes, so nothing in-process would see the other.
  */
-import { readFile } from "node:fs/promises";
-import { join } from "node:path";
-import { priceStoreFileName, type Quote } from "@numisma/engine";
+import { appendFile, mkdir, open, readFile, rm } from "node:fs/promises";
+import { setTimeout as delay } from "node:timers/promises";
+import { dirname, join } from "node:path";
+import {
+  compactPriceStore,
+  parsePriceStoreRows,
+  priceStoreFileName,
+  resolvePriceStore,
+  type IntradayQuote,
+  type PriceStoreRow,
+  type Quote,
+} from "@numisma/engine";
 import { atomicWrite } from "./atomic-write.js";
 
-/** Upsert one quote into its per-instrument store file, latest-wins by `asOf`. */
+/** Upsert one daily close into its per-instrument store file, latest-wins by `asOf`. */
 export async function upsertQuote(pricesDir: string, quote: Quote): Promise<void> {
-  const file = join(pricesDir, priceStoreFileName(quote.instrumentId));
-  const existing = await readQuotes(file);
-  const merged = existing.filter((q) => q.asOf !== quote.asOf);
-  merged.push(quote);
-  merged.sort((a, b) => a.asOf.localeCompare(b.asOf));
-  const body = `${merged.map((q) => JSON.stringify(q)).join("\n")}\n`;
-  await atomicWrite(file, body);
+  await appendRow(pricesDir, quote);
 }
 
-async function readQuotes(file: string): Promise<Quote[]> {
+/** Append one intraday reading. It never replaces a close, and never becomes a mark. */
+export async function appendIntradayQuote(
+  pricesDir: string,
+  quote: IntradayQuote,
+): Promise<void> {
+  await appendRow(pricesDir, quote);
+}
+
+/**
+ * Every stored close for one instrument, oldest first — the history the consensus
+ * check judges a fresh close against. Intraday readings are not closes and are never
+ * in it. An instrument never stored reads as empty.
+ */
+export async function readStoredQuotes(pricesDir: string, instrumentId: string): Promise<Quote[]> {
+  return resolvePriceStore(await readRows(storeFile(pricesDir, instrumentId))).closes;
+}
+
+/**
+ * Compact one instrument's file through the engine's `compactPriceStore`: every day
+ * before `currentAsOf` folds to its close. Returns how many lines it dropped, and
+ * writes nothing when that is zero. The read and the rewrite happen under the file's
+ * lock, so an intraday append waits for the rewrite rather than landing in between.
+ */
+export async function compactStoredQuotes(
+  pricesDir: string,
+  instrumentId: string,
+  currentAsOf: string,
+): Promise<number> {
+  const file = storeFile(pricesDir, instrumentId);
+  await mkdir(dirname(file), { recursive: true });
+  return withStoreLock(file, async () => {
+    const rows = await readRows(file);
+    const compacted = compactPriceStore(rows, currentAsOf);
+    const dropped = rows.length - compacted.length;
+    if (dropped > 0) {
+      await atomicWrite(file, `${compacted.map((row) => JSON.stringify(row)).join("\n")}\n`);
+    }
+    return dropped;
+  });
+}
+
+function storeFile(pricesDir: string, instrumentId: string): string {
+  return join(pricesDir, priceStoreFileName(instrumentId));
+}
+
+async function appendRow(pricesDir: string, row: PriceStoreRow): Promise<void> {
+  const file = storeFile(pricesDir, row.instrumentId);
+  await mkdir(dirname(file), { recursive: true });
+  await withStoreLock(file, async () => {
+    const torn = !(await endsWithNewline(file));
+    await appendFile(file, `${torn ? "\n" : ""}${JSON.stringify(row)}\n`);
+  });
+}
+
+/** Poll interval while another writer holds a store file's lock. */
+const LOCK_RETRY_MS = 20;
+/** How long a writer waits for a store file's lock before refusing. */
+const LOCK_TIMEOUT_MS = 10_000;
+
+/**
+ * Run `write` holding `<file>.lock`, taken by an EXCLUSIVE create (`open(…, "wx")`) —
+ * the same primitive as the sidecars' append lock in `@numisma/preferences`. A holder
+ * that died without releasing is not broken: the waiter refuses after
+ * `LOCK_TIMEOUT_MS` naming the file to delete, because breaking a lock that cannot be
+ * proved stale reopens the very window it closes.
+ */
+async function withStoreLock<T>(file: string, write: () => Promise<T>): Promise<T> {
+  const lockPath = `${file}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    let handle;
+    try {
+      handle = await open(lockPath, "wx");
+    } catch (error) {
+      if (!(error instanceof Error && "code" in error && error.code === "EEXIST")) {
+        throw error;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `another price-store writer holds ${lockPath} and did not release it within ` +
+            `${LOCK_TIMEOUT_MS}ms; nothing was written. If no price-feed run is active, ` +
+            `delete that file by hand.`,
+        );
+      }
+      await delay(LOCK_RETRY_MS);
+      continue;
+    }
+    try {
+      await handle.close();
+      return await write();
+    } finally {
+      await rm(lockPath, { force: true });
+    }
+  }
+}
+
+/** Whether `file` is absent, empty, or ends its last line — i.e. safe to append to. */
+async function endsWithNewline(file: string): Promise<boolean> {
+  let handle;
+  try {
+    handle = await open(file, "r");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") return true;
+    throw error;
+  }
+  try {
+    const { size } = await handle.stat();
+    if (size === 0) return true;
+    const last = Buffer.alloc(1);
+    await handle.read(last, 0, 1, size - 1);
+    return last[0] === 0x0a;
+  } finally {
+    await handle.close();
+  }
+}
+
+async function readRows(file: string): Promise<PriceStoreRow[]> {
   let raw: string;
   try {
     raw = await readFile(file, "utf8");
@@ -32,8 +162,6 @@ async function readQuotes(file: string): Promise<Quote[]> {
     }
     throw error;
   }
-  return raw
-    .split("\n")
-    .filter((line) => line.trim().length > 0)
-    .map((line) => JSON.parse(line) as Quote);
+  // A torn append — the run that wrote it died mid-line — is skipped. See the header.
+  return parsePriceStoreRows(raw);
 }
@@ -0,0 +1,15 @@
+/**
+ * `prices:show` entry point — wiring ONLY, as `cli.ts` is for `prices:fetch`: every
+ * rule of the audit lives in `prices-show.ts`, where the tests reach it.
+ */
+import { runPricesShowCli } from "./prices-show.js";
+
+runPricesShowCli({ argv: process.argv.slice(2) })
+  .then((exitCode) => {
+    process.exitCode = exitCode;
+  })
+  .catch((error: unknown) => {
+    // A refusal is rendered inside `runPricesShowCli`; only a genuine fault gets here.
+    console.error(error instanceof Error ? (error.stack ?? error.message) : String(error));
+    process.exitCode = 1;
+  });
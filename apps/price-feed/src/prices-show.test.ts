@@ -0,0 +1,217 @@
+// `prices:show` suite. The claim under test: every instrument-day of the window lands
+// in exactly one audit state, read from the store, the log and the inbox as they are
+// on disk — and the command never writes any of them. A fresh temp data dir, no
+// network. The window is 2026-08-14 (Fri) to 2026-08-17 (Mon): Binance owes all four
+// days, Twelve Data only the Friday and the Monday.
+import { appendFile, mkdtemp, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  CODE_INSTRUMENT_REGISTRY,
+  type InstrumentRegistryEntry,
+  type PriceMarkedEvent,
+  type Quote,
+} from "@numisma/engine";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { resolvePriceFeedPaths } from "./paths.js";
+import { auditInstrument, parsePricesShowArgs, runPricesShowCli } from "./prices-show.js";
+import { PriceFetchRefusal } from "./refusal.js";
+
+const WINDOW = ["2026-08-14", "2026-08-15", "2026-08-16", "2026-08-17"];
+/** Monday afternoon in Mexico City — today is 2026-08-17. */
+const NOW = () => new Date("2026-08-17T20:00:00.000Z");
+
+const btc = CODE_INSTRUMENT_REGISTRY.find((entry) => entry.instrumentId === "btc")!;
+const aapl = CODE_INSTRUMENT_REGISTRY.find((entry) => entry.instrumentId === "aapl")!;
+
+function close(entry: InstrumentRegistryEntry, asOf: string, price: number): Quote {
+  return {
+    instrumentId: entry.instrumentId,
+    symbol: entry.symbol,
+    asOf,
+    price,
+    source: entry.source,
+    fetchedAt: `${asOf}T23:05:00.000Z`,
+  };
+}
+
+function mark(instrumentId: string, asOf: string, price: number, usdMxn?: number) {
+  return {
+    id: `pm-${instrumentId}-${asOf}`,
+    asOf,
+    type: "PriceMarked" as const,
+    instrumentId,
+    price,
+    ...(usdMxn === undefined ? {} : { usdMxn }),
+  } satisfies PriceMarkedEvent;
+}
+
+describe("parsePricesShowArgs", () => {
+  it("reads the window and the instrument, in either flag form", () => {
+    expect(
+      parsePricesShowArgs(["--", "--from=2026-08-01", "--to", "2026-08-07", "--instrument=btc"]),
+    ).toEqual({ from: "2026-08-01", to: "2026-08-07", instrument: "btc" });
+    expect(parsePricesShowArgs([])).toEqual({});
+  });
+
+  it.each([
+    [["--window=7"], /unknown argument/],
+    [["--from=2026-02-30"], /not a calendar day/],
+    [["--to"], /needs a value/],
+    [["--instrument=btc", "--instrument=eth"], /may be given once/],
+  ])("refuses %j", (argv, message) => {
+    expect(() => parsePricesShowArgs(argv)).toThrow(PriceFetchRefusal);
+    expect(() => parsePricesShowArgs(argv)).toThrow(message);
+  });
+});
+
+describe("auditInstrument", () => {
+  it("puts each day in one state, and lists no empty day nothing was owed on", () => {
+    const audit = auditInstrument(
+      aapl,
+      WINDOW,
+      [close(aapl, "2026-08-14", 230), close(aapl, "2026-08-15", 230)],
+      new Map(),
+      new Set(),
+      "2026-08-17",
+    );
+    expect(audit.days.map((day) => [day.asOf, day.state])).toEqual([
+      ["2026-08-14", "unmarked"],
+      ["2026-08-15", "not-owed"],
+      ["2026-08-17", "due"],
+    ]);
+  });
+
+  it("tells a mark that matches from one that differs, and a log-only mark", () => {
+    const logged = new Map([
+      ["2026-08-14", mark("btc", "2026-08-14", 60_000)],
+      ["2026-08-15", mark("btc", "2026-08-15", 61_000)],
+      ["2026-08-16", mark("btc", "2026-08-16", 62_000)],
+    ]);
+    const audit = auditInstrument(
+      btc,
+      WINDOW,
+      [close(btc, "2026-08-14", 60_000), close(btc, "2026-08-15", 61_500)],
+      logged,
+      new Set(["2026-08-17"]),
+      "2026-08-17",
+    );
+    expect(audit.days.map((day) => day.state)).toEqual([
+      "marked",
+      "differs",
+      "logged-only",
+      "pending",
+    ]);
+  });
+
+  it("compares a derived mark against the USD leg times its FIX", () => {
+    const eww = CODE_INSTRUMENT_REGISTRY.find((entry) => entry.instrumentId === "eww-mxn")!;
+    const usdLeg = close(eww, "2026-08-14", 27.31);
+    const matched = auditInstrument(
+      eww,
+      ["2026-08-14"],
+      [usdLeg],
+      new Map([["2026-08-14", mark("eww-mxn", "2026-08-14", 27.31 * 18.72, 18.72)]]),
+      new Set(),
+      "2026-08-17",
+    );
+    expect(matched.days[0]!.state).toBe("marked");
+  });
+
+  it("reports a held close as held, and owes nothing before a sidecar row's addedAt", () => {
+    const added = { ...btc, instrumentId: "pepe", addedAt: "2026-08-16" };
+    const audit = auditInstrument(
+      added,
+      WINDOW,
+      [{ ...close(added, "2026-08-16", 0.00001), consensusHeld: true }],
+      new Map(),
+      new Set(),
+      "2026-08-17",
+    );
+    expect(audit.days.map((day) => [day.asOf, day.state])).toEqual([
+      ["2026-08-16", "held"],
+      ["2026-08-17", "due"],
+    ]);
+  });
+});
+
+describe("runPricesShowCli", () => {
+  let dataDir: string;
+  let out: string[];
+  let err: string[];
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), "prices-show-test-"));
+    out = [];
+    err = [];
+  });
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  function run(argv: string[]): Promise<number> {
+    return runPricesShowCli({
+      argv,
+      config: { dataDir },
+      now: NOW,
+      log: (line) => out.push(line),
+      logError: (line) => err.push(line),
+    });
+  }
+
+  async function seed(quotes: Quote[], events: PriceMarkedEvent[]): Promise<void> {
+    const { pricesDir, log } = resolvePriceFeedPaths(dataDir);
+    await mkdir(pricesDir, { recursive: true });
+    for (const quote of quotes) {
+      const file = join(pricesDir, `${quote.instrumentId}.jsonl`);
+      await appendFile(file, `${JSON.stringify(quote)}\n`);
+    }
+    await writeFile(log, events.map((event) => `${JSON.stringify(event)}\n`).join(""));
+  }
+
+  it("exits 0 on a clean window and writes nothing", async () => {
+    await seed(
+      WINDOW.map((asOf) => close(btc, asOf, 60_000)),
+      WINDOW.slice(0, 3).map((asOf) => mark("btc", asOf, 60_000)),
+    );
+    const { pricesDir, log } = resolvePriceFeedPaths(dataDir);
+    const files = [join(pricesDir, "btc.jsonl"), log];
+    const before = await Promise.all(files.map((file) => readFile(file, "utf8")));
+
+    expect(await run(["--from=2026-08-14", "--instrument=btc"])).toBe(0);
+
+    expect(out.filter((line) => /^ {2}\S+ .* MARKED$/.test(line))).toHaveLength(3);
+    expect(out.at(-1)).toBe("prices:show — 3 MARKED, 1 UNMARKED");
+    expect(err).toEqual([]);
+    expect(await Promise.all(files.map((file) => readFile(file, "utf8")))).toEqual(before);
+  });
+
+  it("exits 1 on a differing mark or a gap, and names the repair for the gap", async () => {
+    await seed([close(aapl, "2026-08-17", 231)], [mark("aapl", "2026-08-17", 230)]);
+
+    expect(await run(["--from=2026-08-14", "--instrument=aapl"])).toBe(1);
+
+    expect(out).toContainEqual(expect.stringMatching(/2026-08-14 .*GAP .*--as-of=2026-08-14/));
+    expect(out).toContainEqual(expect.stringMatching(/2026-08-17 .*DIFFERS  logged 230/));
+    expect(out.at(-1)).toBe("prices:show — 1 GAP, 1 DIFFERS — 2 finding(s)");
+  });
+
+  it.each([
+    [["--instrument=doge"], /"doge" is not a registered instrument/],
+    [["--to=2026-08-18"], /after today \(2026-08-17\)/],
+    [["--from=2026-08-17", "--to=2026-08-14"], /--from 2026-08-17 is after --to 2026-08-14/],
+  ])("refuses %j in one sentence", async (argv, message) => {
+    expect(await run(argv)).toBe(1);
+    expect(out).toEqual([]);
+    expect(err).toEqual([expect.stringMatching(message)]);
+  });
+
+  it("refuses in one sentence when the registry sidecar cannot be read", async () => {
+    // A directory where the sidecar belongs: it exists, and reading it fails.
+    await mkdir(resolvePriceFeedPaths(dataDir).registry, { recursive: true });
+    expect(await run(["--instrument=btc"])).toBe(1);
+    expect(out).toEqual([]);
+    expect(err).toEqual([expect.stringMatching(/^prices:show — .* could not be read/)]);
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * `prices:show` — a READ-ONLY audit of the disposable price store against the
+ * durable log. For every registered instrument and every day of a window it lines
+ * up three things the operator otherwise reconciles by `cat`-ing JSONL by hand: the
+ * close the store holds, the `PriceMarked` the log holds, and whether the venue owed
+ * a mark that day at all (`owesMarkOn`, the same venue calendar the gap report and
+ * the recovery's owed set read).
+ *
+ * Each day lands in exactly one state:
+ *
+ *   MARKED       stored, and the log's mark carries the same value
+ *   DIFFERS      stored, and the log's mark carries a different one
+ *   LOGGED ONLY  the log holds a mark the store has no close for
+ *   PENDING      a mark for the day waits in the inbox, not yet in the log
+ *   HELD         stored, and the consensus check held its mark back
+ *   UNMARKED     stored on an owed day, and no mark anywhere
+ *   NOT OWED     stored on a day the venue owed nothing (a weekend's stale bar)
+ *   GAP          owed, nothing stored, no mark — a lost day, `--as-of`'s to repair
+ *   DUE          today, owed and not in yet; the evening run has not marked it
+ *
+ * A not-owed day with nothing in it is not listed. "The same value" is the value the
+ * fetch would have marked: the stored close itself, or — for a derived `*-mxn` mark,
+ * which carries its `usdMxn` — the stored USD leg times that FIX.
+ *
+ * IT EXITS 1 ON A FINDING — a DIFFERS or a GAP in the window — for the reason
+ * `cli-main.ts` gives for the recovery exit: this is operator-invoked, never in the
+ * nightly channel, and an audit that found something and exited 0 would be the
+ * manufactured-clean surface #356 is about.
+ *
+ * WHAT IT TOUCHES. It writes nothing of its own. Reading the log refreshes
+ * `events.jsonl.quarantine`, as every reader does (R6); a quarantined line is
+ * reported rather than refused, because an audit that cannot run on a damaged log is
+ * no use on the day the log is damaged.
+ */
+import {
+  addDays,
+  daysBetween,
+  isIsoCalendarDate,
+  owesMarkOn,
+  tradingDayAsOf,
+  type InstrumentRegistryEntry,
+  type LoadedInstrumentRegistry,
+  type PriceMarkedEvent,
+  type Quote,
+} from "@numisma/engine";
+import {
+  formatInstrumentRegistryLoadIssues,
+  loadEventLog,
+  loadInstrumentRegistryStrict,
+} from "@numisma/event-store";
+import { DEFAULT_CONFIG, type PriceFeedConfig } from "./config.js";
+import { readInboxArray } from "./inbox.js";
+import { resolvePriceFeedPaths } from "./paths.js";
+import { readStoredQuotes } from "./price-store.js";
+import { PriceFetchRefusal } from "./refusal.js";
+
+/** The flag surface: a window and, optionally, one instrument. */
+export interface PricesShowArgs {
+  /** First day of the window, `YYYY-MM-DD`; defaults to six days before `to`. */
+  from?: string;
+  /** Last day of the window, `YYYY-MM-DD`; defaults to today's trading day. */
+  to?: string;
+  /** One registered `instrumentId`; omitted, every instrument is shown. */
+  instrument?: string;
+}
+
+/** The state one instrument-day lands in; see the module doc. */
+export type PriceDayState =
+  | "marked"
+  | "differs"
+  | "logged-only"
+  | "pending"
+  | "held"
+  | "unmarked"
+  | "not-owed"
+  | "gap"
+  | "due";
+
+/** One instrument-day of the audit. */
+export interface PriceDayAudit {
+  asOf: string;
+  owed: boolean;
+  state: PriceDayState;
+  /** The store's resolved close for the day, if it holds one. */
+  stored?: Quote;
+  /** The log's LAST `PriceMarked` for the instrument and day, if any. */
+  logged?: PriceMarkedEvent;
+}
+
+/** One instrument's window. */
+export interface InstrumentAudit {
+  entry: InstrumentRegistryEntry;
+  days: PriceDayAudit[];
+}
+
+/** Every seam the command reaches through, so a test can drive it in memory. */
+export interface PricesShowCliDeps {
+  /** Arguments AFTER the node/script pair, i.e. `process.argv.slice(2)`. */
+  argv: readonly string[];
+  config?: Partial<PriceFeedConfig>;
+  /** Injectable clock; defaults to `new Date()`. Only "today" is read from it. */
+  now?: () => Date;
+  log?: (line: string) => void;
+  logError?: (line: string) => void;
+}
+
+const FLAGS = ["--from", "--to", "--instrument"] as const;
+type Flag = (typeof FLAGS)[number];
+
+const USAGE =
+  "usage: pnpm prices:show [--from=YYYY-MM-DD] [--to=YYYY-MM-DD] [--instrument=<id>]\n" +
+  "  no flag          the last seven days, ending today, for every instrument\n" +
+  "  --from / --to    the window, inclusive; either end may be given alone\n" +
+  "  --instrument     one registered instrument id, e.g. btc";
+
+const STATE_LABELS: Record<PriceDayState, string> = {
+  marked: "MARKED",
+  differs: "DIFFERS",
+  "logged-only": "LOGGED ONLY",
+  pending: "PENDING",
+  held: "HELD",
+  unmarked: "UNMARKED",
+  "not-owed": "NOT OWED",
+  gap: "GAP",
+  due: "DUE",
+};
+
+/**
+ * Parse `prices:show` arguments: shape only, every flag at most once, and anything
+ * unknown REFUSED — the same rule `parsePriceFetchArgs` holds, for a milder reason
+ * here: a dropped `--instrument` typo would print every instrument and look like an
+ * answer. One leading bare `--` (pnpm's forwarding idiom) is skipped.
+ */
+export function parsePricesShowArgs(argv: readonly string[]): PricesShowArgs {
+  const values: Partial<Record<Flag, string>> = {};
+  const args = argv[0] === "--" ? argv.slice(1) : argv;
+  argLoop: for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    for (const flag of FLAGS) {
+      let value: string | undefined;
+      if (arg === flag) {
+        value = args[++i];
+      } else if (arg.startsWith(`${flag}=`)) {
+        value = arg.slice(flag.length + 1);
+      } else {
+        continue;
+      }
+      if (value === undefined || value === "" || value.startsWith("-")) {
+        throw new PriceFetchRefusal(`${flag} needs a value (got "${arg}").\n${USAGE}`);
+      }
+      if (values[flag] !== undefined) {
+        throw new PriceFetchRefusal(`${flag} may be given once.\n${USAGE}`);
+      }
+      if (flag !== "--instrument" && !isIsoCalendarDate(value)) {
+        throw new PriceFetchRefusal(
+          `${flag} value "${value}" is not a calendar day in YYYY-MM-DD form.\n${USAGE}`,
+        );
+      }
+      values[flag] = value;
+      continue argLoop;
+    }
+    throw new PriceFetchRefusal(`unknown argument "${arg}".\n${USAGE}`);
+  }
+  const { "--from": from, "--to": to, "--instrument": instrument } = values;
+  return {
+    ...(from === undefined ? {} : { from }),
+    ...(to === undefined ? {} : { to }),
+    ...(instrument === undefined ? {} : { instrument }),
+  };
+}
+
+/**
+ * Audit one instrument over `dates`. Pure: `closes` are the store's resolved closes,
+ * `logged` and `pending` the log's and the inbox's marks for this instrument keyed by
+ * `asOf` (the log's last one per day). `today` separates a GAP from a DUE day.
+ */
+export function auditInstrument(
+  entry: InstrumentRegistryEntry,
+  dates: readonly string[],
+  closes: readonly Quote[],
+  logged: ReadonlyMap<string, PriceMarkedEvent>,
+  pending: ReadonlySet<string>,
+  today: string,
+): InstrumentAudit {
+  const stored = new Map(closes.map((quote) => [quote.asOf, quote]));
+  const days: PriceDayAudit[] = [];
+  for (const asOf of dates) {
+    // A sidecar row owes nothing before its `addedAt`, as `registeredAsOf` has it.
+    const owed =
+      (entry.addedAt === undefined || entry.addedAt <= asOf) && owesMarkOn(entry.source, asOf);
+    const quote = stored.get(asOf);
+    const mark = logged.get(asOf);
+    const state = dayState(owed, quote, mark, pending.has(asOf), asOf >= today);
+    if (state === undefined) continue;
+    days.push({
+      asOf,
+      owed,
+      state,
+      ...(quote === undefined ? {} : { stored: quote }),
+      ...(mark === undefined ? {} : { logged: mark }),
+    });
+  }
+  return { entry, days };
+}
+
+function dayState(
+  owed: boolean,
+  quote: Quote | undefined,
+  mark: PriceMarkedEvent | undefined,
+  pending: boolean,
+  today: boolean,
+): PriceDayState | undefined {
+  if (mark !== undefined) {
+    if (quote === undefined) return "logged-only";
+    return sameValue(quote, mark) ? "marked" : "differs";
+  }
+  if (pending) return "pending";
+  if (quote !== undefined) {
+    if (quote.consensusHeld === true) return "held";
+    return owed ? "unmarked" : "not-owed";
+  }
+  if (!owed) return undefined;
+  return today ? "due" : "gap";
+}
+
+/** Whether `mark` carries the value the fetch would have built from `quote`. */
+function sameValue(quote: Quote, mark: PriceMarkedEvent): boolean {
+  const expected = mark.usdMxn === undefined ? quote.price : quote.price * mark.usdMxn;
+  return Math.abs(expected - mark.price) <= 1e-9 * Math.max(1, Math.abs(mark.price));
+}
+
+/**
+ * Run the whole command and return its exit code: 1 on a refusal or a finding (a
+ * DIFFERS or a GAP in the window), 0 otherwise. Any other throw is a genuine fault
+ * and keeps its stack.
+ */
+export async function runPricesShowCli(deps: PricesShowCliDeps): Promise<number> {
+  const log = deps.log ?? ((line: string) => console.log(line));
+  const logError = deps.logError ?? ((line: string) => console.error(line));
+  const config: PriceFeedConfig = { ...DEFAULT_CONFIG, ...deps.config };
+  const today = tradingDayAsOf((deps.now ?? (() => new Date()))(), config.timeZone);
+  const paths = resolvePriceFeedPaths(config.dataDir);
+
+  let args: PricesShowArgs;
+  let entries: InstrumentRegistryEntry[];
+  let from: string;
+  let to: string;
+  let loaded: LoadedInstrumentRegistry;
+  try {
+    args = parsePricesShowArgs(deps.argv);
+    to = args.to ?? today;
+    from = args.from ?? addDays(to, -6);
+    if (to > today) {
+      throw new PriceFetchRefusal(`--to ${to} is after today (${today}); nothing is stored there.`);
+    }
+    if (from > to) {
+      throw new PriceFetchRefusal(`--from ${from} is after --to ${to}.`);
+    }
+    loaded = await loadShowRegistry(paths.registry);
+    entries = loaded.registry.filter(
+      (entry) => args.instrument === undefined || entry.instrumentId === args.instrument,
+    );
+    if (entries.length === 0) {
+      throw new PriceFetchRefusal(
+        `--instrument "${args.instrument}" is not a registered instrument. Registered: ` +
+          `${loaded.registry.map((entry) => entry.instrumentId).join(", ")}.`,
+      );
+    }
+  } catch (error) {
+    if (!(error instanceof PriceFetchRefusal)) throw error;
+    logError(`prices:show — ${error.message}`);
+    return 1;
+  }
+
+  for (const issue of formatInstrumentRegistryLoadIssues(loaded)) {
+    logError(`  REGISTRY  ${issue}`);
+  }
+  const logLoad = await loadEventLog(paths.log);
+  if (logLoad.quarantined.length > 0) {
+    logError(
+      `  ${logLoad.quarantined.length} line(s) of ${paths.log} did not load; a mark on ` +
+        `one of them is not seen here.`,
+    );
+  }
+  const loggedMarks = logLoad.events.filter(
+    (event): event is PriceMarkedEvent => event.type === "PriceMarked",
+  );
+  const pendingMarks = (await readInboxArray(paths.inbox)).filter(isPendingMark);
+  const dates = Array.from({ length: daysBetween(from, to) + 1 }, (_, i) => addDays(from, i));
+
+  const tally = new Map<PriceDayState, number>();
+  log(`prices:show — ${from} to ${to}, ${paths.pricesDir} against ${paths.log}`);
+  for (const entry of entries) {
+    const logged = new Map<string, PriceMarkedEvent>();
+    for (const mark of loggedMarks) {
+      if (mark.instrumentId === entry.instrumentId) logged.set(mark.asOf, mark);
+    }
+    const pending = new Set(
+      pendingMarks.filter((mark) => mark.instrumentId === entry.instrumentId).map((m) => m.asOf),
+    );
+    const audit = auditInstrument(
+      entry,
+      dates,
+      await readStoredQuotes(paths.pricesDir, entry.instrumentId),
+      logged,
+      pending,
+      today,
+    );
+    log("");
+    log(`${entry.instrumentId}  ${entry.symbol}  ${entry.source}`);
+    if (audit.days.length === 0) {
+      log("  nothing stored, and nothing owed, in the window");
+    }
+    for (const day of audit.days) {
+      tally.set(day.state, (tally.get(day.state) ?? 0) + 1);
+      log(`  ${day.asOf}  ${String(day.stored?.price ?? "—").padEnd(14)} ${describeDay(day)}`);
+    }
+  }
+
+  const findings = (tally.get("differs") ?? 0) + (tally.get("gap") ?? 0);
+  log("");
+  log(
+    `prices:show — ${[...tally].map(([state, n]) => `${n} ${STATE_LABELS[state]}`).join(", ")}` +
+      (findings > 0 ? ` — ${findings} finding(s)` : ""),
+  );
+  return findings > 0 ? 1 : 0;
+}
+
+/**
+ * The registry, or a refusal when its sidecar exists and cannot be read — a refusal
+ * line rather than a stack trace, since this is the operator's own file to fix.
+ */
+async function loadShowRegistry(path: string): Promise<LoadedInstrumentRegistry> {
+  try {
+    return await loadInstrumentRegistryStrict(path);
+  } catch (error) {
+    throw new PriceFetchRefusal(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function describeDay(day: PriceDayAudit): string {
+  const label = STATE_LABELS[day.state];
+  switch (day.state) {
+    case "differs":
+    case "logged-only":
+      return `${label}  logged ${day.logged!.price} (${day.logged!.id})`;
+    case "pending":
+      return `${label}  in the inbox; pnpm spine has not taken it yet`;
+    case "held":
+      return `${label}  the consensus check kept it out of the inbox`;
+    case "unmarked":
+      return `${label}  stored, never marked`;
+    case "gap":
+      return `${label}  owed, nothing stored or marked — pnpm prices:fetch --as-of=${day.asOf}`;
+    default:
+      return label;
+  }
+}
+
+/** A pending inbox record that is a `PriceMarked` for some instrument and day. */
+function isPendingMark(record: unknown): record is { instrumentId: string; asOf: string } {
+  if (typeof record !== "object" || record === null) return false;
+  const candidate = record as Record<string, unknown>;
+  return (
+    candidate.type === "PriceMarked" &&
+    typeof candidate.instrumentId === "string" &&
+    typeof candidate.asOf === "string"
+  );
+}
@@ -4,7 +4,7 @@
 // while never becoming a throw and never disturbing the ok, timeout or
 // transport-error paths.
 import { describe, expect, it } from "vitest";
-import { fetchJson } from "./provider.js";
+import { fetchJson, type RetryContext, type RetryOutcome } from "./provider.js";
 
 function fetchWith(res: () => Response | Promise<Response>): typeof fetch {
   return (() => Promise.resolve(res())) as typeof fetch;
@@ -232,3 +232,200 @@ describe("fetchJson — the untouched paths", () => {
     expect(result).toEqual({ ok: false, reason: "getaddrinfo ENOTFOUND" });
   });
 });
+
+/**
+ * A fetch that serves `responses` in order, one per call — a function entry throws
+ * instead, the way a transport error does — and counts the calls.
+ */
+function sequence(...responses: (Response | (() => never))[]): {
+  calls: () => number;
+  impl: typeof fetch;
+} {
+  let calls = 0;
+  const impl = (() => {
+    const next = responses[Math.min(calls, responses.length - 1)]!;
+    calls += 1;
+    return typeof next === "function" ? Promise.reject(next()) : Promise.resolve(next.clone());
+  }) as unknown as typeof fetch;
+  return { calls: () => calls, impl };
+}
+
+/** A retry seam that records its waits and outcomes, with the jitter pinned to its top. */
+function recordingRetry(maxAttempts = 3): {
+  retry: RetryContext;
+  waits: number[];
+  outcomes: RetryOutcome[];
+} {
+  const waits: number[] = [];
+  const outcomes: RetryOutcome[] = [];
+  return {
+    waits,
+    outcomes,
+    retry: {
+      policy: { maxAttempts, baseDelayMs: 1_000, maxDelayMs: 10_000 },
+      sleep: (ms) => {
+        waits.push(ms);
+        return Promise.resolve();
+      },
+      record: (outcome) => outcomes.push(outcome),
+      random: () => 1,
+    },
+  };
+}
+
+const SERVED = () => new Response(JSON.stringify({ close: "1.5" }), { status: 200 });
+const UNAVAILABLE = () => new Response("", { status: 503, statusText: "Service Unavailable" });
+
+describe("fetchJson — bounded retry", () => {
+  it("serves a request that recovers on a later attempt, and records how", async () => {
+    const { calls, impl } = sequence(UNAVAILABLE(), UNAVAILABLE(), SERVED());
+    const { retry, waits, outcomes } = recordingRetry();
+    const result = await fetchJson("https://example.invalid/x", {
+      ...OPTS,
+      fetchImpl: impl,
+      retry,
+      label: "Binance BTCUSDT",
+    });
+    expect(result).toEqual({ ok: true, body: { close: "1.5" } });
+    expect(calls()).toBe(3);
+    // Exponential: base, then double — the jitter pinned to its ceiling.
+    expect(waits).toEqual([1_000, 2_000]);
+    expect(outcomes).toEqual([
+      {
+        request: "Binance BTCUSDT",
+        attempts: 3,
+        reasons: ["HTTP 503 Service Unavailable", "HTTP 503 Service Unavailable"],
+        recovered: true,
+      },
+    ]);
+  });
+
+  it("gives up at maxAttempts and returns the last failure unchanged", async () => {
+    const { calls, impl } = sequence(UNAVAILABLE());
+    const { retry, outcomes } = recordingRetry(2);
+    const result = await fetchJson("https://example.invalid/x", {
+      ...OPTS,
+      fetchImpl: impl,
+      retry,
+    });
+    expect(result).toEqual({ ok: false, reason: "HTTP 503 Service Unavailable" });
+    expect(calls()).toBe(2);
+    expect(outcomes).toMatchObject([{ request: "request", attempts: 2, recovered: false }]);
+  });
+
+  it("records nothing for a request served first time", async () => {
+    const { retry, waits, outcomes } = recordingRetry();
+    await fetchJson("https://example.invalid/x", {
+      ...OPTS,
+      fetchImpl: sequence(SERVED()).impl,
+      retry,
+    });
+    expect(waits).toEqual([]);
+    expect(outcomes).toEqual([]);
+  });
+
+  it("never retries a refusal: a 4xx other than 408/429 is answered once", async () => {
+    const { calls, impl } = sequence(errorBody({ message: "Invalid symbol" }, 400, "Bad Request"));
+    const { retry, outcomes } = recordingRetry();
+    const result = await fetchJson("https://example.invalid/x", {
+      ...OPTS,
+      fetchImpl: impl,
+      retry,
+    });
+    expect(result.ok).toBe(false);
+    expect(calls()).toBe(1);
+    expect(outcomes).toEqual([]);
+  });
+
+  it("retries a transport error, but not a non-JSON body", async () => {
+    const reset = sequence(() => {
+      throw new Error("socket hang up");
+    }, SERVED());
+    const { retry } = recordingRetry();
+    const result = await fetchJson("https://example.invalid/x", {
+      ...OPTS,
+      fetchImpl: reset.impl,
+      retry,
+    });
+    expect(result.ok).toBe(true);
+    const html = sequence(new Response("<html>maintenance</html>", { status: 200 }));
+    await fetchJson("https://example.invalid/x", { ...OPTS, fetchImpl: html.impl, retry });
+    expect(html.calls()).toBe(1);
+  });
+
+  it("retries only idempotent requests", async () => {
+    const { calls, impl } = sequence(UNAVAILABLE(), SERVED());
+    const { retry } = recordingRetry();
+    const result = await fetchJson("https://example.invalid/x", {
+      ...OPTS,
+      fetchImpl: impl,
+      retry,
+      init: { method: "POST" },
+    });
+    expect(result.ok).toBe(false);
+    expect(calls()).toBe(1);
+  });
+
+  it("waits at least as long as Retry-After asks", async () => {
+    const limited = new Response("", {
+      status: 429,
+      statusText: "Too Many Requests",
+      headers: { "retry-after": "7" },
+    });
+    const { retry, waits } = recordingRetry();
+    await fetchJson("https://example.invalid/x", {
+      ...OPTS,
+      fetchImpl: sequence(limited, SERVED()).impl,
+      retry,
+    });
+    expect(waits).toEqual([7_000]);
+  });
+
+  it("gives up rather than wait out a Retry-After longer than maxDelayMs", async () => {
+    const limited = new Response("", {
+      status: 429,
+      statusText: "Too Many Requests",
+      headers: { "retry-after": "3600" },
+    });
+    const { calls, impl } = sequence(limited, SERVED());
+    const { retry, waits, outcomes } = recordingRetry();
+    const result = await fetchJson("https://example.invalid/x", {
+      ...OPTS,
+      fetchImpl: impl,
+      retry,
+    });
+    expect(result).toEqual({ ok: false, reason: "HTTP 429 Too Many Requests" });
+    expect(calls()).toBe(1);
+    expect(waits).toEqual([]);
+    expect(outcomes).toMatchObject([{ attempts: 1, recovered: false }]);
+  });
+
+  it("retries a 200 body the caller names as transient, and waits out its floor", async () => {
+    const refusal = new Response(JSON.stringify({ status: "error", code: 429 }), { status: 200 });
+    const { retry, waits, outcomes } = recordingRetry();
+    const result = await fetchJson("https://example.invalid/x", {
+      ...OPTS,
+      fetchImpl: sequence(refusal, SERVED()).impl,
+      retry,
+      retryFloorMs: 60_000,
+      retryableBody: (body) =>
+        (body as { status?: unknown }).status === "error" ? "out of credits" : undefined,
+    });
+    expect(result).toEqual({ ok: true, body: { close: "1.5" } });
+    expect(waits).toEqual([60_000]);
+    expect(outcomes).toMatchObject([{ reasons: ["out of credits"], recovered: true }]);
+  });
+
+  it("returns the transient body itself once the attempts run out", async () => {
+    const refusal = { status: "error", code: 429, message: "out of credits" };
+    const { retry } = recordingRetry(2);
+    const result = await fetchJson("https://example.invalid/x", {
+      ...OPTS,
+      fetchImpl: sequence(new Response(JSON.stringify(refusal), { status: 200 })).impl,
+      retry,
+      retryableBody: () => "out of credits",
+    });
+    // The caller refuses it in its own words, exactly as without a retry.
+    expect(result).toEqual({ ok: true, body: refusal });
+  });
+});
@@ -9,6 +9,16 @@
  * force one of them to convert back. Each provider surfaces the bare reason in
  * one line, with its own label — the helper never formats the label, because
  * Twelve Data's is built per batch entry.
+ *
+ * BOUNDED RETRY. Given a {@link RetryContext}, `fetchJson` retries a TRANSIENT
+ * failure — a timeout, a transport error, HTTP 408/429/5xx, or a 200 body the
+ * caller's `retryableBody` names as one — with exponential backoff and jitter, never
+ * sooner than the response's `Retry-After`, and never sooner than the caller's
+ * `retryFloorMs` (Twelve Data's credit window). Only idempotent requests are
+ * retried: every provider here issues a GET, and anything else is tried once. A
+ * `Retry-After` longer than the policy's `maxDelayMs` ends the retries rather than
+ * stalling the run. Each request that needed a retry is recorded once, with every
+ * reason and whether it was finally served, so the run can report it.
  */
 
 /**
@@ -34,6 +44,44 @@ export interface FetchOptions {
   fetchImpl?: typeof fetch;
   /** Injectable clock for the `fetchedAt` stamp; defaults to `Date.now`. */
   now?: () => Date;
+  /** The run's retry policy and tally. Omitted, every request is tried once. */
+  retry?: RetryContext | undefined;
+}
+
+/** How hard one request is retried. Set from `PriceFeedConfig`'s `retry*` knobs. */
+export interface RetryPolicy {
+  /** Attempts per request, the first included: `1` never retries. */
+  maxAttempts: number;
+  /** The first backoff; each later one doubles, before jitter. */
+  baseDelayMs: number;
+  /**
+   * The longest backoff. A `Retry-After` asking for more ends the retries instead of
+   * waiting it out; a caller's `retryFloorMs` is not capped by it.
+   */
+  maxDelayMs: number;
+}
+
+/** One request that failed transiently at least once, and how it ended. */
+export interface RetryOutcome {
+  /** The request, labelled the way its provider labels a failure (`Binance BTCUSDT`). */
+  request: string;
+  /** Attempts made, the first included. */
+  attempts: number;
+  /** Each transient failure's bare reason, in the order they happened. */
+  reasons: string[];
+  /** Whether the last attempt was served. */
+  recovered: boolean;
+}
+
+/** The retry seam a run hands every provider: the policy, the wait and the tally. */
+export interface RetryContext {
+  policy: RetryPolicy;
+  /** The wait between attempts — the run's `sleepImpl`, so a test never waits. */
+  sleep: (ms: number) => Promise<void>;
+  /** Called once per request that failed transiently, after its last attempt. */
+  record: (outcome: RetryOutcome) => void;
+  /** Jitter source in `[0, 1)`; defaults to `Math.random`. */
+  random?: () => number;
 }
 
 /**
@@ -53,8 +101,28 @@ interface FetchJsonOptions {
   fetchImpl?: typeof fetch | undefined;
   /** Extra request init (headers, method, …); the `signal` is always ours. */
   init?: RequestInit | undefined;
+  /** The retry policy and tally; omitted, the request is tried once. */
+  retry?: RetryContext | undefined;
+  /** The request's label in a {@link RetryOutcome} — never the URL, which may hold a key. */
+  label?: string | undefined;
+  /** The shortest wait before any retry, e.g. a provider's rate window. */
+  retryFloorMs?: number | undefined;
+  /**
+   * Names a 200 body that is really a transient refusal (a rate limit served as a
+   * payload), or returns `undefined`. On the last attempt the body is returned as
+   * usual, for the caller to refuse in its own words.
+   */
+  retryableBody?: ((body: unknown) => string | undefined) | undefined;
 }
 
+/** HTTP statuses worth asking again: a timeout, a rate limit, a server-side failure. */
+const RETRYABLE_STATUSES: ReadonlySet<number> = new Set([408, 429, 500, 502, 503, 504]);
+
+/** One attempt's outcome, with what the retry loop needs to decide on the next. */
+type AttemptResult =
+  | { ok: true; body: unknown }
+  | { ok: false; reason: string; retryable: boolean; retryAfterMs?: number };
+
 /**
  * How much of a provider's own error text may ride along in a `reason`. Generous
  * enough for any real API sentence, small enough that an HTML interstitial served
@@ -125,6 +193,49 @@ export async function fetchJson(
   url: string,
   options: FetchJsonOptions,
 ): Promise<FetchJsonResult> {
+  const retry = options.retry;
+  const method = (options.init?.method ?? "GET").toUpperCase();
+  const maxAttempts =
+    retry === undefined || (method !== "GET" && method !== "HEAD")
+      ? 1
+      : Math.max(1, Math.floor(retry.policy.maxAttempts));
+  const reasons: string[] = [];
+  for (let attempt = 1; ; attempt++) {
+    const result = await attemptOnce(url, options);
+    const transient = result.ok
+      ? options.retryableBody?.(result.body)
+      : result.retryable
+        ? result.reason
+        : undefined;
+    const served: FetchJsonResult = result.ok
+      ? { ok: true, body: result.body }
+      : { ok: false, reason: result.reason };
+    if (transient === undefined) {
+      if (retry !== undefined && reasons.length > 0) {
+        retry.record(retryOutcome(options, attempt, reasons, result.ok));
+      }
+      return served;
+    }
+    if (retry === undefined || maxAttempts === 1) {
+      return served;
+    }
+    reasons.push(transient);
+    const retryAfterMs = result.ok ? undefined : result.retryAfterMs;
+    if (
+      attempt >= maxAttempts ||
+      (retryAfterMs !== undefined && retryAfterMs > retry.policy.maxDelayMs)
+    ) {
+      retry.record(retryOutcome(options, attempt, reasons, false));
+      return served;
+    }
+    await retry.sleep(
+      Math.max(backoffMs(retry, attempt), retryAfterMs ?? 0, options.retryFloorMs ?? 0),
+    );
+  }
+}
+
+/** One bounded attempt: the single fetch `fetchJson` made before it could retry. */
+async function attemptOnce(url: string, options: FetchJsonOptions): Promise<AttemptResult> {
   const fetchImpl = options.fetchImpl ?? fetch;
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), options.timeoutMs);
@@ -133,19 +244,69 @@ export async function fetchJson(
     if (!res.ok) {
       const bare = `HTTP ${res.status} ${res.statusText}`;
       const explanation = await readErrorText(res);
-      return { ok: false, reason: explanation === "" ? bare : `${bare} — ${explanation}` };
+      const retryAfterMs = parseRetryAfter(res.headers.get("retry-after"));
+      return {
+        ok: false,
+        reason: explanation === "" ? bare : `${bare} — ${explanation}`,
+        retryable: RETRYABLE_STATUSES.has(res.status),
+        ...(retryAfterMs === undefined ? {} : { retryAfterMs }),
+      };
     }
     return { ok: true, body: (await res.json()) as unknown };
   } catch (error) {
     if (error instanceof Error && error.name === "AbortError") {
-      return { ok: false, reason: `request timed out after ${options.timeoutMs}ms` };
+      return {
+        ok: false,
+        reason: `request timed out after ${options.timeoutMs}ms`,
+        retryable: true,
+      };
     }
-    return { ok: false, reason: error instanceof Error ? error.message : String(error) };
+    // A transport error (DNS, reset, refused) is worth another try; a body that is
+    // not JSON is not — the same interstitial will most likely be served again.
+    return {
+      ok: false,
+      reason: error instanceof Error ? error.message : String(error),
+      retryable: !(error instanceof SyntaxError),
+    };
   } finally {
     clearTimeout(timer);
   }
 }
 
+/**
+ * The backoff before attempt `attempt + 1`: `baseDelayMs` doubled per attempt, capped
+ * at `maxDelayMs`, then jittered into its upper half so two runs retrying the same
+ * outage do not retry in step.
+ */
+function backoffMs(retry: RetryContext, attempt: number): number {
+  const { baseDelayMs, maxDelayMs } = retry.policy;
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  const random = retry.random ?? Math.random;
+  return Math.round(ceiling * (0.5 + random() / 2));
+}
+
+/**
+ * A `Retry-After` header in milliseconds: delta-seconds or an HTTP date, whichever it
+ * holds. `undefined` when absent or unreadable — a malformed header is ignored, never
+ * read as "now".
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (header === null || header.trim() === "") return undefined;
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const at = Date.parse(trimmed);
+  return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now());
+}
+
+function retryOutcome(
+  options: FetchJsonOptions,
+  attempts: number,
+  reasons: string[],
+  recovered: boolean,
+): RetryOutcome {
+  return { request: options.label ?? "request", attempts, reasons: [...reasons], recovered };
+}
+
 /**
  * True for any non-null object — INCLUDING arrays, deliberately. Every caller
  * follows the guard with a property read that an array answers `undefined`, which
@@ -10,6 +10,7 @@ import { tmpdir } from "node:os";
 import { dirname, join } from "node:path";
 import {
   buildEventReference,
+  CODE_INSTRUMENT_REGISTRY,
   deriveMxnMark,
   markFromQuote,
   PRICE_MARK_MAGNITUDE_THRESHOLD,
@@ -180,8 +181,15 @@ describe("derived MXN marks are pre-checked at USD×FIX, not the raw USD quote (
       skippedCount: 0,
       markEmitted: true,
       marks: [derived],
+      fxMarks: [],
+      fxEmittedCount: 0,
       failures: [],
       staleMarkSkips: [],
+      fallbacks: [],
+      held: [],
+      retries: [],
+      instruments: CODE_INSTRUMENT_REGISTRY,
+      registryIssues: [],
     };
     expect(marksFromRun(result)).toEqual([derived]);
     // Before the mark time, nothing is pre-checked even if marks are present.
@@ -220,8 +228,15 @@ describe("loadSpineReference + scanFetchedMarks — reads the real genesis/log o
       // `btc` is a direct instrument, so its emitted mark is `markFromQuote`; the
       // pre-check reads these constructed marks, not a re-derivation from quotes.
       marks: [markFromQuote(quote("btc", price))],
+      fxMarks: [],
+      fxEmittedCount: 0,
       failures: [],
       staleMarkSkips: [],
+      fallbacks: [],
+      held: [],
+      retries: [],
+      instruments: CODE_INSTRUMENT_REGISTRY,
+      registryIssues: [],
     };
   }
 
@@ -265,6 +280,32 @@ describe("loadSpineReference + scanFetchedMarks — reads the real genesis/log o
     expect(scan.unavailableReason).toMatch(/genesis\.json/);
   });
 
+  it("leads with the marks the consensus check held, with or without a reference", async () => {
+    const held = {
+      id: "pm-eth-2026-07-03",
+      instrumentId: "eth",
+      asOf: "2026-07-03",
+      price: 3450,
+      path: "price",
+      reason: "close 3450 is 15.0% from the last stored close 3000 (2026-07-02)",
+      held: true as const,
+    };
+    const result = { ...runResult(BTC_LAST_CLOSE * 3), held: [held] };
+    const paths = resolvePriceFeedPaths(dataDir);
+
+    // No genesis yet: the spine world is unavailable, but the hold is not lost with it.
+    const unavailable = await scanFetchedMarks(result, paths);
+    expect(unavailable.skipped).toBe(true);
+    expect(unavailable.rejections).toEqual([held]);
+
+    await writeGenesis();
+    const scan = await scanFetchedMarks(result, paths);
+    expect(scan.rejections.map((r) => [r.instrumentId, r.held])).toEqual([
+      ["eth", true],
+      ["btc", undefined],
+    ]);
+  });
+
   it("does not pre-check before the mark time (no marks emitted this run)", async () => {
     await writeGenesis();
     const preMarkResult: FetchRunResult = {
@@ -408,8 +449,15 @@ describe("scanFetchedMarks folds the pending inbox exactly as ingestInbox does",
       skippedCount: marks.length - emittedCount,
       markEmitted: true,
       marks: marks as FetchRunResult["marks"],
+      fxMarks: [],
+      fxEmittedCount: 0,
       failures: [],
       staleMarkSkips: [],
+      fallbacks: [],
+      held: [],
+      retries: [],
+      instruments: CODE_INSTRUMENT_REGISTRY,
+      registryIssues: [],
     };
   }
 
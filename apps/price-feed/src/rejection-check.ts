@@ -62,6 +62,12 @@ export interface MarkRejection {
   path: string;
   /** The engine guard's rejection message, verbatim. */
   reason: string;
+  /**
+   * Set when the fetch's consensus check HELD the mark rather than the spine guard
+   * judging it: the mark never reached the inbox, and `reason` is the check's own
+   * sentence. Absent on every spine-guard rejection.
+   */
+  held?: true;
 }
 
 /** On-disk locations the pre-check reads to reconstruct the spine's known world. */
@@ -212,6 +218,14 @@ export function findMarkRejections(
   return rejections;
 }
 
+/**
+ * What the pre-check reads from a run: whether marks were queued, how many were new
+ * to the inbox, the marks themselves, and any the consensus check held back. A
+ * one-day run passes its whole result; a range recovery passes its merged batch.
+ */
+export type FetchedMarks = Pick<FetchRunResult, "markEmitted" | "emittedCount" | "marks"> &
+  Partial<Pick<FetchRunResult, "held">>;
+
 /**
  * The marks a fetch run queued that spine will ACTUALLY guard. Uses the run's OWN
  * constructed marks (`result.marks`) rather than re-deriving from quotes — a
@@ -227,7 +241,7 @@ export function findMarkRejections(
  * the mark time (no marks emitted this run).
  */
 export function marksFromRun(
-  result: FetchRunResult,
+  result: FetchedMarks,
   seenIds?: ReadonlySet<string>,
 ): PriceMarkedEvent[] {
   if (!result.markEmitted) {
@@ -259,15 +273,20 @@ export interface RejectionScan {
  * inbox, so `result.emittedCount` (how many were appended to the tail) tells
  * `loadSpineReference` how many trailing records to treat as JUDGED subjects rather
  * than PRE-EXISTING batch context — the two halves stay disjoint, no double-count.
+ *
+ * Marks the fetch's consensus check held (`result.held`) lead the list on every
+ * path, including an unavailable pre-check: they never reached the inbox, so the
+ * spine world has nothing to say about them, and they must not vanish with it.
  */
 export async function scanFetchedMarks(
-  result: FetchRunResult,
+  result: FetchedMarks,
   paths: SpineReferencePaths,
   options?: { magnitudeThreshold?: number },
 ): Promise<RejectionScan> {
   // Before the mark time nothing is queued and the inbox is untouched — no pre-check.
+  const held = result.held ?? [];
   if (!result.markEmitted) {
-    return { rejections: [], skipped: false };
+    return { rejections: [...held], skipped: false };
   }
   let world: SpineWorld;
   try {
@@ -281,7 +300,7 @@ export async function scanFetchedMarks(
     // Includes a MISSING genesis (ENOENT from `loadGenesis`): unseeded or damaged,
     // it is surfaced as one Note rather than an unexplained silent skip.
     return {
-      rejections: [],
+      rejections: [...held],
       skipped: true,
       unavailableReason: error instanceof Error ? error.message : String(error),
     };
@@ -292,6 +311,7 @@ export async function scanFetchedMarks(
   const judged = marksFromRun(result, world.seenIds);
   return {
     rejections: [
+      ...held,
       ...world.pendingRejections,
       ...findMarkRejections(judged, world.reference, options),
     ],
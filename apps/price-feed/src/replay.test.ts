@@ -0,0 +1,156 @@
+// Record/replay seam. The "network" behind a recording is an authored fetch; the
+// subjects are the fixture contract — a credential never reaches disk, a request is
+// served its recorded responses in order, and a request the fixture does not hold
+// fails by name instead of being served a neighbour's response.
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { PriceFetchRefusal } from "./refusal.js";
+import {
+  readReplayManifest,
+  readReplayModeFromEnv,
+  recordingFetch,
+  redactUrl,
+  replayFetch,
+} from "./replay.js";
+
+const RECORDED_AT = new Date("2026-07-03T12:00:00.000Z");
+const KLINES = "https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1d&limit=2";
+const TWELVE = "https://api.twelvedata.com/time_series?symbol=AAPL&apikey=secret-key";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "replay-test-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+/** An authored fetch that serves `responses` in order, one per call. */
+function sequence(...responses: Array<() => Response>): typeof fetch {
+  let call = 0;
+  return (() => Promise.resolve(responses[call++]!())) as typeof fetch;
+}
+
+describe("recordingFetch → replayFetch", () => {
+  it("replays what was recorded, body, status and headers alike", async () => {
+    const record = recordingFetch(
+      dir,
+      RECORDED_AT,
+      sequence(
+        () =>
+          new Response('[["bar"]]', {
+            status: 200,
+            headers: { "content-type": "application/json", "x-ignored": "1" },
+          }),
+      ),
+    );
+    const live = await record(KLINES);
+    expect(await live.text()).toBe('[["bar"]]');
+
+    const replayed = await replayFetch(dir)(KLINES);
+    expect(replayed.status).toBe(200);
+    expect(replayed.headers.get("content-type")).toBe("application/json");
+    expect(replayed.headers.get("x-ignored")).toBeNull();
+    expect(await replayed.text()).toBe('[["bar"]]');
+    expect(await readReplayManifest(dir)).toEqual({ recordedAt: RECORDED_AT.toISOString() });
+  });
+
+  it("serves a retried request its responses in order, then the last one again", async () => {
+    const record = recordingFetch(
+      dir,
+      RECORDED_AT,
+      sequence(
+        () =>
+          new Response("", {
+            status: 503,
+            statusText: "Service Unavailable",
+            headers: { "retry-after": "5" },
+          }),
+        () => new Response("[]", { status: 200 }),
+      ),
+    );
+    await record(KLINES);
+    await record(KLINES);
+
+    const replay = replayFetch(dir);
+    const first = await replay(KLINES);
+    expect([first.status, first.statusText, first.headers.get("retry-after")]).toEqual([
+      503,
+      "Service Unavailable",
+      "5",
+    ]);
+    expect((await replay(KLINES)).status).toBe(200);
+    expect((await replay(KLINES)).status).toBe(200);
+  });
+
+  it("never writes a credential, and replays under any key", async () => {
+    const record = recordingFetch(
+      dir,
+      RECORDED_AT,
+      sequence(() => new Response('{"status":"ok"}', { status: 200 })),
+    );
+    await record(TWELVE, { headers: { "Bmx-Token": "secret-token" } });
+
+    const files = await readdir(dir);
+    const contents = await Promise.all(files.map((file) => readFile(join(dir, file), "utf8")));
+    expect(contents.join("\n")).not.toMatch(/secret-(key|token)/);
+
+    const other = TWELVE.replace("secret-key", "another-key");
+    expect(await (await replayFetch(dir)(other)).text()).toBe('{"status":"ok"}');
+  });
+
+  it("fails a request the fixture does not hold, naming it", async () => {
+    await recordingFetch(dir, RECORDED_AT, sequence(() => new Response("[]")))(KLINES);
+    const unrecorded = KLINES.replace("BTCUSDT", "ETHUSDT");
+    await expect(replayFetch(dir)(unrecorded)).rejects.toThrow(
+      `no recorded exchange for GET ${unrecorded} in ${dir}`,
+    );
+  });
+});
+
+describe("redactUrl", () => {
+  it("blanks the credential parameters and nothing else", () => {
+    expect(redactUrl("https://x.invalid/q?symbol=AAPL&apikey=k&token=t")).toBe(
+      "https://x.invalid/q?symbol=AAPL&apikey=REDACTED&token=REDACTED",
+    );
+    expect(redactUrl(KLINES)).toBe(KLINES);
+  });
+});
+
+describe("readReplayManifest", () => {
+  it("refuses a directory that holds no recording", async () => {
+    await expect(readReplayManifest(dir)).rejects.toThrow(PriceFetchRefusal);
+    await expect(readReplayManifest(dir)).rejects.toThrow(/is not a recorded fixture/);
+  });
+});
+
+describe("readReplayModeFromEnv", () => {
+  it("is an ordinary run when neither variable is set", () => {
+    expect(readReplayModeFromEnv({})).toBeUndefined();
+    expect(readReplayModeFromEnv({ NUMISMA_PRICE_REPLAY: " " })).toBeUndefined();
+  });
+
+  it("reads either mode", () => {
+    expect(readReplayModeFromEnv({ NUMISMA_PRICE_RECORD: "/tmp/fx" })).toEqual({
+      kind: "record",
+      dir: "/tmp/fx",
+    });
+    expect(readReplayModeFromEnv({ NUMISMA_PRICE_REPLAY: "/tmp/fx" })).toEqual({
+      kind: "replay",
+      dir: "/tmp/fx",
+    });
+  });
+
+  it("refuses both at once, and a relative directory", () => {
+    expect(() =>
+      readReplayModeFromEnv({ NUMISMA_PRICE_RECORD: "/a", NUMISMA_PRICE_REPLAY: "/b" }),
+    ).toThrow(/both set/);
+    expect(() => readReplayModeFromEnv({ NUMISMA_PRICE_REPLAY: "fixtures" })).toThrow(
+      PriceFetchRefusal,
+    );
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * RECORD / REPLAY — running the real `prices:fetch` without the network.
+ *
+ * Every provider test injects a hand-built `fetchImpl`, which proves one provider's
+ * parse and nothing about the run around it. This module is the seam one level up:
+ * a `fetch` that RECORDS every provider exchange of a real run into a fixture
+ * directory, and a `fetch` that REPLAYS that directory as a local stand-in. With
+ * `NUMISMA_PRICE_RECORD=<dir>` a run records; with `NUMISMA_PRICE_REPLAY=<dir>` it is
+ * served from the fixture and never opens a socket, so the whole CLI — Binance,
+ * Twelve Data, Banxico, the fallbacks, the retries — runs deterministically offline.
+ *
+ * ONE FILE PER REQUEST, KEYED WITH ITS SECRETS REDACTED. A request is identified by
+ * its method and URL with the credential parameters (`apikey`, `token`) blanked, and
+ * request headers are never recorded — Banxico's token rides in one. So a fixture
+ * holds no key, can be committed, and replays under any key or none. The file holds
+ * the request's responses IN ORDER: a 503 that was retried into a 200 replays as the
+ * same 503 and the same 200, and a request asked more often than it was recorded is
+ * served its last response again.
+ *
+ * THE CLOCK IS THE RECORDING'S. The manifest stores the instant the recording run
+ * started, and a replay run reads that as `now` — otherwise a fixture recorded on
+ * Monday would replay Monday's bars as a Tuesday run and every mark would skip as
+ * stale. Replay never sleeps either: the pacing pause and the retry backoff exist for
+ * a provider's sake, and there is no provider.
+ *
+ * A request the fixture does not hold FAILS, naming itself — it is never served a
+ * neighbour's response. That is how a replay surfaces a code change that asks for
+ * something new: re-record.
+ */
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { isAbsolute, join } from "node:path";
+import { atomicWrite } from "./atomic-write.js";
+import { PriceFetchRefusal } from "./refusal.js";
+
+/** The file in a fixture directory that marks it as one and holds its clock. */
+export const REPLAY_MANIFEST_FILENAME = "manifest.json";
+
+/** Which side of the seam a run is on, and the fixture directory it uses. */
+export type ReplayMode = { kind: "record"; dir: string } | { kind: "replay"; dir: string };
+
+/** What `manifest.json` holds. */
+export interface ReplayManifest {
+  /** ISO instant the recording run started — a replay run's `now`. */
+  recordedAt: string;
+}
+
+/** One recorded response, as close to the wire as a string body allows. */
+interface RecordedResponse {
+  status: number;
+  statusText: string;
+  /** Only the headers a provider reads: `content-type` and `retry-after`. */
+  headers: Record<string, string>;
+  body: string;
+}
+
+/** One fixture file: the redacted request and every response it was served, in order. */
+interface RecordedExchange {
+  request: { method: string; url: string };
+  responses: RecordedResponse[];
+}
+
+/** Query parameters that carry a credential. Blanked before a URL is keyed or written. */
+const REDACTED_PARAMS: ReadonlySet<string> = new Set(["apikey", "token"]);
+
+/** Response headers worth keeping: the one `fetchJson` reads, and the body's type. */
+const RECORDED_HEADERS: readonly string[] = ["content-type", "retry-after"];
+
+/**
+ * Read the mode from `NUMISMA_PRICE_RECORD` / `NUMISMA_PRICE_REPLAY`. Both unset or
+ * empty is an ordinary run. Both set, or a directory that is not absolute, REFUSES —
+ * a relative fixture path would resolve against wherever `pnpm` was run from, the
+ * same CWD trap the data dir refuses.
+ */
+export function readReplayModeFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): ReplayMode | undefined {
+  const record = env.NUMISMA_PRICE_RECORD?.trim() ?? "";
+  const replay = env.NUMISMA_PRICE_REPLAY?.trim() ?? "";
+  if (record !== "" && replay !== "") {
+    throw new PriceFetchRefusal(
+      `NUMISMA_PRICE_RECORD and NUMISMA_PRICE_REPLAY are both set. A run either records ` +
+        `provider exchanges or replays them; unset one.`,
+    );
+  }
+  const [name, dir] =
+    record !== "" ? ["NUMISMA_PRICE_RECORD", record] : ["NUMISMA_PRICE_REPLAY", replay];
+  if (dir === "") {
+    return undefined;
+  }
+  if (!isAbsolute(dir)) {
+    throw new PriceFetchRefusal(
+      `${name} "${dir}" is not an absolute path. Give the fixture directory as one, ` +
+        `e.g. "$PWD/${dir}".`,
+    );
+  }
+  return { kind: record !== "" ? "record" : "replay", dir };
+}
+
+/**
+ * Read a fixture's manifest. A directory without a readable one is REFUSED rather
+ * than replayed as empty: every request would fail, and the run would report a
+ * provider outage that is really a mistyped path.
+ */
+export async function readReplayManifest(dir: string): Promise<ReplayManifest> {
+  const path = join(dir, REPLAY_MANIFEST_FILENAME);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(path, "utf8"));
+  } catch (error) {
+    throw new PriceFetchRefusal(
+      `NUMISMA_PRICE_REPLAY "${dir}" is not a recorded fixture: ${path} could not be read ` +
+        `(${error instanceof Error ? error.message : String(error)}). Record one with ` +
+        `NUMISMA_PRICE_RECORD first.`,
+    );
+  }
+  const recordedAt = (parsed as { recordedAt?: unknown } | null)?.recordedAt;
+  if (typeof recordedAt !== "string" || Number.isNaN(Date.parse(recordedAt))) {
+    throw new PriceFetchRefusal(
+      `NUMISMA_PRICE_REPLAY "${dir}": ${path} has no recordedAt instant, so the replay ` +
+        `has no clock to run on. Re-record the fixture.`,
+    );
+  }
+  return { recordedAt };
+}
+
+/**
+ * A `fetch` that asks `fetchImpl` and writes every exchange under `dir`, then hands
+ * the caller an identical response. The manifest is written before the first
+ * exchange. A write failure rejects the request, so a recording that could not be
+ * kept never passes for a complete one.
+ *
+ * Record into an EMPTY directory: a file from an earlier recording that this run did
+ * not overwrite would still be served on replay.
+ */
+export function recordingFetch(
+  dir: string,
+  recordedAt: Date,
+  fetchImpl: typeof fetch = fetch,
+): typeof fetch {
+  const exchanges = new Map<string, RecordedExchange>();
+  let manifestWritten = false;
+  return (async (input: string | URL | Request, init?: RequestInit) => {
+    const { method, url } = describeRequest(input, init);
+    if (!manifestWritten) {
+      const manifest: ReplayManifest = { recordedAt: recordedAt.toISOString() };
+      await atomicWrite(
+        join(dir, REPLAY_MANIFEST_FILENAME),
+        `${JSON.stringify(manifest, null, 2)}\n`,
+      );
+      manifestWritten = true;
+    }
+    const response = await fetchImpl(input, init);
+    const body = await response.text();
+    const file = exchangeFilename(method, url);
+    const exchange = exchanges.get(file) ?? { request: { method, url }, responses: [] };
+    exchange.responses.push({
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(
+        RECORDED_HEADERS.flatMap((name) => {
+          const value = response.headers.get(name);
+          return value === null ? [] : [[name, value]];
+        }),
+      ),
+      body,
+    });
+    exchanges.set(file, exchange);
+    await atomicWrite(join(dir, file), `${JSON.stringify(exchange, null, 2)}\n`);
+    return toResponse(exchange.responses.at(-1)!);
+  }) as typeof fetch;
+}
+
+/**
+ * A `fetch` served from the fixture under `dir`. Each request gets its recorded
+ * responses in order, then the last one again. A request the fixture does not hold
+ * rejects with an error naming the request and the fixture.
+ */
+export function replayFetch(dir: string): typeof fetch {
+  const served = new Map<string, number>();
+  return (async (input: string | URL | Request, init?: RequestInit) => {
+    const { method, url } = describeRequest(input, init);
+    const file = exchangeFilename(method, url);
+    let exchange: RecordedExchange;
+    try {
+      exchange = JSON.parse(await readFile(join(dir, file), "utf8")) as RecordedExchange;
+    } catch {
+      throw new Error(`no recorded exchange for ${method} ${url} in ${dir}`);
+    }
+    const index = served.get(file) ?? 0;
+    served.set(file, index + 1);
+    const response = exchange.responses[Math.min(index, exchange.responses.length - 1)];
+    if (response === undefined) {
+      throw new Error(`the recorded exchange for ${method} ${url} in ${dir} holds no response`);
+    }
+    return toResponse(response);
+  }) as typeof fetch;
+}
+
+/** `url` with every credential parameter's value replaced by `REDACTED`. */
+export function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  for (const name of [...parsed.searchParams.keys()]) {
+    if (REDACTED_PARAMS.has(name.toLowerCase())) {
+      parsed.searchParams.set(name, "REDACTED");
+    }
+  }
+  return parsed.toString();
+}
+
+function describeRequest(
+  input: string | URL | Request,
+  init: RequestInit | undefined,
+): { method: string; url: string } {
+  const raw = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+  return { method: (init?.method ?? "GET").toUpperCase(), url: redactUrl(raw) };
+}
+
+/**
+ * `<host>-<hash>.json`: the host keeps a fixture directory readable at a glance, the
+ * hash of the redacted request keeps two requests to one host apart.
+ */
+function exchangeFilename(method: string, url: string): string {
+  const hash = createHash("sha256").update(`${method} ${url}`).digest("hex").slice(0, 16);
+  return `${new URL(url).hostname}-${hash}.json`;
+}
+
+function toResponse(recorded: RecordedResponse): Response {
+  // A null-body status cannot be constructed with a body, even an empty one.
+  const nullBody = [101, 204, 205, 304].includes(recorded.status);
+  return new Response(nullBody ? null : recorded.body, {
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.headers,
+  });
+}
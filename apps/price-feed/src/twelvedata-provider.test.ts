@@ -11,6 +11,7 @@
 import { describe, expect, it } from "vitest";
 import type { InstrumentRegistryEntry } from "@numisma/engine";
 import {
+  fetchTwelveDataDailyCloseRange,
   fetchTwelveDataDailyCloses,
   type EquitiesFetchOptions,
 } from "./twelvedata-provider.js";
@@ -508,3 +509,133 @@ describe("fetchTwelveDataDailyCloses — live path pinned (no targetDate)", () =
     );
   });
 });
+
+describe("fetchTwelveDataDailyCloseRange — one batched window for a range of days", () => {
+  const RANGE = { fromDate: "2026-06-29", toDate: "2026-07-02" };
+
+  function bars(...rows: Array<[string, string]>) {
+    return { status: "ok", values: rows.map(([datetime, close]) => ({ datetime, close })) };
+  }
+
+  it("asks for every symbol once over the window, end exclusive, at the maximum outputsize", async () => {
+    let seen = "";
+    await fetchTwelveDataDailyCloseRange([AAPL, GOOGL], {
+      ...OPTS,
+      ...RANGE,
+      fetchImpl: ((url: string) => {
+        seen = url;
+        return Promise.resolve(new Response(JSON.stringify({}), { status: 200 }));
+      }) as unknown as typeof fetch,
+    });
+    const params = new URL(seen).searchParams;
+    expect(params.get("symbol")).toBe("AAPL,GOOGL");
+    expect(params.get("start_date")).toBe("2026-06-29");
+    expect(params.get("end_date")).toBe("2026-07-03");
+    expect(params.get("outputsize")).toBe("5000");
+  });
+
+  it("returns each symbol's bars dated by row, and fails only the symbol that erred", async () => {
+    const [aapl, googl] = await fetchTwelveDataDailyCloseRange([AAPL, GOOGL], {
+      ...OPTS,
+      ...RANGE,
+      fetchImpl: fetchWith(
+        () =>
+          new Response(
+            JSON.stringify({
+              AAPL: bars(["2026-07-02", "213.5"], ["2026-06-30", "211"]),
+              GOOGL: { status: "error", message: "No data is available on the specified dates" },
+            }),
+            { status: 200 },
+          ),
+      ),
+    });
+    expect(aapl?.observations?.map((obs) => [obs.observationDate, obs.close])).toEqual([
+      ["2026-07-02", 213.5],
+      ["2026-06-30", 211],
+    ]);
+    expect(googl).toEqual({
+      entry: GOOGL,
+      error: "Twelve Data GOOGL -> No data is available on the specified dates",
+    });
+  });
+
+  it("fails the symbol on one malformed bar rather than dropping it", async () => {
+    const [aapl] = await fetchTwelveDataDailyCloseRange([AAPL], {
+      ...OPTS,
+      ...RANGE,
+      fetchImpl: fetchWith(
+        () =>
+          new Response(JSON.stringify(bars(["2026-07-02", "213.5"], ["2026-07-01", "-1"])), {
+            status: 200,
+          }),
+      ),
+    });
+    expect(aapl).toEqual({ entry: AAPL, error: "Twelve Data AAPL -> non-positive close -1" });
+  });
+});
+
+describe("fetchTwelveDataDailyCloses — transient refusals are retried", () => {
+  /** Serves `bodies` in order as 200s, then repeats the last; records each wait. */
+  function scripted(...bodies: unknown[]) {
+    let calls = 0;
+    const waits: number[] = [];
+    const fetchImpl = (() => {
+      const body = bodies[Math.min(calls, bodies.length - 1)];
+      calls += 1;
+      return Promise.resolve(
+        body instanceof Response ? body : new Response(JSON.stringify(body), { status: 200 }),
+      );
+    }) as unknown as typeof fetch;
+    const retry = {
+      policy: { maxAttempts: 3, baseDelayMs: 1_000, maxDelayMs: 120_000 },
+      sleep: (ms: number) => {
+        waits.push(ms);
+        return Promise.resolve();
+      },
+      record: () => {},
+      random: () => 0,
+    };
+    return { fetchImpl, retry, waits, calls: () => calls };
+  }
+
+  it("retries a 200 body carrying code 429, after a fresh credit window", async () => {
+    const run = scripted(
+      { code: 429, message: "You have run out of API credits", status: "error" },
+      await timeSeriesResponse("212.5").json(),
+    );
+    const result = await fetchOne(AAPL, {
+      ...OPTS,
+      fetchImpl: run.fetchImpl,
+      retry: run.retry,
+      creditWindowMs: 60_000,
+    });
+    expect(result?.observation?.close).toBe(212.5);
+    expect(run.calls()).toBe(2);
+    // The backoff alone would be 500ms; the refused attempt may have spent the
+    // window's credits, so the retry waits the window out.
+    expect(run.waits).toEqual([60_000]);
+  });
+
+  it("does not retry a 200 body refusing the request itself", async () => {
+    const run = scripted({ code: 400, message: "symbol not found", status: "error" });
+    const result = await fetchOne(AAPL, { ...OPTS, fetchImpl: run.fetchImpl, retry: run.retry });
+    expect(result?.error).toMatch(/Twelve Data AAPL -> symbol not found/);
+    expect(run.calls()).toBe(1);
+  });
+
+  it("keeps a batch whole through one transient 5xx instead of failing every symbol", async () => {
+    const run = scripted(
+      new Response("", { status: 502, statusText: "Bad Gateway" }),
+      {
+        AAPL: await timeSeriesResponse("212.5").json(),
+        GOOGL: await timeSeriesResponse("180.25").json(),
+      },
+    );
+    const results = await fetchTwelveDataDailyCloses([AAPL, GOOGL], {
+      ...OPTS,
+      fetchImpl: run.fetchImpl,
+      retry: run.retry,
+    });
+    expect(results.map((r) => r.observation?.close)).toEqual([212.5, 180.25]);
+  });
+});
@@ -19,10 +19,16 @@
  * instrument's failure (the others in the chunk succeed), preserving per-symbol
  * attribution.
  *
+ * A REQUEST-level failure is the exception — it fails the whole chunk — so a
+ * transient one (a 5xx, a timeout, a `code` 429 body) is retried through
+ * `fetchJson` before it can. A retry waits at least `creditWindowMs`: the refused
+ * attempt may already have spent the minute's credits.
+ *
  * There is deliberately NO single-symbol fetch. One existed as a thin wrapper and
  * was deleted (audit finding 18): it had zero non-test callers, and publishing it
  * invited exactly the per-symbol looping the 8-credit/minute cap punishes. A single
- * symbol is a one-element batch.
+ * symbol is a one-element batch. A range recovery rides the same batch: one
+ * request per chunk returns every bar in the window, for the same 1 credit a symbol.
  *
  * Provider decision (PRD-#105 open question 1): Twelve Data over Alpha Vantage —
  * see the equities rows in `@numisma/engine`'s registry for the rationale. The API
@@ -38,10 +44,23 @@ import {
 } from "./provider.js";
 
 const TWELVEDATA_TIME_SERIES = "https://api.twelvedata.com/time_series";
+/** Twelve Data's ceiling on `outputsize` — bars per symbol in one `time_series`. */
+const TWELVEDATA_MAX_OUTPUTSIZE = 5000;
 
-export interface EquitiesFetchOptions extends FetchOptions {
+/**
+ * What a Twelve Data request needs beyond the shared envelope. `creditWindowMs` is
+ * the shortest wait before a RETRY: a refused batch may already have spent its
+ * credits, so asking again inside the same minute would 429 on the credits the
+ * first attempt burned. The orchestrator passes `twelveDataPauseMs`.
+ */
+interface TwelveDataRequestOptions extends FetchOptions {
   /** The Twelve Data API key, read from `TWELVEDATA_API_KEY`. */
   apiKey: string;
+  /** The per-minute credit window a retry waits out; default 0. */
+  creditWindowMs?: number | undefined;
+}
+
+export interface EquitiesFetchOptions extends TwelveDataRequestOptions {
   /**
    * Optional `YYYY-MM-DD` day to select the bar BY DATE WINDOW instead of by
    * `outputsize=1`. Omit it and the request is byte-identical to the live path.
@@ -80,12 +99,96 @@ export async function fetchTwelveDataDailyCloses(
   entries: readonly InstrumentRegistryEntry[],
   options: EquitiesFetchOptions,
 ): Promise<ProviderFetchResult[]> {
+  const now = options.now ?? (() => new Date());
+  // ⚠️ Twelve Data's `end_date` is EXCLUSIVE. `start_date === end_date` returns
+  // the no-data 400 EVEN WHEN THE BAR EXISTS, and that 400 is indistinguishable
+  // from "that day did not trade" — a silent wrongness. The window is therefore
+  // target..target+1, and the +1 comes from the engine's UTC `addDays` rather
+  // than local-time `Date` arithmetic or string surgery.
+  const selector = () =>
+    options.targetDate === undefined
+      ? `&outputsize=1`
+      : `&start_date=${encodeURIComponent(options.targetDate)}` +
+        `&end_date=${encodeURIComponent(addDays(options.targetDate, 1))}`;
+  const outcomes = await fetchTimeSeries(entries, options, selector, (entry, symbolBody) =>
+    observationFromBody(entry, symbolBody, now, options.targetDate),
+  );
+  return outcomes.map((outcome) =>
+    "value" in outcome
+      ? { entry: outcome.entry, observation: outcome.value }
+      : { entry: outcome.entry, error: outcome.error },
+  );
+}
+
+/** Twelve Data's options for a range: the shared envelope plus both inclusive days. */
+export interface EquitiesRangeFetchOptions extends TwelveDataRequestOptions {
+  /** `YYYY-MM-DD` — the first day of the window. */
+  fromDate: string;
+  /** `YYYY-MM-DD` — the last day of the window, inclusive. */
+  toDate: string;
+}
+
+/** One entry's outcome from a range fetch: every bar in the window, or an error. */
+export interface ProviderRangeFetchResult {
+  entry: InstrumentRegistryEntry;
+  observations?: ProviderObservation[];
+  error?: string;
+}
+
+/**
+ * Fetch every daily close (USD) between `fromDate` and `toDate` for every entry in
+ * ONE batched request. A `time_series` costs 1 credit per symbol however many bars it
+ * returns, so a range recovery spends exactly what a one-day recovery does; the
+ * orchestrator chunks and paces the symbols the same way.
+ *
+ * Same failure split as {@link fetchTwelveDataDailyCloses}: a request-level problem
+ * fails every entry, a per-symbol one fails only that entry. Within a symbol every
+ * row must parse — a malformed bar fails the symbol rather than being dropped. A day
+ * with no bar is not an error here; the orchestrator names each owed day that has
+ * none.
+ */
+export async function fetchTwelveDataDailyCloseRange(
+  entries: readonly InstrumentRegistryEntry[],
+  options: EquitiesRangeFetchOptions,
+): Promise<ProviderRangeFetchResult[]> {
+  const now = options.now ?? (() => new Date());
+  // `end_date` is exclusive (see above), hence `toDate + 1`. `outputsize` is set to
+  // its ceiling so the 30-bar default can never truncate a long window.
+  const selector = () =>
+    `&start_date=${encodeURIComponent(options.fromDate)}` +
+    `&end_date=${encodeURIComponent(addDays(options.toDate, 1))}` +
+    `&outputsize=${TWELVEDATA_MAX_OUTPUTSIZE}`;
+  const outcomes = await fetchTimeSeries(entries, options, selector, (entry, symbolBody) =>
+    observationsFromBody(entry, symbolBody, now),
+  );
+  return outcomes.map((outcome) =>
+    "value" in outcome
+      ? { entry: outcome.entry, observations: outcome.value }
+      : { entry: outcome.entry, error: outcome.error },
+  );
+}
+
+/** One entry's parsed slice of a batched response, or its attributable error. */
+type TimeSeriesOutcome<T> =
+  | { entry: InstrumentRegistryEntry; value: T }
+  | { entry: InstrumentRegistryEntry; error: string };
+
+/**
+ * The ONE batched `time_series` request both fetches share: build the URL from the
+ * caller's date `selector`, make the bounded call, split the body per symbol and hand
+ * each slice to `parse`. Never throws for a data problem — it maps it to an outcome.
+ */
+async function fetchTimeSeries<T>(
+  entries: readonly InstrumentRegistryEntry[],
+  options: TwelveDataRequestOptions,
+  selector: () => string,
+  parse: (entry: InstrumentRegistryEntry, symbolBody: unknown) => T,
+): Promise<TimeSeriesOutcome<T>[]> {
   if (entries.length === 0) {
     return [];
   }
-  const now = options.now ?? (() => new Date());
   // A request-level failure is attributed to EVERY symbol (each still names itself).
-  const failAll = (reason: string): ProviderFetchResult[] =>
+  const failAll = (reason: string): TimeSeriesOutcome<T>[] =>
     entries.map((entry) => ({ entry, error: `Twelve Data ${entry.symbol} -> ${reason}` }));
 
   if (!options.apiKey) {
@@ -100,25 +203,19 @@ export async function fetchTwelveDataDailyCloses(
   let url: string;
   try {
     const symbols = entries.map((entry) => encodeURIComponent(entry.symbol)).join(",");
-    // ⚠️ Twelve Data's `end_date` is EXCLUSIVE. `start_date === end_date` returns
-    // the no-data 400 EVEN WHEN THE BAR EXISTS, and that 400 is indistinguishable
-    // from "that day did not trade" — a silent wrongness. The window is therefore
-    // target..target+1, and the +1 comes from the engine's UTC `addDays` rather
-    // than local-time `Date` arithmetic or string surgery.
-    const selector =
-      options.targetDate === undefined
-        ? `&outputsize=1`
-        : `&start_date=${encodeURIComponent(options.targetDate)}` +
-          `&end_date=${encodeURIComponent(addDays(options.targetDate, 1))}`;
     url =
       `${TWELVEDATA_TIME_SERIES}?symbol=${symbols}` +
-      `&interval=1day${selector}&apikey=${encodeURIComponent(options.apiKey)}`;
+      `&interval=1day${selector()}&apikey=${encodeURIComponent(options.apiKey)}`;
   } catch (error) {
     return failAll(error instanceof Error ? error.message : String(error));
   }
   const r = await fetchJson(url, {
     timeoutMs: options.timeoutMs,
     fetchImpl: options.fetchImpl,
+    retry: options.retry,
+    label: `Twelve Data ${entries.map((entry) => entry.symbol).join(",")}`,
+    retryFloorMs: options.creditWindowMs,
+    retryableBody: transientRefusal,
   });
   if (!r.ok) {
     return failAll(r.reason);
@@ -138,16 +235,29 @@ export async function fetchTwelveDataDailyCloses(
   return entries.map((entry) => {
     const symbolBody = entries.length === 1 ? body : body[entry.symbol];
     try {
-      return {
-        entry,
-        observation: observationFromBody(entry, symbolBody, now, options.targetDate),
-      };
+      return { entry, value: parse(entry, symbolBody) };
     } catch (error) {
       return { entry, error: error instanceof Error ? error.message : String(error) };
     }
   });
 }
 
+/**
+ * Twelve Data serves most refusals as HTTP 200 with a top-level
+ * `{ status: "error", code, message }` body. A `code` of 429 (the credit window ran
+ * out) or 5xx is transient and worth a retry; anything else — a bad key, an unknown
+ * symbol — is returned and refused as before.
+ */
+function transientRefusal(body: unknown): string | undefined {
+  if (!isRecord(body) || body.status !== "error" || typeof body.code !== "number") {
+    return undefined;
+  }
+  if (body.code !== 429 && body.code < 500) {
+    return undefined;
+  }
+  return typeof body.message === "string" ? body.message : `error code ${body.code}`;
+}
+
 /**
  * Parse one symbol's slice of a Twelve Data response into a {@link ProviderObservation},
  * or throw a symbol-attributable error — which {@link fetchTwelveDataDailyCloses}
@@ -177,18 +287,7 @@ function observationFromBody(
   now: () => Date,
   targetDate: string | undefined,
 ): ProviderObservation {
-  if (!isRecord(symbolBody)) {
-    throw new Error(`Twelve Data ${entry.symbol} -> unexpected payload shape`);
-  }
-  // Twelve Data signals a rejected symbol with a 200 + { status: "error", message }.
-  if (symbolBody.status === "error") {
-    const message = typeof symbolBody.message === "string" ? symbolBody.message : "unknown error";
-    throw new Error(`Twelve Data ${entry.symbol} -> ${message}`);
-  }
-  const values = symbolBody.values;
-  if (!Array.isArray(values)) {
-    throw new Error(`Twelve Data ${entry.symbol} -> unexpected payload shape`);
-  }
+  const values = valuesFromBody(entry, symbolBody);
   const row =
     targetDate === undefined
       ? values[0]
@@ -201,6 +300,49 @@ function observationFromBody(
     }
     throw new Error(`Twelve Data ${entry.symbol} -> unexpected payload shape`);
   }
+  return observationFromRow(entry, row, now);
+}
+
+/**
+ * Parse every row of one symbol's slice — the range path. Rows come back newest
+ * first; the orchestrator selects by `observationDate`, so the order is not relied on.
+ */
+function observationsFromBody(
+  entry: InstrumentRegistryEntry,
+  symbolBody: unknown,
+  now: () => Date,
+): ProviderObservation[] {
+  return valuesFromBody(entry, symbolBody).map((row: unknown) => {
+    if (!isRecord(row)) {
+      throw new Error(`Twelve Data ${entry.symbol} -> unexpected payload shape`);
+    }
+    return observationFromRow(entry, row, now);
+  });
+}
+
+/** A symbol slice's `values` array, or the symbol-attributable reason there is none. */
+function valuesFromBody(entry: InstrumentRegistryEntry, symbolBody: unknown): unknown[] {
+  if (!isRecord(symbolBody)) {
+    throw new Error(`Twelve Data ${entry.symbol} -> unexpected payload shape`);
+  }
+  // Twelve Data signals a rejected symbol with a 200 + { status: "error", message }.
+  if (symbolBody.status === "error") {
+    const message = typeof symbolBody.message === "string" ? symbolBody.message : "unknown error";
+    throw new Error(`Twelve Data ${entry.symbol} -> ${message}`);
+  }
+  const values = symbolBody.values;
+  if (!Array.isArray(values)) {
+    throw new Error(`Twelve Data ${entry.symbol} -> unexpected payload shape`);
+  }
+  return values;
+}
+
+/** One row as an observation: a positive close and the bar's own date, or a throw. */
+function observationFromRow(
+  entry: InstrumentRegistryEntry,
+  row: Record<string, unknown>,
+  now: () => Date,
+): ProviderObservation {
   const close = Number(row.close);
   if (!Number.isFinite(close) || close <= 0) {
     throw new Error(`Twelve Data ${entry.symbol} -> non-positive close ${String(row.close)}`);
@@ -1,10 +1,22 @@
+import { dirname, join } from "node:path";
 import { mountApp } from "./mount-app.js";
+import { PRICE_STORE_DIR_SEGMENT, type FundReviewData } from "@numisma/engine";
 import { resolveEventStorePaths } from "@numisma/event-store";
-import { loadOrders, resolveOrdersPath } from "@numisma/preferences";
+import {
+  loadJournal,
+  loadOrders,
+  loadPerspectives,
+  resolveJournalPath,
+  resolveOrdersPath,
+  resolvePerspectivesPath,
+} from "@numisma/preferences";
 import { loadAvailableCapital } from "./available-capital.js";
+import { loadIntradayMovement, readPriceStoreText } from "./intraday.js";
+import { loadNavHistory } from "./nav-history.js";
 import { prepareStartup, type StartupPlan } from "./startup.js";
 import { loadLivenessLines } from "./liveness-lines.js";
 import { loadFoldLines } from "./fold-lines.js";
+import { parseNavHistoryArg, parsePerspectiveArg } from "./spine-args.js";
 
 // The openTUI entry point. The surface renders the FOLD over the event log, not
 // a hand-edited snapshot: on startup it ingests any dropped inbox, then folds
@@ -16,6 +28,8 @@ import { loadFoldLines } from "./fold-lines.js";
 // the renderer wiring.
 const paths = resolveEventStorePaths();
 const plan = await runStartup();
+// Parsed before the alternate screen opens, so a bare `--perspective` fails on stderr.
+const perspective = parsePerspectiveOrExit();
 
 const core = await loadOpenTuiCore();
 const renderer = await core.createCliRenderer({
@@ -41,6 +55,23 @@ await mountApp(renderer, {
   // fold rendered. Never merged: the two files stay two files.
   loadAvailableCapital: (data) =>
     loadAvailableCapital(data, { ordersPath, loadOrders: (path) => loadOrders(path) }, plan.asOf),
+  // Daily NAV from genesis to the date the fold rendered, re-read on every `r` — only
+  // behind `--nav-history`, since each read folds the whole log once per calendar day.
+  ...(parseNavHistoryArg(process.argv)
+    ? { loadNavHistory: (data: FundReviewData) => loadNavHistory(paths, data.review.asOf) }
+    : {}),
+  // Saved lenses, opened on `--perspective <name>` when given and cycled with `p`.
+  loadPerspectives: () => loadPerspectives(resolvePerspectivesPath()),
+  perspective,
+  // The decision journal, shown beside each record in the detail panel.
+  loadJournal: () => loadJournal(resolveJournalPath()),
+  // The price store beside the log (`<dataDir>/prices`), read for the held instruments'
+  // latest intraday reading against their last close.
+  loadIntraday: (data) =>
+    loadIntradayMovement(data, {
+      pricesDir: join(dirname(paths.log), PRICE_STORE_DIR_SEGMENT),
+      readStore: readPriceStoreText,
+    }),
 });
 
 renderer.start();
@@ -66,6 +97,14 @@ async function runStartup(): Promise<StartupPlan> {
   }
 }
 
+function parsePerspectiveOrExit(): string | undefined {
+  try {
+    return parsePerspectiveArg(process.argv);
+  } catch (error) {
+    failStartup(error);
+  }
+}
+
 function failStartup(error: unknown): never {
   const detail = error instanceof Error ? error.message : String(error);
   process.stderr.write(`${detail}\n`);
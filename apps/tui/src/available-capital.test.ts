@@ -134,6 +134,7 @@ describe("the TUI renders the three numbers AND the rungs beneath them", () => {
     const withEmpty = buildDashboardLines(report, undefined, undefined, {
       status: "composed",
       report: { reserves: [], unmatched: [] },
+      units: { positions: [], unmatched: [] },
     }).map((line) => line.content);
     expect(withEmpty).toEqual(withoutSection);
   });
@@ -154,6 +155,49 @@ describe("the TUI renders the three numbers AND the rungs beneath them", () => {
     expect(rungLines).toHaveLength(LADDER.length);
   });
 
+  it("renders the units a resting sell speaks for, from the same read as the cash", async () => {
+    const base = fund();
+    const held: FundReviewData = {
+      ...base,
+      positions: [
+        {
+          id: "test-core",
+          portfolioId: "core",
+          tempo: "Capital",
+          executionMode: "live",
+          accountId: "venue-usd",
+          instrumentId: "test-usd",
+          direction: "long",
+          currency: "USD",
+          markPrice: 120,
+          lots: [{ quantity: 5, cost: 100, tier: "c1" }],
+        },
+      ],
+    };
+    const sell: OrderRecord = {
+      id: "sell-0",
+      observedAt: "2026-01-04T10:00:00",
+      kind: "orderPlaced",
+      currency: "USD",
+      symbol: "TEST/USD",
+      side: "sell",
+      price: 150,
+      quantity: 2,
+      fundingReserveId: RESERVE,
+      positionId: "test-core",
+      tier: "c1",
+    };
+    const section = await loadAvailableCapital(held, io(loaded([...LADDER, sell])));
+    if (section.status !== "composed") throw new Error("unreachable");
+    expect(section.units.positions.map((units) => units.available)).toEqual([3]);
+    const text = buildDashboardLines(report, undefined, undefined, section)
+      .map((line) => line.content)
+      .join("\n");
+    expect(text).toContain("Spoken For");
+    // A sell claims units, never cash: the reserve's committed figure is the buys' alone.
+    expect(section.report.reserves[0]?.committed).toBe(500);
+  });
+
   it("renders a REFUSAL as a warning, never as silence", async () => {
     const section = await loadAvailableCapital(
       fund(),
@@ -2,8 +2,8 @@
  * The IO SHELL that joins `orders.jsonl` to the fold at read time, so a surface can
  * render committed and available. The ADR-001 split again: every decision about what
  * the numbers MEAN is pure and lives in `@numisma/engine` (`pickRestingOrdersAsOf`,
- * `composeAvailableCapital`); this file only reads the sidecar and decides what to do
- * when it cannot.
+ * `composeAvailableCapital`, `composeAvailableUnits`); this file only reads the sidecar
+ * and decides what to do when it cannot.
  *
  * THE REFUSAL IS THE INTERESTING PART. `loadOrders` distinguishes ABSENT from
  * UNREADABLE, and that distinction is the whole reason this is not three lines. "There
@@ -20,8 +20,10 @@
  */
 import {
   composeAvailableCapital,
+  composeAvailableUnits,
   pickRestingOrdersAsOf,
   type AvailableCapitalReport,
+  type AvailableUnitsReport,
   type FundReviewData,
 } from "@numisma/engine";
 import type { OrdersLoad } from "@numisma/preferences";
@@ -39,7 +41,16 @@ export interface AvailableCapitalIo {
  * normally over an empty book, which is honest, while a failure refuses.
  */
 export type AvailableCapitalSection =
-  | { status: "composed"; report: AvailableCapitalReport }
+  | {
+      status: "composed";
+      report: AvailableCapitalReport;
+      /**
+       * The units resting sells have spoken for, per position and tier — composed from the
+       * SAME resting book as `report`, so the cash and the units a surface shows are one
+       * read of the sidecar and can never describe two different books.
+       */
+      units: AvailableUnitsReport;
+    }
   | { status: "refused"; message: string };
 
 /**
@@ -81,8 +92,10 @@ export async function loadAvailableCapital(
     return { status: "refused", message: renderSkipMessage(io.ordersPath, skips) };
   }
 
+  const resting = pickRestingOrdersAsOf(records, asOf);
   return {
     status: "composed",
-    report: composeAvailableCapital(data, pickRestingOrdersAsOf(records, asOf)),
+    report: composeAvailableCapital(data, resting),
+    units: composeAvailableUnits(data, resting),
   };
 }
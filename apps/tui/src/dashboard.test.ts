@@ -4,12 +4,16 @@ import {
   buildDashboardDetail,
   parseFundReview,
   type FundReviewData,
+  type LoadedJournalEntry,
+  type LoadedPerspectives,
 } from "@numisma/engine";
 import {
   buildDashboardLines,
   renderDashboardText,
   renderLoadFailureText,
 } from "./dashboard.js";
+import { composeJournalSection } from "./journal.js";
+import { composePerspectiveSection } from "./perspectives.js";
 import { describe, expect, it } from "vitest";
 
 describe("@numisma/tui dashboard rendering", () => {
@@ -119,7 +123,7 @@ describe("@numisma/tui dashboard rendering", () => {
     expect(text).toContain("Data file: /tmp/fund-review.json");
   });
 
-  it("keeps deferred short exclusions visible without rendering warning rows for them", () => {
+  it("folds a short into the summary with a visible exposure line and no warning rows", () => {
     const data = makeFixture();
     data.positions.push({
       id: "btc-short",
@@ -138,10 +142,139 @@ describe("@numisma/tui dashboard rendering", () => {
     const lines = buildDashboardLines(report, undefined);
     const warningContents = lines.filter((line) => line.warning).map((line) => line.content);
 
-    expect(lines.some((line) => line.content.includes("1 deferred short record(s) excluded"))).toBe(true);
+    // 1 short at 100 marked at 50: exposure −$50, and the short's NAV line is its
+    // $100 collateral plus the $50 it has made.
+    expect(report.exposure.shortUsd).toBe(-50);
+    expect(lines.some((line) => line.content.startsWith("Exposure:") && line.content.includes("short -$50.00"))).toBe(true);
     expect(warningContents.some((content) => content.toLowerCase().includes("short"))).toBe(false);
   });
 
+  it("renders a composed NAV history beneath the price journeys, and nothing without one", () => {
+    const data = makeFixture();
+    const navHistory = {
+      points: [
+        { asOf: "2026-06-04", fundValueUsd: 1000, byTempo: [{ tempo: "Reserve", usdValue: 1000 }], drawdownPct: 0 },
+        { asOf: "2026-06-05", fundValueUsd: 900, byTempo: [{ tempo: "Reserve", usdValue: 900 }], drawdownPct: -10 },
+      ],
+      peak: { asOf: "2026-06-04", fundValueUsd: 1000 },
+      maxDrawdown: {
+        peakDate: "2026-06-04",
+        peakValueUsd: 1000,
+        troughDate: "2026-06-05",
+        troughValueUsd: 900,
+        maxDrawdownPct: -10,
+      },
+    };
+    const contents = buildDashboardLines(buildCompositionReport(data, { navHistory }), undefined).map(
+      (line) => line.content,
+    );
+
+    const journey = contents.indexOf("Weekly Price Journey");
+    const title = contents.indexOf("NAV History 2026-06-04 → 2026-06-05");
+    expect(title).toBeGreaterThan(journey);
+    expect(contents).toContain("Recovered: not yet");
+    expect(
+      buildDashboardLines(buildCompositionReport(data), undefined).some((line) =>
+        line.content.startsWith("NAV History"),
+      ),
+    ).toBe(false);
+  });
+
+  it("renders a saved Perspective above the sections, and refuses an unknown one", () => {
+    const data = makeFixture();
+    const report = buildCompositionReport(data);
+    const loaded: LoadedPerspectives = {
+      load: { status: "loaded", sourcePath: "/tmp/perspectives.jsonl" },
+      perspectives: [{ name: "tempos", filter: {}, groupBy: "tempo", line: 1 }],
+      skipped: [{ line: 2, reason: "group-by", detail: "groupBy is not one of the supported groupings" }],
+    };
+    const render = (active: string | undefined) =>
+      buildDashboardLines(
+        report,
+        undefined,
+        undefined,
+        undefined,
+        composePerspectiveSection(data, report, loaded, active),
+      );
+
+    const applied = render("tempos");
+    const contents = applied.map((line) => line.content);
+    const heading = contents.indexOf("Perspective: tempos");
+    expect(heading).toBeGreaterThan(-1);
+    expect(heading).toBeLessThan(contents.findIndex((line) => line === "Portfolio Composition"));
+    expect(contents).toContain("Perspectives: tempos  [p next]");
+    expect(applied.find((line) => line.content.includes("line 2 skipped"))?.warning).toBe(true);
+
+    const refused = render("missing");
+    expect(refused.map((line) => line.content)).toContain(
+      'Perspective unavailable — No saved Perspective named "missing" (saved: tempos).',
+    );
+    expect(refused.some((line) => line.content.startsWith("Perspective:"))).toBe(false);
+
+    const none = { ...loaded, perspectives: [], skipped: [] };
+    expect(composePerspectiveSection(data, report, none, undefined)).toBeUndefined();
+  });
+
+  it("renders each record's journal in the detail panel and the review's under the focus", () => {
+    const data = makeFixture();
+    const asOf = data.review.asOf;
+    const report = buildCompositionReport(data);
+    const detail = buildDashboardDetail(data, report, "account:bitso-mxn");
+    const entry = (
+      line: number,
+      subject: LoadedJournalEntry["subject"],
+      subjectId: string,
+      writtenAt: string,
+      text: string,
+    ): LoadedJournalEntry => ({ subject, subjectId, writtenAt, text, line });
+    const entries = [
+      entry(1, "position", "cemex-foresight", "2000-01-01", "first"),
+      entry(2, "position", "cemex-foresight", "2000-01-02", "second"),
+      entry(3, "position", "cemex-foresight", "2000-01-03", "third"),
+      entry(4, "position", "cemex-foresight", asOf, "Sized\n  small   on purpose"),
+      entry(5, "position", "cemex-foresight", "9999-12-31", "written after the review"),
+      entry(6, "review", asOf, asOf, "Week closed flat."),
+    ];
+    const render = (journal: Parameters<typeof buildDashboardLines>[5]) =>
+      buildDashboardLines(report, detail, undefined, undefined, undefined, journal).map(
+        (line) => line.content,
+      );
+
+    const contents = render(
+      composeJournalSection(
+        { load: { status: "loaded", sourcePath: "/tmp/journal.jsonl" }, entries, skipped: [] },
+        asOf,
+      ),
+    );
+    const journal = contents.indexOf("    Journal: 1 earlier entry");
+    expect(contents[journal - 1]).toMatch(/^Position   CEMEXCPO \(Cemex\)/);
+    expect(contents.slice(journal, journal + 4)).toEqual([
+      "    Journal: 1 earlier entry",
+      "    Journal 2000-01-02  second",
+      "    Journal 2000-01-03  third",
+      `    Journal ${asOf}  Sized small on purpose`,
+    ]);
+    expect(contents.some((line) => line.includes("written after the review"))).toBe(false);
+    expect(contents.slice(contents.indexOf("Review Journal"), contents.indexOf("Review Journal") + 3)).toEqual([
+      "Review Journal",
+      "--------------",
+      `${asOf}  Week closed flat.`,
+    ]);
+
+    const refused = render(
+      composeJournalSection(
+        {
+          load: { status: "load-failed", sourcePath: "/tmp/journal.jsonl", message: "EACCES" },
+          entries: [],
+          skipped: [],
+        },
+        asOf,
+      ),
+    );
+    expect(refused).toContain("Journal unavailable — journal.jsonl could not be read: EACCES");
+    expect(refused.some((line) => line.includes("Journal 2"))).toBe(false);
+  });
+
   it("renders empty section bodies and absent focuses for a fund with no live records", () => {
     const report = buildCompositionReport(emptyFund());
     const lines = buildDashboardLines(report, undefined);
@@ -4,6 +4,7 @@ import {
   type DashboardDetail,
   type DashboardDetailRow,
   type DashboardRowKind,
+  type LoadedJournalEntry,
   type LoadFailedOutcome,
   type LoadOutcome,
   type TierContribution,
@@ -12,13 +13,23 @@ import {
   formatPercent,
   formatPrice,
   formatAvailableCapital,
+  formatAvailableUnits,
+  formatExposure,
+  formatIntradayMovement,
+  formatManualFx,
+  formatNavHistory,
+  formatPerspective,
   formatReserveReconciliation,
   formatSignedPercent,
   formatUsd,
+  journalEntriesFor,
   pad,
   padLeft,
 } from "@numisma/engine";
 import type { AvailableCapitalSection } from "./available-capital.js";
+import type { IntradaySection } from "./intraday.js";
+import type { JournalSection } from "./journal.js";
+import type { PerspectiveSection } from "./perspectives.js";
 
 export type DashboardAction =
   | {
@@ -55,6 +66,22 @@ export function buildDashboardLines(
    * every existing caller and every existing snapshot is untouched.
    */
   availableCapital?: AvailableCapitalSection,
+  /**
+   * The saved-lens block, composed by the host from `perspectives.jsonl`. OPTIONAL on the
+   * same byte-for-byte terms as `availableCapital`.
+   */
+  perspective?: PerspectiveSection,
+  /**
+   * The decision journal as of the rendered review, composed by the host from
+   * `journal.jsonl`. OPTIONAL on the same byte-for-byte terms as `availableCapital`.
+   */
+  journal?: JournalSection,
+  /**
+   * Each held instrument's latest intraday reading against its last close, composed by
+   * the host from the price store. OPTIONAL on the same byte-for-byte terms as
+   * `availableCapital`.
+   */
+  intraday?: IntradaySection,
 ): DashboardLine[] {
   const lines: DashboardLine[] = [
     { content: "Numisma Fund Composition Prototype", selectable: false },
@@ -107,7 +134,7 @@ export function buildDashboardLines(
       selectable: false,
     },
     {
-      content: `Manual FX: 1 USD = ${report.totals.usdMxn.toFixed(4)} MXN`,
+      content: formatManualFx(report.totals),
       selectable: false,
     },
     {
@@ -118,16 +145,67 @@ export function buildDashboardLines(
       content: `Record safety: ${report.excluded.invalid} invalid record(s) excluded`,
       selectable: false,
     },
-    ...(report.excluded.shortDeferred > 0
+    ...(report.exposure.shortUsd !== 0
       ? [
           {
-            content: `Short direction: ${report.excluded.shortDeferred} deferred short record(s) excluded`,
+            content: formatExposure(report.exposure),
             selectable: false,
           } satisfies DashboardLine,
         ]
       : []),
   ];
 
+  // The review's own journal entries sit under the focus they were written about. The
+  // per-record entries render in the detail panel, beside the record they discuss.
+  if (journal?.status === "refused") {
+    lines.push(
+      { content: "", selectable: false },
+      { content: `Journal unavailable — ${journal.message}`, selectable: false, warning: true },
+    );
+  } else if (journal) {
+    const reviewEntries = journalEntriesFor(journal.entries, "review", journal.asOf, journal.asOf);
+    if (reviewEntries.length > 0) {
+      lines.push(
+        { content: "", selectable: false },
+        { content: "Review Journal", selectable: false },
+        { content: "--------------", selectable: false },
+        ...reviewEntries.map((entry) => ({
+          content: `${entry.writtenAt}  ${journalText(entry.text)}`,
+          selectable: false,
+        })),
+      );
+    }
+    for (const issue of journal.issues) {
+      lines.push({ content: issue, selectable: false, warning: true });
+    }
+  }
+
+  // The lens sits above the fixed sections it re-cuts: it is what the operator chose to
+  // look at, and the sections below are the whole Fund it was cut from. A refusal is a
+  // warning, never an unfiltered table under the lens's name.
+  if (perspective?.status === "refused") {
+    lines.push(
+      { content: "", selectable: false },
+      { content: `Perspective unavailable — ${perspective.message}`, selectable: false, warning: true },
+    );
+  } else if (perspective) {
+    if (perspective.view) {
+      lines.push({ content: "", selectable: false });
+      for (const line of formatPerspective(perspective.view).split("\n")) {
+        lines.push({ content: line, selectable: false });
+      }
+    }
+    if (perspective.names.length > 0) {
+      lines.push(
+        { content: "", selectable: false },
+        { content: `Perspectives: ${perspective.names.join(" | ")}  [p next]`, selectable: false },
+      );
+    }
+  }
+  for (const issue of perspective?.issues ?? []) {
+    lines.push({ content: issue, selectable: false, warning: true });
+  }
+
   for (const section of report.dashboard.sections) {
     const showsPnl = section.id === "instruments" || section.id === "tiers";
     lines.push(
@@ -171,6 +249,7 @@ export function buildDashboardLines(
             detail,
             report.totals.fundValueUsd,
             activeRecordId,
+            journal?.status === "loaded" ? journal : undefined,
           ),
         );
       }
@@ -201,11 +280,16 @@ export function buildDashboardLines(
       },
     );
   } else if (availableCapital) {
-    const block = formatAvailableCapital(availableCapital.report);
-    if (block) {
-      lines.push({ content: "", selectable: false });
-      for (const line of block.split("\n")) {
-        lines.push({ content: line, selectable: false });
+    // The units resting sells have spoken for follow the cash, from the same read.
+    for (const block of [
+      formatAvailableCapital(availableCapital.report),
+      formatAvailableUnits(availableCapital.units),
+    ]) {
+      if (block) {
+        lines.push({ content: "", selectable: false });
+        for (const line of block.split("\n")) {
+          lines.push({ content: line, selectable: false });
+        }
       }
     }
   }
@@ -229,6 +313,38 @@ export function buildDashboardLines(
     }
   }
 
+  // Intraday Movement follows the closes it is measured from. Movement only — never a
+  // mark — and a store that could not be read says so rather than showing no movement.
+  if (intraday?.status === "refused") {
+    lines.push(
+      { content: "", selectable: false },
+      {
+        content: `Intraday Movement unavailable — ${intraday.message}`,
+        selectable: false,
+        warning: true,
+      },
+    );
+  } else if (intraday) {
+    const block = formatIntradayMovement(intraday.movements);
+    if (block) {
+      lines.push({ content: "", selectable: false });
+      for (const line of block.split("\n")) {
+        lines.push({ content: line, selectable: false });
+      }
+    }
+  }
+
+  // NAV History, through the shared engine formatter like the reconciliation above, so
+  // `pnpm report --nav-history` and the TUI render the same series. Absent from the
+  // report unless the host composed it, and then nothing is rendered.
+  const navHistory = formatNavHistory(report.navHistory);
+  if (navHistory) {
+    lines.push({ content: "", selectable: false });
+    for (const line of navHistory.split("\n")) {
+      lines.push({ content: line, selectable: false });
+    }
+  }
+
   if (report.warnings.length > 0) {
     lines.push(
       { content: "", selectable: false },
@@ -279,6 +395,7 @@ function buildDetailLines(
   detail: DashboardDetail,
   fundValueUsd: number,
   activeRecordId: string | undefined,
+  journal: Extract<JournalSection, { status: "loaded" }> | undefined,
 ): DashboardLine[] {
   const usesTypedRows = detail.kind === "tempo" || detail.rows.some((row) => row.kind === "reserve");
   const header = usesTypedRows
@@ -309,11 +426,15 @@ function buildDetailLines(
         }
       : { content: base, selectable: false };
 
+    const journalLines = journal
+      ? buildJournalLines(journalEntriesFor(journal.entries, row.kind, row.recordId, journal.asOf))
+      : [];
+
     if (!expanded) {
-      return [recordLine];
+      return [recordLine, ...journalLines];
     }
 
-    return [recordLine, ...buildTierDetailLines(row, tiers, fundValueUsd)];
+    return [recordLine, ...buildTierDetailLines(row, tiers, fundValueUsd), ...journalLines];
   });
 
   return [
@@ -340,6 +461,38 @@ function buildDetailLines(
   ];
 }
 
+/** How many of a record's entries the detail panel shows, newest kept. */
+const JOURNAL_DETAIL_ENTRIES = 3;
+
+/** The widest an entry renders in the detail panel before it is cut with an ellipsis. */
+const JOURNAL_TEXT_WIDTH = 96;
+
+/**
+ * A record's journal beneath its detail row: the most recent entries, oldest of them
+ * first, and a count of the earlier ones so a long journal is never mistaken for a
+ * short one.
+ */
+function buildJournalLines(entries: LoadedJournalEntry[]): DashboardLine[] {
+  const indent = "    ";
+  const shown = entries.slice(-JOURNAL_DETAIL_ENTRIES);
+  const earlier = entries.length - shown.length;
+  return [
+    ...(earlier > 0
+      ? [{ content: `${indent}Journal: ${earlier} earlier entr${earlier === 1 ? "y" : "ies"}`, selectable: false }]
+      : []),
+    ...shown.map((entry) => ({
+      content: `${indent}Journal ${entry.writtenAt}  ${journalText(entry.text)}`,
+      selectable: false,
+    })),
+  ];
+}
+
+/** An entry on one terminal line: whitespace collapsed, cut at {@link JOURNAL_TEXT_WIDTH}. */
+function journalText(text: string): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > JOURNAL_TEXT_WIDTH ? `${line.slice(0, JOURNAL_TEXT_WIDTH - 1)}…` : line;
+}
+
 function formatTierGlance(tiers: TierContribution[]): string {
   return tiers
     .map((tier) => `${tier.tier} ${formatUsdCompact(tier.usdValue)}`)
@@ -431,9 +584,6 @@ function formatDataSafety(report: CompositionReport): string {
   const exclusions = [
     `${report.excluded.nonLive} non-live excluded`,
     `${report.excluded.invalid} invalid excluded`,
-    ...(report.excluded.shortDeferred > 0
-      ? [`${report.excluded.shortDeferred} short deferred`]
-      : []),
   ];
 
   return report.warnings.length > 0
@@ -111,9 +111,12 @@ describe("spine:reset destructive-default guard (R-M5)", () => {
 // Membership test (ADR-006, amended): "is this durable, non-re-derivable truth?"
 // ---------------------------------------------------------------------------
 const EXPECTED_DURABLE_FILES = [
+  "closes.jsonl",
   "events.jsonl",
   "genesis.json",
   "head-digest.json",
+  "instruments.jsonl",
+  "journal.jsonl",
   "orders.jsonl",
   "plans.jsonl",
   "preferences.jsonl",
@@ -169,10 +169,10 @@ describe("loadGapLines", () => {
     // `[...lost, ...venueDark]`: with the lines concatenated, EVERY withheld line is a
     // lost day before a single venue-dark line is dropped, and once the venue-dark
     // lines alone reach the cap no lost day can appear on this channel at all. The TUI
-    // passes no `since`, so its window grows by a day every day while D7 accepts ~9-10
-    // weekday-holiday false positives a year — the venue-dark side crosses the cap on
-    // its own within about a year, and the only automatic surface that names permanent
-    // data loss would then never name one again.
+    // passes no `since`, so its window grows by a day every day while D7 accepts a
+    // false positive on every closure the holiday table does not list — the venue-dark
+    // side crosses the cap on its own given time, and the only automatic surface that
+    // names permanent data loss would then never name one again.
     //
     // A lost day is PERMANENT and unfixable; a venue-dark day is transient and recurs.
     // So capacity is reserved per kind: both must always be able to reach the channel.
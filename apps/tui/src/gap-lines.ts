@@ -64,8 +64,8 @@ export const MAX_GAP_LINES = 7;
  * alone reach {@link MAX_GAP_LINES} it can never print a lost day again. That is not
  * a severity trade-off — the two findings are not the same kind of thing: A LOST DAY
  * IS PERMANENT and can never be repaired, while a venue-dark day is transient, recurs,
- * and by D7 fires on ~9-10 market holidays a year. The starving line is the one whose
- * own text says *the day is not lost*.
+ * and by D7 fires on any closure the holiday table does not list. The starving line
+ * is the one whose own text says *the day is not lost*.
  *
  * It is not a rare shape either: this app passes no `since`, so the floor is
  * `defaultGapReportSince` — the era start until 2027-08-08 and a rolling 400-day floor
@@ -0,0 +1,127 @@
+/**
+ * THE FILLS-IMPORT SHELL'S OWN WIRING — the usage branch, the export read, the data dir it
+ * resolves, the exit code, and the no-terminal stop.
+ *
+ * WHY THIS TEST SPAWNS A SUBPROCESS. Importing `import-fills-cli.ts` RUNS THE IMPORT, and
+ * `import-fills.test.ts` injects every binding this shell makes, so neither can see them.
+ * Same `spawnSync(tsx, …)` shape as `record-fill-cli.test.ts`, against a throwaway
+ * `mkdtemp` data dir through `NUMISMA_DATA_DIR`, with stdin a closed pipe.
+ *
+ * EVERY FIXTURE IS SYNTHETIC — invented pair, round decade prices, round balances.
+ */
+import { spawnSync } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, describe, expect, it } from "vitest";
+import { BITGET_FILLS_HEADER, BITGET_OPEN_ORDERS_HEADER } from "@numisma/engine";
+
+const HERE = dirname(fileURLToPath(import.meta.url));
+// HERE = apps/tui/src → the repo root is three levels up.
+const REPO_ROOT = resolve(HERE, "../../..");
+
+const GENESIS_SEED = {
+  fund: { id: "fund-synthetic", name: "Synthetic", baseCurrency: "USD" },
+  review: { asOf: "2026-01-01", usdMxn: 20 },
+  portfolios: [{ id: "portfolio-synthetic", name: "Synthetic" }],
+  accounts: [
+    { id: "account-synthetic", name: "Synthetic Venue", platform: "SYNTH", currency: "USD" },
+  ],
+  instruments: [
+    { id: "instrument-synthetic", name: "Synthetic Asset", symbol: "TEST", currency: "USD" },
+  ],
+  reserves: [
+    {
+      id: "reserve-synthetic",
+      portfolioId: "portfolio-synthetic",
+      tempo: "Capital",
+      executionMode: "live",
+      accountId: "account-synthetic",
+      currency: "USD",
+      amount: 10000,
+      lots: [{ quantity: 10000, tier: "c1" }],
+    },
+  ],
+  positions: [],
+};
+
+/** The one resting rung a trade below fills, under the id the open-orders import mints. */
+const RESTING_RUNG = {
+  id: "bitget:TESTUSDT:buy:400:2026-01-02T09:00:00",
+  observedAt: "2026-01-02T09:00:00",
+  kind: "orderPlaced",
+  currency: "USD",
+  symbol: "TESTUSDT",
+  side: "buy",
+  price: 400,
+  quantity: 10,
+  fundingReserveId: "reserve-synthetic",
+};
+
+const TRADE =
+  "2026-01-05 12:00:00,2026-01-02 09:00:00,TEST/USDT,Buy,400,399,10,3990,1,USDT";
+
+describe("import-fills-cli — the shell", () => {
+  const createdDirs: string[] = [];
+
+  afterEach(async () => {
+    await Promise.all(createdDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+    createdDirs.length = 0;
+  });
+
+  async function syntheticDataDir(exportText: string): Promise<{ dir: string; csv: string }> {
+    const dir = await mkdtemp(resolve(tmpdir(), "numisma-fills-cli-"));
+    createdDirs.push(dir);
+    await writeFile(join(dir, "genesis.json"), JSON.stringify(GENESIS_SEED), "utf8");
+    await writeFile(join(dir, "orders.jsonl"), `${JSON.stringify(RESTING_RUNG)}\n`, "utf8");
+    await writeFile(join(dir, "events.jsonl"), "", "utf8");
+    const csv = join(dir, "fills.csv");
+    await writeFile(csv, exportText, "utf8");
+    return { dir, csv };
+  }
+
+  function runImport(
+    dataDir: string,
+    args: string[],
+  ): { status: number | null; stdout: string; stderr: string } {
+    const script = join(REPO_ROOT, "apps", "tui", "src", "import-fills-cli.ts");
+    const tsx = join(REPO_ROOT, "node_modules", ".bin", "tsx");
+    const env = { ...process.env, NUMISMA_DATA_DIR: dataDir };
+    const result = spawnSync(tsx, [script, ...args], { encoding: "utf8", env, input: "" });
+    return { status: result.status, stdout: result.stdout ?? "", stderr: result.stderr ?? "" };
+  }
+
+  it("prints its usage and exits 1 with no export path", async () => {
+    const { dir } = await syntheticDataDir("");
+    const result = runImport(dir, []);
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain("usage: pnpm orders:fills-import");
+  });
+
+  it("refuses an open-orders export, exit 1, with the sidecar untouched", async () => {
+    const { dir, csv } = await syntheticDataDir(`${BITGET_OPEN_ORDERS_HEADER.join(",")}\n`);
+    const before = await readFile(join(dir, "orders.jsonl"), "utf8");
+
+    const result = runImport(dir, [csv]);
+
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain("is not a fills export");
+    expect(await readFile(join(dir, "orders.jsonl"), "utf8")).toBe(before);
+  });
+
+  it("matches the trade from the data dir, then stops at the missing terminal", async () => {
+    const { dir, csv } = await syntheticDataDir(`${BITGET_FILLS_HEADER.join(",")}\n${TRADE}\n`);
+    const before = await readFile(join(dir, "orders.jsonl"), "utf8");
+
+    const result = runImport(dir, [csv]);
+
+    // The match reached the act: the pre-filled line is the act's own.
+    expect(result.stdout).toContain("From the fills export: 10 of bitget:TESTUSDT:buy:400");
+    expect(result.stderr).toContain("No terminal on stdin");
+    expect(result.stderr).toContain("1 matched fill was not decided");
+    expect(result.status).toBe(1);
+    expect(await readFile(join(dir, "orders.jsonl"), "utf8")).toBe(before);
+    expect(await readFile(join(dir, "events.jsonl"), "utf8")).toBe("");
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Node-runnable entry point for proposing fill acts from a fills export:
+ *
+ *   pnpm orders:fills-import <path/to/fills-export.csv>
+ *
+ * WIRING ONLY — it binds the real filesystem, the real data dir, the real genesis + log
+ * and a real readline prompt to `importBitgetFills`, which reads the export and hands each
+ * matched trade to `recordFill`. The bag is `record-fill-cli.ts`'s, binding for binding,
+ * plus the export reader and the prompt latch: every act this command writes is a fill
+ * act, and a second set of bindings for the same act is a second chance for them to drift.
+ */
+import { readFile } from "node:fs/promises";
+import { createInterface } from "node:readline/promises";
+import {
+  appendOrders,
+  appendReconciliation,
+  loadOrders,
+  loadPlans,
+  resolveOrdersPath,
+  resolvePlansPath,
+  resolveReconciliationsPath,
+} from "@numisma/preferences";
+import {
+  assertLogFullyLoaded,
+  loadEventLog,
+  loadFoldedReview,
+  loadGenesis,
+  readOptional,
+  resolveEventStorePaths,
+  unattendedFoldVerdict,
+} from "@numisma/event-store";
+import { restoreLogImage, writeLogImage } from "./event-store.js";
+import { importBitgetFills } from "./import-fills.js";
+import { createPromptChannel } from "./prompt-channel.js";
+
+const csvPath = process.argv[2];
+if (!csvPath) {
+  process.stderr.write("usage: pnpm orders:fills-import <path/to/fills-export.csv>\n");
+  process.exitCode = 1;
+} else {
+  const paths = resolveEventStorePaths();
+  const prompt = createPromptChannel({
+    isTTY: Boolean(process.stdin.isTTY),
+    createInterface: () => createInterface({ input: process.stdin, output: process.stdout }),
+    err: (message) => process.stderr.write(`${message}\n`),
+    noTerminalNotice:
+      "No terminal on stdin: every fill this import proposes is still an interview — the " +
+      "rest of the ladder, the Position and the final confirmation are asked — and there " +
+      "is nowhere to conduct it, so every question goes unanswered. Run it from a terminal.",
+  });
+  try {
+    // Taken before the first proposal, for `record-fill-cli.ts`'s reason: the operator is
+    // told about the fold's discards before committing to any act on it. The fold is NOT
+    // re-read between acts here, so `loadFolded` re-folds the log each time instead — a
+    // second act on the same ladder must see the Position the first one opened.
+    const folded = await loadFoldedReview(paths);
+    for (const line of unattendedFoldVerdict(folded).messages) {
+      process.stderr.write(`${line}\n`);
+    }
+    const outcome = await importBitgetFills({
+      csvPath,
+      io: {
+        readExport: (path) => readFile(path, "utf8"),
+        ordersPath: resolveOrdersPath(),
+        eventsPath: paths.log,
+        loadOrders,
+        appendOrders,
+        readLogImage: () => readOptional(paths.log),
+        writeLogImage: (contents) => writeLogImage(paths.log, contents),
+        restoreLogImage: (prior) => restoreLogImage(paths.log, prior),
+        loadGenesis: () => loadGenesis(paths.genesis),
+        // The asserting pair, never a lone read — see `record-fill-cli.ts`.
+        loadLogEvents: async () => {
+          const load = await loadEventLog(paths.log);
+          assertLogFullyLoaded(load, paths.log);
+          return load.events;
+        },
+        loadFolded: async () => (await loadFoldedReview(paths)).data,
+        plansPath: resolvePlansPath(),
+        loadPlans,
+        reconciliationsPath: resolveReconciliationsPath(),
+        appendReconciliation,
+        toldAt: () => new Date().toISOString(),
+        ask: prompt.ask,
+        // No terminal counts as abandoned HERE though the channel's latch does not set for
+        // it: every question is unaskable, so the first act is undecided and so is every
+        // act after it — stopping says so once instead of "declined" once per trade.
+        promptAbandoned: () => prompt.aborted() || !process.stdin.isTTY,
+        out: (message) => process.stdout.write(message),
+        err: (message) => process.stderr.write(`${message}\n`),
+      },
+    });
+    // A DECLINE IS NOT A FAILURE; a refusal or an abandoned terminal is. The operator
+    // saying no to one proposed act is the review working, and exiting 1 for it would
+    // make every careful session look like a broken one.
+    if (
+      outcome.status === "rejected" ||
+      outcome.refused > 0 ||
+      outcome.unproposed > 0
+    ) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = 1;
+  } finally {
+    prompt.close();
+  }
+}
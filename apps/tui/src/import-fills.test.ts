@@ -0,0 +1,347 @@
+// The FILLS IMPORT: a venue's trade-history export proposes fill acts, and never writes
+// one the operator did not confirm.
+//
+// Locked here:
+//   - a matched trade skips exactly the three questions the export answers (the rung,
+//     the stamp, the quantity), proposes the traded amount as the cash, and still puts
+//     every other question of the act — `Write BOTH? [y/N]` included;
+//   - an open-orders export handed to this command is refused whole, with nothing read
+//     from the sidecar and nothing written;
+//   - re-running the same export after a recorded act proposes nothing;
+//   - a declined act does not stop the batch, and an abandoned terminal does;
+//   - a prefilled act meets the act's own refusals, word for word.
+//
+// EVERY FIXTURE IS A SYNTHETIC LADDER (`O7`). Invented pair, round decade prices, round
+// balances. No real price, quantity, balance, rung or Tempo percentage appears here.
+import { describe, expect, it } from "vitest";
+import {
+  BITGET_FILLS_HEADER,
+  BITGET_OPEN_ORDERS_HEADER,
+  buildOrderPlacedRecords,
+  foldEvents,
+  parseBitgetOpenOrdersCsv,
+  parseFundReview,
+  parseOrderRecord,
+  serializeOrderRecord,
+  type FundReviewData,
+  type OrderRecord,
+  type PortfolioEvent,
+} from "@numisma/engine";
+import type { OrdersLoad } from "@numisma/preferences";
+import { importBitgetFills, type FillsImportIo } from "./import-fills.js";
+import { UNANSWERED, type Answer } from "./prompt-channel.js";
+
+const ORDERS_PATH = "/synthetic/orders.jsonl";
+const EVENTS_PATH = "/synthetic/events.jsonl";
+const CSV_PATH = "/synthetic/fills.csv";
+
+/** A synthetic fund: one portfolio, one account, one instrument, one tiered reserve. */
+function genesisSeed(): FundReviewData {
+  const parsed = parseFundReview({
+    fund: { id: "fund-synthetic", name: "Synthetic", baseCurrency: "USD" },
+    review: { asOf: "2026-01-01", usdMxn: 20 },
+    portfolios: [{ id: "portfolio-synthetic", name: "Synthetic" }],
+    accounts: [
+      { id: "account-synthetic", name: "Synthetic Venue", platform: "SYNTH", currency: "USD" },
+    ],
+    instruments: [
+      { id: "instrument-synthetic", name: "Synthetic Asset", symbol: "TEST", currency: "USD" },
+    ],
+    reserves: [
+      {
+        id: "reserve-synthetic",
+        portfolioId: "portfolio-synthetic",
+        tempo: "Capital",
+        executionMode: "live",
+        accountId: "account-synthetic",
+        currency: "USD",
+        amount: 10000,
+        lots: [{ quantity: 10000, tier: "c1" }],
+      },
+    ],
+    positions: [],
+  });
+  if (parsed.kind !== "ok") {
+    throw new Error(`synthetic genesis is invalid: ${JSON.stringify(parsed)}`);
+  }
+  return parsed.value;
+}
+
+/** The ladder exactly as the open-orders import mints it — synthesized ids and all. */
+function ladderRecords(): OrderRecord[] {
+  const parsed = parseBitgetOpenOrdersCsv(
+    [
+      BITGET_OPEN_ORDERS_HEADER.join(","),
+      ...[400, 300, 200].map(
+        (price) =>
+          `2026-01-02 09:00:00,TEST/USDT,GTC,Limit,Buy,${price},10,-- / --,${price * 10},` +
+          "0,10,0.00%,Unfilled,Cancel",
+      ),
+    ].join("\n"),
+  );
+  if (parsed.status !== "ok") {
+    throw new Error("synthetic open-orders export is invalid");
+  }
+  return buildOrderPlacedRecords(parsed.orders, { fundingReserveId: "reserve-synthetic" });
+}
+
+/** One trade against the rung resting at `orderPrice`, fully filling it by default. */
+function trade(orderPrice: number, overrides: Partial<Record<string, string>> = {}): string {
+  const fields: Record<string, string> = {
+    timestamp: "2026-01-05 12:00:00",
+    order_time: "2026-01-02 09:00:00",
+    pair: "TEST/USDT",
+    side: "Buy",
+    order_price: String(orderPrice),
+    price: String(orderPrice - 1),
+    quantity: "10",
+    amount: String((orderPrice - 1) * 10),
+    fee: "1",
+    fee_currency: "USDT",
+    ...overrides,
+  };
+  return BITGET_FILLS_HEADER.map((column) => fields[column] ?? "").join(",");
+}
+
+function fillsExport(...rows: string[]): string {
+  return [BITGET_FILLS_HEADER.join(","), ...rows].join("\n");
+}
+
+/**
+ * In-memory sidecar, log and terminal. An exhausted script answers `UNANSWERED` and sets
+ * the latch, which is what the real channel does on Ctrl-D.
+ */
+class Harness {
+  ordersImage: string;
+  logImage: string | undefined;
+  readonly out: string[] = [];
+  readonly err: string[] = [];
+  readonly asked: string[] = [];
+  private readonly csv: string;
+  private readonly answers: Answer[];
+  private abandoned = false;
+
+  constructor(options: { csv: string; answers: Answer[]; records?: OrderRecord[] }) {
+    this.csv = options.csv;
+    this.ordersImage = (options.records ?? ladderRecords())
+      .map((record) => `${serializeOrderRecord(record)}\n`)
+      .join("");
+    this.logImage = undefined;
+    this.answers = [...options.answers];
+  }
+
+  get io(): FillsImportIo {
+    return {
+      readExport: async () => this.csv,
+      promptAbandoned: () => this.abandoned,
+      ordersPath: ORDERS_PATH,
+      eventsPath: EVENTS_PATH,
+      loadOrders: async (): Promise<OrdersLoad> => ({
+        status: "loaded",
+        path: ORDERS_PATH,
+        records: this.orderRecords(),
+        skips: [],
+      }),
+      appendOrders: async (_path, records) => {
+        this.ordersImage = `${this.ordersImage}${records
+          .map((record) => `${serializeOrderRecord(record)}\n`)
+          .join("")}`;
+      },
+      readLogImage: async () => this.logImage,
+      writeLogImage: async (contents) => {
+        this.logImage = contents;
+      },
+      restoreLogImage: async (prior) => {
+        this.logImage = prior;
+      },
+      loadGenesis: async () => genesisSeed(),
+      loadLogEvents: async () => this.logEvents(),
+      loadFolded: async () => foldEvents(genesisSeed(), this.logEvents()).data,
+      plansPath: "/synthetic/plans.jsonl",
+      loadPlans: async () => ({
+        load: { status: "loaded" as const, sourcePath: "/synthetic/plans.jsonl" },
+        plans: [],
+        skipped: [],
+      }),
+      reconciliationsPath: "/synthetic/reconciliations.jsonl",
+      appendReconciliation: async () => {},
+      toldAt: () => "2026-01-05T18:07:00-06:00",
+      ask: async (question) => {
+        this.asked.push(question);
+        const answer = this.answers.shift() ?? UNANSWERED;
+        if (answer === UNANSWERED) {
+          this.abandoned = true;
+        }
+        return answer;
+      },
+      out: (message) => this.out.push(message),
+      err: (message) => this.err.push(message),
+    };
+  }
+
+  orderRecords(): OrderRecord[] {
+    return this.ordersImage
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => {
+        const parsed = parseOrderRecord(JSON.parse(line));
+        if (parsed.status !== "ok") throw new Error(`bad synthetic order line: ${line}`);
+        return parsed.record;
+      });
+  }
+
+  logEvents(): PortfolioEvent[] {
+    if (this.logImage === undefined) return [];
+    return this.logImage
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => {
+        const { schemaVersion: _schemaVersion, ...event } = JSON.parse(line) as Record<
+          string,
+          unknown
+        >;
+        return event as unknown as PortfolioEvent;
+      });
+  }
+}
+
+/** The questions the export cannot answer, for opening the ladder on the TOP rung. */
+function openTopRungAnswers(): Answer[] {
+  return [
+    "r", // the 300 rung still resting untouched
+    "r", // the 200 rung still resting untouched
+    "y", // confirm the derived verdicts
+    "instrument-synthetic", // the venue pair names no instrument in the fold
+    "position-synthetic", // position id (first fill opens)
+    "", // tempo — accept the funding reserve's
+    "synthetic entry thesis",
+    "synthetic invalidation condition",
+    "synthetic risk budget",
+    "synthetic horizon",
+    "synthetic strategy",
+    "", // cash debited — accept the traded amount
+    "y", // write BOTH
+  ];
+}
+
+describe("a matched trade becomes a PRE-FILLED fill act", () => {
+  it("skips the three questions the export answers and asks the rest", async () => {
+    const harness = new Harness({ csv: fillsExport(trade(400)), answers: openTopRungAnswers() });
+
+    const outcome = await importBitgetFills({ csvPath: CSV_PATH, io: harness.io });
+
+    expect(outcome).toMatchObject({ status: "reviewed", declined: 0, refused: 0 });
+    expect(harness.asked.some((question) => question.startsWith("Which rung filled"))).toBe(
+      false,
+    );
+    expect(harness.asked.some((question) => question.startsWith("Fill timestamp"))).toBe(false);
+    expect(harness.asked.some((question) => question.startsWith("Filled quantity"))).toBe(false);
+    // The traded amount is the DEFAULT, not the answer — and the door is still asked.
+    expect(harness.asked).toContain("Cash debited [3990]: ");
+    expect(harness.asked.at(-1)).toBe("Write BOTH? [y/N]: ");
+
+    const [event] = harness.logEvents();
+    expect(event).toMatchObject({
+      id: "fill:bitget:TESTUSDT:buy:400:2026-01-02T09:00:00@2026-01-05T12:00:00",
+      type: "PositionOpened",
+      funding: { reserveId: "reserve-synthetic", amount: 3990 },
+    });
+    expect(harness.orderRecords().at(-1)).toMatchObject({
+      kind: "orderFilled",
+      observedAt: "2026-01-05T12:00:00",
+      filledQuantity: 10,
+    });
+  });
+
+  it("proposes nothing when the same export is read again", async () => {
+    const first = new Harness({ csv: fillsExport(trade(400)), answers: openTopRungAnswers() });
+    await importBitgetFills({ csvPath: CSV_PATH, io: first.io });
+
+    const again = new Harness({
+      csv: fillsExport(trade(400)),
+      answers: [],
+      records: first.orderRecords(),
+    });
+    const outcome = await importBitgetFills({ csvPath: CSV_PATH, io: again.io });
+
+    expect(outcome).toMatchObject({ status: "reviewed", recorded: [], refused: 0 });
+    expect(again.asked).toEqual([]);
+    expect(again.out.join("")).toContain("already recorded");
+  });
+
+  it("meets the act's own refusal when the trade exceeds what the rung still claims", async () => {
+    const harness = new Harness({
+      csv: fillsExport(trade(400, { quantity: "12", amount: "4788" })),
+      answers: [],
+    });
+    const ordersBefore = harness.ordersImage;
+
+    const outcome = await importBitgetFills({ csvPath: CSV_PATH, io: harness.io });
+
+    expect(outcome).toMatchObject({ status: "reviewed", refused: 1 });
+    expect(harness.err.join("\n")).toContain("12 exceeds the 10 still claimed by this rung");
+    expect(harness.ordersImage).toBe(ordersBefore);
+    expect(harness.logImage).toBeUndefined();
+  });
+});
+
+describe("the batch", () => {
+  it("continues past a declined act and records the next", async () => {
+    const declineFirst = openTopRungAnswers();
+    declineFirst[declineFirst.length - 1] = "n";
+    const harness = new Harness({
+      csv: fillsExport(trade(300, { timestamp: "2026-01-06 12:00:00" }), trade(400)),
+      // The 400 rung did trade at the venue, so the second act's look at the book says
+      // it is gone; the 200 rung below still rests.
+      answers: [...declineFirst, "g", "r", ...openTopRungAnswers().slice(2)],
+    });
+
+    const outcome = await importBitgetFills({ csvPath: CSV_PATH, io: harness.io });
+
+    // The 400 trade happened first, so it was put first — and declined.
+    expect(outcome).toMatchObject({ status: "reviewed", declined: 1, refused: 0 });
+    if (outcome.status !== "reviewed") return;
+    expect(outcome.recorded.map((act) => act.order.id)).toEqual([
+      "bitget:TESTUSDT:buy:300:2026-01-02T09:00:00",
+    ]);
+  });
+
+  it("stops at an abandoned terminal and names every fill it left undecided", async () => {
+    const harness = new Harness({
+      csv: fillsExport(trade(400), trade(300, { timestamp: "2026-01-06 12:00:00" })),
+      answers: ["r"],
+    });
+
+    const outcome = await importBitgetFills({ csvPath: CSV_PATH, io: harness.io });
+
+    // The act the terminal died in is not the operator's no: both trades are undecided.
+    expect(outcome).toMatchObject({ status: "reviewed", declined: 0, unproposed: 2 });
+    expect(harness.err.join("\n")).toContain("2 matched fills were not decided");
+    expect(harness.logImage).toBeUndefined();
+  });
+});
+
+describe("the export is refused whole", () => {
+  it("refuses an open-orders export handed to the fills import", async () => {
+    const harness = new Harness({
+      csv: `${BITGET_OPEN_ORDERS_HEADER.join(",")}\n`,
+      answers: [],
+    });
+    const ordersBefore = harness.ordersImage;
+
+    const outcome = await importBitgetFills({ csvPath: CSV_PATH, io: harness.io });
+
+    expect(outcome).toMatchObject({ status: "rejected", reason: "unrecognized-header" });
+    expect(harness.err.join("\n")).toContain(`${CSV_PATH} is not a fills export`);
+    expect(harness.asked).toEqual([]);
+    expect(harness.ordersImage).toBe(ordersBefore);
+  });
+
+  it("reports a trade with no resting rung rather than proposing it", async () => {
+    const harness = new Harness({ csv: fillsExport(trade(500)), answers: [] });
+    const outcome = await importBitgetFills({ csvPath: CSV_PATH, io: harness.io });
+    expect(outcome).toMatchObject({ status: "reviewed", recorded: [], unproposed: 0 });
+    expect(harness.out.join("")).toContain("NOT PROPOSED");
+    expect(harness.asked).toEqual([]);
+  });
+});
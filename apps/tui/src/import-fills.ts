@@ -0,0 +1,206 @@
+/**
+ * The IO SHELL for proposing fill acts from a Bitget fills export — `pnpm
+ * orders:fills-import`. What the export MEANS is pure and lives in `@numisma/engine`
+ * (`parseBitgetFillsCsv`, `matchObservedFills`); what a fill act IS, and every refusal it
+ * owes, lives in `recordFill`. This file reads the export, says what it found, and hands
+ * each matched trade to that act pre-filled.
+ *
+ * IT WRITES NOTHING ITSELF, and that is the design rather than a limitation. Every line
+ * that reaches `orders.jsonl` or `events.jsonl` from here goes through `recordFill`, one
+ * act per trade, behind the act's own `Write BOTH? [y/N]`. The export answers the three
+ * questions the operator used to type from memory — which rung, when, how much — and
+ * proposes the cash; it cannot answer the rest of the ladder's state, the Position's five
+ * decision fields or the tier, so those are still asked. An export that could confirm its
+ * own fills would be the machine recording an inference as fact, which is what `O3`
+ * exists to prevent.
+ *
+ * ONE TRADE, ONE ACT, IN THE ORDER THEY HAPPENED. A partial fill is its own act (the
+ * act's id is `(orderId, observedAt)`), and `recordFill` re-reads the sidecar each time, so
+ * the second partial of a rung is weighed against what the first left.
+ *
+ * A REFUSED OR DECLINED ACT DOES NOT STOP THE BATCH; AN ABANDONED TERMINAL DOES. The first
+ * two are decisions about one trade, and the rest of the export is still the operator's to
+ * review. Ctrl-D is not a decision about any trade, so every proposal after it is named as
+ * not put rather than put to a terminal nobody is at.
+ */
+import {
+  committedRungs,
+  matchObservedFills,
+  parseBitgetFillsCsv,
+  pickRestingOrdersAsOf,
+  type BitgetFill,
+  type FillAct,
+  type FillMatch,
+  type OrderRecord,
+} from "@numisma/engine";
+import { plural } from "./plural.js";
+import { recordFill, type RecordFillIo } from "./record-fill.js";
+import { renderSkipMessage } from "./skip-message.js";
+
+/** The fill act's own bag, plus the export reader and the prompt channel's latch. */
+export interface FillsImportIo extends RecordFillIo {
+  /** Read the venue's export. Rejects (throws) if it is unreadable; we catch it. */
+  readExport: (path: string) => Promise<string>;
+  /** Whether a question of this run went unanswered — `PromptChannel.aborted`. */
+  promptAbandoned: () => boolean;
+}
+
+export type FillsImportRejection =
+  | "unreadable-export"
+  | "unrecognized-header"
+  | "unreadable-sidecar"
+  | "unreadable-sidecar-lines";
+
+export type FillsImportOutcome =
+  | {
+      status: "reviewed";
+      /** Acts written, in the order they were confirmed. */
+      recorded: FillAct[];
+      /** Acts the operator declined at one of the act's gates. */
+      declined: number;
+      /** Acts `recordFill` refused; each printed its own reason. */
+      refused: number;
+      /** Matched trades left undecided, because the terminal was abandoned at or before them. */
+      unproposed: number;
+    }
+  | { status: "rejected"; reason: FillsImportRejection; message: string };
+
+function reject(
+  io: FillsImportIo,
+  reason: FillsImportRejection,
+  message: string,
+): FillsImportOutcome {
+  io.err(`REFUSED — ${message}\nNothing was written to ${io.eventsPath} or ${io.ordersPath}.`);
+  return { status: "rejected", reason, message };
+}
+
+function describeTrade(fill: BitgetFill): string {
+  return (
+    `${fill.symbol} ${fill.side} ${fill.quantity} @ ${fill.price} at ${fill.observedAt} ` +
+    `(order ${fill.orderId})`
+  );
+}
+
+/** The line a trade that is not proposed earns — every one of them is said out loud. */
+function describeUnproposed(
+  match: FillMatch<BitgetFill>,
+  ordersPath: string,
+): string | undefined {
+  switch (match.status) {
+    case "matched":
+      return undefined;
+    case "already-recorded":
+      return `already recorded: ${describeTrade(match.fill)}`;
+    case "not-a-buy":
+      return (
+        `NOT PROPOSED — ${describeTrade(match.fill)} is a sell; this import pre-fills ` +
+        `purchases only. Record the sale with pnpm orders:fill`
+      );
+    case "no-resting-rung":
+      return (
+        `NOT PROPOSED — ${describeTrade(match.fill)} names no resting rung in ` +
+        `${ordersPath}. Import the open orders it was placed from, or record it by hand ` +
+        `with pnpm orders:fill`
+      );
+  }
+}
+
+/**
+ * Read one fills export and put each matched trade to the operator as a pre-filled fill
+ * act, or refuse the export and write nothing.
+ *
+ * Idempotent the way the open-orders import is: a trade whose act is already on file is
+ * reported as `already recorded` and never proposed, so re-running the same export after
+ * a partial session proposes exactly the trades still outstanding.
+ */
+export async function importBitgetFills(options: {
+  csvPath: string;
+  io: FillsImportIo;
+}): Promise<FillsImportOutcome> {
+  const { csvPath, io } = options;
+
+  let csv: string;
+  try {
+    csv = await io.readExport(csvPath);
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    return reject(io, "unreadable-export", `could not read ${csvPath}: ${detail}`);
+  }
+
+  const parsed = parseBitgetFillsCsv(csv);
+  if (parsed.status !== "ok") {
+    // The open-orders import's refusal, from the other side: an order book handed to this
+    // command must not be half-read as trades.
+    return reject(
+      io,
+      "unrecognized-header",
+      `${csvPath} is not a fills export — ${parsed.message}`,
+    );
+  }
+  for (const skip of parsed.skips) {
+    io.err(`${csvPath}:${skip.line} skipped — ${skip.message}`);
+  }
+
+  const load = await io.loadOrders(io.ordersPath);
+  if (load.status === "unreadable") {
+    return reject(io, "unreadable-sidecar", `could not read ${io.ordersPath}: ${load.message}`);
+  }
+  if (load.status === "loaded" && load.skips.length > 0) {
+    return reject(io, "unreadable-sidecar-lines", renderSkipMessage(io.ordersPath, load.skips));
+  }
+  const records: OrderRecord[] = load.status === "loaded" ? load.records : [];
+
+  const matches = matchObservedFills(
+    parsed.fills,
+    committedRungs(pickRestingOrdersAsOf(records)),
+    records,
+  );
+  for (const match of matches) {
+    const line = describeUnproposed(match, io.ordersPath);
+    if (line !== undefined) {
+      io.out(`${line}\n`);
+    }
+  }
+
+  const proposals = matches.filter((match) => match.status === "matched");
+  io.out(
+    `${csvPath}: ${plural(parsed.fills.length, "trade")} read, ` +
+      `${plural(proposals.length, "fill act")} to propose.\n`,
+  );
+
+  const recorded: FillAct[] = [];
+  let declined = 0;
+  let refused = 0;
+  for (const [index, proposal] of proposals.entries()) {
+    io.out(`\nFill ${index + 1} of ${proposals.length}: ${describeTrade(proposal.fill)}\n`);
+    const outcome = await recordFill(io, {
+      orderId: proposal.fill.orderId,
+      observedAt: proposal.prefill.observedAt,
+      filledQuantity: proposal.prefill.filledQuantity,
+      fundingAmount: proposal.prefill.fundingAmount,
+    });
+    if (outcome.status === "recorded") {
+      recorded.push(outcome.act);
+    } else if (io.promptAbandoned()) {
+      // Not a decline: an act that lost its terminal mid-interview was never decided, so
+      // it is counted with the proposals after it rather than as the operator's no.
+      const unproposed = proposals.length - index;
+      io.err(
+        `STOPPED — the terminal was abandoned, so ${plural(unproposed, "matched fill")} ` +
+          `${unproposed === 1 ? "was" : "were"} not decided. Run the import again to ` +
+          `review ${unproposed === 1 ? "it" : "them"}.`,
+      );
+      return { status: "reviewed", recorded, declined, refused, unproposed };
+    } else if (outcome.status === "abandoned") {
+      declined += 1;
+    } else {
+      refused += 1;
+    }
+  }
+
+  io.out(
+    `\n${plural(recorded.length, "fill act")} recorded, ${declined} declined, ` +
+      `${refused} refused.\n`,
+  );
+  return { status: "reviewed", recorded, declined, refused, unproposed: 0 };
+}
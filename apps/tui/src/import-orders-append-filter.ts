@@ -21,7 +21,7 @@
  *   - {@link currentClaimKeys} answers *"is this figure still the rung's CURRENT
  *     claim?"* — which needs the whole stream, and so is the only place it can be asked.
  *
- * THE CALLER STILL OWNS THE FILTER. `importBitgetOpenOrders` builds the set once and
+ * THE CALLER STILL OWNS THE FILTER. `importOpenOrders` builds the set once and
  * runs `[...records, ...observations].filter(...)` itself, for the reason its own
  * comment gives: one set over both arrays in a single pass, so re-keying per record
  * buys nothing and costs a quadratic pass.
@@ -15,7 +15,7 @@
  * `import-orders-changed-claims.test.ts`.
  *
  * THE REFUSAL WORDS STAY IN THE SHELL, AND {@link renderClaimDifferences} IS NOT ONE. Each
- * class is returned and `importBitgetOpenOrders` owns the refusal it raises over it, in the
+ * class is returned and `importOpenOrders` owns the refusal it raises over it, in the
  * order hazard demands; what came across is the FOLD OVER A DIFFERENCE LIST that two of
  * those refusals both printed (#36) — a rendering of this module's own union, beside the
  * function that classifies it, not a sentence addressed to the operator.
@@ -23,7 +23,7 @@
 import {
   isDescriptorDifference,
   isFilledDifference,
-  type BitgetOpenOrder,
+  type VenueOpenOrder,
   type ChangedClaim,
   type ClaimDifference,
   type RestingOrder,
@@ -139,7 +139,7 @@ export interface ChangedClaimPartition {
  *   - the VENUE's own export cannot render `filled_quantity > quantity` on the same row —
  *     the two columns come from one order and a venue that filled more than it placed
  *     would be contradicting itself, not reporting; and
- *   - `parseBitgetOpenOrdersCsv`'s own admission gate drops any row whose remainder is not
+ *   - every venue adapter's own admission gate drops any row whose remainder is not
  *     POSITIVE — `quantity − filled_quantity <= 0` is a `not-resting` SKIP — so a
  *     hand-edited CSV never reaches this partition as a claim at all. `mergeCollidingClaims`
  *     preserves that, summing both columns of a collision and so both sides of the same
@@ -175,7 +175,7 @@ export interface ChangedClaimPartition {
 export function partitionChangedClaims(
   changed: readonly ChangedClaim[],
   resting: readonly RestingOrder[],
-  observed: readonly BitgetOpenOrder[],
+  observed: readonly VenueOpenOrder[],
 ): ChangedClaimPartition {
   const amended: ChangedClaim[] = [];
   const backwards: BackwardsClaim[] = [];
@@ -257,7 +257,7 @@ export function renderClaimDifferences(differences: readonly ClaimDifference[]):
  * derivation that can drift from it.
  *
  * THE VENUE'S CUMULATIVE COLUMN IS READ WITHOUT A FALLBACK, deliberately (PR #218 review).
- * `BitgetOpenOrder.filledQuantity` is a required, non-nullable `number`, so a `?? 0` here
+ * `VenueOpenOrder.filledQuantity` is a required, non-nullable `number`, so a `?? 0` here
  * could never fire — and it would say, in the one place this module's arithmetic most needs
  * certainty, that the column might be absent. An honest absence would be a parse problem
  * and belongs to the parser, not to a defaulted subtraction here.
@@ -270,7 +270,7 @@ export function renderClaimDifferences(differences: readonly ClaimDifference[]):
 export function weighRemainders(
   id: string,
   resting: readonly RestingOrder[],
-  observed: readonly BitgetOpenOrder[],
+  observed: readonly VenueOpenOrder[],
 ): { onFile: number; atVenue: number } | undefined {
   const row = observed.find((order) => order.id === id);
   if (row === undefined) {
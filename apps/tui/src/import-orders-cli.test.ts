@@ -4,7 +4,7 @@
  * `import-orders-cli.ts` is wiring, and every one of its own decisions was untested: the
  * usage branch, the THREE-WAY exit-code mapping it performs over the flow's outcome, the
  * one env var it resolves three independent paths from, and the `finally` that closes the
- * prompt. The flow it delegates to — `importBitgetOpenOrders` and its twelve refusal
+ * prompt. The flow it delegates to — `importOpenOrders` and its twelve refusal
  * reasons — is covered by eight sibling suites (`import-orders.test.ts` and friends), and
  * NOTHING HERE RE-TESTS THAT TAXONOMY. Where a refusal appears below it is being used as a
  * probe for the shell's wiring: which PATH the message names, which CHANNEL it went to,
@@ -4,7 +4,7 @@
  *   pnpm orders:import <path/to/open-orders-export.csv>
  *
  * This file is WIRING ONLY — it binds the real filesystem, the real data dir, the real
- * fold and a real readline prompt to `importBitgetOpenOrders`, which holds the flow and
+ * fold and a real readline prompt to `importOpenOrders`, which holds the flow and
  * every refusal. Keeping the wiring in its own module is what lets the test import the
  * flow with no side effects: importing this file runs the import.
  */
@@ -22,7 +22,7 @@ import {
   resolveEventStorePaths,
   unattendedFoldVerdict,
 } from "@numisma/event-store";
-import { importBitgetOpenOrders } from "./import-orders.js";
+import { importOpenOrders } from "./import-orders.js";
 import { createPromptChannel } from "./prompt-channel.js";
 
 const csvPath = process.argv[2];
@@ -57,7 +57,7 @@ if (!csvPath) {
    *
    * THE LATCH IS THE SECOND DOOR, AND IT IS STILL WIRED. The channel remembers that a
    * question was abandoned (`prompt.aborted`), this shell hands that fact to the flow as
-   * `promptAbandoned`, and `importBitgetOpenOrders` refuses as `interview-abandoned`
+   * `promptAbandoned`, and `importOpenOrders` refuses as `interview-abandoned`
    * before `appendOrders`. With the per-question refusals in place nothing reaches that
    * check that would not already have been refused — it is redundant by construction, and
    * kept one increment longer so a regression in the new refusals meets a guarantee that
@@ -88,7 +88,7 @@ if (!csvPath) {
     for (const line of unattendedFoldVerdict(folded).messages) {
       process.stderr.write(`${line}\n`);
     }
-    const outcome = await importBitgetOpenOrders({
+    const outcome = await importOpenOrders({
       csvPath,
       io: {
         readExport: (path) => readFile(path, "utf8"),
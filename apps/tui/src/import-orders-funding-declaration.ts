@@ -48,11 +48,11 @@
  * `fundingReserveId`, that the prompt happens exactly once per batch, and that a blank
  * batch answer writes nothing at all.
  */
-import type { BitgetOpenOrder } from "@numisma/engine";
+import type { VenueOpenOrder } from "@numisma/engine";
 import { UNANSWERED, type Answer } from "./prompt-channel.js";
 
 /** How one rung is shown when the operator asks to override it. */
-function describe(order: BitgetOpenOrder): string {
+function describe(order: VenueOpenOrder): string {
   return `${order.symbol} ${order.side} ${order.quantity} @ ${order.price} (${order.observedAt})`;
 }
 
@@ -102,7 +102,7 @@ export type FundingDeclaration =
  */
 export async function declareFunding(
   ask: (question: string) => Promise<Answer>,
-  orders: readonly BitgetOpenOrder[],
+  orders: readonly VenueOpenOrder[],
 ): Promise<FundingDeclaration> {
   // THE ONE QUESTION HERE THAT ALREADY REFUSED, AND IT KEEPS ITS REFUSAL. A blank means
   // the operator declared no reserve and the flow refuses as `no-reserve-declared`; an
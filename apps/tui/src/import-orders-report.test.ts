@@ -11,7 +11,7 @@
  */
 import {
   buildOrderFillObserved,
-  type BitgetRowSkip,
+  type OpenOrderRowSkip,
   type OrderFillObservedRecord,
   type OrderPlacedRecord,
 } from "@numisma/engine";
@@ -47,7 +47,7 @@ function observedLine(id: string, observedFilledQuantity: number): OrderFillObse
   return built.record;
 }
 
-function skip(problem: BitgetRowSkip["problem"], line: number): BitgetRowSkip {
+function skip(problem: OpenOrderRowSkip["problem"], line: number): OpenOrderRowSkip {
   return { line, problem, message: `row ${line} is ${problem}` };
 }
 
@@ -58,8 +58,10 @@ function input(overrides: Partial<OrdersImportReportInput> = {}): OrdersImportRe
     placements: [],
     knownFigures: new Map(),
     pickedDifferences: new Map(),
+    namedFilled: [],
     skips: [],
     csvPath: CSV,
+    venueLabel: "Bitget",
     ...overrides,
   };
 }
@@ -143,7 +145,8 @@ describe("reportOrdersImport", () => {
       input({ written: [placed("a")], placements: [placed("a")] }),
     );
     expect(message).toBe(
-      `Imported ${CSV}: 1 order(s) appended, 0 already known, 0 observation(s) recorded.\n`,
+      `Imported ${CSV} (Bitget open orders): 1 order(s) appended, 0 already known, ` +
+        `0 observation(s) recorded.\n`,
     );
   });
 
@@ -217,7 +220,8 @@ describe("reportOrdersImport", () => {
     expect(lines[1]).toMatch(/^OBSERVED — 1 rung\(s\)/);
     expect(lines[1]).toContain("rung-1 (filled 2 → 5)");
     expect(lines[2]).toBe(
-      `Imported ${CSV}: 1 order(s) appended, 1 already known, 1 observation(s) recorded.`,
+      `Imported ${CSV} (Bitget open orders): 1 order(s) appended, 1 already known, ` +
+        `1 observation(s) recorded.`,
     );
     expect(lines[3]).toBe("");
   });
@@ -19,14 +19,14 @@
  * THE WRITE ITSELF IS THE CALLER'S (ADR-001), and that is the one thing this module changed
  * on the way out of `import-orders.ts`. The rule used to end at "one `io.out`, reached by
  * every exit"; the function now returns the message beside the outcome and
- * `importBitgetOpenOrders` performs the single `io.out`. The invariant is unweakened —
+ * `importOpenOrders` performs the single `io.out`. The invariant is unweakened —
  * there is still exactly one message and exactly one write — and it buys the thing the
  * closure could not have: the counting rule is a pure function of its arguments, so every
  * fact below is assertable without an export file, a sidecar or a stubbed IO bag.
  */
 import {
   leavesRungUnweighed,
-  type BitgetRowSkip,
+  type OpenOrderRowSkip,
   type OrderPlacedRecord,
   type OrderRecord,
 } from "@numisma/engine";
@@ -133,7 +133,7 @@ interface OrdersImportWrite {
    * `imported` promises about this field is that none of its entries left a rung
    * UNWEIGHED — that is `leavesRungUnweighed`'s question, not this array's length.
    */
-  skips: BitgetRowSkip[];
+  skips: OpenOrderRowSkip[];
   /**
    * The restatements this import RECORDED — exactly one `orderFillObserved` line each
    * (#181), and never a superset of what was written.
@@ -151,6 +151,12 @@ interface OrdersImportWrite {
    * misled by one, which is the test that decides what may qualify a status.
    */
   observations: RecordedObservation[];
+  /**
+   * The vanished rungs this import RETIRED — the ids of the `orderCancelled` lines that
+   * landed, read off `written` like every other count here. A rung the operator named as
+   * FILLED is not in it: nothing was written for that one.
+   */
+  retired: string[];
 }
 
 /**
@@ -224,10 +230,21 @@ export interface OrdersImportReportInput {
    * it is only joinable, so a difference with no line on disk cannot be reported.
    */
   pickedDifferences: ReadonlyMap<string, PickedPriceDifference>;
+  /**
+   * The vanished rungs the operator named as FILLED. Nothing was written for them — the
+   * fill act is the one writer of a fill — so there is no line to read them off, and they
+   * are handed over as the decision they are, to be named with the command that records it.
+   */
+  namedFilled: readonly string[];
   /** The parser's skips, whole and unfiltered — the reporter discriminates, not the caller. */
-  skips: BitgetRowSkip[];
+  skips: OpenOrderRowSkip[];
   /** The export's path, as the operator named it. Interpolated into both notices. */
   csvPath: string;
+  /**
+   * The venue whose header the export carried — named on the summary line, because the
+   * adapter was chosen by sniffing and the operator should see what it was read as.
+   */
+  venueLabel: string;
 }
 
 /**
@@ -241,7 +258,16 @@ export interface OrdersImportReport {
 
 /** Count what landed, say what it means, and let the caller print it. */
 export function reportOrdersImport(input: OrdersImportReportInput): OrdersImportReport {
-  const { written, placements, knownFigures, pickedDifferences, skips, csvPath } = input;
+  const {
+    written,
+    placements,
+    knownFigures,
+    pickedDifferences,
+    namedFilled,
+    skips,
+    csvPath,
+    venueLabel,
+  } = input;
   const appended = written.filter((record) => record.kind === "orderPlaced").length;
   const alreadyKnown = placements.length - appended;
   const observed: RecordedObservation[] = [];
@@ -266,7 +292,10 @@ export function reportOrdersImport(input: OrdersImportReportInput): OrdersImport
   const counts =
     `${appended} order(s) appended, ${alreadyKnown} already known, ` +
     `${observed.length} observation(s) recorded`;
-  const write = { appended, alreadyKnown, skips, observations: observed };
+  const retired = written
+    .filter((record) => record.kind === "orderCancelled")
+    .map((record) => record.id);
+  const write = { appended, alreadyKnown, skips, observations: observed, retired };
 
   // NOT `skips.length` (#184). `skips` is heterogeneous, and a `not-resting` row was read
   // COMPLETELY — the parser's finding about it is that nothing is still claimed. The gap
@@ -309,6 +338,25 @@ export function reportOrdersImport(input: OrdersImportReportInput): OrdersImport
     );
   }
 
+  // THE RETIREMENTS, and beside them the rungs that are still owed one. Both render only
+  // when present, like the pick flag below: an export that omits nothing is the common
+  // case, and a permanent `0 rung(s) retired` line would be noise on every import.
+  if (retired.length > 0) {
+    notices.push(
+      `RETIRED — ${retired.length} rung(s) absent from ${csvPath} were recorded as ` +
+        `CANCELLED — ${retired.join("; ")}. What they encumbered is available again.`,
+    );
+  }
+  if (namedFilled.length > 0) {
+    notices.push(
+      `STILL RESTING — ${namedFilled.length} rung(s) absent from ${csvPath} were named as ` +
+        `FILLED — ${namedFilled.join("; ")}. This import does not record fills: it never ` +
+        `writes the event log, so these stay committed until the fill is recorded. Record ` +
+        `each with pnpm orders:fill, or pnpm orders:fills-import with the venue's fills ` +
+        `export.`,
+    );
+  }
+
   // THE PICK FLAG, LAST AMONG THE NOTICES: it is the one that reports something that WENT
   // RIGHT — a deliberate declaration — rather than a gap. It renders only when there is a
   // difference, unlike the observation clause, because a batch with no picks at all is the
@@ -336,7 +384,8 @@ export function reportOrdersImport(input: OrdersImportReportInput): OrdersImport
     );
   }
 
-  const message = [...notices, `Imported ${csvPath}: ${counts}.`].join("\n") + `\n`;
+  const summary = `Imported ${csvPath} (${venueLabel} open orders): ${counts}.`;
+  const message = [...notices, summary].join("\n") + `\n`;
 
   // A ROW NOBODY COULD READ IS THE ONLY THING LEFT THAT QUALIFIES AN IMPORT (#181). A
   // restatement qualified while it was deferred; it is recorded here, so it does not.
@@ -37,14 +37,14 @@
  */
 import {
   matchRungsByPrice,
-  type BitgetOpenOrder,
+  type VenueOpenOrder,
   type InForceLadder,
   type RungPick,
 } from "@numisma/engine";
 import { UNANSWERED, type Answer } from "./prompt-channel.js";
 
 /** How one rung is shown when the operator is asked about it. */
-function describeOrder(order: BitgetOpenOrder): string {
+function describeOrder(order: VenueOpenOrder): string {
   return `${order.symbol} ${order.side} ${order.quantity} @ ${order.price} (${order.observedAt})`;
 }
 
@@ -106,7 +106,7 @@ export type RungPickOutcome =
  */
 export async function declareRungPicks(
   ask: (question: string) => Promise<Answer>,
-  orders: readonly BitgetOpenOrder[],
+  orders: readonly VenueOpenOrder[],
   ladders: readonly InForceLadder[],
   declaredOnFile: readonly RungPick[] = [],
 ): Promise<RungPickOutcome> {
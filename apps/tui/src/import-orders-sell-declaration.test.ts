@@ -0,0 +1,134 @@
+/**
+ * The sell declaration's rules, asserted directly — which units each imported sell speaks
+ * for, proposed where the fold is unambiguous and typed where it is not.
+ *
+ * IT TAKES THE PROMPT CHANNEL AND THE FOLD AS A VALUE, so every case here is a scripted
+ * `ask` over a literal fund. Every order, position and price is SYNTHESIZED (`O7`).
+ */
+import {
+  parseFundReview,
+  type BitgetOpenOrder,
+  type FundReviewData,
+} from "@numisma/engine";
+import { describe, expect, it } from "vitest";
+import { declareSellTargets } from "./import-orders-sell-declaration.js";
+import { UNANSWERED, type Answer } from "./prompt-channel.js";
+
+/** One open position on the pair, holding the given tiers. */
+function fund(tiers: ("c1" | "c2")[]): FundReviewData {
+  const parsed = parseFundReview({
+    fund: { id: "synthetic-fund", name: "Synthetic Fund", baseCurrency: "USD" },
+    review: { asOf: "2026-01-31", usdMxn: 20 },
+    portfolios: [{ id: "core", name: "Core" }],
+    accounts: [
+      { id: "venue-usd", name: "Synthetic Venue", platform: "BITGET", currency: "USD" },
+    ],
+    instruments: [{ id: "test-usd", name: "Test Asset", symbol: "XYZ", currency: "USD" }],
+    reserves: [],
+    positions: [
+      {
+        id: "position-xyz",
+        portfolioId: "core",
+        tempo: "Capital",
+        executionMode: "live",
+        accountId: "venue-usd",
+        instrumentId: "test-usd",
+        direction: "long",
+        currency: "USD",
+        markPrice: 1000,
+        lots: tiers.map((tier) => ({ quantity: 5, cost: 900, tier })),
+      },
+    ],
+  });
+  if (parsed.kind !== "ok") throw new Error("synthetic fixture must parse");
+  return parsed.value;
+}
+
+function order(overrides: Partial<BitgetOpenOrder> = {}): BitgetOpenOrder {
+  return {
+    id: "order-1",
+    observedAt: "2026-08-07T10:00:00",
+    currency: "USD",
+    symbol: "XYZUSDT",
+    side: "sell",
+    price: 1500,
+    quantity: 2,
+    filledQuantity: 0,
+    totalQuantity: 2,
+    timeInForce: "gtc",
+    orderType: "limit",
+    triggerPrice: null,
+    ...overrides,
+  };
+}
+
+/** A scripted prompt channel that records every question it was asked. */
+function script(answers: Answer[]) {
+  const asked: string[] = [];
+  const queue = [...answers];
+  return {
+    asked,
+    ask: async (question: string): Promise<Answer> => {
+      asked.push(question);
+      return queue.shift() ?? UNANSWERED;
+    },
+  };
+}
+
+describe("declareSellTargets — the units a sell speaks for", () => {
+  it("asks nothing of a buy, and nothing at all of a batch without a sell", async () => {
+    const prompt = script([]);
+    const declared = await declareSellTargets(prompt.ask, [order({ side: "buy" })], fund(["c1"]));
+    expect(declared).toEqual({ status: "declared", targets: {} });
+    expect(prompt.asked).toEqual([]);
+  });
+
+  it("takes the proposal on one Enter, and declines it on 0", async () => {
+    const accept = script([""]);
+    expect(await declareSellTargets(accept.ask, [order()], fund(["c1"]))).toEqual({
+      status: "declared",
+      targets: { "order-1": { positionId: "position-xyz", tier: "c1" } },
+    });
+    expect(accept.asked[0]).toContain("[position-xyz c1; 0 for none]");
+
+    const decline = script(["0"]);
+    expect(await declareSellTargets(decline.ask, [order()], fund(["c1"]))).toEqual({
+      status: "declared",
+      targets: {},
+    });
+  });
+
+  it("proposes nothing where the position holds two tiers, and reads a typed answer", async () => {
+    const typed = script(["position-xyz C2"]);
+    expect(await declareSellTargets(typed.ask, [order()], fund(["c1", "c2"]))).toEqual({
+      status: "declared",
+      targets: { "order-1": { positionId: "position-xyz", tier: "c2" } },
+    });
+    expect(typed.asked[0]).toContain("[<position> <tier>, blank for none]");
+
+    const blank = script([""]);
+    expect(await declareSellTargets(blank.ask, [order()], fund(["c1", "c2"]))).toEqual({
+      status: "declared",
+      targets: {},
+    });
+  });
+
+  it("refuses an answer it cannot read rather than guessing at it", async () => {
+    for (const answer of ["position-xyz", "position-xyz c4", "position-xyz c1 extra"]) {
+      const prompt = script([answer]);
+      expect(await declareSellTargets(prompt.ask, [order()], fund(["c1"]))).toMatchObject({
+        status: "unreadable",
+        answer,
+      });
+    }
+  });
+
+  it("abandons on an unanswered question — neither the proposal nor `none` is silence", async () => {
+    for (const tiers of [["c1"], ["c1", "c2"]] as ("c1" | "c2")[][]) {
+      const prompt = script([UNANSWERED]);
+      expect(await declareSellTargets(prompt.ask, [order()], fund(tiers))).toMatchObject({
+        status: "abandoned",
+      });
+    }
+  });
+});
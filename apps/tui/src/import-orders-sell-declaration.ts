@@ -0,0 +1,92 @@
+/**
+ * THE THIRD DECLARED HALF, PROMPTED — which units each imported SELL speaks for: one open
+ * position, and one Capital Tier of its lots.
+ *
+ * A resting sell encumbers UNITS the way a resting buy encumbers cash (`S7`), and the
+ * venue knows neither the position nor the tier. So the operator says, once per sell, and
+ * the answer lands on the sell's own placement line as `positionId` and `tier`. A buy is
+ * never asked: its claim is on a reserve, which `declareFunding` already declared.
+ *
+ * PROPOSED WHERE THE FOLD IS UNAMBIGUOUS (`proposeSellTarget`) and RATIFIED with one
+ * Enter; otherwise typed. `0` — or a blank where nothing was proposed — declares NOTHING,
+ * and the sell is written as every sell before this field was: on file, resting, and
+ * encumbering no position, which the Spoken For block then names rather than hides. That
+ * decline is a first-class answer for the reason `declareRungPicks`' is: a sell against
+ * units the fund file does not record is not an error this import can correct.
+ *
+ * IT TAKES THE PROMPT CHANNEL AND THE FOLD AS A VALUE, NOT THE IO BAG, for the reason
+ * `declareFunding`'s header records — no back-edge to the module it serves, and the
+ * compiler rather than a throwing stub holds "reads nothing but the prompt channel".
+ *
+ * WHETHER THE DECLARED UNITS EXIST IS NOT DECIDED HERE. An answer that names a position
+ * the fold does not have, or a tier it holds too little of, is refused by the unit-side
+ * guard over the WHOLE book (`checkUnitCoverage`) — one rule, weighed once, in the import
+ * that owns the write. This pass only refuses what it cannot READ.
+ */
+import {
+  isCapitalTier,
+  proposeSellTarget,
+  type FundReviewData,
+  type SellTarget,
+  type VenueOpenOrder,
+} from "@numisma/engine";
+import { UNANSWERED, type Answer } from "./prompt-channel.js";
+
+/** How one sell is shown when the operator is asked about it. */
+function describeOrder(order: VenueOpenOrder): string {
+  return `${order.symbol} ${order.side} ${order.quantity} @ ${order.price} (${order.observedAt})`;
+}
+
+export type SellTargetDeclaration =
+  /** Keyed by order id — the shape `OrderAttribution.sellTargets` takes. */
+  | { status: "declared"; targets: Record<string, SellTarget> }
+  /** An answer was neither `<position> <tier>`, `0`, nor a blank. Nothing was inferred. */
+  | { status: "unreadable"; order: string; answer: string }
+  /** A question in this pass went unanswered. No proposal was accepted or declined. */
+  | { status: "abandoned"; question: string };
+
+/**
+ * Prompt for each sell's units. Buys pass through unasked, and a batch with no sell in it
+ * asks nothing at all.
+ */
+export async function declareSellTargets(
+  ask: (question: string) => Promise<Answer>,
+  orders: readonly VenueOpenOrder[],
+  fund: FundReviewData,
+): Promise<SellTargetDeclaration> {
+  const targets: Record<string, SellTarget> = {};
+  for (const order of orders) {
+    if (order.side !== "sell") {
+      continue;
+    }
+    const proposal = proposeSellTarget(fund, order.symbol);
+    const hint =
+      proposal === undefined
+        ? "<position> <tier>, blank for none"
+        : `${proposal.positionId} ${proposal.tier}; 0 for none`;
+    const reply = await ask(`  ${describeOrder(order)} sells units of [${hint}]: `);
+    // EVERY ANSWER HERE IS DURABLE — a target, or the lack of one — on an append-only
+    // line, so no reading of silence is safe: not the proposal, and not "none" either.
+    if (reply === UNANSWERED) {
+      return { status: "abandoned", question: `the units ${describeOrder(order)} sells` };
+    }
+    const answer = reply.trim();
+    if (answer === "0" || (answer === "" && proposal === undefined)) {
+      continue;
+    }
+    if (answer === "" && proposal !== undefined) {
+      targets[order.id] = proposal;
+      continue;
+    }
+    const [positionId, tier, ...rest] = answer.split(/\s+/);
+    if (positionId === undefined || tier === undefined || rest.length > 0) {
+      return { status: "unreadable", order: describeOrder(order), answer };
+    }
+    const normalizedTier = tier.toLowerCase();
+    if (!isCapitalTier(normalizedTier)) {
+      return { status: "unreadable", order: describeOrder(order), answer };
+    }
+    targets[order.id] = { positionId, tier: normalizedTier };
+  }
+  return { status: "declared", targets };
+}
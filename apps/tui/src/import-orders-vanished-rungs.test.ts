@@ -0,0 +1,90 @@
+/**
+ * The vanished-rung interview's rules, asserted directly — what each answer writes, and
+ * that only an explicit `c` writes anything at all.
+ *
+ * IT TAKES THE PROMPT CHANNEL AND THE CANDIDATES AS VALUES, so every case here is a
+ * scripted `ask` over literal resting rungs. Every rung and price is SYNTHESIZED (`O7`).
+ */
+import type { RestingOrder } from "@numisma/engine";
+import { describe, expect, it } from "vitest";
+import { declareVanishedRungs } from "./import-orders-vanished-rungs.js";
+import { UNANSWERED, type Answer } from "./prompt-channel.js";
+
+const LOOK = "2026-08-08T09:00:00";
+
+function resting(id: string, remainingQuantity = 0.1): RestingOrder {
+  return {
+    placed: {
+      id,
+      observedAt: "2026-08-07T10:00:00",
+      kind: "orderPlaced",
+      currency: "USD",
+      symbol: "XYZ/USDT",
+      side: "buy",
+      price: 900,
+      quantity: 0.1,
+      fundingReserveId: "reserve-a",
+    },
+    remainingQuantity,
+  };
+}
+
+function scripted(answers: Answer[]): {
+  ask: (question: string) => Promise<Answer>;
+  asked: string[];
+} {
+  const asked: string[] = [];
+  return {
+    asked,
+    ask: async (question) => {
+      asked.push(question);
+      return answers.shift() ?? UNANSWERED;
+    },
+  };
+}
+
+describe("declareVanishedRungs", () => {
+  it("asks nothing when the export omitted nothing", async () => {
+    const { ask, asked } = scripted([]);
+    const declared = await declareVanishedRungs(ask, [], LOOK);
+    expect(declared).toEqual({ status: "declared", cancellations: [], filled: [] });
+    expect(asked).toEqual([]);
+  });
+
+  it("builds a cancellation at the import's stamp, in the rung's own currency, for `c`", async () => {
+    const { ask } = scripted(["C"]);
+    const declared = await declareVanishedRungs(ask, [resting("rung-a")], LOOK);
+    expect(declared).toEqual({
+      status: "declared",
+      cancellations: [
+        { id: "rung-a", observedAt: LOOK, kind: "orderCancelled", currency: "USD" },
+      ],
+      filled: [],
+    });
+  });
+
+  it("keeps a blank resting and hands an `f` back unwritten, one question per rung", async () => {
+    const { ask, asked } = scripted(["", "f"]);
+    const declared = await declareVanishedRungs(
+      ask,
+      [resting("rung-a"), resting("rung-b", 0.04)],
+      LOOK,
+    );
+    expect(declared).toMatchObject({ status: "declared", cancellations: [] });
+    if (declared.status !== "declared") return;
+    expect(declared.filled.map((order) => order.placed.id)).toEqual(["rung-b"]);
+    expect(asked[1]).toContain("rung-b (XYZ/USDT buy 0.04 @ 900 USD) is not in this export");
+  });
+
+  it("abandons on silence — a blank keeps, but nobody answering is not a blank", async () => {
+    const { ask } = scripted([]);
+    const declared = await declareVanishedRungs(ask, [resting("rung-a")], LOOK);
+    expect(declared).toEqual({ status: "abandoned", question: "what became of rung-a" });
+  });
+
+  it("returns an answer it cannot read rather than guessing at it", async () => {
+    const { ask } = scripted(["cancel it"]);
+    const declared = await declareVanishedRungs(ask, [resting("rung-a")], LOOK);
+    expect(declared).toMatchObject({ status: "unreadable", answer: "cancel it" });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * THE RUNGS THAT LEFT THE VENUE'S BOOK, PROMPTED — what the operator says became of each
+ * rung the file still counts as resting and this export no longer shows.
+ *
+ * THE EXPORT CANNOT SAY, SO THE OPERATOR DOES (ADR-013, `D12`). An absence is a
+ * cancellation or a fill and looks identical either way, so nothing is inferred from it:
+ * `detectVanishedRungs` only PROPOSES, and each candidate gets one question here. Before
+ * this, a rung cancelled at the venue and never `pnpm orders:cancel`led stayed committed
+ * forever, and the only prompt to retire it was the operator's memory.
+ *
+ * THREE ANSWERS, AND ONLY ONE OF THEM WRITES.
+ *
+ *   - `c` — cancelled. An `orderCancelled` line, stamped with this import's one look and
+ *     appended in the same write as the batch, so the retirement rides into `O1` as well.
+ *   - `f` — filled. NOTHING is written here, and that is a deliberate scope cut rather than
+ *     a step still to come: a fill is something the fund DID and lands in the event log
+ *     through the fill act, and this import never touches the log. The rung stays
+ *     resting, and the closing report says so in those words, with `pnpm orders:fill` and
+ *     `pnpm orders:fills-import` as the next move.
+ *   - blank — leave it resting. THE DEFAULT, and deliberately the one that writes nothing.
+ *     A cancellation FREES encumbrance and moves available UP, which is the money-costing
+ *     direction (`cancel-order.ts`), so it is never what an Enter means.
+ *
+ * IT TAKES THE PROMPT CHANNEL AND THE CANDIDATES AS VALUES, NOT THE IO BAG, for the reason
+ * `declareFunding`'s header records — no back-edge to the module it serves.
+ */
+import type { OrderCancelledRecord, RestingOrder } from "@numisma/engine";
+import { UNANSWERED, type Answer } from "./prompt-channel.js";
+
+/** How one vanished rung is shown when the operator is asked about it. */
+function describeRung(order: RestingOrder): string {
+  const { placed } = order;
+  return (
+    `${placed.id} (${placed.symbol} ${placed.side} ${order.remainingQuantity} @ ` +
+    `${placed.price} ${placed.currency})`
+  );
+}
+
+export type VanishedRungDeclaration =
+  | {
+      status: "declared";
+      /** One line per rung answered `c`, ready to append. */
+      cancellations: OrderCancelledRecord[];
+      /** The rungs answered `f` — still resting, and owed a fill act. */
+      filled: RestingOrder[];
+    }
+  /** An answer was neither `c`, `f`, nor a blank. Nothing was inferred. */
+  | { status: "unreadable"; rung: string; answer: string }
+  /** A question in this pass went unanswered. No rung was retired or kept by it. */
+  | { status: "abandoned"; question: string };
+
+/**
+ * Ask what became of each vanished rung. An export that omits nothing asks nothing.
+ *
+ * `observedAt` is the import's own stamp — one export is one look, so every retirement it
+ * records was observed at the same moment as every other line of the batch.
+ */
+export async function declareVanishedRungs(
+  ask: (question: string) => Promise<Answer>,
+  vanished: readonly RestingOrder[],
+  observedAt: string,
+): Promise<VanishedRungDeclaration> {
+  const cancellations: OrderCancelledRecord[] = [];
+  const filled: RestingOrder[] = [];
+  for (const order of vanished) {
+    const reply = await ask(
+      `  ${describeRung(order)} is not in this export — [c]ancelled, [f]illed, or blank ` +
+        `to leave it resting: `,
+    );
+    // Blank keeps the rung, but SILENCE is not blank: a cancellation is a durable line on
+    // an append-only file, and an abandoned terminal has not said which way to go.
+    if (reply === UNANSWERED) {
+      return { status: "abandoned", question: `what became of ${order.placed.id}` };
+    }
+    const answer = reply.trim().toLowerCase();
+    if (answer === "") {
+      continue;
+    }
+    if (answer === "c") {
+      cancellations.push({
+        id: order.placed.id,
+        observedAt,
+        kind: "orderCancelled",
+        // Carried from the rung's own placement, never defaulted — `cancelOrder`'s rule.
+        currency: order.placed.currency,
+      });
+      continue;
+    }
+    if (answer === "f") {
+      filled.push(order);
+      continue;
+    }
+    return { status: "unreadable", rung: describeRung(order), answer };
+  }
+  return { status: "declared", cancellations, filled };
+}
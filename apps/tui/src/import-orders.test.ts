@@ -13,6 +13,7 @@ import { tmpdir } from "node:os";
 import { dirname, join, resolve } from "node:path";
 import { appendOrders, loadOrders, resolveOrdersPath } from "@numisma/preferences";
 import {
+  BINANCE_OPEN_ORDERS_HEADER,
   BITGET_OPEN_ORDERS_HEADER,
   buildOrderFillObserved,
   mergeCollidingClaims,
@@ -27,7 +28,7 @@ import {
 } from "@numisma/engine";
 import { afterEach, describe, expect, it } from "vitest";
 import { describeMerge } from "./import-orders-merge-notice.js";
-import { importBitgetOpenOrders, type OrdersImportIo } from "./import-orders.js";
+import { importOpenOrders, type OrdersImportIo } from "./import-orders.js";
 import { UNANSWERED, type Answer } from "./prompt-channel.js";
 
 const createdDirs: string[] = [];
@@ -294,15 +295,15 @@ async function remainingOnDisk(path: string): Promise<number[]> {
   return pickRestingOrdersAsOf(load.records).map((order) => order.remainingQuantity);
 }
 
-describe("importBitgetOpenOrders — deterministic ids (testing decision 5)", () => {
+describe("importOpenOrders — deterministic ids (testing decision 5)", () => {
   it("appends the ladder once and ZERO lines on a re-import of the same export", async () => {
     const first = await harness();
-    const imported = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const imported = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     expect(imported).toMatchObject({ status: "imported", appended: 2, alreadyKnown: 0 });
 
     const afterFirst = await readFile(first.ordersPath, "utf8");
 
-    const again = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const again = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     expect(again).toMatchObject({ status: "imported", appended: 0, alreadyKnown: 2 });
 
     // The file is BYTE-IDENTICAL: not merely "no new orders", but no new lines at all.
@@ -317,14 +318,14 @@ describe("importBitgetOpenOrders — deterministic ids (testing decision 5)", ()
     // rung would read 8 remaining of a 10-unit claim — free capital that does not exist.
     const partial = ladder(partlyFilledRung("100", "10", "6", "2020-01-01 10:00:00"));
     const first = await harness({ csv: partial });
-    expect(await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io })).toMatchObject({
+    expect(await importOpenOrders({ csvPath: first.csvPath, io: first.io })).toMatchObject({
       status: "imported",
       appended: 1,
     });
     const afterFirst = await readFile(first.ordersPath, "utf8");
     expect(await remainingOnDisk(first.ordersPath)).toEqual([4]);
 
-    const again = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const again = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     expect(again).toMatchObject({ status: "imported", appended: 0, alreadyKnown: 1 });
 
     // Byte-identical, and the remainder is unmoved: counted once, on both readings.
@@ -339,7 +340,7 @@ describe("importBitgetOpenOrders — deterministic ids (testing decision 5)", ()
 
   it("carries the pair's quote currency onto every record, explicitly", async () => {
     const { csvPath, io, ordersPath } = await harness();
-    await importBitgetOpenOrders({ csvPath, io });
+    await importOpenOrders({ csvPath, io });
     const load = await loadOrders(ordersPath, { warn: () => {} });
     expect(load.status).toBe("loaded");
     if (load.status !== "loaded") return;
@@ -359,7 +360,7 @@ describe("one id identifies exactly ONE claim (#174)", () => {
       csv: COLLIDING_LADDER,
       reserves: [{ id: "reserve-a", amount: 5000 }],
     });
-    const outcome = await importBitgetOpenOrders({ csvPath, io });
+    const outcome = await importOpenOrders({ csvPath, io });
 
     expect(outcome).toMatchObject({ status: "imported", appended: 1, alreadyKnown: 0 });
     // ONE line, under ONE id, claiming the SUM. Dropping either row would be a guess;
@@ -381,7 +382,7 @@ describe("one id identifies exactly ONE claim (#174)", () => {
       csv: COLLIDING_LADDER,
       reserves: [{ id: "reserve-a", amount: 5000 }],
     });
-    await importBitgetOpenOrders({ csvPath, io });
+    await importOpenOrders({ csvPath, io });
 
     const notice = outputs.find((message) => message.includes("MERGED"));
     expect(notice).toBeDefined();
@@ -404,7 +405,7 @@ describe("one id identifies exactly ONE claim (#174)", () => {
       csv: COLLIDING_LADDER,
       reserves: [{ id: "reserve-a", amount: 1500 }],
     });
-    const outcome = await importBitgetOpenOrders({ csvPath, io });
+    const outcome = await importOpenOrders({ csvPath, io });
 
     expect(outcome).not.toMatchObject({ status: "imported" });
     expect(outcome).toMatchObject({ status: "rejected", reason: "over-committed" });
@@ -413,7 +414,7 @@ describe("one id identifies exactly ONE claim (#174)", () => {
 
   it("REFUSES an amended row — same id, different quantity — instead of calling it known", async () => {
     const first = await harness({ reserves: [{ id: "reserve-a", amount: 5000 }] });
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     const before = await readFile(first.ordersPath, "utf8");
 
     // The SAME rung by every id component, re-exported with a different size. There is
@@ -424,7 +425,7 @@ describe("one id identifies exactly ONE claim (#174)", () => {
       rung("900", "0.1", "2020-01-01 10:00:01"),
     );
     await writeFile(first.csvPath, amended, "utf8");
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "changed-claim" });
     // NEVER counted as already known: it is a change, not a re-sighting.
@@ -464,7 +465,7 @@ describe("a restated partial is recorded as an observation (#181)", () => {
       csv: ladder(PARTLY_FILLED),
       reserves: [{ id: "reserve-a", amount: 5000 }],
     });
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     const [restedId] = await idsOnDisk(first.ordersPath);
     if (restedId === undefined) throw new Error("expected the rung on disk");
     return { first, restedId };
@@ -483,7 +484,7 @@ describe("a restated partial is recorded as an observation (#181)", () => {
       ),
       "utf8",
     );
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).not.toMatchObject({ status: "rejected" });
     // WAS `appended: 1, alreadyKnown: 0` AND STILL IS — but for a reason worth restating,
@@ -511,7 +512,7 @@ describe("a restated partial is recorded as an observation (#181)", () => {
       ),
       "utf8",
     );
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     // THE INVERSION OF #199's ASSERTION, and the reason is the whole slice. #199 asserted
     // `not imported` / `imported-partial`, because a restatement was a DEFERRAL: a rung
@@ -540,7 +541,7 @@ describe("a restated partial is recorded as an observation (#181)", () => {
       ),
       "utf8",
     );
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     const line = first.outputs.find((message) => message.includes("OBSERVED"));
     expect(line).toBeDefined();
@@ -577,7 +578,7 @@ describe("a restated partial is recorded as an observation (#181)", () => {
       ),
       "utf8",
     );
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "imported-partial", appended: 1 });
     if (outcome.status !== "imported-partial") throw new Error("expected a partial import");
@@ -598,7 +599,7 @@ describe("a restated partial is recorded as an observation (#181)", () => {
 
   it("renders the observation clause AT ZERO on an import that observed nothing", async () => {
     const { csvPath, io, outputs } = await harness();
-    const outcome = await importBitgetOpenOrders({ csvPath, io });
+    const outcome = await importOpenOrders({ csvPath, io });
     expect(outcome).toMatchObject({ status: "imported", appended: 2 });
     if (outcome.status !== "imported") throw new Error("expected a clean import");
     expect(outcome.observations).toEqual([]);
@@ -625,7 +626,7 @@ describe("a restated partial is recorded as an observation (#181)", () => {
       ladder(partlyFilledRung("100", "10", "8", "2020-01-01 10:00:00")),
       "utf8",
     );
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     const load = await loadOrders(first.ordersPath, { warn: () => {} });
     if (load.status !== "loaded") throw new Error("expected a loaded sidecar");
@@ -663,7 +664,7 @@ describe("a restated partial is recorded as an observation (#181)", () => {
       ladder(partlyFilledRung("100", "10", "8", "2020-01-01 10:00:00")),
       "utf8",
     );
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     // Not refused, and not qualified: the guard was skipped and the work was done.
     expect(outcome).toMatchObject({ status: "imported", appended: 0, alreadyKnown: 0 });
@@ -705,7 +706,7 @@ describe("a restated partial is recorded as an observation (#181)", () => {
       ),
       "utf8",
     );
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     // ONE lock, one temp write, one rename. The selector sorts at READ time, so there is
     // no ordering reason to split the two kinds across two writes — and a split write is
@@ -729,7 +730,7 @@ describe("a restated partial is recorded as an observation (#181)", () => {
       ),
       "utf8",
     );
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     // Excluded from the guard's view, the restated rung would still weigh 400 and the
     // batch would be refused `over-committed` — over capital this very import is about to
@@ -752,7 +753,7 @@ describe("a restated partial is recorded as an observation (#181)", () => {
       ),
       "utf8",
     );
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "unattributed" });
     if (outcome.status !== "rejected") throw new Error("expected a refusal");
@@ -776,7 +777,7 @@ describe("a restated partial is recorded as an observation (#181)", () => {
       ladder(partlyFilledRung("100", "12", "8", "2020-01-01 10:00:00")),
       "utf8",
     );
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "changed-claim" });
     expect(await readFile(first.ordersPath, "utf8")).toBe(before);
@@ -784,7 +785,7 @@ describe("a restated partial is recorded as an observation (#181)", () => {
 
   it("REFUSES a partial that moved DOWN — its OWN refusal since #181", async () => {
     const first = await harness({ csv: ladder(PARTLY_FILLED) });
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     const before = await readFile(first.ordersPath, "utf8");
 
     // A fill does not un-fill, so this is a contradiction rather than the ordinary life
@@ -795,7 +796,7 @@ describe("a restated partial is recorded as an observation (#181)", () => {
       ladder(partlyFilledRung("100", "10", "4", "2020-01-01 10:00:00")),
       "utf8",
     );
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "backwards-claim" });
     expect(await readFile(first.ordersPath, "utf8")).toBe(before);
@@ -839,7 +840,7 @@ describe("a restated partial is recorded as an observation (#181)", () => {
       ladder(partlyFilledRung("100", "10", "8", "2020-01-01 10:00:00")),
       "utf8",
     );
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "changed-claim" });
     expect(await readFile(first.ordersPath, "utf8")).toBe(before);
@@ -870,7 +871,7 @@ describe("a restated partial is recorded as an observation (#181)", () => {
       ladder(partlyFilledRung("100", "10", "8", "2020-01-01 10:00:00")),
       "utf8",
     );
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "imported" });
     if (outcome.status !== "imported") throw new Error("expected an unqualified import");
@@ -917,21 +918,21 @@ describe("two imports inside ONE second (#181)", () => {
     // ONE INSTANT for all three imports. Nothing advances it, so every observation this
     // test writes carries a byte-identical stamp.
     first.setClock("2026-06-01T09:00:00");
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     await writeFile(
       first.csvPath,
       ladder(partlyFilledRung("100", "10", "8", "2020-01-01 10:00:00")),
       "utf8",
     );
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     await writeFile(
       first.csvPath,
       ladder(partlyFilledRung("100", "10", "9", "2020-01-01 10:00:00")),
       "utf8",
     );
-    const second = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const second = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     const load = await loadOrders(first.ordersPath, { warn: () => {} });
     if (load.status !== "loaded") throw new Error("expected a loaded sidecar");
@@ -967,18 +968,18 @@ describe("two imports inside ONE second (#181)", () => {
       reserves: [{ id: "reserve-a", amount: 5000 }],
     });
     first.setClock("2026-06-01T09:00:00");
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     await writeFile(
       first.csvPath,
       ladder(partlyFilledRung("100", "10", "8", "2020-01-01 10:00:00")),
       "utf8",
     );
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     const before = await readFile(first.ordersPath, "utf8");
 
     // The SAME export again, in the same second.
-    const second = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const second = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(second).toMatchObject({ status: "imported", appended: 0, alreadyKnown: 1 });
     if (second.status !== "imported") throw new Error("expected an unqualified import");
@@ -1010,7 +1011,7 @@ describe("the append filter reads the LATEST observation, not the whole history
     });
     // 1. The rung goes on file: placed 10, the venue showing 6 filled.
     first.setClock("2026-06-01T09:00:00");
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     const [id] = await idsOnDisk(first.ordersPath);
     if (id === undefined) throw new Error("expected the rung on disk");
 
@@ -1020,7 +1021,7 @@ describe("the append filter reads the LATEST observation, not the whole history
       ladder(partlyFilledRung("100", "10", "8", "2020-01-01 10:00:00")),
       "utf8",
     );
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     expect(await remainingOnDisk(first.ordersPath)).toEqual([2]);
 
     // 3. A hand-authored observation asserting 5, at a LATER stamp, supersedes it. The
@@ -1041,7 +1042,7 @@ describe("the append filter reads the LATEST observation, not the whole history
     //    RESTATEMENT — 8 is above 5, and the file's 5 resting covers the venue's 2 — so
     //    the observation is built and must be WRITTEN.
     first.setClock("2026-06-01T11:00:00");
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "imported" });
     if (outcome.status !== "imported") throw new Error("expected an unqualified import");
@@ -1069,20 +1070,20 @@ describe("the append filter reads the LATEST observation, not the whole history
       reserves: [{ id: "reserve-a", amount: 5000 }],
     });
     first.setClock("2026-06-01T09:00:00");
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     await writeFile(
       first.csvPath,
       ladder(partlyFilledRung("100", "10", "8", "2020-01-01 10:00:00")),
       "utf8",
     );
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     const before = await readFile(first.ordersPath, "utf8");
 
     // The SAME export again, and again at a LATER second — so the stamp cannot be what
     // filters it. Only the figure can.
     first.setClock("2026-06-01T11:00:00");
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "imported", appended: 0, alreadyKnown: 1 });
     if (outcome.status !== "imported") throw new Error("expected an unqualified import");
@@ -1144,7 +1145,7 @@ describe("detection is re-based on the latest observation (#181)", () => {
       csv: ladder(PARTLY_FILLED),
       reserves: [{ id: "reserve-a", amount: 5000 }],
     });
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     const [id] = await idsOnDisk(first.ordersPath);
     if (id === undefined) throw new Error("expected the rung on disk");
     await recordObservation(first.ordersPath, id, "2020-01-02T09:00:00", 8);
@@ -1163,7 +1164,7 @@ describe("detection is re-based on the latest observation (#181)", () => {
       "utf8",
     );
 
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     // ADMITTED, not restated: the unqualified status, and NO observation recorded.
     expect(outcome).toMatchObject({
@@ -1188,7 +1189,7 @@ describe("detection is re-based on the latest observation (#181)", () => {
       "utf8",
     );
 
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     // WAS `imported-partial` with the rung SKIPPED and the file byte-identical. Slice
     // #210 writes the line, so the status widens and the file grows — what this test
@@ -1212,7 +1213,7 @@ describe("detection is re-based on the latest observation (#181)", () => {
       "utf8",
     );
 
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "backwards-claim" });
     expect(await readFile(first.ordersPath, "utf8")).toBe(before);
@@ -1260,7 +1261,7 @@ describe("detection is re-based on the latest observation (#181)", () => {
       ladder(partlyFilledRung("100", "10", "9", "2020-01-01 10:00:00")),
       "utf8",
     );
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "changed-claim" });
     expect(await readFile(first.ordersPath, "utf8")).toBe(before);
@@ -1280,7 +1281,7 @@ describe("detection is re-based on the latest observation (#181)", () => {
       ladder(partlyFilledRung("100", "12", "8", "2020-01-01 10:00:00")),
       "utf8",
     );
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "changed-claim" });
     expect(await readFile(first.ordersPath, "utf8")).toBe(before);
@@ -1296,7 +1297,7 @@ describe("detection is re-based on the latest observation (#181)", () => {
       csv: ladder(PARTLY_FILLED),
       reserves: [{ id: "reserve-a", amount: 5000 }],
     });
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     const before = await readFile(first.ordersPath, "utf8");
 
     await writeFile(
@@ -1304,7 +1305,7 @@ describe("detection is re-based on the latest observation (#181)", () => {
       ladder(partlyFilledRung("100", "10", "6.0000000001", "2020-01-01 10:00:00")),
       "utf8",
     );
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({
       status: "imported",
@@ -1400,7 +1401,7 @@ describe("the placement descriptors (#205)", () => {
     await seedPreWideningLine(first.ordersPath, csv);
     const before = await readFile(first.ordersPath, "utf8");
 
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).not.toMatchObject({ status: "rejected" });
     expect(outcome).toMatchObject({ status: "imported", appended: 0, alreadyKnown: 1 });
@@ -1419,7 +1420,7 @@ describe("the placement descriptors (#205)", () => {
         }),
       ),
     });
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     const [id] = await idsOnDisk(first.ordersPath);
     if (id === undefined) throw new Error("expected the rung on disk");
@@ -1436,7 +1437,7 @@ describe("the placement descriptors (#205)", () => {
     const first = await harness({
       csv: ladder(describedRung("1000", "0.1", "2020-01-01 10:00:00")),
     });
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     const raw = await readFile(first.ordersPath, "utf8");
     expect(raw).not.toContain("triggerPrice");
@@ -1452,7 +1453,7 @@ describe("the placement descriptors (#205)", () => {
         describedRung("1000", "0.1", "2020-01-01 10:00:00", { timeInForce: "GTC" }),
       ),
     });
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     const before = await readFile(first.ordersPath, "utf8");
 
     // The SAME rung by every id component and by size, described differently.
@@ -1461,7 +1462,7 @@ describe("the placement descriptors (#205)", () => {
       ladder(describedRung("1000", "0.1", "2020-01-01 10:00:00", { timeInForce: "IOC" })),
       "utf8",
     );
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "descriptor-changed" });
     expect(await readFile(first.ordersPath, "utf8")).toBe(before);
@@ -1484,14 +1485,14 @@ describe("the placement descriptors (#205)", () => {
     const first = await harness({
       csv: ladder(describedRung("1000", "0.1", "2020-01-01 10:00:00", { triggerPrice: "900" })),
     });
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     await writeFile(
       first.csvPath,
       ladder(describedRung("1000", "0.1", "2020-01-01 10:00:00", { triggerPrice: "950" })),
       "utf8",
     );
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "descriptor-changed" });
     if (outcome.status !== "rejected") throw new Error("expected a refusal");
@@ -1507,7 +1508,7 @@ describe("the placement descriptors (#205)", () => {
       csv: ladder(describedRung("1000", "0.1", "2020-01-01 10:00:00", { timeInForce: "GTC" })),
       reserves: [{ id: "reserve-a", amount: 5000 }],
     });
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     const before = await readFile(first.ordersPath, "utf8");
 
     await writeFile(
@@ -1515,7 +1516,7 @@ describe("the placement descriptors (#205)", () => {
       ladder(describedRung("1000", "0.5", "2020-01-01 10:00:00", { timeInForce: "IOC" })),
       "utf8",
     );
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "changed-claim" });
     expect(await readFile(first.ordersPath, "utf8")).toBe(before);
@@ -1534,7 +1535,7 @@ describe("the placement descriptors (#205)", () => {
       ),
       reserves: [{ id: "reserve-a", amount: 5000 }],
     });
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     const before = await readFile(first.ordersPath, "utf8");
 
     // The same rung, filled further AND re-described. `partlyFilledRung` writes `GTC`, so
@@ -1559,7 +1560,7 @@ describe("the placement descriptors (#205)", () => {
         })[column] ?? "",
     ).join(",");
     await writeFile(first.csvPath, ladder(mixed), "utf8");
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "descriptor-changed" });
     // NOTHING WRITTEN — not the observation either, which a skip-class reading would have
@@ -1573,8 +1574,10 @@ describe("the placement descriptors (#205)", () => {
 
 describe("a re-priced rung round-trips as cancel-and-place", () => {
   it("drops the old id and gains a new one, with no re-price branch anywhere", async () => {
-    const first = await harness();
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    // The second import asks what became of the old rung; a blank leaves it resting, so
+    // the identity argument is asserted with nothing retired alongside it.
+    const first = await harness({ answers: ["reserve-a", "n", "", "reserve-a", "n"] });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     const before = await idsOnDisk(first.ordersPath);
 
     // The SAME rung, re-priced by the operator at the venue and re-exported. Nothing in
@@ -1584,7 +1587,7 @@ describe("a re-priced rung round-trips as cancel-and-place", () => {
       rung("890", "0.1", "2020-01-01 11:00:00"),
     );
     await writeFile(first.csvPath, repriced, "utf8");
-    const second = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const second = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     expect(second).toMatchObject({ status: "imported", appended: 1, alreadyKnown: 1 });
 
     const after = await idsOnDisk(first.ordersPath);
@@ -1607,7 +1610,7 @@ describe("`O1` — the over-commitment reject (testing decision 6)", () => {
       reserves: [{ id: "reserve-a", amount: 10 }],
     });
 
-    const outcome = await importBitgetOpenOrders({ csvPath, io });
+    const outcome = await importOpenOrders({ csvPath, io });
     expect(outcome).toMatchObject({ status: "rejected", reason: "over-committed" });
     expect(errors.join("\n")).toContain("REFUSED");
     // NOTHING written: the file was never created.
@@ -1615,13 +1618,14 @@ describe("`O1` — the over-commitment reject (testing decision 6)", () => {
   });
 
   it("leaves an EXISTING sidecar byte-identical when it refuses", async () => {
-    const first = await harness();
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    // Blanks for the two rungs the second export omits: they stay resting and weighed.
+    const first = await harness({ answers: ["reserve-a", "n", "", "", "reserve-a", "n"] });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     const before = await readFile(first.ordersPath, "utf8");
 
     const overflowing = ladder(rung("1000", "5", "2020-02-02 10:00:00"));
     await writeFile(first.csvPath, overflowing, "utf8");
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "over-committed" });
     expect(await readFile(first.ordersPath, "utf8")).toBe(before);
@@ -1629,13 +1633,17 @@ describe("`O1` — the over-commitment reject (testing decision 6)", () => {
 
   it("counts the orders ALREADY on file toward the reserve, not just the new batch", async () => {
     // Each half fits the balance alone; together they do not.
-    const first = await harness({ reserves: [{ id: "reserve-a", amount: 250 }] });
-    await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const first = await harness({
+      reserves: [{ id: "reserve-a", amount: 250 }],
+      // Blanks for the two rungs the second export omits: they stay resting and weighed.
+      answers: ["reserve-a", "n", "", "", "reserve-a", "n"],
+    });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
     const before = await readFile(first.ordersPath, "utf8");
 
     const more = ladder(rung("800", "0.1", "2020-01-02 10:00:00"));
     await writeFile(first.csvPath, more, "utf8");
-    const outcome = await importBitgetOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const outcome = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "over-committed" });
     expect(await readFile(first.ordersPath, "utf8")).toBe(before);
@@ -1643,7 +1651,7 @@ describe("`O1` — the over-commitment reject (testing decision 6)", () => {
 
   it("refuses a reserve the fold has never heard of, rather than reading it as zero", async () => {
     const { csvPath, io, ordersPath } = await harness({ answers: ["reserve-typo", "n"] });
-    const outcome = await importBitgetOpenOrders({ csvPath, io });
+    const outcome = await importOpenOrders({ csvPath, io });
     expect(outcome).toMatchObject({ status: "rejected", reason: "unattributed" });
     expect(await readOrDefault(ordersPath, "<<absent>>")).toBe("<<absent>>");
   });
@@ -1673,7 +1681,7 @@ describe("`O1` — the over-commitment reject (testing decision 6)", () => {
       seededRung("rung-mxn", "2020-01-01 09:00:01", "reserve-mxn"),
     ]);
 
-    const outcome = await importBitgetOpenOrders({ csvPath, io });
+    const outcome = await importOpenOrders({ csvPath, io });
     expect(outcome).toMatchObject({ status: "rejected", reason: "unattributed" });
 
     const refusal = errors.join("\n");
@@ -1735,7 +1743,7 @@ describe("`O1` — the over-commitment reject (testing decision 6)", () => {
       answers: ["reserve-paper", "n"],
       reserves: [{ id: "reserve-paper", amount: 1000, executionMode: "paper" }],
     });
-    await importBitgetOpenOrders({ csvPath, io });
+    await importOpenOrders({ csvPath, io });
 
     const refusal = errors.join("\n");
     expect(refusal).toContain("REFUSED — 1 rung cannot be placed against a fundable reserve.");
@@ -1748,7 +1756,7 @@ describe("`O1` — the over-commitment reject (testing decision 6)", () => {
 describe("the declared half — one field, once per batch", () => {
   it("asks for the funding reserve ONCE and stamps it on every rung", async () => {
     const { csvPath, io, ordersPath, asked } = await harness({ answers: ["reserve-a", "n"] });
-    await importBitgetOpenOrders({ csvPath, io });
+    await importOpenOrders({ csvPath, io });
 
     const reserveQuestions = asked.filter((question) => question.includes("this batch"));
     expect(reserveQuestions).toHaveLength(1);
@@ -1768,7 +1776,7 @@ describe("the declared half — one field, once per batch", () => {
         { id: "reserve-b", amount: 1000 },
       ],
     });
-    await importBitgetOpenOrders({ csvPath, io });
+    await importOpenOrders({ csvPath, io });
 
     const load = await loadOrders(ordersPath, { warn: () => {} });
     if (load.status !== "loaded") throw new Error("expected a loaded sidecar");
@@ -1779,7 +1787,7 @@ describe("the declared half — one field, once per batch", () => {
 
   it("records NEITHER a positionId NOR a batch/ladder id", async () => {
     const { csvPath, io, ordersPath } = await harness();
-    await importBitgetOpenOrders({ csvPath, io });
+    await importOpenOrders({ csvPath, io });
     const raw = await readFile(ordersPath, "utf8");
     expect(raw).not.toContain("positionId");
     expect(raw).not.toContain("ladderId");
@@ -1788,7 +1796,7 @@ describe("the declared half — one field, once per batch", () => {
 
   it("writes nothing when no funding reserve is declared", async () => {
     const { csvPath, io, ordersPath } = await harness({ answers: [""] });
-    const outcome = await importBitgetOpenOrders({ csvPath, io });
+    const outcome = await importOpenOrders({ csvPath, io });
     expect(outcome).toMatchObject({ status: "rejected", reason: "no-reserve-declared" });
     expect(await readOrDefault(ordersPath, "<<absent>>")).toBe("<<absent>>");
   });
@@ -1799,7 +1807,7 @@ describe("the export is refused whole when it is not an open-orders export", ()
     const { csvPath, io, ordersPath, asked } = await harness({
       csv: "timestamp,pair,side,price,quantity,fee\n2020-01-01 10:00:00,XYZ/USDT,Buy,1000,0.1,0\n",
     });
-    const outcome = await importBitgetOpenOrders({ csvPath, io });
+    const outcome = await importOpenOrders({ csvPath, io });
     expect(outcome).toMatchObject({ status: "rejected", reason: "unrecognized-header" });
     expect(asked).toEqual([]);
     expect(await readOrDefault(ordersPath, "<<absent>>")).toBe("<<absent>>");
@@ -1810,12 +1818,46 @@ describe("the export is refused whole when it is not an open-orders export", ()
     await mkdir(dirname(ordersPath), { recursive: true });
     await writeFile(ordersPath, "{not json}\n", "utf8");
 
-    const outcome = await importBitgetOpenOrders({ csvPath, io });
+    const outcome = await importOpenOrders({ csvPath, io });
     expect(outcome).toMatchObject({ status: "rejected", reason: "unreadable-sidecar-lines" });
     expect(await readFile(ordersPath, "utf8")).toBe("{not json}\n");
   });
 });
 
+describe("a second venue's export takes the same flow, chosen by its header", () => {
+  /** Two synthetic Binance rungs, the upper one partly executed. */
+  const BINANCE_LADDER = [
+    BINANCE_OPEN_ORDERS_HEADER.join(","),
+    "2020-01-01 10:00:00,1001,XYZUSDT,LIMIT,BUY,100,1,0.5,100,50,PARTIALLY_FILLED",
+    "2020-01-01 10:00:01,1002,XYZUSDT,LIMIT,BUY,90,1,0,0,0,NEW",
+  ].join("\n");
+
+  it("imports under the venue's own ids, weighs the remainder, and names the venue", async () => {
+    const { csvPath, io, ordersPath, outputs } = await harness({ csv: BINANCE_LADDER });
+
+    const outcome = await importOpenOrders({ csvPath, io });
+
+    expect(outcome).toMatchObject({ status: "imported", appended: 2 });
+    expect(await idsOnDisk(ordersPath)).toEqual([
+      "binance:XYZUSDT:buy:100:2020-01-01T10:00:00",
+      "binance:XYZUSDT:buy:90:2020-01-01T10:00:01",
+    ]);
+    expect(await remainingOnDisk(ordersPath)).toEqual([0.5, 1]);
+    expect(outputs.join("")).toContain(`Imported ${csvPath} (Binance open orders): 2 order(s)`);
+  });
+
+  it("re-imports the same Binance export as ZERO lines", async () => {
+    const first = await harness({ csv: BINANCE_LADDER });
+    await importOpenOrders({ csvPath: first.csvPath, io: first.io });
+    const before = await readFile(first.ordersPath, "utf8");
+
+    const again = await importOpenOrders({ csvPath: first.csvPath, io: first.io });
+
+    expect(again).toMatchObject({ status: "imported", appended: 0, alreadyKnown: 2 });
+    expect(await readFile(first.ordersPath, "utf8")).toBe(before);
+  });
+});
+
 /**
  * `D2`/`D3` (#177 item 4) — a partial export STILL imports, and says so as a gap.
  *
@@ -1837,7 +1879,7 @@ describe("a partial export imports, and every surface says it was partial", () =
 
   it("DISCRIMINATES in the status rather than hiding the gap in a second field", async () => {
     const { csvPath, io } = await harness({ csv: PARTLY_READABLE_LADDER });
-    const outcome = await importBitgetOpenOrders({ csvPath, io });
+    const outcome = await importOpenOrders({ csvPath, io });
     expect(outcome).toMatchObject({ status: "imported-partial", appended: 1, alreadyKnown: 0 });
     if (outcome.status !== "imported-partial") throw new Error("expected a partial import");
     expect(outcome.skips).toHaveLength(1);
@@ -1845,7 +1887,7 @@ describe("a partial export imports, and every surface says it was partial", () =
 
   it("LEADS the operator's line with the unread rows and names the money DIRECTION", async () => {
     const { csvPath, io, outputs } = await harness({ csv: PARTLY_READABLE_LADDER });
-    await importBitgetOpenOrders({ csvPath, io });
+    await importOpenOrders({ csvPath, io });
 
     const line = outputs.find((message) => message.includes("could not be read"));
     expect(line).toBeDefined();
@@ -1859,13 +1901,13 @@ describe("a partial export imports, and every surface says it was partial", () =
 
   it("still WRITES the readable rungs — the skip omits, it does not refuse", async () => {
     const { csvPath, io, ordersPath } = await harness({ csv: PARTLY_READABLE_LADDER });
-    await importBitgetOpenOrders({ csvPath, io });
+    await importOpenOrders({ csvPath, io });
     expect(await idsOnDisk(ordersPath)).toHaveLength(1);
   });
 
   it("keeps a CLEAN export on the unqualified status", async () => {
     const { csvPath, io } = await harness();
-    const outcome = await importBitgetOpenOrders({ csvPath, io });
+    const outcome = await importOpenOrders({ csvPath, io });
     expect(outcome).toMatchObject({ status: "imported", appended: 2, alreadyKnown: 0 });
   });
 });
@@ -1873,7 +1915,7 @@ describe("a partial export imports, and every surface says it was partial", () =
 /**
  * #184 — a `not-resting` skip is a WEIGHED rung, not an unread one.
  *
- * `parsed.skips` is heterogeneous: three of the four `BitgetRowProblem` members mean the
+ * `parsed.skips` is heterogeneous: three of the four `OpenOrderRowProblem` members mean the
  * row might still be claiming capital and we cannot say how much, while `not-resting`
  * means the parser reached a POSITIVE finding — the encumbrance is zero. Summing all four
  * into the INCOMPLETE line fires a money-direction alarm on the ordinary event of a rung
@@ -1887,7 +1929,7 @@ describe("a rung that filled before the import is not a gap in the read", () =>
       filledRung("1100", "0.1", "2020-01-01 10:00:02"),
     );
     const { csvPath, io, outputs, errors } = await harness({ csv });
-    const outcome = await importBitgetOpenOrders({ csvPath, io });
+    const outcome = await importOpenOrders({ csvPath, io });
 
     expect(outcome).toMatchObject({ status: "imported", appended: 2, alreadyKnown: 0 });
     if (outcome.status !== "imported") throw new Error("expected a clean import");
@@ -1899,7 +1941,7 @@ describe("a rung that filled before the import is not a gap in the read", () =>
       // clause they have to know to look for.
       outputs.some((message) =>
         message.startsWith(
-          `Imported ${csvPath}: 2 order(s) appended, 0 already known, ` +
+          `Imported ${csvPath} (Bitget open orders): 2 order(s) appended, 0 already known, ` +
             `0 observation(s) recorded.`,
         ),
       ),
@@ -1917,7 +1959,7 @@ describe("a rung that filled before the import is not a gap in the read", () =>
       filledRung("1100", "0.1", "2020-01-01 10:00:03"),
     );
     const { csvPath, io, outputs, errors } = await harness({ csv });
-    const outcome = await importBitgetOpenOrders({ csvPath, io });
+    const outcome = await importOpenOrders({ csvPath, io });
 
     expect(outcome).toMatchObject({ status: "imported-partial", appended: 2, alreadyKnown: 0 });
     if (outcome.status !== "imported-partial") throw new Error("expected a partial import");
@@ -1948,7 +1990,7 @@ describe("a failed sidecar write is a refusal, not a thrown error", () => {
       throw new Error("synthetic sidecar write failure");
     };
 
-    const outcome = await importBitgetOpenOrders({ csvPath, io });
+    const outcome = await importOpenOrders({ csvPath, io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "write-failed" });
     if (outcome.status !== "rejected") throw new Error("expected a rejection");
@@ -1995,12 +2037,12 @@ async function placedOnDisk(path: string): Promise<OrderRecord[]> {
   return load.status === "loaded" ? load.records : [];
 }
 
-describe("importBitgetOpenOrders — the declared rung join", () => {
+describe("importOpenOrders — the declared rung join", () => {
   it("writes the accepted proposal onto every matched line, on one Enter", async () => {
     // `reserve-a` funds the batch, `n` declines the funding override, and the blank line
     // accepts the whole rung batch: the happy path costs one keystroke.
     const setup = await harness({ answers: ["reserve-a", "n", ""], plans: [planLadder()] });
-    const outcome = await importBitgetOpenOrders({ csvPath: setup.csvPath, io: setup.io });
+    const outcome = await importOpenOrders({ csvPath: setup.csvPath, io: setup.io });
     expect(outcome).toMatchObject({ status: "imported", appended: 2 });
 
     const records = await placedOnDisk(setup.ordersPath);
@@ -2020,7 +2062,7 @@ describe("importBitgetOpenOrders — the declared rung join", () => {
 
   it("writes NEITHER field when no ladder is in force — every existing line's shape", async () => {
     const setup = await harness({ answers: ["reserve-a", "n"] });
-    await importBitgetOpenOrders({ csvPath: setup.csvPath, io: setup.io });
+    await importOpenOrders({ csvPath: setup.csvPath, io: setup.io });
     const records = await placedOnDisk(setup.ordersPath);
     expect(records).toHaveLength(2);
     for (const record of records) {
@@ -2040,7 +2082,7 @@ describe("importBitgetOpenOrders — the declared rung join", () => {
       answers: ["reserve-a", "n", "n", "", "2"],
       plans: [planLadder([1000, 800])],
     });
-    const outcome = await importBitgetOpenOrders({ csvPath: setup.csvPath, io: setup.io });
+    const outcome = await importOpenOrders({ csvPath: setup.csvPath, io: setup.io });
     expect(outcome).toMatchObject({ status: "imported", appended: 2 });
 
     const records = await placedOnDisk(setup.ordersPath);
@@ -2058,7 +2100,7 @@ describe("importBitgetOpenOrders — the declared rung join", () => {
 
   it("says nothing about picks when every one of them agrees with its rung", async () => {
     const setup = await harness({ answers: ["reserve-a", "n", ""], plans: [planLadder()] });
-    await importBitgetOpenOrders({ csvPath: setup.csvPath, io: setup.io });
+    await importOpenOrders({ csvPath: setup.csvPath, io: setup.io });
     expect(setup.outputs.join("")).not.toContain("PICKED —");
   });
 });
@@ -2090,7 +2132,7 @@ describe("an import nobody can answer refuses at the FIRST question and writes n
     // sentinel — precisely what the shell hands the flow on a stdin that is no terminal.
     const setup = await harness({ answers: [UNANSWERED], plans: [planLadder()] });
 
-    const outcome = await importBitgetOpenOrders({ csvPath: setup.csvPath, io: setup.io });
+    const outcome = await importOpenOrders({ csvPath: setup.csvPath, io: setup.io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "no-reserve-declared" });
     // THE PIN. One question — the funding declaration — and the refusal came from it.
@@ -2153,7 +2195,7 @@ describe("an interview abandoned at the terminal writes NOTHING (#370, clause 4)
     const setup = await harness({ plans: [planLadder()] });
     const calls = abandonAfterFirstAnswer(setup);
 
-    const outcome = await importBitgetOpenOrders({ csvPath: setup.csvPath, io: setup.io });
+    const outcome = await importOpenOrders({ csvPath: setup.csvPath, io: setup.io });
 
     // THE PIN. Without a refusal at the question this is `imported / appended: 2`,
     // carrying declared rung joins the operator never accepted.
@@ -2189,7 +2231,7 @@ describe("an interview abandoned at the terminal writes NOTHING (#370, clause 4)
     };
     setup.io.promptAbandoned = () => true;
 
-    const outcome = await importBitgetOpenOrders({ csvPath: setup.csvPath, io: setup.io });
+    const outcome = await importOpenOrders({ csvPath: setup.csvPath, io: setup.io });
 
     expect(appended).toBe(0);
     expect(outcome).toMatchObject({ status: "rejected", reason: "interview-abandoned" });
@@ -2204,7 +2246,7 @@ describe("an interview abandoned at the terminal writes NOTHING (#370, clause 4)
     const setup = await harness({ answers: [UNANSWERED], plans: [planLadder()] });
     setup.io.promptAbandoned = () => true;
 
-    const outcome = await importBitgetOpenOrders({ csvPath: setup.csvPath, io: setup.io });
+    const outcome = await importOpenOrders({ csvPath: setup.csvPath, io: setup.io });
 
     expect(outcome).toMatchObject({ status: "rejected", reason: "no-reserve-declared" });
     expect(setup.asked).toHaveLength(1);
@@ -2217,8 +2259,163 @@ describe("an interview abandoned at the terminal writes NOTHING (#370, clause 4)
     const setup = await harness({ answers: ["reserve-a", "n", ""], plans: [planLadder()] });
     setup.io.promptAbandoned = () => false;
 
-    const outcome = await importBitgetOpenOrders({ csvPath: setup.csvPath, io: setup.io });
+    const outcome = await importOpenOrders({ csvPath: setup.csvPath, io: setup.io });
 
     expect(outcome).toMatchObject({ status: "imported", appended: 2 });
   });
 });
+
+describe("a resting sell declares the units it speaks for", () => {
+  /** The synthetic fund holding one open position on the pair: 10 units, all `c1`. */
+  function heldFund(): FundReviewData {
+    const fund = syntheticFund([{ id: "reserve-a", amount: 1000 }]);
+    return {
+      ...fund,
+      positions: [
+        {
+          id: "position-xyz",
+          portfolioId: "core",
+          tempo: "Capital",
+          executionMode: "live",
+          accountId: "venue-usd",
+          instrumentId: "test-usd",
+          direction: "long",
+          currency: "USD",
+          markPrice: 1000,
+          lots: [{ quantity: 10, cost: 900, tier: "c1" }],
+        },
+      ],
+    };
+  }
+
+  function sellRow(price: string, quantity: string, at: string): string {
+    return rung(price, quantity, at).replace(",Buy,", ",Sell,");
+  }
+
+  it("writes the ratified proposal onto the sell's own line, and asks nothing of a buy", async () => {
+    const setup = await harness({
+      csv: ladder(
+        rung("900", "0.1", "2020-01-01 10:00:00"),
+        sellRow("1500", "4", "2020-01-01 10:00:01"),
+      ),
+      answers: ["reserve-a", "n", ""],
+    });
+    setup.io.fundReview = async () => heldFund();
+
+    const outcome = await importOpenOrders({ csvPath: setup.csvPath, io: setup.io });
+
+    expect(outcome).toMatchObject({ status: "imported", appended: 2 });
+    expect(setup.asked).toHaveLength(3);
+    expect(setup.asked[2]).toContain("sells units of [position-xyz c1; 0 for none]");
+    const load = await loadOrders(setup.ordersPath, { warn: () => {} });
+    if (load.status !== "loaded") throw new Error("expected the sidecar on disk");
+    const placed = load.records.filter((record) => record.kind === "orderPlaced");
+    expect(placed.map((record) => [record.side, record.positionId, record.tier])).toEqual([
+      ["buy", undefined, undefined],
+      ["sell", "position-xyz", "c1"],
+    ]);
+  });
+
+  it("refuses a sell for more units than the declared tier holds, writing nothing", async () => {
+    const setup = await harness({
+      csv: ladder(sellRow("1500", "12", "2020-01-01 10:00:00")),
+      answers: ["reserve-a", "n", ""],
+    });
+    setup.io.fundReview = async () => heldFund();
+
+    const outcome = await importOpenOrders({ csvPath: setup.csvPath, io: setup.io });
+
+    expect(outcome).toMatchObject({ status: "rejected", reason: "over-encumbered" });
+    expect(setup.errors.join("\n")).toContain("position-xyz c1: 12 units resting for sale");
+    expect(await readOrDefault(setup.ordersPath, "<<absent>>")).toBe("<<absent>>");
+  });
+
+  it("refuses a declared position the fold does not hold open", async () => {
+    const setup = await harness({
+      csv: ladder(sellRow("1500", "4", "2020-01-01 10:00:00")),
+      answers: ["reserve-a", "n", "position-gone c1"],
+    });
+    setup.io.fundReview = async () => heldFund();
+
+    const outcome = await importOpenOrders({ csvPath: setup.csvPath, io: setup.io });
+
+    expect(outcome).toMatchObject({ status: "rejected", reason: "unattributed-sell" });
+    expect(await readOrDefault(setup.ordersPath, "<<absent>>")).toBe("<<absent>>");
+  });
+});
+
+describe("a rung the next export no longer shows is put to the operator", () => {
+  /** The first export's 900 rung is gone from the second; the 1000 rung is still there. */
+  const WITHOUT_900 = ladder(rung("1000", "0.1", "2020-01-01 10:00:00"));
+
+  async function importTwice(
+    second: string,
+    answers: Answer[],
+    reserves?: SyntheticReserve[],
+  ): Promise<{ setup: Harness; outcome: Awaited<ReturnType<typeof importOpenOrders>> }> {
+    const setup = await harness({ answers, ...(reserves === undefined ? {} : { reserves }) });
+    await importOpenOrders({ csvPath: setup.csvPath, io: setup.io });
+    await writeFile(setup.csvPath, second, "utf8");
+    setup.setClock("2026-06-02T09:00:00");
+    const outcome = await importOpenOrders({ csvPath: setup.csvPath, io: setup.io });
+    return { setup, outcome };
+  }
+
+  it("RETIRES a rung answered `c` in the same append, and says what it freed", async () => {
+    const { setup, outcome } = await importTwice(WITHOUT_900, ["reserve-a", "n", "c"]);
+
+    expect(outcome).toMatchObject({ status: "imported", appended: 0, alreadyKnown: 1 });
+    expect(setup.asked[2]).toContain("is not in this export");
+    const load = await loadOrders(setup.ordersPath, { warn: () => {} });
+    if (load.status !== "loaded") throw new Error("expected the sidecar on disk");
+    const cancelled = load.records.filter((record) => record.kind === "orderCancelled");
+    expect(cancelled).toHaveLength(1);
+    expect(cancelled[0]?.id).toContain(":900:");
+    expect(cancelled[0]?.observedAt).toBe("2026-06-02T09:00:00");
+    expect(await remainingOnDisk(setup.ordersPath)).toHaveLength(1);
+    expect(setup.outputs.join("\n")).toContain("RETIRED — 1 rung(s)");
+  });
+
+  it("KEEPS a rung resting on a blank — absence infers nothing, and nothing is written", async () => {
+    const { setup, outcome } = await importTwice(WITHOUT_900, ["reserve-a", "n", ""]);
+
+    expect(outcome).toMatchObject({ status: "imported", retired: [] });
+    expect(await remainingOnDisk(setup.ordersPath)).toHaveLength(2);
+  });
+
+  it("writes nothing for a rung named FILLED, and names the fill act as the next move", async () => {
+    const { setup, outcome } = await importTwice(WITHOUT_900, ["reserve-a", "n", "f"]);
+
+    expect(outcome).toMatchObject({ status: "imported", retired: [] });
+    expect(await remainingOnDisk(setup.ordersPath)).toHaveLength(2);
+    expect(setup.outputs.join("\n")).toContain("This import does not record fills");
+    expect(setup.outputs.join("\n")).toContain("pnpm orders:fill");
+  });
+
+  it("lets a confirmed retirement free the capital `O1` weighs the new batch against", async () => {
+    // 190 on file against 250; the new 800 rung adds 80, which fits only once the 900 rung
+    // (90) the venue no longer shows is retired.
+    const second = ladder(
+      rung("1000", "0.1", "2020-01-01 10:00:00"),
+      rung("800", "0.1", "2020-01-02 10:00:00"),
+    );
+    const { outcome } = await importTwice(second, ["reserve-a", "n", "c", "reserve-a", "n"], [
+      { id: "reserve-a", amount: 250 },
+    ]);
+
+    expect(outcome).toMatchObject({ status: "imported", appended: 1 });
+  });
+
+  it("REFUSES an abandoned question rather than reading it as keep, writing nothing", async () => {
+    const setup = await harness();
+    await importOpenOrders({ csvPath: setup.csvPath, io: setup.io });
+    const before = await readFile(setup.ordersPath, "utf8");
+    await writeFile(setup.csvPath, WITHOUT_900, "utf8");
+    setup.io.ask = async () => UNANSWERED;
+
+    const outcome = await importOpenOrders({ csvPath: setup.csvPath, io: setup.io });
+
+    expect(outcome).toMatchObject({ status: "rejected", reason: "interview-abandoned" });
+    expect(await readFile(setup.ordersPath, "utf8")).toBe(before);
+  });
+});
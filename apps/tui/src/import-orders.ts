@@ -1,15 +1,21 @@
 /**
- * The IO SHELL for importing a Bitget open-orders export into the `orders.jsonl`
+ * The IO SHELL for importing a venue's open-orders export into the `orders.jsonl`
  * sidecar — the runtime half of the ADR-001 split. Every decision about what the export
- * MEANS is pure and lives in `@numisma/engine` (`parseBitgetOpenOrdersCsv`,
- * `buildOrderPlacedRecords`, `checkFundingCoverage`); this file only reads the file,
- * asks the operator the one question, and writes through `@numisma/preferences`.
+ * MEANS is pure and lives in `@numisma/engine` (`parseOpenOrdersCsv`,
+ * `buildOrderPlacedRecords`, `checkFundingCoverage`, `checkUnitCoverage`); this file only
+ * reads the file, asks the operator its declarations, and writes through
+ * `@numisma/preferences`.
+ *
+ * IT NAMES NO VENUE. The header picks the adapter (`OPEN_ORDERS_VENUES`), and every step
+ * after the parse reads the venue-neutral `VenueOpenOrder` — so a venue the engine learns
+ * to read is a venue this import takes, with no branch here.
  *
  * Every IO dependency is injected, so the whole flow — including the prompt and the
  * `O1` reject — is testable without a terminal, a real export or the real data dir.
  *
  * THE ORDERING IS THE CONTRACT: parse → merge id collisions → load the sidecar → refuse
- * changed claims → record the restated rungs → prompt → check coverage → append. The
+ * changed claims → record the restated rungs → ask after the vanished rungs → prompt →
+ * check coverage → append. The
  * coverage check is the LAST thing before the only write, and every refusal before it
  * returns having written nothing at all. `orders.jsonl` is append-only, so a
  * wrong claim written here is not edited away later — it costs a compensating line
@@ -20,16 +26,17 @@ import {
   buildOrderFillObserved,
   buildOrderPlacedRecords,
   checkFundingCoverage,
+  checkUnitCoverage,
   declaredRungPrice,
   detectChangedClaims,
+  detectVanishedRungs,
   formatObservedAt,
   inForceLadders,
   leavesRungUnweighed,
   mergeCollidingClaims,
-  parseBitgetOpenOrdersCsv,
+  parseOpenOrdersCsv,
   pickRestingOrdersAsOf,
-  type BitgetOpenOrder,
-  type BitgetRowSkip,
+  type OpenOrderRowSkip,
   type OrderFillObservedRecord,
   type OrderPlacedRecord,
   type OrderRecord,
@@ -48,6 +55,8 @@ import {
 } from "./import-orders-changed-claims.js";
 import { declareFunding } from "./import-orders-funding-declaration.js";
 import { declareRungPicks } from "./import-orders-rung-picks.js";
+import { declareSellTargets } from "./import-orders-sell-declaration.js";
+import { declareVanishedRungs } from "./import-orders-vanished-rungs.js";
 import { describeMerge } from "./import-orders-merge-notice.js";
 import {
   reportOrdersImport,
@@ -67,8 +76,8 @@ export interface OrdersImportIo {
   /**
    * THE CLOCK, injected (#181, `D3`). An observation line is stamped with the IMPORT
    * MOMENT — the instant this look at the venue happened — and never with the export row's
-   * own `timestamp` column. That column is the SUBMISSION stamp and an id component
-   * (`bitget.ts`), so a line stamped from it would sort to the placement's own instant,
+   * own submission-stamp column. That column is an id component (`bitget.ts`,
+   * `binance.ts`), so a line stamped from it would sort to the placement's own instant,
    * where `pickRestingOrdersAsOf` has no tie-break and would replay the two in an order
    * nothing decides.
    *
@@ -284,6 +293,17 @@ export type OrdersImportRejection =
    */
   | "unattributed"
   | "over-committed"
+  /** A vanished rung was answered with something other than `c`, `f` or a blank. */
+  | "unreadable-retirement"
+  /** A sell's units were answered in a shape that names no position and tier. */
+  | "unreadable-sell-declaration"
+  /**
+   * The unit-side twins of `unattributed` and `over-committed` (`checkUnitCoverage`): a
+   * sell declares a position the fold does not hold open or a tier it holds no lots in,
+   * or a tier has more units resting for sale than it holds.
+   */
+  | "unattributed-sell"
+  | "over-encumbered"
   /**
    * The sidecar append itself failed (#177 item 5). `appendOrders` builds a full next
    * image and renames, so a failure means NOTHING landed and the flow's own refusal
@@ -415,7 +435,7 @@ function declaredJoinsOnFile(records: readonly OrderRecord[]): RungPick[] {
  * stops being observed. There is no re-price branch anywhere in this flow, and if one
  * ever appears the identity is wrong.
  */
-export async function importBitgetOpenOrders(
+export async function importOpenOrders(
   options: OrdersImportOptions,
 ): Promise<OrdersImportOutcome> {
   const { csvPath, io } = options;
@@ -428,11 +448,12 @@ export async function importBitgetOpenOrders(
     return reject(io, "unreadable-export", `could not read ${csvPath}: ${detail}`);
   }
 
-  const parsed = parseBitgetOpenOrdersCsv(csv);
+  const parsed = parseOpenOrdersCsv(csv);
   if (parsed.status !== "ok") {
-    // Refusing the whole file is the point: a header we do not know means the operator
-    // is holding some OTHER export (a fills or holdings CSV), and half-reading it as an
-    // order book would attribute capital against columns that do not mean what we think.
+    // Refusing the whole file is the point: a header no venue claims means the operator
+    // is holding some OTHER export (a fills or holdings CSV, or a venue this build has no
+    // adapter for), and half-reading it as an order book would attribute capital against
+    // columns that do not mean what we think.
     return reject(io, "unrecognized-header", `${csvPath} is not an open-orders export — ${parsed.message}`);
   }
 
@@ -590,7 +611,7 @@ export async function importBitgetOpenOrders(
   //
   // BUILT THROUGH THE TOTAL CONSTRUCTOR, from the EXPORT ROW rather than from `restated`,
   // so the figure and the currency come off the same row the decision was made on and no
-  // field needs a default. `filledQuantity` is REQUIRED on a `BitgetOpenOrder`, so there
+  // field needs a default. `filledQuantity` is REQUIRED on a `VenueOpenOrder`, so there
   // is no `?? 0` here and could not be one: the parser admits a row only when
   // `quantity − filledQuantity > 0`, having read both columns.
   const observations: OrderFillObservedRecord[] = [];
@@ -625,6 +646,33 @@ export async function importBitgetOpenOrders(
   // header for why the reporter takes the map rather than `restated` itself.
   const knownFigures = new Map(restated.map((claim) => [claim.id, claim.known] as const));
 
+  // THE RUNGS THIS EXPORT NO LONGER SHOWS, put to the operator before the batch is
+  // declared — the first question of the interview, because they are about the book
+  // already on file. A rung cancelled at the venue and never retired here would otherwise
+  // stay committed forever. Each is only PROPOSED (`D12`): a blank keeps it resting, and
+  // only an explicit `c` writes the `orderCancelled` line, in this batch's one append.
+  const vanished = detectVanishedRungs(restingOnFile, orders, parsed.venue.venue, observedAt);
+  if (vanished.length > 0 && parsed.skips.some((entry) => leavesRungUnweighed(entry.problem))) {
+    // An unread row may BE one of these rungs, still resting. Said before the questions,
+    // so the operator weighs each answer knowing the export is not the whole book.
+    io.err(
+      `${csvPath} has rows this build could not read, so a rung below may still be resting ` +
+        `in one of them — leave it resting if unsure`,
+    );
+  }
+  const retired = await declareVanishedRungs(io.ask, vanished, observedAt);
+  if (retired.status === "abandoned") {
+    return rejectAbandonedInterview(io, retired.question);
+  }
+  if (retired.status === "unreadable") {
+    return reject(
+      io,
+      "unreadable-retirement",
+      `'${retired.answer}' does not say what became of ${retired.rung} — answer c for ` +
+        `cancelled, f for filled, or leave it blank to keep it resting`,
+    );
+  }
+
   // AN OBSERVATIONS-ONLY IMPORT SKIPS BOTH THE PROMPT AND THE GUARD. There is nothing to
   // attribute — every rung here is already on file under its own placement line, with a
   // `fundingReserveId` `declareFunding` would not touch — so prompting would ask a
@@ -671,11 +719,27 @@ export async function importBitgetOpenOrders(
     if (picked.status === "abandoned") {
       return rejectAbandonedInterview(io, picked.question);
     }
+    // THE UNITS EACH SELL SPEAKS FOR, asked against the fold this import's guards weigh —
+    // read ONCE here, so the proposal and the two guards below see one book.
+    const fund = await io.fundReview();
+    const sold = await declareSellTargets(io.ask, admitted, fund);
+    if (sold.status === "abandoned") {
+      return rejectAbandonedInterview(io, sold.question);
+    }
+    if (sold.status === "unreadable") {
+      return reject(
+        io,
+        "unreadable-sell-declaration",
+        `'${sold.answer}' does not name the units ${sold.order} sells — answer a position ` +
+          `id and a capital tier (c1/c2/c3), or 0 for none`,
+      );
+    }
     records.push(
       ...buildOrderPlacedRecords(admitted, {
         fundingReserveId: declaration.fundingReserveId,
         overrides: declaration.overrides,
         rungPicks: picked.picks,
+        sellTargets: sold.targets,
       }),
     );
 
@@ -685,9 +749,16 @@ export async function importBitgetOpenOrders(
     //
     // THE OBSERVATIONS RIDE IN. Excluded, the guard would weigh the restated rungs at their
     // STALE remainders and could return `over-committed` over capital this very import is
-    // about to free — a false refusal, in the direction of blocking legitimate work.
-    const resting = pickRestingOrdersAsOf([...existingRecords, ...records, ...observations]);
-    const coverage = checkFundingCoverage(resting, await io.fundReview());
+    // about to free — a false refusal, in the direction of blocking legitimate work. The
+    // confirmed retirements ride in for the same reason: the venue funded this batch with
+    // the capital those rungs no longer hold.
+    const resting = pickRestingOrdersAsOf([
+      ...existingRecords,
+      ...records,
+      ...observations,
+      ...retired.cancellations,
+    ]);
+    const coverage = checkFundingCoverage(resting, fund);
     if (coverage.status === "unattributed") {
       // ONE refusal for BOTH classes. Cross-currency funding is not designed and an
       // unadmitted reserve cannot fund a live claim; either way the rung is refused here
@@ -725,6 +796,42 @@ export async function importBitgetOpenOrders(
           `declaration rather than the file`,
       );
     }
+
+    // THE UNIT-SIDE `O1`, over the same whole book: no tier of a position may have more
+    // units resting for sale than it holds. A sell written before sells declared their
+    // units is not weighed — nothing this import could declare would clear it.
+    const units = checkUnitCoverage(fund, resting);
+    if (units.status === "unattributed") {
+      const detail = units.unmatched
+        .map(
+          (entry) =>
+            `${entry.sell.orderId} declares ${entry.sell.target?.positionId} ` +
+            `${entry.sell.target?.tier} (${entry.reason})`,
+        )
+        .join("; ");
+      return reject(
+        io,
+        "unattributed-sell",
+        `a sell names units the fold does not hold — ${detail}. Declare an open position ` +
+          `and a tier it holds lots in, or 0 for none`,
+      );
+    }
+    if (units.status === "over-encumbered") {
+      const detail = units.shortfalls
+        .map(
+          (shortfall) =>
+            `${shortfall.positionId} ${shortfall.tier}: ${shortfall.committed} units resting ` +
+            `for sale against ${shortfall.held} held`,
+        )
+        .join("; ");
+      return reject(
+        io,
+        "over-encumbered",
+        `the declared positions cannot cover these sells — ${detail}. The venue would not ` +
+          `rest a sell for units the account does not hold, so the DECLARATION is wrong; ` +
+          `fix it rather than the file`,
+      );
+    }
   }
 
   // ONE `appendOrders` CALL for both kinds: one lock, one temp write, one `rename`. There
@@ -739,7 +846,9 @@ export async function importBitgetOpenOrders(
   // has already summed id collisions, so `orders` holds at most one row per id, and
   // `records` and `observations` are derived from it by complementary filters on
   // `restatedIds`. Re-keying per record would buy nothing and cost a quadratic pass.
-  const fresh: OrderRecord[] = [...records, ...observations].filter(
+  // The retirements ride in the same call and cannot collide with either: a vanished id is
+  // by construction absent from `orders`, which both of the other arrays are built from.
+  const fresh: OrderRecord[] = [...records, ...observations, ...retired.cancellations].filter(
     (record) => !currentOnFile.has(appendKey(record)),
   );
   // THE WRITE DOOR, AND THE SECOND DOOR ONLY (#388). It is no longer what stops an
@@ -806,8 +915,10 @@ export async function importBitgetOpenOrders(
     placements: records,
     knownFigures,
     pickedDifferences,
+    namedFilled: retired.filled.map((order) => order.placed.id),
     skips: parsed.skips,
     csvPath,
+    venueLabel: parsed.venue.label,
   });
   io.out(message);
   return outcome;
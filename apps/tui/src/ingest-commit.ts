@@ -63,6 +63,17 @@ export const TRACKED_FILES = [
   // they stood on the day the operator was told. Anything that drops `declared` also
   // drops this file's right to be on this list.
   "reconciliations.jsonl",
+  // The decision journal: the operator's reasoning, which exists nowhere else once it
+  // is not written down. Never folded, and no figure depends on it.
+  "journal.jsonl",
+  // The period closes: what the fold showed on the day each week was signed off. A
+  // backdated event changes what a later fold returns for the same date, so a close
+  // cannot be re-derived — only re-taken, which is a different answer.
+  "closes.jsonl",
+  // The instrument registry sidecar: which instruments the fetch marks and the gap
+  // report expects, and from which day. Hand-written and append-only; the day a row
+  // was added is what every later gap verdict is measured against.
+  "instruments.jsonl",
 ];
 
 /**
@@ -6,6 +6,7 @@ import {
 import { describe, expect, it } from "vitest";
 import { buildDashboardLines, type DashboardLine } from "./dashboard.js";
 import {
+  cyclePerspective,
   findNextSelectableLine,
   keepSelectionInView,
   mapKeyToIntent,
@@ -160,12 +161,29 @@ describe("@numisma/tui interaction-core: key->intent mapper", () => {
     expect(mapKeyToIntent({ sequence: "\n" })).toEqual({ type: "activate" });
   });
 
+  it("maps the Perspective binding", () => {
+    expect(mapKeyToIntent({ name: "p" })).toEqual({ type: "perspective" });
+  });
+
   it("ignores unbound keys", () => {
     expect(mapKeyToIntent({ name: "x" })).toBeUndefined();
     expect(mapKeyToIntent({})).toBeUndefined();
   });
 });
 
+describe("@numisma/tui interaction-core: Perspective cycle", () => {
+  it("walks the saved names and returns to no lens after the last", () => {
+    expect(cyclePerspective(["a", "b"], undefined)).toBe("a");
+    expect(cyclePerspective(["a", "b"], "a")).toBe("b");
+    expect(cyclePerspective(["a", "b"], "b")).toBeUndefined();
+  });
+
+  it("restarts from the first name when the active one is no longer saved", () => {
+    expect(cyclePerspective(["a", "b"], "gone")).toBe("a");
+    expect(cyclePerspective([], undefined)).toBeUndefined();
+  });
+});
+
 describe("@numisma/tui interaction-core: move + activate reducer", () => {
   const navLines = [
     line({ selectable: false }), // 0
@@ -26,6 +26,7 @@ export interface InteractionState {
 export type InteractionIntent =
   | { type: "quit" }
   | { type: "reload" }
+  | { type: "perspective" }
   | { type: "move"; delta: 1 | -1 }
   | { type: "activate" };
 
@@ -61,6 +62,9 @@ export function mapKeyToIntent(key: KeyLike): InteractionIntent | undefined {
   if (key.name === "r") {
     return { type: "reload" };
   }
+  if (key.name === "p") {
+    return { type: "perspective" };
+  }
   if (key.name === "j" || key.name === "down") {
     return { type: "move", delta: 1 };
   }
@@ -79,6 +83,22 @@ export function mapKeyToIntent(key: KeyLike): InteractionIntent | undefined {
   return undefined;
 }
 
+/**
+ * The saved Perspective `p` switches to: the next name after `active`, then back to no
+ * lens after the last, so the plain composition is always one cycle away. With no lens
+ * saved there is nothing to cycle and the answer is no lens.
+ */
+export function cyclePerspective(
+  names: string[],
+  active: string | undefined,
+): string | undefined {
+  if (active === undefined) {
+    return names[0];
+  }
+  const index = names.indexOf(active);
+  return index < 0 ? names[0] : names[index + 1];
+}
+
 /**
  * Clamp a selection onto a selectable line. Keeps the current selection if it is
  * already selectable, otherwise falls back to the first selectable line (or 0
@@ -0,0 +1,142 @@
+// THE PRICE STORE ON THE DASHBOARD — what the Intraday Movement block shows for the held
+// instruments, and that an unreadable store refuses the block rather than emptying it.
+//
+// The movement rules themselves (which close a reading is weighed against) are the
+// engine's `price-store.test.ts`; what is locked here is the JOIN: which files are read,
+// which rows of them count for the review's date, and how the section reaches the lines.
+import { describe, expect, it } from "vitest";
+import { buildCompositionReport, type FundReviewData, type PriceStoreRow } from "@numisma/engine";
+import { buildDashboardLines } from "./dashboard.js";
+import { loadIntradayMovement, type IntradayIo } from "./intraday.js";
+
+const PRICES_DIR = "/synthetic/prices";
+
+function fund(asOf = "2026-07-03"): FundReviewData {
+  const position = (id: string, instrumentId: string) => ({
+    id,
+    portfolioId: "portfolio-synthetic",
+    tempo: "Capital" as const,
+    executionMode: "live" as const,
+    accountId: "account-synthetic",
+    instrumentId,
+    direction: "long" as const,
+    lots: [{ quantity: 1, cost: 100, tier: "c1" as const }],
+    markPrice: 100,
+    currency: "USD" as const,
+  });
+  return {
+    fund: { id: "fund-synthetic", name: "Synthetic", baseCurrency: "USD" },
+    review: { asOf, usdMxn: 20 },
+    portfolios: [{ id: "portfolio-synthetic", name: "Synthetic" }],
+    accounts: [{ id: "account-synthetic", name: "Venue", platform: "SYNTH", currency: "USD" }],
+    instruments: [
+      { id: "instrument-a", name: "Asset A", symbol: "AAA", currency: "USD" },
+      { id: "instrument-b", name: "Asset B", symbol: "BBB", currency: "USD" },
+    ],
+    reserves: [],
+    // Two positions in one instrument read its store once.
+    positions: [
+      position("position-a1", "instrument-a"),
+      position("position-a2", "instrument-a"),
+      position("position-b", "instrument-b"),
+    ],
+  };
+}
+
+function close(asOf: string, price: number): PriceStoreRow {
+  return {
+    instrumentId: "instrument-a",
+    symbol: "AAA",
+    asOf,
+    price,
+    source: "binance",
+    fetchedAt: `${asOf}T23:00:00.000Z`,
+  };
+}
+
+function reading(asOf: string, hour: string, price: number): PriceStoreRow {
+  const observedAt = `${asOf}T${hour}:00:00.000Z`;
+  return { ...close(asOf, price), fetchedAt: observedAt, intraday: true, observedAt };
+}
+
+/** `instrument-a` has a store; `instrument-b` was never fetched. */
+function storeIo(rows: PriceStoreRow[], reads: string[] = []): IntradayIo {
+  return {
+    pricesDir: PRICES_DIR,
+    readStore: async (path) => {
+      reads.push(path);
+      return path === `${PRICES_DIR}/instrument-a.jsonl`
+        ? rows.map((row) => `${JSON.stringify(row)}\n`).join("")
+        : undefined;
+    },
+  };
+}
+
+const STORE = [
+  close("2026-07-02", 100),
+  reading("2026-07-03", "09", 104),
+  reading("2026-07-04", "09", 90),
+];
+
+describe("loadIntradayMovement — the held instruments' stores, as of the review", () => {
+  it("reads each held instrument's store once and skips one never fetched", async () => {
+    const reads: string[] = [];
+    const section = await loadIntradayMovement(fund(), storeIo(STORE, reads));
+    expect(reads).toEqual([
+      `${PRICES_DIR}/instrument-a.jsonl`,
+      `${PRICES_DIR}/instrument-b.jsonl`,
+    ]);
+    expect(section).toMatchObject({
+      status: "composed",
+      movements: [{ symbol: "AAA", price: 104, priorClose: { asOf: "2026-07-02", price: 100 } }],
+    });
+  });
+
+  it("ignores readings dated after the review it renders beside", async () => {
+    const section = await loadIntradayMovement(fund("2026-07-02"), storeIo(STORE));
+    expect(section).toEqual({ status: "composed", movements: [] });
+  });
+
+  it("refuses, naming the file, when a store cannot be read", async () => {
+    const section = await loadIntradayMovement(fund(), {
+      pricesDir: PRICES_DIR,
+      readStore: async () => {
+        throw new Error("EACCES");
+      },
+    });
+    expect(section).toEqual({
+      status: "refused",
+      message: `could not read ${PRICES_DIR}/instrument-a.jsonl: EACCES`,
+    });
+  });
+});
+
+describe("buildDashboardLines — the Intraday Movement block", () => {
+  const render = (intraday: Parameters<typeof buildDashboardLines>[6]) =>
+    buildDashboardLines(
+      buildCompositionReport(fund()),
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      intraday,
+    ).map((line) => line.content);
+
+  it("shows each reading against its prior close after the price journey", async () => {
+    const contents = render(await loadIntradayMovement(fund(), storeIo(STORE)));
+    const title = contents.indexOf("Intraday Movement");
+    expect(title).toBeGreaterThan(contents.indexOf("Weekly Price Journey"));
+    expect(contents.slice(title).find((line) => line.startsWith("AAA"))).toMatch(
+      /^AAA\s+104\s+100\s+\+4\.0%\s+2026-07-03T09:00:00\.000Z$/,
+    );
+  });
+
+  it("renders nothing without a reading, and a warning when the store was unreadable", () => {
+    const without = render(undefined);
+    expect(render({ status: "composed", movements: [] })).toEqual(without);
+    expect(render({ status: "refused", message: "could not read x: EACCES" })).toContain(
+      "Intraday Movement unavailable — could not read x: EACCES",
+    );
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * The shell that joins the price store (`data/prices/<id>.jsonl`, written by
+ * `prices:fetch` and `prices:intraday`) to a rendered review, so the dashboard shows how
+ * far each held instrument has moved since its last close. What a store file says and
+ * what a movement is are pure and live in `@numisma/engine` (`parsePriceStoreRows`,
+ * `resolvePriceStore`, `latestIntradayMovement`); this file reads the files and decides
+ * what to show when it cannot.
+ *
+ * MOVEMENT IS NEVER A MARK. The fold values every position at its last `PriceMarked`;
+ * nothing here reaches the fold, and the section sits beside the price journey rather
+ * than inside any valued figure. An ABSENT store file is an instrument the hourly job
+ * never fetched and simply has no row, while an UNREADABLE one refuses the section — a
+ * missing row must mean "no reading", never "could not look".
+ */
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  latestIntradayMovement,
+  parsePriceStoreRows,
+  priceStoreFileName,
+  resolvePriceStore,
+  type FundReviewData,
+  type IntradayMovement,
+} from "@numisma/engine";
+
+/** Everything not pure, in one injectable bag — so the whole flow is testable. */
+export interface IntradayIo {
+  pricesDir: string;
+  /** A store file's text, or `undefined` when the file does not exist. */
+  readStore: (path: string) => Promise<string | undefined>;
+}
+
+/** Composed, or refused with a reason the operator reads. */
+export type IntradaySection =
+  | { status: "composed"; movements: IntradayMovement[] }
+  | { status: "refused"; message: string };
+
+/**
+ * Read the store of every instrument an open position holds and compose its movement.
+ * Only rows dated on or before the review are read, so a surface rendered `--as-of` a
+ * prior date shows the movement as it stood then, not today's.
+ */
+export async function loadIntradayMovement(
+  data: FundReviewData,
+  io: IntradayIo,
+): Promise<IntradaySection> {
+  const instrumentIds = [...new Set(data.positions.map((position) => position.instrumentId))];
+  const movements: IntradayMovement[] = [];
+  for (const instrumentId of instrumentIds) {
+    const path = join(io.pricesDir, priceStoreFileName(instrumentId));
+    let text: string | undefined;
+    try {
+      text = await io.readStore(path);
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      return { status: "refused", message: `could not read ${path}: ${detail}` };
+    }
+    if (text === undefined) {
+      continue;
+    }
+    const rows = parsePriceStoreRows(text).filter((row) => row.asOf <= data.review.asOf);
+    const movement = latestIntradayMovement(resolvePriceStore(rows));
+    if (movement !== undefined) {
+      movements.push(movement);
+    }
+  }
+  return { status: "composed", movements };
+}
+
+/** The real `readStore`: the file's text, with an absent file read as `undefined`. */
+export async function readPriceStoreText(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, "utf8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
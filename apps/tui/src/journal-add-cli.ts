@@ -0,0 +1,45 @@
+/**
+ * Node-runnable entry point for appending one decision-journal entry:
+ *
+ *   pnpm journal:add <position|reserve|review> <id|YYYY-MM-DD> <text…> [--at YYYY-MM-DD]
+ *
+ * WIRING ONLY — it binds the real filesystem, the real data dir and the real clock to
+ * `addJournalEntry`, which holds the flow and every refusal. Importing this file runs
+ * the act, which is why the flow lives in its own module.
+ */
+import { tradingDayAsOf } from "@numisma/engine";
+import {
+  REPORT_TIME_ZONE,
+  loadFoldedReview,
+  resolveEventStorePaths,
+} from "@numisma/event-store";
+import { appendJournalEntry, resolveJournalPath } from "@numisma/preferences";
+import { addJournalEntry } from "./journal-add.js";
+
+try {
+  const outcome = await addJournalEntry(process.argv.slice(2), {
+    journalPath: resolveJournalPath(),
+    appendJournalEntry,
+    loadSubjects: async () => {
+      // Current state: every Position the fund has held, open or closed, and every
+      // Reserve. The fold's own discards are not this command's to report.
+      const { data } = await loadFoldedReview(resolveEventStorePaths());
+      return {
+        positionIds: new Set([
+          ...data.positions.map((position) => position.id),
+          ...(data.closedPositions ?? []).map((closed) => closed.positionId),
+        ]),
+        reserveIds: new Set(data.reserves.map((reserve) => reserve.id)),
+      };
+    },
+    today: () => tradingDayAsOf(new Date(), REPORT_TIME_ZONE),
+    out: (message) => process.stdout.write(message),
+    err: (message) => process.stderr.write(`${message}\n`),
+  });
+  if (outcome.status === "rejected") {
+    process.exitCode = 1;
+  }
+} catch (error) {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,66 @@
+// Behavior locks for `pnpm journal:add`: the command line becomes exactly one entry,
+// a record subject must be one the fold knows, and every refusal writes nothing.
+import type { JournalEntry } from "@numisma/engine";
+import { describe, expect, it } from "vitest";
+import { addJournalEntry, type JournalAddIo } from "./journal-add.js";
+
+function harness() {
+  const appended: JournalEntry[] = [];
+  const errors: string[] = [];
+  let subjectLoads = 0;
+  const io: JournalAddIo = {
+    journalPath: "/data/journal.jsonl",
+    appendJournalEntry: async (_path, entry) => {
+      appended.push(entry);
+    },
+    loadSubjects: async () => {
+      subjectLoads += 1;
+      return { positionIds: new Set(["alt-pos"]), reserveIds: new Set(["tiered"]) };
+    },
+    today: () => "2026-06-05",
+    out: () => {},
+    err: (message) => errors.push(message),
+  };
+  return { io, appended, errors, subjectLoads: () => subjectLoads };
+}
+
+describe("addJournalEntry", () => {
+  it("joins the words into one entry dated today", async () => {
+    const { io, appended } = harness();
+    const outcome = await addJournalEntry(["position", "alt-pos", "Trimmed", "into", "strength."], io);
+
+    expect(outcome.status).toBe("written");
+    expect(appended).toEqual([
+      { subject: "position", subjectId: "alt-pos", writtenAt: "2026-06-05", text: "Trimmed into strength." },
+    ]);
+  });
+
+  it("backdates with --at and keys a review by its date without reading the fold", async () => {
+    const { io, appended, subjectLoads } = harness();
+    await addJournalEntry(["review", "2026-05-29", "Held", "--at", "2026-05-30"], io);
+    await addJournalEntry(["reserve", "tiered", "--at=2026-06-01", "Kept", "dry"], io);
+
+    expect(appended.map((entry) => [entry.subject, entry.subjectId, entry.writtenAt, entry.text])).toEqual([
+      ["review", "2026-05-29", "2026-05-30", "Held"],
+      ["reserve", "tiered", "2026-06-01", "Kept dry"],
+    ]);
+    expect(subjectLoads()).toBe(1);
+  });
+
+  it.each([
+    [["position", "alt-pos"], "usage"],
+    [["trade", "alt-pos", "text"], "bad-subject"],
+    [["review", "last-week", "text"], "bad-subject-id"],
+    [["position", "alt-pos", "text", "--at", "06/01"], "bad-date"],
+    [["position", "alt-pos", "text", "--at", "2026-06-06"], "future-date"],
+    [["position", "typo-pos", "text"], "unknown-record"],
+    [["reserve", "alt-pos", "text"], "unknown-record"],
+  ])("refuses %j as %s and writes nothing", async (args, reason) => {
+    const { io, appended, errors } = harness();
+    const outcome = await addJournalEntry(args, io);
+
+    expect(outcome).toMatchObject({ status: "rejected", reason });
+    expect(appended).toEqual([]);
+    expect(errors[0]).toContain("Nothing was written to /data/journal.jsonl.");
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * The IO SHELL for appending ONE decision-journal entry to `journal.jsonl`.
+ *
+ *   pnpm journal:add <position|reserve|review> <id|YYYY-MM-DD> <text…> [--at YYYY-MM-DD]
+ *
+ * ARGV, NOT A PROMPT, for `cancel-order.ts`'s reason: the whole assertion fits on a
+ * command line, so the act is scriptable and needs no TTY. The entry's words are every
+ * argument after the subject id, joined by single spaces.
+ *
+ * IT NEVER TOUCHES `events.jsonl`. An entry is prose about a decision, not a decision:
+ * the fold is read only to check that a `position` or `reserve` subject names a record
+ * the fund has held — open, closed, or spent — so a typo'd id cannot start a journal no
+ * detail panel will ever show. A `review` subject is a date and needs no record.
+ *
+ * Every refusal writes NOTHING: the file is append-only, and a wrong line in it costs a
+ * correcting entry forever.
+ */
+import {
+  JOURNAL_TEXT_MAX_LENGTH,
+  isIsoCalendarDate,
+  isJournalSubject,
+  isJournalSubjectId,
+  type JournalEntry,
+  type JournalSubject,
+} from "@numisma/engine";
+
+/** The usage line, printed on a malformed command line. */
+export const JOURNAL_ADD_USAGE =
+  "usage: pnpm journal:add <position|reserve|review> <id|YYYY-MM-DD> <text…> [--at YYYY-MM-DD]";
+
+/** The record ids a `position` or `reserve` entry may name, from the fold. */
+export interface JournalSubjects {
+  positionIds: ReadonlySet<string>;
+  reserveIds: ReadonlySet<string>;
+}
+
+/** Everything this act touches that is not a pure function, in one injectable bag. */
+export interface JournalAddIo {
+  /** The sidecar's resolved path — resolved by the caller, never by this flow. */
+  journalPath: string;
+  appendJournalEntry: (path: string, entry: JournalEntry) => Promise<void>;
+  /** The fold's record ids. Asked only for a `position` or `reserve` subject. */
+  loadSubjects: () => Promise<JournalSubjects>;
+  /** Today in the fund's trading-day timezone: the default `writtenAt`. */
+  today: () => string;
+  out: (message: string) => void;
+  err: (message: string) => void;
+}
+
+export type JournalAddRejection =
+  | "usage"
+  | "bad-subject"
+  | "bad-subject-id"
+  | "bad-date"
+  | "future-date"
+  | "bad-text"
+  | "unknown-record";
+
+export type JournalAddOutcome =
+  | { status: "written"; entry: JournalEntry }
+  | { status: "rejected"; reason: JournalAddRejection; message: string };
+
+/** The command line, split into its parts. `args` is `process.argv.slice(2)`. */
+interface JournalAddArgs {
+  subject: string;
+  subjectId: string;
+  text: string;
+  at?: string;
+}
+
+function parseJournalAddArgs(args: string[]): JournalAddArgs | undefined {
+  const words: string[] = [];
+  let at: string | undefined;
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index] as string;
+    if (arg === "--at") {
+      at = args[index + 1] ?? "";
+      index += 1;
+    } else if (arg.startsWith("--at=")) {
+      at = arg.slice("--at=".length);
+    } else {
+      words.push(arg);
+    }
+  }
+  const [subject, subjectId, ...text] = words;
+  if (subject === undefined || subjectId === undefined || text.length === 0) {
+    return undefined;
+  }
+  return { subject, subjectId, text: text.join(" "), ...(at !== undefined ? { at } : {}) };
+}
+
+function reject(io: JournalAddIo, reason: JournalAddRejection, message: string): JournalAddOutcome {
+  io.err(`REFUSED — ${message}\nNothing was written to ${io.journalPath}.`);
+  return { status: "rejected", reason, message };
+}
+
+/**
+ * Append one entry, or refuse and write nothing. Validate the command line → check the
+ * subject against the fold → append; the only write is the last statement.
+ */
+export async function addJournalEntry(args: string[], io: JournalAddIo): Promise<JournalAddOutcome> {
+  const parsed = parseJournalAddArgs(args);
+  if (!parsed) {
+    return reject(io, "usage", JOURNAL_ADD_USAGE);
+  }
+  if (!isJournalSubject(parsed.subject)) {
+    return reject(io, "bad-subject", `'${parsed.subject}' is not position, reserve or review`);
+  }
+  const subject: JournalSubject = parsed.subject;
+  if (!isJournalSubjectId(subject, parsed.subjectId)) {
+    return reject(
+      io,
+      "bad-subject-id",
+      subject === "review"
+        ? "a review entry is keyed by the review's YYYY-MM-DD date"
+        : `a ${subject} entry needs the ${subject}'s id`,
+    );
+  }
+
+  const today = io.today();
+  const writtenAt = parsed.at ?? today;
+  if (!isIsoCalendarDate(writtenAt)) {
+    return reject(io, "bad-date", "--at must be a YYYY-MM-DD calendar date");
+  }
+  if (writtenAt > today) {
+    // An entry dated ahead would sit hidden from every as-of view until its day came —
+    // a note the operator believes is on record and no surface shows.
+    return reject(io, "future-date", `--at ${writtenAt} is after today (${today})`);
+  }
+
+  const text = parsed.text.trim();
+  if (text === "" || text.length > JOURNAL_TEXT_MAX_LENGTH) {
+    return reject(io, "bad-text", `the entry must be 1 to ${JOURNAL_TEXT_MAX_LENGTH} characters`);
+  }
+
+  if (subject !== "review") {
+    const subjects = await io.loadSubjects();
+    const known = subject === "position" ? subjects.positionIds : subjects.reserveIds;
+    if (!known.has(parsed.subjectId)) {
+      return reject(
+        io,
+        "unknown-record",
+        `no ${subject} '${parsed.subjectId}' in the fold — check the id against \`pnpm report\``,
+      );
+    }
+  }
+
+  const entry: JournalEntry = { subject, subjectId: parsed.subjectId, writtenAt, text };
+  await io.appendJournalEntry(io.journalPath, entry);
+  io.out(`Journalled ${subject} ${parsed.subjectId} on ${writtenAt}.\n`);
+  return { status: "written", entry };
+}
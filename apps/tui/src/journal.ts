@@ -0,0 +1,30 @@
+/**
+ * The shell that joins the `journal.jsonl` sidecar to a rendered review. The selector
+ * (`journalEntriesFor`) is pure and lives in `@numisma/engine`; the read lives in
+ * `@numisma/preferences` (`loadJournal`); this file decides what the surface shows for
+ * a load it could not take whole.
+ *
+ * AN UNREADABLE JOURNAL IS SAID, never rendered as an empty one. A detail panel with no
+ * entries under it reads as "nothing was written about this Position", which is a claim
+ * about the operator's own record that a failed read cannot support.
+ */
+import type { LoadedJournal, LoadedJournalEntry } from "@numisma/engine";
+import { formatJournalLoadIssues } from "@numisma/preferences";
+
+/**
+ * What a surface renders from the journal as of one review date. `issues` carries the
+ * discarded-line report, so an entry that vanished because its line was rejected is
+ * explained rather than silently missing.
+ */
+export type JournalSection =
+  | { status: "loaded"; asOf: string; entries: LoadedJournalEntry[]; issues: string[] }
+  | { status: "refused"; message: string };
+
+/** Compose the section for the review rendered `asOf`. */
+export function composeJournalSection(loaded: LoadedJournal, asOf: string): JournalSection {
+  const issues = formatJournalLoadIssues(loaded);
+  if (loaded.load.status === "load-failed") {
+    return { status: "refused", message: issues[0] as string };
+  }
+  return { status: "loaded", asOf, entries: loaded.entries, issues };
+}
@@ -3,6 +3,10 @@ import {
   buildDashboardDetail,
   type CompositionReport,
   type FundReviewData,
+  type LoadedJournal,
+  type LoadedPerspectives,
+  type NavHistory,
+  perspectiveNames,
 } from "@numisma/engine";
 import type { CliRenderer } from "@opentui/core";
 import {
@@ -12,10 +16,14 @@ import {
   type DashboardLine,
 } from "./dashboard.js";
 import type { AvailableCapitalSection } from "./available-capital.js";
+import type { IntradaySection } from "./intraday.js";
+import { composeJournalSection, type JournalSection } from "./journal.js";
+import { composePerspectiveSection, type PerspectiveSection } from "./perspectives.js";
 import {
   keepSelectionInView,
   mapKeyToIntent,
   normalizeSelection,
+  cyclePerspective,
   reduce,
   reloadOutcome,
   renderLine,
@@ -44,6 +52,30 @@ export interface MountAppDeps {
    * surface that does not want it.
    */
   loadAvailableCapital?: (data: FundReviewData) => Promise<AvailableCapitalSection>;
+  /**
+   * The daily NAV series through the folded date, rendered beneath the price journeys.
+   * OPTIONAL for the same reason as {@link loadAvailableCapital}: it re-reads the whole
+   * log and folds it once per day, so only a host that wants the series pays for it —
+   * `pnpm dev` wires it only behind `--nav-history`.
+   */
+  loadNavHistory?: (data: FundReviewData) => Promise<NavHistory>;
+  /**
+   * Read the `perspectives.jsonl` sidecar, re-read on every `r`. OPTIONAL: without it
+   * the dashboard has no lenses and `p` does nothing.
+   */
+  loadPerspectives?: () => Promise<LoadedPerspectives>;
+  /** The lens to open on (`--perspective <name>`); `p` cycles from there. */
+  perspective?: string | undefined;
+  /**
+   * Read the `journal.jsonl` sidecar, re-read on every `r`. OPTIONAL: without it the
+   * detail panel shows no journal entries.
+   */
+  loadJournal?: () => Promise<LoadedJournal>;
+  /**
+   * Read the price store for the held instruments' intraday movement, re-read on every
+   * `r`. OPTIONAL: without it the dashboard shows no Intraday Movement block.
+   */
+  loadIntraday?: (data: FundReviewData) => Promise<IntradaySection>;
 }
 
 /** Handle returned by {@link mountApp} for the host to drive reloads. */
@@ -102,9 +134,14 @@ export async function mountApp(
         data: FundReviewData;
         report: CompositionReport;
         availableCapital: AvailableCapitalSection | undefined;
+        perspectives: LoadedPerspectives | undefined;
+        perspective: PerspectiveSection | undefined;
+        journal: JournalSection | undefined;
+        intraday: IntradaySection | undefined;
       }
     | undefined;
   let state: InteractionState = { selectedLine: 0 };
+  let activePerspective = deps.perspective;
 
   /**
    * Build the visible lines for a drill-down state via the engine. This is the
@@ -130,26 +167,53 @@ export async function mountApp(
       detail,
       activeRecordId,
       currentReview.availableCapital,
+      currentReview.perspective,
+      currentReview.journal,
+      currentReview.intraday,
     );
   }
 
+  /** The lens block for the loaded review under the active lens name. */
+  function composePerspective(
+    data: FundReviewData,
+    report: CompositionReport,
+    perspectives: LoadedPerspectives | undefined,
+  ): PerspectiveSection | undefined {
+    return perspectives
+      ? composePerspectiveSection(data, report, perspectives, activePerspective)
+      : undefined;
+  }
+
   async function refresh(): Promise<void> {
     dashboard.content = `Reloading Fund review data...\n\nData file: ${sourcePath}`;
     renderer.requestRender();
 
     try {
       const data = await deps.loadData();
+      const navHistory = await deps.loadNavHistory?.(data);
       const report = buildCompositionReport(data, {
         load: {
           status: "loaded",
           sourcePath,
           loadedAt: now(),
         },
+        ...(navHistory ? { navHistory } : {}),
       });
       // The sidecar read is part of the same refresh as the fold, so `r` re-reads both
       // and the two halves of the join can never be from different moments.
       const availableCapital = await deps.loadAvailableCapital?.(data);
-      currentReview = { data, report, availableCapital };
+      const perspectives = await deps.loadPerspectives?.();
+      const journal = await deps.loadJournal?.();
+      const intraday = await deps.loadIntraday?.(data);
+      currentReview = {
+        data,
+        report,
+        availableCapital,
+        perspectives,
+        perspective: composePerspective(data, report, perspectives),
+        journal: journal ? composeJournalSection(journal, data.review.asOf) : undefined,
+        intraday,
+      };
       state = reloadOutcome(state, { ok: true });
       renderDashboard();
     } catch (error) {
@@ -185,6 +249,21 @@ export async function mountApp(
       return;
     }
 
+    if (intent.type === "perspective") {
+      const names = perspectiveNames(currentReview.perspectives?.perspectives ?? []);
+      activePerspective = cyclePerspective(names, activePerspective);
+      currentReview = {
+        ...currentReview,
+        perspective: composePerspective(
+          currentReview.data,
+          currentReview.report,
+          currentReview.perspectives,
+        ),
+      };
+      renderDashboard();
+      return;
+    }
+
     const lines = buildLines(state.activeRowId, state.activeRecordId);
     state = reduce(lines, state, intent, buildLines);
     renderDashboard();
@@ -211,6 +290,9 @@ export async function mountApp(
       detail,
       state.activeRecordId,
       currentReview.availableCapital,
+      currentReview.perspective,
+      currentReview.journal,
+      currentReview.intraday,
     );
     state = { ...state, selectedLine: normalizeSelection(lines, state.selectedLine) };
     dashboard.content = renderStyledDashboard(
@@ -0,0 +1,26 @@
+/**
+ * The IO SHELL behind the NAV history, shared by `pnpm report --nav-history` and the
+ * dashboard. The series itself is pure and lives in `@numisma/engine`
+ * (`buildNavHistory`); this file only reads genesis and the WHOLE log, and hands over
+ * the daily grid from the genesis seed to the date the surface rendered.
+ *
+ * The whole log, not the `asOf`-windowed fold the surface already holds: each point is
+ * its own fold, and the engine cuts every one of them at its own date. A log with
+ * quarantined lines refuses, as it does for every surface that re-folds — a series
+ * over a partially-read log would draw a drawdown that never happened.
+ */
+import { buildNavHistory, dailyNavDates, type NavHistory } from "@numisma/engine";
+import {
+  assertLogFullyLoaded,
+  loadEventLog,
+  loadGenesis,
+  type EventStorePaths,
+} from "@numisma/event-store";
+
+/** Daily NAV from the genesis seed date through `asOf`, both included. */
+export async function loadNavHistory(paths: EventStorePaths, asOf: string): Promise<NavHistory> {
+  const genesis = await loadGenesis(paths.genesis);
+  const log = await loadEventLog(paths.log);
+  assertLogFullyLoaded(log, paths.log);
+  return buildNavHistory(genesis, log.events, dailyNavDates(genesis.review.asOf, asOf));
+}
@@ -0,0 +1,45 @@
+/**
+ * Node-runnable entry point for the weekly Close:
+ *
+ *   pnpm close [YYYY-MM-DD]
+ *
+ * WIRING ONLY — it binds the real filesystem, the real data dir and the real clock to
+ * `closePeriod`, which holds the flow and every refusal. Importing this file runs the
+ * act, which is why the flow lives in its own module.
+ */
+import { tradingDayAsOf } from "@numisma/engine";
+import {
+  REPORT_TIME_ZONE,
+  formatFoldDiscards,
+  loadFoldedReview,
+  resolveEventStorePaths,
+} from "@numisma/event-store";
+import {
+  appendPeriodClose,
+  loadJournal,
+  loadPeriodCloses,
+  resolveJournalPath,
+  resolvePeriodClosesPath,
+} from "@numisma/preferences";
+import { closePeriod } from "./period-close.js";
+
+try {
+  const outcome = await closePeriod(process.argv.slice(2), {
+    closesPath: resolvePeriodClosesPath(),
+    loadPeriodCloses,
+    appendPeriodClose,
+    foldAsOf: (period) => loadFoldedReview(resolveEventStorePaths(), period),
+    formatFoldDiscards: (folded) => formatFoldDiscards(folded),
+    loadJournal: () => loadJournal(resolveJournalPath()),
+    today: () => tradingDayAsOf(new Date(), REPORT_TIME_ZONE),
+    now: () => new Date(),
+    out: (message) => process.stdout.write(message),
+    err: (message) => process.stderr.write(`${message}\n`),
+  });
+  if (outcome.status === "rejected") {
+    process.exitCode = 1;
+  }
+} catch (error) {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,164 @@
+// Behavior locks for `pnpm close` and the report's close diff: the fold is taken AS OF
+// the period, the journal is referenced from the previous close on, every refusal
+// writes nothing, and a diff names the closed periods when asked for one that is not.
+import {
+  foldEvents,
+  type FundReviewData,
+  type LoadedJournal,
+  type LoadedPeriodClose,
+  type LoadedPeriodCloses,
+  type PeriodClose,
+} from "@numisma/engine";
+import { describe, expect, it } from "vitest";
+import { closePeriod, composeCloseDiff, type PeriodCloseIo } from "./period-close.js";
+
+const GENESIS: FundReviewData = {
+  fund: { id: "fund-1", name: "Accumulus", baseCurrency: "USD" },
+  review: { asOf: "2026-06-01", usdMxn: 20 },
+  portfolios: [{ id: "core", name: "Core" }],
+  accounts: [{ id: "venue", name: "Venue", platform: "BITGET", currency: "USD" }],
+  instruments: [{ id: "alt-usd", name: "Altcoin", symbol: "ALT", currency: "USD" }],
+  reserves: [],
+  positions: [
+    {
+      id: "alt-pos",
+      portfolioId: "core",
+      tempo: "Pulse",
+      executionMode: "live",
+      accountId: "venue",
+      instrumentId: "alt-usd",
+      direction: "long",
+      markPrice: 40,
+      currency: "USD",
+      lots: [{ quantity: 10, cost: 30, tier: "c1" }],
+    },
+  ],
+};
+
+const loadedClose = (period: string, line: number): LoadedPeriodClose => ({
+  schemaVersion: 1,
+  period,
+  closedAt: `${period}T22:00:00.000Z`,
+  fundValueUsd: 400,
+  usdMxn: 20,
+  prices: [],
+  tiers: [],
+  tempos: [],
+  journal: [],
+  line,
+});
+
+function harness(existing: LoadedPeriodClose[] = [], closesLoad: "loaded" | "load-failed" = "loaded") {
+  const appended: PeriodClose[] = [];
+  const errors: string[] = [];
+  const foldedAt: string[] = [];
+  const io: PeriodCloseIo = {
+    closesPath: "/data/closes.jsonl",
+    loadPeriodCloses: async (path) => ({
+      load:
+        closesLoad === "loaded"
+          ? { status: "loaded", sourcePath: path }
+          : { status: "load-failed", sourcePath: path, message: "EACCES" },
+      closes: existing,
+      skipped: [],
+    }),
+    appendPeriodClose: async (_path, close) => {
+      appended.push(close);
+    },
+    foldAsOf: async (period) => {
+      foldedAt.push(period);
+      const mark = { id: "m1", asOf: "2026-06-04", type: "PriceMarked" as const, instrumentId: "alt-usd", price: 50 };
+      return foldEvents(GENESIS, [mark], period);
+    },
+    formatFoldDiscards: () => [],
+    loadJournal: async (): Promise<LoadedJournal> => ({
+      load: { status: "loaded", sourcePath: "/data/journal.jsonl" },
+      entries: [
+        { subject: "position", subjectId: "alt-pos", writtenAt: "2026-06-02", text: "old", line: 1 },
+        { subject: "review", subjectId: "2026-06-05", writtenAt: "2026-06-05", text: "new", line: 2 },
+      ],
+      skipped: [],
+    }),
+    today: () => "2026-06-08",
+    now: () => new Date("2026-06-08T15:00:00.000Z"),
+    out: () => {},
+    err: (message) => errors.push(message),
+  };
+  return { io, appended, errors, foldedAt };
+}
+
+describe("closePeriod", () => {
+  it("folds as of the period and appends one close referencing the period's journal", async () => {
+    const { io, appended, foldedAt } = harness([loadedClose("2026-06-02", 1)]);
+    const outcome = await closePeriod(["2026-06-05"], io);
+
+    expect(outcome.status).toBe("written");
+    expect(foldedAt).toEqual(["2026-06-05"]);
+    expect(appended).toHaveLength(1);
+    expect(appended[0]).toMatchObject({
+      period: "2026-06-05",
+      closedAt: "2026-06-08T15:00:00.000Z",
+      fundValueUsd: 500,
+      prices: [{ instrumentId: "alt-usd", asOf: "2026-06-04", price: 50, currency: "USD" }],
+      journal: [{ subject: "review", subjectId: "2026-06-05", writtenAt: "2026-06-05", line: 2 }],
+    });
+  });
+
+  it("closes today when no period is given", async () => {
+    const { io, appended } = harness();
+    await closePeriod([], io);
+    expect(appended[0]?.period).toBe("2026-06-08");
+  });
+
+  it.each([
+    [["2026-06-05", "2026-06-06"], "usage"],
+    [["--as-of", "2026-06-05"], "usage"],
+    [["2026-02-30"], "bad-date"],
+    [["2026-06-09"], "future-date"],
+    [["2026-06-05"], "already-closed"],
+  ])("refuses %j as %s and writes nothing", async (args, reason) => {
+    const { io, appended, errors } = harness([loadedClose("2026-06-05", 1)]);
+    const outcome = await closePeriod(args, io);
+
+    expect(outcome).toMatchObject({ status: "rejected", reason });
+    expect(appended).toEqual([]);
+    expect(errors[0]).toContain("Nothing was written to /data/closes.jsonl.");
+  });
+
+  it("refuses when the closes on record cannot be read, before folding", async () => {
+    const { io, appended, foldedAt } = harness([], "load-failed");
+    const outcome = await closePeriod(["2026-06-05"], io);
+
+    expect(outcome).toMatchObject({
+      status: "rejected",
+      reason: "closes-unreadable",
+      message: "closes.jsonl could not be read: EACCES",
+    });
+    expect(foldedAt).toEqual([]);
+    expect(appended).toEqual([]);
+  });
+});
+
+describe("composeCloseDiff", () => {
+  const loaded: LoadedPeriodCloses = {
+    load: { status: "loaded", sourcePath: "/data/closes.jsonl" },
+    closes: [loadedClose("2026-06-05", 1), loadedClose("2026-06-12", 2)],
+    skipped: [],
+  };
+
+  it("diffs two closed periods", () => {
+    const section = composeCloseDiff(loaded, "2026-06-05", "2026-06-12");
+    expect(section.status).toBe("ok");
+    if (section.status === "ok") {
+      expect([section.diff.from, section.diff.to]).toEqual(["2026-06-05", "2026-06-12"]);
+    }
+  });
+
+  it("refuses a period never closed, naming the closed ones, and a reversed pair", () => {
+    expect(composeCloseDiff(loaded, "2026-06-05", "2026-06-19")).toEqual({
+      status: "refused",
+      message: "2026-06-19 was never closed. Closed periods: 2026-06-05, 2026-06-12",
+    });
+    expect(composeCloseDiff(loaded, "2026-06-12", "2026-06-05").status).toBe("refused");
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * The IO SHELL for the weekly Close: freeze the fold at one review anchor into
+ * `closes.jsonl`, and diff two closes for `pnpm report --diff-closes`.
+ *
+ *   pnpm close [YYYY-MM-DD]
+ *
+ * The period defaults to today in the fund's trading-day timezone. The fold is run AS
+ * OF the period, so closing last Friday on Monday freezes Friday's figures, not
+ * Monday's; the marks it carries are the latest on or before that date.
+ *
+ * IT NEVER TOUCHES `events.jsonl`. A close reads the fold and the journal and appends
+ * one line to its own sidecar. Every refusal writes NOTHING: the file is append-only,
+ * and a close is never rewritten — a wrong one stands beside the right one forever.
+ */
+import {
+  buildPeriodClose,
+  diffPeriodCloses,
+  isIsoCalendarDate,
+  previousPeriodClose,
+  type FoldedReview,
+  type LoadedJournal,
+  type LoadedPeriodCloses,
+  type PeriodClose,
+  type PeriodCloseDiff,
+} from "@numisma/engine";
+import { formatJournalLoadIssues, formatPeriodCloseLoadIssues } from "@numisma/preferences";
+
+/** The usage line, printed on a malformed command line. */
+export const PERIOD_CLOSE_USAGE = "usage: pnpm close [YYYY-MM-DD]";
+
+/** Everything this act touches that is not a pure function, in one injectable bag. */
+export interface PeriodCloseIo {
+  /** The sidecar's resolved path — resolved by the caller, never by this flow. */
+  closesPath: string;
+  loadPeriodCloses: (path: string) => Promise<LoadedPeriodCloses>;
+  appendPeriodClose: (path: string, close: PeriodClose) => Promise<void>;
+  /** The fold as of the period, discards and all. */
+  foldAsOf: (period: string) => Promise<FoldedReview>;
+  /** Lines naming what the fold dropped — printed, never a refusal. */
+  formatFoldDiscards: (folded: FoldedReview) => string[];
+  loadJournal: () => Promise<LoadedJournal>;
+  /** Today in the fund's trading-day timezone: the default period. */
+  today: () => string;
+  now: () => Date;
+  out: (message: string) => void;
+  err: (message: string) => void;
+}
+
+export type PeriodCloseRejection =
+  | "usage"
+  | "bad-date"
+  | "future-date"
+  | "closes-unreadable"
+  | "already-closed"
+  | "journal-unreadable";
+
+export type PeriodCloseOutcome =
+  | { status: "written"; close: PeriodClose }
+  | { status: "rejected"; reason: PeriodCloseRejection; message: string };
+
+function reject(io: PeriodCloseIo, reason: PeriodCloseRejection, message: string): PeriodCloseOutcome {
+  io.err(`REFUSED — ${message}\nNothing was written to ${io.closesPath}.`);
+  return { status: "rejected", reason, message };
+}
+
+/**
+ * Close one period, or refuse and write nothing. Validate the period → read the closes
+ * already on record → fold and read the journal → append; the only write is the last
+ * statement, and the append re-checks the period under its lock.
+ */
+export async function closePeriod(args: string[], io: PeriodCloseIo): Promise<PeriodCloseOutcome> {
+  if (args.length > 1 || args.some((arg) => arg.startsWith("--"))) {
+    return reject(io, "usage", PERIOD_CLOSE_USAGE);
+  }
+  const today = io.today();
+  const period = args[0] ?? today;
+  if (!isIsoCalendarDate(period)) {
+    return reject(io, "bad-date", "the period must be a YYYY-MM-DD calendar date");
+  }
+  if (period > today) {
+    // A close taken ahead of its period would freeze figures the period has not
+    // reached yet, and then refuse the real close when the day came.
+    return reject(io, "future-date", `${period} is after today (${today})`);
+  }
+
+  const loaded = await io.loadPeriodCloses(io.closesPath);
+  const closeIssues = formatPeriodCloseLoadIssues(loaded);
+  if (loaded.load.status === "load-failed") {
+    // An unreadable file cannot answer "is this period already closed".
+    return reject(io, "closes-unreadable", closeIssues[0] as string);
+  }
+  for (const issue of closeIssues) {
+    io.err(issue);
+  }
+  if (loaded.closes.some((close) => close.period === period)) {
+    return reject(
+      io,
+      "already-closed",
+      `${period} is already closed; a close is never rewritten. ` +
+        `Compare it with \`pnpm report --diff-closes <from> <to>\` instead`,
+    );
+  }
+
+  const journal = await io.loadJournal();
+  const journalIssues = formatJournalLoadIssues(journal);
+  if (journal.load.status === "load-failed") {
+    // A close with no journal references would claim nothing was written in the period.
+    return reject(io, "journal-unreadable", journalIssues[0] as string);
+  }
+  for (const issue of journalIssues) {
+    io.err(issue);
+  }
+
+  const folded = await io.foldAsOf(period);
+  for (const line of io.formatFoldDiscards(folded)) {
+    io.err(line);
+  }
+  const previous = previousPeriodClose(loaded.closes, period);
+  const close = buildPeriodClose({
+    data: folded.data,
+    period,
+    closedAt: io.now().toISOString(),
+    journal: journal.entries,
+    ...(previous ? { previousPeriod: previous.period } : {}),
+  });
+  await io.appendPeriodClose(io.closesPath, close);
+  io.out(
+    `Closed ${period}: fund value ${close.fundValueUsd.toFixed(2)} USD, ` +
+      `${close.prices.length} price(s), ${close.journal.length} journal reference(s).\n`,
+  );
+  return { status: "written", close };
+}
+
+/** What `pnpm report --diff-closes` renders, or why it cannot. */
+export type CloseDiffSection =
+  | { status: "ok"; diff: PeriodCloseDiff; issues: string[] }
+  | { status: "refused"; message: string };
+
+/**
+ * Diff the closes for two periods, `from` the earlier. Refuses — rather than diffing
+ * against a fold — a period that was never closed, naming the ones that were.
+ */
+export function composeCloseDiff(
+  loaded: LoadedPeriodCloses,
+  from: string,
+  to: string,
+): CloseDiffSection {
+  const issues = formatPeriodCloseLoadIssues(loaded);
+  if (loaded.load.status === "load-failed") {
+    return { status: "refused", message: issues[0] as string };
+  }
+  if (from >= to) {
+    return { status: "refused", message: `--diff-closes wants the earlier period first (${from} is not before ${to})` };
+  }
+  const closed = loaded.closes.map((close) => close.period);
+  const pick = (period: string) => loaded.closes.find((close) => close.period === period);
+  const fromClose = pick(from);
+  const toClose = pick(to);
+  if (!fromClose || !toClose) {
+    const missing = fromClose ? to : from;
+    return {
+      status: "refused",
+      message:
+        `${missing} was never closed. ` +
+        (closed.length > 0 ? `Closed periods: ${closed.join(", ")}` : "No period has been closed yet"),
+    };
+  }
+  return { status: "ok", diff: diffPeriodCloses(fromClose, toClose, loaded.closes), issues };
+}
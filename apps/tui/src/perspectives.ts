@@ -0,0 +1,64 @@
+/**
+ * The shell that joins the `perspectives.jsonl` sidecar to a fold, so a surface can show
+ * a saved lens. The ADR-001 split again: what a lens MEANS — its filter, grouping and
+ * order — is pure and lives in `@numisma/engine` (`applyPerspective`); the read lives in
+ * `@numisma/preferences` (`loadPerspectives`); this file decides what a surface shows
+ * when the lens it asked for cannot be applied.
+ *
+ * A LENS THAT CANNOT BE APPLIED REFUSES, it never falls back to the plain composition.
+ * An unreadable sidecar or an unknown name rendered as "no lens" would show the whole
+ * Fund under a heading the operator believes is filtered — the Perspective's one
+ * failure mode that misleads rather than merely omits.
+ */
+import {
+  applyPerspective,
+  perspectiveNames,
+  pickPerspective,
+  type CompositionReport,
+  type FundReviewData,
+  type LoadedPerspectives,
+  type PerspectiveView,
+} from "@numisma/engine";
+import { formatPerspectiveLoadIssues } from "@numisma/preferences";
+
+/**
+ * What a surface renders for the lens sidecar. `issues` carries the discarded-line
+ * report on both arms, so a lens that vanished because its line was rejected is
+ * explained rather than silently missing.
+ */
+export type PerspectiveSection =
+  | { status: "composed"; names: string[]; view?: PerspectiveView; issues: string[] }
+  | { status: "refused"; message: string; issues: string[] };
+
+/**
+ * Compose the section for `active` (undefined: no lens applied). Returns undefined when
+ * there is nothing at all to say — no lens saved, none asked for, nothing discarded —
+ * so a data dir without the sidecar renders exactly the prior surface.
+ */
+export function composePerspectiveSection(
+  data: FundReviewData,
+  report: CompositionReport,
+  loaded: LoadedPerspectives,
+  active: string | undefined,
+): PerspectiveSection | undefined {
+  const issues = loaded.skipped.length > 0 ? formatPerspectiveLoadIssues(loaded) : [];
+  if (loaded.load.status === "load-failed") {
+    return { status: "refused", message: formatPerspectiveLoadIssues(loaded)[0] as string, issues: [] };
+  }
+  const names = perspectiveNames(loaded.perspectives);
+  if (active === undefined) {
+    return names.length === 0 && issues.length === 0
+      ? undefined
+      : { status: "composed", names, issues };
+  }
+  const perspective = pickPerspective(loaded.perspectives, active);
+  if (!perspective) {
+    const saved = names.length > 0 ? names.join(", ") : "none";
+    return {
+      status: "refused",
+      message: `No saved Perspective named "${active}" (saved: ${saved}).`,
+      issues,
+    };
+  }
+  return { status: "composed", names, view: applyPerspective(data, report, perspective), issues };
+}
@@ -320,7 +320,7 @@ describe("on a terminal where the question is aborted the channel ends the ANSWE
  * therefore cannot tell a flow whether an answer was typed or abandoned, so the channel
  * remembers it beside the string. What the flow does with it is the flow's business and
  * is pinned where that behaviour lives — `import-orders.test.ts` drives
- * `importBitgetOpenOrders` with an abandoning `ask` and asserts nothing is appended.
+ * `importOpenOrders` with an abandoning `ask` and asserts nothing is appended.
  * What is pinned HERE is only the latch: when it is set, when it is not, and that it
  * never clears.
  */
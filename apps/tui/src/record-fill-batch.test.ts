@@ -0,0 +1,336 @@
+// THE FILL ACT FROM A FILE — what a batch line answers, where a batch stops, and that a
+// stopped or refused batch leaves the files exactly as the last landed act left them.
+//
+// The act's own rules (atomicity, the ceiling, monotonicity) are `record-fill.test.ts`'s;
+// what is locked here is the DRIVING: the whole file is parsed before the first act, a
+// question the line does not answer goes unanswered rather than defaulted, the first
+// refusal stops the batch, and a re-run skips what already landed.
+//
+// EVERY FIXTURE IS A SYNTHETIC LADDER (`O7`). Invented instrument, round decade prices,
+// round balances.
+import { describe, expect, it } from "vitest";
+import {
+  foldEvents,
+  parseFundReview,
+  parseOrderRecord,
+  serializeOrderRecord,
+  type FundReviewData,
+  type OrderRecord,
+  type PortfolioEvent,
+} from "@numisma/engine";
+import type { OrdersLoad } from "@numisma/preferences";
+import { parseFillBatch, recordFillBatch, type FillBatchIo } from "./record-fill-batch.js";
+
+const BATCH_PATH = "/synthetic/fills.jsonl";
+
+function genesisSeed(): FundReviewData {
+  const parsed = parseFundReview({
+    fund: { id: "fund-synthetic", name: "Synthetic", baseCurrency: "USD" },
+    review: { asOf: "2026-01-01", usdMxn: 20 },
+    portfolios: [{ id: "portfolio-synthetic", name: "Synthetic" }],
+    accounts: [
+      { id: "account-synthetic", name: "Synthetic Venue", platform: "SYNTH", currency: "USD" },
+    ],
+    instruments: [
+      { id: "instrument-synthetic", name: "Synthetic Asset", symbol: "TEST", currency: "USD" },
+    ],
+    reserves: [
+      {
+        id: "reserve-synthetic",
+        portfolioId: "portfolio-synthetic",
+        tempo: "Capital",
+        executionMode: "live",
+        accountId: "account-synthetic",
+        currency: "USD",
+        amount: 10000,
+        lots: [{ quantity: 10000, tier: "c1" }],
+      },
+    ],
+    positions: [],
+  });
+  if (parsed.kind !== "ok") {
+    throw new Error(`synthetic genesis is invalid: ${JSON.stringify(parsed)}`);
+  }
+  return parsed.value;
+}
+
+/** A descending synthetic ladder of three rungs, all against the one reserve. */
+function ladderRecords(): OrderRecord[] {
+  return [400, 300, 200].map((price) => ({
+    id: `rung-${price}`,
+    observedAt: "2026-01-02T09:00:00",
+    kind: "orderPlaced" as const,
+    currency: "USD" as const,
+    symbol: "TEST/USD",
+    side: "buy" as const,
+    price,
+    quantity: 10,
+    fundingReserveId: "reserve-synthetic",
+  }));
+}
+
+/** The in-memory pair of files, and a batch file held as text. */
+class Harness {
+  ordersImage: string;
+  logImage: string | undefined;
+  readonly out: string[] = [];
+  readonly err: string[] = [];
+
+  constructor(public batch: string) {
+    this.ordersImage = ladderRecords()
+      .map((record) => `${serializeOrderRecord(record)}\n`)
+      .join("");
+  }
+
+  get io(): FillBatchIo {
+    return {
+      readBatch: async () => this.batch,
+      ordersPath: "/synthetic/orders.jsonl",
+      eventsPath: "/synthetic/events.jsonl",
+      loadOrders: async (): Promise<OrdersLoad> => ({
+        status: "loaded",
+        path: "/synthetic/orders.jsonl",
+        records: this.orderRecords(),
+        skips: [],
+      }),
+      appendOrders: async (_path, records) => {
+        this.ordersImage += records.map((record) => `${serializeOrderRecord(record)}\n`).join("");
+      },
+      readLogImage: async () => this.logImage,
+      writeLogImage: async (contents) => {
+        this.logImage = contents;
+      },
+      restoreLogImage: async (prior) => {
+        this.logImage = prior;
+      },
+      loadGenesis: async () => genesisSeed(),
+      loadLogEvents: async () => this.logEvents(),
+      loadFolded: async () => foldEvents(genesisSeed(), this.logEvents()).data,
+      plansPath: "/synthetic/plans.jsonl",
+      loadPlans: async () => ({
+        load: { status: "loaded" as const, sourcePath: "/synthetic/plans.jsonl" },
+        plans: [],
+        skipped: [],
+      }),
+      reconciliationsPath: "/synthetic/reconciliations.jsonl",
+      appendReconciliation: async () => {},
+      toldAt: () => "2026-01-05T18:07:00-06:00",
+      out: (message) => this.out.push(message),
+      err: (message) => this.err.push(message),
+    };
+  }
+
+  orderRecords(): OrderRecord[] {
+    return this.ordersImage
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => {
+        const parsed = parseOrderRecord(JSON.parse(line));
+        if (parsed.status !== "ok") throw new Error(`bad synthetic order line: ${line}`);
+        return parsed.record;
+      });
+  }
+
+  logEvents(): PortfolioEvent[] {
+    if (this.logImage === undefined) return [];
+    return this.logImage
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => {
+        const { schemaVersion: _schemaVersion, ...event } = JSON.parse(line) as Record<
+          string,
+          unknown
+        >;
+        return event as unknown as PortfolioEvent;
+      });
+  }
+
+  run() {
+    return recordFillBatch({ batchPath: BATCH_PATH, io: this.io });
+  }
+}
+
+/** The first fill on the ladder: the top rung, opening the Position. */
+const OPEN_TOP_RUNG = {
+  orderId: "rung-400",
+  observedAt: "2026-01-05T12:00:00",
+  quantity: 10,
+  fundingReserveId: "reserve-synthetic",
+  book: { "rung-300": "resting", "rung-200": "resting" },
+  decision: {
+    positionId: "position-synthetic",
+    entryThesis: "synthetic entry thesis",
+    invalidationCondition: "synthetic invalidation condition",
+    riskBudget: "synthetic risk budget",
+    plannedHoldingHorizon: "synthetic horizon",
+    strategy: "synthetic strategy",
+  },
+};
+
+/** The second: the next rung down, appending to the Position the first one opened. */
+const APPEND_NEXT_RUNG = {
+  orderId: "rung-300",
+  observedAt: "2026-01-06T12:00:00",
+  quantity: 10,
+  fundingReserveId: "reserve-synthetic",
+  cash: 2990,
+  book: { "rung-200": "resting" },
+  ladderTarget: { positionId: "position-synthetic" },
+};
+
+function jsonl(...lines: object[]): string {
+  return lines.map((line) => `${JSON.stringify(line)}\n`).join("");
+}
+
+describe("parseFillBatch — the whole file, before any act", () => {
+  it("reads one fill per line and ignores blank lines", () => {
+    const parsed = parseFillBatch(`\n${jsonl(OPEN_TOP_RUNG)}\n${jsonl(APPEND_NEXT_RUNG)}`);
+    expect(parsed.status).toBe("ok");
+    if (parsed.status !== "ok") return;
+    expect(parsed.entries.map((entry) => [entry.line, entry.orderId])).toEqual([
+      [2, "rung-400"],
+      [4, "rung-300"],
+    ]);
+    expect(parsed.entries[1]?.cash).toBe(2990);
+  });
+
+  it("refuses an unknown field rather than letting a misspelt figure fall to its default", () => {
+    const parsed = parseFillBatch(jsonl(OPEN_TOP_RUNG, { ...APPEND_NEXT_RUNG, cahs: 2990 }));
+    expect(parsed).toEqual({ status: "malformed", line: 2, message: "unknown field(s) 'cahs'" });
+  });
+
+  it("refuses a bad stamp, a Position both joined and opened, and a short decision", () => {
+    expect(parseFillBatch(jsonl({ ...OPEN_TOP_RUNG, observedAt: "2026-01-05" }))).toMatchObject({
+      status: "malformed",
+      line: 1,
+    });
+    expect(
+      parseFillBatch(jsonl({ ...OPEN_TOP_RUNG, ladderTarget: { positionId: "p" } })),
+    ).toMatchObject({ status: "malformed", message: expect.stringContaining("exclusive") });
+    const { strategy: _strategy, ...shortDecision } = OPEN_TOP_RUNG.decision;
+    expect(parseFillBatch(jsonl({ ...OPEN_TOP_RUNG, decision: shortDecision }))).toEqual({
+      status: "malformed",
+      line: 1,
+      message: "decision is missing strategy",
+    });
+  });
+});
+
+describe("recordFillBatch — one act per line, stopping at the first refusal", () => {
+  it("records every line in order, with the later line seeing the Position the first opened", async () => {
+    const harness = new Harness(jsonl(OPEN_TOP_RUNG, APPEND_NEXT_RUNG));
+    const outcome = await harness.run();
+    expect(outcome).toEqual({ status: "completed", recorded: 2, alreadyRecorded: 0 });
+
+    const position = foldEvents(genesisSeed(), harness.logEvents()).data.positions.find(
+      (entry) => entry.id === "position-synthetic",
+    );
+    expect(position?.lots.reduce((total, lot) => total + lot.quantity, 0)).toBe(20);
+    // The stated cash was debited rather than `price × quantity`: 4000 + 2990.
+    const reserve = foldEvents(genesisSeed(), harness.logEvents()).data.reserves[0];
+    expect(reserve?.amount).toBe(10000 - 4000 - 2990);
+    expect(harness.out.join("")).toContain("Append this lot to 'position-synthetic'? [Y/n]: y");
+  });
+
+  it("stops at the first refusal, names the line, and attempts nothing after it", async () => {
+    const harness = new Harness(
+      jsonl(OPEN_TOP_RUNG, { ...APPEND_NEXT_RUNG, quantity: 11 }, { ...APPEND_NEXT_RUNG }),
+    );
+    const outcome = await harness.run();
+    expect(outcome).toMatchObject({
+      status: "stopped",
+      recorded: 1,
+      unattempted: 1,
+      stop: { line: 2, orderId: "rung-300" },
+    });
+    expect(harness.orderRecords().filter((record) => record.kind === "orderFilled")).toHaveLength(
+      1,
+    );
+    expect(harness.err.join("\n")).toContain("STOPPED at line 2");
+  });
+
+  it("stops, writing nothing, when a line's reserve is not the one the rung was placed against", async () => {
+    const harness = new Harness(jsonl({ ...OPEN_TOP_RUNG, fundingReserveId: "reserve-other" }));
+    const ordersBefore = harness.ordersImage;
+    const outcome = await harness.run();
+    expect(outcome).toMatchObject({ status: "stopped", stop: { reason: "reserve-mismatch" } });
+    expect(harness.ordersImage).toBe(ordersBefore);
+    expect(harness.logImage).toBeUndefined();
+  });
+
+  it("fails closed at a question the line does not answer — never a default", async () => {
+    const { book: _book, ...undeclaredBook } = OPEN_TOP_RUNG;
+    const harness = new Harness(jsonl(undeclaredBook));
+    const ordersBefore = harness.ordersImage;
+    const outcome = await harness.run();
+    expect(outcome).toMatchObject({ status: "stopped", stop: { reason: "abandoned" } });
+    expect(harness.out.join("")).toContain(
+      "rung-300 — [r]esting untouched / [t]ouched / [g]one? [r]: (not declared on this line)",
+    );
+    expect(harness.ordersImage).toBe(ordersBefore);
+    expect(harness.logImage).toBeUndefined();
+  });
+
+  it("answers every question the act puts to a fully declared batch", async () => {
+    // The switch is keyed by the act's question identifiers, so the compiler holds the set;
+    // this holds the ANSWERS — each one reaching the question it was declared for.
+    const harness = new Harness(
+      jsonl(
+        {
+          ...OPEN_TOP_RUNG,
+          book: { "rung-300": 4, "rung-200": "resting", "rung-100": "gone" },
+          recordCancellations: true,
+        },
+        APPEND_NEXT_RUNG,
+        {
+          orderId: "sell-500",
+          observedAt: "2026-01-07T12:00:00",
+          quantity: 20,
+          fundingReserveId: "reserve-synthetic",
+          ladderTarget: { positionId: "position-synthetic" },
+          tier: "c1",
+        },
+      ),
+    );
+    // A fourth rung, gone beneath one still resting, is a cancellation the act offers to
+    // record; the sell was placed before sells declared their units, so it asks for them.
+    const placed = ladderRecords()[0];
+    if (placed === undefined) throw new Error("the synthetic ladder is empty");
+    harness.ordersImage += [
+      { ...placed, id: "rung-100", price: 100 },
+      { ...placed, id: "sell-500", side: "sell" as const, price: 500, quantity: 20 },
+    ]
+      .map((record) => `${serializeOrderRecord(record)}\n`)
+      .join("");
+    const outcome = await harness.run();
+    const transcript = harness.out.join("");
+    expect(transcript).not.toContain("(not declared on this line)");
+    expect(outcome).toEqual({ status: "completed", recorded: 3, alreadyRecorded: 0 });
+    for (const prompt of [
+      "filled_quantity observed",
+      "Also record 1 confirmed cancellation(s) in this act? [y/N]: y",
+      "Position this sell takes units from",
+      "Capital tier it takes units from",
+      "Cash credited [",
+    ]) {
+      expect(transcript).toContain(prompt);
+    }
+  });
+
+  it("skips the lines already on file, so a batch can be run again", async () => {
+    const harness = new Harness(jsonl(OPEN_TOP_RUNG, APPEND_NEXT_RUNG));
+    await harness.run();
+    const logAfterFirst = harness.logImage;
+    const outcome = await harness.run();
+    expect(outcome).toEqual({ status: "completed", recorded: 0, alreadyRecorded: 2 });
+    expect(harness.logImage).toBe(logAfterFirst);
+  });
+
+  it("refuses a malformed batch before any act, naming the file and line", async () => {
+    const harness = new Harness(`${jsonl(OPEN_TOP_RUNG)}{not json\n`);
+    const outcome = await harness.run();
+    expect(outcome).toMatchObject({ status: "rejected", reason: "malformed-batch" });
+    expect(harness.err.join("\n")).toContain(`${BATCH_PATH}:2`);
+    expect(harness.logImage).toBeUndefined();
+  });
+});
@@ -0,0 +1,541 @@
+/**
+ * THE FILL ACT, DRIVEN FROM A FILE — `pnpm orders:fill --batch <fills.jsonl>`.
+ *
+ * `recordFill` is an interview, and on a stdin that is no terminal every one of its
+ * questions goes unanswered (`record-fill-cli.ts`, #388). That is right for an interview
+ * and it left fills unscriptable even when the exact figures were sitting in a file. This
+ * is the file: one line per fill, DECLARING the answers the operator would have typed, and
+ * each line drives the unchanged act — the sidecar read, the torn-act block, the admission
+ * ceiling, monotonicity, the override guard, `parseEvent`, the log-first write and its
+ * rollback. Nothing the act refuses at a terminal is admitted here.
+ *
+ * DECLARED, NOT DEFAULTED. Each line's answers are put to the act's own questions through
+ * {@link answerFrom}, one switch keyed by the question's identifier, and a question the
+ * line does not answer goes UNANSWERED. So the act refuses or abandons
+ * AT that question, in its own words, exactly as it would for a Ctrl-D; a default is taken
+ * only where the line says so by leaving the figure out (`cash`). The two `[y/N]` gates are
+ * answered yes: writing the file IS the confirmation, and the transcript below is the
+ * preview the operator would have read.
+ *
+ * THE WHOLE FILE IS READ BEFORE THE FIRST ACT. A line that does not parse, names a field
+ * this format does not have, or states an impossible figure refuses the batch with
+ * nothing written — a typo in line nine must not be found after eight acts have landed.
+ *
+ * ONE ACT PER LINE, IN FILE ORDER, AND THE FIRST REFUSAL STOPS THE BATCH. Unlike
+ * `import-fills.ts`, where a refused trade is one decision among many still the operator's
+ * to review, nobody is here to review the rest: the lines after a refusal were written on
+ * the assumption that it landed, and a second partial weighed against a first that did not
+ * land is a different fill. So the stop names the line, and how many were not attempted.
+ *
+ * RE-RUNNABLE. A line whose act is already on file — by the act's own key,
+ * `fillEventId(orderId, observedAt)`, read from the sidecar as `matchObservedFills` does —
+ * is reported `already recorded` and skipped, so the same file run again after a stop
+ * picks up at the line that stopped it.
+ */
+import {
+  fillEventId,
+  isCapitalTier,
+  isObservedAtStamp,
+  OBSERVED_AT_RULE,
+  pickRestingOrdersAsOf,
+  type CapitalTier,
+  type OrderRecord,
+} from "@numisma/engine";
+import { plural } from "./plural.js";
+import { UNANSWERED, type Answer } from "./prompt-channel.js";
+import {
+  recordFill,
+  type FillAsk,
+  type FillQuestion,
+  type RecordFillIo,
+  type RecordFillRejection,
+} from "./record-fill.js";
+
+/**
+ * The fill act's own bag, WITHOUT its prompt channel, plus the batch reader. A batch never
+ * asks a terminal anything, and the compiler rather than a convention holds that: every
+ * answer comes from the file.
+ */
+export interface FillBatchIo extends Omit<RecordFillIo, "ask"> {
+  /** Read the batch file. Rejects (throws) if it is unreadable; we catch it. */
+  readBatch: (path: string) => Promise<string>;
+}
+
+/**
+ * What the file says a rung OTHER than the filled one shows at the venue — the answer to
+ * the act's per-rung book question. A number is the venue's CUMULATIVE filled quantity for
+ * a touched rung, the basis that question names.
+ */
+export type FillBatchBookAnswer = "resting" | "gone" | number;
+
+/** The five decision fields, and the id and tempo, of the Position a first fill opens. */
+export interface FillBatchDecision {
+  positionId: string;
+  /** Omitted, the reserve's own tempo — the `Tempo [x]` default, taken on purpose. */
+  tempo?: string;
+  entryThesis: string;
+  invalidationCondition: string;
+  riskBudget: string;
+  plannedHoldingHorizon: string;
+  strategy: string;
+}
+
+/** One line of a fill batch, parsed. */
+export interface FillBatchEntry {
+  /** The 1-based line of the file it was read from — what every report names. */
+  line: number;
+  orderId: string;
+  observedAt: string;
+  quantity: number;
+  /**
+   * The reserve the file expects this fill to move: the rung's `fundingReserveId` — the
+   * reserve a buy debits, or the one a sell settles into. A CROSS-CHECK, never an answer:
+   * the act reads the reserve off the rung, and a batch whose line disagrees stops.
+   */
+  fundingReserveId: string;
+  /** Cash debited (a buy) or credited (a sell). Omitted, `price × quantity`. */
+  cash?: number;
+  /** The lot's tier on a buy; on a sell that declared no units, the tier it sells from. */
+  tier?: CapitalTier;
+  /** Asked only when the reserve's account holds no instrument for the rung's symbol. */
+  instrumentId?: string;
+  /** Keyed by order id: every OTHER resting rung of the ladder the act asks about. */
+  book?: Record<string, FillBatchBookAnswer>;
+  /** Whether the derived `cancelled` verdicts are written in the same act. Omitted, no. */
+  recordCancellations?: boolean;
+  /**
+   * The EXISTING Position this fill belongs to: a buy appends its lot there, and a sell
+   * that declared no units sells from it. Exclusive with `decision`.
+   */
+  ladderTarget?: { positionId: string };
+  /** The Position a first fill on its ladder opens. Exclusive with `ladderTarget`. */
+  decision?: FillBatchDecision;
+}
+
+export type FillBatchParse =
+  | { status: "ok"; entries: FillBatchEntry[] }
+  | { status: "malformed"; line: number; message: string };
+
+export type FillBatchRejection = "unreadable-batch" | "malformed-batch" | "empty-batch";
+
+/** Why a batch stopped: the act's own refusal, or the file's reserve disagreeing. */
+export type FillBatchStop = {
+  line: number;
+  orderId: string;
+  reason: RecordFillRejection | "reserve-mismatch" | "abandoned";
+  message: string;
+};
+
+export type FillBatchOutcome =
+  | {
+      status: "completed";
+      /** Acts written by this run, buys and sells alike. */
+      recorded: number;
+      /** Lines whose act was already on file, and so were skipped. */
+      alreadyRecorded: number;
+    }
+  | {
+      status: "stopped";
+      recorded: number;
+      alreadyRecorded: number;
+      stop: FillBatchStop;
+      /** Lines after the stop, none of which was attempted. */
+      unattempted: number;
+    }
+  | { status: "rejected"; reason: FillBatchRejection; message: string };
+
+const ENTRY_FIELDS = new Set([
+  "orderId",
+  "observedAt",
+  "quantity",
+  "fundingReserveId",
+  "cash",
+  "tier",
+  "instrumentId",
+  "book",
+  "recordCancellations",
+  "ladderTarget",
+  "decision",
+]);
+
+const DECISION_FIELDS = [
+  "entryThesis",
+  "invalidationCondition",
+  "riskBudget",
+  "plannedHoldingHorizon",
+  "strategy",
+] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/** One line's fields, or the sentence saying which of them is wrong. */
+function parseEntry(raw: Record<string, unknown>, line: number): FillBatchEntry | string {
+  // AN UNKNOWN FIELD REFUSES. A misspelt `cahs` would otherwise be ignored, and the act
+  // would debit `price × quantity` on a line that meant to state the cash.
+  const unknown = Object.keys(raw).filter((key) => !ENTRY_FIELDS.has(key));
+  if (unknown.length > 0) {
+    return `unknown field(s) ${unknown.map((key) => `'${key}'`).join(", ")}`;
+  }
+  const { orderId, observedAt, quantity, fundingReserveId } = raw;
+  if (!isNonEmptyString(orderId)) {
+    return "orderId is required";
+  }
+  if (typeof observedAt !== "string" || !isObservedAtStamp(observedAt)) {
+    return `observedAt '${String(observedAt)}' is not a valid stamp — ${OBSERVED_AT_RULE}`;
+  }
+  if (!isPositive(quantity)) {
+    return "quantity must be a positive number";
+  }
+  if (!isNonEmptyString(fundingReserveId)) {
+    return "fundingReserveId is required";
+  }
+  const entry: FillBatchEntry = { line, orderId, observedAt, quantity, fundingReserveId };
+
+  if (raw.cash !== undefined) {
+    if (!isPositive(raw.cash)) {
+      return "cash must be a positive number";
+    }
+    entry.cash = raw.cash;
+  }
+  if (raw.tier !== undefined) {
+    if (!isCapitalTier(raw.tier)) {
+      return `tier '${String(raw.tier)}' is not a capital tier (c1/c2/c3)`;
+    }
+    entry.tier = raw.tier;
+  }
+  if (raw.instrumentId !== undefined) {
+    if (!isNonEmptyString(raw.instrumentId)) {
+      return "instrumentId must be a non-empty string";
+    }
+    entry.instrumentId = raw.instrumentId;
+  }
+  if (raw.book !== undefined) {
+    if (!isRecord(raw.book)) {
+      return "book must be an object keyed by order id";
+    }
+    for (const [id, answer] of Object.entries(raw.book)) {
+      if (answer !== "resting" && answer !== "gone" && !isPositive(answer)) {
+        return (
+          `book['${id}'] must be "resting", "gone", or the venue's cumulative filled ` +
+          `quantity`
+        );
+      }
+    }
+    entry.book = raw.book as Record<string, FillBatchBookAnswer>;
+  }
+  if (raw.recordCancellations !== undefined) {
+    if (typeof raw.recordCancellations !== "boolean") {
+      return "recordCancellations must be true or false";
+    }
+    entry.recordCancellations = raw.recordCancellations;
+  }
+  if (raw.ladderTarget !== undefined && raw.decision !== undefined) {
+    return "ladderTarget and decision are exclusive — a fill joins a Position or opens one";
+  }
+  if (raw.ladderTarget !== undefined) {
+    if (!isRecord(raw.ladderTarget) || !isNonEmptyString(raw.ladderTarget.positionId)) {
+      return "ladderTarget must name a positionId";
+    }
+    entry.ladderTarget = { positionId: raw.ladderTarget.positionId };
+  }
+  if (raw.decision !== undefined) {
+    const decision = raw.decision;
+    if (!isRecord(decision) || !isNonEmptyString(decision.positionId)) {
+      return "decision must name a positionId";
+    }
+    const {
+      tempo,
+      entryThesis,
+      invalidationCondition,
+      riskBudget,
+      plannedHoldingHorizon,
+      strategy,
+    } = decision;
+    // All five, for the reason `authorLadderTarget` refuses `incomplete-decision`: none of
+    // them has a default, and a batch is no place to discover that after the fact.
+    if (
+      !isNonEmptyString(entryThesis) ||
+      !isNonEmptyString(invalidationCondition) ||
+      !isNonEmptyString(riskBudget) ||
+      !isNonEmptyString(plannedHoldingHorizon) ||
+      !isNonEmptyString(strategy)
+    ) {
+      const missing = DECISION_FIELDS.filter((field) => !isNonEmptyString(decision[field]));
+      return `decision is missing ${missing.join(", ")}`;
+    }
+    if (tempo !== undefined && !isNonEmptyString(tempo)) {
+      return "decision.tempo must be a non-empty string when given";
+    }
+    entry.decision = {
+      positionId: decision.positionId,
+      ...(tempo !== undefined ? { tempo } : {}),
+      entryThesis,
+      invalidationCondition,
+      riskBudget,
+      plannedHoldingHorizon,
+      strategy,
+    };
+  }
+  return entry;
+}
+
+/**
+ * Parse a whole fill batch — JSONL, one object per fill, blank lines ignored — or name the
+ * first line that is wrong. All or nothing: no act runs on a file with a bad line in it.
+ */
+export function parseFillBatch(text: string): FillBatchParse {
+  const entries: FillBatchEntry[] = [];
+  const lines = text.split(/\r?\n/);
+  for (const [index, source] of lines.entries()) {
+    const line = index + 1;
+    if (source.trim() === "") {
+      continue;
+    }
+    let raw: unknown;
+    try {
+      raw = JSON.parse(source);
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      return { status: "malformed", line, message: `not JSON — ${detail}` };
+    }
+    if (!isRecord(raw)) {
+      return { status: "malformed", line, message: "not a JSON object" };
+    }
+    const entry = parseEntry(raw, line);
+    if (typeof entry === "string") {
+      return { status: "malformed", line, message: entry };
+    }
+    entries.push(entry);
+  }
+  return { status: "ok", entries };
+}
+
+function bookAnswer(answer: FillBatchBookAnswer): string {
+  if (answer === "resting") {
+    return "r";
+  }
+  return answer === "gone" ? "g" : "t";
+}
+
+/**
+ * The answer one line of the batch gives one of the act's questions, or `UNANSWERED`.
+ *
+ * KEYED BY THE QUESTION'S IDENTIFIER, never its wording: `record-fill.ts` names every
+ * question it puts ({@link FillQuestion}), so a prompt can be reworded without this table
+ * noticing, and a question ADDED there stops this switch compiling until it is told what a
+ * line answers. An undeclared figure is still `UNANSWERED`, and the act refuses or abandons
+ * at that question in its own words.
+ *
+ * `touched` carries the one piece of state the interview has: the book question's `t`
+ * is followed by the cumulative-quantity question for the same rung.
+ */
+function answerFrom(
+  entry: FillBatchEntry,
+  asked: FillQuestion,
+  touched: { quantity?: number },
+): Answer {
+  const decision = entry.decision;
+  let answer: Answer | undefined;
+  switch (asked.id) {
+    case "rung":
+      answer = entry.orderId;
+      break;
+    case "observed-at":
+      answer = entry.observedAt;
+      break;
+    case "quantity":
+      answer = String(entry.quantity);
+      break;
+    case "book": {
+      const book = entry.book?.[asked.orderId];
+      if (typeof book === "number") {
+        touched.quantity = book;
+      }
+      answer = book === undefined ? undefined : bookAnswer(book);
+      break;
+    }
+    case "book-cumulative":
+      answer = touched.quantity === undefined ? undefined : String(touched.quantity);
+      break;
+    case "confirm-verdicts":
+    case "write-both":
+      answer = "y";
+      break;
+    case "record-cancellations":
+      answer = entry.recordCancellations ? "y" : "n";
+      break;
+    case "instrument":
+      answer = entry.instrumentId;
+      break;
+    case "append-to":
+      // A named Position that is not the one the fold resolves is a decline, and so is a
+      // line that meant to OPEN one: either way the lot does not belong where it is offered.
+      answer = entry.ladderTarget?.positionId === asked.positionId ? "y" : "n";
+      break;
+    case "position-id":
+      answer = decision?.positionId;
+      break;
+    case "tempo":
+      answer = decision === undefined ? undefined : (decision.tempo ?? "");
+      break;
+    case "decision":
+      answer = decision?.[asked.field];
+      break;
+    case "cash":
+      answer = entry.cash === undefined ? "" : String(entry.cash);
+      break;
+    case "lot-tier":
+    case "sell-tier":
+      answer = entry.tier;
+      break;
+    case "sell-position":
+      answer = entry.ladderTarget?.positionId;
+      break;
+    default: {
+      const _never: never = asked;
+      void _never;
+      break;
+    }
+  }
+  return answer ?? UNANSWERED;
+}
+
+/**
+ * The `ask` one line drives the act with. Every question and its answer is echoed to `out`,
+ * so the batch's transcript reads as the interview would have, answers included.
+ */
+function scriptedAsk(entry: FillBatchEntry, out: (message: string) => void): FillAsk {
+  const touched: { quantity?: number } = {};
+  return async (question, asked) => {
+    const answer = answerFrom(entry, asked, touched);
+    out(`${question}${answer === UNANSWERED ? "(not declared on this line)" : answer}\n`);
+    return answer;
+  };
+}
+
+function reject(
+  io: FillBatchIo,
+  reason: FillBatchRejection,
+  message: string,
+): FillBatchOutcome {
+  io.err(`REFUSED — ${message}\nNothing was written to ${io.eventsPath} or ${io.ordersPath}.`);
+  return { status: "rejected", reason, message };
+}
+
+/** The acts already on file, by the act's own key — read from the sidecar's fill lines. */
+function recordedActs(records: readonly OrderRecord[]): Set<string> {
+  return new Set(
+    records
+      .filter((record) => record.kind === "orderFilled")
+      .map((record) => fillEventId(record.id, record.observedAt)),
+  );
+}
+
+/** The stop, said out loud: where, and what it left undone. */
+function stopped(
+  io: FillBatchIo,
+  entries: readonly FillBatchEntry[],
+  index: number,
+  recorded: number,
+  alreadyRecorded: number,
+  stop: FillBatchStop,
+): FillBatchOutcome {
+  const unattempted = entries.length - index - 1;
+  io.err(
+    `STOPPED at line ${stop.line} — ${plural(recorded, "fill")} recorded before it, ` +
+      `${alreadyRecorded} already on file, ${unattempted} after it not attempted. Correct ` +
+      `that line and run the batch again; the fills already recorded are skipped.`,
+  );
+  return { status: "stopped", recorded, alreadyRecorded, stop, unattempted };
+}
+
+/**
+ * Read one fill batch and record each of its lines as a fill act, in file order, stopping
+ * at the first the act refuses or abandons.
+ */
+export async function recordFillBatch(options: {
+  batchPath: string;
+  io: FillBatchIo;
+}): Promise<FillBatchOutcome> {
+  const { batchPath, io } = options;
+
+  let text: string;
+  try {
+    text = await io.readBatch(batchPath);
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    return reject(io, "unreadable-batch", `could not read ${batchPath}: ${detail}`);
+  }
+  const parsed = parseFillBatch(text);
+  if (parsed.status === "malformed") {
+    return reject(io, "malformed-batch", `${batchPath}:${parsed.line} — ${parsed.message}`);
+  }
+  const { entries } = parsed;
+  if (entries.length === 0) {
+    return reject(io, "empty-batch", `${batchPath} declares no fills`);
+  }
+
+  let recorded = 0;
+  let alreadyRecorded = 0;
+  for (const [index, entry] of entries.entries()) {
+    io.out(
+      `\nFill ${index + 1} of ${entries.length} — ${batchPath}:${entry.line}, ` +
+        `${entry.quantity} of ${entry.orderId} at ${entry.observedAt}\n`,
+    );
+
+    // Re-read per line, as the act itself does: the previous line's fill changed the book.
+    // An unreadable sidecar is not refused HERE — the act refuses it first thing, in its
+    // own words, and this pre-check simply has nothing to say.
+    const load = await io.loadOrders(io.ordersPath);
+    const records = load.status === "loaded" ? load.records : [];
+    if (recordedActs(records).has(fillEventId(entry.orderId, entry.observedAt))) {
+      io.out(`already recorded: ${entry.orderId} at ${entry.observedAt}\n`);
+      alreadyRecorded += 1;
+      continue;
+    }
+    const rung = pickRestingOrdersAsOf(records).find(
+      (order) => order.placed.id === entry.orderId,
+    );
+    if (rung !== undefined && rung.placed.fundingReserveId !== entry.fundingReserveId) {
+      const message =
+        `${batchPath}:${entry.line} names reserve '${entry.fundingReserveId}', but ` +
+        `'${entry.orderId}' was placed against '${rung.placed.fundingReserveId}'`;
+      io.err(`REFUSED — ${message}\nNothing was written to ${io.eventsPath} or ${io.ordersPath}.`);
+      return stopped(io, entries, index, recorded, alreadyRecorded, {
+        line: entry.line,
+        orderId: entry.orderId,
+        reason: "reserve-mismatch",
+        message,
+      });
+    }
+
+    const outcome = await recordFill({ ...io, ask: scriptedAsk(entry, io.out) });
+    if (outcome.status === "recorded" || outcome.status === "recorded-sale") {
+      recorded += 1;
+      continue;
+    }
+    // The act has already said why, to `err`; the stop only says where.
+    return stopped(io, entries, index, recorded, alreadyRecorded, {
+      line: entry.line,
+      orderId: entry.orderId,
+      reason: outcome.status === "abandoned" ? "abandoned" : outcome.reason,
+      message: outcome.message,
+    });
+  }
+
+  io.out(
+    `\nBatch complete: ${plural(recorded, "fill")} recorded, ` +
+      `${alreadyRecorded} already on file.\n`,
+  );
+  return { status: "completed", recorded, alreadyRecorded };
+}
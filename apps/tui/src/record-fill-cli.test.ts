@@ -27,7 +27,7 @@
  * `mkdtemp` directory for every case.
  */
 import { spawnSync } from "node:child_process";
-import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { dirname, join, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
@@ -256,3 +256,60 @@ describe("record-fill-cli — a run with no terminal refuses in its own voice (#
     // between one notice and nineteen is visible, and it needs no process at all.
   });
 });
+
+describe("record-fill-cli --batch — a declared fill lands with no terminal at all", () => {
+  const createdDirs: string[] = [];
+
+  afterEach(async () => {
+    await Promise.all(createdDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+    createdDirs.length = 0;
+  });
+
+  it("records the top rung from a one-line batch, exits 0, and never names a terminal", async () => {
+    const dir = await mkdtemp(resolve(tmpdir(), "numisma-fill-cli-batch-"));
+    createdDirs.push(dir);
+    await writeFile(join(dir, "genesis.json"), JSON.stringify(GENESIS_SEED), "utf8");
+    await writeFile(
+      join(dir, "orders.jsonl"),
+      ladderRecords()
+        .map((record) => `${serializeOrderRecord(record)}\n`)
+        .join(""),
+      "utf8",
+    );
+    await writeFile(join(dir, "events.jsonl"), "", "utf8");
+    const batchPath = join(dir, "fills.jsonl");
+    await writeFile(
+      batchPath,
+      `${JSON.stringify({
+        orderId: "rung-400",
+        observedAt: "2026-01-05T12:00:00",
+        quantity: 10,
+        fundingReserveId: "reserve-synthetic",
+        book: { "rung-300": "resting", "rung-200": "resting" },
+        decision: {
+          positionId: "position-synthetic",
+          entryThesis: "synthetic entry thesis",
+          invalidationCondition: "synthetic invalidation condition",
+          riskBudget: "synthetic risk budget",
+          plannedHoldingHorizon: "synthetic horizon",
+          strategy: "synthetic strategy",
+        },
+      })}\n`,
+      "utf8",
+    );
+
+    const script = join(REPO_ROOT, "apps", "tui", "src", "record-fill-cli.ts");
+    const tsx = join(REPO_ROOT, "node_modules", ".bin", "tsx");
+    const env = { ...process.env, NUMISMA_DATA_DIR: dir };
+    const result = spawnSync(tsx, [script, "--batch", batchPath], {
+      encoding: "utf8",
+      env,
+      input: "",
+    });
+
+    expect(result.stderr ?? "").not.toContain("No terminal on stdin");
+    expect(result.stdout).toContain("Batch complete: 1 fill recorded");
+    expect(result.status).toBe(0);
+    expect(await readFile(join(dir, "orders.jsonl"), "utf8")).toContain('"orderFilled"');
+  });
+});
@@ -2,12 +2,19 @@
  * Node-runnable entry point for the fill act:
  *
  *   pnpm orders:fill
+ *   pnpm orders:fill --batch <path/to/fills.jsonl>
  *
  * WIRING ONLY — it binds the real filesystem, the real data dir, the real genesis + log
  * and a real readline prompt to `recordFill`, which holds the flow, every refusal, the
  * write ordering and the rollback. Keeping the wiring in its own module is what lets the
  * test import the flow with no side effects: importing this file runs the act.
+ *
+ * `--batch` binds the same bag, minus the prompt, to `recordFillBatch`
+ * (`record-fill-batch.ts`), which answers each act's questions from a file instead. One
+ * bag for both, for `import-fills-cli.ts`'s reason: every act either mode writes is a fill
+ * act, and two sets of bindings for one act are two chances to drift.
  */
+import { readFile } from "node:fs/promises";
 import { createInterface } from "node:readline/promises";
 import {
   appendOrders,
@@ -29,8 +36,11 @@ import {
 } from "@numisma/event-store";
 import { restoreLogImage, writeLogImage } from "./event-store.js";
 import { createPromptChannel } from "./prompt-channel.js";
-import { recordFill } from "./record-fill.js";
+import { recordFill, type RecordFillIo } from "./record-fill.js";
+import { recordFillBatch } from "./record-fill-batch.js";
 
+const batchFlag = process.argv.indexOf("--batch");
+const batchPath = batchFlag === -1 ? undefined : process.argv[batchFlag + 1];
 const paths = resolveEventStorePaths();
 /**
  * THE PROMPT CHANNEL (#370, symptom 2). This shell built its interface HERE, at module
@@ -94,9 +104,13 @@ const prompt = createPromptChannel({
   noTerminalNotice:
     "No terminal on stdin: recording a fill is an interview — it asks which rung filled, " +
     "when, and for how much — and there is nowhere to conduct it, so every question goes " +
-    "unanswered. Run it from a terminal.",
+    "unanswered. Run it from a terminal. To record fills with no terminal, declare " +
+    "them in a file for pnpm orders:fill --batch <path/to/fills.jsonl>.",
 });
 try {
+  if (batchFlag !== -1 && !batchPath) {
+    throw new Error("usage: pnpm orders:fill --batch <path/to/fills.jsonl>");
+  }
   // THE FOLD IS TAKEN, AND ITS DISCARD SUMMARY RENDERED, BEFORE THE ACT BEGINS.
   //
   // `recordFill` reaches `loadFolded()` at step 5, some thirty answers into the
@@ -117,7 +131,7 @@ try {
   for (const line of unattendedFoldVerdict(folded).messages) {
     process.stderr.write(`${line}\n`);
   }
-  const outcome = await recordFill({
+  const io: Omit<RecordFillIo, "ask"> = {
     ordersPath: resolveOrdersPath(),
     eventsPath: paths.log,
     loadOrders,
@@ -145,8 +159,11 @@ try {
     },
     // The fold read at the top of this file, whose discards the operator was told about
     // before the interview started. `.data` is unwrapped only here, at the boundary of
-    // a flow that renders the fund and does not report on it.
-    loadFolded: async () => folded.data,
+    // a flow that renders the fund and does not report on it. A BATCH re-folds per act
+    // instead, as `import-fills-cli.ts` does: its second line must see the Position its
+    // first one opened.
+    loadFolded: async () =>
+      batchPath === undefined ? folded.data : (await loadFoldedReview(paths)).data,
     plansPath: resolvePlansPath(),
     loadPlans,
     reconciliationsPath: resolveReconciliationsPath(),
@@ -156,12 +173,24 @@ try {
     // here: `toldAt` is an audit instant and never an ordering key, so rendering it in a
     // named zone would buy nothing and would put a second calendar on this path.
     toldAt: () => new Date().toISOString(),
-    ask: prompt.ask,
     out: (message) => process.stdout.write(message),
     err: (message) => process.stderr.write(`${message}\n`),
-  });
-  if (outcome.status !== "recorded") {
-    process.exitCode = 1;
+  };
+  if (batchPath !== undefined) {
+    // A batch that stopped part-way is a failure even though the acts before the stop
+    // landed: the file said more fills happened than the fund now records.
+    const outcome = await recordFillBatch({
+      batchPath,
+      io: { ...io, readBatch: (path) => readFile(path, "utf8") },
+    });
+    if (outcome.status !== "completed") {
+      process.exitCode = 1;
+    }
+  } else {
+    const outcome = await recordFill({ ...io, ask: prompt.ask });
+    if (outcome.status !== "recorded" && outcome.status !== "recorded-sale") {
+      process.exitCode = 1;
+    }
   }
 } catch (error) {
   process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
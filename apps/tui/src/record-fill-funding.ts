@@ -37,7 +37,8 @@ import {
   type ReserveRecord,
   type RestingOrder,
 } from "@numisma/engine";
-import { UNANSWERED, type Answer } from "./prompt-channel.js";
+import { UNANSWERED } from "./prompt-channel.js";
+import type { FillAsk } from "./record-fill.js";
 
 export type FundingOutcome =
   | { status: "resolved"; fundingAmount: number; tier: CapitalTier }
@@ -52,21 +53,29 @@ export type FundingOutcome =
 /**
  * Ask for the cash debited and resolve the lot's tier.
  *
+ * `exportedFunding` is the cash a fills export says the trade moved. It replaces
+ * `price × quantity` as the DEFAULT the operator accepts with Enter — it is still a
+ * proposal, and still asked — and it never replaces it as the baseline the override guard
+ * weighs the excess over: that baseline is what the rung's own arithmetic accounts for,
+ * whoever proposed the answer.
+ *
  * `folded` and `resting` are here for ONE reason — `composeAvailableCapital`, which is only
  * reached on an upward override. They are the report's own inputs so the guard weighs the
  * figure the operator was shown, rather than a second implementation of `value − committed`
  * that could drift from it.
  */
 export async function resolveFunding(
-  ask: (question: string) => Promise<Answer>,
+  ask: FillAsk,
   folded: FundReviewData,
   resting: readonly RestingOrder[],
   reserve: ReserveRecord,
   filled: CommittedRung,
   filledQuantity: number,
+  exportedFunding?: number,
 ): Promise<FundingOutcome> {
-  const proposedFunding = filled.price * filledQuantity;
-  const cashReply = await ask(`Cash debited [${proposedFunding}]: `);
+  const neutralFunding = filled.price * filledQuantity;
+  const proposedFunding = exportedFunding ?? neutralFunding;
+  const cashReply = await ask(`Cash debited [${proposedFunding}]: `, { id: "cash" });
   // THE `[n]` DEFAULT IS AN ANSWER THE OPERATOR GIVES BY PRESSING ENTER, and an
   // unanswered question gives nothing. Taking the proposal here would debit a reserve on
   // a keystroke nobody made.
@@ -94,8 +103,10 @@ export async function resolveFunding(
   //
   //     Δavailable = price × quantity − cash debited
   //
-  // and the DEFAULT answer — `proposedFunding`, the two multiplied — is exactly
-  // available-neutral BY CONSTRUCTION. The fill itself therefore cannot break the
+  // and the typed default — `neutralFunding`, the two multiplied — is exactly
+  // available-neutral BY CONSTRUCTION. (An exported default is at or below it for a limit
+  // buy, which executes at its limit or better; if a venue ever prints more, the excess is
+  // weighed here like any other.) The fill itself therefore cannot break the
   // `available ≥ 0` invariant no matter what shape the book is in, which is why this flow
   // does NOT call `checkFundingCoverage`: that guard weighs the WHOLE book and refuses it
   // if ANY rung anywhere in it is unplaceable (#179), so one stale `fundingReserveId` on
@@ -108,7 +119,7 @@ export async function resolveFunding(
   // available ≥ 0", which would brick every fill, neutral ones included, on any book that
   // already sits negative from some other cause. A downward correction FREES availability
   // and never reaches this branch.
-  const excess = fundingAmount - proposedFunding;
+  const excess = fundingAmount - neutralFunding;
   if (excess > 0) {
     // The report's own arithmetic, over the report's own admission policy — not a second
     // implementation of `value − committed` that could drift from the rendered figure.
@@ -120,7 +131,7 @@ export async function resolveFunding(
         reason: "uncovered-override",
         message:
           `you asked to debit ${fundingAmount} against '${reserve.id}' — ${excess} more than the ` +
-          `${proposedFunding} this fill accounts for — but the available-capital report does ` +
+          `${neutralFunding} this fill accounts for — but the available-capital report does ` +
           `not place that reserve (paper execution mode, an unsupported currency, a dangling ` +
           `account reference), so the excess cannot be weighed against anything. The fill ` +
           `itself is recordable at the default figure`,
@@ -132,11 +143,11 @@ export async function resolveFunding(
         reason: "uncovered-override",
         message:
           `you asked to debit ${fundingAmount} against '${reserve.id}', ${excess} more than the ` +
-          `${proposedFunding} this fill accounts for, and '${reserve.id}' has only ` +
+          `${neutralFunding} this fill accounts for, and '${reserve.id}' has only ` +
           `${funder.available} available (${funder.value} balance less ${funder.committed} ` +
           `committed). The fill's own arithmetic is available-neutral; only the extra is ` +
           `spending capital that is not there, and a negative available is an IMPOSSIBLE ` +
-          `state rather than a warning. Record the fill at ${proposedFunding}, or record the ` +
+          `state rather than a warning. Record the fill at ${neutralFunding}, or record the ` +
           `fee or funding difference as its own act`,
       };
     }
@@ -162,7 +173,7 @@ export async function resolveFunding(
   // the empty string here rather than earning an arm of its own. That collapse is safe
   // ONLY because this prompt advertises no default; `Cash debited [n]` above does, which
   // is why it checks the sentinel itself.
-  const tierAnswer = await ask("  Capital tier for this lot (c1/c2/c3): ");
+  const tierAnswer = await ask("  Capital tier for this lot (c1/c2/c3): ", { id: "lot-tier" });
   const answer = tierAnswer === UNANSWERED ? "" : tierAnswer.trim();
   if (answer !== "c1" && answer !== "c2" && answer !== "c3") {
     return {
@@ -54,6 +54,7 @@ import {
   type ReserveRecord,
 } from "@numisma/engine";
 import { UNANSWERED, type Answer } from "./prompt-channel.js";
+import type { FillAsk } from "./record-fill.js";
 
 export type LadderTargetOutcome =
   | { status: "authored"; target: LadderTarget }
@@ -92,13 +93,13 @@ const text = (answer: Answer): string => (answer === UNANSWERED ? "" : answer.tr
  * hand) does not change with the reason it was missing.
  */
 async function askDecision(
-  ask: (question: string) => Promise<Answer>,
+  ask: FillAsk,
 ): Promise<PositionDecision | undefined> {
-  const entryThesis = text(await ask("  Entry thesis: "));
-  const invalidationCondition = text(await ask("  Invalidation condition: "));
-  const riskBudget = text(await ask("  Risk budget: "));
-  const plannedHoldingHorizon = text(await ask("  Planned holding horizon: "));
-  const strategy = text(await ask("  Strategy: "));
+  const entryThesis = text(await ask("  Entry thesis: ", { id: "decision", field: "entryThesis" }));
+  const invalidationCondition = text(await ask("  Invalidation condition: ", { id: "decision", field: "invalidationCondition" }));
+  const riskBudget = text(await ask("  Risk budget: ", { id: "decision", field: "riskBudget" }));
+  const plannedHoldingHorizon = text(await ask("  Planned holding horizon: ", { id: "decision", field: "plannedHoldingHorizon" }));
+  const strategy = text(await ask("  Strategy: ", { id: "decision", field: "strategy" }));
   if (
     !entryThesis ||
     !invalidationCondition ||
@@ -120,7 +121,7 @@ async function askDecision(
  * ambiguity away.
  */
 export async function authorLadderTarget(
-  ask: (question: string) => Promise<Answer>,
+  ask: FillAsk,
   out: (message: string) => void,
   positions: readonly PositionRecord[],
   reserve: ReserveRecord,
@@ -142,7 +143,10 @@ export async function authorLadderTarget(
   }
 
   if (ladder.status === "one") {
-    const append = await ask(`Append this lot to '${ladder.positionId}'? [Y/n]: `);
+    const append = await ask(`Append this lot to '${ladder.positionId}'? [Y/n]: `, {
+      id: "append-to",
+      positionId: ladder.positionId,
+    });
     if (append === UNANSWERED) {
       return {
         status: "abandoned",
@@ -162,11 +166,11 @@ export async function authorLadderTarget(
   // never heard of a Tempo, so the decision context is authored here, at the moment of
   // the fill, and nowhere else.
   out("First fill on this ladder — opening the Position.\n");
-  const positionId = text(await ask("  Position id: "));
+  const positionId = text(await ask("  Position id: ", { id: "position-id" }));
   if (!positionId) {
     return { status: "abandoned", message: "no position id was given" };
   }
-  const tempoReply = await ask(`  Tempo [${reserve.tempo}]: `);
+  const tempoReply = await ask(`  Tempo [${reserve.tempo}]: `, { id: "tempo" });
   if (tempoReply === UNANSWERED) {
     return {
       status: "abandoned",
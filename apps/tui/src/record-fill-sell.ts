@@ -0,0 +1,250 @@
+/**
+ * A RESTING SELL'S FILL — the units it spoke for leave the position, through the same
+ * two-file act a buy's fill lands by.
+ *
+ * `record-fill.ts` owns everything the two sides share: the sidecar read, the torn-act
+ * block, the pick, the fill timestamp, the filled quantity and the booked-fills ceiling.
+ * It hands over here once the picked order turns out to be a sell, and this file asks
+ * only what a sale adds — WHICH units, and HOW MUCH CASH came back — before the shared
+ * write tail (`record-fill-write.ts`) writes it.
+ *
+ * THE EVENT IS A TRIM, OR A CLOSE WHEN NOTHING WOULD BE LEFT (`buildSellFillAct`). The
+ * fold's own rule decides which: `crossReferenceTrim` refuses a trim that retires the
+ * whole position and points at `PositionClosed`, so proposing one here would only meet
+ * that refusal a screen later.
+ *
+ * NO MONOTONICITY AND NO PLAN TRAIL, and both omissions are deliberate. Monotonicity
+ * reasons over a buy LADDER — rungs below an untouched rung cannot have filled — and a
+ * take-profit sell has no ladder of that shape to reason over. The trail compares a fill
+ * against the plan's ENTRY ladder (`classifyReconciliation`), and a sale is not an entry;
+ * telling the operator a sale was "off-plan" would be a sentence about the wrong thing.
+ *
+ * IT TAKES A NARROWED IO, NOT THE BAG, for the reason `record-fill-write.ts` does: the
+ * type is declared here, nothing imports the host, and the bag is assignable to it.
+ * Rejections are RETURNED and the host speaks them, so every refusal of the act still
+ * prints through one `reject`.
+ */
+import {
+  buildSellFillAct,
+  isCapitalTier,
+  proposeSellTarget,
+  QUANTITY_EPSILON,
+  type EncumberingSell,
+  type FundReviewData,
+  type PortfolioEvent,
+  type SellFillAct,
+  type SellTarget,
+} from "@numisma/engine";
+import { UNANSWERED } from "./prompt-channel.js";
+import { writeFillAct, type FillWriteIo, type FillWriteOutcome } from "./record-fill-write.js";
+
+export interface SellFillIo extends FillWriteIo {
+  /** The FOLDED book: where the position's lots and the settlement reserve are read from. */
+  loadFolded: () => Promise<FundReviewData>;
+}
+
+/** What `record-fill.ts` already established before it handed the sell over. */
+export interface SellFillContext {
+  sell: EncumberingSell;
+  filledQuantity: number;
+  observedAt: string;
+  genesis: FundReviewData;
+  priorEvents: readonly PortfolioEvent[];
+}
+
+export type SellFillOutcome =
+  | { status: "recorded-sale"; act: SellFillAct }
+  /** Nothing was written — a question went unanswered, or the operator declined. */
+  | { status: "abandoned"; message: string }
+  | {
+      status: "rejected";
+      reason:
+        | "unknown-position"
+        | "tier-not-held"
+        | "exceeds-held-units"
+        | "unknown-reserve"
+        | "bad-quantity"
+        | Extract<FillWriteOutcome, { status: "rejected" }>["reason"];
+      message: string;
+    };
+
+/**
+ * The units this sell speaks for: its declaration, or — on a sell imported before sells
+ * declared their units — the operator's answer, with `proposeSellTarget` as the default.
+ *
+ * A DEFAULT IS ONLY A DEFAULT WHEN SOMEBODY TAKES IT. With a proposal on screen an
+ * unanswered question abandons; without one, a blank and an unanswered question are the
+ * same missing position and earn the same refusal.
+ */
+async function resolveTarget(
+  io: SellFillIo,
+  folded: FundReviewData,
+  sell: EncumberingSell,
+): Promise<
+  { status: "resolved"; target: SellTarget } | Exclude<SellFillOutcome, { status: "recorded-sale" }>
+> {
+  if (sell.target !== undefined) {
+    return { status: "resolved", target: sell.target };
+  }
+  const proposal = proposeSellTarget(folded, sell.symbol);
+  io.out(`'${sell.orderId}' was imported before sells declared the units they speak for.\n`);
+
+  const positionReply = await io.ask(
+    `Position this sell takes units from${proposal ? ` [${proposal.positionId}]` : ""}: `,
+    { id: "sell-position" },
+  );
+  if (positionReply === UNANSWERED && proposal !== undefined) {
+    return {
+      status: "abandoned",
+      message:
+        `nobody answered which position '${sell.orderId}' sold from, and ` +
+        `'${proposal.positionId}' is a proposal, not an answer`,
+    };
+  }
+  const positionAnswer = positionReply === UNANSWERED ? "" : positionReply.trim();
+  const positionId = positionAnswer === "" ? proposal?.positionId : positionAnswer;
+  if (positionId === undefined) {
+    return {
+      status: "rejected",
+      reason: "unknown-position",
+      message: `no position was named for '${sell.orderId}', and none could be proposed`,
+    };
+  }
+
+  const proposedTier = positionId === proposal?.positionId ? proposal.tier : undefined;
+  const tierReply = await io.ask(
+    `Capital tier it takes units from (c1/c2/c3)${proposedTier ? ` [${proposedTier}]` : ""}: `,
+    { id: "sell-tier" },
+  );
+  if (tierReply === UNANSWERED && proposedTier !== undefined) {
+    return {
+      status: "abandoned",
+      message:
+        `nobody answered which tier of '${positionId}' sold, and ${proposedTier} is a ` +
+        `proposal, not an answer`,
+    };
+  }
+  const tierAnswer = tierReply === UNANSWERED ? "" : tierReply.trim().toLowerCase();
+  const tier = tierAnswer === "" ? proposedTier : tierAnswer;
+  if (tier === undefined || !isCapitalTier(tier)) {
+    return {
+      status: "rejected",
+      reason: "tier-not-held",
+      message: `'${tierAnswer}' is not a capital tier (c1/c2/c3)`,
+    };
+  }
+  return { status: "resolved", target: { positionId, tier } };
+}
+
+/**
+ * Record one resting sell's fill: resolve its units, weigh them against the fold, ask the
+ * cash credited, and write the trim or close with its `orderFilled` line as one act.
+ */
+export async function recordSellFill(
+  io: SellFillIo,
+  context: SellFillContext,
+): Promise<SellFillOutcome> {
+  const { sell, filledQuantity, observedAt } = context;
+  const folded = await io.loadFolded();
+
+  const resolved = await resolveTarget(io, folded, sell);
+  if (resolved.status !== "resolved") {
+    return resolved;
+  }
+  const { target } = resolved;
+
+  // Only an OPEN position can be sold from. A sell still resting against a closed one is
+  // the `unknown-position` the Spoken For block already flags, and the act refuses it in
+  // the same word rather than writing a trim the fold would reject.
+  const position = folded.positions.find((entry) => entry.id === target.positionId);
+  if (!position) {
+    return {
+      status: "rejected",
+      reason: "unknown-position",
+      message: `'${target.positionId}' is no open position in the fold, so it has no units to sell`,
+    };
+  }
+  const heldInTier = position.lots
+    .filter((lot) => lot.tier === target.tier)
+    .reduce((total, lot) => total + lot.quantity, 0);
+  if (heldInTier === 0) {
+    return {
+      status: "rejected",
+      reason: "tier-not-held",
+      message: `'${target.positionId}' holds no ${target.tier} lots to sell from`,
+    };
+  }
+  // Within `QUANTITY_EPSILON`, as `buildSellFillAct` weighs a close: a tier summed from
+  // partial lots carries float residue, and selling all of it is not selling more.
+  if (filledQuantity > heldInTier + QUANTITY_EPSILON) {
+    return {
+      status: "rejected",
+      reason: "exceeds-held-units",
+      message:
+        `${filledQuantity} exceeds the ${heldInTier} units '${target.positionId}' holds in ` +
+        `${target.tier}; a fill cannot sell units the fund does not hold`,
+    };
+  }
+
+  if (!folded.reserves.some((entry) => entry.id === sell.settlementReserveId)) {
+    return {
+      status: "rejected",
+      reason: "unknown-reserve",
+      message:
+        `the sell declares settlement reserve '${sell.settlementReserveId}', which the fold ` +
+        `does not have`,
+    };
+  }
+
+  // The proceeds are an OBSERVED figure, like the cash a buy debits: a limit sell executes
+  // at its price or better, so the proposal is a floor the operator corrects upward from
+  // the venue's own statement, never a figure this flow gets to insist on.
+  const proposedProceeds = sell.price * filledQuantity;
+  const cashReply = await io.ask(`Cash credited [${proposedProceeds}]: `, { id: "cash" });
+  if (cashReply === UNANSWERED) {
+    return {
+      status: "abandoned",
+      message: `nobody answered the cash credited for this sale, and ${proposedProceeds} is a proposal, not an answer`,
+    };
+  }
+  const cashAnswer = cashReply.trim();
+  const proceeds = cashAnswer === "" ? proposedProceeds : Number(cashAnswer);
+  if (!Number.isFinite(proceeds) || proceeds <= 0) {
+    return {
+      status: "rejected",
+      reason: "bad-quantity",
+      message: `'${cashAnswer}' is not a positive cash amount`,
+    };
+  }
+
+  const act = buildSellFillAct({
+    sell,
+    target,
+    filledQuantity,
+    observedAt,
+    proceeds,
+    positionHeld: position.lots.reduce((total, lot) => total + lot.quantity, 0),
+  });
+  if (act.event.type === "PositionClosed") {
+    io.out(
+      `This sale takes the last of '${target.positionId}', so it is written as a ` +
+        `PositionClosed.\n`,
+    );
+  }
+
+  const written = await writeFillAct(io, {
+    genesis: context.genesis,
+    priorEvents: context.priorEvents,
+    event: act.event,
+    order: act.order,
+  });
+  if (written.status !== "written") {
+    return written;
+  }
+
+  io.out(
+    `Recorded: ${act.order.filledQuantity} of ${act.order.id} filled at ${observedAt}, ` +
+      `${act.event.type} '${act.event.id}' written.\n`,
+  );
+  return { status: "recorded-sale", act };
+}
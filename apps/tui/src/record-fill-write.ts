@@ -0,0 +1,192 @@
+/**
+ * THE WRITE TAIL OF THE FILL ACT — validate, preview, confirm, write the log, write the
+ * sidecar, roll the log back — lifted out of `record-fill.ts` when a resting sell began
+ * filling through the same act.
+ *
+ * IT LEFT SO THAT THERE IS ONE OF IT. A buy's fill and a sell's fill differ in every
+ * question before this point and in none after it: both are one event and one-or-more
+ * sidecar lines, and the durability argument in `record-fill.ts`'s header — log first,
+ * sidecar second, rollback over a complete prior image, the one named crash window — is
+ * an argument about THIS code. Two copies of it would be two arguments that could drift.
+ *
+ * IT TAKES A NARROWED IO, NOT THE BAG — the paths, the three log-image calls, the sidecar
+ * append and the prompt channel. The type is declared here rather than picked from
+ * `RecordFillIo`, so nothing in this file imports its host (no back-edge), and the bag is
+ * assignable to it at the call site.
+ *
+ * REJECTIONS ARE RETURNED, NOT PRINTED, and every message is byte-identical to what the
+ * inline code fed `reject(io, …)`. The `abandoned` arm carries the whole sentence, as
+ * `authorLadderTarget`'s and `resolveFunding`'s do, because this seam has no `io.err` to
+ * say it with.
+ */
+import {
+  buildEventReference,
+  crossReferenceEvent,
+  parseEvent,
+  type FundReviewData,
+  type OrderFilledRecord,
+  type OrderRecord,
+  type PortfolioEvent,
+} from "@numisma/engine";
+import { formatFoldDiscards } from "@numisma/event-store";
+import { nextLogImage, serializeEvent } from "./event-store.js";
+import { UNANSWERED } from "./prompt-channel.js";
+import type { FillAsk } from "./record-fill.js";
+
+/** The slice of the fill act's IO bag the write tail touches. */
+export interface FillWriteIo {
+  ordersPath: string;
+  eventsPath: string;
+  appendOrders: (path: string, records: OrderRecord[]) => Promise<void>;
+  readLogImage: () => Promise<string | undefined>;
+  writeLogImage: (contents: string) => Promise<void>;
+  restoreLogImage: (prior: string | undefined) => Promise<void>;
+  ask: FillAsk;
+  out: (message: string) => void;
+}
+
+/** Both halves of one act, fully built, plus any sidecar lines that ride in its append. */
+export interface FillWrite {
+  genesis: FundReviewData;
+  priorEvents: readonly PortfolioEvent[];
+  event: PortfolioEvent;
+  order: OrderFilledRecord;
+  /** Appended after `order`, in the same rename — the confirmed cancellations. */
+  alsoAppend?: readonly OrderRecord[];
+}
+
+export type FillWriteOutcome =
+  | { status: "written" }
+  /** Nothing was written — a question went unanswered, or the operator declined. */
+  | { status: "abandoned"; message: string }
+  | {
+      status: "rejected";
+      reason:
+        | "duplicate-fill-act"
+        | "invalid-event"
+        | "rejected-event"
+        | "write-failed"
+        | "rollback-failed";
+      message: string;
+    };
+
+function isAffirmative(answer: string): boolean {
+  const normalized = answer.trim().toLowerCase();
+  return normalized === "y" || normalized === "yes";
+}
+
+/**
+ * Validate both records, show them, take the operator's `Write BOTH?`, and write: the log
+ * first, the sidecar second, the log restored to its prior image if the sidecar fails.
+ *
+ * Every refusal before the first rename has written nothing at all.
+ */
+export async function writeFillAct(io: FillWriteIo, act: FillWrite): Promise<FillWriteOutcome> {
+  const { event, order } = act;
+  if (act.priorEvents.some((prior) => prior.id === event.id)) {
+    return {
+      status: "rejected",
+      reason: "duplicate-fill-act",
+      message: `the log already holds event '${event.id}' — this fill was already recorded`,
+    };
+  }
+
+  const eventLine = serializeEvent(event);
+  // Validate the EXACT BYTES that will land, not the in-memory object: a serializer that
+  // dropped a field would otherwise pass a gate the file itself would fail.
+  const parsed = parseEvent(JSON.parse(eventLine));
+  if (parsed.kind !== "ok") {
+    return {
+      status: "rejected",
+      reason: "invalid-event",
+      message: `the fill's event does not parse (${parsed.path}: ${parsed.message})`,
+    };
+  }
+  // THE GATE'S OWN FOLD, AND WHAT IT DROPPED BUILDING THE WORLD IT JUDGES THIS FILL
+  // AGAINST (ADR-020; PRD #323 seam C). A fill recorded onto damaged history is exactly
+  // when the epistemic marker is worth the most, and this is the enumeration rather than
+  // a count because an operator is at the keyboard right now — the locator is what makes
+  // it actionable. It NEVER blocks the fill: the log is append-only, so a drop already in
+  // it can never be repaired, and refusing here would make one damaged historical event
+  // permanently un-recordable-over (R2).
+  const reference = buildEventReference(act.genesis, [...act.priorEvents]);
+  for (const line of formatFoldDiscards(reference)) {
+    io.out(`${line}\n`);
+  }
+  const crossRef = crossReferenceEvent(parsed.value, reference);
+  if (crossRef.kind !== "ok") {
+    return {
+      status: "rejected",
+      reason: "rejected-event",
+      message: `the fill's event fails cross-reference (${crossRef.path}: ${crossRef.message})`,
+    };
+  }
+
+  const ordersToAppend: OrderRecord[] = [order, ...(act.alsoAppend ?? [])];
+
+  io.out(
+    `About to write ONE act across TWO files:\n` +
+      `  ${io.eventsPath}  ${eventLine}\n` +
+      `${ordersToAppend
+        .map((record) => `  ${io.ordersPath}  ${JSON.stringify(record)}`)
+        .join("\n")}\n`,
+  );
+  const write = await io.ask("Write BOTH? [y/N]: ", { id: "write-both" });
+  if (write === UNANSWERED) {
+    return {
+      status: "abandoned",
+      message:
+        `nobody answered whether to write both files — the terminal was abandoned ` +
+        `(Ctrl-D), or there was none to conduct this interview on`,
+    };
+  }
+  if (!isAffirmative(write)) {
+    return { status: "abandoned", message: "the fill act was not confirmed" };
+  }
+
+  // THE WRITE. Log first, sidecar second, roll the log back if the sidecar fails.
+  const priorImage = await io.readLogImage();
+  try {
+    await io.writeLogImage(nextLogImage(priorImage, [parsed.value]));
+  } catch (error) {
+    // The first rename never happened, so nothing landed anywhere.
+    const detail = error instanceof Error ? error.message : String(error);
+    return {
+      status: "rejected",
+      reason: "write-failed",
+      message: `could not write ${io.eventsPath}: ${detail}`,
+    };
+  }
+
+  try {
+    await io.appendOrders(io.ordersPath, ordersToAppend);
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    try {
+      await io.restoreLogImage(priorImage);
+    } catch (rollbackError) {
+      // The one state this flow cannot repair itself, so it says so in full rather than
+      // reporting a tidy failure over a log that is now ahead of the sidecar.
+      const rollbackDetail =
+        rollbackError instanceof Error ? rollbackError.message : String(rollbackError);
+      return {
+        status: "rejected",
+        reason: "rollback-failed",
+        message:
+          `could not append to ${io.ordersPath} (${detail}) AND could not roll back ` +
+          `${io.eventsPath} (${rollbackDetail}). The log now holds event '${event.id}' ` +
+          `with the rung still resting — the same state the crash window leaves. Append the ` +
+          `matching orderFilled line for '${order.id}' at ${order.observedAt} by hand`,
+      };
+    }
+    return {
+      status: "rejected",
+      reason: "write-failed",
+      message:
+        `could not append to ${io.ordersPath} (${detail}); ${io.eventsPath} was rolled back ` +
+        `to its prior image, so NEITHER half of the act is on disk`,
+    };
+  }
+
+  return { status: "written" };
+}
@@ -1253,3 +1253,109 @@ describe("an unanswered question abandons the act (#388)", () => {
     expect(outcome.status === "rejected" && outcome.message).toContain("no resting rung matches");
   });
 });
+
+describe("a resting SELL fills through the same act — a trim, or a close", () => {
+  /** The ladder's Position opened on the top rung (10 units of c1), plus one resting sell. */
+  async function heldWithSell(
+    quantity: number,
+    answers: Answer[],
+    declared = true,
+  ): Promise<Harness> {
+    const opened = new Harness({ answers: openTopRungAnswers() });
+    expectRecorded(await recordFill(opened.io));
+    const sell: OrderRecord = {
+      id: "sell-500",
+      observedAt: "2026-01-06T09:00:00",
+      kind: "orderPlaced",
+      currency: "USD",
+      symbol: "TEST/USD",
+      side: "sell",
+      price: 500,
+      quantity,
+      fundingReserveId: "reserve-synthetic",
+      ...(declared ? { positionId: "position-synthetic", tier: "c1" as const } : {}),
+    };
+    return new Harness({
+      records: [...opened.orderRecords(), sell],
+      events: opened.logEvents(),
+      answers,
+    });
+  }
+
+  it("lists the sell beneath the rungs and trims the declared tier, crediting the proceeds", async () => {
+    // Two buy rungs still rest, so the sell is numbered on from them.
+    const harness = await heldWithSell(4, ["2", "2026-01-07T12:00:00", "", "", "y"]);
+    const reserveBefore = harness.reserveAmount("reserve-synthetic");
+
+    const outcome = await recordFill(harness.io);
+
+    expect(outcome.status).toBe("recorded-sale");
+    if (outcome.status !== "recorded-sale") throw new Error("expected a sale");
+    expect(harness.out.join("")).toContain("Resting sells:\n  [2] sell-500");
+    expect(outcome.act.event).toMatchObject({
+      type: "PositionTrimmed",
+      positionId: "position-synthetic",
+      removals: [{ tier: "c1", quantity: 4 }],
+      settlement: { reserveId: "reserve-synthetic", proceeds: 2000 },
+    });
+    expect(harness.reserveAmount("reserve-synthetic")).toBe(reserveBefore + 2000);
+    const folded = foldEvents(genesisSeed(), harness.logEvents()).data;
+    expect(folded.positions[0]?.lots.reduce((total, lot) => total + lot.quantity, 0)).toBe(6);
+    // Both halves share the derived id, so the sale is no torn act, and it rests no more.
+    expect(reconcileFillActs(harness.logEvents(), harness.orderRecords())).toEqual([]);
+    expect(
+      pickRestingOrdersAsOf(harness.orderRecords()).some(
+        (order) => order.placed.id === "sell-500",
+      ),
+    ).toBe(false);
+  });
+
+  it("writes a PositionClosed when the sale takes the position's last units", async () => {
+    const harness = await heldWithSell(10, ["sell-500", "2026-01-07T12:00:00", "", "", "y"]);
+    const outcome = await recordFill(harness.io);
+    if (outcome.status !== "recorded-sale") throw new Error("expected a sale");
+    expect(outcome.act.event.type).toBe("PositionClosed");
+    expect(foldEvents(genesisSeed(), harness.logEvents()).data.positions).toEqual([]);
+  });
+
+  it("sells the whole tier when the fill differs from what is held only by float residue", async () => {
+    // A hair past the 10 held, the way a tier summed from partial lots lands off by one.
+    const harness = await heldWithSell(10 + 1e-12, [
+      "sell-500",
+      "2026-01-07T12:00:00",
+      "",
+      "",
+      "y",
+    ]);
+    const outcome = await recordFill(harness.io);
+    if (outcome.status !== "recorded-sale") throw new Error("expected a sale");
+    expect(outcome.act.event.type).toBe("PositionClosed");
+  });
+
+  it("asks an undeclared sell's units, proposing the only position that could hold them", async () => {
+    const harness = await heldWithSell(
+      4,
+      ["sell-500", "2026-01-07T12:00:00", "", "", "", "", "y"],
+      false,
+    );
+    const outcome = await recordFill(harness.io);
+    expect(outcome.status).toBe("recorded-sale");
+    expect(harness.asked).toContain("Position this sell takes units from [position-synthetic]: ");
+    expect(harness.asked).toContain("Capital tier it takes units from (c1/c2/c3) [c1]: ");
+  });
+
+  it("refuses more units than the tier holds, writing nothing", async () => {
+    // A sell for 12 against 10 held — the unit-side import guard refuses that line now,
+    // but a hand-authored one is not stopped there, so the act weighs the fold itself.
+    const harness = await heldWithSell(12, ["sell-500", "2026-01-07T12:00:00", "12"]);
+    const ordersBefore = harness.ordersImage;
+    const logBefore = harness.logImage;
+
+    const outcome = await recordFill(harness.io);
+
+    expect(outcome).toMatchObject({ status: "rejected", reason: "exceeds-held-units" });
+    expect(harness.ordersImage).toBe(ordersBefore);
+    expect(harness.logImage).toBe(logBefore);
+    expect(harness.err.join("\n")).toContain("Nothing was written to");
+  });
+});
@@ -67,16 +67,14 @@
  */
 import {
   bookedFills,
-  buildEventReference,
   buildFillAct,
   classifyReconciliation,
   committedRungs,
-  crossReferenceEvent,
+  encumberingSells,
   isIsoCalendarDate,
   isObservedAtStamp,
   isRenderableRecordId,
   OBSERVED_AT_RULE,
-  parseEvent,
   pickPlanAsOf,
   pickRestingOrdersAsOf,
   proposeFillVerdicts,
@@ -86,6 +84,7 @@ import {
   type BookObservation,
   type CapitalTier,
   type CommittedRung,
+  type EncumberingSell,
   type FillAct,
   type FundReviewData,
   type LadderTarget,
@@ -94,18 +93,53 @@ import {
   type OrderRecord,
   type PlanLookup,
   type PortfolioEvent,
+  type PositionDecision,
   type ProposedVerdict,
   type ReconciliationFillKind,
   type ReconciliationRecord,
+  type SellFillAct,
 } from "@numisma/engine";
-import { formatFoldDiscards } from "@numisma/event-store";
 import type { OrdersLoad } from "@numisma/preferences";
-import { nextLogImage, serializeEvent } from "./event-store.js";
 import { UNANSWERED, type Answer } from "./prompt-channel.js";
 import { resolveFunding } from "./record-fill-funding.js";
+import { recordSellFill } from "./record-fill-sell.js";
 import { authorLadderTarget } from "./record-fill-ladder-target.js";
+import { writeFillAct } from "./record-fill-write.js";
 import { renderSkipMessage } from "./skip-message.js";
 
+/**
+ * Every question this act puts, by a name that does not move when the wording does. The
+ * prompt is for the operator; this is for a caller that answers without reading it —
+ * `record-fill-batch.ts`, whose answer table is keyed on it. A question that depends on
+ * which rung or Position it is about names that too, so nothing has to be parsed back out
+ * of the prompt. A new question is a new member here, and the batch's exhaustive switch
+ * stops compiling until it is told what a line answers.
+ */
+export type FillQuestion =
+  | { id: "rung" }
+  | { id: "observed-at" }
+  | { id: "quantity" }
+  | { id: "book"; orderId: string }
+  | { id: "book-cumulative"; orderId: string }
+  | { id: "confirm-verdicts" }
+  | { id: "record-cancellations" }
+  | { id: "instrument" }
+  | { id: "append-to"; positionId: string }
+  | { id: "position-id" }
+  | { id: "tempo" }
+  | { id: "decision"; field: keyof PositionDecision }
+  | { id: "cash" }
+  | { id: "lot-tier" }
+  | { id: "sell-position" }
+  | { id: "sell-tier" }
+  | { id: "write-both" };
+
+/**
+ * The act's prompt channel: the words to show, and which question they are. A terminal
+ * channel reads only the first; `prompt-channel.ts`'s `ask` fits as it stands.
+ */
+export type FillAsk = (question: string, asked: FillQuestion) => Promise<Answer>;
+
 /** Everything this act touches that is not a pure function, in one injectable bag. */
 export interface RecordFillIo {
   ordersPath: string;
@@ -150,7 +184,7 @@ export interface RecordFillIo {
    * ones that took a DEFAULT abandon, which is this act's existing word for "nothing was
    * written and nobody said to write it".
    */
-  ask: (question: string) => Promise<Answer>;
+  ask: FillAsk;
   out: (message: string) => void;
   err: (message: string) => void;
 }
@@ -193,12 +227,41 @@ export type RecordFillRejection =
    */
   | "uncovered-override"
   | "incomplete-decision"
+  /**
+   * A sell's fill names a position the fold does not hold open, a tier it holds no lots
+   * in, or more units than that tier holds (`record-fill-sell.ts`). Three tokens, because
+   * the next move differs: re-import the order, correct the tier, or correct the quantity.
+   */
+  | "unknown-position"
+  | "tier-not-held"
+  | "exceeds-held-units"
   | "duplicate-fill-act"
   | "invalid-event"
   | "rejected-event"
   | "write-failed"
   | "rollback-failed";
 
+/**
+ * The three answers a venue's fills export gives this act, and the cash it proposes.
+ *
+ * PRE-FILLED, NOT PRE-DECIDED. A prefilled act skips the rung pick, the fill timestamp
+ * and the filled quantity — the export answers them by the row the operator is holding —
+ * and then meets every check a typed answer meets, in the same words. The cash becomes
+ * the `Cash debited [n]` default rather than an answer, and every question the export
+ * cannot answer (the rest of the ladder, the Position, the five decision fields, the tier)
+ * is still put, so `Write BOTH? [y/N]` is still the door.
+ *
+ * Carried by id rather than as the engine's `PrefilledFillAct` because the rung is re-read
+ * here from the sidecar this act loads: a second partial of one rung must be weighed
+ * against what the first left, not against the snapshot it was matched in.
+ */
+export interface RecordFillPrefill {
+  orderId: string;
+  observedAt: string;
+  filledQuantity: number;
+  fundingAmount: number;
+}
+
 export type RecordFillOutcome =
   | {
       status: "recorded";
@@ -206,6 +269,8 @@ export type RecordFillOutcome =
       /** Ids of rungs whose CONFIRMED `cancelled` verdict was written in the same append. */
       alsoCancelled: string[];
     }
+  /** A resting SELL filled: its units left the position as a trim or a close. */
+  | { status: "recorded-sale"; act: SellFillAct }
   /** The operator declined at a confirmation gate. Nothing was written, by design. */
   | { status: "abandoned"; message: string }
   | { status: "rejected"; reason: RecordFillRejection; message: string };
@@ -294,6 +359,19 @@ function describeRung(index: number, rung: CommittedRung): string {
   );
 }
 
+/** A resting sell, listed beneath the rungs: it claims UNITS of a position, not cash. */
+function describeSell(index: number, sell: EncumberingSell): string {
+  const target =
+    sell.target === undefined
+      ? "no position declared"
+      : `${sell.target.positionId} ${sell.target.tier}`;
+  return (
+    `  [${index}] ${sell.orderId}\n` +
+    `      ${sell.symbol} sell ${sell.remainingQuantity} @ ${sell.price} ` +
+    `from ${target} → ${sell.settlementReserveId}`
+  );
+}
+
 function describeVerdict(verdict: ProposedVerdict): string {
   const evidence = verdict.evidence.disappeared
     ? "gone from the book"
@@ -325,8 +403,8 @@ type BookObservationResult =
  * Ask the operator what the venue shows for every OTHER rung of the ladder.
  *
  * This is the evidence monotonicity reasons over, and it is gathered interactively rather
- * than parsed because the fills export is deferred and `T6`'s interactive path is
- * PERMANENT. The default is `resting` — the conservative answer, since claiming a rung
+ * than parsed — even on a prefilled act — because a fills export says what TRADED, not
+ * what the rest of the book shows, and `T6`'s interactive path is PERMANENT. The default is `resting` — the conservative answer, since claiming a rung
  * was touched is what would license a fill verdict.
  *
  * `rungs` IS ALREADY THE SCOPED SET — `scopeBookForFill`'s `observable` — and this function
@@ -369,6 +447,7 @@ async function observeBook(
     }
     const reply = await io.ask(
       `  ${rung.orderId} — [r]esting untouched / [t]ouched / [g]one? [r]: `,
+      { id: "book", orderId: rung.orderId },
     );
     // THE `[r]` DEFAULT IS THE CONSERVATIVE ANSWER, WHICH IS NOT THE SAME AS A SAFE ONE.
     // "resting untouched" is a positive claim about the venue that monotonicity reasons
@@ -388,6 +467,7 @@ async function observeBook(
         await io.ask(
           `      filled_quantity observed — the venue's CUMULATIVE total for this rung ` +
             `since it was placed, not just this session's: `,
+          { id: "book-cumulative", orderId: rung.orderId },
         ),
       );
       const quantity = Number(rawQuantity);
@@ -614,8 +694,14 @@ function warnTrail(io: ReconcileTrailIo, what: string, cause?: unknown): void {
  * evidence → propose the verdict → confirm → resolve the ladder's Position → author the
  * decision → build BOTH records → validate BOTH → confirm → write log → write sidecar,
  * rolling the log back if the sidecar fails.
+ *
+ * With a {@link RecordFillPrefill} (`pnpm orders:fills-import`) the ordering is the same
+ * and so is every refusal; only the first three answers come from the export.
  */
-export async function recordFill(io: RecordFillIo): Promise<RecordFillOutcome> {
+export async function recordFill(
+  io: RecordFillIo,
+  prefill?: RecordFillPrefill,
+): Promise<RecordFillOutcome> {
   // ---- 1. the sidecar, and the refusal to reason over a book we cannot fully read ----
   const load = await io.loadOrders(io.ordersPath);
   if (load.status === "unreadable") {
@@ -651,28 +737,61 @@ export async function recordFill(io: RecordFillIo): Promise<RecordFillOutcome> {
   }
 
   // ---- 3. the rung list — the same rows the committed figure is substantiated with ----
+  //
+  // Sells are listed after the buys and numbered on from them, so a buy's index is what it
+  // always was. They are their own list because they claim units, not cash (`S7`).
   const resting = pickRestingOrdersAsOf(records);
   const rungs = committedRungs(resting);
-  if (rungs.length === 0) {
-    return reject(io, "no-resting-rung", `${io.ordersPath} shows no resting buy rung to fill`);
+  const sells = encumberingSells(resting);
+  if (rungs.length === 0 && sells.length === 0) {
+    return reject(io, "no-resting-rung", `${io.ordersPath} shows no resting rung to fill`);
+  }
+  if (rungs.length > 0) {
+    io.out(
+      `Resting rungs:\n${rungs.map((rung, index) => describeRung(index, rung)).join("\n")}\n`,
+    );
+  }
+  if (sells.length > 0) {
+    io.out(
+      `Resting sells:\n` +
+        `${sells.map((sell, index) => describeSell(rungs.length + index, sell)).join("\n")}\n`,
+    );
   }
-  io.out(`Resting rungs:\n${rungs.map((rung, index) => describeRung(index, rung)).join("\n")}\n`);
 
   // THE FIRST QUESTION OF THE ACT, and the one a run with no terminal reaches. It already
   // refused a blank as `unknown-rung`; the sentinel joins that arm word for word, which is
   // what keeps `record-fill-cli.test.ts` — "the missing terminal in the shell's voice, and
   // the refusal in the flow's" — pinning the same two sentences through #388.
-  const picked = typedOrNothing(await io.ask("Which rung filled? [index or order id]: "));
-  const byIndex = /^\d+$/.test(picked) ? rungs[Number(picked)] : undefined;
-  const filled = byIndex ?? rungs.find((rung) => rung.orderId === picked);
+  //
+  // A PREFILLED ACT IS NOT ASKED, and it is matched by ID ONLY: an index is a position in
+  // the list just printed, which the export has never seen.
+  const picked =
+    prefill?.orderId ??
+    typedOrNothing(await io.ask("Which rung filled? [index or order id]: ", { id: "rung" }));
+  // A fills export pre-fills purchases only, so a prefilled act never picks a sell.
+  const pickable: (CommittedRung | EncumberingSell)[] =
+    prefill === undefined ? [...rungs, ...sells] : rungs;
+  const byIndex =
+    prefill === undefined && /^\d+$/.test(picked) ? pickable[Number(picked)] : undefined;
+  const filled = byIndex ?? pickable.find((rung) => rung.orderId === picked);
   if (!filled) {
     return reject(io, "unknown-rung", `no resting rung matches '${picked}'`);
   }
+  if (prefill !== undefined) {
+    io.out(
+      `From the fills export: ${prefill.filledQuantity} of ${filled.orderId} filled at ` +
+        `${prefill.observedAt}, ${prefill.fundingAmount} ${filled.currency} changed hands.\n`,
+    );
+  }
 
   // The prompt states the rule in advance and the refusal restates it — both from the one
   // shared phrase (#181), so neither can promise the operator a looser rule than the
   // predicate on the next line enforces.
-  const observedAt = typedOrNothing(await io.ask(`Fill timestamp (${OBSERVED_AT_RULE}): `));
+  const observedAt =
+    prefill?.observedAt ??
+    typedOrNothing(
+      await io.ask(`Fill timestamp (${OBSERVED_AT_RULE}): `, { id: "observed-at" }),
+    );
   if (!isObservedAtStamp(observedAt)) {
     return reject(
       io,
@@ -688,7 +807,10 @@ export async function recordFill(io: RecordFillIo): Promise<RecordFillOutcome> {
     );
   }
 
-  const quantityReply = await io.ask(`Filled quantity [${filled.remainingQuantity}]: `);
+  const quantityReply =
+    prefill === undefined
+      ? await io.ask(`Filled quantity [${filled.remainingQuantity}]: `, { id: "quantity" })
+      : String(prefill.filledQuantity);
   // A DEFAULT NOBODY TOOK. The bracketed figure is the whole remainder of the rung, so an
   // unanswered question here used to record the largest fill this rung could carry.
   if (quantityReply === UNANSWERED) {
@@ -762,6 +884,24 @@ export async function recordFill(io: RecordFillIo): Promise<RecordFillOutcome> {
     );
   }
 
+  // ---- a SELL leaves here: what it adds is which units and how much cash came back ----
+  if ("settlementReserveId" in filled) {
+    const sale = await recordSellFill(io, {
+      sell: filled,
+      filledQuantity,
+      observedAt,
+      genesis,
+      priorEvents,
+    });
+    if (sale.status === "rejected") {
+      return reject(io, sale.reason, sale.message);
+    }
+    if (sale.status === "abandoned") {
+      return abandonWith(io, sale.message);
+    }
+    return sale;
+  }
+
   // ---- 4. monotonicity PROPOSES, over the SAME book the questions observed (#175) ----
   //
   // ONE rung set, computed once and used twice: the operator is asked about `observable`,
@@ -826,7 +966,9 @@ export async function recordFill(io: RecordFillIo): Promise<RecordFillOutcome> {
 
   // `O3`. Nothing above this line has written anything and nothing below writes without
   // this answer: the inference is never recorded as an observation.
-  const confirmed = await io.ask("Confirm these derived verdicts? [y/N]: ");
+  const confirmed = await io.ask("Confirm these derived verdicts? [y/N]: ", {
+    id: "confirm-verdicts",
+  });
   if (confirmed === UNANSWERED) {
     return abandon(io, "whether the derived verdicts are right");
   }
@@ -839,6 +981,7 @@ export async function recordFill(io: RecordFillIo): Promise<RecordFillOutcome> {
   if (cancelled.length > 0) {
     const alsoAnswer = await io.ask(
       `Also record ${cancelled.length} confirmed cancellation(s) in this act? [y/N]: `,
+      { id: "record-cancellations" },
     );
     // A BLANK DECLINES AND LETS THE ACT CONTINUE, which is a decision the operator made
     // about lines that go into an append-only file. An unanswered question is not that
@@ -901,7 +1044,9 @@ export async function recordFill(io: RecordFillIo): Promise<RecordFillOutcome> {
     // The fold knows no instrument for this symbol, and neither does an unanswered
     // question — same `unknown-instrument` refusal, same words, that a blank has always
     // earned.
-    instrumentId = typedOrNothing(await io.ask(`Instrument id for ${filled.symbol}: `));
+    instrumentId = typedOrNothing(
+      await io.ask(`Instrument id for ${filled.symbol}: `, { id: "instrument" }),
+    );
   }
   if (!instrumentId || !folded.instruments.some((entry) => entry.id === instrumentId)) {
     return reject(
@@ -935,7 +1080,15 @@ export async function recordFill(io: RecordFillIo): Promise<RecordFillOutcome> {
   // Behind its own seam (#audit-14), handed the reserve this flow already resolved. Its
   // rejection arms carry the reason token and the message this flow used to build inline,
   // so `reject` still prints the identical bytes.
-  const funding = await resolveFunding(io.ask, folded, resting, reserve, filled, filledQuantity);
+  const funding = await resolveFunding(
+    io.ask,
+    folded,
+    resting,
+    reserve,
+    filled,
+    filledQuantity,
+    prefill?.fundingAmount,
+  );
   if (funding.status === "abandoned") {
     return abandonWith(io, funding.message);
   }
@@ -954,105 +1107,31 @@ export async function recordFill(io: RecordFillIo): Promise<RecordFillOutcome> {
     target,
   });
 
-  if (priorEvents.some((event) => event.id === act.event.id)) {
-    return reject(
-      io,
-      "duplicate-fill-act",
-      `the log already holds event '${act.event.id}' — this fill was already recorded`,
-    );
-  }
-
-  const eventLine = serializeEvent(act.event);
-  // Validate the EXACT BYTES that will land, not the in-memory object: a serializer that
-  // dropped a field would otherwise pass a gate the file itself would fail.
-  const parsed = parseEvent(JSON.parse(eventLine));
-  if (parsed.kind !== "ok") {
-    return reject(io, "invalid-event", `the fill's event does not parse (${parsed.path}: ${parsed.message})`);
-  }
-  // THE GATE'S OWN FOLD, AND WHAT IT DROPPED BUILDING THE WORLD IT JUDGES THIS FILL
-  // AGAINST (ADR-020; PRD #323 seam C). A fill recorded onto damaged history is exactly
-  // when the epistemic marker is worth the most, and this is the enumeration rather than
-  // a count because an operator is at the keyboard right now — the locator is what makes
-  // it actionable. It NEVER blocks the fill: the log is append-only, so a drop already in
-  // it can never be repaired, and refusing here would make one damaged historical event
-  // permanently un-recordable-over (R2).
-  const reference = buildEventReference(genesis, priorEvents);
-  for (const line of formatFoldDiscards(reference)) {
-    io.out(`${line}\n`);
-  }
-  const crossRef = crossReferenceEvent(parsed.value, reference);
-  if (crossRef.kind !== "ok") {
-    return reject(
-      io,
-      "rejected-event",
-      `the fill's event fails cross-reference (${crossRef.path}: ${crossRef.message})`,
-    );
-  }
-
-  const ordersToAppend: OrderRecord[] = [
-    act.order,
-    ...alsoCancelled.map((orderId): OrderRecord => {
-      const source = rungs.find((rung) => rung.orderId === orderId);
-      return {
-        id: orderId,
-        observedAt,
-        kind: "orderCancelled",
-        currency: source?.currency ?? act.order.currency,
-      };
-    }),
-  ];
-
-  io.out(
-    `About to write ONE act across TWO files:\n` +
-      `  ${io.eventsPath}  ${eventLine}\n` +
-      `${ordersToAppend
-        .map((record) => `  ${io.ordersPath}  ${JSON.stringify(record)}`)
-        .join("\n")}\n`,
-  );
-  const write = await io.ask("Write BOTH? [y/N]: ");
-  if (write === UNANSWERED) {
-    return abandon(io, "whether to write both files");
-  }
-  if (!isAffirmative(write)) {
-    return abandonWith(io, "the fill act was not confirmed");
-  }
+  const alsoAppend = alsoCancelled.map((orderId): OrderRecord => {
+    const source = rungs.find((rung) => rung.orderId === orderId);
+    return {
+      id: orderId,
+      observedAt,
+      kind: "orderCancelled",
+      currency: source?.currency ?? act.order.currency,
+    };
+  });
 
-  // ---- 8. THE WRITE. Log first, sidecar second, roll the log back if the sidecar fails.
-  const priorImage = await io.readLogImage();
-  try {
-    await io.writeLogImage(nextLogImage(priorImage, [parsed.value]));
-  } catch (error) {
-    // The first rename never happened, so nothing landed anywhere.
-    const detail = error instanceof Error ? error.message : String(error);
-    return reject(io, "write-failed", `could not write ${io.eventsPath}: ${detail}`);
+  // ---- 8. THE WRITE, behind the one tail every fill act shares (`record-fill-write.ts`).
+  // Its refusals carry the reason token and the message this flow used to build inline,
+  // so `reject` and `abandonWith` still print the identical bytes.
+  const written = await writeFillAct(io, {
+    genesis,
+    priorEvents,
+    event: act.event,
+    order: act.order,
+    alsoAppend,
+  });
+  if (written.status === "rejected") {
+    return reject(io, written.reason, written.message);
   }
-
-  try {
-    await io.appendOrders(io.ordersPath, ordersToAppend);
-  } catch (error) {
-    const detail = error instanceof Error ? error.message : String(error);
-    try {
-      await io.restoreLogImage(priorImage);
-    } catch (rollbackError) {
-      // The one state this flow cannot repair itself, so it says so in full rather than
-      // reporting a tidy failure over a log that is now ahead of the sidecar.
-      const rollbackDetail =
-        rollbackError instanceof Error ? rollbackError.message : String(rollbackError);
-      return reject(
-        io,
-        "rollback-failed",
-        `could not append to ${io.ordersPath} (${detail}) AND could not roll back ` +
-          `${io.eventsPath} (${rollbackDetail}). The log now holds event '${act.event.id}' ` +
-          `with the rung still resting — the same state the crash window leaves. Append the ` +
-          `matching orderFilled line for '${act.order.id}' at ${observedAt} by hand`,
-      );
-    }
-    return reject(
-      io,
-      "write-failed",
-      `could not append to ${io.ordersPath} (${detail}); ${io.eventsPath} was rolled back to ` +
-        `its prior image, so NEITHER half of the act is on disk`,
-    );
+  if (written.status === "abandoned") {
+    return abandonWith(io, written.message);
   }
 
   io.out(
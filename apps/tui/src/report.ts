@@ -1,16 +1,42 @@
 import {
   buildCompositionReport,
+  composePerformance,
+  diffCompositionReports,
   formatAvailableCapital,
+  formatAvailableUnits,
+  formatCompositionDiff,
   formatCompositionReport,
+  formatPeriodCloseDiff,
+  formatPerspective,
 } from "@numisma/engine";
 import {
+  assertLogFullyLoaded,
   formatFoldDiscards,
+  loadEventLog,
   loadFoldedReview,
+  loadGenesis,
   resolveEventStorePaths,
 } from "@numisma/event-store";
-import { loadOrders, resolveOrdersPath } from "@numisma/preferences";
+import {
+  loadOrders,
+  loadPeriodCloses,
+  loadPerspectives,
+  resolveOrdersPath,
+  resolvePeriodClosesPath,
+  resolvePerspectivesPath,
+} from "@numisma/preferences";
 import { loadAvailableCapital } from "./available-capital.js";
-import { parseAsOfArg } from "./spine-args.js";
+import { loadNavHistory } from "./nav-history.js";
+import { composeCloseDiff } from "./period-close.js";
+import { composePerspectiveSection } from "./perspectives.js";
+import {
+  parseAsOfArg,
+  parseDiffClosesArg,
+  parseNavHistoryArg,
+  parsePerformanceArg,
+  parsePerspectiveArg,
+  parseSinceArg,
+} from "./spine-args.js";
 
 // Single source of truth (ADR-003 slice 4): `pnpm report` renders the FOLD over
 // the durable genesis + event log, the same read model `pnpm dev` (app.ts) and the
@@ -19,10 +45,21 @@ import { parseAsOfArg } from "./spine-args.js";
 // `fund-review.local.json`) is no longer on the app path. Like the app, an optional
 // `--as-of <YYYY-MM-DD>` renders the composition as of a prior date; with no flag it
 // renders current state. report is read-only: it folds and renders, it never ingests
-// the inbox (the app owns ingest-on-startup).
+// the inbox (the app owns ingest-on-startup). `--performance` appends TWR/IRR from
+// genesis to the same as-of date, which re-folds the log once per anchor date;
+// `--nav-history` appends the daily NAV series and its drawdown, one fold per day.
+// `--perspective <name>` appends the saved lens of that name from `perspectives.jsonl`;
+// a name the sidecar cannot answer fails the run rather than printing an unfiltered view.
+// `--since <date>` appends what moved between a fold as of that date and this report —
+// two finished reports compared, so each side is exactly what `--as-of` would print.
+// `--diff-closes <from> <to>` appends what changed between two frozen closes from
+// `closes.jsonl` — the closes as taken, not a re-fold of either date.
 try {
   const paths = resolveEventStorePaths();
   const asOf = parseAsOfArg(process.argv);
+  const perspectiveName = parsePerspectiveArg(process.argv);
+  const since = parseSinceArg(process.argv);
+  const diffCloses = parseDiffClosesArg(process.argv);
   const folded = await loadFoldedReview(paths, asOf);
   const { data } = folded;
   // THE ENUMERATION, not the count (PRD #323 R7). This surface runs because a human
@@ -37,14 +74,70 @@ try {
     process.stderr.write(`${line}\n`);
   }
   const sourcePath = asOf ? `${paths.log} as-of ${asOf}` : paths.log;
+  let performance;
+  if (parsePerformanceArg(process.argv)) {
+    const genesis = await loadGenesis(paths.genesis);
+    const log = await loadEventLog(paths.log);
+    assertLogFullyLoaded(log, paths.log);
+    performance = composePerformance(genesis, log.events, { asOf: data.review.asOf });
+  }
+  const navHistory = parseNavHistoryArg(process.argv)
+    ? await loadNavHistory(paths, data.review.asOf)
+    : undefined;
   const report = buildCompositionReport(data, {
     load: {
       status: "loaded",
       sourcePath,
       loadedAt: new Date().toISOString(),
     },
+    ...(performance ? { performance } : {}),
+    ...(navHistory ? { navHistory } : {}),
   });
+  // Composed BEFORE anything reaches stdout, so a refused lens leaves no half-report.
+  let perspective;
+  if (perspectiveName !== undefined) {
+    const loaded = await loadPerspectives(resolvePerspectivesPath());
+    const section = composePerspectiveSection(data, report, loaded, perspectiveName);
+    for (const issue of section?.issues ?? []) {
+      process.stderr.write(`${issue}\n`);
+    }
+    if (section?.status === "refused") {
+      throw new Error(`Perspective unavailable — ${section.message}`);
+    }
+    perspective = section?.view;
+  }
+  let changes;
+  if (since !== undefined) {
+    if (since >= data.review.asOf) {
+      throw new Error(`--since ${since} must be before the report date ${data.review.asOf}.`);
+    }
+    // The earlier fold's own discards are not printed: every event it dropped, the
+    // fold above dropped too, and that enumeration is already on stderr.
+    const earlier = await loadFoldedReview(paths, since);
+    changes = diffCompositionReports(buildCompositionReport(earlier.data), report);
+  }
+  let closeDiff;
+  if (diffCloses) {
+    const loaded = await loadPeriodCloses(resolvePeriodClosesPath());
+    const section = composeCloseDiff(loaded, diffCloses.from, diffCloses.to);
+    if (section.status === "refused") {
+      throw new Error(`Close diff unavailable — ${section.message}`);
+    }
+    for (const issue of section.issues) {
+      process.stderr.write(`${issue}\n`);
+    }
+    closeDiff = section.diff;
+  }
   process.stdout.write(`${formatCompositionReport(report)}\n`);
+  if (perspective) {
+    process.stdout.write(`\n${formatPerspective(perspective)}\n`);
+  }
+  if (changes) {
+    process.stdout.write(`\n${formatCompositionDiff(changes)}\n`);
+  }
+  if (closeDiff) {
+    process.stdout.write(`\n${formatPeriodCloseDiff(closeDiff)}\n`);
+  }
 
   // `S7` — committed vs available, joined from `orders.jsonl` at read time and appended
   // AFTER the composition report rather than woven into it. That placement is the
@@ -61,9 +154,13 @@ try {
   if (capital.status === "refused") {
     process.stderr.write(`Available Capital unavailable — ${capital.message}\n`);
   } else {
-    const block = formatAvailableCapital(capital.report);
-    if (block) {
-      process.stdout.write(`\n${block}\n`);
+    for (const block of [
+      formatAvailableCapital(capital.report),
+      formatAvailableUnits(capital.units),
+    ]) {
+      if (block) {
+        process.stdout.write(`\n${block}\n`);
+      }
     }
   }
 } catch (error) {
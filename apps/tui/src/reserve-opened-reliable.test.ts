@@ -169,6 +169,6 @@ describe("ReserveOpened through the real ingest path", () => {
     // describes an untouched fund: still no warnings, but also nothing excluded.
     const report = buildCompositionReport(data);
     expect(report.warnings).toEqual([]);
-    expect(report.excluded).toEqual({ nonLive: 0, invalid: 0, shortDeferred: 0 });
+    expect(report.excluded).toEqual({ nonLive: 0, invalid: 0 });
   });
 });
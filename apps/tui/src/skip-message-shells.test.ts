@@ -31,7 +31,7 @@ import type { OrderSkip, OrdersLoad } from "@numisma/preferences";
 import { afterEach, describe, expect, it } from "vitest";
 import { loadAvailableCapital } from "./available-capital.js";
 import { cancelOrder } from "./cancel-order.js";
-import { importBitgetOpenOrders } from "./import-orders.js";
+import { importOpenOrders } from "./import-orders.js";
 import { recordFill } from "./record-fill.js";
 import { UNANSWERED } from "./prompt-channel.js";
 
@@ -216,14 +216,14 @@ const SHELLS: Shell[] = [
     },
   },
   {
-    name: "importBitgetOpenOrders",
+    name: "importOpenOrders",
     reason: "unreadable-sidecar-lines",
     refuse: async (skips) => {
       const dir = await mkdtemp(resolve(tmpdir(), "numisma-skip-shells-"));
       createdDirs.push(dir);
       const csvPath = join(dir, "open-orders.csv");
       await writeFile(csvPath, syntheticExport(), "utf8");
-      const outcome = await importBitgetOpenOrders({
+      const outcome = await importOpenOrders({
         csvPath,
         io: {
           readExport: async () => syntheticExport(),
@@ -263,7 +263,7 @@ describe("every shell that refuses on a skip renders ONE shared message", () =>
       "availableCapital",
       "cancelOrder",
       "recordFill",
-      "importBitgetOpenOrders",
+      "importOpenOrders",
     ]);
   });
 
@@ -6,10 +6,86 @@
 import { describe, expect, it } from "vitest";
 import {
   parseAsOfArg,
+  parseDiffClosesArg,
   parseMagnitudeThresholdArg,
+  parseNavHistoryArg,
+  parsePerformanceArg,
+  parsePerspectiveArg,
+  parseSinceArg,
   SPINE_MAGNITUDE_THRESHOLD_ENV,
 } from "./spine-args.js";
 
+describe("parsePerformanceArg — the report's performance switch", () => {
+  it("is off unless the flag is present past argv[0..1]", () => {
+    expect(parsePerformanceArg(["node", "report"])).toBe(false);
+    expect(parsePerformanceArg(["node", "--performance"])).toBe(false);
+    expect(parsePerformanceArg(["node", "report", "--as-of", "2026-06-04", "--performance"])).toBe(
+      true,
+    );
+  });
+});
+
+describe("parseNavHistoryArg — the report's and the dashboard's NAV history switch", () => {
+  it("is off unless the flag is present past argv[0..1]", () => {
+    expect(parseNavHistoryArg(["node", "report", "--performance"])).toBe(false);
+    expect(parseNavHistoryArg(["node", "--nav-history"])).toBe(false);
+    expect(parseNavHistoryArg(["node", "report", "--nav-history"])).toBe(true);
+    expect(parseNavHistoryArg(["bun", "app.ts", "--as-of", "2026-06-04", "--nav-history"])).toBe(
+      true,
+    );
+  });
+});
+
+describe("parseSinceArg — the report's diff anchor, fail-loud on a bad date", () => {
+  it("reads both the spaced and the = form, and is undefined when absent", () => {
+    expect(parseSinceArg(["node", "report"])).toBeUndefined();
+    expect(parseSinceArg(["node", "report", "--since", "2026-06-05"])).toBe("2026-06-05");
+    expect(parseSinceArg(["node", "report", "--since=2026-06-05"])).toBe("2026-06-05");
+  });
+
+  it("throws when the flag carries no date or a malformed one", () => {
+    expect(() => parseSinceArg(["node", "report", "--since"])).toThrow(/--since/);
+    expect(() => parseSinceArg(["node", "report", "--since", "last-friday"])).toThrow(/--since/);
+  });
+});
+
+describe("parsePerspectiveArg — the saved-lens flag, fail-loud on a missing name", () => {
+  it("reads both the spaced and the = form, and is undefined when absent", () => {
+    expect(parsePerspectiveArg(["node", "report"])).toBeUndefined();
+    expect(parsePerspectiveArg(["node", "report", "--perspective", "pulse"])).toBe("pulse");
+    expect(parsePerspectiveArg(["node", "report", "--perspective=by-strategy"])).toBe("by-strategy");
+  });
+
+  it("throws when the flag carries no name", () => {
+    expect(() => parsePerspectiveArg(["node", "report", "--perspective"])).toThrow(/--perspective/);
+    expect(() => parsePerspectiveArg(["node", "report", "--perspective", "--as-of"])).toThrow(
+      /--perspective/,
+    );
+  });
+});
+
+describe("parseDiffClosesArg — the two periods a close diff compares", () => {
+  it("reads both the spaced and the comma form, and is undefined when absent", () => {
+    const want = { from: "2026-06-05", to: "2026-06-12" };
+    expect(parseDiffClosesArg(["node", "report"])).toBeUndefined();
+    expect(parseDiffClosesArg(["node", "report", "--diff-closes", "2026-06-05", "2026-06-12"])).toEqual(want);
+    expect(parseDiffClosesArg(["node", "report", "--diff-closes=2026-06-05,2026-06-12"])).toEqual(want);
+  });
+
+  it("throws when either period is missing or malformed", () => {
+    expect(() => parseDiffClosesArg(["node", "report", "--diff-closes", "2026-06-05"])).toThrow(
+      /--diff-closes/,
+    );
+    expect(() => parseDiffClosesArg(["node", "report", "--diff-closes=2026-06-05"])).toThrow(/--diff-closes/);
+    expect(() =>
+      parseDiffClosesArg(["node", "report", "--diff-closes=2026-06-05,2026-06-12,2026-06-19"]),
+    ).toThrow(/--diff-closes/);
+    expect(() => parseDiffClosesArg(["node", "report", "--diff-closes", "last", "week"])).toThrow(
+      /--diff-closes/,
+    );
+  });
+});
+
 describe("parseAsOfArg — the windowed-fold flag, fail-loud on a bad value", () => {
   it("returns undefined when the flag is absent (fold to current state)", () => {
     expect(parseAsOfArg(["node", "spine"])).toBeUndefined();
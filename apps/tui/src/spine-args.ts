@@ -37,6 +37,107 @@ function requireAsOfValue(value: string | undefined): string {
   return value;
 }
 
+/**
+ * Whether `pnpm report` should append the performance section (`--performance`). A
+ * bare switch: the window is the report's own `--as-of`, so there is no value to parse.
+ */
+export function parsePerformanceArg(args: string[]): boolean {
+  return args.slice(2).includes("--performance");
+}
+
+/**
+ * Whether `pnpm report` should append the daily NAV history, or `pnpm dev` render it
+ * (`--nav-history`). A bare switch, for the reason {@link parsePerformanceArg} gives:
+ * the series ends at the surface's own `--as-of`.
+ */
+export function parseNavHistoryArg(args: string[]): boolean {
+  return args.slice(2).includes("--nav-history");
+}
+
+/**
+ * Parse a `--since <date>` / `--since=<date>` flag, if present: the earlier date
+ * `pnpm report` diffs its composition against. Returns undefined when absent. Throws
+ * on a missing or malformed date, with the `--as-of` flag's own shape check.
+ */
+export function parseSinceArg(args: string[]): string | undefined {
+  for (let index = 2; index < args.length; index += 1) {
+    const arg = args[index];
+    if (arg === "--since") {
+      return requireSinceValue(args[index + 1]);
+    }
+    if (arg?.startsWith("--since=")) {
+      return requireSinceValue(arg.slice("--since=".length));
+    }
+  }
+  return undefined;
+}
+
+function requireSinceValue(value: string | undefined): string {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new Error("Missing or invalid value for --since (expected YYYY-MM-DD).");
+  }
+  return value;
+}
+
+/**
+ * Parse a `--perspective <name>` / `--perspective=<name>` flag, if present: the saved
+ * lens `pnpm report` renders and `pnpm dev` opens on. Returns undefined when absent.
+ * Throws on a flag with no name so the surface fails loud instead of rendering the
+ * plain composition as if a lens had been applied. Whether the name exists is the
+ * sidecar's question, answered where it is loaded.
+ */
+export function parsePerspectiveArg(args: string[]): string | undefined {
+  for (let index = 2; index < args.length; index += 1) {
+    const arg = args[index];
+    if (arg === "--perspective") {
+      return requirePerspectiveName(args[index + 1]);
+    }
+    if (arg?.startsWith("--perspective=")) {
+      return requirePerspectiveName(arg.slice("--perspective=".length));
+    }
+  }
+  return undefined;
+}
+
+function requirePerspectiveName(value: string | undefined): string {
+  if (!value || value.startsWith("--")) {
+    throw new Error("Missing value for --perspective (expected a saved Perspective name).");
+  }
+  return value;
+}
+
+/**
+ * Parse a `--diff-closes <from> <to>` / `--diff-closes=<from>,<to>` flag, if present:
+ * the two closed periods `pnpm report` diffs from `closes.jsonl`. Returns undefined when
+ * absent. Throws on a flag missing either date. Whether both periods were closed is the
+ * sidecar's question, answered where it is loaded.
+ */
+export function parseDiffClosesArg(args: string[]): { from: string; to: string } | undefined {
+  for (let index = 2; index < args.length; index += 1) {
+    const arg = args[index];
+    if (arg === "--diff-closes") {
+      return requireClosePeriods(args[index + 1], args[index + 2]);
+    }
+    if (arg?.startsWith("--diff-closes=")) {
+      const [from, to, ...rest] = arg.slice("--diff-closes=".length).split(",");
+      return requireClosePeriods(from, rest.length === 0 ? to : undefined);
+    }
+  }
+  return undefined;
+}
+
+function requireClosePeriods(
+  from: string | undefined,
+  to: string | undefined,
+): { from: string; to: string } {
+  const isDate = (value: string | undefined): value is string =>
+    value !== undefined && /^\d{4}-\d{2}-\d{2}$/.test(value);
+  if (!isDate(from) || !isDate(to)) {
+    throw new Error("Missing or invalid value for --diff-closes (expected <YYYY-MM-DD> <YYYY-MM-DD>).");
+  }
+  return { from, to };
+}
+
 /** The env var that raises the ingest magnitude guard for a single conscious run. */
 export const SPINE_MAGNITUDE_THRESHOLD_ENV = "SPINE_MAGNITUDE_THRESHOLD";
 
@@ -31,7 +31,7 @@ export function SummaryCard({
   const clean =
     safety.nonLiveExcluded === 0 &&
     safety.invalidExcluded === 0 &&
-    safety.shortDeferredExcluded === 0 &&
+    storedShortDeferred(safety) === 0 &&
     !safety.hasWarnings;
 
   const pnl = summary.totalUnrealizedPnlUsd;
@@ -130,8 +130,9 @@ function DataSafetyBadge({
   if (safety.invalidExcluded > 0) {
     parts.push(`${safety.invalidExcluded} invalid`);
   }
-  if (safety.shortDeferredExcluded > 0) {
-    parts.push(`${safety.shortDeferredExcluded} short-deferred`);
+  const shortDeferred = storedShortDeferred(safety);
+  if (shortDeferred > 0) {
+    parts.push(`${shortDeferred} short-deferred`);
   }
   if (safety.hasWarnings && parts.length === 0) {
     parts.push("warnings");
@@ -149,3 +150,14 @@ function DataSafetyBadge({
     </span>
   );
 }
+
+/**
+ * The deferred-short count a v4–v6 row still carries. v7 dropped the key with the
+ * deferral, but those builds excluded a short WITHOUT a warning, so on their rows this
+ * count is the only disclosure there is — reading it is what keeps the floor at 4.
+ * A v7 row has no such key and reads 0, which is true of every build that folds shorts.
+ */
+function storedShortDeferred(safety: DashboardSummary["dataSafety"]): number {
+  const stored = (safety as { shortDeferredExcluded?: unknown }).shortDeferredExcluded;
+  return typeof stored === "number" ? stored : 0;
+}
@@ -372,9 +372,9 @@ export function computeVerdict(
   // here. Only a NAMED venue speaks, so this surface can never print an all-clear it
   // did not earn.
   //
-  // D7 IS PAID FOR IN THIS SENTENCE. There is no market-holiday calendar, so roughly
-  // nine or ten weekday holidays a year fire — accepted, because a false *yes* costs a
-  // glance and a false *no* is the failure a triage surface cannot have. The message
+  // D7 IS PAID FOR IN THIS SENTENCE. A closure the venue's holiday table does not list
+  // still fires — accepted, because a false *yes* costs a glance and a false *no* is
+  // the failure a triage surface cannot have. The message
   // therefore names the VENUE and the WEEKDAY, which is what lets a holiday read as
   // one at a glance instead of as an outage.
   const venueDark = glance.venueDark ?? [];
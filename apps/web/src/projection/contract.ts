@@ -449,7 +449,14 @@ export const SUPPRESSION_KEYS = {
  * deletion test cleanly: delete `glance` and the glance feature dies; nothing else
  * notices.
  */
-export type ProjectionReport = Pick<CompositionReport, "totals" | "dashboard"> & {
+export type ProjectionReport = Pick<CompositionReport, "dashboard"> & {
+  /**
+   * The engine's totals LESS `fx` — the review's wider rate table. USD/MXN already
+   * travels as `usdMxn`, and no card on the phone converts into any other currency,
+   * so the rest of the table stays on the machine. `Omit` rather than a hand-rolled
+   * triple so a key the engine ADDS here still reaches {@link ProjectionKeyAllowList}.
+   */
+  totals: Omit<CompositionReport["totals"], "fx">;
   glance: GlanceBlock;
   /**
    * The DCA branch (spec #277) — the plans sidecar's as-of roster, narrowed by
@@ -569,7 +576,6 @@ export type ProjectionKeyAllowList = {
       ProjectionSummary["dataSafety"],
       | "nonLiveExcluded"
       | "invalidExcluded"
-      | "shortDeferredExcluded"
       | "hasWarnings"
     >
   >;
@@ -720,7 +726,11 @@ export function toProjectionReport(
   dca: DcaBlock,
 ): ProjectionReport {
   return {
-    totals: report.totals,
+    totals: {
+      baseCurrency: report.totals.baseCurrency,
+      fundValueUsd: report.totals.fundValueUsd,
+      usdMxn: report.totals.usdMxn,
+    },
     dashboard: report.dashboard,
     glance,
     dca,
@@ -802,8 +812,24 @@ export function toProjectionReport(
  *
  * AND IT COSTS NO CUTOVER WINDOW EITHER, for v5's reason: the field is optional and its
  * absence on a v4 or v5 row is a TRUE statement about that build.
+ *
+ *  - v7 — `summary.dataSafety.shortDeferredExcluded` is GONE. Shorts now fold into NAV,
+ *    exposure and the closed book, so the engine has no deferred short left to count,
+ *    and the key left `DashboardSummary` with the deferral itself. The first REMOVAL
+ *    this payload has had; nothing was added.
+ *
+ * WHY A REMOVAL IS A BUMP. A v6 reader handed a v7 row does not merely ignore a key —
+ * it finds one MISSING that its type promised, and a badge that sums it reads
+ * `undefined > 0` as false and prints `Data OK` for a build it cannot vouch for. The
+ * version is what lets that reader refuse instead, and what tells a v7 reader that a
+ * missing count means "this build had nothing to defer" rather than "lost on the way".
+ *
+ * THE FLOOR DOES NOT MOVE, because a v4–v6 row is still renderable HONESTLY — but only
+ * because `SummaryCard` still reads the count such a row carries. Those builds deferred
+ * a short without raising a warning, so the count was the row's only disclosure of it;
+ * dropping it on read would turn a row that said "one short excluded" into a clean one.
  */
-export const COMPOSITION_SNAPSHOT_SCHEMA_VERSION = 6;
+export const COMPOSITION_SNAPSHOT_SCHEMA_VERSION = 7;
 
 /**
  * THE OLDEST STORED VERSION THIS BUILD WILL RENDER (spec #285 / G-D9) — the decision
@@ -826,7 +852,8 @@ export const COMPOSITION_SNAPSHOT_SCHEMA_VERSION = 6;
  * no fill was recorded, because the anchor predates the plumbing that could record one.
  * v6 (#266) leaves the floor where it is for exactly the same reason: an absent
  * `venueDark` on a v4 or v5 row truthfully says that build could not have written one,
- * and the surface renders NOTHING there — never an all-clear.
+ * and the surface renders NOTHING there — never an all-clear. v7 leaves it too: the
+ * count it removed is still READ off the older rows that carry it (see v7 above).
  * A v3 row is a different case and is still REFUSED — it carries no `dca` branch at
  * all, so rendering it would show a fund with no visible strategy rather than a fund
  * whose strategy has not moved.
@@ -58,6 +58,7 @@ import type {
   DcaRung,
   FillPathRung,
   FillPathView,
+  FxRates,
   IsoDate,
   LoadedPlans,
   OrderRecord,
@@ -70,6 +71,7 @@ import {
   reconcileFillActs,
   reconcileFillPath,
   selectOrdersThrough,
+  usdRateOf,
 } from "@numisma/engine";
 import type {
   DcaBlock,
@@ -81,7 +83,7 @@ import type {
 /** One position's recorded book, as the fold holds it — the reconciliation's lot side. */
 export interface DcaFillPosition {
   lots: readonly PositionLot[];
-  /** The position's denomination; `entryFx`/`reviewFx` value a non-USD lot. */
+  /** The position's denomination; `entryFx`, or the review's rate for it, values a non-USD lot. */
   currency: Currency;
 }
 
@@ -108,8 +110,11 @@ export interface DcaFillInputs {
   events: readonly PortfolioEvent[];
   /** The fold's positions by id — only the ones a plan could name are ever read. */
   positions: ReadonlyMap<string, DcaFillPosition>;
-  /** The review's rate, as the per-lot `entryFx` fallback. Passed, never fetched. */
-  reviewFx?: number;
+  /**
+   * The review's rates, read by each position's currency as the per-lot `entryFx`
+   * fallback. Passed, never fetched.
+   */
+  fxRates?: FxRates;
 }
 
 export function buildDcaBlock(
@@ -226,6 +231,10 @@ function reconcile(
   positionId: string,
 ): FillPathView {
   const position = fills.positions.get(positionId);
+  const reviewFx =
+    position === undefined || fills.fxRates === undefined
+      ? undefined
+      : usdRateOf(position.currency, fills.fxRates);
   return reconcileFillPath({
     plan,
     orders,
@@ -234,7 +243,7 @@ function reconcile(
     // Spread rather than assigned, so an unknown position leaves `currency` genuinely
     // ABSENT (the engine reads that as USD) instead of present-and-undefined.
     ...(position === undefined ? {} : { currency: position.currency }),
-    ...(fills.reviewFx === undefined ? {} : { reviewFx: fills.reviewFx }),
+    ...(reviewFx === undefined ? {} : { reviewFx }),
   });
 }
 
@@ -115,7 +115,6 @@ function constructedAnchor(asOf: string, nav: number): SnapshotAnchor {
           dataSafety: {
             nonLiveExcluded: 0,
             invalidExcluded: 0,
-            shortDeferredExcluded: 0,
             hasWarnings: false,
           },
         },
@@ -313,9 +313,9 @@ describe("runGapReport — the exit contract", () => {
 
   it("exits 0 on a VENUE-DARK day, and says so — warn only (#266 D8)", async () => {
     // The exit code does not move, and that is mandatory rather than merely
-    // preferable: with no market-holiday calendar (D7) this fires on ~9-10 weekday
-    // holidays a year, so a non-zero exit would fail the daily automation ten times
-    // a year and train the operator to ignore it.
+    // preferable: the holiday table (D7) lists only scheduled closures, so this still
+    // fires on an unscheduled one or past the table's span, and a non-zero exit would
+    // fail the daily automation on each and train the operator to ignore it.
     const paths = await storeWith(CRYPTO.map((id) => mark(YESTERDAY, id)));
     const run = await runGapReport({ argv: ["--since", YESTERDAY], now: NOW, paths });
 
@@ -16,12 +16,12 @@
  *
  * R5 — THE CALENDAR'S NAMED BLIND SPOT. The venue cadence — now
  * `@numisma/engine`'s `VENUE_CADENCE`, moved down in #266 D4 so this file and the
- * durable log's gap report share ONE definition — is weekday-only: it has NO
- * holiday awareness. A US market holiday that falls on a weekday is still a day
- * this file expects a mark on, so the alarm can ring on a day the venue was
- * legitimately closed. Under carry-forward that false *yes* does not last a single
- * day — it PERSISTS until the venue next marks, because an unfilled expectation is
- * only cleared by a fill.
+ * durable log's gap report share ONE definition — skips weekends and the venue's
+ * listed holidays and nothing else. A closure the holiday table does not list (an
+ * unscheduled one, or a year nobody has entered) is still a day this file expects a
+ * mark on, so the alarm can ring on a day the venue was legitimately closed. Under
+ * carry-forward that false *yes* does not last a single day — it PERSISTS until the
+ * venue next marks, because an unfilled expectation is only cleared by a fill.
  *
  * That is accepted for v1 on R3's own logic — a false *yes* costs a glance at the
  * desk; a false *no* is the one failure a triage surface cannot have. And
@@ -36,15 +36,18 @@
 import type {
   CompositionReport,
   FundReviewData,
+  InstrumentRegistry,
   InstrumentRegistryEntry,
   PortfolioEvent,
 } from "@numisma/engine";
 import {
+  CODE_INSTRUMENT_REGISTRY,
   PRICE_SOURCES,
   addDays,
   composeRowDependencies,
   instrumentsForSource,
   lastExpectedMarkDate,
+  registeredAsOf,
   weekdayName,
 } from "@numisma/engine";
 import { LAUNCHD_ERA_START, computeGapReport } from "@numisma/event-store";
@@ -56,13 +59,18 @@ import type {
 import { SUPPRESSION_KEYS } from "../projection/contract.ts";
 
 /**
- * Every registered instrument, across every source — the union, built from `source`.
+ * Every instrument registered by `asOf`, across every source — the union, built from
+ * `source`. An `instruments.jsonl` row added after the anchor is not expected on it.
  *
  * `PRICE_SOURCES` is the engine's own key list for `VENUE_CADENCE`, so a venue
  * cannot be enumerated here without having declared its cadence there.
  */
-function allRegisteredInstruments(): InstrumentRegistryEntry[] {
-  return PRICE_SOURCES.flatMap((source) => instrumentsForSource(source));
+function allRegisteredInstruments(
+  registry: InstrumentRegistry,
+  asOf: string,
+): InstrumentRegistryEntry[] {
+  const inForce = registeredAsOf(registry, asOf);
+  return PRICE_SOURCES.flatMap((source) => instrumentsForSource(source, inForce));
 }
 
 /**
@@ -72,12 +80,16 @@ function allRegisteredInstruments(): InstrumentRegistryEntry[] {
  * anchor's date, and `undefined` is a first-class answer meaning "no policy was in
  * effect" (R1). This function never consults a default, and deliberately has no
  * access to one.
+ *
+ * `registry` is the composed instrument registry the push loaded — the code table
+ * plus `instruments.jsonl` — and defaults to the code table alone.
  */
 export function buildGlanceBlock(
   data: FundReviewData,
   report: CompositionReport,
   reserveTargetPct?: number,
   venueDark?: GlanceVenueDarkDay[],
+  registry: InstrumentRegistry = CODE_INSTRUMENT_REGISTRY,
 ): GlanceBlock {
   const asOf = report.dashboard.summary.asOf;
 
@@ -118,12 +130,12 @@ export function buildGlanceBlock(
 
   // EVERY registered instrument is expected on EVERY anchor, and that is a deliberate
   // consequence of carry-forward rather than an oversight. `lastExpectedMarkDate`
-  // always resolves to some date <= `asOf`, so on any anchor all thirteen instruments
-  // owe a current mark; `arrived` is the count of instruments that are FRESH against
-  // that date. The reading is "thirteen instruments should have a current mark; N do".
+  // always resolves to some date <= `asOf`, so on any anchor every registered instrument
+  // owes a current mark; `arrived` is the count of instruments that are FRESH against
+  // that date. The reading is "every registered instrument should have a current mark; N do".
   // Keeping `expected` at "due today" while `missing` carried forward absences from
   // previous days would make `arrived = expected - missing.length` go NEGATIVE.
-  const expectedEntries = allRegisteredInstruments();
+  const expectedEntries = allRegisteredInstruments(registry, asOf);
   const missing: GlanceMissingMark[] = expectedEntries
     .filter((entry) => {
       const lastMark = lastMarkById.get(entry.instrumentId);
@@ -206,9 +218,10 @@ export const VENUE_DARK_WINDOW_DAYS = 7;
 export function summarizeVenueDark(
   events: readonly PortfolioEvent[],
   asOf: string,
+  registry: InstrumentRegistry = CODE_INSTRUMENT_REGISTRY,
 ): GlanceVenueDarkDay[] {
   const walkedBack = addDays(asOf, -VENUE_DARK_WINDOW_DAYS);
-  const report = computeGapReport(events, {
+  const gapWindow = {
     // CLAMPED TO THE ERA FLOOR, not merely walked back. `computeGapReport` only
     // DEFAULTS its floor to `LAUNCHD_ERA_START`; an explicit `since` is taken as
     // given, so a window walked back from an early anchor reaches into the hand-run
@@ -222,7 +235,8 @@ export function summarizeVenueDark(
     since: walkedBack > LAUNCHD_ERA_START ? walkedBack : LAUNCHD_ERA_START,
     until: addDays(asOf, -1),
     now: new Date(`${asOf}T18:00:00Z`),
-  });
+  };
+  const report = computeGapReport(events, gapWindow, registry);
 
   // `report.venueDark` is ascending by date, so the LAST entry a venue appears in is
   // its most recent dark day. One pass, last-write-wins, and the emission order comes
@@ -255,9 +269,10 @@ export function summarizeVenueDark(
 export function venueDarkOrOmit(
   events: readonly PortfolioEvent[],
   asOf: string,
+  registry: InstrumentRegistry = CODE_INSTRUMENT_REGISTRY,
 ): GlanceVenueDarkDay[] | undefined {
   try {
-    return summarizeVenueDark(events, asOf);
+    return summarizeVenueDark(events, asOf, registry);
   } catch {
     return undefined;
   }
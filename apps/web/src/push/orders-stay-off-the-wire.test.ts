@@ -132,9 +132,11 @@ import { loadFixture, TEST_DCA, TEST_GLANCE } from "./push-core.fixtures.ts";
  * inside the existing `glance` branch, both allow-lists grown by enumeration, the
  * fixture regenerated, and no ADR-007 amendment owed — a venue name and a weekday
  * disclose strictly less than `feedGap.missing[]` already ships, and the floor stayed
- * at 4 because an absent field is a true statement about a v4 or v5 build.
+ * at 4 because an absent field is a true statement about a v4 or v5 build. 7 for the
+ * first removal: `dataSafety.shortDeferredExcluded` left with the deferral it counted,
+ * and the floor stayed at 4 because the card still reads it off the rows that carry it.
  */
-const PINNED_SCHEMA_VERSION = 6;
+const PINNED_SCHEMA_VERSION = 7;
 
 /**
  * The plans symbols the DCA branch legitimately brought into push source. Their
@@ -157,7 +157,6 @@ const ALLOWED_KEY_PATHS = [
   "$.dashboard.summary.dataSafety.hasWarnings",
   "$.dashboard.summary.dataSafety.invalidExcluded",
   "$.dashboard.summary.dataSafety.nonLiveExcluded",
-  "$.dashboard.summary.dataSafety.shortDeferredExcluded",
   "$.dashboard.summary.fundName",
   "$.dashboard.summary.fundValueUsd",
   "$.dashboard.summary.largestAccount",
@@ -446,6 +445,21 @@ describe("D8 forbidden-key contract (what may not reach the cloud)", () => {
     ]);
   });
 
+  it("leaves the review's wider FX table off the wire", async () => {
+    const wide = await loadWideReport();
+    const withFx: CompositionReport = {
+      ...wide,
+      totals: { ...wide.totals, fx: { EUR: 0.92, GBP: 0.79 } },
+    };
+    const { report } = deriveSnapshot(withFx, TEST_GLANCE, TEST_DCA);
+    const serialized = JSON.parse(JSON.stringify(report)) as { totals: object };
+    expect(serialized.totals).toEqual({
+      baseCurrency: wide.totals.baseCurrency,
+      fundValueUsd: wide.totals.fundValueUsd,
+      usdMxn: wide.totals.usdMxn,
+    });
+  });
+
   it("narrows the shipped fixture the same way (a wide real-shaped report)", async () => {
     const fixture = await loadFixture();
     expect(Object.keys(toProjectionReport(fixture, TEST_GLANCE, TEST_DCA)).sort()).toEqual([
@@ -13,12 +13,14 @@ import type { CompositionReport, FoldedReview } from "@numisma/engine";
 import { buildCompositionReport, pickPolicyAsOf } from "@numisma/engine";
 import {
   assertLogFullyLoaded,
+  instrumentRegistryPath,
   loadEventLog,
   loadFoldedReview,
+  loadInstrumentRegistry,
   resolveEventStorePaths,
   unattendedFoldVerdict,
 } from "@numisma/event-store";
-import type { LoadedPreferences } from "@numisma/engine";
+import type { InstrumentRegistry, LoadedPreferences } from "@numisma/engine";
 import {
   loadOrders,
   loadPlans,
@@ -252,12 +254,14 @@ export async function buildGlanceForAnchor(
 ): Promise<AnchorGlance> {
   const asOf = fold.report.dashboard.summary.asOf;
   const floor = await loadReserveFloorAsOf(asOf);
+  const registry = await loadRegistryForGlance();
   return {
     glance: buildGlanceBlock(
       fold.data,
       fold.report,
       floor.reserveTargetPct,
-      await loadVenueDarkAsOf(asOf),
+      await loadVenueDarkAsOf(asOf, registry),
+      registry,
     ),
     preferences: floor.preferences,
     // Carried, not acted on: the fold that produced `fold.data` already reported what
@@ -294,15 +298,28 @@ export async function buildGlanceForAnchor(
  */
 async function loadVenueDarkAsOf(
   asOf: string,
+  registry: InstrumentRegistry,
 ): Promise<GlanceVenueDarkDay[] | undefined> {
   try {
     const log = await loadEventLog(resolveEventStorePaths().log);
-    return venueDarkOrOmit(log.events, asOf);
+    return venueDarkOrOmit(log.events, asOf, registry);
   } catch {
     return undefined;
   }
 }
 
+/**
+ * The instrument registry the glance expects marks against: the code table plus
+ * `instruments.jsonl`. The TOTAL loader, not the strict one — a sidecar the push
+ * cannot read degrades the glance to the code table rather than withholding the
+ * anchor. Its skipped lines are not reported here: `pnpm prices:fetch` reads the
+ * same file every day and is the surface that names them.
+ */
+async function loadRegistryForGlance(): Promise<InstrumentRegistry> {
+  const loaded = await loadInstrumentRegistry(instrumentRegistryPath(resolveEventStorePaths()));
+  return loaded.registry;
+}
+
 /**
  * The whole push-side DCA derivation for one folded anchor: read the plans sidecar,
  * then narrow its as-of roster to the wire block. The push's THIRD privileged input,
@@ -398,10 +415,10 @@ async function loadFillInputs(fold: FoldedAnchor): Promise<DcaFillInputs | undef
         { lots: position.lots, currency: position.currency },
       ]),
     ),
-    // The fold's own review rate, PASSED rather than fetched — the reconciliation is
+    // The fold's own review rates, PASSED rather than fetched — the reconciliation is
     // pure and a rate looked up inside it would make a historical answer depend on when
-    // it was asked. It is only ever the fallback: a lot's own `entryFx` wins.
-    reviewFx: fold.data.review.usdMxn,
+    // it was asked. They are only ever the fallback: a lot's own `entryFx` wins.
+    fxRates: fold.data.review,
   };
 }
 
@@ -639,14 +639,26 @@ write_heartbeat() {
   if [[ "$TIMED_OUT" == "true" ]]; then
     HEARTBEAT_LAST_STEP="timeout:$LAST_STEP"
   fi
+  # Step 1's retry counts, when it got far enough to write them. OMITTED, never
+  # zeroed, when the file is absent or not two integers: the reader refuses a bad
+  # count as an unreadable FILE, and "no tally" is not the same fact as "no retries".
+  HEARTBEAT_RETRIES=""
+  if [[ -n "${RETRY_TALLY_FILE:-}" && -r "$RETRY_TALLY_FILE" ]]; then
+    read -r tally_retried tally_exhausted < "$RETRY_TALLY_FILE" 2>/dev/null || true
+    if [[ "${tally_retried:-}" =~ ^[0-9]+$ && "${tally_exhausted:-}" =~ ^[0-9]+$ ]]; then
+      HEARTBEAT_RETRIES="$(printf ',\n  "fetchRetries": %d,\n  "fetchRetriesExhausted": %d' \
+        "$tally_retried" "$tally_exhausted" 2>/dev/null)" || HEARTBEAT_RETRIES=""
+    fi
+  fi
   if [[ -n "$HEARTBEAT_MARK_WINDOW_AT" ]]; then
-    printf '{\n  "schemaVersion": 2,\n  "startedAt": "%s",\n  "finishedAt": "%s",\n  "exitCode": %d,\n  "lastStep": "%s",\n  "markWindow": %s,\n  "lastMarkWindowFinishedAt": "%s"\n}\n' \
+    printf '{\n  "schemaVersion": 2,\n  "startedAt": "%s",\n  "finishedAt": "%s",\n  "exitCode": %d,\n  "lastStep": "%s",\n  "markWindow": %s,\n  "lastMarkWindowFinishedAt": "%s"%s\n}\n' \
       "$STARTED_AT" "$HEARTBEAT_FINISHED_AT" "$HEARTBEAT_STATUS" "$HEARTBEAT_LAST_STEP" \
-      "$MARK_WINDOW" "$HEARTBEAT_MARK_WINDOW_AT" \
+      "$MARK_WINDOW" "$HEARTBEAT_MARK_WINDOW_AT" "$HEARTBEAT_RETRIES" \
       > "$HEARTBEAT_FILE" 2>/dev/null || true
   else
-    printf '{\n  "schemaVersion": 2,\n  "startedAt": "%s",\n  "finishedAt": "%s",\n  "exitCode": %d,\n  "lastStep": "%s",\n  "markWindow": %s\n}\n' \
+    printf '{\n  "schemaVersion": 2,\n  "startedAt": "%s",\n  "finishedAt": "%s",\n  "exitCode": %d,\n  "lastStep": "%s",\n  "markWindow": %s%s\n}\n' \
       "$STARTED_AT" "$HEARTBEAT_FINISHED_AT" "$HEARTBEAT_STATUS" "$HEARTBEAT_LAST_STEP" "$MARK_WINDOW" \
+      "$HEARTBEAT_RETRIES" \
       > "$HEARTBEAT_FILE" 2>/dev/null || true
   fi
   # --- and the OPERATOR NOTICE, on a non-zero exit only (#376) --------------
@@ -700,6 +712,10 @@ LOG_FILE="$LOG_DIR/price-feed-$STAMP.log"
 # step), a logout, or a shutdown all deliver the same bare SIGTERM. Per-run name, so
 # it can never be a stale flag from an earlier run.
 WATCHDOG_FIRED_FILE="$LOG_FILE.watchdog-fired"
+# Where step 1 leaves its retry counts (`<retried> <exhausted>`) for the heartbeat,
+# which cannot read the fetch's report. Per-run name for the same reason as above: a
+# run that dies before step 1 must not inherit an earlier run's counts.
+RETRY_TALLY_FILE="$LOG_DIR/price-feed-$STAMP.retries"
 
 # Everything from here is tee'd to the per-run log AND the scheduler's stdout.
 #
@@ -963,7 +979,7 @@ fi
 #    run spine on a run the operator has not looked at.
 LAST_STEP="prices-fetch"
 set +e
-pnpm prices:fetch
+PRICE_FETCH_RETRY_TALLY="$RETRY_TALLY_FILE" pnpm prices:fetch
 FETCH_STATUS=$?
 set -e
 
@@ -1005,7 +1021,7 @@ pnpm spine
 # than tolerating it: it is a forensic breadcrumb that may be intentionally ignored,
 # `git add` of an ignored path aborts under `set -e`, and step 4 handles it in the
 # separate lenient `--ignored` arm that warns instead of failing.
-DURABLE_STRICT_FILES=(events.jsonl genesis.json preferences.jsonl orders.jsonl plans.jsonl reconciliations.jsonl)
+DURABLE_STRICT_FILES=(events.jsonl genesis.json preferences.jsonl orders.jsonl plans.jsonl reconciliations.jsonl journal.jsonl closes.jsonl instruments.jsonl)
 
 # 3) Persist the appended marks to the private data repo. `pnpm spine` appends the
 #    day's marks to events.jsonl but leaves that change UNCOMMITTED — a stray
@@ -1117,12 +1133,12 @@ fi
 #    log. It writes into $DATA_DIR, the accumulus tree step 3 just committed, but
 #    cannot dirty it: accumulus uses an allowlist .gitignore under which
 #    gap-report.json falls through to /data/* (ignored, untracked), and step 4's
-#    strict arm runs `git status --porcelain` WITHOUT `--ignored` over the SIX
-#    durable files in DURABLE_STRICT_FILES, so the sidecar is invisible to it either
-#    way. (Six, not seven: the allowlist versions seven files, but head-digest.json is
-#    handled by the lenient `--ignored` arm above, and that arm reports rather than
-#    fails. Both counts move together with that array — the guard in
-#    apps/tui/src/durable-log-guards.test.ts is the thing that catches it if they don't.)
+#    strict arm runs `git status --porcelain` WITHOUT `--ignored` over the durable
+#    files in DURABLE_STRICT_FILES, so the sidecar is invisible to it either way. (The
+#    allowlist also versions head-digest.json, which that array leaves to the lenient
+#    `--ignored` arm above — it reports rather than fails. Which files those are is the
+#    array's and the allowlist's to say, not this comment's: the guard in
+#    apps/tui/src/durable-log-guards.test.ts is what holds the two together.)
 #
 #    ZERO-ARGUMENT, and it stays that way even as the log ages: the command floors
 #    its own window at `boundedEraFloor` — the launchd era start, or 400 days back,
@@ -1200,8 +1216,8 @@ pnpm gap-report -- --write
 #     step 5 through ADR-006's one rule, so the notice cannot land in a different
 #     directory from the report it agrees with. Like gap-report.json it falls through
 #     accumulus's allowlist .gitignore to /data/* (ignored, untracked) and is invisible
-#     to step 4's strict arm, which names the six DURABLE_STRICT_FILES and does not pass
-#     `--ignored`.
+#     to step 4's strict arm, which names only DURABLE_STRICT_FILES (the list
+#     apps/tui/src/durable-log-guards.test.ts holds) and does not pass `--ignored`.
 LAST_STEP="operator-notice"
 pnpm operator-notice
 
@@ -9,6 +9,8 @@ import type {
   CapitalTier,
   CompositionReport,
   DetailRecordKind,
+  Direction,
+  ExecutionMode,
   FundReviewData,
   NamedRecord,
   ReserveRecord,
@@ -23,9 +25,13 @@ import {
   isExecutionMode,
   isNonNegativeNumber,
   isSupportedCurrency,
+  lotExposure,
+  lotMarketValue,
   pushWarning,
   toUsd,
+  toUsdAtRate,
 } from "../internal.js";
+import { usdRateOf, type FxRates } from "../fx.js";
 import {
   latestCloseByInstrument,
   markPriceCloseTolerance,
@@ -63,9 +69,20 @@ export interface CanonicalLine {
   accountLabel: string;
   instrumentId: string;
   instrumentLabel: string;
+  /** Always `live` on the composition's own lines; a Perspective may admit other modes. */
+  executionMode: ExecutionMode;
+  /** Positions only: the opening decision's strategy tag, when the log recorded one. */
+  strategy?: string;
   usdValue: number;
   costBasisUsd?: number;
   unrealizedPnlUsd?: number;
+  /** Positions only: the direction the line's exposure points. Absent on cash. */
+  direction?: Direction;
+  /**
+   * Positions only: signed market exposure in USD — negative for a short. Cash carries
+   * none, so a Reserve line omits it rather than claiming a zero.
+   */
+  exposureUsd?: number;
   tierContributions?: TierContribution[];
 }
 
@@ -76,7 +93,15 @@ export interface CanonicalState {
   reserveReconciliation: ReserveReconciliationLine[];
 }
 
-export function buildCanonicalState(data: FundReviewData): CanonicalState {
+/**
+ * Admit every valid record whose Execution Mode is in `modes` — `live` only unless a
+ * caller asks otherwise. A record outside `modes` counts as `excluded.nonLive`, the
+ * tally the dashboard's "live only" line reports; only a Perspective widens it.
+ */
+export function buildCanonicalState(
+  data: FundReviewData,
+  modes: readonly ExecutionMode[] = ["live"],
+): CanonicalState {
   const warnings: Warning[] = [];
   const portfolios = indexById(data.portfolios, "portfolio");
   const accounts = indexById(data.accounts, "account");
@@ -91,7 +116,6 @@ export function buildCanonicalState(data: FundReviewData): CanonicalState {
   const excluded = {
     nonLive: 0,
     invalid: 0,
-    shortDeferred: 0,
   };
 
   for (const reserve of data.reserves) {
@@ -106,7 +130,7 @@ export function buildCanonicalState(data: FundReviewData): CanonicalState {
       continue;
     }
 
-    if (reserve.executionMode !== "live") {
+    if (!modes.includes(reserve.executionMode)) {
       excluded.nonLive += 1;
       continue;
     }
@@ -122,6 +146,17 @@ export function buildCanonicalState(data: FundReviewData): CanonicalState {
       continue;
     }
 
+    if (usdRateOf(reserve.currency, data.review) === undefined) {
+      pushWarning(
+        warnings,
+        "unsupported-currency",
+        `Reserve ${reserve.id} uses Currency ${reserve.currency}, which the review carries no FX rate for, and was excluded.`,
+        reserve.id,
+      );
+      excluded.invalid += 1;
+      continue;
+    }
+
     const reserveHasMissingReference = validateCapitalBase(
       reserve,
       portfolios,
@@ -160,13 +195,9 @@ export function buildCanonicalState(data: FundReviewData): CanonicalState {
     // Price P&L == 0). `amount` stays the line's authoritative USD value; the
     // tier contributions are an independent overlay consumed only by the tier
     // rollup, so untiered reserves and every other section stay unchanged.
-    const tierContributions = buildReserveTierContributions(
-      reserve,
-      data.review.usdMxn,
-      warnings,
-    );
+    const tierContributions = buildReserveTierContributions(reserve, data.review, warnings);
 
-    const reserveUsdValue = toUsd(reserve.amount, reserve.currency, data.review.usdMxn);
+    const reserveUsdValue = toUsd(reserve.amount, reserve.currency, data.review);
 
     canonicalLines.push({
       recordId: reserve.id,
@@ -180,6 +211,7 @@ export function buildCanonicalState(data: FundReviewData): CanonicalState {
       accountLabel: accountLabel(reserveAccount, reserve.accountId),
       instrumentId: "reserve",
       instrumentLabel: "Reserve",
+      executionMode: reserve.executionMode,
       usdValue: reserveUsdValue,
       ...(tierContributions ? { tierContributions } : {}),
     });
@@ -209,7 +241,7 @@ export function buildCanonicalState(data: FundReviewData): CanonicalState {
       continue;
     }
 
-    if (position.executionMode !== "live") {
+    if (!modes.includes(position.executionMode)) {
       excluded.nonLive += 1;
       continue;
     }
@@ -225,19 +257,25 @@ export function buildCanonicalState(data: FundReviewData): CanonicalState {
       continue;
     }
 
-    if (!isDirection(position.direction)) {
+    if (usdRateOf(position.currency, data.review) === undefined) {
       pushWarning(
         warnings,
-        "unsupported-direction",
-        `Position ${position.id} uses unsupported Direction ${String(position.direction)} and was excluded.`,
+        "unsupported-currency",
+        `Position ${position.id} uses Currency ${position.currency}, which the review carries no FX rate for, and was excluded.`,
         position.id,
       );
       excluded.invalid += 1;
       continue;
     }
 
-    if (position.direction === "short") {
-      excluded.shortDeferred += 1;
+    if (!isDirection(position.direction)) {
+      pushWarning(
+        warnings,
+        "unsupported-direction",
+        `Position ${position.id} uses unsupported Direction ${String(position.direction)} and was excluded.`,
+        position.id,
+      );
+      excluded.invalid += 1;
       continue;
     }
 
@@ -311,19 +349,36 @@ export function buildCanonicalState(data: FundReviewData): CanonicalState {
       continue;
     }
 
-    // Market value converts at the current review FX; each Lot's cost basis
-    // converts at its own entry FX (falling back to the review FX). P&L is the
+    // Market value converts at the review's rate for the position's currency; each
+    // Lot's cost basis converts at its own entry FX (falling back to that rate). P&L is the
     // per-Lot join of (quantity, cost, tier, entryFx) against one instrument
-    // markPrice, then aggregated by Capital Tier.
-    const reviewFx = data.review.usdMxn;
+    // markPrice, then aggregated by Capital Tier. A short Lot is valued as its
+    // posted collateral plus its open result (`lotMarketValue`), so the same
+    // join makes its P&L rise as the mark falls; its signed exposure rides
+    // beside the value and never replaces it.
+    const reviewFx = usdRateOf(position.currency, data.review)!;
     let marketValueUsd = 0;
     let costBasisUsd = 0;
+    let exposureUsd = 0;
     const tierTotals = new Map<CapitalTier, TierContribution>();
     for (const lot of lots) {
-      const lotMarketUsd = toUsd(lot.quantity * position.markPrice, position.currency, reviewFx);
-      const lotCostUsd = toUsd(lot.quantity * lot.cost, position.currency, lot.entryFx ?? reviewFx);
+      const lotMarketUsd = toUsdAtRate(
+        lotMarketValue(lot, position.markPrice, position.direction),
+        position.currency,
+        reviewFx,
+      );
+      const lotCostUsd = toUsdAtRate(
+        lot.quantity * lot.cost,
+        position.currency,
+        lot.entryFx ?? reviewFx,
+      );
       marketValueUsd += lotMarketUsd;
       costBasisUsd += lotCostUsd;
+      exposureUsd += toUsdAtRate(
+        lotExposure(lot, position.markPrice, position.direction),
+        position.currency,
+        reviewFx,
+      );
       const existing = tierTotals.get(lot.tier) ?? {
         tier: lot.tier,
         usdValue: 0,
@@ -348,9 +403,13 @@ export function buildCanonicalState(data: FundReviewData): CanonicalState {
       accountLabel: accountLabel(account, position.accountId),
       instrumentId: position.instrumentId,
       instrumentLabel: `${instrument!.symbol} (${instrument!.name})`,
+      executionMode: position.executionMode,
+      ...(position.strategy !== undefined ? { strategy: position.strategy } : {}),
       usdValue: marketValueUsd,
       costBasisUsd,
       unrealizedPnlUsd: marketValueUsd - costBasisUsd,
+      direction: position.direction,
+      exposureUsd,
       tierContributions: [...tierTotals.values()],
     });
 
@@ -385,7 +444,7 @@ export function buildCanonicalState(data: FundReviewData): CanonicalState {
 
 function buildReserveTierContributions(
   reserve: ReserveRecord,
-  reviewFx: number,
+  rates: FxRates,
   warnings: Warning[],
 ): TierContribution[] | undefined {
   const lots = reserve.lots;
@@ -409,7 +468,7 @@ function buildReserveTierContributions(
   const tierTotals = new Map<CapitalTier, TierContribution>();
   let faceSum = 0;
   for (const lot of lots) {
-    const lotUsd = toUsd(lot.quantity, reserve.currency, reviewFx);
+    const lotUsd = toUsd(lot.quantity, reserve.currency, rates);
     faceSum += lot.quantity;
     const existing = tierTotals.get(lot.tier) ?? {
       tier: lot.tier,
@@ -0,0 +1,153 @@
+// Compose concern — NAV history. The Fund's own journey, as `buildPriceJourneys` is an
+// instrument's: one fold of genesis + log per requested date, valued through the same
+// `buildCompositionReport` NAV the dashboard shows, then read for its running peak and
+// its deepest fall. Peak and fall are read off a FLOW-ADJUSTED index, chained the way
+// `composePerformance` chains TWR, so a `Withdraw` is not a drawdown and a `Deposit` is
+// not a new high. Every point is an independent fold as of its date, so any one of them
+// reproduces on its own. Pure: no IO, no clock.
+import type {
+  FundReviewData,
+  NavDrawdown,
+  NavHistory,
+  NavPoint,
+  Warning,
+} from "../contracts.js";
+import { addDays, daysBetween } from "../calendar.js";
+import { foldEvents } from "../events/fold.js";
+import type { PortfolioEvent } from "../events/types.js";
+import { externalFlows } from "./performance.js";
+import { buildCompositionReport } from "./report.js";
+
+/** A point beside its flow-adjusted index — the value peak and drawdown are read on. */
+interface IndexedPoint {
+  point: NavPoint;
+  index: number;
+}
+
+/** Every calendar date from `from` to `to`, both included — the daily NAV grid. */
+export function dailyNavDates(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Value the Fund on each of `dates` (sorted, duplicates dropped) and derive its peak,
+ * maximum drawdown and recovery. A date earlier than the genesis seed fails loud in the
+ * fold, as it does for every as-of surface. Throws on an empty date list: a history of
+ * no points has no peak to report.
+ *
+ * The index starts at 1 and moves by `(V_end − flows) / V_start` between points, with
+ * the flows of `externalFlows` taken at end of day — `composePerformance`'s own
+ * convention, so the index's last value is the window's TWR plus one. A point with no
+ * opening value carries the index flat rather than dividing by zero.
+ */
+export function buildNavHistory(
+  genesis: FundReviewData,
+  events: PortfolioEvent[],
+  dates: string[],
+): NavHistory {
+  const ordered = [...new Set(dates)].sort();
+  const from = ordered[0];
+  const to = ordered[ordered.length - 1];
+  if (from === undefined || to === undefined) {
+    throw new Error("Cannot build a NAV history over no dates.");
+  }
+
+  const warnings: Warning[] = [];
+  const flows = externalFlows(genesis, events, from, to, warnings);
+  let nextFlow = 0;
+  const flowsThrough = (asOf: string): number => {
+    let fundUsd = 0;
+    while (nextFlow < flows.length) {
+      const flow = flows[nextFlow] as (typeof flows)[number];
+      if (flow.asOf > asOf) break;
+      fundUsd += flow.fund;
+      nextFlow += 1;
+    }
+    return fundUsd;
+  };
+
+  let index = 1;
+  let runningPeak = index;
+  let previousValueUsd: number | undefined;
+  const indexed: IndexedPoint[] = ordered.map((asOf) => {
+    const report = buildCompositionReport(foldEvents(genesis, events, asOf).data);
+    const fundValueUsd = report.totals.fundValueUsd;
+    const flowUsd = flowsThrough(asOf);
+    if (previousValueUsd !== undefined && previousValueUsd > 0) {
+      index *= (fundValueUsd - flowUsd) / previousValueUsd;
+    }
+    previousValueUsd = fundValueUsd;
+    runningPeak = Math.max(runningPeak, index);
+    const tempos = report.dashboard.sections.find((section) => section.id === "tempos");
+    const point: NavPoint = {
+      asOf,
+      fundValueUsd,
+      byTempo: (tempos?.rows ?? []).map((row) => ({
+        tempo: row.id.slice("tempo:".length),
+        usdValue: row.usdValue,
+      })),
+      drawdownPct: runningPeak > 0 ? (index / runningPeak - 1) * 100 : 0,
+    };
+    return { point, index };
+  });
+
+  let high = indexed[0] as IndexedPoint;
+  for (const entry of indexed) {
+    if (entry.index > high.index) {
+      high = entry;
+    }
+  }
+  const maxDrawdown = deepestDrawdown(indexed);
+  return {
+    points: indexed.map((entry) => entry.point),
+    peak: { asOf: high.point.asOf, fundValueUsd: high.point.fundValueUsd },
+    ...(maxDrawdown ? { maxDrawdown } : {}),
+    ...(warnings.length > 0 ? { warnings } : {}),
+  };
+}
+
+/**
+ * The deepest fall of the index from a running high to a later low, and when (if ever)
+ * the index climbed back to that high. On equal depths the earlier fall wins.
+ * `undefined` when the index never stood below a prior high. The dates' NAVs ride along
+ * as they stood, so across a flow they no longer divide to the percentage.
+ */
+function deepestDrawdown(indexed: IndexedPoint[]): NavDrawdown | undefined {
+  let runningPeak = indexed[0] as IndexedPoint;
+  let deepest: { peak: IndexedPoint; trough: IndexedPoint; pct: number } | undefined;
+  for (const entry of indexed) {
+    if (entry.index > runningPeak.index) {
+      runningPeak = entry;
+      continue;
+    }
+    if (runningPeak.index <= 0) continue;
+    const pct = (entry.index / runningPeak.index - 1) * 100;
+    if (pct < 0 && (deepest === undefined || pct < deepest.pct)) {
+      deepest = { peak: runningPeak, trough: entry, pct };
+    }
+  }
+  if (!deepest) {
+    return undefined;
+  }
+  const { peak, trough, pct } = deepest;
+  const recovery = indexed.find(
+    (entry) => entry.point.asOf > trough.point.asOf && entry.index >= peak.index,
+  );
+  return {
+    peakDate: peak.point.asOf,
+    peakValueUsd: peak.point.fundValueUsd,
+    troughDate: trough.point.asOf,
+    troughValueUsd: trough.point.fundValueUsd,
+    maxDrawdownPct: pct,
+    ...(recovery
+      ? {
+          recoveryDate: recovery.point.asOf,
+          recoveryDays: daysBetween(trough.point.asOf, recovery.point.asOf),
+        }
+      : {}),
+  };
+}
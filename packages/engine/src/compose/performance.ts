@@ -0,0 +1,359 @@
+// Compose concern — performance. Time-weighted (TWR) and money-weighted (IRR) returns
+// for the Fund, each Tempo and each Portfolio, measured by re-folding the log at a set
+// of anchor dates and valuing each fold through the same `buildCompositionReport` NAV
+// the dashboard shows. The one thing a return needs beyond those values is which part
+// of each change was capital ARRIVING rather than capital EARNING, and that is read off
+// the events between anchors — a `Deposit` is not a gain. Pure: no IO, no clock.
+import type {
+  Currency,
+  FundReviewData,
+  FxTable,
+  PerformanceReport,
+  PerformanceSeries,
+  Warning,
+} from "../contracts.js";
+import { daysBetween } from "../calendar.js";
+import { foldEvents } from "../events/fold.js";
+import type { PortfolioEvent } from "../events/types.js";
+import { usdRateOf } from "../fx.js";
+import { pushWarning, toUsd } from "../internal.js";
+import { buildCompositionReport } from "./report.js";
+
+export interface ComposePerformanceOptions {
+  /** The window's last date. Defaults to the latest event date (or the genesis date). */
+  asOf?: string;
+  /**
+   * Extra valuation dates inside the window. Every date carrying an external flow is
+   * added regardless, so TWR stays exact whatever is passed; with none given, every
+   * event date is an anchor.
+   */
+  anchors?: string[];
+}
+
+/** Where a Reserve or Position files for the per-Tempo and per-Portfolio series. */
+interface SeriesKeys {
+  tempo: string;
+  portfolioId: string;
+  currency: Currency;
+}
+
+/** One boundary crossing: `amountUsd` entering (+) or leaving (−) the keyed capital. */
+interface Flow {
+  asOf: string;
+  fund: number;
+  legs: Array<{ keys: SeriesKeys; amountUsd: number }>;
+}
+
+/**
+ * Compose TWR and IRR from the genesis seed to `asOf`. The window opens at
+ * `genesis.review.asOf`, so an event dated that day is already in the opening value
+ * and is not counted as a flow.
+ *
+ * THE FLOW CONVENTION IS END OF DAY: a flow dated on an anchor is in that anchor's
+ * value but earned nothing during the sub-period, so each sub-period return is
+ * `(V_end − flows) / V_start − 1`. A series with no opening value (a Tempo that does not
+ * exist yet) contributes a flat sub-period rather than a division by zero.
+ *
+ * A Tempo or Portfolio is measured against its own boundary, so cash moving between
+ * siblings is a flow for both of them and nothing for the Fund: funding an open debits
+ * the Reserve's series and credits the Position's, and a close's settlement goes back
+ * the other way. Position-tied income and costs are the position's return, passed to
+ * the Reserve's series as a flow. Events the fold discarded move nothing and count for
+ * nothing here either.
+ */
+export function composePerformance(
+  genesis: FundReviewData,
+  events: PortfolioEvent[],
+  options: ComposePerformanceOptions = {},
+): PerformanceReport {
+  const from = genesis.review.asOf;
+  const to =
+    options.asOf ??
+    events.reduce((latest, event) => (event.asOf > latest ? event.asOf : latest), from);
+  if (to < from) {
+    throw new Error(
+      `Cannot compose performance to ${to}: it precedes the genesis seed date ${from}.`,
+    );
+  }
+
+  const warnings: Warning[] = [];
+  const flows = externalFlows(genesis, events, from, to, warnings);
+  const dates = new Set<string>(options.anchors ?? events.map((event) => event.asOf));
+  for (const flow of flows) {
+    dates.add(flow.asOf);
+  }
+  dates.add(to);
+  const anchors = [from, ...[...dates].filter((date) => date > from && date <= to).sort()];
+
+  // One fold and one valuation per anchor, keyed by series.
+  const labels = new Map<string, string>();
+  const valuations = anchors.map((anchor) => {
+    const report = buildCompositionReport(foldEvents(genesis, events, anchor).data);
+    const values = new Map<string, number>([["fund", report.totals.fundValueUsd]]);
+    for (const section of report.dashboard.sections) {
+      if (section.id !== "tempos" && section.id !== "portfolios") continue;
+      for (const row of section.rows) {
+        values.set(row.id, row.usdValue);
+        labels.set(row.id, row.label);
+      }
+    }
+    return values;
+  });
+
+  // Flows bucketed onto the first anchor on or after their date, per series.
+  const flowsByAnchor = anchors.map(() => new Map<string, number>());
+  for (const flow of flows) {
+    const index = anchors.findIndex((anchor) => anchor >= flow.asOf);
+    const bucket = flowsByAnchor[index] as Map<string, number>;
+    const add = (key: string, amountUsd: number): void => {
+      bucket.set(key, (bucket.get(key) ?? 0) + amountUsd);
+    };
+    if (flow.fund !== 0) add("fund", flow.fund);
+    for (const leg of flow.legs) {
+      add(`tempo:${leg.keys.tempo}`, leg.amountUsd);
+      add(`portfolio:${leg.keys.portfolioId}`, leg.amountUsd);
+    }
+  }
+
+  const series = (key: string, label: string): PerformanceSeries => {
+    const value = (index: number): number => valuations[index]?.get(key) ?? 0;
+    const flowAt = (index: number): number => flowsByAnchor[index]?.get(key) ?? 0;
+    let growth = 1;
+    let netFlowsUsd = 0;
+    const cashFlows: Array<{ asOf: string; amountUsd: number }> = [
+      { asOf: from, amountUsd: -value(0) },
+    ];
+    for (let index = 1; index < anchors.length; index += 1) {
+      const start = value(index - 1);
+      const flow = flowAt(index);
+      if (start > 0) {
+        growth *= (value(index) - flow) / start;
+      }
+      netFlowsUsd += flow;
+      if (flow !== 0) {
+        cashFlows.push({ asOf: anchors[index] as string, amountUsd: -flow });
+      }
+    }
+    const endValueUsd = value(anchors.length - 1);
+    cashFlows.push({ asOf: to, amountUsd: endValueUsd });
+    const irr = solveIrr(cashFlows, from);
+    return {
+      key,
+      label,
+      startValueUsd: value(0),
+      endValueUsd,
+      netFlowsUsd,
+      twr: growth - 1,
+      ...(irr !== undefined ? { irr } : {}),
+    };
+  };
+
+  const keysOf = (prefix: string): string[] => {
+    const keys = new Set<string>();
+    for (const values of valuations) {
+      for (const key of values.keys()) if (key.startsWith(prefix)) keys.add(key);
+    }
+    for (const bucket of flowsByAnchor) {
+      for (const key of bucket.keys()) if (key.startsWith(prefix)) keys.add(key);
+    }
+    return [...keys].sort();
+  };
+  const portfolioNames = new Map(genesis.portfolios.map((portfolio) => [portfolio.id, portfolio.name]));
+  return {
+    from,
+    to,
+    anchors,
+    fund: series("fund", genesis.fund.name),
+    byTempo: keysOf("tempo:").map((key) => series(key, labels.get(key) ?? key.slice(6))),
+    byPortfolio: keysOf("portfolio:").map((key) =>
+      series(key, labels.get(key) ?? portfolioNames.get(key.slice(10)) ?? key.slice(10)),
+    ),
+    ...(warnings.length > 0 ? { warnings } : {}),
+  };
+}
+
+/**
+ * Every boundary crossing in `(from, to]`, in USD at the FX in force on the event,
+ * walked in the fold's own (`asOf`, then log index) order so the rate is the one the
+ * fold applied. A Reserve or Position's keys come from genesis or from the event that
+ * minted it. A crossing in a currency with no rate in force is left out and WARNED, the
+ * way composition excludes a record in one: ingest only checks the rates an event
+ * itself converts, and a Deposit into a Reserve seeded in such a currency converts none.
+ * Exported for `buildNavHistory`, whose drawdown strips the same Fund-level flows.
+ */
+export function externalFlows(
+  genesis: FundReviewData,
+  events: PortfolioEvent[],
+  from: string,
+  to: string,
+  warnings: Warning[],
+): Flow[] {
+  const discarded = new Set(foldEvents(genesis, events, to).skipped.map((skip) => skip.eventId));
+  const reserves = new Map<string, SeriesKeys>(
+    genesis.reserves.map((reserve) => [reserve.id, reserve]),
+  );
+  const positions = new Map<string, SeriesKeys>(
+    genesis.positions.map((position) => [position.id, position]),
+  );
+  const rates: { usdMxn: number; fx: FxTable } = {
+    usdMxn: genesis.review.usdMxn,
+    fx: { ...genesis.review.fx },
+  };
+  const flows: Flow[] = [];
+
+  const ordered = events
+    .map((event, order) => ({ event, order }))
+    .filter(({ event }) => event.asOf <= to)
+    .sort((a, b) =>
+      a.event.asOf === b.event.asOf ? a.order - b.order : a.event.asOf < b.event.asOf ? -1 : 1,
+    );
+  for (const { event } of ordered) {
+    // Registration runs for every event, counted or not: an open dated on the genesis
+    // day is in the opening value, and its later close still needs its keys.
+    if (event.type === "ReserveOpened") {
+      reserves.set(event.reserve.id, event.reserve);
+    } else if (event.type === "PositionOpened") {
+      positions.set(event.position.id, event.position);
+    } else if (event.type === "PriceMarked" && event.usdMxn !== undefined) {
+      rates.usdMxn = event.usdMxn;
+    } else if (event.type === "FxMarked") {
+      if (event.currency === "MXN") rates.usdMxn = event.rate;
+      else rates.fx[event.currency] = event.rate;
+    }
+    if (event.asOf <= from || discarded.has(event.id)) continue;
+
+    // `amount` (native, in `reserveId`'s currency) leaving `source` and entering `sink`;
+    // `fund` is the part that crossed the Fund's own boundary.
+    const record = (
+      reserveId: string,
+      amount: number,
+      source: SeriesKeys | undefined,
+      sink: SeriesKeys | undefined,
+      fund = 0,
+    ): void => {
+      const currency = reserves.get(reserveId)?.currency ?? "USD";
+      if (usdRateOf(currency, rates) === undefined) {
+        pushWarning(
+          warnings,
+          "unsupported-currency",
+          `${event.type} ${event.id} moves ${amount} ${currency}, which the review carries no ` +
+            `FX rate for, and was left out of the performance flows.`,
+          reserveId,
+        );
+        return;
+      }
+      const amountUsd = toUsd(amount, currency, rates);
+      const legs: Flow["legs"] = [];
+      if (source) legs.push({ keys: source, amountUsd: -amountUsd });
+      if (sink) legs.push({ keys: sink, amountUsd });
+      flows.push({ asOf: event.asOf, fund: fund * amountUsd, legs });
+    };
+    switch (event.type) {
+      case "Deposit":
+        record(event.reserveId, event.amount, undefined, reserves.get(event.reserveId), 1);
+        break;
+      case "Withdraw":
+        record(event.reserveId, event.amount, reserves.get(event.reserveId), undefined, -1);
+        break;
+      case "Transfer":
+        record(
+          event.fromReserveId,
+          event.amount,
+          reserves.get(event.fromReserveId),
+          reserves.get(event.toReserveId),
+        );
+        break;
+      case "PositionOpened":
+        record(
+          event.funding.reserveId,
+          event.funding.amount,
+          reserves.get(event.funding.reserveId),
+          positions.get(event.position.id),
+        );
+        break;
+      case "PositionAddedTo":
+        record(
+          event.funding.reserveId,
+          event.funding.amount,
+          reserves.get(event.funding.reserveId),
+          positions.get(event.positionId),
+        );
+        break;
+      case "PositionClosed":
+      case "PositionTrimmed":
+        record(
+          event.settlement.reserveId,
+          event.settlement.proceeds,
+          positions.get(event.positionId),
+          reserves.get(event.settlement.reserveId),
+        );
+        break;
+      case "IncomeReceived":
+      case "CostCharged":
+        // Reserve-tied income is the Reserve's own return; only a position-tied flow
+        // crosses from the position's series into the Reserve's.
+        if (event.positionId !== undefined) {
+          const sign = event.type === "IncomeReceived" ? 1 : -1;
+          record(
+            event.reserveId,
+            sign * event.amount,
+            positions.get(event.positionId),
+            reserves.get(event.reserveId),
+          );
+        }
+        break;
+      case "PriceMarked":
+      case "FxMarked":
+      case "InvalidationMarked":
+      case "DecisionRevised":
+      case "ReserveOpened":
+        break;
+      default: {
+        // Exhaustiveness latch, as in the fold: a new verb must say whether it moves
+        // capital across a series boundary, or the returns silently count it as gain.
+        const _never: never = event;
+        void _never;
+        break;
+      }
+    }
+  }
+  // Moves inside one Tempo or Portfolio cancel when bucketed; nothing more to strip.
+  return flows;
+}
+
+/**
+ * The annualized rate at which the dated cash flows net to zero, by bisection over
+ * (−99.99%, +100000%). `undefined` when the window has no length or the flows never
+ * change sign, since no rate then exists.
+ */
+function solveIrr(
+  cashFlows: Array<{ asOf: string; amountUsd: number }>,
+  from: string,
+): number | undefined {
+  const timed = cashFlows.map((flow) => ({
+    years: daysBetween(from, flow.asOf) / 365,
+    amountUsd: flow.amountUsd,
+  }));
+  if (!timed.some((flow) => flow.years > 0)) return undefined;
+  if (!timed.some((flow) => flow.amountUsd > 0) || !timed.some((flow) => flow.amountUsd < 0)) {
+    return undefined;
+  }
+  const npv = (rate: number): number =>
+    timed.reduce((sum, flow) => sum + flow.amountUsd / (1 + rate) ** flow.years, 0);
+  let low = -0.9999;
+  let high = 1000;
+  let lowValue = npv(low);
+  if (Math.sign(lowValue) === Math.sign(npv(high))) return undefined;
+  for (let iteration = 0; iteration < 200; iteration += 1) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid);
+    if (Math.abs(midValue) < 1e-9 || high - low < 1e-12) return mid;
+    if (Math.sign(midValue) === Math.sign(lowValue)) {
+      low = mid;
+      lowValue = midValue;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
@@ -0,0 +1,115 @@
+// Compose concern — Perspectives. Applies one saved lens to a fold: rebuilds the shared
+// canonical line set (`./canonical.ts`) at the Execution Modes the lens admits, keeps
+// the lines its filter admits, and groups, sorts and lays them out. A lens owns no
+// capital, so every share is taken of the composition report's own live Fund value —
+// never of the lens's subtotal. Pure, and changes no figure the report carries.
+import type { CompositionReport, FundReviewData } from "../contracts.js";
+import { percentOfFund } from "../internal.js";
+import {
+  DEFAULT_PERSPECTIVE_COLUMNS,
+  type Perspective,
+  type PerspectiveGroupBy,
+  type PerspectiveRow,
+  type PerspectiveView,
+} from "../perspectives.js";
+import type { CanonicalLine } from "./canonical.js";
+import { buildCanonicalState } from "./canonical.js";
+
+/** The label a `strategy` row carries for records with no strategy tag (cash included). */
+const UNASSIGNED_STRATEGY = "Unassigned";
+
+export function applyPerspective(
+  data: FundReviewData,
+  report: CompositionReport,
+  perspective: Perspective,
+): PerspectiveView {
+  const { filter } = perspective;
+  const { canonicalLines } = buildCanonicalState(data, filter.executionModes ?? ["live"]);
+  const admitted = canonicalLines.filter(
+    (line) =>
+      (filter.tempos === undefined || filter.tempos.includes(line.tempoId)) &&
+      (filter.portfolioIds === undefined || filter.portfolioIds.includes(line.portfolioId)) &&
+      (filter.strategies === undefined ||
+        (line.strategy !== undefined && filter.strategies.includes(line.strategy))),
+  );
+
+  const fundValueUsd = report.totals.fundValueUsd;
+  const groups = new Map<
+    string,
+    { label: string; usdValue: number; costBasisUsd?: number; unrealizedPnlUsd?: number; records: number }
+  >();
+  for (const line of admitted) {
+    const { id, label } = groupOf(line, perspective.groupBy);
+    const key = `${perspective.groupBy}:${id}`;
+    const group = groups.get(key) ?? { label, usdValue: 0, records: 0 };
+    group.usdValue += line.usdValue;
+    group.records += 1;
+    if (line.costBasisUsd !== undefined) {
+      group.costBasisUsd = (group.costBasisUsd ?? 0) + line.costBasisUsd;
+    }
+    if (line.unrealizedPnlUsd !== undefined) {
+      group.unrealizedPnlUsd = (group.unrealizedPnlUsd ?? 0) + line.unrealizedPnlUsd;
+    }
+    groups.set(key, group);
+  }
+
+  const rows: PerspectiveRow[] = [...groups.entries()].map(([key, group]) => ({
+    key,
+    label: group.label,
+    usdValue: group.usdValue,
+    percentOfFund: percentOfFund(group.usdValue, fundValueUsd),
+    ...(group.costBasisUsd !== undefined ? { costBasisUsd: group.costBasisUsd } : {}),
+    ...(group.unrealizedPnlUsd !== undefined ? { unrealizedPnlUsd: group.unrealizedPnlUsd } : {}),
+    records: group.records,
+  }));
+  rows.sort(rowOrder(perspective));
+
+  const totalUsd = admitted.reduce((sum, line) => sum + line.usdValue, 0);
+  return {
+    name: perspective.name,
+    ...(perspective.description !== undefined ? { description: perspective.description } : {}),
+    groupBy: perspective.groupBy,
+    columns: perspective.columns ?? [...DEFAULT_PERSPECTIVE_COLUMNS],
+    rows,
+    totalUsd,
+    percentOfFund: percentOfFund(totalUsd, fundValueUsd),
+    records: admitted.length,
+  };
+}
+
+function groupOf(line: CanonicalLine, groupBy: PerspectiveGroupBy): { id: string; label: string } {
+  switch (groupBy) {
+    case "portfolio":
+      return { id: line.portfolioId, label: line.portfolioLabel };
+    case "tempo":
+      return { id: line.tempoId, label: line.tempoLabel };
+    case "account":
+      return { id: line.accountId, label: line.accountLabel };
+    case "instrument":
+      return { id: line.instrumentId, label: line.instrumentLabel };
+    case "strategy":
+      return { id: line.strategy ?? "", label: line.strategy ?? UNASSIGNED_STRATEGY };
+    case "executionMode":
+      return { id: line.executionMode, label: line.executionMode };
+  }
+}
+
+/**
+ * The lens's sort, ties broken by label. With no sort it is the dashboard's own order —
+ * largest absolute value first — so a lens that only filters reads like the section it
+ * narrows.
+ */
+function rowOrder(perspective: Perspective): (a: PerspectiveRow, b: PerspectiveRow) => number {
+  const sort = perspective.sort;
+  if (sort === undefined) {
+    return (a, b) => Math.abs(b.usdValue) - Math.abs(a.usdValue) || a.label.localeCompare(b.label);
+  }
+  const sign = sort.direction === "asc" ? 1 : -1;
+  return (a, b) => {
+    const primary =
+      sort.by === "label"
+        ? a.label.localeCompare(b.label)
+        : (a[sort.by] ?? 0) - (b[sort.by] ?? 0);
+    return sign * primary || a.label.localeCompare(b.label);
+  };
+}
@@ -0,0 +1,150 @@
+// Compose concern — the period-over-period diff. Compares two finished composition
+// reports row by row: which rows appeared or disappeared in each dashboard section and
+// how far each moved in value and in share of the Fund, which closed-book rows were
+// booked in between, which invalidation levels were newly crossed, and which Reserve
+// balances changed. It re-folds nothing and reads no log, so it answers exactly what
+// the two reports showed. Pure: no IO, no clock.
+import type {
+  ClosedPositionRecord,
+  CompositionReport,
+  CompositionReportDiff,
+  CompositionRow,
+  CompositionRowChange,
+  CompositionSectionDiff,
+  ReserveBalanceChange,
+} from "../contracts.js";
+
+/**
+ * Below this a value (USD or native) or a share (percentage points) has not moved: half
+ * of the smallest step the report renders, so a difference too small to print is not
+ * listed as a change.
+ */
+const MOVE_EPSILON = 0.005;
+
+function moved(change: number): boolean {
+  return Math.abs(change) >= MOVE_EPSILON;
+}
+
+/** Rows matched by id; the later report's order, then rows only the earlier one had. */
+function diffRows(
+  before: readonly CompositionRow[],
+  after: readonly CompositionRow[],
+): CompositionRowChange[] {
+  const earlier = new Map(before.map((row) => [row.id, row]));
+  const later = new Map(after.map((row) => [row.id, row]));
+  const ids = [...new Set([...after.map((row) => row.id), ...before.map((row) => row.id)])];
+  const changes: CompositionRowChange[] = [];
+  for (const id of ids) {
+    const a = earlier.get(id);
+    const b = later.get(id);
+    const row = (b ?? a) as CompositionRow;
+    const changeUsd = (b?.usdValue ?? 0) - (a?.usdValue ?? 0);
+    const percentOfFundChange = (b?.percentOfFund ?? 0) - (a?.percentOfFund ?? 0);
+    const status = a === undefined ? "added" : b === undefined ? "removed" : "changed";
+    if (status === "changed" && !moved(changeUsd) && !moved(percentOfFundChange)) {
+      continue;
+    }
+    changes.push({
+      id,
+      kind: row.kind,
+      label: row.label,
+      status,
+      ...(a ? { fromUsd: a.usdValue, fromPercentOfFund: a.percentOfFund } : {}),
+      ...(b ? { toUsd: b.usdValue, toPercentOfFund: b.percentOfFund } : {}),
+      changeUsd,
+      percentOfFundChange,
+    });
+  }
+  return changes;
+}
+
+/**
+ * The closed-book rows `after` holds beyond `before`. A row has no id of its own — a
+ * trimmed position books several under one `positionId` — so rows are matched as a
+ * multiset on position and close date, and each earlier row cancels one later twin.
+ */
+function newClosedBookRows(
+  before: readonly ClosedPositionRecord[],
+  after: readonly ClosedPositionRecord[],
+): ClosedPositionRecord[] {
+  const key = (row: ClosedPositionRecord) => `${row.positionId}\u0000${row.closedAsOf}`;
+  const remaining = new Map<string, number>();
+  for (const row of before) {
+    remaining.set(key(row), (remaining.get(key(row)) ?? 0) + 1);
+  }
+  return after.filter((row) => {
+    const count = remaining.get(key(row)) ?? 0;
+    if (count > 0) {
+      remaining.set(key(row), count - 1);
+      return false;
+    }
+    return true;
+  });
+}
+
+function diffReserves(before: CompositionReport, after: CompositionReport): ReserveBalanceChange[] {
+  const earlier = new Map(before.reserveReconciliation.map((line) => [line.reserveId, line]));
+  const later = new Map(after.reserveReconciliation.map((line) => [line.reserveId, line]));
+  const ids = [...new Set([...later.keys(), ...earlier.keys()])];
+  const changes: ReserveBalanceChange[] = [];
+  for (const reserveId of ids) {
+    const a = earlier.get(reserveId);
+    const b = later.get(reserveId);
+    const line = (b ?? a) as NonNullable<typeof a>;
+    const changeBalance = (b?.balance ?? 0) - (a?.balance ?? 0);
+    const changeUsd = (b?.usdValue ?? 0) - (a?.usdValue ?? 0);
+    if (a && b && !moved(changeBalance) && !moved(changeUsd)) {
+      continue;
+    }
+    changes.push({
+      reserveId,
+      venueLabel: line.venueLabel,
+      currency: line.currency,
+      ...(a ? { fromBalance: a.balance } : {}),
+      ...(b ? { toBalance: b.balance } : {}),
+      changeBalance,
+      changeUsd,
+    });
+  }
+  return changes;
+}
+
+/**
+ * Diff two composition reports, `before` the earlier. The dates are the reports' own
+ * review dates. Every section the later report carries is listed, moved rows or none,
+ * so a renderer can say "no change" per section rather than drop the heading.
+ */
+export function diffCompositionReports(
+  before: CompositionReport,
+  after: CompositionReport,
+): CompositionReportDiff {
+  const earlierSections = new Map(before.dashboard.sections.map((section) => [section.id, section]));
+  const sections: CompositionSectionDiff[] = after.dashboard.sections.map((section) => ({
+    id: section.id,
+    title: section.title,
+    rows: diffRows(earlierSections.get(section.id)?.rows ?? [], section.rows),
+  }));
+
+  const breachedBefore = new Set(
+    before.invalidationWatch.filter((row) => row.breached).map((row) => row.positionId),
+  );
+
+  return {
+    from: before.dashboard.summary.asOf,
+    to: after.dashboard.summary.asOf,
+    fundValueUsd: {
+      from: before.totals.fundValueUsd,
+      to: after.totals.fundValueUsd,
+      change: after.totals.fundValueUsd - before.totals.fundValueUsd,
+    },
+    usdMxn: { from: before.totals.usdMxn, to: after.totals.usdMxn },
+    sections,
+    closedBookRows: newClosedBookRows(before.closedBook.rows, after.closedBook.rows),
+    realizedPnlUsdChange:
+      after.closedBook.totalRealizedPnlUsd - before.closedBook.totalRealizedPnlUsd,
+    newlyBreached: after.invalidationWatch.filter(
+      (row) => row.breached && !breachedBefore.has(row.positionId),
+    ),
+    reserves: diffReserves(before, after),
+  };
+}
@@ -11,9 +11,15 @@ import type {
   DashboardFocus,
   DashboardRowKind,
   DashboardSummary,
+  EconomicEntry,
+  EconomicPnl,
+  EconomicRollupRow,
+  ExposureSummary,
   FundReviewData,
   InvalidationWatchRow,
   LoadOutcome,
+  NavHistory,
+  PerformanceReport,
   RealizedRollupRow,
 } from "../contracts.js";
 import { percentOfFund, pushWarning } from "../internal.js";
@@ -23,6 +29,8 @@ import { buildCanonicalState } from "./canonical.js";
 
 interface BuildCompositionReportOptions {
   load?: LoadOutcome;
+  performance?: PerformanceReport;
+  navHistory?: NavHistory;
 }
 
 interface GroupAccumulator {
@@ -89,6 +97,7 @@ export function buildCompositionReport(
       baseCurrency: "USD",
       fundValueUsd,
       usdMxn: data.review.usdMxn,
+      ...(data.review.fx === undefined ? {} : { fx: { ...data.review.fx } }),
     },
     dashboard: {
       summary: {
@@ -108,7 +117,6 @@ export function buildCompositionReport(
         dataSafety: {
           nonLiveExcluded: excluded.nonLive,
           invalidExcluded: excluded.invalid,
-          shortDeferredExcluded: excluded.shortDeferred,
           hasWarnings: warnings.length > 0,
         },
       },
@@ -141,12 +149,15 @@ export function buildCompositionReport(
       ],
     },
     priceJourneys,
-    closedBook: buildClosedBook(data.closedPositions ?? []),
+    closedBook: buildClosedBook(data.closedPositions ?? [], data.economicEntries ?? []),
     invalidationWatch: buildInvalidationWatch(data),
     reserveReconciliation,
+    exposure: buildExposure(canonicalLines),
     warnings,
     excluded,
     load: options.load ?? { status: "loaded" },
+    ...(options.performance ? { performance: options.performance } : {}),
+    ...(options.navHistory ? { navHistory: options.navHistory } : {}),
   };
 }
 
@@ -155,7 +166,10 @@ export function buildCompositionReport(
  * fold's closed book: the rows as-is, plus realized rolled up by Tempo and by Tier.
  * Descriptive only — nothing here is added to NAV.
  */
-function buildClosedBook(rows: ClosedPositionRecord[]): ClosedBook {
+function buildClosedBook(
+  rows: ClosedPositionRecord[],
+  economicEntries: EconomicEntry[],
+): ClosedBook {
   const byTempo = rollup(rows, (row) => [{ key: row.tempo, ...row }]);
   const byTier = rollup(rows, (row) =>
     row.tierAttribution.map((attribution) => ({
@@ -166,7 +180,93 @@ function buildClosedBook(rows: ClosedPositionRecord[]): ClosedBook {
     })),
   );
   const totalRealizedPnlUsd = rows.reduce((sum, row) => sum + row.realizedPnlUsd, 0);
-  return { rows, byTempo, byTier, totalRealizedPnlUsd };
+  const book: ClosedBook = { rows, byTempo, byTier, totalRealizedPnlUsd };
+  // The Price/Trading split appears only once a fill has disclosed its friction, so a
+  // book that never recorded fees keeps exactly the shape (and rendering) it had.
+  if (rows.some((row) => row.tradingCosts)) {
+    const totalTradingCosts = rows.reduce(
+      (sum, row) => ({
+        venueFeeUsd: sum.venueFeeUsd + (row.tradingCosts?.venueFeeUsd ?? 0),
+        slippageUsd: sum.slippageUsd + (row.tradingCosts?.slippageUsd ?? 0),
+      }),
+      { venueFeeUsd: 0, slippageUsd: 0 },
+    );
+    book.totalTradingCosts = totalTradingCosts;
+    book.totalPricePnlUsd =
+      totalRealizedPnlUsd + totalTradingCosts.venueFeeUsd + totalTradingCosts.slippageUsd;
+  }
+  // Economic P&L appears only once the log carries income or a carry cost, for the same
+  // reason: a book without any keeps its shape.
+  if (economicEntries.length > 0) {
+    book.economic = buildEconomicPnl(byTempo, byTier, economicEntries, totalRealizedPnlUsd);
+  }
+  return book;
+}
+
+/**
+ * Lay the income and carry-cost entries over the realized rollups, keyed the same way:
+ * an entry files under its Tempo, and its tier attribution under each Tier. A key with
+ * flows but no closed trade still gets a line, at zero realized.
+ */
+function buildEconomicPnl(
+  realizedByTempo: RealizedRollupRow[],
+  realizedByTier: RealizedRollupRow[],
+  entries: EconomicEntry[],
+  totalRealizedPnlUsd: number,
+): EconomicPnl {
+  const overlay = (
+    realized: RealizedRollupRow[],
+    explode: (entry: EconomicEntry) => Array<{ key: string; amountUsd: number }>,
+  ): EconomicRollupRow[] => {
+    const groups = new Map<string, EconomicRollupRow>();
+    const row = (key: string): EconomicRollupRow => {
+      const existing = groups.get(key) ?? {
+        key,
+        realizedPnlUsd: 0,
+        incomeUsd: 0,
+        costsUsd: 0,
+        economicPnlUsd: 0,
+      };
+      groups.set(key, existing);
+      return existing;
+    };
+    for (const line of realized) {
+      row(line.key).realizedPnlUsd += line.realizedPnlUsd;
+    }
+    for (const entry of entries) {
+      for (const part of explode(entry)) {
+        if (part.amountUsd >= 0) {
+          row(part.key).incomeUsd += part.amountUsd;
+        } else {
+          row(part.key).costsUsd -= part.amountUsd;
+        }
+      }
+    }
+    for (const line of groups.values()) {
+      line.economicPnlUsd = line.realizedPnlUsd + line.incomeUsd - line.costsUsd;
+    }
+    return [...groups.values()].sort(
+      (a, b) =>
+        Math.abs(b.economicPnlUsd) - Math.abs(a.economicPnlUsd) || a.key.localeCompare(b.key),
+    );
+  };
+  const totalIncomeUsd = entries
+    .filter((entry) => entry.flow === "income")
+    .reduce((sum, entry) => sum + entry.amountUsd, 0);
+  const totalCostsUsd = -entries
+    .filter((entry) => entry.flow === "cost")
+    .reduce((sum, entry) => sum + entry.amountUsd, 0);
+  return {
+    entries,
+    byTempo: overlay(realizedByTempo, (entry) => [{ key: entry.tempo, amountUsd: entry.amountUsd }]),
+    byTier: overlay(realizedByTier, (entry) =>
+      entry.tierAttribution.map((part) => ({ key: part.tier, amountUsd: part.amountUsd })),
+    ),
+    totalRealizedPnlUsd,
+    totalIncomeUsd,
+    totalCostsUsd,
+    totalEconomicPnlUsd: totalRealizedPnlUsd + totalIncomeUsd - totalCostsUsd,
+  };
 }
 
 /** Group closed-book contributions by a `key`, summing the three money columns.
@@ -197,6 +297,25 @@ function rollup(
   );
 }
 
+/**
+ * Sum the canonical position lines' signed exposure by side. Reads the same admitted
+ * line set as NAV, so an excluded position carries no exposure either; Reserve lines
+ * have none and are skipped.
+ */
+function buildExposure(lines: CanonicalLine[]): ExposureSummary {
+  let longUsd = 0;
+  let shortUsd = 0;
+  for (const line of lines) {
+    if (line.exposureUsd === undefined) continue;
+    if (line.direction === "short") {
+      shortUsd += line.exposureUsd;
+    } else {
+      longUsd += line.exposureUsd;
+    }
+  }
+  return { longUsd, shortUsd, netUsd: longUsd + shortUsd };
+}
+
 /**
  * Derive breach for every OPEN position
  * carrying a structured invalidation level: a `below` level breaches when the mark
@@ -11,7 +11,24 @@
  * package.
  */
 
-export type Currency = "USD" | "MXN";
+/**
+ * The currencies the Fund can hold, declared ONCE as a value for the reason
+ * {@link CAPITAL_TIERS} is: every loader tests an untrusted string from a file against
+ * it. USD is the base; every other member is converted through its rate on the review
+ * ({@link FxTable}), and a record in a member the review carries no rate for is
+ * excluded from composition exactly as an unknown code is.
+ */
+export const CURRENCIES = ["USD", "MXN", "EUR", "GBP", "CAD", "CHF", "JPY"] as const;
+
+export type Currency = (typeof CURRENCIES)[number];
+
+/**
+ * The review's rates for every currency BEYOND USD and MXN: units of that currency
+ * per one USD, the direction `usdMxn` has always been quoted in. MXN is not a key —
+ * its rate stays on `review.usdMxn`, where every genesis, mark and report already
+ * carries it. Updated by `FxMarked`, latest-wins per currency.
+ */
+export type FxTable = Partial<Record<Exclude<Currency, "USD" | "MXN">, number>>;
 export type ExecutionMode = "live" | "paper" | "back-test" | "forward-test";
 export type Direction = "long" | "short";
 /**
@@ -53,7 +70,11 @@ export interface Lot {
  */
 export interface PositionLot extends Lot {
   cost: number;
-  /** MXN-per-USD rate at acquisition; cost basis converts at this rate. */
+  /**
+   * The position currency's rate at acquisition — units of it per USD, MXN-per-USD for
+   * an MXN lot, EUR-per-USD for a EUR one. Cost basis converts at this rate; absent,
+   * at the review's rate for the currency. Ignored on a USD lot.
+   */
   entryFx?: number;
 }
 
@@ -66,6 +87,8 @@ export interface FundReviewData {
   review: {
     asOf: string;
     usdMxn: number;
+    /** Rates for the currencies beyond USD/MXN; absent when the Fund holds none. */
+    fx?: FxTable;
   };
   portfolios: NamedRecord[];
   accounts: Array<NamedRecord & { platform: string; currency: Currency }>;
@@ -82,6 +105,39 @@ export interface FundReviewData {
    * emits a third output beyond open positions + reserves).
    */
   closedPositions?: ClosedPositionRecord[];
+  /**
+   * Income and carry costs applied by `IncomeReceived`/`CostCharged`, in application
+   * order. Absent until the log carries one, so a fold without them keeps its shape.
+   */
+  economicEntries?: EconomicEntry[];
+}
+
+/**
+ * What an `IncomeReceived` event was paid for. `funding` is a perpetual's funding
+ * payment RECEIVED; paid funding is a {@link CostKind}.
+ */
+export type IncomeKind = "dividend" | "staking" | "interest" | "funding";
+
+/** What a `CostCharged` event was charged for — the carry of holding, not a fill. */
+export type CostKind = "funding" | "borrow" | "interest";
+
+/**
+ * One income or carry-cost flow the fold applied to a Reserve. `amountUsd` is signed —
+ * positive for income, negative for a cost — at the FX in force on the event, and
+ * `tierAttribution` splits it the way the cash leg split the Reserve credit or debit.
+ * `tempo` is the tied position's, else the Reserve's, so the rollup can file it beside
+ * realized P&L.
+ */
+export interface EconomicEntry {
+  eventId: string;
+  asOf: string;
+  flow: "income" | "cost";
+  kind: IncomeKind | CostKind;
+  reserveId: string;
+  positionId?: string;
+  tempo: string;
+  amountUsd: number;
+  tierAttribution: Array<{ tier: CapitalTier; amountUsd: number }>;
 }
 
 /**
@@ -166,11 +222,22 @@ export interface RealizedTierAttribution {
   realizedPnlUsd: number;
 }
 
+/**
+ * Trading friction in USD, attributed to one closed-book row or summed over the
+ * book: venue fees plus slippage against the intended price. Slippage is signed —
+ * positive is a cost, negative is price improvement.
+ */
+export interface TradingCosts {
+  venueFeeUsd: number;
+  slippageUsd: number;
+}
+
 /**
  * One finished trade on the closed book —
  * the blotter row the fold computes at `PositionClosed` instead of dropping the
- * position. Realized Trading P&L = `proceedsUsd − costBasisUsd` (one blended number;
- * FX gain/loss is baked in per ADR-002's FX-P&L deferral). Tagged with the closed
+ * position. Realized Trading P&L = `proceedsUsd − costBasisUsd`, after friction; where
+ * the fills disclosed fees, Price P&L is carried beside it (`pricePnlUsd`). FX
+ * gain/loss is baked into both per ADR-002's FX-P&L deferral. Tagged with the closed
  * position's tempo / strategy / instrument and its open + close dates so the blotter
  * can roll realized up by Tempo and by Tier. `strategy`/`openedAsOf` are absent for
  * a genesis-held position closed after genesis (it has no logged open).
@@ -183,10 +250,36 @@ export interface ClosedPositionRecord {
   direction: Direction;
   openedAsOf?: string;
   closedAsOf: string;
+  /**
+   * The decision IN FORCE when this row was booked — the opening `PositionDecision`
+   * with every `DecisionRevised` before the close laid over it. What the closed book
+   * shows to answer "what did I believe when I closed this". Absent for a
+   * genesis-held position nobody revised.
+   */
+  decision?: DecisionInForce;
+  /** The date of the latest `DecisionRevised` folded into {@link decision}, if any. */
+  decisionRevisedAsOf?: string;
   costBasisUsd: number;
   proceedsUsd: number;
+  /**
+   * Trading P&L: `proceedsUsd − costBasisUsd`. The cash legs and lot costs are what
+   * actually moved, fees and slippage inside them, so this is the result AFTER
+   * friction — the Performance Layer the book has always reported.
+   */
   realizedPnlUsd: number;
   tierAttribution: RealizedTierAttribution[];
+  /**
+   * The fees and slippage disclosed on this row's fills: the close-side fill's own
+   * `fees`, plus the open-side friction (`PositionOpened`/`PositionAddedTo`) in
+   * proportion to the native cost basis this row retires. Present only when some fill
+   * on the position disclosed `fees`; absent means "not disclosed", never "zero".
+   */
+  tradingCosts?: TradingCosts;
+  /**
+   * Price P&L: the instrument's move alone, `realizedPnlUsd` with the disclosed
+   * {@link tradingCosts} added back. Present exactly when `tradingCosts` is.
+   */
+  pricePnlUsd?: number;
   /**
    * True when this row is a PARTIAL realized result emitted by a `PositionTrimmed`
    * on the removed portion — the surviving position (same `positionId`) stays open
@@ -219,6 +312,20 @@ export interface InvalidationLevel {
   direction: "below" | "above";
 }
 
+/**
+ * The decision fields a Position is held
+ * under, folded from `PositionOpened` and every later `DecisionRevised` (latest-wins
+ * per field). The read-model twin of the log's `PositionDecision`, every field
+ * optional because a genesis-held position has only what a revision set.
+ */
+export interface DecisionInForce {
+  entryThesis?: string;
+  invalidationCondition?: string;
+  riskBudget?: string;
+  plannedHoldingHorizon?: string;
+  strategy?: string;
+}
+
 /**
  * Close — an immutable periodic price snapshot for one instrument at one anchor.
  * A series of Closes per instrument yields the weekly valuation history.
@@ -269,12 +376,21 @@ export interface PositionRecord extends CapitalRecordBase {
    */
   openedAsOf?: string;
   /**
-   * The strategy tag from the opening
-   * decision, carried through so the closed book can attribute realized P&L per
-   * strategy. Absent for a genesis-held position (no logged decision). The full
-   * decision is durably logged; the fold surfaces only what the read model needs.
+   * The strategy tag from the decision in
+   * force, carried through so the closed book can attribute realized P&L per
+   * strategy. Absent for a genesis-held position (no logged decision) until a
+   * `DecisionRevised` names one.
    */
   strategy?: string;
+  /**
+   * The decision in force: the five
+   * `PositionOpened` decision fields with every `DecisionRevised` laid over them,
+   * latest-wins per field. Complete for a log-opened position; for a genesis-held one
+   * only the fields a revision has set.
+   */
+  decision?: DecisionInForce;
+  /** The date of the latest `DecisionRevised` folded into {@link decision}, if any. */
+  decisionRevisedAsOf?: string;
   /**
    * The latest structured invalidation
    * level from `InvalidationMarked`, if any. The dashboard compares it against
@@ -312,7 +428,7 @@ export interface UnsupportedBaseCurrency {
 export interface InvalidFxRate {
   kind: "invalid-fx-rate";
   severity: "blocking";
-  path: "review.usdMxn";
+  path: "review.usdMxn" | "review.fx" | `review.fx.${string}`;
   value: unknown;
   message: string;
 }
@@ -385,8 +501,7 @@ export type WarningCode =
 
 export type ValidationCode =
   | Exclude<ParseResult["kind"], "ok">
-  | WarningCode
-  | "short-deferred";
+  | WarningCode;
 
 export const validationSeverityByCode: Record<ValidationCode, ValidationSeverity> = {
   "invalid-json": "blocking",
@@ -410,7 +525,6 @@ export const validationSeverityByCode: Record<ValidationCode, ValidationSeverity
   "markprice-close-mismatch": "warning",
   "skipped-close": "warning",
   "non-positive-fund-value": "warning",
-  "short-deferred": "warning",
 };
 
 export interface Warning {
@@ -465,7 +579,6 @@ export interface DashboardSummary {
   dataSafety: {
     nonLiveExcluded: number;
     invalidExcluded: number;
-    shortDeferredExcluded: number;
     hasWarnings: boolean;
   };
 }
@@ -533,6 +646,39 @@ export interface ClosedBook {
   byTempo: RealizedRollupRow[];
   byTier: RealizedRollupRow[];
   totalRealizedPnlUsd: number;
+  /**
+   * Price P&L and the friction between it and {@link totalRealizedPnlUsd}, summed over
+   * every row. Present only when at least one row disclosed trading costs; a row
+   * without them contributes its realized figure to the Price P&L total unchanged.
+   */
+  totalPricePnlUsd?: number;
+  totalTradingCosts?: TradingCosts;
+  /**
+   * Economic P&L: realized Trading P&L plus income minus carry costs, rolled up by the
+   * same Tempo and Tier keys. Present only once the fold applied an income or cost
+   * entry; like the rest of the book it is descriptive and never re-added to NAV.
+   */
+  economic?: EconomicPnl;
+}
+
+/** One Economic P&L rollup line. `costsUsd` is a magnitude; `economicPnlUsd` =
+ * `realizedPnlUsd + incomeUsd − costsUsd`. */
+export interface EconomicRollupRow {
+  key: string;
+  realizedPnlUsd: number;
+  incomeUsd: number;
+  costsUsd: number;
+  economicPnlUsd: number;
+}
+
+export interface EconomicPnl {
+  entries: EconomicEntry[];
+  byTempo: EconomicRollupRow[];
+  byTier: EconomicRollupRow[];
+  totalRealizedPnlUsd: number;
+  totalIncomeUsd: number;
+  totalCostsUsd: number;
+  totalEconomicPnlUsd: number;
 }
 
 /**
@@ -549,11 +695,185 @@ export interface InvalidationWatchRow {
   breached: boolean;
 }
 
+/**
+ * Signed market exposure across the live OPEN positions, in USD. Longs sum into
+ * `longUsd` (≥ 0), shorts into `shortUsd` (≤ 0), and `netUsd` is their sum. This is
+ * NOT NAV: a short contributes its collateral plus open result to `fundValueUsd`,
+ * while here it contributes `−quantity × mark` — how much of the market's move the
+ * Fund carries, and which way.
+ */
+export interface ExposureSummary {
+  longUsd: number;
+  shortUsd: number;
+  netUsd: number;
+}
+
+/**
+ * One return series over the performance window — the Fund, one Tempo, or one
+ * Portfolio. `netFlowsUsd` is the value that crossed the series' boundary from outside
+ * it (net of what left), which the returns exclude: for the Fund that is `Deposit` minus
+ * `Withdraw`; for a Tempo or Portfolio it also counts cash moved to or from its
+ * siblings by a Transfer, a funded open or add, or a close's settlement.
+ *
+ * - `twr` — time-weighted return over the window, chain-linked across the anchors, as
+ *   a fraction (`0.05` is +5%). Blind to when and how much capital arrived.
+ * - `irr` — money-weighted return, ANNUALIZED, as a fraction. Absent when it has no
+ *   solution: a window of zero days, or flows that never change sign.
+ */
+export interface PerformanceSeries {
+  key: string;
+  label: string;
+  startValueUsd: number;
+  endValueUsd: number;
+  netFlowsUsd: number;
+  twr: number;
+  irr?: number;
+}
+
+/**
+ * Time- and money-weighted returns from `from` to `to`, measured by re-folding the log
+ * at every anchor date. `anchors` is the exact date set used, `from` first and `to`
+ * last; every date carrying an external flow is always among them.
+ */
+export interface PerformanceReport {
+  from: string;
+  to: string;
+  anchors: string[];
+  fund: PerformanceSeries;
+  byTempo: PerformanceSeries[];
+  byPortfolio: PerformanceSeries[];
+  /**
+   * A flow left out because its Reserve's currency had no rate on the review in force.
+   * Composition excludes that Reserve from every valuation for the same reason, so the
+   * flow is left out beside it rather than guessed at. Absent when every flow converted.
+   */
+  warnings?: Warning[];
+}
+
+/** One Tempo's share of a NAV point. */
+export interface NavTempoValue {
+  tempo: string;
+  usdValue: number;
+}
+
+/**
+ * The Fund valued on one date: the same `fundValueUsd` the composition report shows for
+ * a fold taken as of `asOf`, split by Tempo. `drawdownPct` is how far the Fund stands
+ * below its running high at or before it, in percent (`-12.5` is 12.5% under the peak;
+ * `0` at a new high), read on the flow-adjusted index {@link NavHistory} describes.
+ */
+export interface NavPoint {
+  asOf: string;
+  fundValueUsd: number;
+  byTempo: NavTempoValue[];
+  drawdownPct: number;
+}
+
+/**
+ * The deepest peak-to-trough fall in a NAV series' flow-adjusted index, with the NAV
+ * that stood on each end. `recoveryDate` is the first date after the trough on which the
+ * index is back to its peak, and `recoveryDays` the calendar days from trough to that
+ * date; both are absent while it has not recovered.
+ */
+export interface NavDrawdown {
+  peakDate: string;
+  peakValueUsd: number;
+  troughDate: string;
+  troughValueUsd: number;
+  maxDrawdownPct: number;
+  recoveryDate?: string;
+  recoveryDays?: number;
+}
+
+/**
+ * A NAV series over the requested dates, each point an independent fold of the log, so
+ * any one of them is reproducible on its own. Peak and drawdown are NOT read on raw NAV:
+ * a `Withdraw` would lower it like a loss and a `Deposit` would set a high nothing
+ * earned. They are read on an index that chains each step's return net of the Fund's
+ * external flows — TWR's own measure (`PerformanceReport`) — and report the NAV that
+ * stood on the dates they name. `peak` is the index's high (the earliest date on a
+ * tie); `maxDrawdown` is absent when the index never fell below a prior high.
+ */
+export interface NavHistory {
+  points: NavPoint[];
+  peak: { asOf: string; fundValueUsd: number };
+  maxDrawdown?: NavDrawdown;
+  /**
+   * A flow left out of the index because its Reserve's currency had no rate in force —
+   * the same exclusion, and the same warning, as {@link PerformanceReport.warnings}.
+   * Absent when every flow converted.
+   */
+  warnings?: Warning[];
+}
+
+/**
+ * One composition row across two reports. `added` rows exist only in the later report
+ * and `removed` rows only in the earlier one; the absent side's fields are omitted, and
+ * its value counts as zero in `changeUsd` and `percentOfFundChange`.
+ */
+export interface CompositionRowChange {
+  id: string;
+  kind: DashboardRowKind;
+  label: string;
+  status: "added" | "removed" | "changed";
+  fromUsd?: number;
+  toUsd?: number;
+  changeUsd: number;
+  fromPercentOfFund?: number;
+  toPercentOfFund?: number;
+  /** Percentage points, later minus earlier. */
+  percentOfFundChange: number;
+}
+
+/** The rows of one dashboard section that moved, in the later report's order. */
+export interface CompositionSectionDiff {
+  id: DashboardSectionId;
+  title: string;
+  rows: CompositionRowChange[];
+}
+
+/** One Reserve whose folded balance moved, or that exists on one side only. */
+export interface ReserveBalanceChange {
+  reserveId: string;
+  venueLabel: string;
+  currency: Currency;
+  fromBalance?: number;
+  toBalance?: number;
+  /** Native units, later minus earlier. */
+  changeBalance: number;
+  changeUsd: number;
+}
+
+/**
+ * What changed between two composition reports — "what moved since last Friday?". A
+ * pure comparison of two finished reports: it re-folds nothing, so it answers exactly
+ * what the two reports showed. Only movement is listed; a row, Reserve or watch line
+ * identical on both sides is left out, and an empty list means nothing moved there.
+ *
+ * - `closedBookRows` — closed-book rows the later report has and the earlier does not,
+ *   backdated ones included: what was booked since, by what the reports show.
+ * - `newlyBreached` — invalidation lines breached in the later report that were not
+ *   breached (or not watched) in the earlier one.
+ */
+export interface CompositionReportDiff {
+  from: string;
+  to: string;
+  fundValueUsd: { from: number; to: number; change: number };
+  usdMxn: { from: number; to: number };
+  sections: CompositionSectionDiff[];
+  closedBookRows: ClosedPositionRecord[];
+  realizedPnlUsdChange: number;
+  newlyBreached: InvalidationWatchRow[];
+  reserves: ReserveBalanceChange[];
+}
+
 export interface CompositionReport {
   totals: {
     baseCurrency: "USD";
     fundValueUsd: number;
     usdMxn: number;
+    /** The review's rates beyond USD/MXN, when it carries any. */
+    fx?: FxTable;
   };
   dashboard: DashboardModel;
   priceJourneys: PriceJourney[];
@@ -574,13 +894,25 @@ export interface CompositionReport {
    * balances (C2). Insertion order preserved.
    */
   reserveReconciliation: ReserveReconciliationLine[];
+  /** Long, short and net exposure of the live open positions. */
+  exposure: ExposureSummary;
   warnings: Warning[];
   excluded: {
     nonLive: number;
     invalid: number;
-    shortDeferred: number;
   };
   load: LoadOutcome;
+  /**
+   * TWR/IRR over the log, present only when the caller composed it
+   * (`composePerformance`) and passed it in. A composition report is one fold and
+   * cannot derive a series on its own.
+   */
+  performance?: PerformanceReport;
+  /**
+   * The NAV series and its drawdown, present only when the caller composed it
+   * (`buildNavHistory`) and passed it in — for the same reason as `performance`.
+   */
+  navHistory?: NavHistory;
 }
 
 export type DetailRecordKind = "reserve" | "position";
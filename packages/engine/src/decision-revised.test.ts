@@ -0,0 +1,213 @@
+// Behavior locks for `DecisionRevised`: parse refuses an empty or misspelled revision,
+// the cross-ref gate takes `InvalidationMarked`'s terms (born, and still open), the fold
+// lays revisions over the opening decision latest-wins per field, and a close freezes
+// the decision in force onto its closed-book row, where the blotter renders it. Reuses
+// the cash-settlement genesis fixture.
+import { describe, expect, it } from "vitest";
+import {
+  buildCompositionReport,
+  buildEventReference,
+  crossReferenceEvent,
+  foldEvents,
+  formatClosedBook,
+  parseEvent,
+  type PortfolioEvent,
+} from "./index.js";
+import { DECISION, genesis } from "./cash-settlement.fixtures.js";
+
+const OPEN_BTC: PortfolioEvent = {
+  id: "open-btc",
+  asOf: "2026-06-02",
+  type: "PositionOpened",
+  position: {
+    id: "btc-pos",
+    portfolioId: "core",
+    tempo: "Liquid",
+    executionMode: "live",
+    accountId: "venue",
+    instrumentId: "btc-usd",
+    direction: "long",
+    currency: "USD",
+    lots: [{ quantity: 1, cost: 300, tier: "c1" }],
+  },
+  decision: DECISION,
+  funding: { reserveId: "tiered", amount: 300 },
+};
+
+const REVISE_THESIS: PortfolioEvent = {
+  id: "revise-thesis",
+  asOf: "2026-06-04",
+  type: "DecisionRevised",
+  positionId: "btc-pos",
+  revision: { entryThesis: "halving supply shock", plannedHoldingHorizon: "months" },
+};
+
+const REVISE_HORIZON: PortfolioEvent = {
+  id: "revise-horizon",
+  asOf: "2026-06-05",
+  type: "DecisionRevised",
+  positionId: "btc-pos",
+  revision: { plannedHoldingHorizon: "quarters", strategy: "cycle" },
+};
+
+const CLOSE_BTC: PortfolioEvent = {
+  id: "close-btc",
+  asOf: "2026-06-08",
+  type: "PositionClosed",
+  positionId: "btc-pos",
+  settlement: { reserveId: "tiered", proceeds: 360 },
+};
+
+describe("DecisionRevised — parse", () => {
+  it("accepts a revision of some fields and trims them", () => {
+    const padded = { ...REVISE_THESIS, revision: { entryThesis: "  halving supply shock " } };
+    expect(parseEvent(padded)).toEqual({
+      kind: "ok",
+      value: { ...REVISE_THESIS, revision: { entryThesis: "halving supply shock" } },
+    });
+  });
+
+  it.each([
+    [{ ...REVISE_THESIS, revision: {} }, "revision"],
+    [{ ...REVISE_THESIS, revision: undefined }, "revision"],
+    [{ ...REVISE_THESIS, revision: { thesis: "typo" } }, "revision.thesis"],
+    [{ ...REVISE_THESIS, revision: { riskBudget: "  " } }, "revision.riskBudget"],
+    [{ ...REVISE_THESIS, positionId: "" }, "positionId"],
+  ])("refuses %j at %s", (input, path) => {
+    const result = parseEvent(input);
+    expect(result.kind).toBe("event-error");
+    if (result.kind === "event-error") {
+      expect(result.path).toBe(path);
+    }
+  });
+});
+
+describe("DecisionRevised — cross-ref", () => {
+  it("admits a revision on an open position, log-born or genesis-held", () => {
+    const reference = buildEventReference(genesis(), [OPEN_BTC]);
+    expect(crossReferenceEvent(REVISE_THESIS, reference).kind).toBe("ok");
+    const held: PortfolioEvent = { ...REVISE_THESIS, positionId: "alt-pos" };
+    expect(crossReferenceEvent(held, reference).kind).toBe("ok");
+  });
+
+  it("refuses a revision dated before the position's birth", () => {
+    const early: PortfolioEvent = { ...REVISE_THESIS, asOf: "2026-06-01" };
+    const result = crossReferenceEvent(early, buildEventReference(genesis(), [OPEN_BTC]));
+    expect(result.kind).toBe("event-error");
+    if (result.kind === "event-error") {
+      expect(result.message).toMatch(/^DecisionRevised references position 'btc-pos'/);
+    }
+  });
+
+  it("refuses a revision on a closed position, even one backdated before the close", () => {
+    const backdated: PortfolioEvent = { ...REVISE_THESIS, asOf: "2026-06-03" };
+    const result = crossReferenceEvent(
+      backdated,
+      buildEventReference(genesis(), [OPEN_BTC, CLOSE_BTC]),
+    );
+    expect(result.kind).toBe("event-error");
+    if (result.kind === "event-error") {
+      expect(result.path).toBe("positionId");
+      expect(result.message).toContain("already closed");
+    }
+  });
+
+  it("keeps a close from sealing behind an accepted revision, and says it moves no cash", () => {
+    const early: PortfolioEvent = { ...CLOSE_BTC, asOf: "2026-06-03" };
+    const result = crossReferenceEvent(
+      early,
+      buildEventReference(genesis(), [OPEN_BTC, REVISE_THESIS]),
+    );
+    expect(result.kind).toBe("event-error");
+    if (result.kind === "event-error") {
+      expect(result.message).toContain("a DecisionRevised dated 2026-06-04 has already been accepted");
+      expect(result.message).toContain("the revision itself, though it moves no cash");
+    }
+  });
+});
+
+describe("DecisionRevised — fold", () => {
+  it("lays revisions over the opening decision, latest-wins per field", () => {
+    const data = foldEvents(genesis(), [OPEN_BTC, REVISE_HORIZON, REVISE_THESIS]).data;
+    const position = data.positions.find((candidate) => candidate.id === "btc-pos");
+
+    // Applied in date order, so the 06-05 horizon outlives the 06-04 one despite the
+    // log order; the untouched fields stand as opened.
+    expect(position?.decision).toEqual({
+      ...DECISION,
+      entryThesis: "halving supply shock",
+      plannedHoldingHorizon: "quarters",
+      strategy: "cycle",
+    });
+    expect(position?.strategy).toBe("cycle");
+    expect(position?.decisionRevisedAsOf).toBe("2026-06-05");
+  });
+
+  it("gives a genesis-held position only the fields a revision set", () => {
+    const held: PortfolioEvent = { ...REVISE_THESIS, positionId: "alt-pos" };
+    const position = foldEvents(genesis(), [held]).data.positions[0];
+    expect(position?.decision).toEqual(REVISE_THESIS.revision);
+    expect(position?.strategy).toBeUndefined();
+  });
+
+  it("moves no capital", () => {
+    const before = foldEvents(genesis(), [OPEN_BTC]).data;
+    const after = foldEvents(genesis(), [OPEN_BTC, REVISE_THESIS]).data;
+    expect(after.reserves).toEqual(before.reserves);
+    expect(after.positions[0]?.lots).toEqual(before.positions[0]?.lots);
+  });
+
+  it("discards a revision whose position the fold has no record of", () => {
+    const stray: PortfolioEvent = { ...REVISE_THESIS, positionId: "ghost" };
+    const { skipped } = foldEvents(genesis(), [stray]);
+    expect(skipped).toMatchObject([{ eventId: "revise-thesis", reason: "position-absent" }]);
+  });
+});
+
+describe("DecisionRevised — the closed book", () => {
+  it("freezes the decision in force onto the closed row", () => {
+    const events = [OPEN_BTC, REVISE_THESIS, REVISE_HORIZON, CLOSE_BTC];
+    const [row] = foldEvents(genesis(), events).data.closedPositions ?? [];
+
+    expect(row).toMatchObject({
+      positionId: "btc-pos",
+      strategy: "cycle",
+      decisionRevisedAsOf: "2026-06-05",
+      decision: {
+        entryThesis: "halving supply shock",
+        invalidationCondition: "invalidation",
+        riskBudget: "1R",
+        plannedHoldingHorizon: "quarters",
+        strategy: "cycle",
+      },
+    });
+  });
+
+  it("renders what was believed at the close, revised or as opened", () => {
+    const revised = buildCompositionReport(
+      foldEvents(genesis(), [OPEN_BTC, REVISE_THESIS, CLOSE_BTC]).data,
+    ).closedBook;
+    const lines = formatClosedBook(revised).split("\n");
+    const heading = lines.indexOf("Decision at close");
+
+    expect(heading).toBeGreaterThan(0);
+    expect(lines.slice(heading + 2, heading + 7)).toEqual([
+      "btc-pos (btc-usd) closed 2026-06-08, as revised 2026-06-04",
+      "  Thesis:       halving supply shock",
+      "  Invalidation: invalidation",
+      "  Risk budget:  1R",
+      "  Horizon:      months",
+    ]);
+
+    const opened = buildCompositionReport(foldEvents(genesis(), [OPEN_BTC, CLOSE_BTC]).data);
+    expect(formatClosedBook(opened.closedBook)).toContain(
+      "btc-pos (btc-usd) closed 2026-06-08, as opened",
+    );
+  });
+
+  it("omits the block for a book of genesis-held closes nobody revised", () => {
+    const close: PortfolioEvent = { ...CLOSE_BTC, positionId: "alt-pos" };
+    const book = buildCompositionReport(foldEvents(genesis(), [close]).data).closedBook;
+    expect(formatClosedBook(book)).not.toContain("Decision at close");
+  });
+});
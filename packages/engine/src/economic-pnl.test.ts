@@ -0,0 +1,202 @@
+// Behavior locks for the Economic P&L verbs, `IncomeReceived` and `CostCharged`: parse
+// enforces the position-or-tier tie, the cross-ref gate checks the targets and a cost's
+// sufficiency, the fold moves the Reserve with the tied position's tier mix (or the
+// named tier) instead of a fake `Deposit`, and the closed book lays income and costs
+// over realized by Tempo and by Tier. Reuses the cash-settlement genesis fixture.
+import { describe, expect, it } from "vitest";
+import {
+  buildCompositionReport,
+  buildEventReference,
+  crossReferenceEvent,
+  foldEvents,
+  formatCompositionReport,
+  formatEconomicPnl,
+  parseEvent,
+  type PortfolioEvent,
+} from "./index.js";
+import { genesis, reserveById, tierQty } from "./cash-settlement.fixtures.js";
+
+/** A 40 staking reward on alt-pos: 25% c1, 75% c2 by the lots' native cost. */
+const STAKING: PortfolioEvent = {
+  id: "stake-alt",
+  asOf: "2026-06-02",
+  type: "IncomeReceived",
+  kind: "staking",
+  reserveId: "tiered",
+  amount: 40,
+  positionId: "alt-pos",
+};
+
+/** Interest on idle cash, tied to the Reserve itself. */
+const INTEREST: PortfolioEvent = {
+  id: "interest-untiered",
+  asOf: "2026-06-03",
+  type: "IncomeReceived",
+  kind: "interest",
+  reserveId: "untiered",
+  amount: 5,
+  tier: "c3",
+};
+
+const FUNDING_PAID: PortfolioEvent = {
+  id: "funding-alt",
+  asOf: "2026-06-04",
+  type: "CostCharged",
+  kind: "funding",
+  reserveId: "tiered",
+  amount: 8,
+  positionId: "alt-pos",
+};
+
+const CLOSE_ALT: PortfolioEvent = {
+  id: "close-alt",
+  asOf: "2026-06-05",
+  type: "PositionClosed",
+  positionId: "alt-pos",
+  settlement: { reserveId: "tiered", proceeds: 800 },
+};
+
+describe("Economic P&L verbs — parse", () => {
+  it("accepts a position-tied and a reserve-tied flow", () => {
+    expect(parseEvent(STAKING)).toEqual({ kind: "ok", value: STAKING });
+    expect(parseEvent(INTEREST)).toEqual({ kind: "ok", value: INTEREST });
+  });
+
+  it.each([
+    [{ ...STAKING, tier: "c1" }, "tier"],
+    [{ ...INTEREST, tier: undefined }, "tier"],
+    [{ ...STAKING, kind: "borrow" }, "kind"],
+    [{ ...FUNDING_PAID, kind: "dividend" }, "kind"],
+    [{ ...FUNDING_PAID, amount: 0 }, "amount"],
+  ])("refuses %j at %s", (input, path) => {
+    const result = parseEvent(input);
+    expect(result.kind).toBe("event-error");
+    if (result.kind === "event-error") {
+      expect(result.path).toBe(path);
+    }
+  });
+});
+
+describe("Economic P&L verbs — cross-ref", () => {
+  it("admits flows on a live position and on a Reserve", () => {
+    const reference = buildEventReference(genesis(), []);
+    expect(crossReferenceEvent(STAKING, reference).kind).toBe("ok");
+    expect(crossReferenceEvent(INTEREST, reference).kind).toBe("ok");
+    expect(crossReferenceEvent(FUNDING_PAID, reference).kind).toBe("ok");
+  });
+
+  it("refuses a flow on a position already closed by its date", () => {
+    const late: PortfolioEvent = { ...STAKING, id: "late", asOf: "2026-06-06" };
+    const result = crossReferenceEvent(late, buildEventReference(genesis(), [CLOSE_ALT]));
+    expect(result.kind).toBe("event-error");
+    if (result.kind === "event-error") {
+      expect(result.path).toBe("positionId");
+      expect(result.message).toMatch(/^IncomeReceived /);
+    }
+  });
+
+  it("refuses a cost its tier mix cannot cover", () => {
+    // 75% of 3000 = 2250 against c2's 500.
+    const result = crossReferenceEvent(
+      { ...FUNDING_PAID, amount: 3000 },
+      buildEventReference(genesis(), []),
+    );
+    expect(result.kind).toBe("event-error");
+    if (result.kind === "event-error") {
+      expect(result.path).toBe("amount");
+      expect(result.message).toMatch(/^CostCharged debits 2250 .* tier c2/);
+    }
+  });
+
+  it("keeps a later close from sealing behind a position-tied flow", () => {
+    const early: PortfolioEvent = { ...CLOSE_ALT, asOf: "2026-06-01" };
+    const result = crossReferenceEvent(early, buildEventReference(genesis(), [STAKING]));
+    expect(result.kind).toBe("event-error");
+    if (result.kind === "event-error") {
+      expect(result.message).toContain("IncomeReceived dated 2026-06-02 has already been accepted");
+    }
+  });
+});
+
+describe("Economic P&L verbs — fold", () => {
+  it("credits income across the position's tiers and costs likewise", () => {
+    const data = foldEvents(genesis(), [STAKING, FUNDING_PAID]).data;
+    const tiered = reserveById(data, "tiered");
+
+    expect(tiered.amount).toBe(1532);
+    expect(tierQty(tiered, "c1")).toBe(1000 + 10 - 2);
+    expect(tierQty(tiered, "c2")).toBe(500 + 30 - 6);
+    expect(data.economicEntries).toEqual([
+      {
+        eventId: "stake-alt",
+        asOf: "2026-06-02",
+        flow: "income",
+        kind: "staking",
+        reserveId: "tiered",
+        positionId: "alt-pos",
+        tempo: "Pulse",
+        amountUsd: 40,
+        tierAttribution: [
+          { tier: "c1", amountUsd: 10 },
+          { tier: "c2", amountUsd: 30 },
+        ],
+      },
+      expect.objectContaining({ flow: "cost", kind: "funding", amountUsd: -8 }),
+    ]);
+  });
+
+  it("files reserve-tied income under the Reserve's tempo and named tier", () => {
+    const data = foldEvents(genesis(), [INTEREST]).data;
+    expect(reserveById(data, "untiered").amount).toBe(805);
+    expect(data.economicEntries?.[0]).toMatchObject({
+      tempo: "Reserve",
+      tierAttribution: [{ tier: "c3", amountUsd: 5 }],
+    });
+  });
+
+  it("discards a flow whose position the fold has no record of", () => {
+    const stray: PortfolioEvent = { ...STAKING, positionId: "ghost" };
+    const { data, skipped } = foldEvents(genesis(), [stray]);
+    expect(reserveById(data, "tiered").amount).toBe(1500);
+    expect(data.economicEntries).toBeUndefined();
+    expect(skipped).toMatchObject([{ eventId: "stake-alt", reason: "position-absent" }]);
+  });
+});
+
+describe("Economic P&L — the closed-book rollup", () => {
+  it("lays income and costs over realized by Tempo and by Tier", () => {
+    const events = [STAKING, INTEREST, FUNDING_PAID, CLOSE_ALT];
+    const book = buildCompositionReport(foldEvents(genesis(), events).data).closedBook;
+
+    // Realized 800 − 400 = 400; income 45; costs 8.
+    expect(book.economic).toMatchObject({
+      totalRealizedPnlUsd: 400,
+      totalIncomeUsd: 45,
+      totalCostsUsd: 8,
+      totalEconomicPnlUsd: 437,
+    });
+    expect(book.economic?.byTempo).toEqual([
+      { key: "Pulse", realizedPnlUsd: 400, incomeUsd: 40, costsUsd: 8, economicPnlUsd: 432 },
+      { key: "Reserve", realizedPnlUsd: 0, incomeUsd: 5, costsUsd: 0, economicPnlUsd: 5 },
+    ]);
+    expect(book.economic?.byTier.find((row) => row.key === "c2")).toEqual({
+      key: "c2",
+      realizedPnlUsd: 300,
+      incomeUsd: 30,
+      costsUsd: 6,
+      economicPnlUsd: 324,
+    });
+    expect(formatEconomicPnl(book.economic)).toContain(
+      "Realized $400.00 + income $45.00 − costs $8.00 = Economic P&L $437.00",
+    );
+  });
+
+  it("renders before any trade has closed, and not at all without flows", () => {
+    const withIncome = buildCompositionReport(foldEvents(genesis(), [INTEREST]).data);
+    const without = buildCompositionReport(foldEvents(genesis(), []).data);
+
+    expect(formatCompositionReport(withIncome)).toContain("Economic P&L by Tempo");
+    expect(without.closedBook.economic).toBeUndefined();
+    expect(formatCompositionReport(without)).not.toContain("Economic P&L");
+  });
+});
@@ -20,15 +20,21 @@
 import type {
   CapitalTier,
   Currency,
+  Direction,
   FundReviewData,
   PositionLot,
   SkippedFoldEvent,
 } from "../contracts.js";
 import type {
+  CashLegFees,
+  CostChargedEvent,
   DepositEvent,
   EventError,
   EventParseResult,
+  IncomeReceivedEvent,
   InvalidationMarkedEvent,
+  DecisionRevisedEvent,
+  FxMarkedEvent,
   PortfolioEvent,
   PositionAddedToEvent,
   PositionClosedEvent,
@@ -40,7 +46,9 @@ import type {
   WithdrawEvent,
 } from "./types.js";
 import { eventError } from "./types.js";
-import { foldEvents, reserveDeltasForOpen } from "./fold.js";
+import { economicFlowDeltas, foldEvents, reserveDeltasForOpen } from "./fold.js";
+import { usdRateOf, type FxRates } from "../fx.js";
+import { lotMarketValue } from "../internal.js";
 
 /**
  * The deviation past which a `PriceMarked` is treated as an implausible fat-finger
@@ -141,7 +149,8 @@ export interface EventReference {
    * than reusing the retired one), but is additionally flagged here so the ingest
    * gate can reject every verb that targets a retired position — a post-close
    * `InvalidationMarked` (a level on a retired position can never fold, since breach
-   * is derived per OPEN position), a trim, an add-to, and a SECOND close. Each would
+   * is derived per OPEN position), a post-close `DecisionRevised` (the closed-book row
+   * already froze the decision in force), a trim, an add-to, and a SECOND close. Each would
    * be silently dropped at fold, which is exactly the drift this ledger eliminates.
    * See {@link crossReferenceInvalidation} / {@link crossReferenceClose} and ADR-003
    * (fail-loud-at-ingest).
@@ -154,7 +163,8 @@ export interface EventReference {
    * SINCE ADR-017 THIS IS THE KEY SET OF {@link closedPositionAsOf} and nothing else —
    * one derivation, so the membership answer and the dated answer cannot drift apart.
    * It remains the right question for the two verbs whose refusal is date-INSENSITIVE
-   * (`PositionClosed`, `InvalidationMarked`); the two date-SENSITIVE verbs ask the map.
+   * (`PositionClosed`, `InvalidationMarked`, `DecisionRevised`); the two date-SENSITIVE
+   * verbs ask the map.
    */
   closedPositionIds: Set<string>;
   /**
@@ -212,8 +222,9 @@ export interface EventReference {
    * event already durably accepted, which the fold's (`asOf`, then log) ordering then
    * drops silently.
    *
-   * Covers all five position-targeting verbs — `PositionOpened`, `PositionClosed`,
-   * `PositionTrimmed`, `PositionAddedTo`, `InvalidationMarked`. `PriceMarked` targets
+   * Covers all six position-targeting verbs — `PositionOpened`, `PositionClosed`,
+   * `PositionTrimmed`, `PositionAddedTo`, `InvalidationMarked`, `DecisionRevised` —
+   * and a position-tied income or cost. `PriceMarked` targets
    * an INSTRUMENT, not a position, and is not scanned. `PositionOpened` is counted
    * even though `requirePositionBornBy` independently refuses a verb dated before
    * birth: it costs one branch, and it makes the map's meaning unconditional — the
@@ -239,6 +250,11 @@ export interface EventReference {
   positionLastVerbAsOf: Map<string, PositionTouch>;
   /** Latest known close per instrument: the magnitude guard's comparison point. */
   lastClose: Map<string, { price: number; asOf: string }>;
+  /**
+   * The folded review's rates: the `FxMarked` magnitude guard's comparison point, and
+   * — through {@link worldAsOf} — whether a currency had a rate on a given date.
+   */
+  fxRates: FxRates;
   /**
    * Folded Reserve balances the cross-ref sufficiency gate checks a debit
    * against (a withdraw/transfer/open-funding can't exceed available, per Tier).
@@ -267,7 +283,10 @@ export interface EventReference {
    * fold has retired; it reads {@link worldAsOf}'s map instead of this one, for the two
    * reasons that field records.
    */
-  positionLots: Map<string, { instrumentId: string; lots: PositionLot[] }>;
+  positionLots: Map<
+    string,
+    { instrumentId: string; direction: Direction; currency: Currency; lots: PositionLot[] }
+  >;
   /**
    * THE SAME REFERENCE, REBUILT FROM THE EVENTS DATED ON OR BEFORE `asOf` — the world
    * the fold will actually place a backdated verb in, rather than the world as it stands
@@ -423,14 +442,26 @@ export function buildEventReference(
       case "PositionTrimmed":
       case "PositionAddedTo":
       case "InvalidationMarked":
+      case "DecisionRevised":
         touchPosition(event.positionId, event);
         break;
+      // A position-tied income or cost lands on the position's lots at fold, so a close
+      // sealed behind it would drop it exactly like a buried trim. Reserve-only ones
+      // date nothing.
+      case "IncomeReceived":
+      case "CostCharged":
+        if (event.positionId !== undefined) {
+          touchPosition(event.positionId, event);
+        }
+        break;
       // DELIBERATELY NOT SCANNED, and said in code rather than only in a comment.
-      // `PriceMarked` targets an INSTRUMENT and the rest target a Reserve or nothing at
-      // all; none of them dates a position. Marking a price above all must not: the feed
-      // marks daily, so scanning it would seal every position holding that instrument
-      // behind today, for a reason having nothing to do with the position.
+      // `PriceMarked` targets an INSTRUMENT, `FxMarked` a currency, and the rest a
+      // Reserve or nothing at all; none of them dates a position. Marking a price above
+      // all must not: the feed marks daily, so scanning it would seal every position
+      // holding that instrument behind today, for a reason having nothing to do with
+      // the position.
       case "PriceMarked":
+      case "FxMarked":
       case "Deposit":
       case "Withdraw":
       case "Transfer":
@@ -610,11 +641,20 @@ export function buildEventReference(
     positionBornAsOf,
     positionLastVerbAsOf,
     lastClose,
+    fxRates: {
+      usdMxn: folded.review.usdMxn,
+      ...(folded.review.fx === undefined ? {} : { fx: folded.review.fx }),
+    },
     reserveBalances,
     positionLots: new Map(
       folded.positions.map((position) => [
         position.id,
-        { instrumentId: position.instrumentId, lots: position.lots },
+        {
+          instrumentId: position.instrumentId,
+          direction: position.direction,
+          currency: position.currency,
+          lots: position.lots,
+        },
       ]),
     ),
     worldAsOf,
@@ -635,6 +675,18 @@ export function crossReferenceEvent(
   event: PortfolioEvent,
   reference: EventReference,
   options?: { magnitudeThreshold?: number; settlementThreshold?: number },
+): EventParseResult {
+  const verdict = crossReferenceVerb(event, reference, options);
+  if (verdict.kind !== "ok") {
+    return verdict;
+  }
+  return requireFxRates(event, reference) ?? verdict;
+}
+
+function crossReferenceVerb(
+  event: PortfolioEvent,
+  reference: EventReference,
+  options?: { magnitudeThreshold?: number; settlementThreshold?: number },
 ): EventParseResult {
   switch (event.type) {
     case "PositionOpened":
@@ -655,11 +707,76 @@ export function crossReferenceEvent(
       return crossReferenceTransfer(event, reference);
     case "InvalidationMarked":
       return crossReferenceInvalidation(event, reference);
+    case "DecisionRevised":
+      return crossReferenceDecisionRevised(event, reference);
     case "ReserveOpened":
       return crossReferenceReserveOpened(event, reference);
+    case "IncomeReceived":
+    case "CostCharged":
+      return crossReferenceEconomicFlow(event, reference);
+    case "FxMarked":
+      return crossReferenceFxMark(event, reference, options?.magnitudeThreshold);
   }
 }
 
+/**
+ * The currencies an event's fold arm converts to USD: the position's and the cash
+ * leg's for a fill, the Reserve's for an income or cost, the new Reserve's own. A
+ * verb that converts nothing — a mark, a level, a same-currency movement — names none.
+ */
+function currenciesConverted(event: PortfolioEvent, reference: EventReference): Currency[] {
+  const fees = "fees" in event && event.fees !== undefined ? [event.fees.currency] : [];
+  switch (event.type) {
+    case "PositionOpened":
+      return [event.position.currency, ...fees];
+    case "PositionClosed":
+    case "PositionTrimmed":
+      return [
+        reference.positionLots.get(event.positionId)?.currency,
+        reference.reserveBalances.get(event.settlement.reserveId)?.currency,
+        ...fees,
+      ].filter((currency): currency is Currency => currency !== undefined);
+    case "PositionAddedTo":
+      return fees;
+    case "IncomeReceived":
+    case "CostCharged": {
+      const currency = reference.reserveBalances.get(event.reserveId)?.currency;
+      return currency === undefined ? [] : [currency];
+    }
+    case "ReserveOpened":
+      return [event.reserve.currency];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Refuse an event the fold would have to convert from a currency the review carries
+ * no rate for ON THE EVENT'S DATE. Composition already excludes a seeded record in
+ * such a currency with an `unsupported-currency` warning; without this gate a fill or
+ * a flow in it would reach the fold, which has no honest number to book it at.
+ *
+ * USD and MXN always have a rate (`review.usdMxn` is required), so only the currencies
+ * beyond them pay for the dated world — the rate has to be in force by `asOf`, not
+ * merely by the end of the log, or a backdated fill would fold ahead of its rate.
+ */
+function requireFxRates(event: PortfolioEvent, reference: EventReference): EventError | null {
+  for (const currency of currenciesConverted(event, reference)) {
+    if (currency === "USD" || currency === "MXN") {
+      continue;
+    }
+    if (usdRateOf(currency, reference.worldAsOf(event.asOf).fxRates) === undefined) {
+      return eventError(
+        "currency",
+        `${event.type} converts ${currency}, but the review carries no ${currency} rate ` +
+          `on ${event.asOf}. Seed one in genesis \`review.fx\`, or record an FxMarked ` +
+          `for ${currency} dated on or before ${event.asOf} first.`,
+      );
+    }
+  }
+  return null;
+}
+
 /**
  * A `ReserveOpened` must mint a genuinely new id (colliding with neither an
  * existing Reserve nor an existing Position — capital ids share one namespace),
@@ -794,6 +911,36 @@ function crossReferenceInvalidation(
   return { kind: "ok", value: event };
 }
 
+/**
+ * A `DecisionRevised` takes {@link crossReferenceInvalidation}'s gate, for its reasons:
+ * it must name a position the seed or log introduced, dated on or after its birth, and
+ * the position must still be open.
+ *
+ * POST-CLOSE REVISION. The close froze the decision in force onto its closed-book row —
+ * that frozen copy IS the audit answer to "what did I believe when I closed this" — so
+ * a revision landing afterwards could only be dropped at fold, or, worse, backdated to
+ * rewrite the belief after the outcome was known. Both are refused here, loudly. Later
+ * reasoning about a closed trade belongs in the decision journal, which never folds.
+ */
+function crossReferenceDecisionRevised(
+  event: DecisionRevisedEvent,
+  reference: EventReference,
+): EventParseResult {
+  const bornBy = requirePositionBornBy(reference, event.positionId, event.asOf, "positionId");
+  if (bornBy) {
+    return { ...bornBy, message: `DecisionRevised ${bornBy.message}` };
+  }
+  if (reference.closedPositionIds.has(event.positionId)) {
+    return eventError(
+      "positionId",
+      `DecisionRevised targets position id '${event.positionId}', which is already ` +
+        `closed; its closed-book row holds the decision in force at the close. Revise ` +
+        `before the close, or journal the later view with \`pnpm journal:add\`.`,
+    );
+  }
+  return { kind: "ok", value: event };
+}
+
 /** {@link requireReserveBornBy}'s answer: the Reserve, or the reason there isn't one. */
 type ReserveLookup =
   | { kind: "ok"; balance: ReserveView }
@@ -1012,15 +1159,17 @@ function requirePositionUntouchedAfter(
   if (latest === undefined || asOf >= latest.asOf) {
     return null;
   }
-  // `InvalidationMarked` is the ONE position verb with no reserve leg (see
-  // `crossReferenceInvalidation`), so the cash clause has to be conditional. Claiming a
-  // vanished cash leg on case D sends the operator hunting for a movement that never
-  // existed — and it is the branch that also decides the remedy below.
-  const movesCash = latest.type !== "InvalidationMarked";
-  const article = movesCash ? "a" : "an";
+  // `InvalidationMarked` and `DecisionRevised` are the position verbs with no reserve
+  // leg (see `crossReferenceInvalidation`), so the cash clause has to be conditional.
+  // Claiming a vanished cash leg on case D sends the operator hunting for a movement
+  // that never existed — and it is the branch that also decides the remedy below.
+  const movesCash = latest.type !== "InvalidationMarked" && latest.type !== "DecisionRevised";
+  const article = /^[AEIOU]/.test(latest.type) ? "an" : "a";
   const loss = movesCash
     ? `that later event would vanish silently, taking its cash leg with it`
-    : `that later event would vanish silently — the level itself, though it moves no cash`;
+    : `that later event would vanish silently — the ${
+        latest.type === "DecisionRevised" ? "revision" : "level"
+      } itself, though it moves no cash`;
   // THE REMEDY BRANCHES, AND THE REASON IS DATA CORRUPTION, not politeness. "Date the
   // close later" is the WRONG advice whenever the close's date is the true one: a
   // position opened 06-05, stop moved 06-20, honestly closed 06-15 would be told to
@@ -1080,13 +1229,31 @@ function checkDebit(
   return null;
 }
 
+/**
+ * How a settlement gate's expected figure was reached, stated per direction. A long's is
+ * `quantity × close`; a short's is NOT — `lotMarketValue` values it as collateral plus
+ * result, `quantity × (2·cost − close)` — so the message names that rule rather than
+ * claiming a product the figure beside it does not equal.
+ */
+function settlementBasis(
+  quantity: number,
+  close: number,
+  instrumentId: string,
+  direction: Direction,
+): string {
+  return direction === "short"
+    ? `${quantity} short at last close ${close} for '${instrumentId}', valued as ` +
+        `quantity × (2·cost − close)`
+    : `${quantity} × last close ${close} for '${instrumentId}'`;
+}
+
 /**
  * Cross-reference a `PositionClosed`. The position id must be KNOWN (genesis seed
  * or log) and not already RETIRED — a close retires the id, the fold silently
  * drops any later close of it, and log dedup keys on event id alone, so this gate
  * is the only thing standing between a re-authored second close and silent NAV
  * drift. The settlement leg is then checked for a live reserve and by the
- * settlement-magnitude gate (Σ quantity × last close). Pure: reads `reference`,
+ * settlement-magnitude gate (the closed lots valued at the last close). Pure: reads `reference`,
  * never mutates it.
  */
 function crossReferenceClose(
@@ -1152,13 +1319,18 @@ function crossReferenceClose(
     return { ...settlesInto.error, message: `PositionClosed ${settlesInto.error.message}` };
   }
   // Settlement-magnitude gate: the proceeds analog of the PriceMarked guard.
-  // Expected ≈ closed quantity × the instrument's last known close; a gross
-  // deviation (order-of-magnitude typo, sign/unit slip) is rejected at ingest.
+  // Expected ≈ the closed lots valued at the instrument's last known close (for a
+  // long, quantity × close; for a short, collateral plus result — `lotMarketValue`);
+  // a gross deviation (order-of-magnitude typo, sign/unit slip) is rejected at ingest.
+  // A short under water past its collateral expects nothing positive and is not gated.
   const closed = reference.positionLots.get(event.positionId);
   const last = closed ? reference.lastClose.get(closed.instrumentId) : undefined;
   if (closed && last !== undefined) {
     const quantity = closed.lots.reduce((sum, lot) => sum + lot.quantity, 0);
-    const expected = quantity * last.price;
+    const expected = closed.lots.reduce(
+      (sum, lot) => sum + lotMarketValue(lot, last.price, closed.direction),
+      0,
+    );
     if (expected > 0) {
       const deviation = Math.abs(event.settlement.proceeds / expected - 1);
       if (deviation > threshold) {
@@ -1166,12 +1338,26 @@ function crossReferenceClose(
           "settlement.proceeds",
           `PositionClosed proceeds ${event.settlement.proceeds} deviate ` +
             `${(deviation * 100).toFixed(1)}% from expected ${expected.toFixed(2)} ` +
-            `(${quantity} × last close ${last.price} for '${closed.instrumentId}'), beyond ` +
+            `(${settlementBasis(
+              quantity,
+              last.price,
+              closed.instrumentId,
+              closed.direction,
+            )}), beyond ` +
             `the ${(threshold * 100).toFixed(0)}% settlement sanity threshold.`,
         );
       }
     }
   }
+  const feeError = checkFees(
+    event.fees,
+    closed?.currency,
+    settlesInto.balance,
+    event.settlement.proceeds,
+  );
+  if (feeError) {
+    return { ...feeError, message: `PositionClosed ${feeError.message}` };
+  }
   return { kind: "ok", value: event };
 }
 
@@ -1276,12 +1462,24 @@ function crossReferenceTrim(
         `position open; use PositionClosed to fully close it.`,
     );
   }
-  // Settlement-magnitude gate on the removed subset: expected ≈ Σ removed quantity ×
-  // the instrument's last close; a gross deviation is a fat-finger, rejected loud.
+  // Settlement-magnitude gate on the removed subset: expected ≈ the removed units
+  // valued at the instrument's last close; a gross deviation is a fat-finger, rejected
+  // loud. A removal comes out of its tier PRO-RATA (`splitTierRemoval`), so the removed
+  // units carry the tier's quantity-weighted cost — which is all a short's valuation
+  // needs beyond the close.
   const last = held ? world.lastClose.get(held.instrumentId) : undefined;
   if (held && last !== undefined) {
     const removedQuantity = event.removals.reduce((sum, removal) => sum + removal.quantity, 0);
-    const expected = removedQuantity * last.price;
+    const expected = event.removals.reduce(
+      (sum, removal) =>
+        sum +
+        lotMarketValue(
+          { quantity: removal.quantity, cost: tierAverageCost(held.lots, removal.tier) },
+          last.price,
+          held.direction,
+        ),
+      0,
+    );
     if (expected > 0) {
       const deviation = Math.abs(event.settlement.proceeds / expected - 1);
       if (deviation > threshold) {
@@ -1289,15 +1487,41 @@ function crossReferenceTrim(
           "settlement.proceeds",
           `PositionTrimmed proceeds ${event.settlement.proceeds} deviate ` +
             `${(deviation * 100).toFixed(1)}% from expected ${expected.toFixed(2)} ` +
-            `(${removedQuantity} × last close ${last.price} for '${held.instrumentId}'), beyond ` +
+            `(${settlementBasis(
+              removedQuantity,
+              last.price,
+              held.instrumentId,
+              held.direction,
+            )}), beyond ` +
             `the ${(threshold * 100).toFixed(0)}% settlement sanity threshold.`,
         );
       }
     }
   }
+  const feeError = checkFees(
+    event.fees,
+    held?.currency,
+    trimSettlesInto.balance,
+    event.settlement.proceeds,
+  );
+  if (feeError) {
+    return { ...feeError, message: `PositionTrimmed ${feeError.message}` };
+  }
   return { kind: "ok", value: event };
 }
 
+/** Quantity-weighted native cost of the lots held in `tier` (0 when it holds none). */
+function tierAverageCost(lots: PositionLot[], tier: CapitalTier): number {
+  let quantity = 0;
+  let cost = 0;
+  for (const lot of lots) {
+    if (lot.tier !== tier) continue;
+    quantity += lot.quantity;
+    cost += lot.quantity * lot.cost;
+  }
+  return quantity > 0 ? cost / quantity : 0;
+}
+
 /**
  * Cross-reference a `PositionAddedTo`: the position must exist and must not already be
  * closed AS OF THIS EVENT'S DATE, and the funding Reserve must exist and hold enough
@@ -1371,6 +1595,23 @@ function crossReferenceAddedTo(
       return { ...error, message: `PositionAddedTo ${error.message}` };
     }
   }
+  if (event.fees) {
+    // A backdated add may target a position this reference has already retired, so
+    // its currency is read from the world as of the add — paid for only when there
+    // are fees to judge.
+    const target =
+      reference.positionLots.get(event.positionId) ??
+      reference.worldAsOf(event.asOf).positionLots.get(event.positionId);
+    const feeError = checkFees(
+      event.fees,
+      target?.currency,
+      addFundedBy.balance,
+      event.funding.amount,
+    );
+    if (feeError) {
+      return { ...feeError, message: `PositionAddedTo ${feeError.message}` };
+    }
+  }
   return { kind: "ok", value: event };
 }
 
@@ -1398,6 +1639,60 @@ function crossReferenceWithdraw(event: WithdrawEvent, reference: EventReference)
   return { kind: "ok", value: event };
 }
 
+/**
+ * An `IncomeReceived`/`CostCharged` must name a Reserve born by its date and, when tied
+ * to a position, a position born by then and not yet retired — the fold attributes the
+ * flow across that position's lots, and a retired position has none, so the flow would
+ * vanish at fold. The retirement rule is {@link crossReferenceAddedTo}'s, equal dates
+ * refused for the same log-index reason.
+ *
+ * A cost is a debit and is checked for per-Tier sufficiency like any other: across the
+ * position's cost-basis Tier mix when tied, against the named `tier` when not. Income
+ * only credits and has nothing to be insufficient against.
+ */
+function crossReferenceEconomicFlow(
+  event: IncomeReceivedEvent | CostChargedEvent,
+  reference: EventReference,
+): EventParseResult {
+  const prefixed = (error: EventError): EventError => ({
+    ...error,
+    message: `${event.type} ${error.message}`,
+  });
+  let lots: PositionLot[] | undefined;
+  if (event.positionId !== undefined) {
+    const bornBy = requirePositionBornBy(reference, event.positionId, event.asOf, "positionId");
+    if (bornBy) {
+      return prefixed(bornBy);
+    }
+    const retiredAsOf = reference.closedPositionAsOf.get(event.positionId);
+    if (retiredAsOf !== undefined && event.asOf >= retiredAsOf) {
+      return eventError(
+        "positionId",
+        `${event.type} targets position id '${event.positionId}', which is already closed ` +
+          `as of ${retiredAsOf} — and this event is dated ${event.asOf}. The fold splits it ` +
+          `across the position's lots, and a retired position has none, so it would vanish ` +
+          `silently. Tie it to the Reserve with a tier instead, or date it while the ` +
+          `position was open.`,
+      );
+    }
+    const world = retiredAsOf === undefined ? reference : reference.worldAsOf(event.asOf);
+    lots = world.positionLots.get(event.positionId)?.lots ?? [];
+  }
+  const reserve = requireReserveBornBy(reference, event.reserveId, event.asOf, "reserveId");
+  if (reserve.kind === "event-error") {
+    return prefixed(reserve.error);
+  }
+  if (event.type === "CostCharged") {
+    for (const delta of economicFlowDeltas(event, lots)) {
+      const error = checkDebit(reserve.balance, event.reserveId, delta.tier, -delta.amount, "amount");
+      if (error) {
+        return prefixed(error);
+      }
+    }
+  }
+  return { kind: "ok", value: event };
+}
+
 function crossReferenceTransfer(event: TransferEvent, reference: EventReference): EventParseResult {
   // BOTH legs must exist AS OF THE TRANSFER'S OWN DATE. The destination is the leg the
   // audit measured: a Transfer dated before the `ReserveOpened` that mints its target
@@ -1497,9 +1792,54 @@ function crossReferenceOpen(
       return { ...error, message: `PositionOpened ${error.message}` };
     }
   }
+  const feeError = checkFees(event.fees, position.currency, fundedBy.balance, event.funding.amount);
+  if (feeError) {
+    return { ...feeError, message: `PositionOpened ${feeError.message}` };
+  }
   return { kind: "ok", value: event };
 }
 
+/**
+ * The cross-ref half of a fill's `fees` disclosure (parse already proved its shape).
+ * Two facts only the known world can answer:
+ *
+ * - The fee CURRENCY must be one the fill touched — the position's own currency or
+ *   the cash leg's Reserve currency. A fee in any other currency is a typo, and the
+ *   fold would otherwise convert it at the review FX into a cost nobody paid.
+ * - A fee charged in the cash leg's currency must be SMALLER than the leg. A fee that
+ *   swallows the whole debit or credit is a unit slip (cents for units, a total for a
+ *   rate), not friction.
+ *
+ * `positionCurrency` is undefined only when the target position is unknown, which
+ * the verb's existence gate has already refused before this runs. Slippage carries
+ * no magnitude check: a fill far from its intent is exactly what it exists to record.
+ */
+function checkFees(
+  fees: CashLegFees | undefined,
+  positionCurrency: Currency | undefined,
+  leg: ReserveView,
+  legAmount: number,
+): EventError | null {
+  if (!fees) {
+    return null;
+  }
+  if (fees.currency !== leg.currency && fees.currency !== positionCurrency) {
+    return eventError(
+      "fees.currency",
+      `fees are charged in ${fees.currency}, which is neither the position's currency ` +
+        `(${positionCurrency ?? "unknown"}) nor the cash leg's Reserve currency (${leg.currency}).`,
+    );
+  }
+  if (fees.currency === leg.currency && fees.venueFee >= legAmount) {
+    return eventError(
+      "fees.venueFee",
+      `fees.venueFee ${fees.venueFee} ${fees.currency} is not smaller than the cash leg ` +
+        `it rode on (${legAmount}); a fee cannot consume the whole fill. Check the units.`,
+    );
+  }
+  return null;
+}
+
 function crossReferenceMark(
   event: PriceMarkedEvent,
   reference: EventReference,
@@ -1527,3 +1867,30 @@ function crossReferenceMark(
   }
   return { kind: "ok", value: event };
 }
+
+/**
+ * An `FxMarked` takes {@link crossReferenceMark}'s magnitude guard against the rate in
+ * force: a rate moving more than the threshold in one mark is far likelier a flipped
+ * quote (USD-per-EUR entered as EUR-per-USD) than a market move. A currency's FIRST
+ * rate has nothing to be judged against and is admitted as given.
+ */
+function crossReferenceFxMark(
+  event: FxMarkedEvent,
+  reference: EventReference,
+  threshold = PRICE_MARK_MAGNITUDE_THRESHOLD,
+): EventParseResult {
+  const last = usdRateOf(event.currency, reference.fxRates);
+  if (last !== undefined) {
+    const deviation = Math.abs(event.rate / last - 1);
+    if (deviation > threshold) {
+      return eventError(
+        "rate",
+        `FxMarked rate ${event.rate} ${event.currency}/USD deviates ` +
+          `${(deviation * 100).toFixed(1)}% from the rate in force ${last}, beyond the ` +
+          `${(threshold * 100).toFixed(0)}% sanity threshold. Check the quote's direction: ` +
+          `the rate is units of ${event.currency} per one USD.`,
+      );
+    }
+  }
+  return { kind: "ok", value: event };
+}
@@ -524,6 +524,7 @@ describe("the fold's discard channel", () => {
           direction: "long",
           openedAsOf: "2026-06-03",
           closedAsOf: "2026-06-06",
+          decision: DECISION,
           costBasisUsd: 175,
           proceedsUsd: 225,
           realizedPnlUsd: 50,
@@ -540,6 +541,7 @@ describe("the fold's discard channel", () => {
           direction: "long",
           openedAsOf: "2026-06-03",
           closedAsOf: "2026-06-07",
+          decision: DECISION,
           costBasisUsd: 175,
           proceedsUsd: 300,
           realizedPnlUsd: 125,
@@ -17,18 +17,28 @@ import type {
   CapitalTier,
   ClosedPositionRecord,
   Close,
+  EconomicEntry,
   FoldedReview,
   FoldSkipReason,
   FundReviewData,
+  FxTable,
   InvalidationLevel,
   PositionLot,
   PositionRecord,
   RealizedTierAttribution,
   ReserveRecord,
   SkippedFoldEvent,
+  TradingCosts,
 } from "../contracts.js";
-import { toUsd } from "../internal.js";
-import type { PortfolioEvent, TierDelta } from "./types.js";
+import type { FxRates } from "../fx.js";
+import { lotMarketValue, toUsd, toUsdAtRate } from "../internal.js";
+import type {
+  CashLegFees,
+  CostChargedEvent,
+  IncomeReceivedEvent,
+  PortfolioEvent,
+  TierDelta,
+} from "./types.js";
 
 const TIERS: CapitalTier[] = ["c1", "c2", "c3"];
 
@@ -183,6 +193,24 @@ export function reserveDeltasForClose(lots: PositionLot[], proceeds: number): Ti
   return tierWeightedDeltas(lots, proceeds, 1);
 }
 
+/**
+ * The tier split of an `IncomeReceived`/`CostCharged` cash leg. Position-tied, it
+ * follows the position's lots the way a close's proceeds and an open's funding do
+ * (income credits, cost debits); Reserve-tied, it is the one named `tier`. `lots` is
+ * the tied position's current lots, and RETURNS `[]` when it has none — the same
+ * discard signal as a lot-less close, never a no-op worth booking.
+ */
+export function economicFlowDeltas(
+  event: IncomeReceivedEvent | CostChargedEvent,
+  lots: PositionLot[] | undefined,
+): TierDelta[] {
+  const sign = event.type === "IncomeReceived" ? 1 : -1;
+  if (event.positionId !== undefined) {
+    return tierWeightedDeltas(lots ?? [], event.amount, sign);
+  }
+  return event.tier ? [{ tier: event.tier, amount: sign * event.amount }] : [];
+}
+
 /**
  * THE SEAM. Apply signed per-Tier deltas to one Reserve, in place. `amount` is
  * always authoritative (moves by the delta sum); when the Reserve carries cash
@@ -229,7 +257,7 @@ export function applyReserveDelta(reserve: ReserveRecord, deltas: TierDelta[]):
  * FX-at-entry P&L: a freshly opened Position with no PriceMarked yet takes its
  * volume-weighted average cost as `markPrice`. That "freezes" it at entry in
  * native units, but the resulting P&L is only 0 when cost and value convert at
- * the same FX (USD, or a lot whose `entryFx` equals `review.usdMxn`). When a
+ * the same FX (USD, or a lot whose `entryFx` equals its currency's review rate). When a
  * lot's `entryFx` differs from the review FX, cost basis converts at entry FX
  * and market value at review FX, so the frozen-at-entry P&L is a pure
  * FX-translation gain/loss — not 0. The fold preserves `entryFx` per lot so
@@ -281,6 +309,14 @@ export function foldEvents(
   const entryWacFallback = new Set<string>();
   // Closed book + latest invalidation level per position.
   const closedPositions: ClosedPositionRecord[] = [];
+  // Open-side trading friction per OPEN position, in USD at the rate in force on each
+  // fill: what its `PositionOpened`/`PositionAddedTo` fills disclosed in `fees` and the
+  // closed book has not yet attributed. A trim takes its cost-basis share; the close
+  // takes the rest. Fold-local — it never reaches the read model except through the
+  // closed-book rows it is attributed to.
+  const openFriction = new Map<string, TradingCosts>();
+  // Income and carry costs, in application order — the Economic P&L layer's input.
+  const economicEntries: EconomicEntry[] = [];
   // Latest-wins per position. The VALUE CARRIES THE MARKING EVENT'S LOCATOR alongside
   // the level, because `InvalidationMarked` is the one drop kind with no branch to hang
   // a diagnostic on — it is detected after the loop, BY ABSENCE, and by then the event
@@ -344,7 +380,10 @@ export function foldEvents(
    * Only lot-derived legs route through here. The explicit-tier legs (`Deposit`,
    * `Withdraw`, both `Transfer` legs) call `applyToReserve` directly: their tiers come
    * from the event itself rather than from lots, so they have no provenance that could
-   * be missing, and routing them here would imply a discard that cannot occur.
+   * be missing, and routing them here would imply a discard that cannot occur. The
+   * `IncomeReceived`/`CostCharged` arm is the one mixed case and routes both of its
+   * forms here: the position-tied leg is lot-derived, and the Reserve-tied leg always
+   * carries its one named-tier delta, so for it only the reserve half can fire.
    */
   const applyTieredLeg = (
     reserveId: string,
@@ -362,7 +401,12 @@ export function foldEvents(
     }
     return true;
   };
-  let usdMxn = genesis.review.usdMxn;
+  // The review's rates in force, updated in log order by a derived mark's `usdMxn` and
+  // by `FxMarked`; every conversion below reads the one for its own currency.
+  const rates: { usdMxn: number; fx: FxTable } = {
+    usdMxn: genesis.review.usdMxn,
+    fx: { ...genesis.review.fx },
+  };
   let latestAsOf = genesis.review.asOf;
 
   // O(1) lookup of an existing close by (instrument, date). Held ALONGSIDE `closes[]`
@@ -488,7 +532,11 @@ export function foldEvents(
           // dates and attribute realized P&L per strategy.
           openedAsOf: event.asOf,
           strategy: event.decision.strategy,
+          decision: { ...event.decision },
         });
+        if (event.fees) {
+          openFriction.set(position.id, feesToUsd(event.fees, rates));
+        }
         // markPrice above is the entry-VWAC fallback until a real PriceMarked lands.
         entryWacFallback.add(position.id);
         // Drop an entry-price anchor (coherent with the fallback markPrice) so an
@@ -536,9 +584,17 @@ export function foldEvents(
         // landed in the Reserve above; the blotter records how the fund got here.
         const settlementCurrency =
           reserves.get(event.settlement.reserveId)?.currency ?? closing.currency;
+        // Every open-side cost not yet attributed retires with the position.
         closedPositions.push(
-          buildClosedPosition(closing, closing.lots, event.asOf, event.settlement.proceeds, settlementCurrency, usdMxn),
+          withTradingCosts(
+            buildClosedPosition(closing, closing.lots, event.asOf, event.settlement.proceeds, settlementCurrency, rates),
+            sumTradingCosts(
+              openFriction.get(closing.id),
+              event.fees ? feesToUsd(event.fees, rates) : undefined,
+            ),
+          ),
         );
+        openFriction.delete(closing.id);
         // R8 (ledger item 19): THE DELETE LIVES INSIDE THE APPLYING PATH, not after the
         // block — reached only once BOTH gates above have passed. The arm is a clean
         // pair: either the close applies IN FULL (cash leg, closed-book row,
@@ -593,16 +649,34 @@ export function foldEvents(
           ) {
             break;
           }
+          // The trim retires the removed lots' share of the open-side friction, by
+          // native cost basis — the same weight the cash legs split on.
+          const friction = openFriction.get(trimming.id);
+          const retiredFriction = friction
+            ? scaleTradingCosts(friction, nativeCost(removed) / nativeCost(trimming.lots))
+            : undefined;
+          if (friction && retiredFriction) {
+            openFriction.set(trimming.id, {
+              venueFeeUsd: friction.venueFeeUsd - retiredFriction.venueFeeUsd,
+              slippageUsd: friction.slippageUsd - retiredFriction.slippageUsd,
+            });
+          }
           closedPositions.push(
-            buildClosedPosition(
-              trimming,
-              removed,
-              event.asOf,
-              event.settlement.proceeds,
-              settlementCurrency,
-              usdMxn,
-              true,
-              markPrice,
+            withTradingCosts(
+              buildClosedPosition(
+                trimming,
+                removed,
+                event.asOf,
+                event.settlement.proceeds,
+                settlementCurrency,
+                rates,
+                true,
+                markPrice,
+              ),
+              sumTradingCosts(
+                retiredFriction,
+                event.fees ? feesToUsd(event.fees, rates) : undefined,
+              ),
             ),
           );
           trimming.lots = working;
@@ -646,6 +720,15 @@ export function foldEvents(
             break;
           }
           adding.lots = [...adding.lots, { ...event.lot }];
+          if (event.fees) {
+            const friction = sumTradingCosts(
+              openFriction.get(adding.id),
+              feesToUsd(event.fees, rates),
+            );
+            if (friction) {
+              openFriction.set(adding.id, friction);
+            }
+          }
           // If this position is still on its entry-VWAC fallback (opened this fold, no
           // real mark yet), refresh that fallback to the new blended VWAC so the scale-in
           // preserves the "no mark ⇒ value at VWAC ⇒ entry P&L ≈ 0" invariant. Leaving
@@ -695,6 +778,23 @@ export function foldEvents(
           asOf: event.asOf,
         });
         break;
+      case "DecisionRevised": {
+        // Latest-wins PER FIELD, applied in-loop rather than after it like the
+        // invalidation level: a close books the decision in force at ITS point in the
+        // fold, so a revision has to have landed by then. `strategy` follows the
+        // revision, so realized P&L is attributed under the strategy held at the close.
+        const revising = positions.get(event.positionId);
+        if (revising) {
+          revising.decision = { ...revising.decision, ...event.revision };
+          if (event.revision.strategy !== undefined) {
+            revising.strategy = event.revision.strategy;
+          }
+          revising.decisionRevisedAsOf = event.asOf;
+        } else {
+          recordSkip(event, order, "position-absent");
+        }
+        break;
+      }
       case "PriceMarked": {
         latestMark.set(event.instrumentId, event.price);
         // A MARK OWNS ITS DAY. `latestCloseByInstrument` breaks an equal-`asOf` tie by
@@ -718,10 +818,17 @@ export function foldEvents(
           pushClose({ instrumentId: event.instrumentId, asOf: event.asOf, price: event.price });
         }
         if (event.usdMxn !== undefined) {
-          usdMxn = event.usdMxn;
+          rates.usdMxn = event.usdMxn;
         }
         break;
       }
+      case "FxMarked":
+        if (event.currency === "MXN") {
+          rates.usdMxn = event.rate;
+        } else {
+          rates.fx[event.currency] = event.rate;
+        }
+        break;
       case "Deposit":
         if (!applyToReserve(reserves, event.reserveId, [{ tier: event.tier, amount: event.amount }])) {
           recordSkip(event, order, "reserve-absent");
@@ -777,6 +884,38 @@ export function foldEvents(
         // compiles clean and silently drops the Reserve at fold.
         reserves.set(event.reserve.id, { ...event.reserve, amount: 0, lots: [] });
         break;
+      case "IncomeReceived":
+      case "CostCharged": {
+        // Position-tied: the position must be live here, and its lots carry the split.
+        // A missing one is a total discard like any position verb's — crediting the
+        // Reserve anyway would book yield against capital that was not at risk.
+        const holder =
+          event.positionId !== undefined ? positions.get(event.positionId) : undefined;
+        if (event.positionId !== undefined && !holder) {
+          recordSkip(event, order, "position-absent");
+          break;
+        }
+        const deltas = economicFlowDeltas(event, holder?.lots);
+        if (!applyTieredLeg(event.reserveId, deltas, event, order)) {
+          break;
+        }
+        const reserve = reserves.get(event.reserveId) as ReserveRecord;
+        economicEntries.push({
+          eventId: event.id,
+          asOf: event.asOf,
+          flow: event.type === "IncomeReceived" ? "income" : "cost",
+          kind: event.kind,
+          reserveId: event.reserveId,
+          ...(event.positionId !== undefined ? { positionId: event.positionId } : {}),
+          tempo: holder?.tempo ?? reserve.tempo,
+          amountUsd: toUsd(deltas.reduce((sum, delta) => sum + delta.amount, 0), reserve.currency, rates),
+          tierAttribution: deltas.map((delta) => ({
+            tier: delta.tier,
+            amountUsd: toUsd(delta.amount, reserve.currency, rates),
+          })),
+        });
+        break;
+      }
       default: {
         // EXHAUSTIVENESS LATCH — compile-time first, fail-loud second. The fold's
         // switch has no return obligation, so a forgotten verb used to compile clean
@@ -922,7 +1061,11 @@ export function foldEvents(
   return {
     data: {
       fund: structuredClone(genesis.fund),
-      review: { asOf: asOf ?? latestAsOf, usdMxn },
+      review: {
+        asOf: asOf ?? latestAsOf,
+        usdMxn: rates.usdMxn,
+        ...(Object.keys(rates.fx).length > 0 ? { fx: { ...rates.fx } } : {}),
+      },
       portfolios: structuredClone(genesis.portfolios),
       accounts: structuredClone(genesis.accounts),
       instruments: structuredClone(genesis.instruments),
@@ -930,6 +1073,7 @@ export function foldEvents(
       positions: [...positions.values()],
       closes,
       closedPositions,
+      ...(economicEntries.length > 0 ? { economicEntries } : {}),
     },
     skipped,
   };
@@ -960,11 +1104,11 @@ function buildClosedPosition(
   closedAsOf: string,
   proceedsNative: number,
   settlementCurrency: PositionRecord["currency"],
-  reviewFx: number,
+  rates: FxRates,
   partial = false,
   markPrice?: number,
 ): ClosedPositionRecord {
-  const proceedsUsd = toUsd(proceedsNative, settlementCurrency, reviewFx);
+  const proceedsUsd = toUsd(proceedsNative, settlementCurrency, rates);
 
   // Cost basis in USD, per Tier: each lot converts at its own entry FX (ADR-002).
   // `lots` is the CLOSED subset — the whole position on a full close, or just the
@@ -972,7 +1116,10 @@ function buildClosedPosition(
   const costUsdByTier = new Map<CapitalTier, number>();
   let costBasisUsd = 0;
   for (const lot of lots) {
-    const lotCostUsd = toUsd(lot.quantity * lot.cost, closing.currency, lot.entryFx ?? reviewFx);
+    const lotCostUsd =
+      lot.entryFx === undefined
+        ? toUsd(lot.quantity * lot.cost, closing.currency, rates)
+        : toUsdAtRate(lot.quantity * lot.cost, closing.currency, lot.entryFx);
     costUsdByTier.set(lot.tier, (costUsdByTier.get(lot.tier) ?? 0) + lotCostUsd);
     costBasisUsd += lotCostUsd;
   }
@@ -1004,11 +1151,16 @@ function buildClosedPosition(
   // NAV-honesty disclosure (R2/M2), partial rows only: value the removed units at the
   // latest mark and surface the fill-vs-mark delta. `deltaUsd ≈ 0` ⇒ settle-at-mark
   // (NAV conserved); `deltaUsd ≠ 0` ⇒ an off-mark fill that legitimately moved NAV.
+  // Valued through `lotMarketValue`, so a short's removed lots read as collateral plus
+  // open result — the same figure the compose gate carried them at.
   const markVsFill =
     partial && markPrice !== undefined
       ? (() => {
-          const removedQuantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
-          const markValueUsd = toUsd(removedQuantity * markPrice, closing.currency, reviewFx);
+          const removedNative = lots.reduce(
+            (sum, lot) => sum + lotMarketValue(lot, markPrice, closing.direction),
+            0,
+          );
+          const markValueUsd = toUsd(removedNative, closing.currency, rates);
           return { markValueUsd, proceedsUsd, deltaUsd: proceedsUsd - markValueUsd };
         })()
       : undefined;
@@ -1021,6 +1173,10 @@ function buildClosedPosition(
     direction: closing.direction,
     ...(closing.openedAsOf !== undefined ? { openedAsOf: closing.openedAsOf } : {}),
     closedAsOf,
+    ...(closing.decision !== undefined ? { decision: { ...closing.decision } } : {}),
+    ...(closing.decisionRevisedAsOf !== undefined
+      ? { decisionRevisedAsOf: closing.decisionRevisedAsOf }
+      : {}),
     costBasisUsd,
     proceedsUsd,
     realizedPnlUsd: proceedsUsd - costBasisUsd,
@@ -1030,6 +1186,56 @@ function buildClosedPosition(
   };
 }
 
+/** One fill's `fees` disclosure in USD, converted at the rate in force on the fill. */
+function feesToUsd(fees: CashLegFees, rates: FxRates): TradingCosts {
+  return {
+    venueFeeUsd: toUsd(fees.venueFee, fees.currency, rates),
+    slippageUsd: toUsd(fees.slippage ?? 0, fees.currency, rates),
+  };
+}
+
+/** Sum two optional friction figures; undefined only when neither side disclosed any. */
+function sumTradingCosts(
+  a: TradingCosts | undefined,
+  b: TradingCosts | undefined,
+): TradingCosts | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    venueFeeUsd: a.venueFeeUsd + b.venueFeeUsd,
+    slippageUsd: a.slippageUsd + b.slippageUsd,
+  };
+}
+
+function scaleTradingCosts(costs: TradingCosts, share: number): TradingCosts {
+  return { venueFeeUsd: costs.venueFeeUsd * share, slippageUsd: costs.slippageUsd * share };
+}
+
+/** Σ quantity × cost in the position's native currency. */
+function nativeCost(lots: PositionLot[]): number {
+  return lots.reduce((sum, lot) => sum + lot.quantity * lot.cost, 0);
+}
+
+/**
+ * Attach the disclosed friction to a closed-book row and derive its Price P&L. The
+ * row's `realizedPnlUsd` is untouched — it is Trading P&L, what the cash legs
+ * actually did — and Price P&L adds the friction back. No costs, no keys: a row whose
+ * fills disclosed nothing stays byte-identical to the row the book always emitted.
+ */
+function withTradingCosts(
+  row: ClosedPositionRecord,
+  costs: TradingCosts | undefined,
+): ClosedPositionRecord {
+  if (!costs) {
+    return row;
+  }
+  return {
+    ...row,
+    tradingCosts: costs,
+    pricePnlUsd: row.realizedPnlUsd + costs.venueFeeUsd + costs.slippageUsd,
+  };
+}
+
 /**
  * THE PARTIAL-REMOVAL SEAM. Take `quantity` out of the lots that belong to `tier`,
  * PRO-RATA across those lots
@@ -8,21 +8,25 @@
  * Per ADR-001 this is pure validation LOGIC; loading ids off disk lives in the TUI.
  * See ADR-003 (and its cash-leg amendment) for the versioning/migration contract.
  */
-import type { CapitalTier, PositionLot } from "../contracts.js";
+import type { CapitalTier, CostKind, IncomeKind, PositionLot } from "../contracts.js";
 import {
   invalidLotFields,
   isDirection,
   isExecutionMode,
+  isFiniteNumber,
   isIsoDate,
+  isNonNegativeNumber,
   isPositiveNumber,
   isRecord,
   isSupportedCurrency,
   requireNonEmptyString,
 } from "../internal.js";
 import type {
+  CashLegFees,
   CloseSettlement,
   EventError,
   EventParseResult,
+  FxMarkedEvent,
   OpenFunding,
   PositionAddedToEvent,
   PositionDecision,
@@ -143,6 +147,14 @@ export function parseEvent(input: unknown): EventParseResult {
       return parseInvalidationMarked(input, id, asOf);
     case "ReserveOpened":
       return parseReserveOpened(input, id, asOf);
+    case "IncomeReceived":
+      return parseEconomicFlow(input, id, asOf, "IncomeReceived");
+    case "CostCharged":
+      return parseEconomicFlow(input, id, asOf, "CostCharged");
+    case "DecisionRevised":
+      return parseDecisionRevised(input, id, asOf);
+    case "FxMarked":
+      return parseFxMarked(input, id, asOf);
     default:
       return eventError("type", `Unsupported event type: ${String(input.type)}`);
   }
@@ -189,6 +201,38 @@ function parseTier(value: unknown, path: string): { tier: CapitalTier } | EventE
   return { tier: value };
 }
 
+/**
+ * Narrow the optional `fees` friction disclosure a fill may carry. Absent is the
+ * common case and yields no key, so an event without fees parses to exactly the shape
+ * it always did. Present, it must be a whole disclosure: a non-negative `venueFee`, a
+ * supported fee `currency`, and — if given — a finite signed `slippage`. Whether the
+ * currency belongs to THIS fill is the cross-ref gate's question.
+ */
+function parseFees(value: unknown): { fees?: CashLegFees } | EventError {
+  if (value === undefined) {
+    return {};
+  }
+  if (!isRecord(value)) {
+    return eventError("fees", "fees, when present, must be an object.");
+  }
+  if (!isNonNegativeNumber(value.venueFee)) {
+    return eventError("fees.venueFee", "fees.venueFee must be a non-negative number.");
+  }
+  if (!isSupportedCurrency(value.currency)) {
+    return eventError("fees.currency", "fees.currency must be a supported currency.");
+  }
+  if (value.slippage !== undefined && !isFiniteNumber(value.slippage)) {
+    return eventError("fees.slippage", "fees.slippage, when present, must be a finite number.");
+  }
+  return {
+    fees: {
+      venueFee: value.venueFee,
+      currency: value.currency,
+      ...(value.slippage !== undefined ? { slippage: value.slippage } : {}),
+    },
+  };
+}
+
 /** Deposit and Withdraw share the same `{ reserveId, amount, tier }` cash shape. */
 function parseReserveMove(
   input: Record<string, unknown>,
@@ -213,6 +257,59 @@ function parseReserveMove(
   };
 }
 
+const INCOME_KINDS: readonly IncomeKind[] = ["dividend", "staking", "interest", "funding"];
+const COST_KINDS: readonly CostKind[] = ["funding", "borrow", "interest"];
+
+/**
+ * Validate an `IncomeReceived`/`CostCharged` in isolation: a `kind` from the verb's own
+ * closed list, a non-empty `reserveId`, a positive `amount`, and EXACTLY ONE of
+ * `positionId` or `tier`. A position-tied flow takes its tier mix from the position's
+ * lots, so a `tier` beside it would be a second answer the fold has to ignore — refused
+ * rather than silently dropped. Whether the ids exist is the cross-ref gate's job.
+ */
+function parseEconomicFlow(
+  input: Record<string, unknown>,
+  id: string,
+  asOf: string,
+  type: "IncomeReceived" | "CostCharged",
+): EventParseResult {
+  const kinds: readonly string[] = type === "IncomeReceived" ? INCOME_KINDS : COST_KINDS;
+  if (typeof input.kind !== "string" || !kinds.includes(input.kind)) {
+    return eventError("kind", `${type} kind must be one of: ${kinds.join(", ")}.`);
+  }
+  const reserveError = requireNonEmptyString(input.reserveId, "reserveId");
+  if (reserveError) {
+    return eventError("reserveId", reserveError.message);
+  }
+  if (!isPositiveNumber(input.amount)) {
+    return eventError("amount", `${type} amount must be a positive number.`);
+  }
+  const base = { id, asOf, reserveId: input.reserveId as string, amount: input.amount };
+  if (input.positionId !== undefined) {
+    const positionError = requireNonEmptyString(input.positionId, "positionId");
+    if (positionError) {
+      return eventError("positionId", positionError.message);
+    }
+    if (input.tier !== undefined) {
+      return eventError(
+        "tier",
+        `${type} tied to a position takes its tiers from the position's lots; omit tier.`,
+      );
+    }
+    const positionId = input.positionId as string;
+    return type === "IncomeReceived"
+      ? { kind: "ok", value: { ...base, type, kind: input.kind as IncomeKind, positionId } }
+      : { kind: "ok", value: { ...base, type, kind: input.kind as CostKind, positionId } };
+  }
+  const tier = parseTier(input.tier, "tier");
+  if ("kind" in tier) {
+    return tier;
+  }
+  return type === "IncomeReceived"
+    ? { kind: "ok", value: { ...base, type, kind: input.kind as IncomeKind, tier: tier.tier } }
+    : { kind: "ok", value: { ...base, type, kind: input.kind as CostKind, tier: tier.tier } };
+}
+
 function parseTransfer(
   input: Record<string, unknown>,
   id: string,
@@ -309,6 +406,10 @@ function parsePositionOpened(
   if (!isPositiveNumber(funding.amount)) {
     return eventError("funding.amount", "funding.amount must be a positive number.");
   }
+  const fees = parseFees(input.fees);
+  if ("kind" in fees) {
+    return fees;
+  }
 
   const value: PositionOpenedEvent = {
     id,
@@ -327,6 +428,7 @@ function parsePositionOpened(
     },
     decision: decisionValues,
     funding: { reserveId: funding.reserveId as string, amount: funding.amount },
+    ...fees,
   };
   return { kind: "ok", value };
 }
@@ -357,6 +459,10 @@ function parsePositionClosed(
   if (!isPositiveNumber(settlement.proceeds)) {
     return eventError("settlement.proceeds", "settlement.proceeds must be a positive number.");
   }
+  const fees = parseFees(input.fees);
+  if ("kind" in fees) {
+    return fees;
+  }
   return {
     kind: "ok",
     value: {
@@ -365,6 +471,7 @@ function parsePositionClosed(
       type: "PositionClosed",
       positionId: input.positionId as string,
       settlement: { reserveId: settlement.reserveId as string, proceeds: settlement.proceeds },
+      ...fees,
     },
   };
 }
@@ -402,6 +509,63 @@ function parseInvalidationMarked(
   };
 }
 
+/**
+ * Validate a `DecisionRevised` in isolation: a non-empty `positionId` and a `revision`
+ * object naming AT LEAST ONE of the five decision fields, each a non-empty string
+ * (trimmed, as `PositionOpened` trims them). Whether the Position exists and is still
+ * open is the cross-ref gate's job.
+ *
+ * AN UNKNOWN REVISION KEY IS REJECTED, NOT IGNORED. A misspelled field (`thesis` for
+ * `entryThesis`) would otherwise parse as an empty revision of everything else, and the
+ * operator would believe a belief was recorded that the fold never lays down.
+ */
+function parseDecisionRevised(
+  input: Record<string, unknown>,
+  id: string,
+  asOf: string,
+): EventParseResult {
+  const error = requireNonEmptyString(input.positionId, "positionId");
+  if (error) {
+    return eventError("positionId", error.message);
+  }
+  const revision = input.revision;
+  if (!isRecord(revision)) {
+    return eventError("revision", "DecisionRevised requires a revision object.");
+  }
+  const known: readonly string[] = REQUIRED_DECISION_FIELDS;
+  const unknownKey = Object.keys(revision).find((key) => !known.includes(key));
+  if (unknownKey !== undefined) {
+    return eventError(
+      `revision.${unknownKey}`,
+      `DecisionRevised may revise only ${REQUIRED_DECISION_FIELDS.join(", ")}.`,
+    );
+  }
+  const revisionValues: Partial<PositionDecision> = {};
+  for (const field of REQUIRED_DECISION_FIELDS) {
+    if (revision[field] === undefined) {
+      continue;
+    }
+    const fieldError = requireNonEmptyString(revision[field], `revision.${field}`);
+    if (fieldError) {
+      return eventError(`revision.${field}`, fieldError.message);
+    }
+    revisionValues[field] = (revision[field] as string).trim();
+  }
+  if (Object.keys(revisionValues).length === 0) {
+    return eventError("revision", "DecisionRevised must revise at least one decision field.");
+  }
+  return {
+    kind: "ok",
+    value: {
+      id,
+      asOf,
+      type: "DecisionRevised",
+      positionId: input.positionId as string,
+      revision: revisionValues,
+    },
+  };
+}
+
 /**
  * Validate a `ReserveOpened` in isolation: a nested `reserve` object with non-empty
  * `id`/`portfolioId`/`tempo`/`accountId`, a supported `executionMode` and
@@ -496,6 +660,35 @@ function parsePriceMarked(
   return { kind: "ok", value };
 }
 
+/**
+ * Validate an `FxMarked` in isolation: a supported `currency` other than USD, and a
+ * positive `rate`. Whether the rate is plausible against the one in force is the
+ * cross-ref gate's job.
+ */
+function parseFxMarked(
+  input: Record<string, unknown>,
+  id: string,
+  asOf: string,
+): EventParseResult {
+  if (!isSupportedCurrency(input.currency) || input.currency === "USD") {
+    return eventError(
+      "currency",
+      "FxMarked currency must be a supported currency other than USD.",
+    );
+  }
+  if (!isPositiveNumber(input.rate)) {
+    return eventError("rate", "FxMarked rate must be a positive number of units per USD.");
+  }
+  const value: FxMarkedEvent = {
+    id,
+    asOf,
+    type: "FxMarked",
+    currency: input.currency,
+    rate: input.rate,
+  };
+  return { kind: "ok", value };
+}
+
 /**
  * Narrow one untrusted lot record at `path` to a {@link PositionLot} or error.
  *
@@ -581,6 +774,10 @@ function parsePositionTrimmed(
   if (!isPositiveNumber(settlement.proceeds)) {
     return eventError("settlement.proceeds", "settlement.proceeds must be a positive number.");
   }
+  const fees = parseFees(input.fees);
+  if ("kind" in fees) {
+    return fees;
+  }
   const value: PositionTrimmedEvent = {
     id,
     asOf,
@@ -588,6 +785,7 @@ function parsePositionTrimmed(
     positionId: input.positionId as string,
     removals,
     settlement: { reserveId: settlement.reserveId as string, proceeds: settlement.proceeds },
+    ...fees,
   };
   return { kind: "ok", value };
 }
@@ -621,6 +819,10 @@ function parsePositionAddedTo(
   if (!isPositiveNumber(funding.amount)) {
     return eventError("funding.amount", "funding.amount must be a positive number.");
   }
+  const fees = parseFees(input.fees);
+  if ("kind" in fees) {
+    return fees;
+  }
   const value: PositionAddedToEvent = {
     id,
     asOf,
@@ -628,6 +830,7 @@ function parsePositionAddedTo(
     positionId: input.positionId as string,
     lot,
     funding: { reserveId: funding.reserveId as string, amount: funding.amount },
+    ...fees,
   };
   return { kind: "ok", value };
 }
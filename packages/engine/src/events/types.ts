@@ -9,9 +9,11 @@
  */
 import type {
   CapitalTier,
+  CostKind,
   Currency,
   Direction,
   ExecutionMode,
+  IncomeKind,
   PositionLot,
 } from "../contracts.js";
 
@@ -25,7 +27,11 @@ export type PortfolioEventType =
   | "Withdraw"
   | "Transfer"
   | "InvalidationMarked"
-  | "ReserveOpened";
+  | "ReserveOpened"
+  | "IncomeReceived"
+  | "CostCharged"
+  | "DecisionRevised"
+  | "FxMarked";
 
 /**
  * The side a price must cross to breach a
@@ -54,8 +60,9 @@ interface BaseEvent {
 
 /**
  * The cash leg of an open: the Reserve that funded the buy, and the actual cash
- * debited (net of fees). The debit is split across the funded Tiers in proportion
- * to the position lots' own cost-basis weights (cash carries its provenance).
+ * debited (net of fees; the event's optional {@link CashLegFees} says how much). The
+ * debit is split across the funded Tiers in proportion to the position lots' own
+ * cost-basis weights (cash carries its provenance).
  */
 export interface OpenFunding {
   reserveId: string;
@@ -64,14 +71,35 @@ export interface OpenFunding {
 
 /**
  * The cash leg of a close: the Reserve that received the sale, and the actual cash
- * received (net of fees). Proceeds inherit the closed position's Tier mix
- * proportionally — the realized gain/loss falls on the same Tier it was risked on.
+ * received (net of fees; the event's optional {@link CashLegFees} says how much).
+ * Proceeds inherit the closed position's Tier mix proportionally — the realized
+ * gain/loss falls on the same Tier it was risked on.
  */
 export interface CloseSettlement {
   reserveId: string;
   proceeds: number;
 }
 
+/**
+ * Trading friction disclosed on one fill, riding beside its cash leg. The cash leg
+ * itself does not change meaning: `funding.amount` and `settlement.proceeds` stay the
+ * cash that actually moved, fees and slippage already inside them. This block reports
+ * HOW MUCH of that movement was friction, so the closed book can separate Price P&L
+ * from Trading P&L instead of reporting one blended figure.
+ *
+ * - `venueFee` — the venue's commission on the fill, in `currency`. Never negative.
+ * - `currency` — what the venue charged the fee in: the position's currency or the
+ *   cash leg's Reserve currency (the cross-ref gate refuses any other).
+ * - `slippage` — what filling away from the intended price cost, in `currency`.
+ *   Signed: positive is a cost, negative is price improvement. Optional; absent is
+ *   "not measured", which the fold treats as zero.
+ */
+export interface CashLegFees {
+  venueFee: number;
+  currency: Currency;
+  slippage?: number;
+}
+
 export interface PositionOpenedEvent extends BaseEvent {
   type: "PositionOpened";
   position: {
@@ -88,6 +116,8 @@ export interface PositionOpenedEvent extends BaseEvent {
   decision: PositionDecision;
   /** Cash leg: debit this Reserve. The asset leg cannot be opened without it. */
   funding: OpenFunding;
+  /** Optional friction disclosure for this fill. */
+  fees?: CashLegFees;
 }
 
 export interface PositionClosedEvent extends BaseEvent {
@@ -95,6 +125,8 @@ export interface PositionClosedEvent extends BaseEvent {
   positionId: string;
   /** Cash leg: credit this Reserve. The asset leg cannot be retired without it. */
   settlement: CloseSettlement;
+  /** Optional friction disclosure for this fill. */
+  fees?: CashLegFees;
 }
 
 /**
@@ -125,6 +157,8 @@ export interface PositionTrimmedEvent extends BaseEvent {
   removals: TierRemoval[];
   /** Cash leg: credit this Reserve with the proceeds of the removed portion. */
   settlement: CloseSettlement;
+  /** Optional friction disclosure for this fill. */
+  fees?: CashLegFees;
 }
 
 /**
@@ -139,6 +173,8 @@ export interface PositionAddedToEvent extends BaseEvent {
   lot: PositionLot;
   /** Cash leg: debit this Reserve to fund the new lot. */
   funding: OpenFunding;
+  /** Optional friction disclosure for this fill. */
+  fees?: CashLegFees;
 }
 
 /** External capital arriving into a Reserve, classified at arrival by `tier`. */
@@ -178,6 +214,23 @@ export interface PriceMarkedEvent extends BaseEvent {
   usdMxn?: number;
 }
 
+/**
+ * The FX counterpart of `PriceMarked`: one currency's rate against USD, as of `asOf`.
+ * Latest-wins per `currency`, exactly as a price mark is per instrument. An MXN mark
+ * sets `review.usdMxn` — the field a derived mark's `usdMxn` snapshot also sets — and
+ * every other currency's sets its entry in `review.fx`.
+ *
+ * MOVES NO CAPITAL. It changes what every non-USD amount is worth in USD from its
+ * date on, the way a price mark changes what a position is worth.
+ */
+export interface FxMarkedEvent extends BaseEvent {
+  type: "FxMarked";
+  /** Any supported currency but USD, which has no rate against itself. */
+  currency: Exclude<Currency, "USD">;
+  /** Units of `currency` per one USD. */
+  rate: number;
+}
+
 /**
  * Sets (or revises) the structured
  * invalidation level of an OPEN Position — the price + direction the thesis breaks
@@ -194,6 +247,24 @@ export interface InvalidationMarkedEvent extends BaseEvent {
   direction: InvalidationDirection;
 }
 
+/**
+ * Supersedes one or more of an OPEN Position's five {@link PositionDecision} fields —
+ * the thesis moved, the horizon stretched, the risk budget was cut. Latest-wins PER
+ * FIELD per `positionId`: a revision names only the fields it changes, and every field
+ * it leaves out stands as last set (by `PositionOpened` or an earlier revision).
+ *
+ * MOVES NO CAPITAL, like `InvalidationMarked`. The fold lays it over the Position's
+ * decision in force, and a close carries that decision onto its closed-book row, so
+ * the book can answer "what did I believe when I closed this" — not only what was
+ * believed at the open. The `PositionOpened` payload itself is never rewritten.
+ */
+export interface DecisionRevisedEvent extends BaseEvent {
+  type: "DecisionRevised";
+  positionId: string;
+  /** The superseding fields — at least one, each non-empty. */
+  revision: Partial<PositionDecision>;
+}
+
 /**
  * Birth an EMPTY cash Reserve after t0 — the verb that lets a new venue (or a new
  * Tempo's cash pocket at an existing venue) enter the fund without editing the
@@ -227,6 +298,46 @@ export interface ReserveOpenedEvent extends BaseEvent {
   };
 }
 
+/**
+ * Cash a holding EARNED, credited into a Reserve: a dividend, a staking reward, interest
+ * on idle cash, a funding payment received. The Economic P&L half of the glossary that
+ * `Deposit` used to fake — a Deposit says "capital arrived from outside", which is false
+ * for a reward and put the reward's tier wherever the operator guessed.
+ *
+ * TIED TO A POSITION OR TO A RESERVE, never both, and the tie decides the tier:
+ *
+ * - With `positionId`, the credit inherits the position's lot Tier mix exactly as a
+ *   close's proceeds do — the yield falls on the capital that was at risk earning it —
+ *   so `tier` is refused. The position must be open on `asOf`.
+ * - Without one, it is income on the Reserve's own cash and `tier` is required.
+ *
+ * `amount` is the cash credited, in the Reserve's currency. Not a capital movement: the
+ * closed book carries it as Economic P&L beside realized, by Tempo and by Tier.
+ */
+export interface IncomeReceivedEvent extends BaseEvent {
+  type: "IncomeReceived";
+  kind: IncomeKind;
+  reserveId: string;
+  amount: number;
+  positionId?: string;
+  tier?: CapitalTier;
+}
+
+/**
+ * Cash a holding COST, debited from a Reserve: funding paid on a perpetual, borrow fees
+ * on a short, margin interest. The debit mirror of {@link IncomeReceivedEvent}, with the
+ * same position-or-reserve tie and the same tier rule; with a `positionId` the debit is
+ * split like an open's funding, by the lots' cost-basis weights.
+ */
+export interface CostChargedEvent extends BaseEvent {
+  type: "CostCharged";
+  kind: CostKind;
+  reserveId: string;
+  amount: number;
+  positionId?: string;
+  tier?: CapitalTier;
+}
+
 export type PortfolioEvent =
   | PositionOpenedEvent
   | PositionClosedEvent
@@ -237,7 +348,11 @@ export type PortfolioEvent =
   | WithdrawEvent
   | TransferEvent
   | InvalidationMarkedEvent
-  | ReserveOpenedEvent;
+  | ReserveOpenedEvent
+  | IncomeReceivedEvent
+  | CostChargedEvent
+  | DecisionRevisedEvent
+  | FxMarkedEvent;
 
 export interface EventOk {
   kind: "ok";
@@ -18,7 +18,7 @@
  * a rate fetched in here would make the output depend on when it was asked.
  */
 import type { Currency, PositionLot } from "./contracts.js";
-import { toUsd } from "./internal.js";
+import { toUsdAtRate } from "./internal.js";
 import type { TornFillAct } from "./orders/fill.js";
 import type { OrderPlacedRecord, OrderRecord } from "./orders/records.js";
 import { proposeRungByPrice, type InForceLadder } from "./orders/rung-picks.js";
@@ -134,7 +134,10 @@ export interface FillPathInput {
   tornActs: readonly TornFillAct[];
   /** The position's denomination. Absent reads as `USD`, which needs no conversion at all. */
   currency?: Currency;
-  /** The per-lot `entryFx` fallback. PASSED, never fetched — see the module header. */
+  /**
+   * The review's rate for `currency` (units per USD; `usdRateOf`), the per-lot
+   * `entryFx` fallback. PASSED, never fetched — see the module header.
+   */
   reviewFx?: number;
 }
 
@@ -321,7 +324,11 @@ function measure(
   let deployedUsd = 0;
   let unitsAcquired = 0;
   for (const lot of lots) {
-    deployedUsd += toUsd(lot.quantity * lot.cost, currency, lot.entryFx ?? (reviewFx as number));
+    deployedUsd += toUsdAtRate(
+      lot.quantity * lot.cost,
+      currency,
+      lot.entryFx ?? (reviewFx as number),
+    );
     unitsAcquired += lot.quantity;
   }
   // THE ABSENT-NEVER-ZERO GATE. Present means positive; anything else means no fill was
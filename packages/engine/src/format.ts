@@ -6,18 +6,33 @@
 import type {
   Currency,
   ClosedBook,
+  ClosedPositionRecord,
   CompositionReport,
+  CompositionReportDiff,
   CompositionRow,
+  CompositionRowChange,
   DashboardFocus,
   DashboardSectionId,
+  DecisionInForce,
+  EconomicPnl,
+  EconomicRollupRow,
+  ExposureSummary,
   InvalidationWatchRow,
+  NavHistory,
+  PerformanceReport,
+  PerformanceSeries,
   PriceJourney,
   RealizedRollupRow,
+  ReserveBalanceChange,
   ReserveReconciliationLine,
 } from "./contracts.js";
+import type { PerspectiveColumn, PerspectiveRow, PerspectiveView } from "./perspectives.js";
+import type { PeriodCloseAllocationChange, PeriodCloseDiff } from "./period-close.js";
 import type { ProfitSplit } from "./compose/profit-split.js";
 import type { AvailableCapitalReport } from "./orders/available.js";
+import type { AvailableUnitsReport } from "./orders/encumbered.js";
 import { isNegativeSlack } from "./orders/committed.js";
+import type { IntradayMovement } from "./price-feed/price-store.js";
 
 export function formatUsd(value: number): string {
   return new Intl.NumberFormat("en-US", {
@@ -56,6 +71,15 @@ export function padLeft(value: string, width: number): string {
   return value.length > width ? value.slice(0, width) : value.padStart(width);
 }
 
+/** The review's rates, MXN first: `Manual FX: 1 USD = 17.3100 MXN · 0.9182 EUR`. */
+export function formatManualFx(totals: CompositionReport["totals"]): string {
+  const rates = [
+    `${totals.usdMxn.toFixed(4)} MXN`,
+    ...Object.entries(totals.fx ?? {}).map(([currency, rate]) => `${rate.toFixed(4)} ${currency}`),
+  ];
+  return `Manual FX: 1 USD = ${rates.join(" · ")}`;
+}
+
 export function divider(): string {
   return "=".repeat(36);
 }
@@ -75,14 +99,12 @@ export function formatCompositionReport(
     "Canonical Summary",
     `Fund value: ${formatUsd(report.totals.fundValueUsd)}`,
     `Unrealized P&L: ${formatUsd(report.dashboard.summary.totalUnrealizedPnlUsd)}`,
-    `Manual FX: 1 USD = ${report.totals.usdMxn.toFixed(4)} MXN`,
+    formatManualFx(report.totals),
     `Mode filter: live only; ${report.excluded.nonLive} non-live record(s) excluded`,
     `Record safety: ${report.excluded.invalid} invalid record(s) excluded`,
-    ...(report.excluded.shortDeferred > 0
-      ? [
-          `Short direction: ${report.excluded.shortDeferred} deferred short record(s) excluded`,
-        ]
-      : []),
+    // Only a book that actually holds a short gets the exposure line — an all-long
+    // Fund's exposure is its position value, and repeating it would be noise.
+    ...(report.exposure.shortUsd !== 0 ? [formatExposure(report.exposure)] : []),
     "",
     formatRows("Portfolio Composition", sectionRows(report, "portfolios")),
     "",
@@ -114,6 +136,18 @@ export function formatCompositionReport(
   if (blotter) {
     sections.push("", blotter);
   }
+  const economic = formatEconomicPnl(report.closedBook.economic);
+  if (economic) {
+    sections.push("", economic);
+  }
+  const performance = formatPerformance(report.performance);
+  if (performance) {
+    sections.push("", performance);
+  }
+  const navHistory = formatNavHistory(report.navHistory);
+  if (navHistory) {
+    sections.push("", navHistory);
+  }
   const watch = formatInvalidationWatch(report.invalidationWatch);
   if (watch) {
     sections.push("", watch);
@@ -142,9 +176,10 @@ export function formatCompositionReport(
 
 /**
  * Render the trade blotter: one row per
- * closed position with realized Trading P&L, then realized rolled up by Tempo and by
- * Tier, then the grand total — flagged descriptive-only so it is never mistaken for
- * an addition to NAV. Returns "" when the closed book is empty.
+ * closed position with realized Trading P&L, then the decision each row was booked
+ * under, then realized rolled up by Tempo and by Tier, then the grand total — flagged
+ * descriptive-only so it is never mistaken for an addition to NAV. Returns "" when the
+ * closed book is empty.
  */
 export function formatClosedBook(book: ClosedBook): string {
   if (book.rows.length === 0) {
@@ -166,15 +201,62 @@ export function formatClosedBook(book: ClosedBook): string {
     header,
     "-".repeat(header.length),
     ...body,
+    ...formatDecisionsAtClose(book.rows),
     "",
     formatRealizedRollup("Realized by Tempo", book.byTempo),
     "",
     formatRealizedRollup("Realized by Tier", book.byTier),
     "",
     `Total realized since genesis: ${formatUsd(book.totalRealizedPnlUsd)}`,
+    ...(book.totalPricePnlUsd !== undefined && book.totalTradingCosts
+      ? [
+          `  Price P&L ${formatUsd(book.totalPricePnlUsd)} − fees ` +
+            `${formatUsd(book.totalTradingCosts.venueFeeUsd)} − slippage ` +
+            `${formatUsd(book.totalTradingCosts.slippageUsd)} = Trading P&L ` +
+            `${formatUsd(book.totalRealizedPnlUsd)}`,
+        ]
+      : []),
   ].join("\n");
 }
 
+/** The decision fields under a closed-book row, labelled in the order they were decided. */
+const DECISION_AT_CLOSE_LABELS: Array<[keyof DecisionInForce, string]> = [
+  ["entryThesis", "Thesis"],
+  ["invalidationCondition", "Invalidation"],
+  ["riskBudget", "Risk budget"],
+  ["plannedHoldingHorizon", "Horizon"],
+];
+
+/**
+ * The decision in force when each row was booked, so the blotter answers "what did I
+ * believe when I closed this". A row says whether that is the opening decision or a
+ * revision, and when. The strategy is already a blotter column and is not repeated.
+ * Empty (no lines at all) when no row carries a decision, e.g. a genesis-only book.
+ */
+function formatDecisionsAtClose(rows: ClosedPositionRecord[]): string[] {
+  const decided = rows.filter((row) => row.decision !== undefined);
+  if (decided.length === 0) {
+    return [];
+  }
+  const title = "Decision at close";
+  const lines = ["", title, "-".repeat(title.length)];
+  for (const row of decided) {
+    const booked = row.partial ? "trimmed" : "closed";
+    const basis =
+      row.decisionRevisedAsOf !== undefined
+        ? `as revised ${row.decisionRevisedAsOf}`
+        : "as opened";
+    lines.push(`${row.positionId} (${row.instrumentId}) ${booked} ${row.closedAsOf}, ${basis}`);
+    for (const [field, label] of DECISION_AT_CLOSE_LABELS) {
+      const value = row.decision?.[field];
+      if (value !== undefined) {
+        lines.push(`  ${pad(`${label}:`, 14)}${value}`);
+      }
+    }
+  }
+  return lines;
+}
+
 function formatRealizedRollup(title: string, rows: RealizedRollupRow[]): string {
   const header = `${pad("Key", 14)} ${padLeft("Cost", 12)} ${padLeft("Proceeds", 12)} ${padLeft("Realized", 12)}`;
   const body = rows.map((row) =>
@@ -183,6 +265,328 @@ function formatRealizedRollup(title: string, rows: RealizedRollupRow[]): string
   return [title, "-".repeat(title.length), header, ...body].join("\n");
 }
 
+/**
+ * Render the Economic P&L layer: each income and carry-cost entry, then realized plus
+ * income minus costs rolled up by Tempo and by Tier, then the grand total. Rendered
+ * apart from the blotter because a fund can earn yield before it ever closes a trade.
+ * Returns "" when the log carries no income or cost.
+ */
+export function formatEconomicPnl(economic: EconomicPnl | undefined): string {
+  if (!economic) {
+    return "";
+  }
+  const title = "Economic P&L — realized + income − carry costs";
+  const body = economic.entries.map((entry) =>
+    `${pad(entry.asOf, 11)} ${pad(entry.flow, 7)} ${pad(entry.kind, 9)} ` +
+    `${pad(entry.positionId ?? entry.reserveId, 20)} ${pad(entry.tempo, 10)} ` +
+    `${padLeft(formatUsd(entry.amountUsd), 12)}`,
+  );
+  return [
+    title,
+    "-".repeat(title.length),
+    "Descriptive only — income and costs already moved a Reserve; NOT re-added to NAV.",
+    ...body,
+    "",
+    formatEconomicRollup("Economic P&L by Tempo", economic.byTempo),
+    "",
+    formatEconomicRollup("Economic P&L by Tier", economic.byTier),
+    "",
+    `Realized ${formatUsd(economic.totalRealizedPnlUsd)} ` +
+      `+ income ${formatUsd(economic.totalIncomeUsd)} − costs ${formatUsd(economic.totalCostsUsd)} ` +
+      `= Economic P&L ${formatUsd(economic.totalEconomicPnlUsd)}`,
+  ].join("\n");
+}
+
+function formatEconomicRollup(title: string, rows: EconomicRollupRow[]): string {
+  const header = `${pad("Key", 14)} ${padLeft("Realized", 12)} ${padLeft("Income", 12)} ${padLeft("Costs", 12)} ${padLeft("Economic", 12)}`;
+  const body = rows.map((row) =>
+    `${pad(row.key, 14)} ${padLeft(formatUsd(row.realizedPnlUsd), 12)} ${padLeft(formatUsd(row.incomeUsd), 12)} ` +
+    `${padLeft(formatUsd(row.costsUsd), 12)} ${padLeft(formatUsd(row.economicPnlUsd), 12)}`,
+  );
+  return [title, "-".repeat(title.length), header, ...body].join("\n");
+}
+
+/**
+ * Render the performance section: the Fund's TWR and annualized IRR over the window,
+ * then one line per Tempo and per Portfolio. Net flows are shown beside the returns
+ * because they are what the returns exclude, and any flow left out for want of a rate
+ * is listed beneath. Returns "" when no performance was composed for this report.
+ */
+export function formatPerformance(performance: PerformanceReport | undefined): string {
+  if (!performance) {
+    return "";
+  }
+  const title = `Performance ${performance.from} → ${performance.to}`;
+  const header = `${pad("Series", 20)} ${padLeft("Start", 12)} ${padLeft("Net flows", 12)} ${padLeft("End", 12)} ${padLeft("TWR", 9)} ${padLeft("IRR/yr", 9)}`;
+  const line = (series: PerformanceSeries): string =>
+    `${pad(series.label, 20)} ${padLeft(formatUsd(series.startValueUsd), 12)} ` +
+    `${padLeft(formatUsd(series.netFlowsUsd), 12)} ${padLeft(formatUsd(series.endValueUsd), 12)} ` +
+    `${padLeft(formatSignedPercent(series.twr * 100), 9)} ` +
+    `${padLeft(series.irr === undefined ? "-" : formatSignedPercent(series.irr * 100), 9)}`;
+  return [
+    title,
+    "-".repeat(title.length),
+    `Returns exclude Deposits and Withdraws; ${performance.anchors.length} valuation date(s).`,
+    header,
+    "-".repeat(header.length),
+    line(performance.fund),
+    "",
+    "By Tempo",
+    ...performance.byTempo.map(line),
+    "",
+    "By Portfolio",
+    ...performance.byPortfolio.map(line),
+    ...(performance.warnings
+      ? ["", "Left out", ...performance.warnings.map((warning) => `- ${warning.message}`)]
+      : []),
+  ].join("\n");
+}
+
+/**
+ * Render the NAV history: the peak and the maximum drawdown with its recovery, then one
+ * line per valuation date with its drawdown from the running high and its Tempo split,
+ * then any flow the index had to leave out.
+ * Shared by `pnpm report` and the TUI so the two cannot show different series. Returns
+ * "" when no history was composed for this report.
+ */
+export function formatNavHistory(history: NavHistory | undefined): string {
+  if (!history) {
+    return "";
+  }
+  const first = history.points[0];
+  const last = history.points[history.points.length - 1];
+  const title = `NAV History ${first?.asOf ?? ""} → ${last?.asOf ?? ""}`;
+  const drawdown = history.maxDrawdown;
+  const summary = [
+    `Peak: ${formatUsd(history.peak.fundValueUsd)} on ${history.peak.asOf}`,
+    drawdown
+      ? `Max drawdown: ${formatSignedPercent(drawdown.maxDrawdownPct)} ` +
+        `(${drawdown.peakDate} ${formatUsd(drawdown.peakValueUsd)} → ` +
+        `${drawdown.troughDate} ${formatUsd(drawdown.troughValueUsd)})`
+      : "Max drawdown: none",
+    ...(drawdown
+      ? [
+          drawdown.recoveryDate !== undefined
+            ? `Recovered: ${drawdown.recoveryDate} (${drawdown.recoveryDays} day(s) after the trough)`
+            : "Recovered: not yet",
+        ]
+      : []),
+  ];
+  const header = `${pad("Date", 10)} ${padLeft("NAV", 14)} ${padLeft("Drawdown", 9)}  By Tempo`;
+  const body = history.points.map(
+    (point) =>
+      `${pad(point.asOf, 10)} ${padLeft(formatUsd(point.fundValueUsd), 14)} ` +
+      `${padLeft(formatSignedPercent(point.drawdownPct), 9)}  ` +
+      point.byTempo.map((row) => `${row.tempo} ${formatUsd(row.usdValue)}`).join(" / "),
+  );
+  return [
+    title,
+    "-".repeat(title.length),
+    ...summary,
+    "",
+    header,
+    "-".repeat(header.length),
+    ...body,
+    ...(history.warnings
+      ? ["", "Left out", ...history.warnings.map((warning) => `- ${warning.message}`)]
+      : []),
+  ].join("\n");
+}
+
+/**
+ * Render the diff of two period closes: NAV at both ends, each instrument's price
+ * move, the Tier and Tempo allocation at both ends, and where to find the journal
+ * entries written in between. A side that did not exist renders as "—".
+ */
+/**
+ * Render {@link CompositionReportDiff}: NAV at both dates, then each dashboard section's
+ * moved rows, the closed-book rows booked in between, newly crossed invalidation levels
+ * and Reserve balance changes. A section with nothing moved says so rather than vanish,
+ * so "no change" is never confused with "not compared".
+ */
+export function formatCompositionDiff(diff: CompositionReportDiff): string {
+  const title = `Changes ${diff.from} → ${diff.to}`;
+  const nav = diff.fundValueUsd;
+  const navPct = nav.from === 0 ? undefined : (nav.change / nav.from) * 100;
+  const lines = [
+    title,
+    "-".repeat(title.length),
+    `Fund value: ${formatUsd(nav.from)} → ${formatUsd(nav.to)} ` +
+      `(${formatSignedUsd(nav.change)}${navPct !== undefined ? `, ${formatSignedPercent(navPct)}` : ""})`,
+    ...(diff.usdMxn.from !== diff.usdMxn.to
+      ? [`USD/MXN: ${diff.usdMxn.from.toFixed(4)} → ${diff.usdMxn.to.toFixed(4)}`]
+      : []),
+  ];
+  for (const section of diff.sections) {
+    lines.push("", ...formatRowChanges(section.title, section.rows));
+  }
+
+  const closedTitle = `Closed since ${diff.from}`;
+  lines.push("", closedTitle, "-".repeat(closedTitle.length));
+  if (diff.closedBookRows.length === 0) {
+    lines.push("Nothing closed.");
+  } else {
+    lines.push(
+      ...diff.closedBookRows.map(
+        (row) =>
+          `${pad(row.positionId, 20)} ${pad(row.instrumentId, 12)} ` +
+          `${row.partial ? "trimmed" : "closed "} ${row.closedAsOf}  ` +
+          `realized ${padLeft(formatSignedUsd(row.realizedPnlUsd), 12)}`,
+      ),
+      `Realized P&L change: ${formatSignedUsd(diff.realizedPnlUsdChange)}`,
+    );
+  }
+
+  if (diff.newlyBreached.length > 0) {
+    const breachTitle = "Newly Breached";
+    lines.push(
+      "",
+      breachTitle,
+      "-".repeat(breachTitle.length),
+      ...diff.newlyBreached.map(
+        (row) =>
+          `${pad(row.positionId, 20)} ${pad(row.instrumentId, 10)} ` +
+          `mark ${formatPrice(row.markPrice, "USD")} ${row.direction} ${formatPrice(row.level, "USD")}  ⚠ THESIS INVALIDATED`,
+      ),
+    );
+  }
+
+  const reserveTitle = "Reserve Balances";
+  lines.push("", reserveTitle, "-".repeat(reserveTitle.length));
+  lines.push(
+    ...(diff.reserves.length > 0 ? diff.reserves.map(formatReserveChange) : ["No change."]),
+  );
+  return lines.join("\n");
+}
+
+function formatSignedUsd(value: number): string {
+  return `${value > 0 ? "+" : ""}${formatUsd(value)}`;
+}
+
+function formatRowChanges(title: string, rows: CompositionRowChange[]): string[] {
+  const header =
+    `${pad(title, 24)} ${padLeft("From", 14)} ${padLeft("To", 14)} ` +
+    `${padLeft("Change", 14)} ${padLeft("Share", 9)}`;
+  const side = (usd: number | undefined): string => (usd === undefined ? "—" : formatUsd(usd));
+  const body = rows.map((row) => {
+    const share = row.percentOfFundChange;
+    const note = row.status === "changed" ? "" : `  (${row.status})`;
+    return (
+      `${pad(row.label, 24)} ${padLeft(side(row.fromUsd), 14)} ${padLeft(side(row.toUsd), 14)} ` +
+      `${padLeft(formatSignedUsd(row.changeUsd), 14)} ` +
+      `${padLeft(`${share > 0 ? "+" : ""}${share.toFixed(1)} pp`, 9)}${note}`
+    );
+  });
+  return [header, "-".repeat(header.length), ...(body.length > 0 ? body : ["No change."])];
+}
+
+function formatReserveChange(change: ReserveBalanceChange): string {
+  const side = (balance: number | undefined): string =>
+    balance === undefined ? "—" : formatPrice(balance, change.currency);
+  const sign = change.changeBalance > 0 ? "+" : "";
+  return (
+    `${pad(change.reserveId, 28)} ${pad(change.venueLabel, 24)} ` +
+    `${padLeft(side(change.fromBalance), 16)} → ${padLeft(side(change.toBalance), 16)} ` +
+    `${padLeft(`${sign}${formatPrice(change.changeBalance, change.currency)}`, 16)}`
+  );
+}
+
+export function formatPeriodCloseDiff(diff: PeriodCloseDiff): string {
+  const title = `Close diff ${diff.from} → ${diff.to}`;
+  const nav = diff.fundValueUsd;
+  const priceHeader = `${pad("Instrument", 14)} ${padLeft(diff.from, 14)} ${padLeft(diff.to, 14)} ${padLeft("Change", 9)}`;
+  const priceLines = diff.prices.map(
+    (price) =>
+      `${pad(price.instrumentId, 14)} ` +
+      `${padLeft(price.from !== undefined ? formatPrice(price.from, price.currency) : "—", 14)} ` +
+      `${padLeft(price.to !== undefined ? formatPrice(price.to, price.currency) : "—", 14)} ` +
+      `${padLeft(price.changePct !== undefined ? formatSignedPercent(price.changePct) : "—", 9)}`,
+  );
+  return [
+    title,
+    "-".repeat(title.length),
+    `Fund value: ${formatUsd(nav.from)} → ${formatUsd(nav.to)} ` +
+      `(${nav.change >= 0 ? "+" : ""}${formatUsd(nav.change)}` +
+      `${nav.changePct !== undefined ? `, ${formatSignedPercent(nav.changePct)}` : ""})`,
+    "",
+    priceHeader,
+    "-".repeat(priceHeader.length),
+    ...(priceLines.length > 0 ? priceLines : ["No marked instruments at either close."]),
+    "",
+    ...formatAllocationChanges("By Tier", diff.tiers, diff),
+    "",
+    ...formatAllocationChanges("By Tempo", diff.tempos, diff),
+    "",
+    diff.journal.length === 0
+      ? "Journal: no entries written between the closes."
+      : `Journal: ${diff.journal.length} entr${diff.journal.length === 1 ? "y" : "ies"} written between the closes`,
+    ...diff.journal.map(
+      (ref) => `  ${ref.writtenAt}  ${pad(ref.subject, 8)} ${pad(ref.subjectId, 24)} journal.jsonl line ${ref.line}`,
+    ),
+  ].join("\n");
+}
+
+function formatAllocationChanges(
+  title: string,
+  rows: PeriodCloseAllocationChange[],
+  diff: PeriodCloseDiff,
+): string[] {
+  const header = `${pad(title, 14)} ${padLeft(diff.from, 22)} ${padLeft(diff.to, 22)} ${padLeft("Change", 14)}`;
+  const side = (usd: number | undefined, percent: number | undefined): string =>
+    usd === undefined ? "—" : `${formatUsd(usd)} (${formatPercent(percent ?? 0)})`;
+  return [
+    header,
+    "-".repeat(header.length),
+    ...rows.map(
+      (row) =>
+        `${pad(row.label, 14)} ${padLeft(side(row.fromUsd, row.fromPercentOfFund), 22)} ` +
+        `${padLeft(side(row.toUsd, row.toPercentOfFund), 22)} ` +
+        `${padLeft(`${row.changeUsd > 0 ? "+" : ""}${formatUsd(row.changeUsd)}`, 14)}`,
+    ),
+  ];
+}
+
+/** Header label and rendered cell for each Perspective column. */
+const PERSPECTIVE_CELLS: Record<PerspectiveColumn, { label: string; width: number; cell: (row: PerspectiveRow) => string }> = {
+  usdValue: { label: "USD Value", width: 14, cell: (row) => formatUsd(row.usdValue) },
+  percentOfFund: { label: "Fund %", width: 8, cell: (row) => formatPercent(row.percentOfFund) },
+  costBasisUsd: { label: "Cost", width: 14, cell: (row) => formatMaybeUsd(row.costBasisUsd) },
+  unrealizedPnlUsd: { label: "Unrl P&L", width: 14, cell: (row) => formatMaybeUsd(row.unrealizedPnlUsd) },
+  records: { label: "Records", width: 8, cell: (row) => String(row.records) },
+};
+
+/**
+ * Render an applied Perspective: its name and description, one line per row in the
+ * lens's own column order, and a total over what the lens admitted. The total's Fund %
+ * is a share of the whole Fund, like every row's. Shared by `pnpm report --perspective`
+ * and the TUI so a lens reads the same on both.
+ */
+export function formatPerspective(view: PerspectiveView): string {
+  const title = `Perspective: ${view.name}`;
+  const header = [
+    pad(`By ${view.groupBy}`, 28),
+    ...view.columns.map((column) => padLeft(PERSPECTIVE_CELLS[column].label, PERSPECTIVE_CELLS[column].width)),
+  ].join(" ");
+  const line = (row: PerspectiveRow): string =>
+    [
+      pad(row.label, 28),
+      ...view.columns.map((column) =>
+        padLeft(PERSPECTIVE_CELLS[column].cell(row), PERSPECTIVE_CELLS[column].width),
+      ),
+    ].join(" ");
+  const body =
+    view.rows.length > 0 ? view.rows.map(line) : ["No records match this Perspective."];
+  return [
+    title,
+    "-".repeat(title.length),
+    ...(view.description !== undefined ? [view.description] : []),
+    header,
+    "-".repeat(header.length),
+    ...body,
+    `Total: ${formatUsd(view.totalUsd)} (${formatPercent(view.percentOfFund)} of Fund) across ${view.records} record(s)`,
+  ].join("\n");
+}
+
 /**
  * Render the invalidation watch: one line
  * per OPEN position carrying a structured level, showing its latest mark vs level and
@@ -258,15 +662,17 @@ function formatDataSafety(report: CompositionReport): string {
   const exclusions = [
     `${report.excluded.nonLive} non-live excluded`,
     `${report.excluded.invalid} invalid excluded`,
-    ...(report.excluded.shortDeferred > 0
-      ? [`${report.excluded.shortDeferred} short deferred`]
-      : []),
   ];
   return report.warnings.length > 0
     ? `${exclusions.join("; ")}; warnings shown below`
     : `${exclusions.join("; ")}; no warnings`;
 }
 
+/** One line: long, short and net exposure. Short renders negative, as it is carried. */
+export function formatExposure(exposure: ExposureSummary): string {
+  return `Exposure: long ${formatUsd(exposure.longUsd)}; short ${formatUsd(exposure.shortUsd)}; net ${formatUsd(exposure.netUsd)}`;
+}
+
 function sectionRows(
   report: CompositionReport,
   sectionId: DashboardSectionId,
@@ -400,6 +806,91 @@ export function formatAvailableCapital(report: AvailableCapitalReport): string {
   ].join("\n");
 }
 
+/**
+ * Spoken For — the sell side of Available Capital: per open position and tier, the units
+ * HELD, the units resting take-profit sells have COMMITTED, and what is still AVAILABLE,
+ * with the sells beneath each. Empty-guarded on `formatAvailableCapital`'s argument, so
+ * a book with no resting sell renders byte-for-byte what it did before, and a tier no
+ * sell speaks for is omitted because the composition report already shows its holding.
+ */
+export function formatAvailableUnits(report: AvailableUnitsReport): string {
+  const encumbered = report.positions.filter((units) => units.sells.length > 0);
+  if (encumbered.length === 0 && report.unmatched.length === 0) {
+    return "";
+  }
+
+  const title = "Spoken For";
+  const header = `${pad("Position", 28)} ${pad("Tier", 6)} ${padLeft("Held", 16)} ${padLeft("Committed", 16)} ${padLeft("Available", 16)}`;
+  const body: string[] = [];
+
+  for (const units of encumbered) {
+    body.push(
+      `${pad(units.positionId, 28)} ${pad(units.tier, 6)} ${padLeft(String(units.held), 16)} ` +
+        `${padLeft(String(units.committed), 16)} ${padLeft(String(units.available), 16)}`,
+    );
+    for (const sell of units.sells) {
+      body.push(
+        `    ${pad(sell.symbol, 14)} sell  ` +
+          `${padLeft(formatPrice(sell.price, sell.currency), 14)} x ${padLeft(String(sell.remainingQuantity), 12)}` +
+          `  → ${sell.settlementReserveId}  ${sell.observedAt}`,
+      );
+    }
+    if (isNegativeSlack(units.available)) {
+      // The impossible state, rendered rather than clamped — `formatAvailableCapital`'s
+      // argument, on units: the venue would not rest a sell for units the account lacks.
+      body.push(
+        `    !! available is NEGATIVE — a declaration is wrong; this tier cannot cover its sells.`,
+      );
+    }
+  }
+
+  for (const { sell, reason } of report.unmatched) {
+    const declared = sell.target
+      ? `declares ${sell.target.positionId} ${sell.target.tier}`
+      : "declares no position";
+    body.push(`    !! ${pad(sell.orderId, 40)} ${reason} — ${declared}, encumbering nothing`);
+  }
+
+  return [
+    title,
+    "-".repeat(title.length),
+    "Held is untouched by any order; a resting sell encumbers AVAILABILITY, never the lot.",
+    header,
+    "-".repeat(header.length),
+    ...body,
+  ].join("\n");
+}
+
+/**
+ * Intraday Movement — each instrument's latest intraday reading against its last close.
+ * Empty when no store holds a reading, so a fund the hourly job never ran for renders
+ * exactly what it did before. Movement only: the marks and NAV above are untouched by it.
+ */
+export function formatIntradayMovement(movements: IntradayMovement[]): string {
+  if (movements.length === 0) {
+    return "";
+  }
+
+  const title = "Intraday Movement";
+  const header = `${pad("Symbol", 14)} ${padLeft("Last", 14)} ${padLeft("Prior Close", 14)} ${padLeft("Change", 8)}  Observed`;
+  const body = movements.map(
+    (movement) =>
+      `${pad(movement.symbol, 14)} ${padLeft(String(movement.price), 14)} ` +
+      `${padLeft(movement.priorClose ? String(movement.priorClose.price) : "—", 14)} ` +
+      `${padLeft(movement.changePct !== undefined ? formatSignedPercent(movement.changePct) : "—", 8)}` +
+      `  ${movement.observedAt}`,
+  );
+
+  return [
+    title,
+    "-".repeat(title.length),
+    "The latest settled intraday candle; a mark is still one close per trading day.",
+    header,
+    "-".repeat(header.length),
+    ...body,
+  ].join("\n");
+}
+
 function formatPriceJourneys(journeys: PriceJourney[]): string {
   const title = "Weekly Price Journey";
   if (journeys.length === 0) {
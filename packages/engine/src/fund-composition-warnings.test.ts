@@ -1,7 +1,6 @@
 import {
   buildCompositionReport,
   formatCompositionReport,
-  validationSeverityByCode,
   type FundReviewData,
 } from "./index.js";
 import { describe, expect, it } from "vitest";
@@ -133,7 +132,7 @@ describe("@numisma/engine buildCompositionReport exclusions and warnings", () =>
     );
   });
 
-  it("excludes deferred short positions with a visible count", () => {
+  it("folds a live short position into NAV and shows its exposure", () => {
     const fixture = makeCanonicalFixture();
     fixture.positions.push({
       id: "btc-short",
@@ -150,12 +149,13 @@ describe("@numisma/engine buildCompositionReport exclusions and warnings", () =>
 
     const report = buildCompositionReport(parseFixture(fixture));
 
-    expect(report.excluded.shortDeferred).toBe(1);
-    expect(report.totals.fundValueUsd).toBe(1000);
-    expect(validationSeverityByCode["short-deferred"]).toBe("warning");
-    expect(formatCompositionReport(report)).toContain(
-      "Short direction: 1 deferred short record(s) excluded",
-    );
+    // Sold at 150, marked at 100: the $150 collateral plus the $50 the short has
+    // made joins the Fund, and no record is excluded for its direction.
+    expect(report.excluded).toEqual({ nonLive: 2, invalid: 2 });
+    expect(report.totals.fundValueUsd).toBe(1200);
+    expect(report.exposure.shortUsd).toBe(-100);
+    expect(formatCompositionReport(report)).toContain("Exposure: long ");
+    expect(formatCompositionReport(report)).toContain("short -$100.00");
   });
 
   it("excludes a live Reserve whose Portfolio and Account references are missing", () => {
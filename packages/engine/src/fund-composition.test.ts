@@ -20,7 +20,6 @@ describe("@numisma/engine buildCompositionReport", () => {
     expect(report.excluded).toEqual({
       nonLive: 2,
       invalid: 2,
-      shortDeferred: 0,
     });
     expect(report.warnings.map((warning) => warning.code)).toEqual([
       "unsupported-currency",
@@ -179,7 +178,6 @@ describe("@numisma/engine buildCompositionReport", () => {
       dataSafety: {
         nonLiveExcluded: 2,
         invalidExcluded: 2,
-        shortDeferredExcluded: 0,
         hasWarnings: true,
       },
     });
@@ -228,7 +226,6 @@ describe("@numisma/engine buildCompositionReport", () => {
       excluded: {
         nonLive: 1,
         invalid: 1,
-        shortDeferred: 0,
       },
       warnings: [{ code: "missing-instrument", recordId: "sol-binance-invalid" }],
       summary: {
@@ -242,7 +239,6 @@ describe("@numisma/engine buildCompositionReport", () => {
         dataSafety: {
           nonLiveExcluded: 1,
           invalidExcluded: 1,
-          shortDeferredExcluded: 0,
           hasWarnings: true,
         },
       },
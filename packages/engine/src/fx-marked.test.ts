@@ -0,0 +1,206 @@
+// The fourteenth verb, `FxMarked`, and the per-currency FX table it moves. The claim
+// under test: a non-USD amount converts at ITS currency's rate — never at the peso
+// rate it used to borrow — a currency the review has no rate for is excluded from
+// composition and refused at ingest, and a later mark revalues the book from its date.
+import { describe, expect, it } from "vitest";
+import {
+  buildCompositionReport,
+  buildEventReference,
+  crossReferenceEvent,
+  foldEvents,
+  formatCompositionReport,
+  parseEvent,
+  parseFundReview,
+  usdRateOf,
+  type FundReviewData,
+  type PortfolioEvent,
+} from "./index.js";
+import { buildCanonicalState } from "./compose/canonical.js";
+
+const AS_OF = "2026-06-01";
+
+/** One USD Reserve, one EUR Reserve, and a EUR-quoted position at 0.9 EUR per USD. */
+function genesis(): FundReviewData {
+  return {
+    fund: { id: "fund-1", name: "Accumulus", baseCurrency: "USD" },
+    review: { asOf: AS_OF, usdMxn: 20, fx: { EUR: 0.9 } },
+    portfolios: [{ id: "core", name: "Core" }],
+    accounts: [
+      { id: "venue-usd", name: "Venue", platform: "BITGET", currency: "USD" },
+      { id: "broker-eur", name: "Broker", platform: "IBKR", currency: "EUR" },
+    ],
+    instruments: [{ id: "asml-eur", name: "ASML", symbol: "ASML", currency: "EUR" }],
+    reserves: [
+      {
+        id: "usd-cash",
+        portfolioId: "core",
+        tempo: "Reserve",
+        executionMode: "live",
+        accountId: "venue-usd",
+        currency: "USD",
+        amount: 1000,
+      },
+      {
+        id: "eur-cash",
+        portfolioId: "core",
+        tempo: "Reserve",
+        executionMode: "live",
+        accountId: "broker-eur",
+        currency: "EUR",
+        amount: 900,
+      },
+    ],
+    positions: [
+      {
+        id: "asml",
+        portfolioId: "core",
+        tempo: "Pulse",
+        executionMode: "live",
+        accountId: "broker-eur",
+        instrumentId: "asml-eur",
+        direction: "long",
+        markPrice: 90,
+        currency: "EUR",
+        lots: [{ quantity: 10, cost: 80, tier: "c1" }],
+      },
+    ],
+  };
+}
+
+/** The same book with no EUR rate at all. */
+function rateless(): FundReviewData {
+  return { ...genesis(), review: { asOf: AS_OF, usdMxn: 20 } };
+}
+
+const EUR_MARK: PortfolioEvent = {
+  id: "fx-EUR-2026-06-02",
+  asOf: "2026-06-02",
+  type: "FxMarked",
+  currency: "EUR",
+  rate: 0.8,
+};
+
+const INTEREST: PortfolioEvent = {
+  id: "interest-eur",
+  asOf: "2026-06-03",
+  type: "IncomeReceived",
+  kind: "interest",
+  reserveId: "eur-cash",
+  amount: 9,
+  tier: "c3",
+};
+
+function lineUsd(data: FundReviewData, recordId: string): number | undefined {
+  return buildCanonicalState(data).canonicalLines.find((line) => line.recordId === recordId)
+    ?.usdValue;
+}
+
+describe("usdRateOf", () => {
+  it("reads USD as 1, MXN from usdMxn, the rest from review.fx — and nothing else", () => {
+    const rates = { usdMxn: 20, fx: { EUR: 0.9 } };
+    expect(usdRateOf("USD", rates)).toBe(1);
+    expect(usdRateOf("MXN", rates)).toBe(20);
+    expect(usdRateOf("EUR", rates)).toBe(0.9);
+    expect(usdRateOf("GBP", rates)).toBeUndefined();
+  });
+});
+
+describe("genesis review.fx", () => {
+  it("values a EUR Reserve and a EUR position at the EUR rate", () => {
+    const data = genesis();
+    expect(lineUsd(data, "eur-cash")).toBeCloseTo(1000);
+    expect(lineUsd(data, "asml")).toBeCloseTo(1000);
+    expect(formatCompositionReport(buildCompositionReport(data))).toContain(
+      "Manual FX: 1 USD = 20.0000 MXN · 0.9000 EUR",
+    );
+  });
+
+  it("excludes a record whose currency the review carries no rate for, with a warning", () => {
+    const report = buildCompositionReport(rateless());
+    expect(report.totals.fundValueUsd).toBe(1000);
+    expect(report.excluded.invalid).toBe(2);
+    expect(report.warnings.map((warning) => warning.code)).toEqual([
+      "unsupported-currency",
+      "unsupported-currency",
+    ]);
+  });
+
+  it.each([
+    [{ EUR: 0 }, "review.fx.EUR"],
+    [{ MXN: 20 }, "review.fx.MXN"],
+    [{ USD: 1 }, "review.fx.USD"],
+    [{ BRL: 5 }, "review.fx.BRL"],
+    [[0.9], "review.fx"],
+  ])("refuses review.fx %j at %s", (fx, path) => {
+    const input = { ...genesis(), review: { asOf: AS_OF, usdMxn: 20, fx } };
+    const result = parseFundReview(input);
+    expect(result.kind).toBe("invalid-fx-rate");
+    if (result.kind === "invalid-fx-rate") {
+      expect(result.path).toBe(path);
+    }
+  });
+});
+
+describe("FxMarked — parse and cross-ref", () => {
+  it("accepts a supported currency other than USD", () => {
+    expect(parseEvent(EUR_MARK)).toEqual({ kind: "ok", value: EUR_MARK });
+  });
+
+  it.each([
+    [{ ...EUR_MARK, currency: "USD" }, "currency"],
+    [{ ...EUR_MARK, currency: "BRL" }, "currency"],
+    [{ ...EUR_MARK, rate: 0 }, "rate"],
+  ])("refuses %j at %s", (input, path) => {
+    const result = parseEvent(input);
+    expect(result.kind).toBe("event-error");
+    if (result.kind === "event-error") {
+      expect(result.path).toBe(path);
+    }
+  });
+
+  it("refuses a rate that looks inverted against the rate in force", () => {
+    const inverted: PortfolioEvent = { ...EUR_MARK, rate: 1 / 0.9 + 1 };
+    const result = crossReferenceEvent(inverted, buildEventReference(genesis(), []));
+    expect(result.kind).toBe("event-error");
+    if (result.kind === "event-error") {
+      expect(result.path).toBe("rate");
+      expect(result.message).toContain("units of EUR per one USD");
+    }
+  });
+
+  it("refuses a flow in a currency with no rate by its date, and admits it after a mark", () => {
+    const refused = crossReferenceEvent(INTEREST, buildEventReference(rateless(), []));
+    expect(refused.kind).toBe("event-error");
+    if (refused.kind === "event-error") {
+      expect(refused.path).toBe("currency");
+      expect(refused.message).toMatch(/^IncomeReceived converts EUR/);
+    }
+
+    const marked = buildEventReference(rateless(), [EUR_MARK]);
+    expect(crossReferenceEvent(INTEREST, marked).kind).toBe("ok");
+    const backdated: PortfolioEvent = { ...INTEREST, asOf: "2026-06-01" };
+    expect(crossReferenceEvent(backdated, marked).kind).toBe("event-error");
+  });
+});
+
+describe("FxMarked — fold", () => {
+  it("revalues every EUR record from the mark on, and moves no capital", () => {
+    const data = foldEvents(genesis(), [EUR_MARK]).data;
+    expect(data.review.fx).toEqual({ EUR: 0.8 });
+    expect(data.reserves.find((reserve) => reserve.id === "eur-cash")?.amount).toBe(900);
+    expect(lineUsd(data, "eur-cash")).toBeCloseTo(1125);
+    expect(lineUsd(data, "asml")).toBeCloseTo(1125);
+  });
+
+  it("sets the peso rate when the mark is for MXN", () => {
+    const peso: PortfolioEvent = { ...EUR_MARK, id: "fx-MXN", currency: "MXN", rate: 18 };
+    const data = foldEvents(genesis(), [peso]).data;
+    expect(data.review.usdMxn).toBe(18);
+    expect(data.review.fx).toEqual({ EUR: 0.9 });
+  });
+
+  it("books a EUR flow at the EUR rate in force on its date", () => {
+    const data = foldEvents(genesis(), [EUR_MARK, INTEREST]).data;
+    expect(data.economicEntries?.[0]?.amountUsd).toBeCloseTo(11.25);
+  });
+});
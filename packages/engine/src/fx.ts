@@ -0,0 +1,29 @@
+/**
+ * The review's FX, read by currency — the ONE place a currency is turned into the
+ * rate that converts it to USD.
+ *
+ * Every conversion in the engine used to be `amount / usdMxn` for anything that was
+ * not USD, which was exact while MXN was the only other currency and quietly wrong the
+ * moment it was not: a EUR amount divided by the peso rate is a plausible number and
+ * no error at all. A rate is now looked up by the currency it belongs to, and a
+ * currency the review carries no rate for answers `undefined` — never a neighbour's.
+ */
+import type { Currency, FundReviewData } from "./contracts.js";
+
+/** The rates a conversion reads: `review.usdMxn` for MXN, `review.fx` for the rest. */
+export type FxRates = Pick<FundReviewData["review"], "usdMxn" | "fx">;
+
+/**
+ * Units of `currency` per one USD under `rates` — `1` for USD itself — or `undefined`
+ * when `rates` holds none for it.
+ */
+export function usdRateOf(currency: Currency, rates: FxRates): number | undefined {
+  switch (currency) {
+    case "USD":
+      return 1;
+    case "MXN":
+      return rates.usdMxn;
+    default:
+      return rates.fx?.[currency];
+  }
+}
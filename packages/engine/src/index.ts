@@ -9,6 +9,7 @@
 // Public domain types, read models, and the assurance vocabulary.
 export type {
   Currency,
+  FxTable,
   ExecutionMode,
   Direction,
   CapitalTier,
@@ -50,6 +51,7 @@ export type {
   PriceJourney,
   CompositionReport,
   ReserveReconciliationLine,
+  ExposureSummary,
   DetailRecordKind,
   DashboardDetailRow,
   DashboardDetail,
@@ -57,17 +59,73 @@ export type {
   // Realized closed book + invalidation read-model types.
   ClosedPositionRecord,
   RealizedTierAttribution,
+  TradingCosts,
   InvalidationLevel,
+  DecisionInForce,
   ClosedBook,
   RealizedRollupRow,
+  // Economic P&L: income and carry costs beside the realized book.
+  IncomeKind,
+  CostKind,
+  EconomicEntry,
+  EconomicRollupRow,
+  EconomicPnl,
+  // Time- and money-weighted returns over the log.
+  PerformanceSeries,
+  PerformanceReport,
+  // The Fund's NAV series and its drawdown.
+  NavTempoValue,
+  NavPoint,
+  NavDrawdown,
+  NavHistory,
+  // What moved between two composition reports.
+  CompositionRowChange,
+  CompositionSectionDiff,
+  ReserveBalanceChange,
+  CompositionReportDiff,
   InvalidationWatchRow,
 } from "./contracts.js";
-export { validationSeverityByCode, CAPITAL_TIERS } from "./contracts.js";
+export { validationSeverityByCode, CAPITAL_TIERS, CURRENCIES } from "./contracts.js";
+
+// The review's FX, read by currency: the rate a conversion to USD divides by.
+export type { FxRates } from "./fx.js";
+export { usdRateOf } from "./fx.js";
 
 // Public functions: parse untrusted input, compose the read model, drill down.
 export { parseFundReview } from "./parse.js";
 export { buildCompositionReport } from "./compose/report.js";
 export { buildDashboardDetail } from "./compose/detail.js";
+// TWR/IRR by re-folding the log at anchor dates; external flows are neutralized.
+export { composePerformance } from "./compose/performance.js";
+export type { ComposePerformanceOptions } from "./compose/performance.js";
+// Daily NAV by re-folding the log per date; drawdown, peak and recovery over it.
+export { buildNavHistory, dailyNavDates } from "./compose/nav-history.js";
+// Period over period: two finished composition reports compared row by row.
+export { diffCompositionReports } from "./compose/report-diff.js";
+// Perspectives: saved lenses over the live records. The `perspectives.jsonl` record
+// contract and by-name selector; the file IO lives in `@numisma/preferences`.
+export type {
+  PerspectiveGroupBy,
+  PerspectiveColumn,
+  PerspectiveFilter,
+  PerspectiveSort,
+  Perspective,
+  LoadedPerspective,
+  PerspectiveSkipReason,
+  SkippedPerspectiveLine,
+  LoadedPerspectives,
+  PerspectiveRow,
+  PerspectiveView,
+} from "./perspectives.js";
+export {
+  PERSPECTIVE_GROUP_BYS,
+  PERSPECTIVE_COLUMNS,
+  DEFAULT_PERSPECTIVE_COLUMNS,
+  isPerspectiveExecutionMode,
+  pickPerspective,
+  perspectiveNames,
+} from "./perspectives.js";
+export { applyPerspective } from "./compose/perspective.js";
 // PRD #146 C1: a NEW pure export, not a widening of any existing contract. Row id →
 // the instrument ids that row descends from — the fact 19 aggregate row ids do not
 // carry. (19 is invariant across every measured anchor; the row TOTAL is not — it is 31 or 33
@@ -77,13 +135,14 @@ export { composeRowDependencies } from "./compose/row-dependencies.js";
 export type { RowDependencies } from "./compose/row-dependencies.js";
 
 // The event-sourcing spine (ADR-003): pure event validation + the fold to the
-// FundReviewData read model. Ten verbs, all shipped; every durable surface in
+// FundReviewData read model. Fourteen verbs, all shipped; every durable surface in
 // the workspace reads through this.
 export type {
   PortfolioEventType,
   PositionDecision,
   OpenFunding,
   CloseSettlement,
+  CashLegFees,
   PositionOpenedEvent,
   PositionClosedEvent,
   PositionTrimmedEvent,
@@ -96,6 +155,10 @@ export type {
   InvalidationMarkedEvent,
   InvalidationDirection,
   ReserveOpenedEvent,
+  IncomeReceivedEvent,
+  CostChargedEvent,
+  DecisionRevisedEvent,
+  FxMarkedEvent,
   PortfolioEvent,
   TierDelta,
   EventOk,
@@ -157,6 +220,7 @@ export {
   parseOrderRecord,
   buildOrderFillObserved,
   isObservedAtStamp,
+  isCapitalTier,
   OBSERVED_AT_RULE,
   formatObservedAt,
 } from "./orders/records.js";
@@ -186,6 +250,7 @@ export {
   buildOrderPlacedRecords,
   mergeCollidingClaims,
   detectChangedClaims,
+  detectVanishedRungs,
   isDescriptorDifference,
   isFilledDifference,
 } from "./orders/ingest.js";
@@ -230,18 +295,41 @@ export { reconcileFillPath, ORPHAN_LABEL } from "./fill-path.js";
 // reserve-admission policy rather than with the venue's row shape (#172, #179, #183).
 export type { FundingShortfall, FundingCoverage } from "./orders/coverage.js";
 export { checkFundingCoverage } from "./orders/coverage.js";
+// The venue-adapter seam: the neutral row taxonomy, the adapter shape and the registry
+// `pnpm orders:import` sniffs the header against. One module per venue behind it.
 export type {
-  BitgetOpenOrder,
-  BitgetRowProblem,
-  BitgetRowSkip,
-  BitgetOpenOrdersParse,
-} from "./orders/bitget.js";
+  VenueOpenOrder,
+  OpenOrderRowProblem,
+  OpenOrderRowSkip,
+  OpenOrdersParse,
+  OpenOrdersVenueAdapter,
+} from "./orders/open-orders.js";
+export { leavesRungUnweighed } from "./orders/open-orders.js";
+export {
+  OPEN_ORDERS_VENUES,
+  parseOpenOrdersCsv,
+  recognizeOpenOrdersVenue,
+} from "./orders/open-orders-venues.js";
+export type { BitgetOpenOrder } from "./orders/bitget.js";
 export {
+  BITGET_OPEN_ORDERS,
   BITGET_OPEN_ORDERS_HEADER,
   BITGET_RESTING_STATUS,
-  leavesRungUnweighed,
   parseBitgetOpenOrdersCsv,
 } from "./orders/bitget.js";
+export type { BinanceOpenOrder } from "./orders/binance.js";
+export {
+  BINANCE_OPEN_ORDERS,
+  BINANCE_OPEN_ORDERS_HEADER,
+  parseBinanceOpenOrdersCsv,
+} from "./orders/binance.js";
+export type {
+  BitgetFill,
+  BitgetFillProblem,
+  BitgetFillSkip,
+  BitgetFillsParse,
+} from "./orders/bitget-fills.js";
+export { BITGET_FILLS_HEADER, parseBitgetFillsCsv } from "./orders/bitget-fills.js";
 // `S7` — committed vs available. The ONE committed formula (`./orders/committed.js`)
 // that both the `O1` import guard and the rendered report call, and the new PURE
 // EXPORT over `buildCanonicalState` that joins the sidecar to the fold at read time.
@@ -253,6 +341,23 @@ export { committedRungs, committedByReserve, isNegativeSlack, SLACK_EPSILON } fr
 // them (`./orders/attribution.js`); `available.ts` re-exports them for its own readers.
 export type { ReserveCapital, AvailableCapitalReport } from "./orders/available.js";
 export { composeAvailableCapital } from "./orders/available.js";
+// The sell side of `S7`: a resting sell encumbers UNITS of a declared position and tier,
+// never cash, so it is its own ledger rather than a row in the reserve report.
+export type {
+  SellTarget,
+  EncumberingSell,
+  PositionUnits,
+  UnmatchedSellReason,
+  UnmatchedSell,
+  AvailableUnitsReport,
+  UnitCoverage,
+} from "./orders/encumbered.js";
+export {
+  encumberingSells,
+  composeAvailableUnits,
+  checkUnitCoverage,
+  proposeSellTarget,
+} from "./orders/encumbered.js";
 // `S8` — the fill act. Monotonicity PROPOSES a verdict (stamped `derived`, carrying its
 // evidence) and refuses on an impossible one; it never writes, and being pure it cannot.
 // The act's two records are built together so no caller can author half of one.
@@ -266,7 +371,11 @@ export type {
   MonotonicityProposal,
   ScopedBook,
 } from "./orders/monotonicity.js";
-export { proposeFillVerdicts, scopeBookForFill } from "./orders/monotonicity.js";
+export {
+  proposeFillVerdicts,
+  scopeBookForFill,
+  QUANTITY_EPSILON,
+} from "./orders/monotonicity.js";
 export type {
   TornFillAct,
   LadderPosition,
@@ -276,6 +385,11 @@ export type {
   LadderTarget,
   FillActInput,
   FillAct,
+  SellFillActInput,
+  SellFillAct,
+  ObservedFill,
+  PrefilledFillAct,
+  FillMatch,
 } from "./orders/fill.js";
 export {
   fillEventId,
@@ -284,6 +398,8 @@ export {
   resolveLadderPosition,
   deriveFundingTier,
   buildFillAct,
+  buildSellFillAct,
+  matchObservedFills,
 } from "./orders/fill.js";
 
 // ADR-015 (one world-state): `buildEventReference` PROJECTS `foldEvents(genesis,
@@ -321,21 +437,58 @@ export { deriveHeadDigest, formatIngestCommitMessage } from "./durable-log.js";
 // `PriceMarkedEvent` construction, and the non-clobbering inbox merge. The fetch/
 // IO/scheduling shell lives in `@numisma/price-feed`, which depends only on this.
 export type {
+  FallbackProvider,
+  FallbackQuoteSource,
   PriceSource,
+  QuoteProvider,
+  InstrumentRegistry,
   InstrumentRegistryEntry,
 } from "./price-feed/registry.js";
-export { instrumentsForSource, resolveInstrument } from "./price-feed/registry.js";
+export {
+  CODE_INSTRUMENT_REGISTRY,
+  FALLBACK_PROVIDER_SOURCE,
+  extendInstrumentRegistry,
+  instrumentsForSource,
+  registeredAsOf,
+  resolveInstrument,
+} from "./price-feed/registry.js";
+// The `instruments.jsonl` sidecar contract: rows that ADD instruments on top of the
+// code table without a release. The loader lives in `@numisma/event-store`.
+export type {
+  InstrumentRegistryAddition,
+  InstrumentRegistrySkipReason,
+  LoadedInstrumentRegistry,
+  LoadedInstrumentRegistryAddition,
+  SkippedInstrumentRegistryLine,
+} from "./price-feed/registry-sidecar.js";
+export {
+  isCoherentDerivation,
+  isFallbackChain,
+  isInstrumentId,
+  isMarkCurrency,
+  isPriceSource,
+  isProviderSymbol,
+} from "./price-feed/registry-sidecar.js";
 // The venue calendar: how often each source is expected to mark, and the last date
-// it owed one. ONE home, shared by the push glance builder and the durable log's
-// gap report — two copies would compile happily while disagreeing about whether a
-// venue marks on weekends (#266 D4).
+// it owed one, walking back over weekends and the venue's holiday table. ONE home,
+// shared by the push glance builder and the durable log's gap report — two copies
+// would compile happily while disagreeing about whether a venue marks on weekends
+// (#266 D4).
 export type { VenueCadence } from "./price-feed/venue-calendar.js";
 export {
   VENUE_CADENCE,
   PRICE_SOURCES,
   lastExpectedMarkDate,
+  lastExpectedFixDate,
   owesMarkOn,
 } from "./price-feed/venue-calendar.js";
+export type { HolidayTable } from "./price-feed/holidays.js";
+export {
+  NYSE_HOLIDAYS,
+  BANXICO_FIX_HOLIDAYS,
+  VENUE_HOLIDAYS,
+  holidayOn,
+} from "./price-feed/holidays.js";
 export type { Quote, MarkClock } from "./price-feed/mark.js";
 // The trading-day contract every plane must agree on, authored once. The price-feed
 // config, the gap report's `REPORT_TIME_ZONE` and the daily wrapper's `MARK_TZ` all
@@ -351,6 +504,26 @@ export {
 } from "./price-feed/mark.js";
 export type { FixObservation } from "./price-feed/derive.js";
 export { requireFreshFix, deriveMxnMark } from "./price-feed/derive.js";
+export type { FxCurrency } from "./price-feed/fx-mark.js";
+export { fxMarkId, requireFreshFxRate, fxMarkFromRate } from "./price-feed/fx-mark.js";
+// The optional consensus band a fetched close must fall inside before it is marked —
+// the tighter, volatility-aware check in front of the spine's ±50% guard.
+export type { ConsensusOptions, ConsensusVerdict } from "./price-feed/consensus.js";
+export { checkQuoteConsensus } from "./price-feed/consensus.js";
+// How an append-only price-store file resolves and compacts, shared by every reader.
+export type {
+  IntradayMovement,
+  IntradayQuote,
+  PriceStoreRow,
+  ResolvedPriceStore,
+} from "./price-feed/price-store.js";
+export {
+  isIntradayQuote,
+  resolvePriceStore,
+  compactPriceStore,
+  parsePriceStoreRows,
+  latestIntradayMovement,
+} from "./price-feed/price-store.js";
 export type { InboxRecord, InboxMergeResult } from "./price-feed/inbox-merge.js";
 export {
   mergeInbox,
@@ -445,6 +618,48 @@ export {
   serializeReconciliationRecord,
 } from "./reconciliations.js";
 
+// The `journal.jsonl` decision journal: the operator's prose keyed to a Position, a
+// Reserve or a review date. Never folded; the file IO lives in `@numisma/preferences`.
+export type {
+  JournalSubject,
+  JournalEntry,
+  LoadedJournalEntry,
+  JournalSkipReason,
+  SkippedJournalLine,
+  LoadedJournal,
+} from "./journal.js";
+export {
+  JOURNAL_SUBJECTS,
+  JOURNAL_TEXT_MAX_LENGTH,
+  isJournalSubject,
+  isJournalSubjectId,
+  journalEntriesFor,
+} from "./journal.js";
+
+// The `closes.jsonl` weekly Close workflow: a period's fold frozen at its review
+// anchor, and the diff of two closes. The file IO lives in `@numisma/preferences`.
+export type {
+  PeriodClosePrice,
+  PeriodCloseAllocation,
+  PeriodCloseJournalRef,
+  PeriodClose,
+  LoadedPeriodClose,
+  PeriodCloseSkipReason,
+  SkippedPeriodCloseLine,
+  LoadedPeriodCloses,
+  BuildPeriodCloseInput,
+  PeriodClosePriceChange,
+  PeriodCloseAllocationChange,
+  PeriodCloseDiff,
+} from "./period-close.js";
+export {
+  PERIOD_CLOSE_SCHEMA_VERSION,
+  isPeriodCloseCurrency,
+  buildPeriodClose,
+  previousPeriodClose,
+  diffPeriodCloses,
+} from "./period-close.js";
+
 // The ONE pure resolver for the durable ledger's data root, honoring the
 // `NUMISMA_DATA_DIR` env override with an absolute, homedir-derived accumulus
 // default. Shared by the tui event-store, the price-feed config, and the
@@ -463,10 +678,20 @@ export {
   pad,
   padLeft,
   divider,
+  formatManualFx,
   formatCompositionReport,
   formatReserveReconciliation,
   formatAvailableCapital,
+  formatAvailableUnits,
+  formatIntradayMovement,
   formatClosedBook,
+  formatEconomicPnl,
+  formatExposure,
+  formatPerformance,
+  formatNavHistory,
+  formatCompositionDiff,
+  formatPerspective,
+  formatPeriodCloseDiff,
   formatInvalidationWatch,
   formatProfitSplit,
 } from "./format.js";
@@ -3,6 +3,7 @@
 // not recreate the duplication one level down. These are package-internal —
 // exported for sibling modules to import, but intentionally NOT re-exported from
 // index.ts, so they stay off the public surface.
+import { CURRENCIES } from "./contracts.js";
 import type {
   Currency,
   ExecutionMode,
@@ -12,9 +13,26 @@ import type {
   WarningCode,
   Warning,
 } from "./contracts.js";
+import { usdRateOf, type FxRates } from "./fx.js";
 
-export function toUsd(amount: number, currency: Currency, usdMxn: number): number {
-  return currency === "USD" ? amount : amount / usdMxn;
+/**
+ * `amount` of `currency` in USD at the review's rate for that currency. A currency
+ * `rates` carries no rate for THROWS: the ingest gate refuses every event that would
+ * bring one into a conversion, composition excludes a seeded record in one, and
+ * performance leaves out a flow into one, so reaching here without a rate is a broken
+ * invariant — not a number to guess at.
+ */
+export function toUsd(amount: number, currency: Currency, rates: FxRates): number {
+  const rate = usdRateOf(currency, rates);
+  if (rate === undefined) {
+    throw new Error(`No ${currency} rate on the review to convert ${amount} ${currency} to USD.`);
+  }
+  return toUsdAtRate(amount, currency, rate);
+}
+
+/** `amount` of `currency` in USD at an explicit `rate` (units per USD) — a lot's `entryFx`. */
+export function toUsdAtRate(amount: number, currency: Currency, rate: number): number {
+  return currency === "USD" ? amount : amount / rate;
 }
 
 export function percentOfFund(usdValue: number, fundValueUsd: number): number {
@@ -94,7 +112,7 @@ export function schemaError(path: string, message: string): SchemaError {
 }
 
 export function isSupportedCurrency(currency: unknown): currency is Currency {
-  return currency === "USD" || currency === "MXN";
+  return (CURRENCIES as readonly unknown[]).includes(currency);
 }
 
 export function isExecutionMode(value: unknown): value is ExecutionMode {
@@ -110,6 +128,59 @@ export function isDirection(value: unknown): value is Direction {
   return value === "long" || value === "short";
 }
 
+/**
+ * THE ONE VALUATION RULE FOR A POSITION LOT, long or short, in the lot's NATIVE units.
+ * The fold's trim disclosure, the compose gate and the ingest settlement gate all price
+ * a lot through here, so a short cannot be valued one way on screen and another way at
+ * the gate.
+ *
+ * A long lot is worth what it would sell for: `quantity × mark`.
+ *
+ * A SHORT LOT IS THE COLLATERAL IT POSTED PLUS ITS OPEN RESULT. Opening a short debits
+ * its funding Reserve exactly as a long does — `quantity × cost` is the collateral the
+ * venue holds against the borrowed units, and `cost` is the entry price it was sold at.
+ * What the Fund owns at a later mark is that collateral plus `quantity × (cost − mark)`,
+ * i.e. `quantity × (2·cost − mark)`. Three properties fall out and are why this shape
+ * was chosen over booking the sale proceeds as cash:
+ *
+ * - NAV is conserved at open, the same way it is for a long: at `mark === cost` the lot
+ *   is worth exactly the debit that funded it.
+ * - Unrealized P&L (`value − cost basis`) is `quantity × (cost − mark)` — it RISES as
+ *   the mark falls, which is the whole point of the position.
+ * - Closing needs no second formula. The settlement `proceeds` on a short is the cash
+ *   the venue hands back — collateral plus result — so realized is still
+ *   `proceeds − cost basis`, and every closed-book, tier and profit-split path reads it
+ *   unchanged.
+ *
+ * The value goes NEGATIVE once the mark passes twice the entry — a short that has lost
+ * more than its collateral owes the venue, and hiding that behind a clamp would
+ * overstate NAV. Exposure is a separate reading; see {@link lotExposure}.
+ */
+export function lotMarketValue(
+  lot: { quantity: number; cost: number },
+  markPrice: number,
+  direction: Direction,
+): number {
+  return direction === "short"
+    ? lot.quantity * (2 * lot.cost - markPrice)
+    : lot.quantity * markPrice;
+}
+
+/**
+ * Signed market exposure of one lot in NATIVE units: `+quantity × mark` for a long and
+ * `−quantity × mark` for a short. Never NAV — a short's NAV contribution is its
+ * collateral plus open result ({@link lotMarketValue}); this is how much of the
+ * instrument's move the Fund is carrying, and in which direction.
+ */
+export function lotExposure(
+  lot: { quantity: number },
+  markPrice: number,
+  direction: Direction,
+): number {
+  const notional = lot.quantity * markPrice;
+  return direction === "short" ? -notional : notional;
+}
+
 /**
  * A real number — the floor every other numeric guard here stands on, so `NaN` and
  * the infinities are refused in ONE place rather than once per call site.
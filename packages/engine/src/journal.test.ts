@@ -0,0 +1,44 @@
+// Behavior locks for the decision-journal contract: which ids can key an entry, and the
+// selector that shows every entry about one subject up to an as-of date, oldest first.
+// Nothing supersedes — a later entry never hides an earlier one.
+import { describe, expect, it } from "vitest";
+import { isJournalSubjectId, journalEntriesFor, type LoadedJournalEntry } from "./index.js";
+
+const entry = (
+  line: number,
+  subject: LoadedJournalEntry["subject"],
+  subjectId: string,
+  writtenAt: string,
+): LoadedJournalEntry => ({ subject, subjectId, writtenAt, text: `entry ${line}`, line });
+
+describe("isJournalSubjectId", () => {
+  it("keys a review by a real calendar date and a record by a plain id", () => {
+    expect(isJournalSubjectId("review", "2026-06-05")).toBe(true);
+    expect(isJournalSubjectId("review", "2026-02-30")).toBe(false);
+    expect(isJournalSubjectId("position", "btc-pos")).toBe(true);
+    expect(isJournalSubjectId("reserve", " ")).toBe(false);
+    expect(isJournalSubjectId("position", "btc\npos")).toBe(false);
+    expect(isJournalSubjectId("position", 7)).toBe(false);
+  });
+});
+
+describe("journalEntriesFor", () => {
+  const entries = [
+    entry(1, "position", "btc-pos", "2026-06-03"),
+    entry(2, "position", "btc-pos", "2026-06-01"),
+    entry(3, "reserve", "btc-pos", "2026-06-01"),
+    entry(4, "position", "btc-pos", "2026-06-03"),
+    entry(5, "position", "btc-pos", "2026-06-09"),
+  ];
+
+  it("keeps every entry about the subject, oldest first and same-day in file order", () => {
+    expect(journalEntriesFor(entries, "position", "btc-pos").map((e) => e.line)).toEqual([2, 1, 4, 5]);
+  });
+
+  it("hides entries written after the as-of date", () => {
+    expect(journalEntriesFor(entries, "position", "btc-pos", "2026-06-03").map((e) => e.line)).toEqual([
+      2, 1, 4,
+    ]);
+    expect(journalEntriesFor(entries, "reserve", "btc-pos", "2026-05-31")).toEqual([]);
+  });
+});
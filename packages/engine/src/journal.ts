@@ -0,0 +1,131 @@
+/**
+ * The `journal.jsonl` RECORD CONTRACT — the pure half of the decision-journal sidecar.
+ *
+ * A journal entry is the operator's own prose about a decision, written when it was
+ * made or revisited: why a Position was sized the way it was, why a Reserve is being
+ * held back, what the weekly review concluded. The five `PositionDecision` strings
+ * frozen at `PositionOpened` say what was decided once; the journal is where the
+ * reasoning keeps going after that, without a new event for every second thought.
+ *
+ * NEVER FOLDED. Not a `PortfolioEvent`; the fold never reads it and it changes no value
+ * NAV folds from. An entry is keyed to a SUBJECT — a Position id, a Reserve id, or a
+ * review date — and a subject the fold does not know is not an error here: a Position
+ * that closed stays journalled, and a review date needs no record at all.
+ *
+ * This module is PURE (ADR-001): the closed subject vocabulary, the record and
+ * read-side shapes, and the selector. The file IO — resolve, a total loader and the
+ * append — lives in `@numisma/preferences` (`journal.ts`). Every type is declared here,
+ * read-side ones included, for the reason `reconciliations.ts` records: the dependency
+ * runs `preferences → engine` only.
+ *
+ * APPEND-ONLY, AND NOTHING SUPERSEDES. Unlike a plan, a later entry does not replace an
+ * earlier one for the same subject — a journal that let the operator's later view
+ * overwrite the earlier one would defeat the point of keeping it. Every entry written
+ * on or before the as-of date is shown, oldest first.
+ */
+import type { LoadOutcome } from "./contracts.js";
+import { isIsoCalendarDate, type IsoDate } from "./plans.js";
+
+/**
+ * What an entry may be about, declared ONCE, here. `review` entries are keyed to the
+ * weekly review's as-of date rather than to a record.
+ */
+export const JOURNAL_SUBJECTS = ["position", "reserve", "review"] as const;
+
+/** `subject` on a {@link JournalEntry}. */
+export type JournalSubject = (typeof JOURNAL_SUBJECTS)[number];
+
+/** Whether a wire value names a {@link JournalSubject}. */
+export function isJournalSubject(value: unknown): value is JournalSubject {
+  return (JOURNAL_SUBJECTS as readonly unknown[]).includes(value);
+}
+
+/**
+ * The longest entry the sidecar accepts. An entry is a paragraph of reasoning, not a
+ * document; the bound keeps one runaway paste from becoming the whole detail panel.
+ */
+export const JOURNAL_TEXT_MAX_LENGTH = 2000;
+
+/** One line of `journal.jsonl`, as WRITTEN. */
+export interface JournalEntry {
+  subject: JournalSubject;
+  /** A Position or Reserve id, or — for `review` — the review's `YYYY-MM-DD` date. */
+  subjectId: string;
+  /** The calendar date the entry was written; an as-of view hides later entries. */
+  writtenAt: IsoDate;
+  /** The operator's prose. Non-empty, at most {@link JOURNAL_TEXT_MAX_LENGTH}. */
+  text: string;
+}
+
+/** One line as READ: the loader stamps its 1-based line number. */
+export type LoadedJournalEntry = JournalEntry & { line: number };
+
+/**
+ * Why a line was skipped — a CLOSED vocabulary naming the field that failed, never the
+ * value it held. The text is the operator's reasoning about the fund, so a diagnostic
+ * that quoted it would launder it into terminals and logs.
+ */
+export type JournalSkipReason =
+  | "not-json"
+  | "not-an-object"
+  | "subject"
+  | "subject-id"
+  | "written-at"
+  | "text";
+
+/** One line the loader could not turn into an entry, REPORTED rather than swallowed. */
+export interface SkippedJournalLine {
+  /** 1-based, so the operator can go look at it. */
+  line: number;
+  reason: JournalSkipReason;
+  /** Fixed prose. Never interpolates file content. */
+  detail: string;
+}
+
+/**
+ * The loader's TOTAL outcome, on the terms `LoadedPlans` states: a missing file is
+ * `loaded` with empty buckets (nothing journalled yet), any other read error is
+ * `load-failed`, and every discarded line is one `skipped` record.
+ */
+export interface LoadedJournal {
+  load: LoadOutcome;
+  entries: LoadedJournalEntry[];
+  skipped: SkippedJournalLine[];
+}
+
+/**
+ * Whether `subjectId` can key an entry about `subject`: a review is keyed by a real
+ * calendar date, a record by a non-empty id free of control characters — the id is
+ * printed beside the entry, and a newline in it would forge a second line.
+ */
+export function isJournalSubjectId(subject: JournalSubject, subjectId: unknown): subjectId is string {
+  if (subject === "review") {
+    return isIsoCalendarDate(subjectId);
+  }
+  return (
+    typeof subjectId === "string" &&
+    subjectId.trim() !== "" &&
+    // eslint-disable-next-line no-control-regex -- matching control chars is the point
+    !/[\u0000-\u001F\u007F]/.test(subjectId)
+  );
+}
+
+/**
+ * Every entry about one subject written on or before `asOf` (all of them when `asOf`
+ * is undefined), oldest first; entries written the same day keep file order.
+ */
+export function journalEntriesFor(
+  entries: readonly LoadedJournalEntry[],
+  subject: JournalSubject,
+  subjectId: string,
+  asOf?: IsoDate,
+): LoadedJournalEntry[] {
+  return entries
+    .filter(
+      (entry) =>
+        entry.subject === subject &&
+        entry.subjectId === subjectId &&
+        (asOf === undefined || entry.writtenAt <= asOf),
+    )
+    .sort((a, b) => a.writtenAt.localeCompare(b.writtenAt) || a.line - b.line);
+}
@@ -0,0 +1,151 @@
+// Behavior locks for `buildNavHistory`: one fold per date valued through the composition
+// report's own NAV and split by Tempo, the running drawdown on every point, and the
+// series' peak, deepest fall and recovery — read net of external flows, so cash moving in
+// or out is neither a high nor a fall. Each point must equal a standalone fold as of its
+// date — the reproducibility the series is for. Reuses the cash-settlement genesis.
+import { describe, expect, it } from "vitest";
+import {
+  buildCompositionReport,
+  buildNavHistory,
+  dailyNavDates,
+  foldEvents,
+  formatCompositionReport,
+  formatNavHistory,
+  type PortfolioEvent,
+} from "./index.js";
+import { genesis } from "./cash-settlement.fixtures.js";
+
+const mark = (id: string, asOf: string, price: number): PortfolioEvent => ({
+  id,
+  asOf,
+  type: "PriceMarked",
+  instrumentId: "alt-usd",
+  price,
+});
+
+// The genesis Fund is 3100: 2300 of Reserve-tempo cash and alt-pos 20 × 40 in Pulse.
+// Up to 3180, down to 2900, back above the old high to 3200.
+const EVENTS = [
+  mark("up", "2026-06-02", 44),
+  mark("down", "2026-06-03", 30),
+  mark("back", "2026-06-05", 45),
+];
+
+describe("dailyNavDates", () => {
+  it("lists every calendar day with both ends included", () => {
+    expect(dailyNavDates("2026-06-29", "2026-07-02")).toEqual([
+      "2026-06-29",
+      "2026-06-30",
+      "2026-07-01",
+      "2026-07-02",
+    ]);
+    expect(dailyNavDates("2026-06-01", "2026-06-01")).toEqual(["2026-06-01"]);
+  });
+});
+
+describe("buildNavHistory", () => {
+  const dates = dailyNavDates("2026-06-01", "2026-06-05");
+
+  it("values each date as a standalone fold, split by Tempo", () => {
+    const history = buildNavHistory(genesis(), EVENTS, dates);
+
+    expect(history.points.map((point) => point.fundValueUsd)).toEqual([3100, 3180, 2900, 2900, 3200]);
+    for (const point of history.points) {
+      const standalone = buildCompositionReport(foldEvents(genesis(), EVENTS, point.asOf).data);
+      expect(point.fundValueUsd).toBe(standalone.totals.fundValueUsd);
+    }
+    expect(history.points[1]?.byTempo).toEqual(
+      expect.arrayContaining([
+        { tempo: "Reserve", usdValue: 2300 },
+        { tempo: "Pulse", usdValue: 880 },
+      ]),
+    );
+  });
+
+  it("reports the peak, the deepest fall and the days it took to recover", () => {
+    const history = buildNavHistory(genesis(), EVENTS, dates);
+
+    expect(history.peak).toEqual({ asOf: "2026-06-05", fundValueUsd: 3200 });
+    expect(history.points[3]?.drawdownPct).toBeCloseTo((2900 / 3180 - 1) * 100, 12);
+    expect(history.points[4]?.drawdownPct).toBe(0);
+    expect(history.maxDrawdown).toMatchObject({
+      peakDate: "2026-06-02",
+      peakValueUsd: 3180,
+      troughDate: "2026-06-03",
+      troughValueUsd: 2900,
+      recoveryDate: "2026-06-05",
+      recoveryDays: 2,
+    });
+  });
+
+  it("leaves recovery open while NAV is still under water", () => {
+    const history = buildNavHistory(genesis(), EVENTS, dates.slice(0, 4));
+    expect(history.maxDrawdown?.troughDate).toBe("2026-06-03");
+    expect(history.maxDrawdown).not.toHaveProperty("recoveryDate");
+    expect(formatNavHistory(history)).toContain("Recovered: not yet");
+  });
+
+  it("has no drawdown on a series that never fell, and sorts and dedups its dates", () => {
+    const history = buildNavHistory(genesis(), [mark("up", "2026-06-02", 44)], [
+      "2026-06-02",
+      "2026-06-01",
+      "2026-06-02",
+    ]);
+    expect(history.points.map((point) => point.asOf)).toEqual(["2026-06-01", "2026-06-02"]);
+    expect(history.maxDrawdown).toBeUndefined();
+  });
+
+  it("reads a withdrawal on a flat book as no drawdown at all", () => {
+    const withdraw: PortfolioEvent = {
+      id: "wd",
+      asOf: "2026-06-03",
+      type: "Withdraw",
+      reserveId: "tiered",
+      amount: 600,
+      tier: "c1",
+    };
+    const history = buildNavHistory(genesis(), [withdraw], dates);
+
+    expect(history.points.map((point) => point.fundValueUsd)).toEqual([3100, 3100, 2500, 2500, 2500]);
+    expect(history.points.map((point) => point.drawdownPct)).toEqual([0, 0, 0, 0, 0]);
+    expect(history.maxDrawdown).toBeUndefined();
+    expect(formatNavHistory(history)).toContain("Max drawdown: none");
+  });
+
+  it("lets no deposit set a peak: the high is the one the marks earned", () => {
+    const deposit: PortfolioEvent = {
+      id: "dep",
+      asOf: "2026-06-04",
+      type: "Deposit",
+      reserveId: "untiered",
+      amount: 1000,
+      tier: "c3",
+    };
+    const history = buildNavHistory(genesis(), [...EVENTS, deposit], dates);
+
+    // Raw NAV tops out at 4200 on the 5th, but 1000 of that is the deposit: the same
+    // +300 the marks earned is now a smaller return on a larger book, short of the 2nd.
+    expect(history.points.map((point) => point.fundValueUsd)).toEqual([3100, 3180, 2900, 3900, 4200]);
+    expect(history.peak).toEqual({ asOf: "2026-06-02", fundValueUsd: 3180 });
+    expect(history.points[3]?.drawdownPct).toBeCloseTo((2900 / 3180 - 1) * 100, 12);
+    expect(history.maxDrawdown).toMatchObject({ peakDate: "2026-06-02", troughDate: "2026-06-03" });
+    expect(history.maxDrawdown).not.toHaveProperty("recoveryDate");
+  });
+
+  it("refuses an empty date list", () => {
+    expect(() => buildNavHistory(genesis(), EVENTS, [])).toThrow(/no dates/);
+  });
+});
+
+describe("NAV history — the composition report section", () => {
+  it("renders only when composed and passed in", () => {
+    const data = foldEvents(genesis(), EVENTS).data;
+    const navHistory = buildNavHistory(genesis(), EVENTS, dailyNavDates("2026-06-01", "2026-06-05"));
+    const text = formatCompositionReport(buildCompositionReport(data, { navHistory }));
+
+    expect(text).toContain("NAV History 2026-06-01 → 2026-06-05");
+    expect(text).toContain("Max drawdown: -8.8% (2026-06-02 $3,180.00 → 2026-06-03 $2,900.00)");
+    expect(text).toContain("Recovered: 2026-06-05 (2 day(s) after the trough)");
+    expect(formatCompositionReport(buildCompositionReport(data))).not.toContain("NAV History");
+  });
+});
@@ -34,7 +34,9 @@ const SYNTHETIC_ORDER: OrderPlacedRecord = {
  * is what makes counting its keys a real assertion about the log's verb surface.
  *
  * Asserted against the union and NOT against ADR-003's body, which only ever enumerates
- * NINE — the tenth verb (`ReserveOpened`) lives in the code and in ADR-012.
+ * NINE — the tenth verb (`ReserveOpened`) lives in the code and in ADR-012, and the
+ * Economic P&L pair (`IncomeReceived`/`CostCharged`), `DecisionRevised` and `FxMarked`
+ * in the code and the domain model.
  */
 const EVENT_VERBS: Record<PortfolioEvent["type"], true> = {
   PositionOpened: true,
@@ -47,6 +49,10 @@ const EVENT_VERBS: Record<PortfolioEvent["type"], true> = {
   Transfer: true,
   InvalidationMarked: true,
   ReserveOpened: true,
+  IncomeReceived: true,
+  CostCharged: true,
+  DecisionRevised: true,
+  FxMarked: true,
 };
 
 describe("O4 — the orders sidecar leaves the durable log untouched", () => {
@@ -80,8 +86,8 @@ describe("O4 — the orders sidecar leaves the durable log untouched", () => {
     expect(parseEvent(dressed).kind).toBe("event-error");
   });
 
-  it("the event verb count is TEN", () => {
-    expect(Object.keys(EVENT_VERBS)).toHaveLength(10);
+  it("the event verb count is FOURTEEN", () => {
+    expect(Object.keys(EVENT_VERBS)).toHaveLength(14);
   });
 
   it("EVENT_SCHEMA_VERSION is 2", () => {
@@ -89,7 +95,7 @@ describe("O4 — the orders sidecar leaves the durable log untouched", () => {
   });
 });
 
-describe("`S8` — the fill act introduces NO eleventh verb", () => {
+describe("`S8` — the fill act introduces NO new verb", () => {
   // The riskiest slice is the one that writes to BOTH files, so the claim that it did not
   // widen the log's verb surface is asserted against the same union map above rather than
   // against a second, drifting list.
@@ -113,9 +119,9 @@ describe("`S8` — the fill act introduces NO eleventh verb", () => {
     target: { mode: "add", positionId: "position-synthetic" },
   });
 
-  it("writes a verb the ten-verb union already contains", () => {
+  it("writes a verb the fourteen-verb union already contains", () => {
     expect(EVENT_VERBS[act.event.type]).toBe(true);
-    expect(Object.keys(EVENT_VERBS)).toHaveLength(10);
+    expect(Object.keys(EVENT_VERBS)).toHaveLength(14);
   });
 
   it("keeps EVENT_SCHEMA_VERSION at 2", () => {
@@ -0,0 +1,97 @@
+/**
+ * PURE parser for Binance's spot order-history export, filtered to open orders — the
+ * second venue adapter (`BINANCE_OPEN_ORDERS`, `./open-orders-venues.ts`). Its rows go
+ * through the same row loop as `./bitget.ts` (`parseVenueOpenOrders`, `./open-orders.ts`),
+ * where the rationale for each rule lives; what is written here is only where this
+ * venue's table differs.
+ *
+ * THE HEADER IS TRANSCRIBED, NOT YET OBSERVED. It is the column set the venue's web table
+ * shows, lower-cased; no real file has been read first-hand the way Bitget's was. That
+ * costs little if it is wrong, and in the safe direction: a header that differs is refused
+ * whole, naming both, and nothing is read at all.
+ *
+ * WHERE THIS TABLE DIFFERS FROM BITGET'S:
+ *
+ *   - **It carries an order number, and it is read past.** Identity stays SYNTHESIZED
+ *     from `(pair, side, price, submittedAt)` under the `binance` venue component. One
+ *     id shape across venues is what the re-price rule (a new price is a new id) and the
+ *     fills join are built on, and a venue-assigned number would quietly opt this venue
+ *     out of both.
+ *   - **The stamp is UTC**, where Bitget's is the exchange's local clock. It is an id
+ *     component and an ordering key WITHIN the venue, and no rule compares one venue's
+ *     stamps against another's, so the two clocks never meet.
+ *   - **There is no time-in-force and no trigger column.** Both are OMITTED from the order
+ *     — "this venue never told us" — and never defaulted (`ObservedOpenOrder`, #205).
+ *   - `average price` and `trading total` are read past and DROPPED for the reason
+ *     Bitget's `order_value` is: they are derived from executions and drift against the
+ *     authoritative size.
+ */
+import {
+  parseVenueOpenOrders,
+  type OpenOrdersParse,
+  type OpenOrdersVenueAdapter,
+  type VenueOpenOrder,
+} from "./open-orders.js";
+
+/** The 11 columns, lower-cased, in the order the venue writes them. */
+export const BINANCE_OPEN_ORDERS_HEADER = [
+  "date(utc)",
+  "orderno",
+  "pair",
+  "type",
+  "side",
+  "order price",
+  "order amount",
+  "executed",
+  "average price",
+  "trading total",
+  "status",
+] as const;
+
+/** One of the header's columns, so a cell is never read under a misspelt name. */
+type BinanceColumn = (typeof BINANCE_OPEN_ORDERS_HEADER)[number];
+
+/**
+ * The venue's status words for a row that may still be resting, normalized
+ * (`NEW`, `PARTIALLY_FILLED`). A terminal word — `FILLED`, `CANCELED`, `EXPIRED` — is not
+ * here and need not be: the remainder answers those rows before the word is read.
+ */
+export const BINANCE_RESTING_STATUSES = ["new", "partiallyfilled"] as const;
+
+/** The venue's identifier, and the first component of every id synthesized from it. */
+export const BINANCE_VENUE = "binance";
+
+/** One open order as the venue showed it, plus the identity synthesized for it. */
+export interface BinanceOpenOrder extends VenueOpenOrder {
+  orderType: string;
+}
+
+/**
+ * Parse a Binance open-orders export into observed orders with deterministic ids, through
+ * the shared row loop (`parseVenueOpenOrders`) under `parseBitgetOpenOrdersCsv`'s contract.
+ * A market order prints no `order price`, so it is `malformed` there like any rung
+ * without a price.
+ */
+export function parseBinanceOpenOrdersCsv(csv: string): OpenOrdersParse<BinanceOpenOrder> {
+  return parseVenueOpenOrders<BinanceOpenOrder, BinanceColumn>(csv, BINANCE_OPEN_ORDERS, {
+    columns: {
+      observedAt: "date(utc)",
+      pair: "pair",
+      side: "side",
+      price: "order price",
+      quantity: "order amount",
+      filledQuantity: "executed",
+      status: "status",
+    },
+    complete: (order, cell) => ({ ...order, orderType: cell("type").trim() }),
+  });
+}
+
+/** Binance as a venue adapter — the registry entry `pnpm orders:import` sniffs for. */
+export const BINANCE_OPEN_ORDERS: OpenOrdersVenueAdapter<BinanceOpenOrder> = {
+  venue: BINANCE_VENUE,
+  label: "Binance",
+  header: BINANCE_OPEN_ORDERS_HEADER,
+  restingStatuses: BINANCE_RESTING_STATUSES,
+  parse: parseBinanceOpenOrdersCsv,
+};
@@ -0,0 +1,166 @@
+/**
+ * The PURE half of the fills import: the Bitget fills-export parse, the join from a trade
+ * back to its rung by the synthesized identity, and the refusal of a foreign header.
+ *
+ * EVERY FIXTURE IS A SYNTHETIC LADDER (`O7`) — the pair, prices and sizes are invented
+ * round numbers. What is asserted is a PROPERTY: the fill finds the rung the open-orders
+ * import minted, by the ORDER's columns and never the trade's.
+ */
+import { describe, expect, it } from "vitest";
+import { BITGET_FILLS_HEADER, parseBitgetFillsCsv, type BitgetFill } from "./bitget-fills.js";
+import { BITGET_OPEN_ORDERS_HEADER, parseBitgetOpenOrdersCsv } from "./bitget.js";
+import { committedRungs } from "./committed.js";
+import { matchObservedFills } from "./fill.js";
+import { buildOrderPlacedRecords } from "./ingest.js";
+import type { OrderRecord } from "./records.js";
+import { pickRestingOrdersAsOf } from "./select.js";
+
+const HEADER = BITGET_FILLS_HEADER.join(",");
+
+/** One synthetic trade row. The order behind it rests at 1000 from 10:00:00. */
+function row(overrides: Partial<Record<string, string>> = {}): string {
+  const fields: Record<string, string> = {
+    timestamp: "2020-01-03 14:30:00",
+    order_time: "2020-01-01 10:00:00",
+    pair: "XYZ/USDT",
+    side: "Buy",
+    order_price: "1000",
+    price: "999.5",
+    quantity: "0.1",
+    amount: "99.95",
+    fee: "0.1",
+    fee_currency: "USDT",
+    ...overrides,
+  };
+  return BITGET_FILLS_HEADER.map((column) => fields[column] ?? "").join(",");
+}
+
+function csv(...rows: string[]): string {
+  return [HEADER, ...rows].join("\n");
+}
+
+function okFills(text: string): BitgetFill[] {
+  const parsed = parseBitgetFillsCsv(text);
+  if (parsed.status !== "ok") {
+    throw new Error(`expected an ok parse, got ${parsed.status}`);
+  }
+  return parsed.fills;
+}
+
+/** The resting rung the open-orders import would have minted for the same order. */
+function restingLadder(): OrderRecord[] {
+  const openOrders = parseBitgetOpenOrdersCsv(
+    [
+      BITGET_OPEN_ORDERS_HEADER.join(","),
+      '2020-01-01 10:00:00,XYZ/USDT,GTC,Limit,Buy,"1,000.00",0.1,-- / --,100,0,0.1,' +
+        "0.00%,Unfilled,Cancel",
+    ].join("\n"),
+  );
+  if (openOrders.status !== "ok") {
+    throw new Error("synthetic open-orders export is invalid");
+  }
+  return buildOrderPlacedRecords(openOrders.orders, { fundingReserveId: "reserve-a" });
+}
+
+describe("parseBitgetFillsCsv — the 10-column trade history", () => {
+  it("keys the trade to its ORDER's identity, not to its own price or stamp", () => {
+    const [fill] = okFills(csv(row()));
+    expect(fill).toEqual({
+      orderId: "bitget:XYZUSDT:buy:1000:2020-01-01T10:00:00",
+      observedAt: "2020-01-03T14:30:00",
+      currency: "USD",
+      symbol: "XYZUSDT",
+      side: "buy",
+      price: 999.5,
+      quantity: 0.1,
+      amount: 99.95,
+      orderPrice: 1000,
+      orderTime: "2020-01-01T10:00:00",
+    });
+  });
+
+  it("synthesizes the same id the open-orders import minted, whatever the spelling", () => {
+    const [placed] = restingLadder();
+    const [fill] = okFills(csv(row({ pair: "xyz-usdt", order_price: "1000.00" })));
+    expect(fill?.orderId).toBe(placed?.id);
+  });
+
+  it("refuses the open-orders export whole, and the reverse", () => {
+    const openOrders = `${BITGET_OPEN_ORDERS_HEADER.join(",")}\n`;
+    const refused = parseBitgetFillsCsv(openOrders);
+    expect(refused.status).toBe("unrecognized-header");
+    if (refused.status !== "unrecognized-header") return;
+    expect(refused.message).toContain("10-column fills header");
+    expect(parseBitgetOpenOrdersCsv(csv(row())).status).toBe("unrecognized-header");
+    expect(parseBitgetFillsCsv("").status).toBe("unrecognized-header");
+  });
+
+  it("skips and reports a bad row while the rest parse", () => {
+    const parsed = parseBitgetFillsCsv(
+      csv(
+        row({ pair: "XYZ/ZZZ" }),
+        row({ amount: "0" }),
+        row({ timestamp: "2019-12-31 09:00:00" }),
+        row({ order_price: "10,50" }),
+        row(),
+      ),
+    );
+    expect(parsed.status).toBe("ok");
+    if (parsed.status !== "ok") return;
+    expect(parsed.fills).toHaveLength(1);
+    expect(parsed.skips.map((skip) => [skip.line, skip.problem])).toEqual([
+      [2, "unknown-quote-currency"],
+      [3, "malformed"],
+      [4, "malformed"],
+      [5, "malformed"],
+    ]);
+    expect(parsed.skips[2]?.message).toContain("before its order was submitted");
+  });
+});
+
+describe("matchObservedFills — the join to the resting book", () => {
+  it("pre-fills the act's quantity, stamp and cash from the trade", () => {
+    const records = restingLadder();
+    const rungs = committedRungs(pickRestingOrdersAsOf(records));
+    const [match] = matchObservedFills(okFills(csv(row())), rungs, records);
+    expect(match?.status).toBe("matched");
+    if (match?.status !== "matched") return;
+    expect(match.prefill).toEqual({
+      rung: rungs[0],
+      filledQuantity: 0.1,
+      observedAt: "2020-01-03T14:30:00",
+      fundingAmount: 99.95,
+    });
+  });
+
+  it("names a fill already on file, a sell, and a rung that is not resting", () => {
+    const records: OrderRecord[] = [
+      ...restingLadder(),
+      {
+        id: "bitget:XYZUSDT:buy:1000:2020-01-01T10:00:00",
+        observedAt: "2020-01-03T14:30:00",
+        kind: "orderFilled",
+        currency: "USD",
+        filledQuantity: 0.1,
+      },
+    ];
+    const rungs = committedRungs(pickRestingOrdersAsOf(records));
+    const matches = matchObservedFills(
+      okFills(
+        csv(
+          row({ timestamp: "2020-01-04 09:00:00", side: "Sell" }),
+          row({ timestamp: "2020-01-04 08:00:00", order_price: "900" }),
+          row(),
+        ),
+      ),
+      rungs,
+      records,
+    );
+    // In the order the trades happened, not the order the export printed them.
+    expect(matches.map((match) => match.status)).toEqual([
+      "already-recorded",
+      "no-resting-rung",
+      "not-a-buy",
+    ]);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * PURE parser for Bitget's fills (trade-history) export — the sibling of the open-orders
+ * parser in `./bitget.ts`, reading its cells through the same `./export-cells.ts` so one
+ * cell means one thing across both files. The file reading, the matching report and the
+ * operator prompt live in the TUI (ADR-001).
+ *
+ * WHAT A ROW HAS TO CARRY IS THE ORDER, NOT ONLY THE TRADE. The sidecar knows a resting
+ * rung by its synthesized identity — `(pair, side, price, submittedAt)`, `./ingest.js` —
+ * and the price and stamp in that identity are the ORDER's limit and submission time. A
+ * trade executes at its own price and its own second, so a row is joinable only because
+ * the export also prints `order_price` and `order_time`. The trade's own `price` and
+ * `timestamp` are carried for what they are — the execution and the fill's stamp — and
+ * never enter the id.
+ *
+ * Two columns are read past and DELIBERATELY DROPPED, the way `order_value` is dropped
+ * from the open-orders export:
+ *
+ *   - `fee` and `fee_currency` — a fee is friction, not the fill. The act debits the cash
+ *     the trade moved (`amount`), and a fee is disclosed or recorded as its own act; folding
+ *     it in here would make the lot's cost basis a figure the venue never printed.
+ */
+import type { ObservedFill } from "./fill.js";
+import { canonicalDecimal, synthesizeOrderId } from "./ingest.js";
+import { BITGET_VENUE } from "./bitget.js";
+import {
+  headerMatches,
+  normalizeTimestamp,
+  readExportHeader,
+  readPair,
+  readSide,
+  splitCsvLine,
+} from "./export-cells.js";
+
+/**
+ * The 10 columns, in the order the venue writes them. Like the open-orders header it is
+ * also the guard: an open-orders export — or any other CSV — handed to this parser is
+ * refused whole rather than half-read as trades.
+ */
+export const BITGET_FILLS_HEADER = [
+  "timestamp",
+  "order_time",
+  "pair",
+  "side",
+  "order_price",
+  "price",
+  "quantity",
+  "amount",
+  "fee",
+  "fee_currency",
+] as const;
+
+/** One executed trade as the venue showed it, keyed to the rung it filled. */
+export interface BitgetFill extends ObservedFill {
+  /** The order's LIMIT price — the one inside `orderId`. */
+  orderPrice: number;
+  /** The order's submission stamp — the one inside `orderId`. */
+  orderTime: string;
+}
+
+export type BitgetFillProblem = "malformed" | "unknown-quote-currency";
+
+/** One row that did not become a fill, reported rather than swallowed. */
+export interface BitgetFillSkip {
+  /** 1-based line number in the file, so the operator can go look at it. */
+  line: number;
+  problem: BitgetFillProblem;
+  message: string;
+}
+
+export type BitgetFillsParse =
+  | { status: "ok"; fills: BitgetFill[]; skips: BitgetFillSkip[] }
+  | { status: "unrecognized-header"; message: string };
+
+function skip(line: number, problem: BitgetFillProblem, message: string): BitgetFillSkip {
+  return { line, problem, message };
+}
+
+/**
+ * Parse a Bitget fills export into observed fills keyed to their rungs' synthesized ids.
+ *
+ * TOTAL, with the open-orders parser's two-level contract: a header that is not the known
+ * 10 columns refuses the whole file, and past it a bad ROW is skipped and reported while
+ * the rest parse. A skipped fill costs nothing durable — no act is proposed for it, and the
+ * next export still carries it.
+ */
+export function parseBitgetFillsCsv(csv: string): BitgetFillsParse {
+  const read = readExportHeader(csv);
+  if (read === undefined) {
+    return { status: "unrecognized-header", message: "the file is empty" };
+  }
+
+  const { lines, headerIndex, header } = read;
+  const expected = [...BITGET_FILLS_HEADER];
+  if (!headerMatches(header, expected)) {
+    return {
+      status: "unrecognized-header",
+      message:
+        `expected the ${expected.length}-column fills header ` +
+        `[${expected.join(", ")}], got [${header.join(", ")}]`,
+    };
+  }
+
+  const column = (fields: string[], name: (typeof BITGET_FILLS_HEADER)[number]): string =>
+    fields[expected.indexOf(name)] ?? "";
+
+  const fills: BitgetFill[] = [];
+  const skips: BitgetFillSkip[] = [];
+
+  for (let index = headerIndex + 1; index < lines.length; index += 1) {
+    const raw = lines[index] ?? "";
+    if (raw.trim() === "") {
+      continue;
+    }
+    const lineNumber = index + 1;
+    const fields = splitCsvLine(raw);
+    if (fields.length !== expected.length) {
+      skips.push(
+        skip(lineNumber, "malformed", `expected ${expected.length} columns, got ${fields.length}`),
+      );
+      continue;
+    }
+
+    const observedAt = normalizeTimestamp(column(fields, "timestamp"));
+    if (observedAt === undefined) {
+      skips.push(skip(lineNumber, "malformed", "timestamp must be a second-granular local stamp"));
+      continue;
+    }
+
+    const orderTime = normalizeTimestamp(column(fields, "order_time"));
+    if (orderTime === undefined) {
+      skips.push(
+        skip(lineNumber, "malformed", "order_time must be a second-granular local stamp"),
+      );
+      continue;
+    }
+    // A trade cannot precede the order it filled. Admitting one would propose an act the
+    // fill flow then refuses as `bad-timestamp`; refusing it here names the row instead.
+    if (observedAt < orderTime) {
+      skips.push(
+        skip(
+          lineNumber,
+          "malformed",
+          `the trade is stamped ${observedAt}, before its order was submitted (${orderTime})`,
+        ),
+      );
+      continue;
+    }
+
+    const pair = readPair(column(fields, "pair"));
+    if (pair === undefined) {
+      skips.push(
+        skip(
+          lineNumber,
+          "unknown-quote-currency",
+          `pair ${JSON.stringify(column(fields, "pair").trim())} does not end in a quote ` +
+            `currency this build prices`,
+        ),
+      );
+      continue;
+    }
+
+    const side = readSide(column(fields, "side"));
+    if (side === undefined) {
+      skips.push(skip(lineNumber, "malformed", "side must be Buy or Sell"));
+      continue;
+    }
+
+    // CANONICAL BY TEXT, exactly as the open-orders parser reads `price`: this string is
+    // what goes into the id, and a spelling difference here would be a different rung.
+    const orderPrice = canonicalDecimal(column(fields, "order_price"));
+    if (orderPrice === undefined || Number(orderPrice) <= 0) {
+      skips.push(skip(lineNumber, "malformed", "order_price must be a positive decimal"));
+      continue;
+    }
+
+    const price = canonicalDecimal(column(fields, "price"));
+    if (price === undefined || Number(price) <= 0) {
+      skips.push(skip(lineNumber, "malformed", "price must be a positive decimal"));
+      continue;
+    }
+
+    const quantity = canonicalDecimal(column(fields, "quantity"));
+    if (quantity === undefined || Number(quantity) <= 0) {
+      skips.push(skip(lineNumber, "malformed", "quantity must be a positive decimal"));
+      continue;
+    }
+
+    const amount = canonicalDecimal(column(fields, "amount"));
+    if (amount === undefined || Number(amount) <= 0) {
+      skips.push(skip(lineNumber, "malformed", "amount must be a positive decimal"));
+      continue;
+    }
+
+    fills.push({
+      orderId: synthesizeOrderId({
+        venue: BITGET_VENUE,
+        symbol: pair.symbol,
+        side,
+        price: orderPrice,
+        observedAt: orderTime,
+      }),
+      observedAt,
+      currency: pair.currency,
+      symbol: pair.symbol,
+      side,
+      price: Number(price),
+      quantity: Number(quantity),
+      amount: Number(amount),
+      orderPrice: Number(orderPrice),
+      orderTime,
+    });
+  }
+
+  return { status: "ok", fills, skips };
+}
@@ -11,10 +11,10 @@
 import { describe, expect, it } from "vitest";
 import {
   BITGET_OPEN_ORDERS_HEADER,
-  leavesRungUnweighed,
   parseBitgetOpenOrdersCsv,
   type BitgetOpenOrder,
 } from "./bitget.js";
+import { leavesRungUnweighed } from "./open-orders.js";
 import { buildOrderPlacedRecords, canonicalDecimal, synthesizeOrderId } from "./ingest.js";
 import { checkFundingCoverage } from "./coverage.js";
 import { committedRungs } from "./committed.js";
@@ -258,6 +258,31 @@ describe("#173 — the venue's filled_quantity is carried, and the REMAINDER dec
     expect(good).toMatchObject({ planId: "plan-1", rungId: "rung-1" });
   });
 
+  it("writes a sell's declared units only on a sell, and only when the reader takes them", () => {
+    const orders = okOrders(
+      csv(row({ price: "100", quantity: "10" }), row({ side: "Sell", price: "200" })),
+    );
+    const [buy, sell] = orders;
+    if (!buy || !sell) throw new Error("expected two orders");
+    const target = { positionId: "position-a", tier: "c2" as const };
+    const records = buildOrderPlacedRecords(orders, {
+      fundingReserveId: "reserve-a",
+      sellTargets: { [buy.id]: target, [sell.id]: target },
+    });
+    expect(records[0]).not.toHaveProperty("positionId");
+    expect(records[1]).toMatchObject(target);
+    for (const record of records) {
+      expect(parseOrderRecord(JSON.parse(serializeOrderRecord(record))).status).toBe("ok");
+    }
+
+    const [blank] = buildOrderPlacedRecords([sell], {
+      fundingReserveId: "reserve-a",
+      sellTargets: { [sell.id]: { positionId: " ", tier: "c2" } },
+    });
+    expect(blank).not.toHaveProperty("positionId");
+    expect(blank).not.toHaveProperty("tier");
+  });
+
   it("writes NO extra key when there is nothing filled, so existing lines are unchanged", () => {
     const [record] = buildOrderPlacedRecords(okOrders(csv(row({ filled_quantity: "0" }))), {
       fundingReserveId: "reserve-a",
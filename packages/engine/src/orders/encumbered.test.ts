@@ -0,0 +1,197 @@
+/**
+ * The sell side of `S7` — held, committed and available UNITS per position and tier, the
+ * sells that substantiate them, and the unit-side import guard.
+ *
+ * EVERY FIXTURE IS SYNTHETIC (`O7`): an invented instrument, round lot sizes, round prices.
+ * What is asserted is a PROPERTY — the sells sum to the committed figure, held is never
+ * moved, a sell that names nothing encumbers nothing.
+ */
+import { describe, expect, it } from "vitest";
+import type { FundReviewData } from "../contracts.js";
+import { parseFixture } from "../fund-composition.fixtures.js";
+import { formatAvailableUnits } from "../format.js";
+import {
+  checkUnitCoverage,
+  composeAvailableUnits,
+  encumberingSells,
+  proposeSellTarget,
+} from "./encumbered.js";
+import type { CapitalTier } from "../contracts.js";
+import type { OrderPlacedRecord, OrderRecord } from "./records.js";
+import { pickRestingOrdersAsOf } from "./select.js";
+
+const POSITION = "test-core";
+
+/** One open position holding 6 units in c1 and 4 in c2, plus a reserve for proceeds. */
+function syntheticFund(): FundReviewData {
+  return parseFixture({
+    fund: { id: "synthetic-fund", name: "Synthetic Fund", baseCurrency: "USD" },
+    review: { asOf: "2026-01-31", usdMxn: 20 },
+    portfolios: [{ id: "core", name: "Core" }],
+    accounts: [{ id: "venue-usd", name: "Synthetic Venue", platform: "BITGET", currency: "USD" }],
+    instruments: [{ id: "test-usd", name: "Test Asset", symbol: "TEST", currency: "USD" }],
+    reserves: [
+      {
+        id: "reserve-capital",
+        portfolioId: "core",
+        tempo: "Capital",
+        executionMode: "live",
+        accountId: "venue-usd",
+        currency: "USD",
+        amount: 1000,
+      },
+    ],
+    positions: [
+      {
+        id: POSITION,
+        portfolioId: "core",
+        tempo: "Capital",
+        executionMode: "live",
+        accountId: "venue-usd",
+        instrumentId: "test-usd",
+        direction: "long",
+        currency: "USD",
+        status: "open",
+        openedAt: "2026-01-01",
+        markPrice: 120,
+        lots: [
+          { quantity: 6, cost: 100, tier: "c1" },
+          { quantity: 4, cost: 100, tier: "c2" },
+        ],
+      },
+    ],
+  });
+}
+
+function sell(
+  price: number,
+  quantity: number,
+  target?: { positionId: string; tier: CapitalTier },
+): OrderPlacedRecord {
+  return {
+    id: `synth:TESTUSDT:sell:${price}:2026-01-02T09:00:00`,
+    observedAt: "2026-01-02T09:00:00",
+    kind: "orderPlaced",
+    currency: "USD",
+    symbol: "TESTUSDT",
+    side: "sell",
+    price,
+    quantity,
+    fundingReserveId: "reserve-capital",
+    ...(target ?? {}),
+  };
+}
+
+describe("composeAvailableUnits — committed vs available units", () => {
+  it("sums the declared sells per tier and leaves held exactly as the fold reported it", () => {
+    const records: OrderRecord[] = [
+      sell(150, 2, { positionId: POSITION, tier: "c1" }),
+      sell(160, 1, { positionId: POSITION, tier: "c1" }),
+      sell(170, 1, { positionId: POSITION, tier: "c2" }),
+    ];
+    const report = composeAvailableUnits(syntheticFund(), pickRestingOrdersAsOf(records));
+
+    expect(
+      report.positions.map((units) => [units.tier, units.held, units.committed, units.available]),
+    ).toEqual([
+      ["c1", 6, 3, 3],
+      ["c2", 4, 1, 3],
+    ]);
+    const [c1] = report.positions;
+    expect(c1?.sells.reduce((total, row) => total + row.remainingQuantity, 0)).toBe(
+      c1?.committed,
+    );
+    expect(report.unmatched).toEqual([]);
+  });
+
+  it("never counts a buy, and encumbers only a sell's remainder", () => {
+    const partial: OrderRecord[] = [
+      { ...sell(150, 4, { positionId: POSITION, tier: "c1" }), observedFilledQuantity: 1 },
+      { ...sell(90, 5), side: "buy" },
+    ];
+    const resting = pickRestingOrdersAsOf(partial);
+    expect(encumberingSells(resting)).toHaveLength(1);
+    const report = composeAvailableUnits(syntheticFund(), resting);
+    expect(report.positions[0]?.committed).toBe(3);
+  });
+
+  it("reports every sell it cannot place, by reason, and places none of them", () => {
+    const records: OrderRecord[] = [
+      sell(150, 1),
+      sell(160, 1, { positionId: "test-gone", tier: "c1" }),
+      sell(170, 1, { positionId: POSITION, tier: "c3" }),
+    ];
+    const report = composeAvailableUnits(syntheticFund(), pickRestingOrdersAsOf(records));
+    expect(report.unmatched.map((entry) => entry.reason)).toEqual([
+      "undeclared-position",
+      "unknown-position",
+      "tier-not-held",
+    ]);
+    expect(report.positions.every((units) => units.committed === 0)).toBe(true);
+  });
+});
+
+describe("checkUnitCoverage — the unit-side import guard", () => {
+  it("refuses a tier with more units resting for sale than it holds", () => {
+    const records = [sell(150, 5, { positionId: POSITION, tier: "c2" })];
+    const coverage = checkUnitCoverage(syntheticFund(), pickRestingOrdersAsOf(records));
+    expect(coverage.status).toBe("over-encumbered");
+    if (coverage.status !== "over-encumbered") return;
+    expect(coverage.shortfalls.map((units) => [units.tier, units.available])).toEqual([
+      ["c2", -1],
+    ]);
+  });
+
+  it("refuses a declaration naming units the fold does not have", () => {
+    const records = [sell(150, 1, { positionId: POSITION, tier: "c3" })];
+    expect(checkUnitCoverage(syntheticFund(), pickRestingOrdersAsOf(records)).status).toBe(
+      "unattributed",
+    );
+  });
+
+  it("lets an undeclared legacy sell through — nothing the operator declares can clear it", () => {
+    const records = [sell(150, 100), sell(160, 4, { positionId: POSITION, tier: "c2" })];
+    expect(checkUnitCoverage(syntheticFund(), pickRestingOrdersAsOf(records))).toEqual({
+      status: "covered",
+    });
+  });
+});
+
+describe("proposeSellTarget — a proposal, only when it is unambiguous", () => {
+  it("proposes nothing while the one matching position holds two tiers", () => {
+    expect(proposeSellTarget(syntheticFund(), "TESTUSDT")).toBeUndefined();
+  });
+
+  it("proposes the position and its only tier, and nothing for another pair", () => {
+    const fund = syntheticFund();
+    const single: FundReviewData = {
+      ...fund,
+      positions: fund.positions.map((position) => ({
+        ...position,
+        lots: position.lots.filter((lot) => lot.tier === "c1"),
+      })),
+    };
+    expect(proposeSellTarget(single, "TESTUSDT")).toEqual({ positionId: POSITION, tier: "c1" });
+    expect(proposeSellTarget(single, "OTHERUSDT")).toBeUndefined();
+  });
+});
+
+describe("formatAvailableUnits — Spoken For", () => {
+  it("renders nothing when no sell rests, so every existing surface is unchanged", () => {
+    expect(formatAvailableUnits(composeAvailableUnits(syntheticFund(), []))).toBe("");
+  });
+
+  it("lists each encumbered tier with its sells, and flags what it could not place", () => {
+    const records: OrderRecord[] = [
+      sell(150, 2, { positionId: POSITION, tier: "c1" }),
+      sell(160, 1),
+    ];
+    const block = formatAvailableUnits(
+      composeAvailableUnits(syntheticFund(), pickRestingOrdersAsOf(records)),
+    );
+    expect(block).toContain("Spoken For");
+    expect(block).toMatch(/test-core\s+c1\s+6\s+2\s+4/);
+    expect(block).not.toMatch(/test-core\s+c2/);
+    expect(block).toContain("undeclared-position — declares no position, encumbering nothing");
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Committed vs available UNITS, per open position and Capital Tier — the sell side of
+ * `S7`. A resting take-profit sell claims quantity the fund holds exactly as a resting
+ * buy claims cash the fund holds, and this module is to the first what
+ * `./committed.ts` and `./available.ts` are to the second.
+ *
+ * THE ENCUMBRANCE IS UNITS, NEVER MONEY. A sell at 200 for 2 units claims 2 units of the
+ * position's declared tier; its price says what the proceeds would be, not what is tied
+ * up. So nothing here is summed into a reserve, and `committedRungs` keeps excluding
+ * sells: adding units to a cash balance would be a wrong number, not a missing one.
+ *
+ * THE SAME `D4` RULE: a resting sell encumbers AVAILABILITY, never VALUE. The position's
+ * lots, marks and NAV are the fold's and are untouched; `available` is a third number
+ * computed OVER the held quantity, never subtracted inside it.
+ *
+ * WHAT A SELL SPEAKS FOR IS DECLARED (`OrderPlacedRecord.positionId` and `.tier`). The
+ * venue knows the pair, not the position or the tier, and inferring either — "the only
+ * open position on this instrument" — would be a guess written into an append-only file.
+ * {@link proposeSellTarget} makes that guess as a PROPOSAL the import puts to the
+ * operator, and nothing else here reads a sell's symbol.
+ *
+ * PURE (ADR-001): no IO, no clock. The input is what `pickRestingOrdersAsOf` returned.
+ */
+import type { CapitalTier, Currency, FundReviewData, PositionRecord } from "../contracts.js";
+import { isNegativeSlack } from "./committed.js";
+import type { RestingOrder } from "./select.js";
+
+/** Which units a resting sell speaks for: one open position, one tier of its lots. */
+export interface SellTarget {
+  positionId: string;
+  tier: CapitalTier;
+}
+
+/**
+ * One resting sell, flat and self-describing — the sell-side sibling of
+ * `CommittedRung`, and what the fill prompt lists a sell by.
+ */
+export interface EncumberingSell {
+  orderId: string;
+  observedAt: string;
+  currency: Currency;
+  symbol: string;
+  price: number;
+  /** The size the sell was PLACED for, on the basis a cumulative venue reading uses. */
+  quantity: number;
+  /**
+   * The units STILL claimed: `quantity − consumed`, per `./select.ts`. A REPORT, NOT AN
+   * AUTHORIZATION, for `CommittedRung.remainingQuantity`'s reason — a caller booking a
+   * fill against it applies the booked-fills ceiling at its own boundary.
+   */
+  remainingQuantity: number;
+  /** Where the proceeds settle — the line's `fundingReserveId`, read on the sell side. */
+  settlementReserveId: string;
+  /** Absent on a sell placed before sells declared their units. */
+  target?: SellTarget;
+}
+
+/** The three numbers for one tier of one open position, plus what substantiates the middle. */
+export interface PositionUnits {
+  positionId: string;
+  instrumentId: string;
+  tier: CapitalTier;
+  /** HELD — the tier's lot quantity exactly as the fold reported it. */
+  held: number;
+  /** COMMITTED — `Σ remainingQuantity` over the sells declared against this tier. */
+  committed: number;
+  /**
+   * AVAILABLE — `held − committed`, the units no resting sell has spoken for. Rendered
+   * as it is, never clamped: a negative figure is the impossible state — the venue would
+   * not rest a sell for units the account does not hold — so it means a declaration is
+   * wrong, and the import refuses to write one (`checkUnitCoverage`).
+   */
+  available: number;
+  sells: EncumberingSell[];
+}
+
+/**
+ * Why a resting sell encumbers no position.
+ *
+ *   - `undeclared-position` — it names none: placed before sells declared their units.
+ *   - `unknown-position` — it names a position that is not open (never opened, or closed).
+ *   - `tier-not-held` — the position is open, but holds no lots in the declared tier.
+ */
+export type UnmatchedSellReason = "undeclared-position" | "unknown-position" | "tier-not-held";
+
+/** A sell that cannot be placed against any held units. Surfaced, never dropped. */
+export interface UnmatchedSell {
+  sell: EncumberingSell;
+  reason: UnmatchedSellReason;
+}
+
+export interface AvailableUnitsReport {
+  /** One entry per (open position, tier it holds), in the fold's position and lot order. */
+  positions: PositionUnits[];
+  unmatched: UnmatchedSell[];
+}
+
+/** Every resting SELL, as a flat row, in the order given. Buys are `committedRungs`'. */
+export function encumberingSells(resting: readonly RestingOrder[]): EncumberingSell[] {
+  const sells: EncumberingSell[] = [];
+  for (const order of resting) {
+    const { placed } = order;
+    if (placed.side !== "sell") {
+      continue;
+    }
+    sells.push({
+      orderId: placed.id,
+      observedAt: placed.observedAt,
+      currency: placed.currency,
+      symbol: placed.symbol,
+      price: placed.price,
+      quantity: placed.quantity,
+      remainingQuantity: order.remainingQuantity,
+      settlementReserveId: placed.fundingReserveId,
+      ...(placed.positionId !== undefined && placed.tier !== undefined
+        ? { target: { positionId: placed.positionId, tier: placed.tier } }
+        : {}),
+    });
+  }
+  return sells;
+}
+
+/** The tiers a position holds, in lot order, with the quantity held in each. */
+function heldByTier(position: PositionRecord): Map<CapitalTier, number> {
+  const held = new Map<CapitalTier, number>();
+  for (const lot of position.lots) {
+    held.set(lot.tier, (held.get(lot.tier) ?? 0) + lot.quantity);
+  }
+  return held;
+}
+
+/**
+ * Compose held, committed and available units for every open position and tier, with
+ * the sells that substantiate each committed figure.
+ *
+ * Only OPEN positions take a sell. A sell naming a closed position is `unknown-position`
+ * rather than silently zero: the units it claims are gone, and the operator owes the
+ * venue a cancellation.
+ */
+export function composeAvailableUnits(
+  data: FundReviewData,
+  resting: readonly RestingOrder[],
+): AvailableUnitsReport {
+  const sellsByTarget = new Map<string, EncumberingSell[]>();
+  const unmatched: UnmatchedSell[] = [];
+  const open = new Map(data.positions.map((position) => [position.id, position]));
+
+  for (const sell of encumberingSells(resting)) {
+    if (sell.target === undefined) {
+      unmatched.push({ sell, reason: "undeclared-position" });
+      continue;
+    }
+    const position = open.get(sell.target.positionId);
+    if (position === undefined) {
+      unmatched.push({ sell, reason: "unknown-position" });
+      continue;
+    }
+    if (!heldByTier(position).has(sell.target.tier)) {
+      unmatched.push({ sell, reason: "tier-not-held" });
+      continue;
+    }
+    const key = `${sell.target.positionId}\u0000${sell.target.tier}`;
+    sellsByTarget.set(key, [...(sellsByTarget.get(key) ?? []), sell]);
+  }
+
+  const positions: PositionUnits[] = [];
+  for (const position of data.positions) {
+    for (const [tier, held] of heldByTier(position)) {
+      const sells = sellsByTarget.get(`${position.id}\u0000${tier}`) ?? [];
+      // Summed from the rows themselves, so the list and the figure above it are one sum.
+      const committed = sells.reduce((total, sell) => total + sell.remainingQuantity, 0);
+      positions.push({
+        positionId: position.id,
+        instrumentId: position.instrumentId,
+        tier,
+        held,
+        committed,
+        available: held - committed,
+        sells,
+      });
+    }
+  }
+
+  return { positions, unmatched };
+}
+
+export type UnitCoverage =
+  | { status: "covered" }
+  /** A DECLARED sell names units the fold does not have. Undeclared sells never land here. */
+  | { status: "unattributed"; unmatched: UnmatchedSell[] }
+  | { status: "over-encumbered"; shortfalls: PositionUnits[] };
+
+/**
+ * THE UNIT-SIDE `O1` — no tier of a position may have more units resting for sale than
+ * it holds. Run by the order import over the WHOLE resting book, for the reason
+ * `checkFundingCoverage` is: a position's units back every sell against them, not one
+ * import's slice.
+ *
+ * AN UNDECLARED SELL IS NOT REFUSED HERE. It is a line written before this widening, the
+ * file is append-only, and refusing over it would block every later import with nothing
+ * the operator could declare to clear it. It stays on the report, encumbering nothing.
+ *
+ * The trigger is `isNegativeSlack`, the cash guard's own predicate, so float residue in
+ * a sum of partials is coverage and not a shortfall.
+ */
+export function checkUnitCoverage(
+  data: FundReviewData,
+  resting: readonly RestingOrder[],
+): UnitCoverage {
+  const report = composeAvailableUnits(data, resting);
+  const unmatched = report.unmatched.filter((entry) => entry.reason !== "undeclared-position");
+  if (unmatched.length > 0) {
+    return { status: "unattributed", unmatched };
+  }
+  const shortfalls = report.positions.filter((units) => isNegativeSlack(units.available));
+  if (shortfalls.length > 0) {
+    return { status: "over-encumbered", shortfalls };
+  }
+  return { status: "covered" };
+}
+
+/**
+ * The target to PROPOSE for a sell on `symbol` — never to record unasked.
+ *
+ * Proposed only when exactly one open position's instrument symbol opens the pair
+ * (`XYZ` for `XYZUSDT`) AND that position holds exactly one tier; anything else is
+ * `undefined` and the operator names both. The prefix test is loose by design because a
+ * proposal is shown and ratified, and a wrong one costs a keystroke, not a wrong line.
+ */
+export function proposeSellTarget(
+  data: FundReviewData,
+  symbol: string,
+): SellTarget | undefined {
+  const instrumentIds = new Set(
+    data.instruments
+      .filter((instrument) => instrument.symbol !== "" && symbol.startsWith(instrument.symbol))
+      .map((instrument) => instrument.id),
+  );
+  const candidates = data.positions.filter((position) =>
+    instrumentIds.has(position.instrumentId),
+  );
+  const [only] = candidates;
+  if (candidates.length !== 1 || only === undefined) {
+    return undefined;
+  }
+  const tiers = [...heldByTier(only).keys()];
+  const [tier] = tiers;
+  return tiers.length === 1 && tier !== undefined
+    ? { positionId: only.id, tier }
+    : undefined;
+}
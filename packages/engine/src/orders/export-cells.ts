@@ -0,0 +1,141 @@
+/**
+ * The CELL READERS every venue export parser shares — the CSV splitter, the stamp, the
+ * pair, the side, the blank sentinel and the status word. PURE (ADR-001).
+ *
+ * ONE READER PER CELL, ACROSS VENUES AND ACROSS EXPORTS. A pair means one symbol whether
+ * Bitget or Binance printed it, and whether it sat in an order book or a trade history;
+ * the synthesized id is built from these readings, so two readers of the same cell would
+ * be two ids for the same rung the day they disagreed. A venue adapter owns its COLUMNS
+ * and its VOCABULARY — which cell is the price, which words mean resting — and nothing
+ * here. Not on the package index: the readers are the adapters' business.
+ */
+import type { Currency } from "../contracts.js";
+import type { OrderSide } from "./records.js";
+
+/**
+ * Quote token → the currency the fund denominates it in. Derived from the PAIR, never
+ * from a fund-specific constant: an order in a pair the fund does not price is skipped
+ * and reported, not silently stamped with the fund's own currency.
+ */
+const QUOTE_CURRENCIES: Record<string, Currency> = {
+  USDT: "USD",
+  USDC: "USD",
+  USD: "USD",
+  MXN: "MXN",
+};
+
+/** Longest first, so `USDT` is never mistaken for `USD` with a stray `T` on the base. */
+const QUOTE_TOKENS = Object.keys(QUOTE_CURRENCIES).sort((a, b) => b.length - a.length);
+
+/**
+ * Second-granular, no timezone — the venue's own precision, and the reason `observedAt`
+ * exists rather than the event envelope's date-only `asOf`. Both separator styles are
+ * accepted because a rendered table is formatted for a human, not for us.
+ */
+const TIMESTAMP = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})[ T](\d{1,2}):(\d{2}):(\d{2})$/;
+
+/** Case- and separator-insensitive, because a rendered cell is styled for a human. */
+export function normalizeStatus(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_\-/]/g, "");
+}
+
+/**
+ * A field the venue rendered as BLANK. `-- / --` is the observed spelling; a bare `--`,
+ * an empty cell or any other run of dashes and slashes is the same fact drawn slightly
+ * differently. All of them mean "there is no value here" and become `null`.
+ */
+export function isBlankCell(value: string): boolean {
+  const trimmed = value.trim();
+  return trimmed === "" || /^[-\s/]+$/.test(trimmed);
+}
+
+/**
+ * Split one CSV line, honoring double quotes so a quoted thousands separator does not
+ * shear a field in two. Multi-line quoted fields are NOT supported and do not occur in
+ * these exports; a torn quote yields the wrong field count and is refused as malformed
+ * rather than silently mis-columned.
+ */
+export function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"') {
+        if (line[index + 1] === '"') {
+          current += '"';
+          index += 1;
+        } else {
+          quoted = false;
+        }
+      } else {
+        current += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+/**
+ * The file's lines and its header, normalized for comparison — or `undefined` when every
+ * line is blank. A BOM is stripped because spreadsheet tools write one.
+ */
+export function readExportHeader(
+  csv: string,
+): { lines: string[]; headerIndex: number; header: string[] } | undefined {
+  const lines = csv.replace(/^﻿/, "").split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim() !== "");
+  if (headerIndex === -1) {
+    return undefined;
+  }
+  const header = splitCsvLine(lines[headerIndex] ?? "").map((column) =>
+    column.trim().toLowerCase(),
+  );
+  return { lines, headerIndex, header };
+}
+
+/** Exactly these columns, in exactly this order — a header is recognized whole or not at all. */
+export function headerMatches(header: readonly string[], expected: readonly string[]): boolean {
+  return (
+    header.length === expected.length &&
+    header.every((column, index) => column === expected[index])
+  );
+}
+
+export function normalizeTimestamp(value: string): string | undefined {
+  const match = TIMESTAMP.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  const [, year = "", month = "", day = "", hour = "", minute = "", second = ""] = match;
+  const pad = (part: string) => part.padStart(2, "0");
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${minute}:${second}`;
+}
+
+/**
+ * Normalize the pair to a separator-free upper-case symbol and split off its quote.
+ * `XYZ/USDT`, `XYZ-USDT` and `XYZUSDT` are ONE symbol — the separator is styling, and an
+ * id that changed with it would re-identify the whole book the day the venue restyled.
+ */
+export function readPair(value: string): { symbol: string; currency: Currency } | undefined {
+  const symbol = value.trim().toUpperCase().replace(/[/\-_\s]/g, "");
+  const quote = QUOTE_TOKENS.find((token) => symbol.endsWith(token) && symbol.length > token.length);
+  const currency = quote ? QUOTE_CURRENCIES[quote] : undefined;
+  return currency ? { symbol, currency } : undefined;
+}
+
+export function readSide(value: string): OrderSide | undefined {
+  const side = value.trim().toLowerCase();
+  return side === "buy" || side === "sell" ? side : undefined;
+}
@@ -10,6 +10,7 @@ import type { PositionRecord } from "../contracts.js";
 import type { PortfolioEvent } from "../events/types.js";
 import {
   buildFillAct,
+  buildSellFillAct,
   deriveFundingTier,
   fillEventId,
   parseFillEventId,
@@ -17,6 +18,7 @@ import {
   resolveLadderPosition,
 } from "./fill.js";
 import type { CommittedRung } from "./committed.js";
+import type { EncumberingSell } from "./encumbered.js";
 import type { OrderRecord } from "./records.js";
 
 const RUNG: CommittedRung = {
@@ -241,3 +243,75 @@ describe("buildFillAct — both halves, built together", () => {
     expect(opened.event.position.lots).toHaveLength(1);
   });
 });
+
+describe("buildSellFillAct — a resting sell fills through the same act", () => {
+  const SELL: EncumberingSell = {
+    orderId: "synth:TESTUSD:sell:600:2026-01-02T09:00:00",
+    observedAt: "2026-01-02T09:00:00",
+    currency: "USD",
+    symbol: "TESTUSD",
+    price: 600,
+    quantity: 4,
+    remainingQuantity: 4,
+    settlementReserveId: "reserve-synthetic",
+    target: { positionId: "position-synthetic", tier: "c2" },
+  };
+  const target = { positionId: "position-synthetic", tier: "c2" as const };
+
+  it("trims the declared tier and settles into the sell's reserve when units remain", () => {
+    const act = buildSellFillAct({
+      sell: SELL,
+      target,
+      filledQuantity: 4,
+      observedAt: "2026-01-05T12:00:00",
+      proceeds: 2400,
+      positionHeld: 10,
+    });
+    expect(act.order).toEqual({
+      id: SELL.orderId,
+      observedAt: "2026-01-05T12:00:00",
+      kind: "orderFilled",
+      currency: "USD",
+      filledQuantity: 4,
+    });
+    expect(act.event).toEqual({
+      id: fillEventId(SELL.orderId, "2026-01-05T12:00:00"),
+      asOf: "2026-01-05",
+      type: "PositionTrimmed",
+      positionId: "position-synthetic",
+      removals: [{ tier: "c2", quantity: 4 }],
+      settlement: { reserveId: "reserve-synthetic", proceeds: 2400 },
+    });
+  });
+
+  it("closes when the sale takes the position's last units, on the gate's own floor", () => {
+    const act = buildSellFillAct({
+      sell: SELL,
+      target,
+      filledQuantity: 4,
+      observedAt: "2026-01-05T12:00:00",
+      proceeds: 2400,
+      positionHeld: 4 + 1e-12,
+    });
+    expect(act.event).toEqual({
+      id: fillEventId(SELL.orderId, "2026-01-05T12:00:00"),
+      asOf: "2026-01-05",
+      type: "PositionClosed",
+      positionId: "position-synthetic",
+      settlement: { reserveId: "reserve-synthetic", proceeds: 2400 },
+    });
+  });
+
+  it("is found by the torn-act detector exactly as a buy's act is", () => {
+    const act = buildSellFillAct({
+      sell: SELL,
+      target,
+      filledQuantity: 1,
+      observedAt: "2026-01-05T12:00:00",
+      proceeds: 600,
+      positionHeld: 10,
+    });
+    expect(reconcileFillActs([act.event], [act.order])).toEqual([]);
+    expect(reconcileFillActs([act.event], [])[0]?.kind).toBe("lot-without-fill");
+  });
+});
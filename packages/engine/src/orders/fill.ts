@@ -19,9 +19,14 @@
  * together so they cannot be authored apart. The writes themselves — and the sequencing
  * and rollback that make them one act — live in the TUI shell (ADR-001 bars IO here).
  *
- * NO ELEVENTH VERB. A fill is a `PositionOpened` or a `PositionAddedTo`; the verb count
- * stays TEN and `EVENT_SCHEMA_VERSION` stays `2`. `T9`'s prohibition on Close+Open as a
- * custody move is untouched and nothing here approaches it.
+ * A RESTING SELL FILLS THROUGH THE SAME ACT (`buildSellFillAct`): the `orderFilled` line,
+ * and a `PositionTrimmed` — or a `PositionClosed` when the sale takes the position's last
+ * units — with its settlement leg. Same derived id, same torn-act detector, same write
+ * order; only the verb and the direction of the cash differ.
+ *
+ * NO ELEVENTH VERB. A fill is a `PositionOpened`, `PositionAddedTo`, `PositionTrimmed` or
+ * `PositionClosed`; the verb count stays TEN and `EVENT_SCHEMA_VERSION` stays `2`. `T9`'s
+ * prohibition on Close+Open as a custody move is untouched and nothing here approaches it.
  */
 import type {
   CapitalTier,
@@ -34,18 +39,22 @@ import type {
 import type {
   PortfolioEvent,
   PositionAddedToEvent,
+  PositionClosedEvent,
   PositionDecision,
   PositionOpenedEvent,
+  PositionTrimmedEvent,
 } from "../events/types.js";
 import type { CommittedRung } from "./committed.js";
-import type { OrderFilledRecord, OrderRecord } from "./records.js";
+import type { EncumberingSell, SellTarget } from "./encumbered.js";
+import { QUANTITY_EPSILON } from "./monotonicity.js";
+import type { OrderFilledRecord, OrderRecord, OrderSide } from "./records.js";
 
 /**
  * The event id a fill act writes, derived from the rung and the fill's own stamp.
  *
  * THIS IS THE JOIN, AND IT COSTS NO FIELD ON EITHER RECORD. `orders.jsonl` is
  * append-only and the rung→lot join key was deliberately PARKED on a fills header nobody
- * has, so adding a column for it here would be designing that join blind. Deriving the
+ * had, so adding a column for it here would be designing that join blind. Deriving the
  * event id instead means the two files can each find the other's half of an act with
  * nothing stored — which is exactly what makes the residual crash window DETECTABLE (see
  * {@link reconcileFillActs}).
@@ -315,3 +324,168 @@ export function buildFillAct(input: FillActInput): FillAct {
 
   return { order, event };
 }
+
+export interface SellFillActInput {
+  /** The resting sell, from `encumberingSells` — never re-derived by a caller. */
+  sell: EncumberingSell;
+  /**
+   * The units sold. The sell's own declaration when it carries one; a sell placed before
+   * sells declared their units is recorded against the target the operator names.
+   */
+  target: SellTarget;
+  filledQuantity: number;
+  /** Second-granular venue stamp of the FILL, in `observedAt`'s format. */
+  observedAt: string;
+  /** The cash actually credited by this fill, settled into the sell's reserve. */
+  proceeds: number;
+  /** Every unit the position holds, across ALL its tiers, as the fold reported it. */
+  positionHeld: number;
+}
+
+/** The two records of a sell's act, built together for {@link FillAct}'s reason. */
+export interface SellFillAct {
+  order: OrderFilledRecord;
+  event: PositionTrimmedEvent | PositionClosedEvent;
+}
+
+/**
+ * Build both halves of a sell's fill act.
+ *
+ * THE VERB IS ARITHMETIC, NOT A CHOICE. A sale that takes every unit the position holds
+ * is a `PositionClosed`; anything less is a `PositionTrimmed` out of the declared tier.
+ * The cross-reference gate refuses a trim that would empty the position and points at
+ * `PositionClosed` instead, so deciding here on the same floor means the operator never
+ * meets that refusal for a fill this builder shaped. A close retires every tier's lots,
+ * which is only reachable when the declared tier is the last one held.
+ *
+ * Validation is the caller's, exactly as for {@link buildFillAct}.
+ */
+export function buildSellFillAct(input: SellFillActInput): SellFillAct {
+  const { sell, target, filledQuantity, observedAt, proceeds, positionHeld } = input;
+  const asOf = observedAt.slice(0, 10);
+
+  const order: OrderFilledRecord = {
+    id: sell.orderId,
+    observedAt,
+    kind: "orderFilled",
+    currency: sell.currency,
+    filledQuantity,
+  };
+
+  const id = fillEventId(sell.orderId, observedAt);
+  const settlement = { reserveId: sell.settlementReserveId, proceeds };
+  const event: PositionTrimmedEvent | PositionClosedEvent =
+    positionHeld - filledQuantity <= QUANTITY_EPSILON
+      ? { id, asOf, type: "PositionClosed", positionId: target.positionId, settlement }
+      : {
+          id,
+          asOf,
+          type: "PositionTrimmed",
+          positionId: target.positionId,
+          removals: [{ tier: target.tier, quantity: filledQuantity }],
+          settlement,
+        };
+
+  return { order, event };
+}
+
+/**
+ * One executed trade as a venue's fills export showed it, after its parser normalized it.
+ *
+ * `orderId` is the RESTING RUNG's synthesized id, built from the ORDER's columns (pair,
+ * side, limit price, submitted-at) — never from the trade's own execution price or stamp.
+ * That is the whole join: the sidecar knows a rung by exactly those four facts, so a fills
+ * row that carries them finds its rung by the same `synthesizeOrderId` the open-orders
+ * import minted it with, and a row that does not carry them cannot be joined at all.
+ */
+export interface ObservedFill {
+  orderId: string;
+  /** Second-granular venue stamp of the TRADE, in `observedAt`'s format. */
+  observedAt: string;
+  currency: Currency;
+  symbol: string;
+  side: OrderSide;
+  /** What the trade executed at — shown to the operator, never part of the identity. */
+  price: number;
+  quantity: number;
+  /** Quote currency that changed hands on this trade. Proposed as the cash debited. */
+  amount: number;
+}
+
+/**
+ * The half of {@link FillActInput} a fills export CAN answer. The other half — the tier
+ * and the ladder target — is read off the reserve or authored by the operator, and no
+ * export row has an honest value for either.
+ */
+export type PrefilledFillAct = Pick<
+  FillActInput,
+  "rung" | "filledQuantity" | "observedAt" | "fundingAmount"
+>;
+
+export type FillMatch<T extends ObservedFill = ObservedFill> =
+  | { status: "matched"; fill: T; prefill: PrefilledFillAct }
+  /** The sidecar already carries the `orderFilled` line for this (rung, stamp). */
+  | { status: "already-recorded"; fill: T }
+  /**
+   * This join pre-fills purchases only. A resting sell's fill is a trim or a close, and
+   * it is recorded by hand (`pnpm orders:fill`), where its position and tier are asked.
+   */
+  | { status: "not-a-buy"; fill: T }
+  | { status: "no-resting-rung"; fill: T };
+
+/**
+ * Join each observed fill to the resting rung it retires, in the order the trades
+ * happened.
+ *
+ * A MATCH IS A PROPOSAL, NOT A RECORD. It pre-fills the quantities, the stamp and the cash
+ * an operator would otherwise type from memory; every check the fill act runs — the
+ * admission ceiling, monotonicity over the rest of the ladder, the funding override guard,
+ * `parseEvent` and `crossReferenceEvent` — still runs on it, and the operator still
+ * confirms before either file is written.
+ *
+ * `already-recorded` is decided FIRST and by the act's own key ({@link fillEventId}), so
+ * re-importing the same export is a no-op that says so rather than a second proposal a
+ * tired operator could confirm into a duplicate. A rung fully filled by an earlier act is
+ * no longer resting, and without this check its fill would read as `no-resting-rung`.
+ *
+ * Matched against ONE snapshot of the book: two partials of the same rung both match, and
+ * the caller re-reads the sidecar between acts, so the second is weighed against what the
+ * first left.
+ */
+export function matchObservedFills<T extends ObservedFill>(
+  fills: readonly T[],
+  rungs: readonly CommittedRung[],
+  records: readonly OrderRecord[],
+): FillMatch<T>[] {
+  const recorded = new Set(
+    records
+      .filter((record): record is OrderFilledRecord => record.kind === "orderFilled")
+      .map((record) => fillEventId(record.id, record.observedAt)),
+  );
+  const byId = new Map(rungs.map((rung) => [rung.orderId, rung]));
+  // `sort` is stable, so two trades stamped the same second keep the export's order.
+  const ordered = [...fills].sort((a, b) => a.observedAt.localeCompare(b.observedAt));
+
+  return ordered.map((fill): FillMatch<T> => {
+    if (recorded.has(fillEventId(fill.orderId, fill.observedAt))) {
+      return { status: "already-recorded", fill };
+    }
+    if (fill.side !== "buy") {
+      return { status: "not-a-buy", fill };
+    }
+    const rung = byId.get(fill.orderId);
+    if (rung === undefined) {
+      return { status: "no-resting-rung", fill };
+    }
+    return {
+      status: "matched",
+      fill,
+      prefill: {
+        rung,
+        filledQuantity: fill.quantity,
+        observedAt: fill.observedAt,
+        fundingAmount: fill.amount,
+      },
+    };
+  });
+}
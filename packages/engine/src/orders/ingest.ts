@@ -13,13 +13,15 @@
  * happens to look like" and "what an observed open order IS". A second venue owes a
  * second parser and nothing here.
  */
-import type { Currency } from "../contracts.js";
+import type { CapitalTier, Currency } from "../contracts.js";
+import type { SellTarget } from "./encumbered.js";
 import { QUANTITY_EPSILON } from "./monotonicity.js";
 // The DESCRIPTOR GATES, shared with `parseOrderRecord` so the write gate and the read gate
 // are one rule rather than two copies that can drift (#205).
-import { isDescriptorText, isTriggerPrice } from "./records.js";
+import { isCapitalTier, isDescriptorText, isTriggerPrice } from "./records.js";
 import type { OrderPlacedRecord, OrderRecord, OrderSide } from "./records.js";
 import type { RungPick } from "./rung-picks.js";
+import type { RestingOrder } from "./select.js";
 
 /**
  * The observed half of one open order, after a venue parser has normalized it. The
@@ -295,7 +297,7 @@ const DESCRIPTOR_FIELDS: Record<TextClaimField | "triggerPrice", true> = {
  *
  * Lives here, beside the union it reads, so the boundary that routes a difference to a
  * refusal class cannot drift from the field list — the same reason `leavesRungUnweighed`
- * sits beside `BitgetRowProblem` rather than at its consumer.
+ * sits beside `OpenOrderRowProblem` rather than at its consumer.
  */
 export function isDescriptorDifference(difference: ClaimDifference): boolean {
   return difference.field in DESCRIPTOR_FIELDS;
@@ -522,6 +524,44 @@ export function detectChangedClaims(
   return changed;
 }
 
+/**
+ * The rungs the file still counts as resting that this export, by its own scope, should
+ * have shown and did not — CANDIDATES for retirement, never a verdict.
+ *
+ * ABSENCE IS PROPOSED, NEVER INFERRED (ADR-013, `D12`). A rung missing from the venue's
+ * export was cancelled or filled, and the export cannot say which; the fold keeps it
+ * resting until a line says otherwise, and that is unchanged. What this adds is the
+ * QUESTION: a rung cancelled at the venue and never retired here stays committed forever
+ * and understates available, so the import puts each candidate to the operator rather
+ * than leaving them to remember it.
+ *
+ * THE EXPORT'S SCOPE IS ITS VENUE AND ITS SYMBOLS. A rung another venue holds was never
+ * going to be in this file (the venue is the first component of every synthesized id —
+ * {@link synthesizeOrderId}), and an export may be filtered to one pair, so a rung on a
+ * pair the export does not mention says nothing about that rung. Both are left out rather
+ * than proposed, because a proposal the operator has to wave away is noise they learn to
+ * wave away.
+ *
+ * A rung placed AFTER `observedAt` — the moment of this look — could not have been in it,
+ * and a retirement stamped before its placement would be inert in the fold anyway.
+ */
+export function detectVanishedRungs(
+  resting: readonly RestingOrder[],
+  observed: readonly ObservedOpenOrder[],
+  venue: string,
+  observedAt: string,
+): RestingOrder[] {
+  const ids = new Set(observed.map((order) => order.id));
+  const symbols = new Set(observed.map((order) => order.symbol));
+  return resting.filter(
+    (order) =>
+      order.placed.id.startsWith(`${venue}:`) &&
+      symbols.has(order.placed.symbol) &&
+      !ids.has(order.placed.id) &&
+      order.placed.observedAt <= observedAt,
+  );
+}
+
 /**
  * The operator's declaration for one import batch: ONE field, prompted once.
  *
@@ -546,6 +586,13 @@ export interface OrderAttribution {
    * the record then carries neither field and joins by price match forever.
    */
   rungPicks?: Record<string, RungPick>;
+  /**
+   * THE UNITS EACH SELL SPEAKS FOR, keyed by the synthesized id — declared per order for
+   * the rung pick's reason: a ladder's take-profits may sell out of different tiers.
+   * Read ONLY for a sell; an entry keyed by a buy's id writes nothing, because a buy has
+   * no position to name (`OrderPlacedRecord.fundingReserveId`).
+   */
+  sellTargets?: Record<string, SellTarget>;
 }
 
 /**
@@ -574,6 +621,23 @@ export interface OrderAttribution {
  * is a public engine export and the whitelist tables exist precisely so a writer's
  * assumption about its callers is not the guarantee.
  */
+/**
+ * A sell's declared units, both or neither, on the reader's own gate — a half, or one
+ * on a buy, would read back `malformed` on every later load.
+ */
+function sellTargetFields(
+  order: ObservedOpenOrder,
+  target: SellTarget | undefined,
+): { positionId?: string; tier?: CapitalTier } {
+  if (order.side !== "sell" || target === undefined) {
+    return {};
+  }
+  if (!isJoinId(target.positionId) || !isCapitalTier(target.tier)) {
+    return {};
+  }
+  return { positionId: target.positionId, tier: target.tier };
+}
+
 function pickFields(pick: RungPick | undefined): { planId?: string; rungId?: string } {
   if (pick === undefined || !isJoinId(pick.planId) || !isJoinId(pick.rungId)) {
     return {};
@@ -624,5 +688,6 @@ export function buildOrderPlacedRecords(
     // absence means *we were never told*, and a `""` here would read back as `malformed`
     // on every later load of an append-only file.
     ...pickFields(attribution.rungPicks?.[order.id]),
+    ...sellTargetFields(order, attribution.sellTargets?.[order.id]),
   }));
 }
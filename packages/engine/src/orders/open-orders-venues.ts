@@ -0,0 +1,74 @@
+/**
+ * The REGISTRY of open-orders venues `pnpm orders:import` selects from by the file's
+ * header, and the one dispatch that parses with the adapter it picks. PURE (ADR-001).
+ *
+ * It sits apart from `./open-orders.ts` because the adapters import the seam's shared
+ * parse step from there; a registry in the same module would make every adapter a cycle
+ * back into the list that holds it.
+ *
+ * SELECTION IS BY HEADER AND BY NOTHING ELSE. Not by file name, not by a flag: the header
+ * is what the file says about itself, and it is already what each parser refuses on. Two
+ * adapters may never claim the same header; `recognizeOpenOrdersVenue` takes the first
+ * match, and the registry's order is not meant to matter.
+ */
+import { BINANCE_OPEN_ORDERS } from "./binance.js";
+import { BITGET_OPEN_ORDERS } from "./bitget.js";
+import { headerMatches, readExportHeader } from "./export-cells.js";
+import type { OpenOrderRowSkip, OpenOrdersVenueAdapter, VenueOpenOrder } from "./open-orders.js";
+
+/**
+ * Every venue `pnpm orders:import` reads. A third venue is a third adapter module and a
+ * third entry here — and no change to the import, which reads only this list.
+ */
+export const OPEN_ORDERS_VENUES: readonly OpenOrdersVenueAdapter[] = [
+  BITGET_OPEN_ORDERS,
+  BINANCE_OPEN_ORDERS,
+];
+
+/** The adapter whose header this file carries, or `undefined` if no venue's does. */
+export function recognizeOpenOrdersVenue(
+  csv: string,
+  venues: readonly OpenOrdersVenueAdapter[] = OPEN_ORDERS_VENUES,
+): OpenOrdersVenueAdapter | undefined {
+  const read = readExportHeader(csv);
+  if (read === undefined) {
+    return undefined;
+  }
+  return venues.find((venue) => headerMatches(read.header, venue.header));
+}
+
+/**
+ * Sniff the venue from the header and parse with its adapter.
+ *
+ * TOTAL, and a header no venue claims refuses the whole file with every known header
+ * named — the operator is holding some other export (a fills or holdings CSV, or a venue
+ * this build has no adapter for), and half-reading it would be worse than reading none.
+ */
+export function parseOpenOrdersCsv(
+  csv: string,
+  venues: readonly OpenOrdersVenueAdapter[] = OPEN_ORDERS_VENUES,
+):
+  | {
+      status: "ok";
+      venue: OpenOrdersVenueAdapter;
+      orders: VenueOpenOrder[];
+      skips: OpenOrderRowSkip[];
+    }
+  | { status: "unrecognized-header"; message: string } {
+  const read = readExportHeader(csv);
+  if (read === undefined) {
+    return { status: "unrecognized-header", message: "the file is empty" };
+  }
+  const venue = venues.find((candidate) => headerMatches(read.header, candidate.header));
+  if (venue === undefined) {
+    const known = venues.map((candidate) => `${candidate.label} [${candidate.header.join(", ")}]`);
+    return {
+      status: "unrecognized-header",
+      message:
+        `the header [${read.header.join(", ")}] is no venue's open-orders header this build ` +
+        `reads; it knows ${known.join("; ")}`,
+    };
+  }
+  const parsed = venue.parse(csv);
+  return parsed.status === "ok" ? { ...parsed, venue } : parsed;
+}
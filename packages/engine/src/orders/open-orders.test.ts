@@ -0,0 +1,175 @@
+/**
+ * The VENUE-ADAPTER seam: the header sniff that picks an adapter, the second venue's parse,
+ * and the refusal of a header no venue claims.
+ *
+ * EVERY FIXTURE IS A SYNTHETIC LADDER (`O7`) — invented pairs, round prices and sizes.
+ * What is asserted is a PROPERTY: the header alone picks the venue, every venue admits a
+ * row on its remainder, and two venues' rungs never share an id.
+ */
+import { describe, expect, it } from "vitest";
+import { BINANCE_OPEN_ORDERS, BINANCE_OPEN_ORDERS_HEADER } from "./binance.js";
+import { BITGET_OPEN_ORDERS, BITGET_OPEN_ORDERS_HEADER } from "./bitget.js";
+import { buildOrderPlacedRecords } from "./ingest.js";
+import { leavesRungUnweighed, parseVenueOpenOrders } from "./open-orders.js";
+import {
+  OPEN_ORDERS_VENUES,
+  parseOpenOrdersCsv,
+  recognizeOpenOrdersVenue,
+} from "./open-orders-venues.js";
+
+/** One synthetic Binance row: a buy resting at 1000, untouched unless overridden. */
+function binanceRow(overrides: Partial<Record<string, string>> = {}): string {
+  const fields: Record<string, string> = {
+    "date(utc)": "2020-01-01 10:00:00",
+    orderno: "1001",
+    pair: "XYZUSDT",
+    type: "LIMIT",
+    side: "BUY",
+    "order price": "1000.00",
+    "order amount": "0.1",
+    executed: "0",
+    "average price": "0",
+    "trading total": "0",
+    status: "NEW",
+    ...overrides,
+  };
+  return BINANCE_OPEN_ORDERS_HEADER.map((column) => fields[column] ?? "").join(",");
+}
+
+function binanceCsv(...rows: string[]): string {
+  return [BINANCE_OPEN_ORDERS_HEADER.join(","), ...rows].join("\n");
+}
+
+const BITGET_ROW =
+  '2020-01-01 10:00:00,XYZ/USDT,GTC,Limit,Buy,"1,000.00",0.1,-- / --,100,0,0.1,0.00%,' +
+  "Unfilled,Cancel";
+
+describe("recognizeOpenOrdersVenue — the header picks the adapter", () => {
+  it("recognizes each registered venue by its own header, and nothing else", () => {
+    expect(recognizeOpenOrdersVenue(`${BITGET_OPEN_ORDERS_HEADER.join(",")}\n`)).toBe(
+      BITGET_OPEN_ORDERS,
+    );
+    // Case and surrounding space are styling, exactly as they are for a cell.
+    const shouted = BINANCE_OPEN_ORDERS_HEADER.map((column) => ` ${column.toUpperCase()}`);
+    expect(recognizeOpenOrdersVenue(`\n${shouted.join(",")}\n`)).toBe(BINANCE_OPEN_ORDERS);
+    expect(recognizeOpenOrdersVenue("timestamp,pair,side,price\n")).toBeUndefined();
+    expect(recognizeOpenOrdersVenue("")).toBeUndefined();
+  });
+
+  it("never lets two venues claim one header or one id component", () => {
+    const headers = OPEN_ORDERS_VENUES.map((venue) => venue.header.join(","));
+    expect(new Set(headers).size).toBe(OPEN_ORDERS_VENUES.length);
+    const venues = OPEN_ORDERS_VENUES.map((venue) => venue.venue);
+    expect(new Set(venues).size).toBe(OPEN_ORDERS_VENUES.length);
+  });
+});
+
+describe("parseOpenOrdersCsv — one dispatch, every venue", () => {
+  it("parses with the sniffed adapter and says which it was", () => {
+    const parsed = parseOpenOrdersCsv(binanceCsv(binanceRow()));
+    expect(parsed.status).toBe("ok");
+    if (parsed.status !== "ok") return;
+    expect(parsed.venue).toBe(BINANCE_OPEN_ORDERS);
+    expect(parsed.orders.map((order) => order.id)).toEqual([
+      "binance:XYZUSDT:buy:1000:2020-01-01T10:00:00",
+    ]);
+  });
+
+  it("gives the same rung on two venues two ids", () => {
+    const bitget = parseOpenOrdersCsv(`${BITGET_OPEN_ORDERS_HEADER.join(",")}\n${BITGET_ROW}`);
+    const binance = parseOpenOrdersCsv(binanceCsv(binanceRow()));
+    if (bitget.status !== "ok" || binance.status !== "ok") {
+      throw new Error("synthetic exports are invalid");
+    }
+    expect(bitget.orders[0]?.id).not.toBe(binance.orders[0]?.id);
+  });
+
+  it("refuses a header no venue claims, naming every header it knows", () => {
+    const parsed = parseOpenOrdersCsv("timestamp,pair,side,price,quantity,fee\n");
+    expect(parsed.status).toBe("unrecognized-header");
+    if (parsed.status !== "unrecognized-header") return;
+    expect(parsed.message).toContain("Bitget [timestamp, pair");
+    expect(parsed.message).toContain("Binance [date(utc), orderno");
+  });
+});
+
+describe("parseBinanceOpenOrdersCsv — the second adapter", () => {
+  it("carries the remainder, and OMITS the descriptors the venue does not print", () => {
+    const parsed = BINANCE_OPEN_ORDERS.parse(
+      binanceCsv(binanceRow({ executed: "0.04", status: "PARTIALLY_FILLED" })),
+    );
+    expect(parsed.status).toBe("ok");
+    if (parsed.status !== "ok") return;
+    const [order] = parsed.orders;
+    expect(order).toMatchObject({ quantity: 0.1, filledQuantity: 0.04, orderType: "LIMIT" });
+    expect(order).not.toHaveProperty("timeInForce");
+    expect(order).not.toHaveProperty("triggerPrice");
+    const [record] = buildOrderPlacedRecords(parsed.orders, { fundingReserveId: "reserve-a" });
+    expect(record).toMatchObject({ observedFilledQuantity: 0.04, orderType: "LIMIT" });
+    expect(record).not.toHaveProperty("timeInForce");
+  });
+
+  it("weighs a row on its remainder BEFORE its word, and refuses an unknown word", () => {
+    const parsed = BINANCE_OPEN_ORDERS.parse(
+      binanceCsv(
+        binanceRow({ executed: "0.1", status: "FILLED" }),
+        binanceRow({ status: "PENDING_NEW" }),
+        binanceRow({ "order price": "0", type: "MARKET" }),
+        binanceRow({ pair: "XYZZZZ" }),
+      ),
+    );
+    expect(parsed.status).toBe("ok");
+    if (parsed.status !== "ok") return;
+    expect(parsed.orders).toEqual([]);
+    expect(parsed.skips.map((skip) => [skip.line, skip.problem])).toEqual([
+      [2, "not-resting"],
+      [3, "unknown-status"],
+      [4, "malformed"],
+      [5, "unknown-quote-currency"],
+    ]);
+    // Only the row the venue showed as fully executed is known to claim nothing.
+    expect(parsed.skips.map((skip) => leavesRungUnweighed(skip.problem))).toEqual([
+      false,
+      true,
+      true,
+      true,
+    ]);
+  });
+});
+
+describe("parseVenueOpenOrders — the adapter's vocabulary is the one read", () => {
+  it("admits a remainder under exactly the words `restingStatuses` lists", () => {
+    const partial = binanceCsv(binanceRow({ status: "PARTIALLY_FILLED", executed: "0.05" }));
+    const parse = (restingStatuses: readonly string[]) =>
+      parseVenueOpenOrders(
+        partial,
+        { ...BINANCE_OPEN_ORDERS, restingStatuses },
+        {
+          columns: {
+            observedAt: "date(utc)",
+            pair: "pair",
+            side: "side",
+            price: "order price",
+            quantity: "order amount",
+            filledQuantity: "executed",
+            status: "status",
+          },
+          complete: (order) => order,
+        },
+      );
+
+    const admitted = parse(BINANCE_OPEN_ORDERS.restingStatuses);
+    const filled = admitted.status === "ok" ? admitted.orders.map((o) => o.filledQuantity) : [];
+    expect(filled).toEqual([0.05]);
+    const refused = parse(["new"]);
+    expect(refused.status === "ok" && refused.skips).toEqual([
+      {
+        line: 2,
+        problem: "unknown-status",
+        message:
+          'status "PARTIALLY_FILLED" is outside the observed vocabulary; [new] are the words ' +
+          "known to mean a row that may still be resting",
+      },
+    ]);
+  });
+});
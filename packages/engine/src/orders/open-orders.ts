@@ -0,0 +1,316 @@
+/**
+ * The VENUE ADAPTER seam for open-orders exports: what every venue's parser must hand
+ * back, the row taxonomy they all report in, and the one parse step that walks every
+ * venue's rows. PURE (ADR-001).
+ *
+ * AN ADAPTER OWNS FOUR THINGS AND NOTHING ELSE:
+ *
+ *   - **its header** — the exact columns its rendered table writes. That is both how it
+ *     is recognized and the guard that keeps it from half-reading another venue's file;
+ *   - **its rows** — which cell is the price, the size, the filled size, the stamp, and
+ *     what each is drawn as, read through `./export-cells.js`;
+ *   - **its status vocabulary** — the words that mean a row may still be resting. OPEN AT
+ *     THE WIRE, CLOSED AT THE READER: an unknown word is `unknown-status`, never assumed;
+ *   - **its identity** — the `venue` component of every id it synthesizes
+ *     (`synthesizeOrderId`, `./ingest.js`), so two venues' rungs at one price and second
+ *     can never collide.
+ *
+ * The ROW RULES are not an adapter's: `parseVenueOpenOrders` below walks every venue's
+ * rows in one order — identity columns, then the remainder, then the status word — and
+ * an adapter names its columns and reads what only it carries. What an observed open
+ * order IS, and everything after the parse — merge, diff, coverage — is `./ingest.js`'s
+ * and `./coverage.js`'s and is shared by every venue unchanged. The registry the import
+ * selects from is `./open-orders-venues.ts`.
+ */
+import {
+  headerMatches,
+  normalizeStatus,
+  normalizeTimestamp,
+  readExportHeader,
+  readPair,
+  readSide,
+  splitCsvLine,
+} from "./export-cells.js";
+import { canonicalDecimal, synthesizeOrderId, type ObservedOpenOrder } from "./ingest.js";
+
+/**
+ * One open order from ANY venue's export. `filledQuantity` is REQUIRED here, though
+ * optional on {@link ObservedOpenOrder}: every adapter admits a row on its REMAINDER
+ * (#173), so every adapter has read the filled column, and the import's restatement
+ * path must never have to default a figure the parser already held.
+ */
+export interface VenueOpenOrder extends ObservedOpenOrder {
+  filledQuantity: number;
+}
+
+export type OpenOrderRowProblem =
+  | "malformed"
+  | "unknown-status"
+  /** The venue shows nothing still claimed — correctly out of the resting book (#173). */
+  | "not-resting"
+  | "unknown-quote-currency";
+
+/**
+ * Does this problem leave a rung UNWEIGHED — a row that might still be claiming capital
+ * where we cannot say how much? That is the whole rule, and it lives here beside the
+ * taxonomy it reads rather than at the consumer, so a fifth `OpenOrderRowProblem` cannot
+ * be added without deciding which side of the alarm it falls on (#184).
+ *
+ * `unknown-status` and `unknown-quote-currency` fail the test on the SAFE side: we do not
+ * know those rows are not resting, so they count. `not-resting` is excluded because it is
+ * the one class where we DO know — the parser reached a positive finding about the row's
+ * encumbrance, and the finding is zero. Nothing is left claimed, so no committed sum is
+ * missing it and no `available` figure reads high because of it. Counting it would fire a
+ * money-direction alarm on the ordinary event of a rung filling between the operator's
+ * export and their import.
+ *
+ * The switch is EXHAUSTIVE with no `default` on purpose: a new member must fail
+ * `pnpm typecheck` rather than silently default into or out of the alarm.
+ */
+export function leavesRungUnweighed(problem: OpenOrderRowProblem): boolean {
+  switch (problem) {
+    case "malformed":
+    case "unknown-status":
+    case "unknown-quote-currency":
+      return true;
+    case "not-resting":
+      return false;
+  }
+}
+
+/** One row that did not become an order, reported rather than swallowed. */
+export interface OpenOrderRowSkip {
+  /** 1-based line number in the file, so the operator can go look at it. */
+  line: number;
+  problem: OpenOrderRowProblem;
+  message: string;
+}
+
+export type OpenOrdersParse<T extends VenueOpenOrder = VenueOpenOrder> =
+  | { status: "ok"; orders: T[]; skips: OpenOrderRowSkip[] }
+  | { status: "unrecognized-header"; message: string };
+
+/** One venue's open-orders export, as the import needs to know it. */
+export interface OpenOrdersVenueAdapter<T extends VenueOpenOrder = VenueOpenOrder> {
+  /** The id component — lower-case, and never changed once a rung is on file under it. */
+  venue: string;
+  /** How the operator names the venue, for the import's report. */
+  label: string;
+  /** The columns, lower-cased, in the order the venue writes them. */
+  header: readonly string[];
+  /**
+   * The status words, NORMALIZED (`normalizeStatus`), that mean a row with a remainder
+   * open may still be resting. `parseVenueOpenOrders` reads this and nothing else: any
+   * other word on a row with a remainder is `unknown-status`.
+   */
+  restingStatuses: readonly string[];
+  /** TOTAL: refuses a foreign header whole, skips and reports a bad row. */
+  parse: (csv: string) => OpenOrdersParse<T>;
+}
+
+/**
+ * The cells the shared parse step reads itself, named as one venue's header names them.
+ * Every venue's table has these seven; the rest of a row is the adapter's to read.
+ */
+export interface OpenOrderColumns<C extends string = string> {
+  observedAt: C;
+  pair: C;
+  side: C;
+  price: C;
+  quantity: C;
+  filledQuantity: C;
+  status: C;
+}
+
+/**
+ * One venue's rows, as `parseVenueOpenOrders` needs to know them: which of its columns
+ * are the shared seven, and how to read the rest. `complete` sees a row the shared rules
+ * ADMITTED and returns the venue's order, or a `malformed` message for a column of its own.
+ */
+export interface VenueRowReader<T extends VenueOpenOrder, C extends string = string> {
+  columns: OpenOrderColumns<C>;
+  complete: (order: VenueOpenOrder, cell: (name: C) => string) => T | string;
+}
+
+function skip(line: number, problem: OpenOrderRowProblem, message: string): OpenOrderRowSkip {
+  return { line, problem, message };
+}
+
+/**
+ * Parse one venue's open-orders export into observed orders with deterministic ids — THE
+ * ROW LOOP every adapter shares, so no venue can admit a row another would refuse.
+ *
+ * TOTAL: it never throws. A header that is not the adapter's refuses the whole file — the
+ * caller is holding some other export, and half-reading it would be worse than reading
+ * none of it. Past the header, a bad ROW is skipped and reported while the rest parse,
+ * because one unreadable rung must not cost the operator the other seven.
+ *
+ * The status word is checked against the adapter's `restingStatuses` and nothing else.
+ */
+export function parseVenueOpenOrders<T extends VenueOpenOrder, C extends string>(
+  csv: string,
+  adapter: Pick<OpenOrdersVenueAdapter<T>, "venue" | "header" | "restingStatuses">,
+  rows: VenueRowReader<T, C>,
+): OpenOrdersParse<T> {
+  const read = readExportHeader(csv);
+  if (read === undefined) {
+    return { status: "unrecognized-header", message: "the file is empty" };
+  }
+
+  const { lines, headerIndex, header } = read;
+  const expected = [...adapter.header];
+  if (!headerMatches(header, expected)) {
+    return {
+      status: "unrecognized-header",
+      message:
+        `expected the ${expected.length}-column open-orders header ` +
+        `[${expected.join(", ")}], got [${header.join(", ")}]`,
+    };
+  }
+
+  const { columns } = rows;
+  const orders: T[] = [];
+  const skips: OpenOrderRowSkip[] = [];
+
+  for (let index = headerIndex + 1; index < lines.length; index += 1) {
+    const raw = lines[index] ?? "";
+    if (raw.trim() === "") {
+      continue;
+    }
+    const lineNumber = index + 1;
+    const fields = splitCsvLine(raw);
+    if (fields.length !== expected.length) {
+      skips.push(
+        skip(lineNumber, "malformed", `expected ${expected.length} columns, got ${fields.length}`),
+      );
+      continue;
+    }
+    const cell = (name: C): string => fields[expected.indexOf(name)] ?? "";
+
+    // THE ROW'S IDENTITY COLUMNS COME FIRST, and they are unmoved. A row whose stamp,
+    // pair, side or price cannot be read is a row we cannot weigh at all, so it must reach
+    // `malformed` / `unknown-quote-currency` — the two classes the #184 alarm counts —
+    // rather than being answered by quantities we would then be reporting about an
+    // unidentifiable row.
+    const observedAt = normalizeTimestamp(cell(columns.observedAt));
+    if (observedAt === undefined) {
+      skips.push(
+        skip(lineNumber, "malformed", `${columns.observedAt} must be a second-granular stamp`),
+      );
+      continue;
+    }
+
+    const pair = readPair(cell(columns.pair));
+    if (pair === undefined) {
+      skips.push(
+        skip(
+          lineNumber,
+          "unknown-quote-currency",
+          `pair ${JSON.stringify(cell(columns.pair).trim())} does not end in a quote ` +
+            `currency this build prices`,
+        ),
+      );
+      continue;
+    }
+
+    const side = readSide(cell(columns.side));
+    if (side === undefined) {
+      skips.push(skip(lineNumber, "malformed", `${columns.side} must be Buy or Sell`));
+      continue;
+    }
+
+    // A market order prints no limit, and a rung without a price encumbers nothing we can
+    // weigh — `malformed`, so the unweighed alarm counts it.
+    const price = canonicalDecimal(cell(columns.price));
+    if (price === undefined || Number(price) <= 0) {
+      skips.push(skip(lineNumber, "malformed", `${columns.price} must be a positive decimal`));
+      continue;
+    }
+
+    // THE ADMISSION GATE (#173), AND IT RUNS BEFORE THE STATUS WORD. A row still claims
+    // capital exactly when something is left unfilled, and the two quantity columns say so
+    // without help from the vocabulary. Asking the word first made the rule a lie for the
+    // one ordinary event #184 exists for: a rung that fills between the operator's export
+    // and their import prints a terminal word this reader does not know, and refusing it
+    // there raised a money-direction alarm about a row we can in fact weigh, at zero.
+    //
+    // NOT HIGHER THAN THIS. Hoisting these reads above the identity columns would let a
+    // SETTLED row with an unreadable stamp, pair, side or price answer `not-resting` — the
+    // one class `leavesRungUnweighed` excludes — and the incomplete-import alarm would go
+    // quiet on a corrupt row. `bitget-ingest.test.ts` pins the placement from both sides.
+    const quantity = canonicalDecimal(cell(columns.quantity));
+    if (quantity === undefined || Number(quantity) <= 0) {
+      skips.push(skip(lineNumber, "malformed", `${columns.quantity} must be a positive decimal`));
+      continue;
+    }
+
+    const filledQuantity = canonicalDecimal(cell(columns.filledQuantity));
+    if (filledQuantity === undefined || Number(filledQuantity) < 0) {
+      skips.push(
+        skip(lineNumber, "malformed", `${columns.filledQuantity} must be a non-negative decimal`),
+      );
+      continue;
+    }
+
+    // Nothing left is not a claim: it is correctly out of the resting book, whatever the
+    // venue printed, and reported so it is not silent.
+    if (Number(quantity) - Number(filledQuantity) <= 0) {
+      skips.push(
+        skip(
+          lineNumber,
+          "not-resting",
+          `the venue shows ${filledQuantity} of ${quantity} filled, so nothing is still ` +
+            `claimed; this row is not a resting order`,
+        ),
+      );
+      continue;
+    }
+
+    // VOCABULARY CHECK, NOT AN ADMISSION GATE. Reached only by an identified row that
+    // still has a remainder open — exactly the row whose status the quantities cannot
+    // answer. A word outside the adapter's vocabulary is refused HERE, because a remainder
+    // under an unrecognized word could be resting or could be dead, and guessing means a
+    // claim on capital the venue never confirmed. The vocabulary is deliberately NOT
+    // widened to absorb terminal words: the remainder above already answers those.
+    const status = normalizeStatus(cell(columns.status));
+    if (!adapter.restingStatuses.includes(status)) {
+      skips.push(
+        skip(
+          lineNumber,
+          "unknown-status",
+          `status ${JSON.stringify(cell(columns.status).trim())} is outside the observed ` +
+            `vocabulary; [${adapter.restingStatuses.join(", ")}] are the words known to ` +
+            `mean a row that may still be resting`,
+        ),
+      );
+      continue;
+    }
+
+    const completed = rows.complete(
+      {
+        id: synthesizeOrderId({
+          venue: adapter.venue,
+          symbol: pair.symbol,
+          side,
+          price,
+          observedAt,
+        }),
+        observedAt,
+        currency: pair.currency,
+        symbol: pair.symbol,
+        side,
+        price: Number(price),
+        quantity: Number(quantity),
+        filledQuantity: Number(filledQuantity),
+      },
+      cell,
+    );
+    if (typeof completed === "string") {
+      skips.push(skip(lineNumber, "malformed", completed));
+      continue;
+    }
+    orders.push(completed);
+  }
+
+  return { status: "ok", orders, skips };
+}
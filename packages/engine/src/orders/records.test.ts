@@ -181,6 +181,10 @@ describe("serializeOrderRecord emits the canonical key order", () => {
       fundingReserveId: "reserve-synthetic",
       planId: "00000000-0000-4000-8000-000000000001",
       rungId: "rung-3",
+      // The serializer orders keys and judges nothing, so one literal can carry every
+      // field even though the READER admits these two only on a sell.
+      positionId: "position-synthetic",
+      tier: "c1",
     };
     expect(emittedKeys(serializeOrderRecord(placed))).toEqual([
       "id",
@@ -200,6 +204,9 @@ describe("serializeOrderRecord emits the canonical key order", () => {
       // fields nobody could observe sit together at the end of the line.
       "planId",
       "rungId",
+      // A SELL'S DECLARED UNITS, appended after the join on the same argument.
+      "positionId",
+      "tier",
     ]);
   });
 
@@ -353,3 +360,50 @@ describe("planId and rungId — declared, optional, never inferred", () => {
     }
   });
 });
+
+describe("a sell's declared units — positionId and tier", () => {
+  const sell: OrderPlacedRecord = {
+    id: "sell-synthetic",
+    observedAt: "2026-01-01T09:30:00",
+    kind: "orderPlaced",
+    currency: "USD",
+    symbol: "SYNTHUSD",
+    side: "sell",
+    price: 200,
+    quantity: 2,
+    fundingReserveId: "reserve-synthetic",
+  };
+
+  it("carries both back off a sell, and a sell with neither reads as it always did", () => {
+    const declared = { ...sell, positionId: "position-synthetic", tier: "c2" as const };
+    expect(parseOrderRecord(JSON.parse(serializeOrderRecord(declared)))).toEqual({
+      status: "ok",
+      record: declared,
+    });
+    const parsed = parseOrderRecord(JSON.parse(serializeOrderRecord(sell)));
+    expect(parsed.status === "ok" && parsed.record).toEqual(sell);
+  });
+
+  it("refuses either half alone, a tier outside the vocabulary, and either on a buy", () => {
+    const halves = [
+      { ...sell, positionId: "position-synthetic" },
+      { ...sell, tier: "c1" },
+      { ...sell, positionId: "position-synthetic", tier: "c4" },
+      { ...sell, positionId: " ", tier: "c1" },
+    ];
+    for (const value of halves) {
+      expect(parseOrderRecord(value)).toEqual({
+        status: "skip",
+        problem: "malformed",
+        message: "a sell declares positionId and a capital tier together, or neither",
+      });
+    }
+    expect(
+      parseOrderRecord({ ...sell, side: "buy", positionId: "position-synthetic", tier: "c1" }),
+    ).toEqual({
+      status: "skip",
+      problem: "malformed",
+      message: "positionId and tier are declared only on a sell",
+    });
+  });
+});
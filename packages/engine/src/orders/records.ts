@@ -22,11 +22,11 @@
  * validating reader for ONE untrusted value. All file IO lives in
  * `@numisma/preferences`; the as-of selector lives in `./select.ts`.
  */
-import type { Currency } from "../contracts.js";
+import { CAPITAL_TIERS, type CapitalTier, type Currency } from "../contracts.js";
 // The STRICT record predicate — arrays refused, not waved through. It lives in the
 // engine's kernel beside its loose sibling `isRecord` so the contrast between them is
 // stated once, in one place, rather than rediscovered here.
-import { isRecordObject } from "../internal.js";
+import { isRecordObject, isSupportedCurrency } from "../internal.js";
 import { isIsoCalendarDate } from "../plans.js";
 
 /**
@@ -39,7 +39,10 @@ import { isIsoCalendarDate } from "../plans.js";
  */
 export type OrderKind = "orderPlaced" | "orderCancelled" | "orderFilled" | "orderFillObserved";
 
-/** Which side of the book the claim rests on. Resting sells are named, not designed. */
+/**
+ * Which side of the book the claim rests on. A buy encumbers CASH in the reserve it
+ * declares; a sell encumbers UNITS of the position it declares (`./encumbered.ts`).
+ */
 export type OrderSide = "buy" | "sell";
 
 interface OrderRecordBase {
@@ -151,9 +154,15 @@ export interface OrderPlacedRecord extends OrderRecordBase {
   triggerPrice?: number;
   /**
    * The FIRST DECLARED field at placement (`Q9`): which reserve the claim encumbers. The
-   * venue has never heard of a Reserve, so this cannot be observed. Still notably absent:
-   * a target `positionId` — the Position cannot exist until the first fill, so naming it
-   * here would be a dangling forward reference, and that refusal is unchanged.
+   * venue has never heard of a Reserve, so this cannot be observed. Still notably absent
+   * ON A BUY: a target `positionId` — the Position cannot exist until the first fill, so
+   * naming it here would be a dangling forward reference, and that refusal is unchanged.
+   *
+   * ON A SELL it is the reserve the PROCEEDS settle into, and nothing is encumbered in it:
+   * a resting sell claims units of a position, which {@link OrderPlacedRecord.positionId}
+   * below names. One field rather than a second sell-only one, because both sides need
+   * exactly one reserve for the fill act's cash leg and a reader should never have to ask
+   * which of two it is.
    *
    * THE LADDER JOIN IS NO LONGER PARKED (#286). This docstring said it was "parked on a
    * fills header nobody has"; {@link OrderPlacedRecord.planId} and
@@ -190,6 +199,22 @@ export interface OrderPlacedRecord extends OrderRecordBase {
    */
   planId?: string;
   rungId?: string;
+  /**
+   * THE UNITS A RESTING SELL SPEAKS FOR — which open position it sells out of, and which
+   * Capital Tier of that position's lots. Declared, never observed: the venue knows the
+   * pair, not the Position or the tier.
+   *
+   * LEGAL ONLY ON A SELL, AND ONLY TOGETHER. A buy has no position to name (see
+   * `fundingReserveId` above), and a position without a tier cannot say which lots are
+   * committed — a tier is the unit `PositionTrimmed` removes by. The reader refuses either
+   * half alone and either on a buy, so no line can encumber units ambiguously.
+   *
+   * OPTIONAL FOREVER, on the #205 rule. A sell written before this widening carries
+   * neither, loads exactly as it did, and is reported as encumbering nothing rather than
+   * guessed onto a position (`composeAvailableUnits`).
+   */
+  positionId?: string;
+  tier?: CapitalTier;
 }
 
 /** The claim left the book by cancellation — an OBSERVED cancellation, never inferred. */
@@ -290,8 +315,6 @@ const KNOWN_KINDS: Record<OrderKind, true> = {
   orderFillObserved: true,
 };
 
-const CURRENCIES: Record<Currency, true> = { USD: true, MXN: true };
-
 /**
  * Second-granular local timestamp with NO timezone — the venue's own precision. The
  * as-of selector compares `observedAt` by STRING, so the format must be
@@ -417,6 +440,10 @@ const ORDER_PLACED_KEYS: Record<keyof OrderPlacedRecord, true> = {
   // ones written after it, key for key, up to where the old shape ended.
   planId: true,
   rungId: true,
+  // THE SELL'S DECLARED UNITS, appended last on the same argument: every line written
+  // before this widening stays a key-for-key prefix of the lines written after it.
+  positionId: true,
+  tier: true,
 };
 
 const ORDER_CANCELLED_KEYS: Record<keyof OrderCancelledRecord, true> = {
@@ -490,6 +517,11 @@ function isFinitePositive(value: unknown): value is number {
   return typeof value === "number" && Number.isFinite(value) && value > 0;
 }
 
+/** Exported for the same reason as the descriptor gates below: the writer asks it too. */
+export function isCapitalTier(value: unknown): value is CapitalTier {
+  return (CAPITAL_TIERS as readonly unknown[]).includes(value);
+}
+
 /**
  * THE DESCRIPTOR GATES (#205), exported so the WRITER asks exactly the question this
  * reader will ask on the way back in.
@@ -538,7 +570,7 @@ export function buildOrderFillObserved(claim: ObservedFillClaim): OrderFillObser
   if (!isObservedAtStamp(claim.observedAt)) {
     return { status: "refused", message: `observedAt must be ${OBSERVED_AT_RULE}` };
   }
-  if (!(claim.currency in CURRENCIES)) {
+  if (!isSupportedCurrency(claim.currency)) {
     return { status: "refused", message: "currency must be a known currency" };
   }
   if (!isFinitePositive(claim.observedFilledQuantity)) {
@@ -590,7 +622,7 @@ export function parseOrderRecord(value: unknown): OrderRecordParse {
       message: `unknown kind ${JSON.stringify(value.kind)}`,
     };
   }
-  if (typeof value.currency !== "string" || !(value.currency in CURRENCIES)) {
+  if (!isSupportedCurrency(value.currency)) {
     return { status: "skip", problem: "malformed", message: "currency must be a known currency" };
   }
 
@@ -685,6 +717,25 @@ export function parseOrderRecord(value: unknown): OrderRecordParse {
           message: "rungId must be a non-empty string when present",
         };
       }
+      // THE SELL'S UNITS — both or neither, and only on a sell. A half declaration, or one
+      // on a buy, is refused whole rather than degraded: unlike the plan join, a position
+      // with no tier would encumber units nobody could count.
+      if (value.positionId !== undefined || value.tier !== undefined) {
+        if (value.side !== "sell") {
+          return {
+            status: "skip",
+            problem: "malformed",
+            message: "positionId and tier are declared only on a sell",
+          };
+        }
+        if (!isNonEmptyString(value.positionId) || !isCapitalTier(value.tier)) {
+          return {
+            status: "skip",
+            problem: "malformed",
+            message: "a sell declares positionId and a capital tier together, or neither",
+          };
+        }
+      }
       return {
         status: "ok",
         record: {
@@ -703,6 +754,9 @@ export function parseOrderRecord(value: unknown): OrderRecordParse {
           fundingReserveId: value.fundingReserveId,
           ...(isNonEmptyString(value.planId) ? { planId: value.planId } : {}),
           ...(isNonEmptyString(value.rungId) ? { rungId: value.rungId } : {}),
+          ...(isNonEmptyString(value.positionId) && isCapitalTier(value.tier)
+            ? { positionId: value.positionId, tier: value.tier }
+            : {}),
         },
       };
     }
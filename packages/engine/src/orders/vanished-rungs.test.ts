@@ -0,0 +1,97 @@
+/**
+ * WHICH ABSENCES ARE PROPOSED — `detectVanishedRungs` over the resting book and one export.
+ *
+ * The function decides nothing about a rung's fate; it decides which rungs are worth a
+ * question. So the cases below are all about SCOPE: the export's venue, its symbols, and
+ * the moment of its look. Whatever falls outside that scope must never be proposed, since
+ * the export could not have shown it.
+ *
+ * Synthetic throughout: invented pairs, round sizes, round prices.
+ */
+import { describe, expect, it } from "vitest";
+import { detectVanishedRungs, synthesizeOrderId, type ObservedOpenOrder } from "./ingest.js";
+import type { OrderPlacedRecord } from "./records.js";
+import { pickRestingOrdersAsOf } from "./select.js";
+
+const LOOK = "2026-02-01T09:00:00";
+
+function placed(
+  venue: string,
+  symbol: string,
+  price: number,
+  observedAt = "2026-01-01T10:00:00",
+): OrderPlacedRecord {
+  return {
+    id: synthesizeOrderId({ venue, symbol, side: "buy", price: String(price), observedAt }),
+    observedAt,
+    kind: "orderPlaced",
+    currency: "USD",
+    symbol,
+    side: "buy",
+    price,
+    quantity: 1,
+    fundingReserveId: "reserve-synthetic",
+  };
+}
+
+/** The export's row for a rung already on file — the same id, still resting. */
+function exported(record: OrderPlacedRecord): ObservedOpenOrder {
+  return {
+    id: record.id,
+    observedAt: record.observedAt,
+    currency: record.currency,
+    symbol: record.symbol,
+    side: record.side,
+    price: record.price,
+    quantity: record.quantity,
+    filledQuantity: 0,
+  };
+}
+
+describe("detectVanishedRungs — a proposal scoped to what the export could have shown", () => {
+  it("proposes a resting rung of the export's venue and symbol that the export omits", () => {
+    const kept = placed("bitget", "TEST/USDT", 100);
+    const gone = placed("bitget", "TEST/USDT", 90);
+    const resting = pickRestingOrdersAsOf([kept, gone]);
+    const vanished = detectVanishedRungs(resting, [exported(kept)], "bitget", LOOK);
+    expect(vanished.map((order) => order.placed.id)).toEqual([gone.id]);
+  });
+
+  it("proposes nothing when every resting rung is still in the export", () => {
+    const kept = placed("bitget", "TEST/USDT", 100);
+    const resting = pickRestingOrdersAsOf([kept]);
+    expect(detectVanishedRungs(resting, [exported(kept)], "bitget", LOOK)).toEqual([]);
+  });
+
+  it("leaves another venue's rungs alone — its export was never going to list them", () => {
+    const here = placed("bitget", "TEST/USDT", 100);
+    const elsewhere = placed("binance", "TEST/USDT", 90);
+    const resting = pickRestingOrdersAsOf([here, elsewhere]);
+    expect(detectVanishedRungs(resting, [exported(here)], "bitget", LOOK)).toEqual([]);
+  });
+
+  it("leaves a pair the export does not mention alone — an export may be filtered to one", () => {
+    const here = placed("bitget", "TEST/USDT", 100);
+    const otherPair = placed("bitget", "OTHER/USDT", 90);
+    const resting = pickRestingOrdersAsOf([here, otherPair]);
+    expect(detectVanishedRungs(resting, [exported(here)], "bitget", LOOK)).toEqual([]);
+  });
+
+  it("leaves a rung placed after the look alone — it could not have been in it", () => {
+    const here = placed("bitget", "TEST/USDT", 100);
+    const later = placed("bitget", "TEST/USDT", 90, "2026-03-01T10:00:00");
+    const resting = pickRestingOrdersAsOf([here, later]);
+    expect(detectVanishedRungs(resting, [exported(here)], "bitget", LOOK)).toEqual([]);
+  });
+
+  it("never proposes a rung the file already retired — the book, not the placements, is read", () => {
+    const here = placed("bitget", "TEST/USDT", 100);
+    const gone = placed("bitget", "TEST/USDT", 90);
+    const resting = pickRestingOrdersAsOf([
+      here,
+      gone,
+      { id: gone.id, observedAt: "2026-01-02T10:00:00", kind: "orderCancelled", currency: "USD" },
+    ]);
+    expect(detectVanishedRungs(resting, [exported(here)], "bitget", LOOK)).toEqual([]);
+  });
+});
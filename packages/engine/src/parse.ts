@@ -6,6 +6,7 @@ import type {
   DuplicateCapitalRecordId,
   DuplicateReferenceId,
   FundReviewData,
+  InvalidFxRate,
   InvalidJson,
   Ok,
   ParseResult,
@@ -15,6 +16,8 @@ import {
   isIsoDate,
   isPositiveNumber,
   isRecord,
+  isRecordObject,
+  isSupportedCurrency,
   requireNonEmptyString,
   schemaError,
 } from "./internal.js";
@@ -95,6 +98,11 @@ export function parseFundReview(input: unknown): ParseResult {
     };
   }
 
+  const fxError = validateFxTable(value.review.fx);
+  if (fxError) {
+    return fxError;
+  }
+
   const portfolioError = validateNamedRecords(value.portfolios, "portfolios", "portfolio");
   if (portfolioError) {
     return portfolioError;
@@ -141,6 +149,51 @@ export function parseFundReview(input: unknown): ParseResult {
   };
 }
 
+/**
+ * `review.fx`, when present: an object keyed by supported currencies other than USD —
+ * which has no rate against itself — and MXN, whose rate is `review.usdMxn`. A second
+ * MXN rate here could only disagree with that one. Each value is a positive rate in
+ * units per USD.
+ */
+function validateFxTable(fx: unknown): InvalidFxRate | undefined {
+  if (fx === undefined) {
+    return undefined;
+  }
+  if (!isRecordObject(fx)) {
+    return {
+      kind: "invalid-fx-rate",
+      severity: "blocking",
+      path: "review.fx",
+      value: fx,
+      message: "review.fx must be an object of units-per-USD rates keyed by currency.",
+    };
+  }
+  for (const [currency, rate] of Object.entries(fx)) {
+    if (!isSupportedCurrency(currency) || currency === "USD" || currency === "MXN") {
+      return {
+        kind: "invalid-fx-rate",
+        severity: "blocking",
+        path: `review.fx.${currency}`,
+        value: rate,
+        message:
+          currency === "MXN"
+            ? "review.fx must not carry MXN; its rate is review.usdMxn."
+            : `review.fx.${currency} is not a supported currency other than USD and MXN.`,
+      };
+    }
+    if (!isPositiveNumber(rate)) {
+      return {
+        kind: "invalid-fx-rate",
+        severity: "blocking",
+        path: `review.fx.${currency}`,
+        value: rate,
+        message: `review.fx.${currency} must be a positive ${currency}-per-USD rate.`,
+      };
+    }
+  }
+  return undefined;
+}
+
 function validateNamedRecords(
   value: unknown,
   path: string,
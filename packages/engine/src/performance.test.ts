@@ -0,0 +1,179 @@
+// Behavior locks for `composePerformance`: TWR chain-links the anchor valuations with
+// external flows taken out, so a `Deposit` is never a gain; a Tempo or Portfolio treats
+// cash crossing from a sibling as a flow of its own; IRR is the annualized
+// money-weighted rate; discarded events count for nothing; and the section rides the
+// composition report only when composed. Reuses the cash-settlement genesis fixture.
+import { describe, expect, it } from "vitest";
+import {
+  buildCompositionReport,
+  composePerformance,
+  foldEvents,
+  formatCompositionReport,
+  formatPerformance,
+  type PerformanceSeries,
+  type PortfolioEvent,
+} from "./index.js";
+import { DECISION, genesis } from "./cash-settlement.fixtures.js";
+
+// The genesis Fund: 1500 tiered + 800 untiered cash (Reserve tempo) + alt-pos 20 × 40
+// (Pulse tempo), all in the one `core` portfolio — 3100.
+const DEPOSIT: PortfolioEvent = {
+  id: "deposit",
+  asOf: "2026-06-02",
+  type: "Deposit",
+  reserveId: "untiered",
+  amount: 1000,
+  tier: "c1",
+};
+
+const MARK_ALT: PortfolioEvent = {
+  id: "mark-alt",
+  asOf: "2026-06-03",
+  type: "PriceMarked",
+  instrumentId: "alt-usd",
+  price: 44,
+};
+
+const OPEN_BTC: PortfolioEvent = {
+  id: "open-btc",
+  asOf: "2026-06-02",
+  type: "PositionOpened",
+  position: {
+    id: "btc-pos",
+    portfolioId: "core",
+    tempo: "Pulse",
+    executionMode: "live",
+    accountId: "venue",
+    instrumentId: "btc-usd",
+    direction: "long",
+    currency: "USD",
+    lots: [{ quantity: 4, cost: 100, tier: "c1" }],
+  },
+  decision: DECISION,
+  funding: { reserveId: "tiered", amount: 400 },
+};
+
+const MARK_BTC: PortfolioEvent = {
+  id: "mark-btc",
+  asOf: "2026-06-03",
+  type: "PriceMarked",
+  instrumentId: "btc-usd",
+  price: 110,
+};
+
+const byKey = (rows: PerformanceSeries[], key: string) => rows.find((row) => row.key === key);
+
+describe("composePerformance — external flows are not returns", () => {
+  it("reads a bare Deposit as a flow, with zero TWR and zero IRR", () => {
+    const performance = composePerformance(genesis(), [DEPOSIT]);
+
+    expect(performance.anchors).toEqual(["2026-06-01", "2026-06-02"]);
+    expect(performance.fund).toMatchObject({
+      startValueUsd: 3100,
+      endValueUsd: 4100,
+      netFlowsUsd: 1000,
+      twr: 0,
+    });
+    expect(performance.fund.irr).toBeCloseTo(0, 9);
+  });
+
+  it("isolates the market move from the capital that arrived before it", () => {
+    const performance = composePerformance(genesis(), [DEPOSIT, MARK_ALT]);
+
+    // Only alt moved: 20 × 4 = 80 on a 4100 base after the deposit.
+    expect(performance.fund.twr).toBeCloseTo(80 / 4100, 12);
+    expect(byKey(performance.byTempo, "tempo:Pulse")?.twr).toBeCloseTo(0.1, 12);
+    expect(byKey(performance.byTempo, "tempo:Reserve")).toMatchObject({ twr: 0, netFlowsUsd: 1000 });
+    expect(byKey(performance.byPortfolio, "portfolio:core")).toMatchObject({ label: "Core" });
+  });
+
+  it("counts cash funding an open as a flow between Tempos, not for the Fund", () => {
+    const performance = composePerformance(genesis(), [OPEN_BTC, MARK_BTC]);
+
+    expect(performance.fund.netFlowsUsd).toBe(0);
+    expect(performance.fund.twr).toBeCloseTo(40 / 3100, 12);
+    expect(byKey(performance.byTempo, "tempo:Reserve")).toMatchObject({ netFlowsUsd: -400, twr: 0 });
+    const pulse = byKey(performance.byTempo, "tempo:Pulse");
+    expect(pulse).toMatchObject({ startValueUsd: 800, endValueUsd: 1240, netFlowsUsd: 400 });
+    expect(pulse?.twr).toBeCloseTo(1240 / 1200 - 1, 12);
+  });
+
+  it("ignores a flow the fold discarded", () => {
+    const stray: PortfolioEvent = { ...DEPOSIT, reserveId: "ghost" };
+    const performance = composePerformance(genesis(), [stray]);
+    expect(performance.fund).toMatchObject({ netFlowsUsd: 0, twr: 0 });
+  });
+});
+
+describe("composePerformance — a flow with no rate in force", () => {
+  it("leaves a Deposit into a Reserve in an unrated currency out, and warns", () => {
+    const seed = genesis();
+    seed.reserves.push({
+      id: "eur-cash",
+      portfolioId: "core",
+      tempo: "Reserve",
+      executionMode: "live",
+      accountId: "venue",
+      currency: "EUR",
+      amount: 500,
+    });
+    const deposit: PortfolioEvent = {
+      ...DEPOSIT,
+      id: "deposit-eur",
+      reserveId: "eur-cash",
+      amount: 100,
+    };
+
+    const performance = composePerformance(seed, [deposit]);
+
+    // The Reserve is excluded from every valuation, so its flow is too.
+    expect(performance.fund).toMatchObject({
+      startValueUsd: 3100,
+      endValueUsd: 3100,
+      netFlowsUsd: 0,
+    });
+    expect(performance.warnings).toEqual([
+      {
+        code: "unsupported-currency",
+        severity: "warning",
+        message:
+          "Deposit deposit-eur moves 100 EUR, which the review carries no FX rate for, and was " +
+          "left out of the performance flows.",
+        recordId: "eur-cash",
+      },
+    ]);
+    expect(formatPerformance(performance)).toContain(
+      "Left out\n- Deposit deposit-eur moves 100 EUR",
+    );
+    expect(composePerformance(genesis(), [DEPOSIT])).not.toHaveProperty("warnings");
+  });
+});
+
+describe("composePerformance — IRR", () => {
+  it("annualizes the money-weighted rate over the window", () => {
+    const yearLater: PortfolioEvent = { ...MARK_ALT, asOf: "2027-06-01" };
+    const performance = composePerformance(genesis(), [yearLater]);
+    expect(performance.fund.irr).toBeCloseTo(80 / 3100, 9);
+  });
+
+  it("has no IRR over a zero-length window", () => {
+    expect(composePerformance(genesis(), []).fund.irr).toBeUndefined();
+  });
+});
+
+describe("composePerformance — the composition report section", () => {
+  it("renders only when composed and passed in", () => {
+    const events = [DEPOSIT, MARK_ALT];
+    const data = foldEvents(genesis(), events).data;
+    const withSection = buildCompositionReport(data, {
+      performance: composePerformance(genesis(), events),
+    });
+    const without = buildCompositionReport(data);
+
+    const text = formatCompositionReport(withSection);
+    expect(text).toContain("Performance 2026-06-01 → 2026-06-03");
+    expect(text).toMatch(/Accumulus\s+\$3,100\.00\s+\$1,000\.00\s+\$4,180\.00\s+\+2\.0%/);
+    expect(without.performance).toBeUndefined();
+    expect(formatCompositionReport(without)).not.toContain("Performance");
+  });
+});
@@ -0,0 +1,135 @@
+// Behavior locks for the period-close contract: a close is the composition report's
+// own figures at the period, it references only the journal entries written since the
+// previous close, and a diff of two closes gathers the journal from every close between
+// them. Reuses the cash-settlement genesis fixture.
+import { describe, expect, it } from "vitest";
+import {
+  buildCompositionReport,
+  buildPeriodClose,
+  diffPeriodCloses,
+  foldEvents,
+  formatPeriodCloseDiff,
+  previousPeriodClose,
+  type LoadedJournalEntry,
+  type PeriodClose,
+  type PortfolioEvent,
+} from "./index.js";
+import { genesis } from "./cash-settlement.fixtures.js";
+
+const mark = (id: string, asOf: string, price: number): PortfolioEvent => ({
+  id,
+  asOf,
+  type: "PriceMarked",
+  instrumentId: "alt-usd",
+  price,
+});
+
+const EVENTS = [mark("alt-0603", "2026-06-03", 50), mark("alt-0610", "2026-06-10", 60)];
+
+const journalEntry = (line: number, writtenAt: string): LoadedJournalEntry => ({
+  subject: "position",
+  subjectId: "alt-pos",
+  writtenAt,
+  text: `entry ${line}`,
+  line,
+});
+
+const JOURNAL = [
+  journalEntry(1, "2026-06-01"),
+  journalEntry(2, "2026-06-04"),
+  journalEntry(3, "2026-06-05"),
+  journalEntry(4, "2026-06-11"),
+];
+
+function closeAt(period: string, previousPeriod?: string): PeriodClose {
+  return buildPeriodClose({
+    data: foldEvents(genesis(), EVENTS, period).data,
+    period,
+    closedAt: `${period}T22:00:00.000Z`,
+    journal: JOURNAL,
+    ...(previousPeriod ? { previousPeriod } : {}),
+  });
+}
+
+describe("buildPeriodClose", () => {
+  it("freezes the composition report's figures and the latest mark on or before the period", () => {
+    const data = foldEvents(genesis(), EVENTS, "2026-06-05").data;
+    const report = buildCompositionReport(data);
+    const close = closeAt("2026-06-05");
+
+    expect(close).toMatchObject({
+      schemaVersion: 1,
+      period: "2026-06-05",
+      closedAt: "2026-06-05T22:00:00.000Z",
+      fundValueUsd: report.totals.fundValueUsd,
+      usdMxn: 20,
+      prices: [{ instrumentId: "alt-usd", asOf: "2026-06-03", price: 50, currency: "USD" }],
+    });
+    const tempos = report.dashboard.sections.find((section) => section.id === "tempos")?.rows ?? [];
+    expect(close.tempos.map((row) => [row.id, row.usdValue])).toEqual(
+      tempos.map((row) => [row.id, row.usdValue]),
+    );
+    expect(close.tiers.length).toBeGreaterThan(0);
+  });
+
+  it("references the journal entries written after the previous close, through the period", () => {
+    expect(closeAt("2026-06-05").journal.map((ref) => ref.line)).toEqual([1, 2, 3]);
+    expect(closeAt("2026-06-05", "2026-06-01").journal).toEqual([
+      { subject: "position", subjectId: "alt-pos", writtenAt: "2026-06-04", line: 2 },
+      { subject: "position", subjectId: "alt-pos", writtenAt: "2026-06-05", line: 3 },
+    ]);
+  });
+});
+
+describe("previousPeriodClose", () => {
+  it("picks the latest close strictly before the period, in any input order", () => {
+    const closes = [closeAt("2026-06-12"), closeAt("2026-06-01"), closeAt("2026-06-05")];
+    expect(previousPeriodClose(closes, "2026-06-12")?.period).toBe("2026-06-05");
+    expect(previousPeriodClose(closes, "2026-06-01")).toBeUndefined();
+  });
+});
+
+describe("diffPeriodCloses", () => {
+  const first = closeAt("2026-06-01");
+  const middle = closeAt("2026-06-05", "2026-06-01");
+  const last = closeAt("2026-06-12", "2026-06-05");
+  const diff = diffPeriodCloses(first, last, [first, middle, last]);
+
+  it("compares NAV and each price, and gathers the journal from every close in between", () => {
+    expect(diff.fundValueUsd.change).toBeCloseTo(last.fundValueUsd - first.fundValueUsd);
+    // Genesis carries the position's mark, so the first close prices it at 40.
+    expect(diff.prices).toEqual([
+      { instrumentId: "alt-usd", currency: "USD", from: 40, to: 60, changePct: 50 },
+    ]);
+    expect(diff.journal.map((ref) => ref.line)).toEqual([2, 3, 4]);
+  });
+
+  it("lists an entry once when a backdated close references it beside a later one", () => {
+    // 06-12 was closed first, so it references 2-4; 06-05 was closed after it, and its
+    // previous close is still 06-01, so it references 2-3 again.
+    const backdated = closeAt("2026-06-05", "2026-06-01");
+    const closedFirst = closeAt("2026-06-12", "2026-06-01");
+    const both = diffPeriodCloses(first, closedFirst, [first, closedFirst, backdated]);
+    expect(both.journal.map((ref) => ref.line)).toEqual([2, 3, 4]);
+  });
+
+  it("keeps a row only one side had, with the other side absent", () => {
+    const unpriced = diffPeriodCloses({ ...middle, prices: [] }, last, []);
+    expect(unpriced.prices).toEqual([{ instrumentId: "alt-usd", currency: "USD", to: 60 }]);
+    const gone = diffPeriodCloses({ ...middle, tempos: [] }, last, []);
+    expect(gone.tempos.every((row) => row.fromUsd === undefined && row.toUsd !== undefined)).toBe(true);
+  });
+
+  it("renders the diff with the journal as line references", () => {
+    const text = formatPeriodCloseDiff(diffPeriodCloses(middle, last, [first, middle, last]));
+    const lines = text.split("\n");
+    expect(lines[0]).toBe("Close diff 2026-06-05 → 2026-06-12");
+    expect(text).toContain("By Tempo");
+    expect(text).toContain("Fund value: $3,300.00 → $3,500.00 (+$200.00, +6.1%)");
+    expect(lines).toContain(
+      "Pulse               $1,000.00 (30.3%)      $1,200.00 (34.3%)       +$200.00",
+    );
+    expect(text).toContain("Journal: 1 entry written between the closes");
+    expect(lines.at(-1)).toMatch(/2026-06-11 +position alt-pos +journal\.jsonl line 4$/);
+  });
+});
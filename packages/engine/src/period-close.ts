@@ -0,0 +1,333 @@
+/**
+ * The `closes.jsonl` RECORD CONTRACT — the pure half of the weekly Close workflow.
+ *
+ * A PERIOD CLOSE is what the fund looked like at one review anchor, frozen: the fold
+ * run to that date, reduced to the figures a weekly review signs off on — NAV, the
+ * latest price of every marked instrument, the Capital Tier and Tempo allocation — plus
+ * a REFERENCE to every journal entry written in the period. Not to be confused with
+ * {@link Close}, the per-instrument price anchor the fold derives from `PriceMarked`:
+ * a period close carries those prices, it does not replace them.
+ *
+ * WHY FREEZE WHAT A FOLD CAN RECOMPUTE. It cannot, reliably. A backdated event appended
+ * next month changes what `foldEvents(…, asOf)` returns for this period, and that is
+ * correct for the fold and useless for a review: the operator signed off on the figures
+ * they saw, and a later fold answers a different question. A close is the record of the
+ * first answer, which is why it is durable and why a second close for the same period
+ * is REFUSED rather than written over the first.
+ *
+ * This module is PURE (ADR-001): the record and read-side shapes, the builder over a
+ * folded read model, and the diff of two closes. The file IO — resolve, a total loader
+ * and the refusing append — lives in `@numisma/preferences` (`period-closes.ts`); the
+ * diff is rendered by `formatPeriodCloseDiff` (`format.ts`). Every type is declared
+ * here, read-side ones included, for the reason `reconciliations.ts` records.
+ *
+ * JOURNAL REFERENCES, NOT JOURNAL TEXT. The journal is durable in its own right and
+ * append-only, so a line number is a stable address; copying the prose would put the
+ * operator's reasoning in a second file with a second lifetime.
+ */
+import { buildCompositionReport } from "./compose/report.js";
+import type {
+  CompositionRow,
+  Currency,
+  DashboardSectionId,
+  FundReviewData,
+  LoadOutcome,
+} from "./contracts.js";
+import { isSupportedCurrency } from "./internal.js";
+import type { JournalSubject, LoadedJournalEntry } from "./journal.js";
+import type { IsoDate } from "./plans.js";
+
+/**
+ * The record's schema version, written into every line as `schemaVersion`. Bumped on a
+ * change that would break a reader (a removed or retyped field); adding a field does
+ * not bump it. A line NEWER than this build is skipped rather than misread.
+ */
+export const PERIOD_CLOSE_SCHEMA_VERSION = 1;
+
+/** One instrument's latest price on or before the period, in its own currency. */
+export interface PeriodClosePrice {
+  instrumentId: string;
+  /** The date of the mark the price came from — on or before the period. */
+  asOf: IsoDate;
+  price: number;
+  currency: Currency;
+}
+
+/** Whether a wire value names a currency a {@link PeriodClosePrice} may be quoted in. */
+export function isPeriodCloseCurrency(value: unknown): value is Currency {
+  return isSupportedCurrency(value);
+}
+
+/** One Capital Tier or Tempo row of the composition, as it stood at the close. */
+export interface PeriodCloseAllocation {
+  id: string;
+  label: string;
+  usdValue: number;
+  percentOfFund: number;
+}
+
+/** The address of one journal entry written in the period — never its text. */
+export interface PeriodCloseJournalRef {
+  subject: JournalSubject;
+  subjectId: string;
+  writtenAt: IsoDate;
+  /** The entry's 1-based line in `journal.jsonl`, stable because the file is append-only. */
+  line: number;
+}
+
+/** One line of `closes.jsonl`, as WRITTEN. */
+export interface PeriodClose {
+  schemaVersion: number;
+  /** The review anchor the fold was run to. At most one close per period. */
+  period: IsoDate;
+  /** The instant the close was taken (ISO-8601). */
+  closedAt: string;
+  fundValueUsd: number;
+  usdMxn: number;
+  /** Every instrument the fold holds a mark for, by id. */
+  prices: PeriodClosePrice[];
+  tiers: PeriodCloseAllocation[];
+  tempos: PeriodCloseAllocation[];
+  /** Entries written after the previous close's period, through this one. */
+  journal: PeriodCloseJournalRef[];
+}
+
+/** One line as READ: the loader stamps its 1-based line number. */
+export type LoadedPeriodClose = PeriodClose & { line: number };
+
+/**
+ * Why a line was skipped — a CLOSED vocabulary naming the part that failed, never the
+ * value it held. `duplicate-period` is a valid close for a period an EARLIER line
+ * already closed: the append refuses that, so only a hand edit produces one, and the
+ * first close stands.
+ */
+export type PeriodCloseSkipReason =
+  | "not-json"
+  | "not-an-object"
+  | "schema-version"
+  | "period"
+  | "closed-at"
+  | "figures"
+  | "prices"
+  | "allocation"
+  | "journal"
+  | "duplicate-period";
+
+/** One line the loader could not turn into a close, REPORTED rather than swallowed. */
+export interface SkippedPeriodCloseLine {
+  line: number;
+  reason: PeriodCloseSkipReason;
+  /** Fixed prose. Never interpolates file content. */
+  detail: string;
+}
+
+/**
+ * The loader's TOTAL outcome, on the terms `LoadedPlans` states: a missing file is
+ * `loaded` with no closes, any other read error is `load-failed`, and every discarded
+ * line is one `skipped` record. `closes` are in period order.
+ */
+export interface LoadedPeriodCloses {
+  load: LoadOutcome;
+  closes: LoadedPeriodClose[];
+  skipped: SkippedPeriodCloseLine[];
+}
+
+/** What {@link buildPeriodClose} reads. */
+export interface BuildPeriodCloseInput {
+  /** The read model folded as of `period`. */
+  data: FundReviewData;
+  period: IsoDate;
+  closedAt: string;
+  /** The journal as loaded; only entries inside the period are referenced. */
+  journal: readonly LoadedJournalEntry[];
+  /** The latest close BEFORE this one, if any — where the period's journal starts. */
+  previousPeriod?: IsoDate;
+}
+
+/**
+ * Reduce a fold to the close of one period. The allocation is the composition report's
+ * own Tier and Tempo sections, so a close can never disagree with what `pnpm report`
+ * showed for the same fold.
+ */
+export function buildPeriodClose(input: BuildPeriodCloseInput): PeriodClose {
+  const { data, period, previousPeriod } = input;
+  const report = buildCompositionReport(data);
+  const section = (id: DashboardSectionId): PeriodCloseAllocation[] =>
+    (report.dashboard.sections.find((candidate) => candidate.id === id)?.rows ?? []).map(
+      (row: CompositionRow) => ({
+        id: row.id,
+        label: row.label,
+        usdValue: row.usdValue,
+        percentOfFund: row.percentOfFund,
+      }),
+    );
+
+  const currencies = new Map(data.instruments.map((instrument) => [instrument.id, instrument.currency]));
+  const latest = new Map<string, { asOf: IsoDate; price: number }>();
+  for (const close of data.closes ?? []) {
+    const seen = latest.get(close.instrumentId);
+    if (close.asOf <= period && (seen === undefined || close.asOf >= seen.asOf)) {
+      latest.set(close.instrumentId, { asOf: close.asOf, price: close.price });
+    }
+  }
+  const prices = [...latest.entries()]
+    .filter(([instrumentId]) => currencies.has(instrumentId))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([instrumentId, mark]) => ({
+      instrumentId,
+      asOf: mark.asOf,
+      price: mark.price,
+      currency: currencies.get(instrumentId) as Currency,
+    }));
+
+  const journal = input.journal
+    .filter(
+      (entry) =>
+        entry.writtenAt <= period &&
+        (previousPeriod === undefined || entry.writtenAt > previousPeriod),
+    )
+    .sort((a, b) => a.writtenAt.localeCompare(b.writtenAt) || a.line - b.line)
+    .map((entry) => ({
+      subject: entry.subject,
+      subjectId: entry.subjectId,
+      writtenAt: entry.writtenAt,
+      line: entry.line,
+    }));
+
+  return {
+    schemaVersion: PERIOD_CLOSE_SCHEMA_VERSION,
+    period,
+    closedAt: input.closedAt,
+    fundValueUsd: report.totals.fundValueUsd,
+    usdMxn: report.totals.usdMxn,
+    prices,
+    tiers: section("tiers"),
+    tempos: section("tempos"),
+    journal,
+  };
+}
+
+/** The latest close strictly before `period`, if any. */
+export function previousPeriodClose<T extends PeriodClose>(
+  closes: readonly T[],
+  period: IsoDate,
+): T | undefined {
+  return closes
+    .filter((close) => close.period < period)
+    .reduce<T | undefined>(
+      (latest, close) => (latest === undefined || close.period > latest.period ? close : latest),
+      undefined,
+    );
+}
+
+/** One instrument's price at both ends of a diff; a side is absent when unmarked there. */
+export interface PeriodClosePriceChange {
+  instrumentId: string;
+  currency: Currency;
+  from?: number;
+  to?: number;
+  /** Percent change, present only when both sides are. */
+  changePct?: number;
+}
+
+/** One Tier or Tempo row at both ends of a diff; a side is absent when the row was. */
+export interface PeriodCloseAllocationChange {
+  id: string;
+  label: string;
+  fromUsd?: number;
+  toUsd?: number;
+  fromPercentOfFund?: number;
+  toPercentOfFund?: number;
+  changeUsd: number;
+}
+
+/** What changed between two closes. */
+export interface PeriodCloseDiff {
+  from: IsoDate;
+  to: IsoDate;
+  fundValueUsd: { from: number; to: number; change: number; changePct?: number };
+  prices: PeriodClosePriceChange[];
+  tiers: PeriodCloseAllocationChange[];
+  tempos: PeriodCloseAllocationChange[];
+  /** Every journal entry referenced by a close after `from`, through `to`. */
+  journal: PeriodCloseJournalRef[];
+}
+
+function percentChange(from: number, to: number): number | undefined {
+  return from === 0 ? undefined : ((to - from) / from) * 100;
+}
+
+function diffAllocations(
+  from: readonly PeriodCloseAllocation[],
+  to: readonly PeriodCloseAllocation[],
+): PeriodCloseAllocationChange[] {
+  const before = new Map(from.map((row) => [row.id, row]));
+  const after = new Map(to.map((row) => [row.id, row]));
+  // The later close's order, then rows that only the earlier one had.
+  const ids = [...new Set([...to.map((row) => row.id), ...from.map((row) => row.id)])];
+  return ids.map((id) => {
+    const a = before.get(id);
+    const b = after.get(id);
+    return {
+      id,
+      label: (b ?? a)?.label ?? id,
+      ...(a ? { fromUsd: a.usdValue, fromPercentOfFund: a.percentOfFund } : {}),
+      ...(b ? { toUsd: b.usdValue, toPercentOfFund: b.percentOfFund } : {}),
+      changeUsd: (b?.usdValue ?? 0) - (a?.usdValue ?? 0),
+    };
+  });
+}
+
+/**
+ * Diff two closes, `from` the earlier. `closes` is every close on record: the journal
+ * side is gathered from each close whose period falls after `from` and through `to`,
+ * because each close references only its own period's entries — diffing two closes a
+ * month apart must not lose the weeks between them. An entry two closes reference is
+ * listed once.
+ */
+export function diffPeriodCloses(
+  from: PeriodClose,
+  to: PeriodClose,
+  closes: readonly PeriodClose[],
+): PeriodCloseDiff {
+  const before = new Map(from.prices.map((price) => [price.instrumentId, price]));
+  const after = new Map(to.prices.map((price) => [price.instrumentId, price]));
+  const instrumentIds = [...new Set([...before.keys(), ...after.keys()])].sort();
+  const prices = instrumentIds.map((instrumentId) => {
+    const a = before.get(instrumentId);
+    const b = after.get(instrumentId);
+    const changePct = a && b ? percentChange(a.price, b.price) : undefined;
+    return {
+      instrumentId,
+      currency: (b ?? a)?.currency ?? "USD",
+      ...(a ? { from: a.price } : {}),
+      ...(b ? { to: b.price } : {}),
+      ...(changePct !== undefined ? { changePct } : {}),
+    };
+  });
+
+  // Once per journal line: a close taken after a later one (10-15 closed, then 10-08)
+  // references entries the later close already does.
+  const seen = new Set<number>();
+  const journal = closes
+    .filter((close) => close.period > from.period && close.period <= to.period)
+    .sort((a, b) => a.period.localeCompare(b.period))
+    .flatMap((close) => close.journal)
+    .filter((ref) => !seen.has(ref.line) && seen.add(ref.line));
+
+  const navChangePct = percentChange(from.fundValueUsd, to.fundValueUsd);
+  return {
+    from: from.period,
+    to: to.period,
+    fundValueUsd: {
+      from: from.fundValueUsd,
+      to: to.fundValueUsd,
+      change: to.fundValueUsd - from.fundValueUsd,
+      ...(navChangePct !== undefined ? { changePct: navChangePct } : {}),
+    },
+    prices,
+    tiers: diffAllocations(from.tiers, to.tiers),
+    tempos: diffAllocations(from.tempos, to.tempos),
+    journal,
+  };
+}
@@ -0,0 +1,146 @@
+// Behavior locks for Perspectives: a saved lens filters, groups, sorts and lays out the
+// live records without changing a figure — every share is of the WHOLE Fund — and its
+// `executionModes` facet is the one way a paper book is looked at. Reuses the
+// cash-settlement genesis: 2300 of Reserve-tempo cash and alt-pos 20 × 40 in Pulse.
+import { describe, expect, it } from "vitest";
+import {
+  applyPerspective,
+  buildCompositionReport,
+  formatPerspective,
+  perspectiveNames,
+  pickPerspective,
+  type FundReviewData,
+  type LoadedPerspective,
+  type Perspective,
+} from "./index.js";
+import { genesis } from "./cash-settlement.fixtures.js";
+
+/** The genesis with a strategy on alt-pos and a paper Position beside it. */
+function withPaperBook(): FundReviewData {
+  const data = genesis();
+  const [altPos] = data.positions;
+  data.positions = [
+    { ...altPos!, strategy: "trend" },
+    {
+      ...altPos!,
+      id: "paper-pos",
+      executionMode: "paper",
+      strategy: "mean-reversion",
+      lots: [{ quantity: 5, cost: 20, tier: "c1" }],
+    },
+  ];
+  return data;
+}
+
+function view(perspective: Perspective, data = withPaperBook()) {
+  return applyPerspective(data, buildCompositionReport(data), perspective);
+}
+
+describe("applyPerspective", () => {
+  it("groups the live records and takes every share of the whole Fund", () => {
+    const result = view({ name: "by-tempo", filter: {}, groupBy: "tempo" });
+
+    expect(result.rows.map((row) => [row.key, row.usdValue, row.records])).toEqual([
+      ["tempo:Reserve", 2300, 2],
+      ["tempo:Pulse", 800, 1],
+    ]);
+    expect(result.rows[1]).toMatchObject({ costBasisUsd: 400, unrealizedPnlUsd: 400 });
+    expect(result.rows[0]).not.toHaveProperty("costBasisUsd");
+    expect(result.totalUsd).toBe(3100);
+    expect(result.percentOfFund).toBe(100);
+  });
+
+  it("narrows with ANDed facets but keeps percentages of the whole Fund", () => {
+    const result = view({ name: "pulse", filter: { tempos: ["Pulse"] }, groupBy: "instrument" });
+
+    expect(result.rows).toHaveLength(1);
+    expect(result.totalUsd).toBe(800);
+    expect(result.rows[0]?.percentOfFund).toBeCloseTo((800 / 3100) * 100, 12);
+
+    const none = view({
+      name: "none",
+      filter: { tempos: ["Reserve"], strategies: ["trend"] },
+      groupBy: "tempo",
+    });
+    expect(none.rows).toEqual([]);
+    expect(none.records).toBe(0);
+  });
+
+  it("admits a paper book only when the lens names its Execution Mode", () => {
+    const result = view({
+      name: "books",
+      filter: { executionModes: ["live", "paper"], strategies: ["trend", "mean-reversion"] },
+      groupBy: "executionMode",
+    });
+
+    expect(result.rows.map((row) => [row.key, row.usdValue])).toEqual([
+      ["executionMode:live", 800],
+      ["executionMode:paper", 200],
+    ]);
+    // The Fund it is a share of is still the live one.
+    expect(result.rows[1]?.percentOfFund).toBeCloseTo((200 / 3100) * 100, 12);
+    expect(view({ name: "live", filter: {}, groupBy: "executionMode" }).rows).toHaveLength(1);
+  });
+
+  it("labels untagged records Unassigned when grouping by strategy", () => {
+    const result = view({ name: "strategies", filter: {}, groupBy: "strategy" });
+    expect(result.rows.map((row) => row.label)).toEqual(["Unassigned", "trend"]);
+  });
+
+  it("orders by the lens's sort, ties broken by label, and keeps its columns", () => {
+    const result = view({
+      name: "small-first",
+      filter: {},
+      groupBy: "tempo",
+      sort: { by: "usdValue", direction: "asc" },
+      columns: ["usdValue", "records"],
+    });
+    expect(result.rows.map((row) => row.label)).toEqual(["Pulse", "Reserve"]);
+    expect(result.columns).toEqual(["usdValue", "records"]);
+
+    const byLabel = view({
+      name: "by-label",
+      filter: {},
+      groupBy: "tempo",
+      sort: { by: "label", direction: "desc" },
+    });
+    expect(byLabel.rows.map((row) => row.label)).toEqual(["Reserve", "Pulse"]);
+    expect(byLabel.columns).toEqual(["usdValue", "percentOfFund", "costBasisUsd", "unrealizedPnlUsd"]);
+  });
+});
+
+describe("pickPerspective / perspectiveNames", () => {
+  const lines: LoadedPerspective[] = [
+    { name: "a", filter: {}, groupBy: "tempo", line: 1 },
+    { name: "b", filter: {}, groupBy: "portfolio", line: 2 },
+    { name: "a", filter: {}, groupBy: "account", line: 3 },
+  ];
+
+  it("lets the latest line for a name win", () => {
+    expect(pickPerspective(lines, "a")?.groupBy).toBe("account");
+    expect(pickPerspective(lines, "missing")).toBeUndefined();
+  });
+
+  it("lists each name once, in first-declared order", () => {
+    expect(perspectiveNames(lines)).toEqual(["a", "b"]);
+  });
+});
+
+describe("formatPerspective", () => {
+  it("renders the heading, the rows and the whole-Fund total", () => {
+    const text = formatPerspective(
+      view({ name: "pulse", description: "Trading book", filter: { tempos: ["Pulse"] }, groupBy: "tempo" }),
+    );
+    expect(text).toContain("Perspective: pulse");
+    expect(text).toContain("Trading book");
+    expect(text).toContain("By tempo");
+    expect(text).toContain("Total: $800.00 (25.8% of Fund) across 1 record(s)");
+  });
+
+  it("says so when nothing matches", () => {
+    const text = formatPerspective(
+      view({ name: "empty", filter: { portfolioIds: ["nowhere"] }, groupBy: "portfolio" }),
+    );
+    expect(text).toContain("No records match this Perspective.");
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * The `perspectives.jsonl` RECORD CONTRACT — the pure half of the saved-lens sidecar.
+ *
+ * A Perspective is a saved analytical lens: it filters, groups, sorts and lays out the
+ * Fund's live records, and it NEVER OWNS CAPITAL (`context/ubiquitous-language.md`).
+ * Nothing here is folded, nothing here is a `PortfolioEvent`, and no value NAV folds
+ * from reads it: a lens changes which rows a reader sees and in what order, never a
+ * figure. Its percent-of-Fund is always a share of the WHOLE Fund, because a lens has
+ * no capital of its own to be a share of.
+ *
+ * This module is PURE (ADR-001): the closed vocabularies, the record and read-side
+ * shapes, and the by-name selector. The file IO — resolve and a total loader — lives
+ * in `@numisma/preferences` (`perspectives.ts`), and applying a lens to a fold lives in
+ * `compose/perspective.ts`. Every type is declared here, read-side ones included, for
+ * the reason `reconciliations.ts` records: the dependency runs `preferences → engine`
+ * only, so the loader can implement an engine type and never the other way round.
+ *
+ * THE FILE'S OWN VOCABULARY. One JSON object per line, hand-authored and append-only:
+ * redefining a lens is appending a new line with the same `name`, and the LATEST line
+ * for a name wins. There is no `effectiveAt` — a lens is not fund policy with a history
+ * that as-of replay must honour, only a layout the operator currently prefers.
+ */
+import type { ExecutionMode, LoadOutcome } from "./contracts.js";
+import { isExecutionMode } from "./internal.js";
+
+/**
+ * What a lens may group its rows by, declared ONCE, here. The first four are the
+ * dashboard's own record sections; `strategy` and `executionMode` are the two facets a
+ * fixed section cannot show.
+ */
+export const PERSPECTIVE_GROUP_BYS = [
+  "portfolio",
+  "tempo",
+  "account",
+  "instrument",
+  "strategy",
+  "executionMode",
+] as const;
+
+/** `groupBy` on a {@link Perspective}. */
+export type PerspectiveGroupBy = (typeof PERSPECTIVE_GROUP_BYS)[number];
+
+/**
+ * The figures a lens row can show, in the order the renderer lays them out. `records`
+ * is how many Reserves and Positions rolled into the row.
+ */
+export const PERSPECTIVE_COLUMNS = [
+  "usdValue",
+  "percentOfFund",
+  "costBasisUsd",
+  "unrealizedPnlUsd",
+  "records",
+] as const;
+
+/** One entry of `columns` on a {@link Perspective}. */
+export type PerspectiveColumn = (typeof PERSPECTIVE_COLUMNS)[number];
+
+/** The columns a lens that names none shows — the dashboard's own P&L section layout. */
+export const DEFAULT_PERSPECTIVE_COLUMNS: readonly PerspectiveColumn[] = [
+  "usdValue",
+  "percentOfFund",
+  "costBasisUsd",
+  "unrealizedPnlUsd",
+];
+
+/**
+ * Which records a lens admits. Each facet is an ANY-OF list and the facets AND
+ * together; an absent facet admits everything. A `strategies` facet admits Positions
+ * only, since cash carries no strategy. `executionModes` is the one facet that can
+ * WIDEN the view: the dashboard is live-only, and a lens naming `paper` is how a paper
+ * book is looked at without ever entering the live composition.
+ */
+export interface PerspectiveFilter {
+  tempos?: string[];
+  portfolioIds?: string[];
+  executionModes?: ExecutionMode[];
+  strategies?: string[];
+}
+
+/**
+ * Whether a wire value names an Execution Mode. The kernel's own predicate, surfaced
+ * under a lens name so the loader validates `executionModes` against the one list the
+ * canonical admission gate uses rather than a copy of it.
+ */
+export function isPerspectiveExecutionMode(value: unknown): value is ExecutionMode {
+  return isExecutionMode(value);
+}
+
+/** Row order: by a column or by the row label. Absent means `usdValue` descending. */
+export interface PerspectiveSort {
+  by: PerspectiveColumn | "label";
+  direction: "asc" | "desc";
+}
+
+/** One line of `perspectives.jsonl`, as WRITTEN. */
+export interface Perspective {
+  name: string;
+  description?: string;
+  filter: PerspectiveFilter;
+  groupBy: PerspectiveGroupBy;
+  sort?: PerspectiveSort;
+  columns?: PerspectiveColumn[];
+}
+
+/** One line as READ: the loader stamps its 1-based line number. */
+export type LoadedPerspective = Perspective & { line: number };
+
+/**
+ * Why a line was skipped — a CLOSED vocabulary naming the field that failed, never the
+ * value it held.
+ */
+export type PerspectiveSkipReason =
+  | "not-json"
+  | "not-an-object"
+  | "name"
+  | "description"
+  | "filter"
+  | "group-by"
+  | "sort"
+  | "columns";
+
+/** One line the loader could not turn into a lens, REPORTED rather than swallowed. */
+export interface SkippedPerspectiveLine {
+  /** 1-based, so the operator can go look at it. */
+  line: number;
+  reason: PerspectiveSkipReason;
+  /** Fixed prose. Never interpolates file content. */
+  detail: string;
+}
+
+/**
+ * The loader's TOTAL outcome, on the terms `LoadedPlans` states: a missing file is
+ * `loaded` with empty buckets (no lens saved yet), any other read error is
+ * `load-failed`, and every discarded line is one `skipped` record.
+ */
+export interface LoadedPerspectives {
+  load: LoadOutcome;
+  perspectives: LoadedPerspective[];
+  skipped: SkippedPerspectiveLine[];
+}
+
+/** The lens named `name` — the LATEST line carrying it — or undefined. */
+export function pickPerspective(
+  perspectives: LoadedPerspective[],
+  name: string,
+): LoadedPerspective | undefined {
+  let picked: LoadedPerspective | undefined;
+  for (const perspective of perspectives) {
+    if (perspective.name === name && (picked === undefined || perspective.line > picked.line)) {
+      picked = perspective;
+    }
+  }
+  return picked;
+}
+
+/** Every saved lens name once, in the order the file first declares it. */
+export function perspectiveNames(perspectives: LoadedPerspective[]): string[] {
+  return [...new Set([...perspectives].sort((a, b) => a.line - b.line).map((p) => p.name))];
+}
+
+/**
+ * One row of an applied lens. `percentOfFund` is a share of the whole live Fund — see
+ * the module header. `costBasisUsd` and `unrealizedPnlUsd` are absent on a row of cash
+ * alone, as they are on a composition row.
+ */
+export interface PerspectiveRow {
+  key: string;
+  label: string;
+  usdValue: number;
+  percentOfFund: number;
+  costBasisUsd?: number;
+  unrealizedPnlUsd?: number;
+  records: number;
+}
+
+/**
+ * A lens applied to one fold: its rows in lens order, the columns to show (the lens's
+ * own, or {@link DEFAULT_PERSPECTIVE_COLUMNS}), and the totals over what it admitted.
+ */
+export interface PerspectiveView {
+  name: string;
+  description?: string;
+  groupBy: PerspectiveGroupBy;
+  columns: PerspectiveColumn[];
+  rows: PerspectiveRow[];
+  totalUsd: number;
+  percentOfFund: number;
+  records: number;
+}
@@ -0,0 +1,98 @@
+// Pure-boundary suite for the consensus check. No network, no data files: the
+// histories below are authored, and every expected allowance is worked by hand.
+import { describe, expect, it } from "vitest";
+import { addDays, checkQuoteConsensus, type ConsensusOptions, type Quote } from "../index.js";
+
+function quote(asOf: string, price: number, instrumentId = "eth"): Quote {
+  return {
+    instrumentId,
+    symbol: "ETHUSDT",
+    asOf,
+    price,
+    source: "binance",
+    fetchedAt: `${asOf}T23:59:00.000Z`,
+  };
+}
+
+/** `prices` as consecutive daily closes ending the day before `2026-07-10`. */
+function dailyHistory(prices: readonly number[]): Quote[] {
+  return prices.map((price, i) => quote(addDays("2026-07-10", i - prices.length), price));
+}
+
+const BAND: ConsensusOptions = { band: 0.1, lookback: 30, volatilityMultiple: 4 };
+
+describe("checkQuoteConsensus — the band is a floor", () => {
+  it("lets a first close through as no-history", () => {
+    expect(checkQuoteConsensus(quote("2026-07-10", 3400), [], BAND)).toEqual({
+      kind: "no-history",
+    });
+  });
+
+  it("agrees inside the band and holds outside it on a flat history", () => {
+    const flat = dailyHistory([3000, 3000, 3000]);
+    expect(checkQuoteConsensus(quote("2026-07-10", 3240), flat, BAND)).toMatchObject({
+      kind: "agrees",
+      allowed: 0.1,
+    });
+    const held = checkQuoteConsensus(quote("2026-07-10", 3450), flat, BAND);
+    expect(held).toMatchObject({ kind: "diverges", allowed: 0.1 });
+    expect(held.kind === "diverges" ? held.message : "").toBe(
+      "close 3450 is 15.0% from the last stored close 3000 (2026-07-09); the consensus " +
+        "band allows ±10.0% over 1 day(s)",
+    );
+  });
+
+  it("judges against closes strictly before the candidate's day, never itself", () => {
+    const history = [...dailyHistory([3000, 3000]), quote("2026-07-10", 3450)];
+    expect(checkQuoteConsensus(quote("2026-07-10", 3450), history, BAND).kind).toBe("diverges");
+  });
+
+  it("never judges against a close it held before", () => {
+    const held: Quote = { ...quote("2026-07-10", 3450), consensusHeld: true };
+    const history = [...dailyHistory([3000, 3000]), held];
+    expect(checkQuoteConsensus(quote("2026-07-11", 3010), history, BAND)).toMatchObject({
+      kind: "agrees",
+    });
+  });
+
+  it("ignores another instrument's closes", () => {
+    expect(
+      checkQuoteConsensus(quote("2026-07-10", 3450), [quote("2026-07-09", 3000, "btc")], BAND),
+    ).toEqual({ kind: "no-history" });
+  });
+});
+
+describe("checkQuoteConsensus — volatility widens the band", () => {
+  it("lets a volatile instrument move further than the floor", () => {
+    // Alternating ±10% days: a 15% move is ordinary for this instrument.
+    const swinging = dailyHistory([100, 110, 100, 110, 100, 110, 100]);
+    const verdict = checkQuoteConsensus(quote("2026-07-10", 115), swinging, BAND);
+    expect(verdict.kind).toBe("agrees");
+    expect(verdict.kind === "agrees" ? verdict.allowed : 0).toBeGreaterThan(0.15);
+  });
+
+  it("widens by the square root of the days since the reference close", () => {
+    // The same history, judged one day later and nine days later: ×3 the allowance.
+    const swinging = dailyHistory([100, 102, 100, 102, 100]);
+    const nextDay = checkQuoteConsensus(quote("2026-07-10", 100), swinging, {
+      ...BAND,
+      band: 0,
+    });
+    const later = checkQuoteConsensus(quote("2026-07-18", 100), swinging, { ...BAND, band: 0 });
+    expect(nextDay.kind).toBe("agrees");
+    expect(later.kind).toBe("agrees");
+    if (nextDay.kind === "agrees" && later.kind === "agrees") {
+      expect(later.allowed).toBeCloseTo(nextDay.allowed * 3, 10);
+    }
+  });
+
+  it("reads only the last `lookback` closes", () => {
+    // A wild stretch long ago, then a calm one: with a short lookback the calm
+    // stretch alone sets the allowance, and a 15% move is held.
+    const history = dailyHistory([100, 200, 100, 200, 100, 100, 100, 100]);
+    expect(checkQuoteConsensus(quote("2026-07-10", 115), history, BAND).kind).toBe("agrees");
+    expect(
+      checkQuoteConsensus(quote("2026-07-10", 115), history, { ...BAND, lookback: 4 }).kind,
+    ).toBe("diverges");
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * The pure CONSENSUS CHECK: does a freshly fetched close agree with the instrument's
+ * own recent history closely enough to be marked?
+ *
+ * The spine's magnitude guard is ±50% — wide on purpose, because it is a veto on
+ * automation, not on reality, and a real 30% day must get through. That leaves a
+ * 15% bad print (a stale venue, a unit slip on one symbol, a fallback quoting the
+ * wrong product) free to enter the fund's history. This check is the tighter,
+ * OPTIONAL band in front of it: a close further from the last stored close than
+ * the band allows is held back from the inbox and reported for a human to judge.
+ *
+ * The band is a FLOOR, widened by the instrument's own recent volatility so a
+ * volatile coin is not held every other day: the allowance is the larger of the
+ * configured band and `volatilityMultiple` standard deviations of the stored daily
+ * log returns, scaled by the square root of the calendar days since the reference
+ * close. The scaling is what keeps a Monday equity close (three calendar days after
+ * Friday's) or a recovered day after a long gap from being judged as one day's move.
+ *
+ * A close the check held is kept out of the history it judges by (`consensusHeld`
+ * on the stored quote): judged against a bad print, tomorrow's good close would be
+ * held too. A real move the operator accepts is re-fetched with the check off,
+ * which stores the close without the flag and makes it the new reference.
+ *
+ * This module is PURE (ADR-001): it takes the prior quotes the shell read from the
+ * price store and returns a verdict. What to do with a divergent close — hold the
+ * mark, report it — is the shell's.
+ */
+import { daysBetween } from "../calendar.js";
+import type { Quote } from "./mark.js";
+
+/** How tight the check is. `band` is relative: `0.15` allows ±15%. */
+export interface ConsensusOptions {
+  /** The smallest relative move ever held; the allowance never drops below it. */
+  band: number;
+  /** How many stored closes before the candidate feed the volatility estimate. */
+  lookback: number;
+  /** How many standard deviations of the scaled daily move the allowance spans. */
+  volatilityMultiple: number;
+}
+
+/**
+ * The verdict. `no-history` is not a pass dressed up: a first close has nothing to
+ * disagree with, and the shell lets it through exactly as it would without the check.
+ */
+export type ConsensusVerdict =
+  | { kind: "agrees"; divergence: number; allowed: number }
+  | { kind: "no-history" }
+  | {
+      kind: "diverges";
+      /** The last stored close strictly before the candidate's `asOf`. */
+      reference: Quote;
+      /** `|price / reference.price − 1|`. */
+      divergence: number;
+      /** The allowance it exceeded, after the volatility widening. */
+      allowed: number;
+      message: string;
+    };
+
+/**
+ * Judge `candidate` against `history` — the instrument's stored quotes, in any
+ * order. Only quotes strictly before the candidate's `asOf` count, so re-running a
+ * day never compares a close with itself.
+ */
+export function checkQuoteConsensus(
+  candidate: Quote,
+  history: readonly Quote[],
+  options: ConsensusOptions,
+): ConsensusVerdict {
+  const prior = history
+    .filter(
+      (quote) =>
+        quote.instrumentId === candidate.instrumentId &&
+        quote.asOf < candidate.asOf &&
+        quote.consensusHeld !== true &&
+        Number.isFinite(quote.price) &&
+        quote.price > 0,
+    )
+    .sort((a, b) => a.asOf.localeCompare(b.asOf))
+    .slice(-Math.max(1, options.lookback));
+  const reference = prior.at(-1);
+  if (reference === undefined) {
+    return { kind: "no-history" };
+  }
+  const gapDays = Math.max(1, daysBetween(reference.asOf, candidate.asOf));
+  const dailyVolatility = scaledDailyVolatility(prior);
+  const allowed = Math.max(
+    options.band,
+    options.volatilityMultiple * dailyVolatility * Math.sqrt(gapDays),
+  );
+  const divergence = Math.abs(candidate.price / reference.price - 1);
+  if (divergence <= allowed) {
+    return { kind: "agrees", divergence, allowed };
+  }
+  return {
+    kind: "diverges",
+    reference,
+    divergence,
+    allowed,
+    message:
+      `close ${candidate.price} is ${percent(divergence)} from the last stored close ` +
+      `${reference.price} (${reference.asOf}); the consensus band allows ±${percent(allowed)} ` +
+      `over ${gapDays} day(s)`,
+  };
+}
+
+/**
+ * The standard deviation of the closes' log returns, each normalized to ONE
+ * calendar day (divided by the square root of its own gap), so weekends and missed
+ * days do not read as volatility. Zero with fewer than two returns to measure.
+ */
+function scaledDailyVolatility(closes: readonly Quote[]): number {
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    const previous = closes[i - 1]!;
+    const current = closes[i]!;
+    const gap = Math.max(1, daysBetween(previous.asOf, current.asOf));
+    returns.push(Math.log(current.price / previous.price) / Math.sqrt(gap));
+  }
+  if (returns.length < 2) {
+    return 0;
+  }
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance =
+    returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance);
+}
+
+/** `0.1834` → `"18.3%"`. */
+function percent(fraction: number): string {
+  return `${(fraction * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,57 @@
+// Pure-boundary suite for the FX mark. It pins the `fx-<currency>-<asOf>` id, the
+// rate carried as-is, the FIX's freshness rule applied per currency, and a round-trip
+// of a built mark through the real ingest guard.
+import { describe, expect, it } from "vitest";
+import {
+  buildEventReference,
+  crossReferenceEvent,
+  fxMarkFromRate,
+  parseEvent,
+  requireFreshFxRate,
+  type FixObservation,
+  type FundReviewData,
+} from "../index.js";
+
+const FRIDAY: FixObservation = { rate: 0.9182, date: "2026-07-03" };
+
+describe("fxMarkFromRate", () => {
+  it("builds the deterministic-id FxMarked with the rate unrounded", () => {
+    expect(fxMarkFromRate("EUR", FRIDAY, "2026-07-04")).toEqual({
+      id: "fx-EUR-2026-07-04",
+      asOf: "2026-07-04",
+      type: "FxMarked",
+      currency: "EUR",
+      rate: 0.9182,
+    });
+  });
+
+  it("clears parse and the ingest gates against a book with that currency", () => {
+    const genesis: FundReviewData = {
+      fund: { id: "fund-1", name: "Accumulus", baseCurrency: "USD" },
+      review: { asOf: "2026-07-01", usdMxn: 18.5, fx: { EUR: 0.92 } },
+      portfolios: [],
+      accounts: [],
+      instruments: [],
+      reserves: [],
+      positions: [],
+    };
+    const mark = fxMarkFromRate("EUR", FRIDAY, "2026-07-04");
+    expect(parseEvent(mark)).toEqual({ kind: "ok", value: mark });
+    expect(crossReferenceEvent(mark, buildEventReference(genesis, [])).kind).toBe("ok");
+  });
+});
+
+describe("requireFreshFxRate — the FIX's rule, per currency", () => {
+  it("returns a rate inside the window", () => {
+    expect(requireFreshFxRate("GBP", FRIDAY, "2026-07-06", 4)).toBe(FRIDAY);
+  });
+
+  it.each([
+    [undefined, "2026-07-03", /USD\/GBP rate is unavailable/],
+    [{ rate: 0, date: "2026-07-03" }, "2026-07-03", /not a positive rate/],
+    [FRIDAY, "2026-07-02", /AFTER the mark date/],
+    [FRIDAY, "2026-07-10", /USD\/GBP rate is stale/],
+  ])("throws loud on %j for %s", (observation, asOf, message) => {
+    expect(() => requireFreshFxRate("GBP", observation, asOf, 4)).toThrow(message);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * The pure FX mark: one fetched rate for one currency, turned into the `FxMarked`
+ * candidate the price feed drops in the inbox. The rate is units of the currency per
+ * one USD — the direction `review.usdMxn` has always had — whichever provider served
+ * it; a provider that quotes the other way is the shell's to invert, never this
+ * module's to guess.
+ *
+ * Freshness is the FIX's rule, applied to every currency: a rate older than the
+ * window before the mark date, or dated after it, is refused loud rather than
+ * recorded as the day's rate. Pure and IO-free (R1) — the fetches live in the shell.
+ */
+import { daysBetween } from "../calendar.js";
+import type { Currency } from "../contracts.js";
+import type { FxMarkedEvent } from "../events/types.js";
+import type { FixObservation } from "./derive.js";
+
+/** Any currency an FX mark can carry: every supported one but USD. */
+export type FxCurrency = Exclude<Currency, "USD">;
+
+/** The deterministic FX mark id, the `fx-` sibling of `pm-<instrumentId>-<asOf>`. */
+export function fxMarkId(currency: FxCurrency, asOf: string): string {
+  return `fx-${currency}-${asOf}`;
+}
+
+/**
+ * Return the rate only if it is present, positive and fresh enough to mark `asOf`,
+ * else throw naming the currency. `requireFreshFix` is the same rule worded for the
+ * `*-mxn` derivation; this one is worded for the rate itself.
+ */
+export function requireFreshFxRate(
+  currency: FxCurrency,
+  observation: FixObservation | undefined,
+  asOf: string,
+  maxStaleDays: number,
+): FixObservation {
+  if (observation === undefined) {
+    throw new Error(
+      `USD/${currency} rate is unavailable — refusing to mark ${currency} for ${asOf}.`,
+    );
+  }
+  if (!Number.isFinite(observation.rate) || observation.rate <= 0) {
+    throw new Error(
+      `USD/${currency} rate for ${asOf} is not a positive rate ` +
+        `(${String(observation.rate)}) — refusing to mark it.`,
+    );
+  }
+  const ageDays = daysBetween(observation.date, asOf);
+  if (ageDays < 0) {
+    throw new Error(
+      `USD/${currency} rate date ${observation.date} is AFTER the mark date ${asOf} — ` +
+        `refusing to mark an incoherent rate.`,
+    );
+  }
+  if (ageDays > maxStaleDays) {
+    throw new Error(
+      `USD/${currency} rate is stale: the latest observation is dated ` +
+        `${observation.date}, ${ageDays} day(s) before the mark date ${asOf}, beyond the ` +
+        `${maxStaleDays}-day freshness window — refusing to reuse a stale rate.`,
+    );
+  }
+  return observation;
+}
+
+/** Build the `FxMarked` for `currency` on `asOf` from a fresh rate. No rounding. */
+export function fxMarkFromRate(
+  currency: FxCurrency,
+  observation: FixObservation,
+  asOf: string,
+): FxMarkedEvent {
+  return {
+    id: fxMarkId(currency, asOf),
+    asOf,
+    type: "FxMarked",
+    currency,
+    rate: observation.rate,
+  };
+}
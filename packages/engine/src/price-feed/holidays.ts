@@ -0,0 +1,149 @@
+/**
+ * THE HOLIDAY TABLES — the full-day closures the venue calendar walks back over,
+ * beside the weekends it always walked back over.
+ *
+ * WHY TABLES AND NOT RULES. "The third Monday of January" is computable; "the day
+ * the NYSE closed to mourn a former president" is not, and neither is which way a
+ * Saturday holiday is observed (the NYSE does not close on 31 December for a
+ * Saturday New Year's Day). A table copied from the venue's own published calendar
+ * is reviewable line by line against that calendar; a rule engine is reviewable only
+ * by re-deriving it. Each table carries a `version`, bumped on every edit, and the
+ * span it vouches for.
+ *
+ * THE FAILURE DIRECTION IS UNCHANGED (#266 D7). Outside a table's span — a year
+ * nobody has entered yet — and on any closure the table does not list, a weekday is
+ * a day the venue owes a mark. That is the false *yes* the surfaces were already
+ * built to absorb, and it is why the holiday sentences in their messages stay: the
+ * table removes the ~9-10 scheduled closures a year, not the possibility of an
+ * unscheduled one. A table must never list a day the venue traded, because that is
+ * a false *no*: a real outage on that day would go unreported.
+ *
+ * Pure data and pure lookups, like the venue calendar itself (ADR-001).
+ */
+import type { PriceSource } from "./registry.js";
+
+/** One venue's published full-day closures, over the span it vouches for. */
+export interface HolidayTable {
+  /** Whose closures these are, as a message should name them. */
+  calendar: string;
+  /** Bumped on every added or removed date, so a consumer can say which table it read. */
+  version: string;
+  /** The first `YYYY-MM-DD` the table vouches for. */
+  coversFrom: string;
+  /** The last `YYYY-MM-DD` the table vouches for; later weekdays are presumed open. */
+  coversThrough: string;
+  /** Closure date (`YYYY-MM-DD`) → the holiday's name. Weekdays only. */
+  closures: Readonly<Record<string, string>>;
+}
+
+/**
+ * NYSE full-day closures, from the exchange's published holiday calendar. Early
+ * closes (the day after Thanksgiving, Christmas Eve) are NOT closures: a close
+ * still prints, so the day is still owed.
+ */
+export const NYSE_HOLIDAYS: HolidayTable = {
+  calendar: "NYSE",
+  version: "2025-2027.1",
+  coversFrom: "2025-01-01",
+  coversThrough: "2027-12-31",
+  closures: {
+    "2025-01-01": "New Year's Day",
+    "2025-01-09": "National Day of Mourning",
+    "2025-01-20": "Martin Luther King Jr. Day",
+    "2025-02-17": "Washington's Birthday",
+    "2025-04-18": "Good Friday",
+    "2025-05-26": "Memorial Day",
+    "2025-06-19": "Juneteenth",
+    "2025-07-04": "Independence Day",
+    "2025-09-01": "Labor Day",
+    "2025-11-27": "Thanksgiving Day",
+    "2025-12-25": "Christmas Day",
+    "2026-01-01": "New Year's Day",
+    "2026-01-19": "Martin Luther King Jr. Day",
+    "2026-02-16": "Washington's Birthday",
+    "2026-04-03": "Good Friday",
+    "2026-05-25": "Memorial Day",
+    "2026-06-19": "Juneteenth",
+    "2026-07-03": "Independence Day (observed)",
+    "2026-09-07": "Labor Day",
+    "2026-11-26": "Thanksgiving Day",
+    "2026-12-25": "Christmas Day",
+    "2027-01-01": "New Year's Day",
+    "2027-01-18": "Martin Luther King Jr. Day",
+    "2027-02-15": "Washington's Birthday",
+    "2027-03-26": "Good Friday",
+    "2027-05-31": "Memorial Day",
+    "2027-06-18": "Juneteenth (observed)",
+    "2027-07-05": "Independence Day (observed)",
+    "2027-09-06": "Labor Day",
+    "2027-11-25": "Thanksgiving Day",
+    "2027-12-24": "Christmas Day (observed)",
+  },
+};
+
+/**
+ * The weekdays Banxico publishes no USD/MXN FIX (SF43718): the Mexican banking
+ * holidays on which the FIX is not determined. The FIX is not a `PriceSource` — it
+ * prices no instrument on its own — so this table is not in {@link VENUE_HOLIDAYS};
+ * it answers which FIX a `*-mxn` derivation should be carrying on a given day.
+ */
+export const BANXICO_FIX_HOLIDAYS: HolidayTable = {
+  calendar: "Banxico",
+  version: "2025-2027.1",
+  coversFrom: "2025-01-01",
+  coversThrough: "2027-12-31",
+  closures: {
+    "2025-01-01": "Año Nuevo",
+    "2025-02-03": "Día de la Constitución",
+    "2025-03-17": "Natalicio de Benito Juárez",
+    "2025-04-17": "Jueves Santo",
+    "2025-04-18": "Viernes Santo",
+    "2025-05-01": "Día del Trabajo",
+    "2025-09-16": "Día de la Independencia",
+    "2025-11-17": "Día de la Revolución",
+    "2025-12-12": "Día de la Virgen de Guadalupe",
+    "2025-12-25": "Navidad",
+    "2026-01-01": "Año Nuevo",
+    "2026-02-02": "Día de la Constitución",
+    "2026-03-16": "Natalicio de Benito Juárez",
+    "2026-04-02": "Jueves Santo",
+    "2026-04-03": "Viernes Santo",
+    "2026-05-01": "Día del Trabajo",
+    "2026-09-16": "Día de la Independencia",
+    "2026-11-02": "Día de Muertos",
+    "2026-11-16": "Día de la Revolución",
+    "2026-12-25": "Navidad",
+    "2027-01-01": "Año Nuevo",
+    "2027-02-01": "Día de la Constitución",
+    "2027-03-15": "Natalicio de Benito Juárez",
+    "2027-03-25": "Jueves Santo",
+    "2027-03-26": "Viernes Santo",
+    "2027-09-16": "Día de la Independencia",
+    "2027-11-02": "Día de Muertos",
+    "2027-11-15": "Día de la Revolución",
+  },
+};
+
+/**
+ * Each price source's holiday table, or `null` for a venue that never closes.
+ * Keyed on the registry's `source` for the reason {@link VENUE_CADENCE} is: both
+ * twelvedata groups — the US equities and the `*-mxn` entries priced off a US
+ * listing — close with the NYSE, and keying on `source` cannot leave one out. The
+ * `satisfies` latch makes a third source state its closures, even if only `null`.
+ */
+export const VENUE_HOLIDAYS = {
+  binance: null,
+  twelvedata: NYSE_HOLIDAYS,
+} as const satisfies Record<PriceSource, HolidayTable | null>;
+
+/**
+ * The holiday's name if `table` lists `asOf` as a closure, else undefined. A date
+ * outside the table's span is never a holiday — see the module note on why that is
+ * the safe direction.
+ */
+export function holidayOn(table: HolidayTable | null, asOf: string): string | undefined {
+  if (table === null || asOf < table.coversFrom || asOf > table.coversThrough) {
+    return undefined;
+  }
+  return table.closures[asOf];
+}
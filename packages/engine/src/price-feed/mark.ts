@@ -13,21 +13,31 @@
  * error, not an ingest-time surprise.
  */
 import type { PriceMarkedEvent } from "../events/types.js";
-import type { PriceSource } from "./registry.js";
+import type { QuoteProvider } from "./registry.js";
 
 /**
  * One row of the disposable price store (`data/prices/<instrumentId>.jsonl`).
  * `asOf` is the trading-day date in the CONFIGURED timezone (never the provider's
  * raw UTC candle day); `price` is the provider close as-is (the v1 no-rounding
  * decision); `fetchedAt` is the ISO instant of the run that observed it.
+ *
+ * `source` and `symbol` name who ACTUALLY served the close — the registry row's
+ * primary source, or the fallback that stood in when it failed — so a quote in the
+ * store can always be traced to the provider it came from.
  */
 export interface Quote {
   instrumentId: string;
   symbol: string;
   asOf: string;
   price: number;
-  source: PriceSource;
+  source: QuoteProvider;
   fetchedAt: string;
+  /**
+   * Set when the consensus check held this close's mark back. The close stays in the
+   * store — every run upserts — but it never becomes the reference a later close is
+   * judged against. Absent on every ordinary row.
+   */
+  consensusHeld?: true;
 }
 
 /**
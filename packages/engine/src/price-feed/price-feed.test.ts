@@ -6,14 +6,18 @@
 // guard using the existing engine reference builder.
 import { describe, expect, it } from "vitest";
 import {
+  CODE_INSTRUMENT_REGISTRY,
   buildEventReference,
   crossReferenceEvent,
+  extendInstrumentRegistry,
   instrumentsForSource,
   isAtOrAfterMarkTime,
+  isFallbackChain,
   markFromQuote,
   mergeInbox,
   parseEvent,
   priceMarkId,
+  registeredAsOf,
   resolveInstrument,
   tradingDayAsOf,
   type FundReviewData,
@@ -48,6 +52,7 @@ describe("instrument registry (R5)", () => {
       symbol: "RENDERUSDT",
       quoteCurrency: "USD",
       source: "binance",
+      fallbacks: [{ provider: "coinbase", symbol: "RENDER-USD" }],
     });
   });
 
@@ -76,6 +81,7 @@ describe("instrument registry (R5)", () => {
       symbol: "AAPL",
       quoteCurrency: "USD",
       source: "twelvedata",
+      fallbacks: [{ provider: "alphavantage", symbol: "AAPL" }],
     });
   });
 
@@ -86,8 +92,52 @@ describe("instrument registry (R5)", () => {
       quoteCurrency: "MXN",
       source: "twelvedata",
       derived: true,
+      fallbacks: [{ provider: "alphavantage", symbol: "EWW" }],
     });
   });
+
+  it("names only fallbacks that stand behind the row's own source", () => {
+    for (const entry of CODE_INSTRUMENT_REGISTRY) {
+      expect(isFallbackChain(entry.fallbacks ?? [], entry.source), entry.instrumentId).toBe(true);
+    }
+    // GRAM is the one row no fallback lists.
+    expect(resolveInstrument("gram").fallbacks).toBeUndefined();
+  });
+});
+
+describe("instrument registry — sidecar additions on top of the code table", () => {
+  const VTI = {
+    instrumentId: "vti",
+    symbol: "VTI",
+    quoteCurrency: "USD",
+    source: "twelvedata",
+    addedAt: "2026-10-01",
+  } as const;
+
+  it("appends an addition after the code table, which every lookup then sees", () => {
+    const registry = extendInstrumentRegistry([VTI]);
+    expect(registry.slice(0, -1)).toEqual(CODE_INSTRUMENT_REGISTRY);
+    expect(resolveInstrument("vti", registry)).toEqual(VTI);
+    expect(instrumentsForSource("twelvedata", registry).at(-1)).toEqual(VTI);
+    expect(() => resolveInstrument("vti")).toThrow(/Unknown instrument id 'vti'/);
+  });
+
+  it("never lets an addition re-point an id already registered", () => {
+    const registry = extendInstrumentRegistry([
+      { ...VTI, instrumentId: "aapl", symbol: "AAPL.MX" },
+      VTI,
+      { ...VTI, symbol: "VEA" },
+    ]);
+    expect(resolveInstrument("aapl", registry).symbol).toBe("AAPL");
+    expect(resolveInstrument("vti", registry).symbol).toBe("VTI");
+    expect(registry).toHaveLength(CODE_INSTRUMENT_REGISTRY.length + 1);
+  });
+
+  it("registers a row from its addedAt on, and the code table from always", () => {
+    const registry = extendInstrumentRegistry([VTI]);
+    expect(registeredAsOf(registry, "2026-09-30")).toEqual(CODE_INSTRUMENT_REGISTRY);
+    expect(registeredAsOf(registry, "2026-10-01")).toEqual(registry);
+  });
 });
 
 describe("deterministic mark id (C2)", () => {
@@ -0,0 +1,144 @@
+// Pure-boundary suite for the price store's row rules. The rows are authored in file
+// order; what is asserted is what a reader of that file sees, before and after
+// compaction.
+import { describe, expect, it } from "vitest";
+import {
+  compactPriceStore,
+  formatIntradayMovement,
+  latestIntradayMovement,
+  parsePriceStoreRows,
+  resolvePriceStore,
+  type IntradayQuote,
+  type PriceStoreRow,
+  type Quote,
+} from "../index.js";
+
+function close(asOf: string, price: number, fetchedAt = `${asOf}T23:00:00.000Z`): Quote {
+  return { instrumentId: "btc", symbol: "BTCUSDT", asOf, price, source: "binance", fetchedAt };
+}
+
+function reading(asOf: string, hour: string, price: number): IntradayQuote {
+  const observedAt = `${asOf}T${hour}:00:00.000Z`;
+  return {
+    instrumentId: "btc",
+    symbol: "BTCUSDT",
+    asOf,
+    price,
+    source: "binance",
+    fetchedAt: observedAt,
+    intraday: true,
+    observedAt,
+  };
+}
+
+describe("resolvePriceStore", () => {
+  it("reads a legacy one-line-per-day file unchanged", () => {
+    const rows = [close("2026-07-01", 100), close("2026-07-02", 101)];
+    expect(resolvePriceStore(rows)).toEqual({ closes: rows, intraday: [] });
+  });
+
+  it("lets the later line win per asOf and per observedAt, and sorts both", () => {
+    const rows: PriceStoreRow[] = [
+      close("2026-07-02", 101),
+      reading("2026-07-02", "14", 99),
+      close("2026-07-01", 100),
+      reading("2026-07-02", "13", 98),
+      reading("2026-07-02", "14", 99.5),
+      { ...close("2026-07-02", 101), consensusHeld: true },
+    ];
+    const { closes, intraday } = resolvePriceStore(rows);
+    expect(closes).toEqual([
+      close("2026-07-01", 100),
+      { ...close("2026-07-02", 101), consensusHeld: true },
+    ]);
+    expect(intraday.map((q) => q.price)).toEqual([98, 99.5]);
+  });
+});
+
+describe("compactPriceStore", () => {
+  it("folds a past day to its close and keeps the current day's readings", () => {
+    const rows: PriceStoreRow[] = [
+      reading("2026-07-01", "13", 98),
+      close("2026-07-01", 100, "2026-07-01T22:00:00.000Z"),
+      reading("2026-07-01", "14", 99),
+      close("2026-07-01", 100.5),
+      reading("2026-07-02", "13", 102),
+      reading("2026-07-02", "14", 103),
+    ];
+    expect(compactPriceStore(rows, "2026-07-02")).toEqual([
+      close("2026-07-01", 100.5),
+      reading("2026-07-02", "13", 102),
+      reading("2026-07-02", "14", 103),
+    ]);
+  });
+
+  it("keeps the last reading of a past day that never got a close", () => {
+    const rows = [reading("2026-07-01", "13", 98), reading("2026-07-01", "14", 99)];
+    expect(compactPriceStore(rows, "2026-07-02")).toEqual([reading("2026-07-01", "14", 99)]);
+  });
+
+  it("is a no-op on a compacted file", () => {
+    const rows = [close("2026-07-01", 100), reading("2026-07-02", "13", 102)];
+    expect(compactPriceStore(compactPriceStore(rows, "2026-07-02"), "2026-07-02")).toEqual(rows);
+  });
+});
+
+describe("parsePriceStoreRows", () => {
+  it("reads the file's lines in order and skips a torn one", () => {
+    const text = [
+      JSON.stringify(close("2026-07-01", 100)),
+      '{"instrumentId":"bt',
+      "",
+      JSON.stringify(reading("2026-07-02", "13", 102)),
+      "",
+    ].join("\n");
+    expect(parsePriceStoreRows(text)).toEqual([
+      close("2026-07-01", 100),
+      reading("2026-07-02", "13", 102),
+    ]);
+  });
+});
+
+describe("latestIntradayMovement", () => {
+  it("weighs the latest reading against the last close of an earlier day", () => {
+    const store = resolvePriceStore([
+      close("2026-07-01", 100),
+      close("2026-07-02", 80),
+      reading("2026-07-02", "13", 82),
+      reading("2026-07-03", "09", 90),
+      reading("2026-07-03", "10", 88),
+    ]);
+    const movement = latestIntradayMovement(store);
+    expect(movement).toMatchObject({
+      symbol: "BTCUSDT",
+      price: 88,
+      observedAt: "2026-07-03T10:00:00.000Z",
+      priorClose: { asOf: "2026-07-02", price: 80 },
+    });
+    expect(movement?.changePct).toBeCloseTo(10);
+  });
+
+  it("never weighs a reading against its own day's close", () => {
+    const store = resolvePriceStore([close("2026-07-02", 80), reading("2026-07-02", "13", 82)]);
+    const movement = latestIntradayMovement(store);
+    expect(movement?.price).toBe(82);
+    expect(movement).not.toHaveProperty("priorClose");
+    expect(movement).not.toHaveProperty("changePct");
+  });
+
+  it("reports no movement for a store the hourly job never wrote", () => {
+    expect(latestIntradayMovement(resolvePriceStore([close("2026-07-01", 100)]))).toBeUndefined();
+  });
+});
+
+describe("formatIntradayMovement", () => {
+  it("renders nothing without a reading, and a change beside each that has a prior close", () => {
+    expect(formatIntradayMovement([])).toBe("");
+    const store = resolvePriceStore([close("2026-07-02", 80), reading("2026-07-03", "10", 88)]);
+    const movement = latestIntradayMovement(store);
+    if (movement === undefined) throw new Error("expected a movement");
+    const text = formatIntradayMovement([movement]);
+    expect(text).toContain("Intraday Movement");
+    expect(text).toMatch(/BTCUSDT\s+88\s+80\s+\+10\.0%\s+2026-07-03T10:00:00\.000Z/);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * THE PRICE STORE'S ROW RULES — pure, so every reader of `data/prices/<id>.jsonl`
+ * resolves the same file to the same quotes (ADR-005's disposable plane).
+ *
+ * The store is APPEND-ONLY: every fetch adds a line and nothing is rewritten in
+ * place, so an hourly cadence costs one line per fetch rather than a whole-file
+ * rewrite. A file therefore holds two kinds of row, and superseded copies of both:
+ *
+ *  - a daily CLOSE ({@link Quote}) — the row a mark is built from, latest line wins
+ *    per `asOf`, exactly as the old one-line-per-day upsert resolved;
+ *  - an INTRADAY reading ({@link IntradayQuote}) — a settled intraday candle's close,
+ *    latest line wins per `observedAt`. It never becomes a mark: the Mark Cadence is
+ *    one `PriceMarked` per trading day, and an intraday row is movement, not a close.
+ *
+ * COMPACTION folds a file back to what it resolves to, and folds every PAST trading
+ * day down to its daily close: its intraday rows are dropped once the day has one.
+ * A past day that never got a close keeps its last intraday reading — the nearest
+ * thing to a close the store ever saw. The current day keeps all of its rows.
+ */
+import type { Quote } from "./mark.js";
+
+/**
+ * One intraday row: the close of one settled intraday candle. `asOf` is the trading
+ * day (configured timezone) the candle closed in; `observedAt` is the ISO instant it
+ * closed, which is what orders and dedups the day's readings.
+ */
+export interface IntradayQuote extends Omit<Quote, "consensusHeld"> {
+  intraday: true;
+  observedAt: string;
+}
+
+/** Any line of a price-store file. */
+export type PriceStoreRow = Quote | IntradayQuote;
+
+/** A price-store file resolved: its closes and its intraday readings, oldest first. */
+export interface ResolvedPriceStore {
+  closes: Quote[];
+  intraday: IntradayQuote[];
+}
+
+/** Whether a store row is an intraday reading rather than a daily close. */
+export function isIntradayQuote(row: PriceStoreRow): row is IntradayQuote {
+  return "intraday" in row && row.intraday === true;
+}
+
+/**
+ * Resolve a file's rows, in FILE ORDER, to what it says: one close per `asOf` and
+ * one intraday reading per `observedAt`, the later line winning either way.
+ */
+export function resolvePriceStore(rows: readonly PriceStoreRow[]): ResolvedPriceStore {
+  const closes = new Map<string, Quote>();
+  const intraday = new Map<string, IntradayQuote>();
+  for (const row of rows) {
+    if (isIntradayQuote(row)) {
+      intraday.set(row.observedAt, row);
+    } else {
+      closes.set(row.asOf, row);
+    }
+  }
+  return {
+    closes: [...closes.values()].sort((a, b) => a.asOf.localeCompare(b.asOf)),
+    intraday: [...intraday.values()].sort((a, b) => a.observedAt.localeCompare(b.observedAt)),
+  };
+}
+
+/**
+ * The rows a compacted file holds, oldest trading day first: each close, and the
+ * intraday readings of `currentAsOf` and later. An earlier day's readings collapse
+ * to its close, or — with no close — to its last reading. Compacting a compacted
+ * file is a no-op.
+ */
+export function compactPriceStore(
+  rows: readonly PriceStoreRow[],
+  currentAsOf: string,
+): PriceStoreRow[] {
+  const { closes, intraday } = resolvePriceStore(rows);
+  const closedDays = new Set(closes.map((quote) => quote.asOf));
+  const lastReading = new Map<string, IntradayQuote>();
+  for (const reading of intraday) lastReading.set(reading.asOf, reading);
+  const kept = intraday.filter(
+    (reading) =>
+      reading.asOf >= currentAsOf ||
+      (!closedDays.has(reading.asOf) && lastReading.get(reading.asOf) === reading),
+  );
+  // A day's close first, then its readings in order — `sort` is stable, and the
+  // closes lead the concatenation.
+  return [...closes, ...kept].sort((a, b) => a.asOf.localeCompare(b.asOf));
+}
+
+/**
+ * A store file's text as rows, in file order. A line that is not JSON is a torn append
+ * — the run that wrote it died mid-line — and is skipped: the store is disposable, and
+ * the next fetch writes that reading again.
+ */
+export function parsePriceStoreRows(text: string): PriceStoreRow[] {
+  return text
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as PriceStoreRow];
+      } catch {
+        return [];
+      }
+    });
+}
+
+/**
+ * How far one instrument has moved since the last close: its latest intraday reading
+ * against the latest close of an EARLIER trading day. Never a mark and never NAV — the
+ * fold still values the position at its last `PriceMarked` — only what a surface shows
+ * beside it.
+ */
+export interface IntradayMovement {
+  instrumentId: string;
+  symbol: string;
+  /** The latest reading, and the instant its candle closed. */
+  price: number;
+  observedAt: string;
+  /** The close it is weighed against; absent when the store holds none before it. */
+  priorClose?: { asOf: string; price: number };
+  /** `(price / priorClose.price − 1) × 100`; present exactly when `priorClose` is. */
+  changePct?: number;
+}
+
+/**
+ * The movement a resolved store shows, or `undefined` when it holds no intraday reading
+ * — a store only the daily job ever wrote has no movement to report, not a flat one.
+ */
+export function latestIntradayMovement(store: ResolvedPriceStore): IntradayMovement | undefined {
+  const latest = store.intraday.at(-1);
+  if (latest === undefined) {
+    return undefined;
+  }
+  // The reading's own day's close is not "prior": a close stored for the reading's day
+  // was fetched at or after the mark time, and the reading moves against yesterday.
+  const priorClose = store.closes.filter((quote) => quote.asOf < latest.asOf).at(-1);
+  return {
+    instrumentId: latest.instrumentId,
+    symbol: latest.symbol,
+    price: latest.price,
+    observedAt: latest.observedAt,
+    ...(priorClose !== undefined && priorClose.price > 0
+      ? {
+          priorClose: { asOf: priorClose.asOf, price: priorClose.price },
+          changePct: (latest.price / priorClose.price - 1) * 100,
+        }
+      : {}),
+  };
+}
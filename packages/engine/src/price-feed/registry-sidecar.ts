@@ -0,0 +1,159 @@
+/**
+ * The `instruments.jsonl` RECORD CONTRACT — the pure half of the instrument registry
+ * sidecar.
+ *
+ * One line adds one instrument on top of the code table in `registry.ts`: the same
+ * `instrumentId ↔ symbol ↔ quoteCurrency ↔ source` row, plus the day it was added.
+ * It exists so a new ETF on a venue the feed already speaks to is a line in the data
+ * dir rather than a release.
+ *
+ * APPEND-ONLY, AND IT CAN ONLY ADD. A line naming an id the code table or an earlier
+ * line already registered is SKIPPED and reported, never merged — re-pointing `aapl`
+ * at another symbol would quietly rewrite what every past mark of it meant. Removing
+ * an instrument is not a line either: a retired instrument keeps its row, and the
+ * gap report already buckets marks nobody can place.
+ *
+ * This module is PURE (ADR-001): the row predicates and the read-side shapes. The file
+ * IO — the path, the total loader — lives in `@numisma/event-store`
+ * (`instrument-registry-io.ts`), the one package every consumer of the registry
+ * already depends on: the fetch, the gap report, the TUI and the push.
+ */
+import type { Currency, LoadOutcome } from "../contracts.js";
+import { isSupportedCurrency } from "../internal.js";
+import {
+  FALLBACK_PROVIDER_SOURCE,
+  type FallbackQuoteSource,
+  type InstrumentRegistry,
+  type InstrumentRegistryEntry,
+  type PriceSource,
+} from "./registry.js";
+import { PRICE_SOURCES } from "./venue-calendar.js";
+
+/** One line of `instruments.jsonl`, as WRITTEN: a registry row that must say when. */
+export type InstrumentRegistryAddition = InstrumentRegistryEntry & {
+  addedAt: NonNullable<InstrumentRegistryEntry["addedAt"]>;
+};
+
+/** One line as READ: the loader stamps its 1-based line number. */
+export type LoadedInstrumentRegistryAddition = InstrumentRegistryAddition & { line: number };
+
+/**
+ * Why a line was skipped — a CLOSED vocabulary naming the field that failed. The
+ * file is the operator's own; a diagnostic names the field, not the value.
+ */
+export type InstrumentRegistrySkipReason =
+  | "not-json"
+  | "not-an-object"
+  | "instrument-id"
+  | "symbol"
+  | "quote-currency"
+  | "source"
+  | "derived"
+  | "fallbacks"
+  | "added-at"
+  | "already-registered";
+
+/** One line the loader could not add, REPORTED rather than swallowed. */
+export interface SkippedInstrumentRegistryLine {
+  /** 1-based, so the operator can go look at it. */
+  line: number;
+  reason: InstrumentRegistrySkipReason;
+  /** Fixed prose. Never interpolates file content. */
+  detail: string;
+}
+
+/**
+ * The loader's TOTAL outcome, on the terms `LoadedJournal` states: a missing file is
+ * `loaded` with no additions (the code table alone), any other read error is
+ * `load-failed`, and every discarded line is one `skipped` record.
+ *
+ * `registry` is always present and always usable — the code table extended by the
+ * additions that passed — so a caller that degrades rather than refuses has nothing
+ * to assemble. A caller that must not run on a partial registry checks `load`.
+ */
+export interface LoadedInstrumentRegistry {
+  load: LoadOutcome;
+  additions: LoadedInstrumentRegistryAddition[];
+  skipped: SkippedInstrumentRegistryLine[];
+  registry: InstrumentRegistry;
+}
+
+/** Whether a wire value names a {@link PriceSource} — one the venue calendar knows. */
+export function isPriceSource(value: unknown): value is PriceSource {
+  return (PRICE_SOURCES as readonly unknown[]).includes(value);
+}
+
+/** Whether a wire value names a {@link Currency} a mark can be denominated in. */
+export function isMarkCurrency(value: unknown): value is Currency {
+  return isSupportedCurrency(value);
+}
+
+/**
+ * Whether `value` can be an `instrumentId`: lowercase letters, digits and hyphens,
+ * the shape every code-table id already has. It becomes part of every mark's id
+ * (`pm-<instrumentId>-<asOf>`) and a price-store file name, so nothing else is let in.
+ */
+export function isInstrumentId(value: unknown): value is string {
+  return typeof value === "string" && /^[a-z0-9][a-z0-9-]{0,39}$/.test(value);
+}
+
+/**
+ * Whether `value` can be a provider `symbol`: uppercase letters, digits, `.`, `-`
+ * and `/`. No comma and no space — Twelve Data takes a batch as ONE comma-separated
+ * `symbol=` parameter, so a comma would split one row into two requests.
+ */
+export function isProviderSymbol(value: unknown): value is string {
+  return typeof value === "string" && /^[A-Z0-9][A-Z0-9./-]{0,19}$/.test(value);
+}
+
+/**
+ * Whether `derived`, `quoteCurrency` and `source` agree. A derived row is an MXN mark
+ * built as `USD close × FIX` from a Twelve Data listing (ADR-005); a direct row is
+ * quoted by its provider in the listing's own currency — USD anywhere, or another
+ * currency from a Twelve Data listing on its home venue (a EUR-listed ETF). A direct
+ * MXN row is refused: it is a derived row with `derived` left off, and would mark a
+ * USD close as pesos. Any other combination would be marked in a currency no
+ * provider returns.
+ */
+export function isCoherentDerivation(
+  derived: boolean,
+  quoteCurrency: Currency,
+  source: PriceSource,
+): boolean {
+  if (derived) return quoteCurrency === "MXN" && source === "twelvedata";
+  return quoteCurrency === "USD" || (quoteCurrency !== "MXN" && source === "twelvedata");
+}
+
+/**
+ * Whether `value` is a usable `fallbacks` list for a row served by `source`: an
+ * array of `{ provider, symbol }` where every provider stands behind `source`
+ * ({@link FALLBACK_PROVIDER_SOURCE}) and appears once. Coinbase behind a Twelve Data
+ * row would be asked for an equity it does not list — and, worse, quote a UTC
+ * candle where the row's calendar expects a session close.
+ */
+export function isFallbackChain(
+  value: unknown,
+  source: PriceSource,
+): value is readonly FallbackQuoteSource[] {
+  if (!Array.isArray(value)) {
+    return false;
+  }
+  const providers = new Set<unknown>();
+  for (const item of value as unknown[]) {
+    if (typeof item !== "object" || item === null) {
+      return false;
+    }
+    const { provider, symbol } = item as Record<string, unknown>;
+    if (
+      typeof provider !== "string" ||
+      !Object.hasOwn(FALLBACK_PROVIDER_SOURCE, provider) ||
+      FALLBACK_PROVIDER_SOURCE[provider as keyof typeof FALLBACK_PROVIDER_SOURCE] !== source ||
+      providers.has(provider) ||
+      !isProviderSymbol(symbol)
+    ) {
+      return false;
+    }
+    providers.add(provider);
+  }
+  return true;
+}
@@ -4,14 +4,23 @@
  * `symbol`, the `quoteCurrency` that symbol is denominated in, and the `source`
  * that serves it. It replaces the prototype's loose const `SYMBOL_MAP`.
  *
- * This is CODE-OWNED reference data (ADR-005 / ADR-001): it changes when a
- * provider integration is added, not when trader policy changes, so it lives in
+ * The table below is CODE-OWNED reference data (ADR-005 / ADR-001): it changes when
+ * a provider integration is added, not when trader policy changes, so it lives in
  * the pure engine — not the ADR-004 preferences sidecar. `crossReferenceMark`'s
  * genesis-existence gate stays the runtime backstop; this registry is the
  * fetch-time backstop, failing loud on an unknown id rather than silently
  * skipping an instrument.
+ *
+ * A NEW INSTRUMENT ON AN EXISTING SOURCE IS DATA, NOT A RELEASE. The optional
+ * `instruments.jsonl` sidecar (contract in `registry-sidecar.ts`, read by
+ * `@numisma/event-store`) may ADD rows on top of the code table — never replace or
+ * remove one. {@link extendInstrumentRegistry} is the one composition, and every
+ * lookup here takes the composed registry, defaulting to the code table, so a
+ * caller that never loads the sidecar behaves exactly as before. A new SOURCE is
+ * still code: it needs a provider, a cadence and a holiday table.
  */
 import type { Currency } from "../contracts.js";
+import type { IsoDate } from "../plans.js";
 
 /**
  * Every price data source the registry can resolve an instrument to. `twelvedata`
@@ -21,6 +30,35 @@ import type { Currency } from "../contracts.js";
  */
 export type PriceSource = "binance" | "twelvedata";
 
+/**
+ * A provider that serves a row only when its primary `source` fails: Coinbase
+ * Exchange (crypto, keyless) behind Binance, Alpha Vantage (US equities, free key)
+ * behind Twelve Data. NOT a {@link PriceSource}: a fallback has no venue of its own —
+ * it quotes the same market on the same calendar as the source it stands behind, so
+ * the cadence, the holiday tables and the gap report's attribution all stay keyed by
+ * the row's `source`.
+ */
+export type FallbackProvider = "coinbase" | "alphavantage";
+
+/** Whoever actually served a quote: the row's primary source, or one of its fallbacks. */
+export type QuoteProvider = PriceSource | FallbackProvider;
+
+/**
+ * The source each fallback provider can stand behind. A fallback quotes the same
+ * bars as its primary — a UTC daily candle for crypto, an exchange-session close for
+ * equities — which is what lets the bar-date freshness gate treat either alike.
+ */
+export const FALLBACK_PROVIDER_SOURCE: Readonly<Record<FallbackProvider, PriceSource>> = {
+  coinbase: "binance",
+  alphavantage: "twelvedata",
+};
+
+/** One fallback for a row: the provider to ask, and that provider's own symbol. */
+export interface FallbackQuoteSource {
+  provider: FallbackProvider;
+  symbol: string;
+}
+
 /**
  * One registry row: a genesis `instrumentId` bound to the provider `symbol` that
  * quotes it, the `quoteCurrency` the resulting MARK is denominated in, and the
@@ -43,16 +81,43 @@ export interface InstrumentRegistryEntry {
    * approximation (ADR-005), not a provider quote. Absent/false = direct quote.
    */
   derived?: boolean;
+  /**
+   * Providers to try, IN ORDER, when `source` fails for this row. Absent or empty
+   * means the primary is the only source and its failure is the row's failure. Each
+   * provider must stand behind this row's `source` ({@link FALLBACK_PROVIDER_SOURCE}).
+   */
+  fallbacks?: readonly FallbackQuoteSource[];
+  /**
+   * The day a sidecar row was added. Absent on every code-table row, which has been
+   * registered since before the log began. Surfaces that judge a PAST day ask
+   * {@link registeredAsOf} so an instrument is never owed before it existed.
+   */
+  addedAt?: IsoDate;
 }
 
+/** A composed registry: the code table, then any sidecar additions, in order. */
+export type InstrumentRegistry = readonly InstrumentRegistryEntry[];
+
+/** A row's Coinbase Exchange fallback, by its `BASE-USD` product id. */
+const coinbase = (symbol: string): readonly FallbackQuoteSource[] => [
+  { provider: "coinbase", symbol },
+];
+
+/** A row's Alpha Vantage fallback — the same US ticker Twelve Data quotes. */
+const alphavantage = (symbol: string): readonly FallbackQuoteSource[] => [
+  { provider: "alphavantage", symbol },
+];
+
 /**
  * Crypto rows served by Binance public REST (keyless). GRAM is ex-TON; the
  * `GRAMUSDT` / `RENDERUSDT` symbols were verified live on Binance 2026-07-03.
+ * Coinbase Exchange stands behind every row it lists; it does not list GRAM, so a
+ * Binance outage still costs that one mark.
  */
 const CRYPTO_ENTRIES: readonly InstrumentRegistryEntry[] = [
-  { instrumentId: "btc", symbol: "BTCUSDT", quoteCurrency: "USD", source: "binance" },
-  { instrumentId: "eth", symbol: "ETHUSDT", quoteCurrency: "USD", source: "binance" },
-  { instrumentId: "render", symbol: "RENDERUSDT", quoteCurrency: "USD", source: "binance" },
+  { instrumentId: "btc", symbol: "BTCUSDT", quoteCurrency: "USD", source: "binance", fallbacks: coinbase("BTC-USD") },
+  { instrumentId: "eth", symbol: "ETHUSDT", quoteCurrency: "USD", source: "binance", fallbacks: coinbase("ETH-USD") },
+  { instrumentId: "render", symbol: "RENDERUSDT", quoteCurrency: "USD", source: "binance", fallbacks: coinbase("RENDER-USD") },
   { instrumentId: "gram", symbol: "GRAMUSDT", quoteCurrency: "USD", source: "binance" },
 ];
 
@@ -69,11 +134,15 @@ const CRYPTO_ENTRIES: readonly InstrumentRegistryEntry[] = [
  * `/time_series` request (see `fetchTwelveDataDailyCloses`). Twelve Data's
  * `/time_series?interval=1day` returns a daily OHLC row that maps cleanly onto the
  * same `ProviderObservation` shape the Binance kline already produces.
+ *
+ * Alpha Vantage comes back as the FALLBACK, where its cap stops mattering: it is
+ * asked only for the symbols Twelve Data failed on, one request each, so a full
+ * Twelve Data outage spends 9 of its 25 daily requests.
  */
 const EQUITY_ENTRIES: readonly InstrumentRegistryEntry[] = [
-  { instrumentId: "aapl", symbol: "AAPL", quoteCurrency: "USD", source: "twelvedata" },
-  { instrumentId: "googl", symbol: "GOOGL", quoteCurrency: "USD", source: "twelvedata" },
-  { instrumentId: "tsla", symbol: "TSLA", quoteCurrency: "USD", source: "twelvedata" },
+  { instrumentId: "aapl", symbol: "AAPL", quoteCurrency: "USD", source: "twelvedata", fallbacks: alphavantage("AAPL") },
+  { instrumentId: "googl", symbol: "GOOGL", quoteCurrency: "USD", source: "twelvedata", fallbacks: alphavantage("GOOGL") },
+  { instrumentId: "tsla", symbol: "TSLA", quoteCurrency: "USD", source: "twelvedata", fallbacks: alphavantage("TSLA") },
 ];
 
 /**
@@ -83,24 +152,61 @@ const EQUITY_ENTRIES: readonly InstrumentRegistryEntry[] = [
  * honesty). The FIX is the Banxico SF43718 USD/MXN rate.
  */
 const MXN_DERIVED_ENTRIES: readonly InstrumentRegistryEntry[] = [
-  { instrumentId: "eww-mxn", symbol: "EWW", quoteCurrency: "MXN", source: "twelvedata", derived: true },
-  { instrumentId: "intc-mxn", symbol: "INTC", quoteCurrency: "MXN", source: "twelvedata", derived: true },
-  { instrumentId: "nke-mxn", symbol: "NKE", quoteCurrency: "MXN", source: "twelvedata", derived: true },
-  { instrumentId: "nu-mxn", symbol: "NU", quoteCurrency: "MXN", source: "twelvedata", derived: true },
-  { instrumentId: "rivn-mxn", symbol: "RIVN", quoteCurrency: "MXN", source: "twelvedata", derived: true },
-  { instrumentId: "sbux-mxn", symbol: "SBUX", quoteCurrency: "MXN", source: "twelvedata", derived: true },
+  { instrumentId: "eww-mxn", symbol: "EWW", quoteCurrency: "MXN", source: "twelvedata", derived: true, fallbacks: alphavantage("EWW") },
+  { instrumentId: "intc-mxn", symbol: "INTC", quoteCurrency: "MXN", source: "twelvedata", derived: true, fallbacks: alphavantage("INTC") },
+  { instrumentId: "nke-mxn", symbol: "NKE", quoteCurrency: "MXN", source: "twelvedata", derived: true, fallbacks: alphavantage("NKE") },
+  { instrumentId: "nu-mxn", symbol: "NU", quoteCurrency: "MXN", source: "twelvedata", derived: true, fallbacks: alphavantage("NU") },
+  { instrumentId: "rivn-mxn", symbol: "RIVN", quoteCurrency: "MXN", source: "twelvedata", derived: true, fallbacks: alphavantage("RIVN") },
+  { instrumentId: "sbux-mxn", symbol: "SBUX", quoteCurrency: "MXN", source: "twelvedata", derived: true, fallbacks: alphavantage("SBUX") },
+];
+
+/**
+ * The code table — the registry every caller gets when it passes none, and the base
+ * every sidecar extends.
+ */
+export const CODE_INSTRUMENT_REGISTRY: InstrumentRegistry = [
+  ...CRYPTO_ENTRIES,
+  ...EQUITY_ENTRIES,
+  ...MXN_DERIVED_ENTRIES,
 ];
 
-const REGISTRY: ReadonlyMap<string, InstrumentRegistryEntry> = new Map(
-  [...CRYPTO_ENTRIES, ...EQUITY_ENTRIES, ...MXN_DERIVED_ENTRIES].map((entry) => [
-    entry.instrumentId,
-    entry,
-  ]),
-);
+/**
+ * `base` plus `additions`, appended in order. An addition whose `instrumentId` is
+ * already registered is DROPPED, never merged: the first row for an id is the row,
+ * so a sidecar line can add an instrument but cannot re-point one the code table,
+ * or an earlier line, already owns. The sidecar loader reports such a line before
+ * it gets here; this rule is what keeps the composition safe for any other caller.
+ */
+export function extendInstrumentRegistry(
+  additions: readonly InstrumentRegistryEntry[],
+  base: InstrumentRegistry = CODE_INSTRUMENT_REGISTRY,
+): InstrumentRegistry {
+  const seen = new Set(base.map((entry) => entry.instrumentId));
+  const added = additions.filter((entry) => {
+    if (seen.has(entry.instrumentId)) {
+      return false;
+    }
+    seen.add(entry.instrumentId);
+    return true;
+  });
+  return [...base, ...added];
+}
+
+/**
+ * The rows registered on `asOf`: every code-table row, and each sidecar row whose
+ * `addedAt` is on or before it. What a surface judging a past day expects — an ETF
+ * bought in October is not a missing mark on an August anchor.
+ */
+export function registeredAsOf(registry: InstrumentRegistry, asOf: string): InstrumentRegistry {
+  return registry.filter((entry) => entry.addedAt === undefined || entry.addedAt <= asOf);
+}
 
 /** Every registered instrument served by the given `source` (fetch loop input). */
-export function instrumentsForSource(source: PriceSource): InstrumentRegistryEntry[] {
-  return [...REGISTRY.values()].filter((entry) => entry.source === source);
+export function instrumentsForSource(
+  source: PriceSource,
+  registry: InstrumentRegistry = CODE_INSTRUMENT_REGISTRY,
+): InstrumentRegistryEntry[] {
+  return registry.filter((entry) => entry.source === source);
 }
 
 /**
@@ -108,13 +214,16 @@ export function instrumentsForSource(source: PriceSource): InstrumentRegistryEnt
  * id is a registry omission, never a silent skip: the fetch orchestrator surfaces
  * it as an attributable failure, and `crossReferenceMark` remains the second gate.
  */
-export function resolveInstrument(instrumentId: string): InstrumentRegistryEntry {
-  const entry = REGISTRY.get(instrumentId);
+export function resolveInstrument(
+  instrumentId: string,
+  registry: InstrumentRegistry = CODE_INSTRUMENT_REGISTRY,
+): InstrumentRegistryEntry {
+  const entry = registry.find((row) => row.instrumentId === instrumentId);
   if (!entry) {
     throw new Error(
       `Unknown instrument id '${instrumentId}': it has no row in the price-feed ` +
         `instrument registry. Add one (instrumentId ↔ provider symbol ↔ quote ` +
-        `currency ↔ source) before fetching it.`,
+        `currency ↔ source) to instruments.jsonl before fetching it.`,
     );
   }
   return entry;
@@ -0,0 +1,99 @@
+// Pure-boundary suite for the venue calendar and its holiday tables (#266 D7). No
+// data files: it pins the carry-back over weekends AND listed closures, the safe
+// direction outside a table's span, and the table invariants a hand edit can break.
+import { describe, expect, it } from "vitest";
+import {
+  BANXICO_FIX_HOLIDAYS,
+  NYSE_HOLIDAYS,
+  PRICE_SOURCES,
+  VENUE_HOLIDAYS,
+  holidayOn,
+  isWeekend,
+  lastExpectedFixDate,
+  lastExpectedMarkDate,
+  owesMarkOn,
+  type HolidayTable,
+} from "../index.js";
+
+describe("lastExpectedMarkDate — weekends and the venue's listed holidays", () => {
+  const cases: { asOf: string; expected: string; why: string }[] = [
+    { asOf: "2026-04-03", expected: "2026-04-02", why: "Good Friday carries Thursday" },
+    { asOf: "2026-04-05", expected: "2026-04-02", why: "the weekend after it walks past it" },
+    { asOf: "2026-04-06", expected: "2026-04-06", why: "the Monday after owes itself" },
+    { asOf: "2026-07-05", expected: "2026-07-02", why: "observed Independence Day" },
+    { asOf: "2026-01-19", expected: "2026-01-16", why: "a holiday Monday carries Friday" },
+    { asOf: "2026-11-27", expected: "2026-11-27", why: "an early close still prints" },
+  ];
+
+  for (const { asOf, expected, why } of cases) {
+    it(`twelvedata on ${asOf} expects ${expected} — ${why}`, () => {
+      expect(lastExpectedMarkDate("twelvedata", asOf)).toBe(expected);
+    });
+  }
+
+  it("never carries a daily venue back, holiday or not", () => {
+    expect(lastExpectedMarkDate("binance", "2026-12-25")).toBe("2026-12-25");
+    expect(owesMarkOn("binance", "2026-12-25")).toBe(true);
+  });
+
+  it("owesMarkOn agrees: a listed NYSE closure is not owed", () => {
+    expect(owesMarkOn("twelvedata", "2026-12-25")).toBe(false);
+    expect(owesMarkOn("twelvedata", "2026-12-24")).toBe(true);
+  });
+
+  it("presumes a weekday OPEN past the table's span — the false yes, never the false no", () => {
+    // 2028-07-04 is a Tuesday and surely a closure; nobody has entered 2028 yet, so
+    // it is owed. Listing it by rule would be a table vouching for a year it never read.
+    expect(NYSE_HOLIDAYS.coversThrough < "2028-07-04").toBe(true);
+    expect(owesMarkOn("twelvedata", "2028-07-04")).toBe(true);
+  });
+});
+
+describe("lastExpectedFixDate — the Banxico FIX calendar, not the NYSE's", () => {
+  it("carries a Mexican holiday the NYSE traded through back to the last FIX", () => {
+    // Wed 2026-09-16: NYSE open, no FIX. The `*-mxn` mark for the day carries the 15th's.
+    expect(owesMarkOn("twelvedata", "2026-09-16")).toBe(true);
+    expect(lastExpectedFixDate("2026-09-16")).toBe("2026-09-15");
+  });
+
+  it("walks Holy Thursday, Good Friday and the weekend back to Wednesday", () => {
+    expect(lastExpectedFixDate("2026-04-05")).toBe("2026-04-01");
+  });
+
+  it("publishes on a US holiday that is not a Mexican one", () => {
+    expect(lastExpectedFixDate("2026-07-03")).toBe("2026-07-03");
+  });
+});
+
+describe("holidayOn", () => {
+  it("names a listed closure and nothing else", () => {
+    expect(holidayOn(NYSE_HOLIDAYS, "2026-04-03")).toBe("Good Friday");
+    expect(holidayOn(NYSE_HOLIDAYS, "2026-04-02")).toBeUndefined();
+    expect(holidayOn(null, "2026-04-03")).toBeUndefined();
+  });
+
+  it("ignores a date outside the span even if the table lists it", () => {
+    const table: HolidayTable = {
+      ...NYSE_HOLIDAYS,
+      coversThrough: "2025-12-31",
+    };
+    expect(holidayOn(table, "2026-04-03")).toBeUndefined();
+  });
+});
+
+describe("the holiday tables — invariants a hand edit can break", () => {
+  const tables = [NYSE_HOLIDAYS, BANXICO_FIX_HOLIDAYS];
+
+  for (const table of tables) {
+    it(`${table.calendar} lists weekdays only, all inside its span`, () => {
+      for (const date of Object.keys(table.closures)) {
+        expect(isWeekend(date), `${table.calendar} lists weekend ${date}`).toBe(false);
+        expect(date >= table.coversFrom && date <= table.coversThrough).toBe(true);
+      }
+    });
+  }
+
+  it("states a table, or null, for every price source", () => {
+    expect(Object.keys(VENUE_HOLIDAYS).sort()).toEqual([...PRICE_SOURCES].sort());
+  });
+});
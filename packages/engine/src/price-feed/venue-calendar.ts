@@ -22,15 +22,18 @@
  * ADR-001 is not in the way: it keeps FILE IO out of the engine, and this is pure
  * data and pure date math.
  *
- * NAMED BLIND SPOT — NO HOLIDAY AWARENESS (#266 D7). `lastExpectedMarkDate` walks
- * back over weekends and nothing else, so a US market holiday falling on a weekday
- * is still a day a weekday venue is expected to mark on. That is accepted, in both
- * consumers, because the failure direction is the safe one: a false *yes* costs a
- * glance, and a false *no* is the one failure a triage surface cannot have. Every
- * surface that renders this expectation is required to say so in its own message,
- * so a holiday reads as a holiday.
+ * HOLIDAYS (#266 D7). `lastExpectedMarkDate` walks back over weekends AND over the
+ * closures in the source's holiday table (`holidays.ts`), so a scheduled NYSE
+ * holiday is no longer a day a weekday venue owes a mark — on the glance, the gap
+ * report and the operator notice at once, because all of them ask here. Before the
+ * tables, the walk skipped weekends only and every surface carried the ~9-10 false
+ * expectations a year in its own message. The sentences stay: outside a table's
+ * span, or on an unscheduled closure, the failure direction is still the safe one —
+ * a false *yes* costs a glance, and a false *no* is the one failure a triage surface
+ * cannot have.
  */
 import { addDays, isWeekend } from "../calendar.js";
+import { BANXICO_FIX_HOLIDAYS, holidayOn, VENUE_HOLIDAYS, type HolidayTable } from "./holidays.js";
 import type { PriceSource } from "./registry.js";
 
 /** How often a venue is expected to produce a mark. */
@@ -77,13 +80,39 @@ export const PRICE_SOURCES = Object.keys(VENUE_CADENCE) as readonly PriceSource[
  * instrument is not "did you quote today" but "is your newest mark at least as recent
  * as the last mark you owed me". The weekend walk is bounded by a guard rather than
  * unbounded, so a malformed anchor cannot spin.
+ *
+ * The walk also steps back over the source's listed holidays, so the Monday after a
+ * Good Friday expects Thursday's close, not Friday's.
  */
 export function lastExpectedMarkDate(source: PriceSource, asOf: string): string {
   if (VENUE_CADENCE[source] === "daily") {
     return asOf;
   }
+  return lastWorkingDay(VENUE_HOLIDAYS[source], asOf);
+}
+
+/**
+ * The most recent date <= `asOf` on which Banxico was expected to publish the
+ * USD/MXN FIX: the same walk over weekends and {@link BANXICO_FIX_HOLIDAYS}. A
+ * `*-mxn` mark for a Mexican banking holiday the NYSE traded through carries the
+ * FIX of this day, not a FIX dated the holiday itself, which does not exist.
+ */
+export function lastExpectedFixDate(asOf: string): string {
+  return lastWorkingDay(BANXICO_FIX_HOLIDAYS, asOf);
+}
+
+/**
+ * Walk back from `asOf` over weekends and `table`'s closures. The guard bounds the
+ * longest run either calendar can produce — a holiday weekend is four days, a Holy
+ * Thursday and Good Friday before a weekend is four — with room to spare.
+ */
+function lastWorkingDay(table: HolidayTable | null, asOf: string): string {
   let cursor = asOf;
-  for (let guard = 0; guard < 10 && isWeekend(cursor); guard += 1) {
+  for (
+    let guard = 0;
+    guard < 10 && (isWeekend(cursor) || holidayOn(table, cursor) !== undefined);
+    guard += 1
+  ) {
     cursor = addDays(cursor, -1);
   }
   return cursor;
@@ -94,8 +123,8 @@ export function lastExpectedMarkDate(source: PriceSource, asOf: string): string
  *
  * The same question {@link lastExpectedMarkDate} answers, asked the other way
  * round, and DERIVED from it rather than re-deciding it — a second `isWeekend`
- * test here is exactly the divergence this module exists to prevent. A daily venue
- * owes every day; a weekday venue owes a day it does not carry back off.
+ * or holiday test here is exactly the divergence this module exists to prevent. A
+ * daily venue owes every day; a weekday venue owes a day it does not carry back off.
  */
 export function owesMarkOn(source: PriceSource, asOf: string): boolean {
   return lastExpectedMarkDate(source, asOf) === asOf;
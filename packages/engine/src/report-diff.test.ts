@@ -0,0 +1,115 @@
+// Behavior locks for `diffCompositionReports`: rows appear, vanish or move per section,
+// a row that did not move is left out, closed-book rows booked in between and newly
+// crossed invalidation levels are listed, and Reserve balances are compared natively.
+// Reuses the cash-settlement genesis: 2300 of Reserve cash and alt-pos 20 × 40 in Pulse.
+import { describe, expect, it } from "vitest";
+import {
+  buildCompositionReport,
+  diffCompositionReports,
+  foldEvents,
+  formatCompositionDiff,
+  type CompositionReport,
+  type PortfolioEvent,
+} from "./index.js";
+import { genesis } from "./cash-settlement.fixtures.js";
+
+const EVENTS: PortfolioEvent[] = [
+  {
+    id: "level",
+    asOf: "2026-06-03",
+    type: "InvalidationMarked",
+    positionId: "alt-pos",
+    price: 35,
+    direction: "below",
+  },
+  { id: "drop", asOf: "2026-06-05", type: "PriceMarked", instrumentId: "alt-usd", price: 30 },
+  {
+    id: "close-alt",
+    asOf: "2026-06-08",
+    type: "PositionClosed",
+    positionId: "alt-pos",
+    settlement: { reserveId: "tiered", proceeds: 600 },
+  },
+];
+
+const reportAsOf = (asOf: string): CompositionReport =>
+  buildCompositionReport(foldEvents(genesis(), EVENTS, asOf).data);
+
+describe("diffCompositionReports", () => {
+  it("lists each moved row with its value and share deltas, and leaves still rows out", () => {
+    const diff = diffCompositionReports(reportAsOf("2026-06-02"), reportAsOf("2026-06-05"));
+    const tempos = diff.sections.find((section) => section.id === "tempos")?.rows ?? [];
+
+    expect(diff).toMatchObject({
+      from: "2026-06-02",
+      to: "2026-06-05",
+      fundValueUsd: { from: 3100, to: 2900, change: -200 },
+    });
+    expect(tempos.map((row) => [row.id, row.status, row.changeUsd])).toEqual([
+      ["tempo:Reserve", "changed", 0],
+      ["tempo:Pulse", "changed", -200],
+    ]);
+    // Reserve cash held still, but its share of a smaller Fund grew.
+    expect(tempos[0]?.percentOfFundChange).toBeGreaterThan(0);
+    expect(diff.reserves).toEqual([]);
+    expect(diff.closedBookRows).toEqual([]);
+  });
+
+  it("lists a level newly crossed, once", () => {
+    const crossed = diffCompositionReports(reportAsOf("2026-06-03"), reportAsOf("2026-06-05"));
+    expect(crossed.newlyBreached).toMatchObject([{ positionId: "alt-pos", breached: true }]);
+
+    const already = diffCompositionReports(reportAsOf("2026-06-05"), reportAsOf("2026-06-06"));
+    expect(already.newlyBreached).toEqual([]);
+  });
+
+  it("marks rows removed by a close, and lists the closed row and the Reserve it paid", () => {
+    const diff = diffCompositionReports(reportAsOf("2026-06-05"), reportAsOf("2026-06-08"));
+    const instruments = diff.sections.find((section) => section.id === "instruments")?.rows ?? [];
+
+    expect(instruments.find((row) => row.id.includes("alt-usd"))).toMatchObject({
+      status: "removed",
+      fromUsd: 600,
+      changeUsd: -600,
+    });
+    expect(diff.closedBookRows.map((row) => [row.positionId, row.closedAsOf])).toEqual([
+      ["alt-pos", "2026-06-08"],
+    ]);
+    expect(diff.realizedPnlUsdChange).toBe(diff.closedBookRows[0]?.realizedPnlUsd);
+    expect(diff.reserves).toEqual([
+      {
+        reserveId: "tiered",
+        venueLabel: "BITGET: Venue",
+        currency: "USD",
+        fromBalance: 1500,
+        toBalance: 2100,
+        changeBalance: 600,
+        changeUsd: 600,
+      },
+    ]);
+  });
+
+  it("finds nothing between a report and itself", () => {
+    const report = reportAsOf("2026-06-05");
+    const diff = diffCompositionReports(report, report);
+    expect(diff.sections.every((section) => section.rows.length === 0)).toBe(true);
+    expect([diff.closedBookRows, diff.newlyBreached, diff.reserves]).toEqual([[], [], []]);
+  });
+});
+
+describe("formatCompositionDiff", () => {
+  it("renders the moves and says so where nothing moved", () => {
+    const lines = formatCompositionDiff(
+      diffCompositionReports(reportAsOf("2026-06-05"), reportAsOf("2026-06-08")),
+    ).split("\n");
+
+    expect(lines[0]).toBe("Changes 2026-06-05 → 2026-06-08");
+    expect(lines).toContain("Fund value: $2,900.00 → $2,900.00 ($0.00, 0.0%)");
+    expect(lines.some((line) => line.startsWith("Pulse") && line.endsWith("(removed)"))).toBe(true);
+    expect(lines.some((line) => /^alt-pos +alt-usd +closed {2}2026-06-08/.test(line))).toBe(true);
+    expect(lines.some((line) => /^tiered .*\+\$600\.00$/.test(line))).toBe(true);
+
+    const still = reportAsOf("2026-06-08");
+    expect(formatCompositionDiff(diffCompositionReports(still, still))).toContain("Nothing closed.");
+  });
+});
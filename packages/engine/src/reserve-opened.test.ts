@@ -157,7 +157,7 @@ describe("ReserveOpened — the fold", () => {
     );
 
     expect(after.warnings).toEqual([]);
-    expect(after.excluded).toEqual({ nonLive: 0, invalid: 0, shortDeferred: 0 });
+    expect(after.excluded).toEqual({ nonLive: 0, invalid: 0 });
     // Zero tolerance: neutrality is the entire claim, so "close enough" defeats it.
     expect(after.totals.fundValueUsd).toBe(before.totals.fundValueUsd);
     expect(after.totals.fundValueUsd - before.totals.fundValueUsd).toBe(0);
@@ -746,7 +746,7 @@ describe("ReserveOpened — parse", () => {
   });
 
   it("rejects an unsupported currency", () => {
-    const result = parseEvent(openReserve({ currency: "EUR" }));
+    const result = parseEvent(openReserve({ currency: "BRL" }));
 
     expect(result.kind).toBe("event-error");
     if (result.kind === "event-error") {
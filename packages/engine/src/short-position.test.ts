@@ -0,0 +1,176 @@
+// Behavior locks for short positions folded into the book instead of tallied
+// as excluded: a short is worth its posted collateral plus its open result, so NAV is
+// conserved at open, P&L rises as the mark falls, trims and closes realize
+// `proceeds − cost basis` unchanged, the ingest settlement gate sizes a short's
+// proceeds the same way the compose gate values it, exposure reads negative, and an
+// `above` invalidation is a short's stop. Reuses the cash-settlement genesis fixture.
+import { describe, expect, it } from "vitest";
+import {
+  buildCompositionReport,
+  buildEventReference,
+  crossReferenceEvent,
+  foldEvents,
+  type PortfolioEvent,
+} from "./index.js";
+import { DECISION, genesis, reserveById } from "./cash-settlement.fixtures.js";
+
+// The genesis Fund: 1500 tiered + 800 untiered cash + alt-pos (20 long × 40 = 800).
+const GENESIS_NAV = 3100;
+
+/** Sell 2 BTC short at 100, posting 200 of c1 collateral from the tiered reserve. */
+const OPEN_SHORT: PortfolioEvent = {
+  id: "open-short",
+  asOf: "2026-06-02",
+  type: "PositionOpened",
+  position: {
+    id: "btc-short",
+    portfolioId: "core",
+    tempo: "Pulse",
+    executionMode: "live",
+    accountId: "venue",
+    instrumentId: "btc-usd",
+    direction: "short",
+    currency: "USD",
+    lots: [{ quantity: 2, cost: 100, tier: "c1" }],
+  },
+  decision: DECISION,
+  funding: { reserveId: "tiered", amount: 200 },
+};
+
+const MARK_DOWN: PortfolioEvent = {
+  id: "mark-btc",
+  asOf: "2026-06-03",
+  type: "PriceMarked",
+  instrumentId: "btc-usd",
+  price: 80,
+};
+
+/** Buy back 1 at 80: the venue returns 100 collateral + 20 result. */
+const TRIM_SHORT: PortfolioEvent = {
+  id: "trim-short",
+  asOf: "2026-06-04",
+  type: "PositionTrimmed",
+  positionId: "btc-short",
+  removals: [{ tier: "c1", quantity: 1 }],
+  settlement: { reserveId: "tiered", proceeds: 120 },
+};
+
+const CLOSE_SHORT: PortfolioEvent = {
+  id: "close-short",
+  asOf: "2026-06-05",
+  type: "PositionClosed",
+  positionId: "btc-short",
+  settlement: { reserveId: "tiered", proceeds: 120 },
+};
+
+function navAfter(events: PortfolioEvent[]): number {
+  return buildCompositionReport(foldEvents(genesis(), events).data).totals.fundValueUsd;
+}
+
+describe("short positions — valuation", () => {
+  it("conserves NAV at open: the collateral debit comes back as the short's value", () => {
+    const data = foldEvents(genesis(), [OPEN_SHORT]).data;
+    expect(reserveById(data, "tiered").amount).toBe(1300);
+    expect(navAfter([OPEN_SHORT])).toBe(GENESIS_NAV);
+  });
+
+  it("gains as the mark falls and reads as negative exposure", () => {
+    const report = buildCompositionReport(foldEvents(genesis(), [OPEN_SHORT, MARK_DOWN]).data);
+
+    // 2 × (100 − 80) = 40 of open gain on top of the 200 collateral.
+    expect(report.totals.fundValueUsd).toBe(GENESIS_NAV + 40);
+    expect(report.dashboard.summary.totalUnrealizedPnlUsd).toBe(400 + 40);
+    expect(report.exposure).toEqual({ longUsd: 800, shortUsd: -160, netUsd: 640 });
+    expect(report.excluded).toEqual({ nonLive: 0, invalid: 0 });
+  });
+
+  it("loses as the mark rises", () => {
+    const markUp: PortfolioEvent = { ...MARK_DOWN, price: 130 };
+    const report = buildCompositionReport(foldEvents(genesis(), [OPEN_SHORT, markUp]).data);
+    expect(report.totals.fundValueUsd).toBe(GENESIS_NAV - 60);
+  });
+});
+
+describe("short positions — trim and close", () => {
+  it("realizes proceeds − cost basis on a trim, settled at the mark with no NAV jump", () => {
+    const data = foldEvents(genesis(), [OPEN_SHORT, MARK_DOWN, TRIM_SHORT]).data;
+    const row = data.closedPositions?.find((candidate) => candidate.positionId === "btc-short");
+
+    expect(row).toMatchObject({
+      direction: "short",
+      partial: true,
+      costBasisUsd: 100,
+      proceedsUsd: 120,
+      realizedPnlUsd: 20,
+    });
+    // The removed unit valued as collateral plus result at the mark — the fill matched.
+    expect(row?.markVsFill).toEqual({ markValueUsd: 120, proceedsUsd: 120, deltaUsd: 0 });
+    expect(navAfter([OPEN_SHORT, MARK_DOWN, TRIM_SHORT])).toBe(GENESIS_NAV + 40);
+  });
+
+  it("carries the short into the closed book rollups on a full close", () => {
+    const events = [OPEN_SHORT, MARK_DOWN, TRIM_SHORT, CLOSE_SHORT];
+    const report = buildCompositionReport(foldEvents(genesis(), events).data);
+
+    expect(report.closedBook.totalRealizedPnlUsd).toBe(40);
+    expect(report.closedBook.byTempo).toEqual([
+      { key: "Pulse", realizedPnlUsd: 40, costBasisUsd: 200, proceedsUsd: 240 },
+    ]);
+    expect(report.exposure.shortUsd).toBe(0);
+    expect(report.totals.fundValueUsd).toBe(GENESIS_NAV + 40);
+  });
+});
+
+describe("short positions — the ingest settlement gate", () => {
+  it("admits the short's trim and close at collateral plus result", () => {
+    expect(
+      crossReferenceEvent(TRIM_SHORT, buildEventReference(genesis(), [OPEN_SHORT, MARK_DOWN]))
+        .kind,
+    ).toBe("ok");
+    expect(
+      crossReferenceEvent(
+        CLOSE_SHORT,
+        buildEventReference(genesis(), [OPEN_SHORT, MARK_DOWN, TRIM_SHORT]),
+      ).kind,
+    ).toBe("ok");
+  });
+
+  it("refuses proceeds that only a long reading would have admitted", () => {
+    // A long would expect 1 × 80; the short expects 1 × (200 − 80) = 120, and 40
+    // is a 67% miss against that.
+    const refused = crossReferenceEvent(
+      { ...CLOSE_SHORT, settlement: { reserveId: "tiered", proceeds: 40 } },
+      buildEventReference(genesis(), [OPEN_SHORT, MARK_DOWN, TRIM_SHORT]),
+    );
+    expect(refused.kind).toBe("event-error");
+    if (refused.kind === "event-error") {
+      expect(refused.path).toBe("settlement.proceeds");
+      expect(refused.message).toContain("expected 120.00");
+      // And it names the rule that produced 120, not the long's `1 × last close 80`.
+      expect(refused.message).toContain("valued as quantity × (2·cost − close)");
+      expect(refused.message).not.toContain("1 × last close");
+    }
+  });
+});
+
+describe("short positions — invalidation watch", () => {
+  it("breaches an `above` level when the mark rises through it", () => {
+    const level: PortfolioEvent = {
+      id: "stop-short",
+      asOf: "2026-06-03",
+      type: "InvalidationMarked",
+      positionId: "btc-short",
+      price: 110,
+      direction: "above",
+    };
+    const squeeze: PortfolioEvent = { ...MARK_DOWN, id: "mark-up", asOf: "2026-06-04", price: 115 };
+
+    const quiet = buildCompositionReport(foldEvents(genesis(), [OPEN_SHORT, level]).data);
+    const breached = buildCompositionReport(
+      foldEvents(genesis(), [OPEN_SHORT, level, squeeze]).data,
+    );
+
+    expect(quiet.invalidationWatch[0]).toMatchObject({ direction: "above", breached: false });
+    expect(breached.invalidationWatch[0]).toMatchObject({ direction: "above", breached: true });
+  });
+});
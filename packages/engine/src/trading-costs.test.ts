@@ -0,0 +1,155 @@
+// Behavior locks for the `fees` friction disclosure on the four cash-leg verbs:
+// parse validates its shape, the cross-ref gate validates its currency and
+// magnitude against the fill, and the fold attributes open-side friction to the
+// closed-book rows by cost-basis share so every row separates Price P&L from Trading
+// P&L. Cash legs never change meaning — NAV is identical with or without `fees`.
+import { describe, expect, it } from "vitest";
+import {
+  buildCompositionReport,
+  buildEventReference,
+  crossReferenceEvent,
+  foldEvents,
+  formatClosedBook,
+  parseEvent,
+  type PortfolioEvent,
+} from "./index.js";
+import { DECISION, genesis } from "./cash-settlement.fixtures.js";
+
+const OPEN: PortfolioEvent = {
+  id: "open-btc",
+  asOf: "2026-06-02",
+  type: "PositionOpened",
+  position: {
+    id: "btc-pos",
+    portfolioId: "core",
+    tempo: "Liquid",
+    executionMode: "live",
+    accountId: "venue",
+    instrumentId: "btc-usd",
+    direction: "long",
+    currency: "USD",
+    lots: [{ quantity: 4, cost: 100, tier: "c1" }],
+  },
+  decision: DECISION,
+  funding: { reserveId: "tiered", amount: 400 },
+  fees: { venueFee: 4, currency: "USD", slippage: 2 },
+};
+
+const TRIM: PortfolioEvent = {
+  id: "trim-btc",
+  asOf: "2026-06-03",
+  type: "PositionTrimmed",
+  positionId: "btc-pos",
+  removals: [{ tier: "c1", quantity: 1 }],
+  settlement: { reserveId: "tiered", proceeds: 110 },
+  fees: { venueFee: 1, currency: "USD" },
+};
+
+const CLOSE: PortfolioEvent = {
+  id: "close-btc",
+  asOf: "2026-06-04",
+  type: "PositionClosed",
+  positionId: "btc-pos",
+  settlement: { reserveId: "tiered", proceeds: 330 },
+  fees: { venueFee: 3, currency: "USD", slippage: -1 },
+};
+
+describe("fees — parse", () => {
+  it("keeps a well-formed disclosure and omits the key when none is given", () => {
+    const parsed = parseEvent(OPEN);
+    expect(parsed.kind).toBe("ok");
+    if (parsed.kind === "ok") {
+      expect(parsed.value).toMatchObject({ fees: { venueFee: 4, currency: "USD", slippage: 2 } });
+    }
+    const { fees: _fees, ...bare } = OPEN as PortfolioEvent & { fees?: unknown };
+    const plain = parseEvent(bare);
+    expect(plain.kind === "ok" && "fees" in plain.value).toBe(false);
+  });
+
+  it.each([
+    [{ venueFee: -1, currency: "USD" }, "fees.venueFee"],
+    [{ venueFee: 1, currency: "BRL" }, "fees.currency"],
+    [{ venueFee: 1, currency: "USD", slippage: Number.NaN }, "fees.slippage"],
+    ["1 USD", "fees"],
+  ])("refuses %j at %s", (fees, path) => {
+    const result = parseEvent({ ...CLOSE, fees });
+    expect(result.kind).toBe("event-error");
+    if (result.kind === "event-error") {
+      expect(result.path).toBe(path);
+    }
+  });
+});
+
+describe("fees — cross-ref", () => {
+  it("admits fees in the position's or the cash leg's currency", () => {
+    expect(crossReferenceEvent(OPEN, buildEventReference(genesis(), [])).kind).toBe("ok");
+    expect(crossReferenceEvent(TRIM, buildEventReference(genesis(), [OPEN])).kind).toBe("ok");
+  });
+
+  it("refuses a fee in a currency the fill never touched", () => {
+    const result = crossReferenceEvent(
+      { ...TRIM, fees: { venueFee: 20, currency: "MXN" } } as PortfolioEvent,
+      buildEventReference(genesis(), [OPEN]),
+    );
+    expect(result.kind).toBe("event-error");
+    if (result.kind === "event-error") {
+      expect(result.path).toBe("fees.currency");
+      expect(result.message).toMatch(/^PositionTrimmed /);
+    }
+  });
+
+  it("refuses a fee that swallows the whole cash leg", () => {
+    const result = crossReferenceEvent(
+      { ...OPEN, fees: { venueFee: 400, currency: "USD" } } as PortfolioEvent,
+      buildEventReference(genesis(), []),
+    );
+    expect(result.kind).toBe("event-error");
+    if (result.kind === "event-error") {
+      expect(result.path).toBe("fees.venueFee");
+    }
+  });
+});
+
+describe("fees — the closed book separates Price P&L from Trading P&L", () => {
+  it("gives a trim its cost-basis share of the open-side friction plus its own", () => {
+    const rows = foldEvents(genesis(), [OPEN, TRIM]).data.closedPositions ?? [];
+    // A quarter of the lots retire: 1 of the open's 4 fee and 0.5 of its 2 slippage.
+    expect(rows[0]).toMatchObject({
+      realizedPnlUsd: 10,
+      tradingCosts: { venueFeeUsd: 2, slippageUsd: 0.5 },
+      pricePnlUsd: 12.5,
+    });
+  });
+
+  it("retires the remaining friction on the close and totals the book", () => {
+    const report = buildCompositionReport(foldEvents(genesis(), [OPEN, TRIM, CLOSE]).data);
+    const close = report.closedBook.rows.find((row) => !row.partial);
+
+    expect(close).toMatchObject({
+      realizedPnlUsd: 30,
+      tradingCosts: { venueFeeUsd: 6, slippageUsd: 0.5 },
+      pricePnlUsd: 36.5,
+    });
+    expect(report.closedBook.totalTradingCosts).toEqual({ venueFeeUsd: 8, slippageUsd: 1 });
+    expect(report.closedBook.totalPricePnlUsd).toBe(49);
+    expect(formatClosedBook(report.closedBook)).toContain(
+      "Price P&L $49.00 − fees $8.00 − slippage $1.00 = Trading P&L $40.00",
+    );
+  });
+
+  it("changes nothing when no fill disclosed fees", () => {
+    const strip = (event: PortfolioEvent): PortfolioEvent => {
+      const { fees: _fees, ...rest } = event as PortfolioEvent & { fees?: unknown };
+      return rest as PortfolioEvent;
+    };
+    const withFees = buildCompositionReport(foldEvents(genesis(), [OPEN, TRIM, CLOSE]).data);
+    const without = buildCompositionReport(
+      foldEvents(genesis(), [OPEN, TRIM, CLOSE].map(strip)).data,
+    );
+
+    expect(without.totals).toEqual(withFees.totals);
+    expect(without.closedBook.totalPricePnlUsd).toBeUndefined();
+    expect(without.closedBook.rows.some((row) => "tradingCosts" in row)).toBe(false);
+    expect(formatClosedBook(without.closedBook)).not.toContain("Price P&L");
+  });
+});
@@ -20,6 +20,7 @@ import { writeFile } from "node:fs/promises";
 import { dirname, join } from "node:path";
 import { assertLogFullyLoaded, loadEventLog } from "./event-store.js";
 import type { EventStorePaths } from "./event-store.js";
+import { instrumentRegistryPath, loadInstrumentRegistryStrict } from "./instrument-registry-io.js";
 import {
   computeGapReport,
   formatGapReport,
@@ -40,6 +41,12 @@ import {
  *
  * A log file that does not exist is NOT an error — it is a window with no anchors,
  * which is exactly what the report should say about it.
+ *
+ * THE REGISTRY COMES FROM THE SAME STORE. `instruments.jsonl` beside the log names
+ * the instruments the report attributes marks to, so an instrument added there is
+ * expected here with no release. An unreadable sidecar refuses for the log's reason;
+ * a skipped line only leaves its instrument's marks in `unattributedMarks`, which is
+ * inert and visible.
  */
 export async function loadGapReport(
   paths: EventStorePaths,
@@ -47,7 +54,8 @@ export async function loadGapReport(
 ): Promise<GapReport> {
   const load = await loadEventLog(paths.log);
   assertLogFullyLoaded(load, paths.log);
-  return computeGapReport(load.events, window);
+  const { registry } = await loadInstrumentRegistryStrict(instrumentRegistryPath(paths));
+  return computeGapReport(load.events, window, registry);
 }
 
 /**
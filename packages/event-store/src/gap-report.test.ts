@@ -25,7 +25,7 @@
  * made-up ids would exercise only the UNATTRIBUTABLE path and never the rule. The
  * registry is code-owned reference data, not trade data.
  */
-import type { PortfolioEvent } from "@numisma/engine";
+import { extendInstrumentRegistry, type PortfolioEvent } from "@numisma/engine";
 import { describe, expect, it } from "vitest";
 import {
   LAUNCHD_ERA_START,
@@ -382,6 +382,49 @@ describe("computeGapReport — the second question: did a whole venue go dark",
   });
 });
 
+describe("computeGapReport — an instruments.jsonl addition joins its venue from its addedAt", () => {
+  const WEDNESDAY = "2026-07-15";
+  const THURSDAY = "2026-07-16";
+  const registry = extendInstrumentRegistry([
+    {
+      instrumentId: "vti",
+      symbol: "VTI",
+      quoteCurrency: "USD",
+      source: "twelvedata",
+      addedAt: THURSDAY,
+    },
+  ]);
+
+  it("expects ten of the weekday venue from the day it was added, and nine before", () => {
+    const events: PortfolioEvent[] = [
+      ...marks(WEDNESDAY, DAILY_VENUE),
+      ...marks(THURSDAY, DAILY_VENUE),
+    ];
+    const report = computeGapReport(
+      events,
+      { since: WEDNESDAY, until: THURSDAY, now: LATER },
+      registry,
+    );
+    expect(report.venueDark).toEqual([
+      { date: WEDNESDAY, source: "twelvedata", expected: 9 },
+      { date: THURSDAY, source: "twelvedata", expected: 10 },
+    ]);
+  });
+
+  it("attributes the added instrument's mark to its venue, even before its addedAt", () => {
+    // A back-dated mark is still a twelvedata mark: attribution reads the whole
+    // registry, and only the EXPECTED count is dated.
+    const events: PortfolioEvent[] = [...marks(WEDNESDAY, DAILY_VENUE), ...marks(WEDNESDAY, ["vti"])];
+    const report = computeGapReport(
+      events,
+      { since: WEDNESDAY, until: WEDNESDAY, now: LATER },
+      registry,
+    );
+    expect(report.venueDark).toEqual([]);
+    expect(report.unattributedMarks).toBe(0);
+  });
+});
+
 describe("the ceiling — yesterday in CDMX, at every hour", () => {
   // CDMX is UTC-6 year-round. 2026-07-12 in CDMX runs 06:00Z that day to 05:59Z
   // the next; every instant inside it must yield the same ceiling.
@@ -445,8 +488,8 @@ describe("formatGapReport / formatGapSummary", () => {
   });
 
   it("names the venue and the weekday on a venue-dark day, so a holiday reads as one", () => {
-    // D7: there is no market-holiday calendar, so ~9-10 weekday holidays a year
-    // fire. Naming the weekday is what lets the reader recognise one on sight.
+    // D7: a closure the holiday table does not list still fires. Naming the weekday
+    // is what lets the reader recognise one on sight.
     const thursday = "2026-07-16";
     const report = computeGapReport(marks(thursday, DAILY_VENUE), {
       since: thursday,
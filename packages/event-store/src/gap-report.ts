@@ -82,14 +82,15 @@
  * into `unattributedMarks` and are otherwise inert — **they may never suppress a
  * verdict**, because a mark nobody can place is not evidence that a venue reported.
  *
- * NO MARKET-HOLIDAY CALENDAR (#266 D7). `owesMarkOn` walks back over weekends and
- * nothing else, so every weekday US market holiday — roughly 9-10 a year — fires.
- * That is accepted, on this module's own logic: a false *no* is the one failure a
- * triage surface cannot have, and a holiday is a false *yes*. It is paid for in the
- * MESSAGE rather than in a calendar: the line names the venue and the WEEKDAY, so a
- * holiday reads as a holiday on sight. (A calendar also buys less than it looks
- * like — a stale one produces false positives, safe; an over-broad one produces
- * false negatives, dangerous.)
+ * HOLIDAYS (#266 D7). `owesMarkOn` walks back over weekends and the venue's holiday
+ * table, so a scheduled NYSE closure is not owed and does not fire. A closure the
+ * table does not list — an unscheduled one, or any day past the table's span — still
+ * does, and that is accepted on this module's own logic: a false *no* is the one
+ * failure a triage surface cannot have, and a holiday is a false *yes*. It is paid
+ * for in the MESSAGE: the line names the venue and the WEEKDAY, so a holiday reads
+ * as a holiday on sight. (The table is kept to the venue's published closures for
+ * the same reason — a stale one produces false positives, safe; an over-broad one
+ * produces false negatives, dangerous.)
  *
  * INTERIOR GAPS ARE THE POINT. A trailing `max(as_of)` check is exactly what let
  * 07-18…07-26 hide until a human noticed nine days later. Walking the whole window
@@ -112,13 +113,16 @@
  * applied to.
  */
 import {
+  CODE_INSTRUMENT_REGISTRY,
   PRICE_SOURCES,
   TRADING_DAY_TIME_ZONE,
   addDays,
   instrumentsForSource,
   owesMarkOn,
+  registeredAsOf,
   tradingDayAsOf,
   weekdayName,
+  type InstrumentRegistry,
   type PortfolioEvent,
   type PriceSource,
 } from "@numisma/engine";
@@ -330,11 +334,17 @@ export function defaultGapReportSince(now: Date): string {
  * (The backfill additionally filters to `asOf >= genesis`; here the window floor
  * is 2026-07-03, long after genesis, so that filter is already subsumed and no
  * genesis load is needed. That is what lets the core be pure.)
+ *
+ * `registry` is the composed instrument registry — the code table unless the caller
+ * loaded `instruments.jsonl` — and it is an ARGUMENT rather than a read for the same
+ * reason `now` is: the function stays a pure function of what it is handed.
  */
 export function computeGapReport(
   events: readonly PortfolioEvent[],
   window: GapWindow,
+  registry: InstrumentRegistry = CODE_INSTRUMENT_REGISTRY,
 ): GapReport {
+  const sourceByInstrumentId = sourcesByInstrumentId(registry);
   const since = window.since ?? LAUNCHD_ERA_START;
   const ceiling = dueThrough(window.now);
   // Clamped, not merely defaulted: "the report never names today" is then a
@@ -358,7 +368,7 @@ export function computeGapReport(
     }
     marksOn.set(asOf, (marksOn.get(asOf) ?? 0) + 1);
     // Attribution never throws: an id with no registry row is bucketed, not fatal.
-    const source = SOURCE_BY_INSTRUMENT_ID.get(event.instrumentId);
+    const source = sourceByInstrumentId.get(event.instrumentId);
     if (source === undefined) {
       unattributedMarks += 1;
       continue;
@@ -395,7 +405,11 @@ export function computeGapReport(
       if (!owesMarkOn(source, date) || (bySource?.get(source) ?? 0) > 0) {
         continue;
       }
-      venueDark.push({ date, source, expected: EXPECTED_BY_SOURCE[source] ?? 0 });
+      venueDark.push({
+        date,
+        source,
+        expected: instrumentsForSource(source, registeredAsOf(registry, date)).length,
+      });
     }
   }
 
@@ -403,24 +417,25 @@ export function computeGapReport(
 }
 
 /**
- * `instrumentId` → the venue that serves it, built ONCE from `instrumentsForSource`
- * — the registry read that cannot throw. A module-level constant because the
- * registry is code-owned reference data: it cannot change between two calls of a
- * pure function, and rebuilding it per report would re-walk thirteen rows per day.
+ * `instrumentId` → the venue that serves it, built once per report from
+ * `instrumentsForSource` — the registry read that cannot throw. Attribution uses the
+ * WHOLE registry, not the rows registered on the mark's day: a mark is evidence its
+ * venue reported whenever it landed, so a backfilled mark for a newly added
+ * instrument still fills its venue's expectation.
+ *
+ * The EXPECTED count, by contrast, is per day (`registeredAsOf`): a venue owed on
+ * 08-14 the instruments registered on 08-14, so the "thirteen" in a historical line
+ * does not grow retroactively when a fourteenth is added in October.
  */
-const SOURCE_BY_INSTRUMENT_ID: ReadonlyMap<string, PriceSource> = new Map(
-  PRICE_SOURCES.flatMap((source) =>
-    instrumentsForSource(source).map(
-      (entry) => [entry.instrumentId, source] as [string, PriceSource],
+function sourcesByInstrumentId(registry: InstrumentRegistry): ReadonlyMap<string, PriceSource> {
+  return new Map(
+    PRICE_SOURCES.flatMap((source) =>
+      instrumentsForSource(source, registry).map(
+        (entry) => [entry.instrumentId, source] as [string, PriceSource],
+      ),
     ),
-  ),
-);
-
-/** How many instruments each venue owes on a day it owes anything. */
-const EXPECTED_BY_SOURCE: Readonly<Partial<Record<PriceSource, number>>> =
-  Object.fromEntries(
-    PRICE_SOURCES.map((source) => [source, instrumentsForSource(source).length]),
   );
+}
 
 /**
  * One line per lost day, then one per venue-dark venue-day. EMPTY when the window
@@ -461,9 +476,8 @@ export function formatLostDays(report: GapReport): string[] {
  * {@link formatLostDays} for why the two kinds are separable.
  */
 export function formatVenueDarkDays(report: GapReport): string[] {
-  // The WEEKDAY is not decoration — it is how the reader recognises the ~9-10
-  // market holidays a year this fires on (D7), which are the only false
-  // positives it has by design.
+  // The WEEKDAY is not decoration — it is how the reader recognises a closure the
+  // holiday table does not list (D7), the only false positive it has by design.
   return report.venueDark.map(
     ({ date, source, expected }) =>
       `Numisma: ${date} (${weekdayName(date)}) — VENUE DARK. ${source} owed ` +
@@ -52,6 +52,8 @@ function heartbeatFileBody(fields: {
   /** Omitted ⇒ the v1 shape, which the reader must go on treating as in-window. */
   markWindow?: boolean;
   lastMarkWindowFinishedAt?: string;
+  /** Step 1's retry tally; the wrapper writes both or neither. */
+  fetchRetries?: [retried: number, exhausted: number];
 }): string {
   return (
     `{\n` +
@@ -64,6 +66,10 @@ function heartbeatFileBody(fields: {
     (fields.lastMarkWindowFinishedAt === undefined
       ? ``
       : `,\n  "lastMarkWindowFinishedAt": "${fields.lastMarkWindowFinishedAt}"`) +
+    (fields.fetchRetries === undefined
+      ? ``
+      : `,\n  "fetchRetries": ${fields.fetchRetries[0]},\n` +
+        `  "fetchRetriesExhausted": ${fields.fetchRetries[1]}`) +
     `\n}\n`
   );
 }
@@ -370,6 +376,54 @@ describe("a run outside the mark window is not evidence that the day was marked"
   });
 });
 
+describe("step 1's retry counts ride along, and speak only through a failure", () => {
+  /** A v2 in-window run on 2026-08-04 that wrote its retry tally. */
+  function ranWithRetries(exitCode: number, lastStep: string, retried: number, exhausted: number) {
+    return heartbeatFileBody({
+      schemaVersion: 2,
+      startedAt: "2026-08-05T00:00:00Z",
+      finishedAt: "2026-08-05T00:05:00Z",
+      exitCode,
+      lastStep,
+      markWindow: true,
+      ...(exitCode === 0 ? { lastMarkWindowFinishedAt: "2026-08-05T00:05:00Z" } : {}),
+      fetchRetries: [retried, exhausted],
+    });
+  }
+
+  it("reads the pair the wrapper's printf appends", () => {
+    expect(parseHeartbeat(ranWithRetries(0, "complete", 2, 0))).toMatchObject({
+      fetchRetries: 2,
+      fetchRetriesExhausted: 0,
+    });
+  });
+
+  it("stays silent for a clean run that recovered on retry — retrying is not failing", () => {
+    const parsed = parseHeartbeat(ranWithRetries(0, "complete", 3, 0));
+    expect(formatHeartbeatWarning(parsed, NOW)).toEqual([]);
+  });
+
+  it("names the exhausted requests on the FAILED line", () => {
+    expect(
+      formatHeartbeatWarning(parseHeartbeat(ranWithRetries(1, "prices-fetch", 2, 1)), NOW),
+    ).toEqual([
+      "Numisma: the daily price job FAILED on 2026-08-04 — exit 1 at step 'prices-fetch'. " +
+        "1 price request(s) were still failing after every retry. " +
+        "Nothing pushed this to you; that is why it is here.",
+    ]);
+  });
+
+  it("refuses half a pair, a negative count, and more exhausted than retried", () => {
+    const base =
+      '{"schemaVersion":2,"startedAt":"2026-08-04T00:00:00Z","finishedAt":"2026-08-04T00:01:00Z",' +
+      '"exitCode":0,"lastStep":"complete","markWindow":true';
+    expect(parseHeartbeat(`${base},"fetchRetries":1}`)).toBeUndefined();
+    expect(parseHeartbeat(`${base},"fetchRetries":-1,"fetchRetriesExhausted":0}`)).toBeUndefined();
+    expect(parseHeartbeat(`${base},"fetchRetries":1,"fetchRetriesExhausted":2}`)).toBeUndefined();
+    expect(parseHeartbeat(`${base},"fetchRetries":1.5,"fetchRetriesExhausted":0}`)).toBeUndefined();
+  });
+});
+
 /**
  * THE ONE SEAM THE FIXTURES ABOVE CANNOT COVER. Every other test in this file feeds
  * the reader bytes a TEST wrote in the shape the wrapper is BELIEVED to emit. The
@@ -72,6 +72,15 @@
  * outside the window. Staleness reads that; `exitCode` and the future-date check
  * still read THIS run, so an out-of-window run that FAILS is never hidden.
  *
+ * ── RETRY COUNTS, WHICH SPEAK ONLY THROUGH A FAILURE ──────────────────────────
+ * `fetchRetries` and `fetchRetriesExhausted` are step 1's tally of requests that
+ * needed a retry and of those that ran out of attempts. They are counts, not
+ * figures, so they keep this file's privacy property. They add no trigger of their
+ * own: a run that retried and recovered is healthy, and one whose retries ran out
+ * already exited non-zero. They only add a clause to that FAILED line, because "the
+ * provider kept failing after N attempts" is a different morning from "a mark was
+ * refused". Absent when step 1 never wrote its tally — a run that died first.
+ *
  * NOT FOLDED INTO `gap-report.json`. Two writers, two languages, two lifetimes —
  * one written by bash on every run, the other by a TypeScript CLI on demand. The
  * standup reads both files; that is cheaper than a shared format neither owner
@@ -105,7 +114,7 @@ export const HEARTBEAT_SCHEMA_VERSION = 2;
  */
 const READABLE_SCHEMA_VERSIONS: ReadonlySet<number> = new Set([1, 2]);
 
-/** What the wrapper's `printf` records. Dates, a step name and an exit code. */
+/** What the wrapper's `printf` records. Dates, a step name, an exit code and two counts. */
 export interface JobHeartbeat {
   schemaVersion: number;
   /** ISO instant the run began. */
@@ -128,6 +137,15 @@ export interface JobHeartbeat {
    * like an absent file: silence, with the gap report as the backstop.
    */
   lastMarkWindowFinishedAt?: string;
+  /** Requests step 1 had to retry, recovered or not. Absent when it wrote no tally. */
+  fetchRetries?: number;
+  /** Of those, the requests still failing when their attempts ran out. */
+  fetchRetriesExhausted?: number;
+}
+
+/** A count the wrapper's `%d` could have written: a non-negative integer. */
+function isCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
 }
 
 /**
@@ -211,6 +229,19 @@ export function parseHeartbeat(raw: string | undefined): JobHeartbeat | undefine
   // that shape predates the distinction and every v1 run was read as marking, so its
   // `finishedAt` keeps meaning what it always meant.
   const lastMarkWindowFinishedAt = carried ?? (schemaVersion === 1 ? finishedAt : undefined);
+  // Written as a pair or not at all, so half a pair is a file nothing wrote.
+  const { fetchRetries, fetchRetriesExhausted } = body;
+  let retries: Pick<JobHeartbeat, "fetchRetries" | "fetchRetriesExhausted"> = {};
+  if (fetchRetries !== undefined || fetchRetriesExhausted !== undefined) {
+    if (
+      !isCount(fetchRetries) ||
+      !isCount(fetchRetriesExhausted) ||
+      fetchRetriesExhausted > fetchRetries
+    ) {
+      return undefined;
+    }
+    retries = { fetchRetries, fetchRetriesExhausted };
+  }
   // Rebuilt field by field, never spread: an unknown key is dropped here rather
   // than carried into a line the operator reads.
   return {
@@ -221,6 +252,7 @@ export function parseHeartbeat(raw: string | undefined): JobHeartbeat | undefine
     lastStep,
     markWindow,
     ...(lastMarkWindowFinishedAt === undefined ? {} : { lastMarkWindowFinishedAt }),
+    ...retries,
   };
 }
 
@@ -249,9 +281,14 @@ export function formatHeartbeatWarning(
   const ceiling = dueThrough(now);
 
   if (heartbeat.exitCode !== 0) {
+    const exhausted = heartbeat.fetchRetriesExhausted ?? 0;
     lines.push(
       `Numisma: the daily price job FAILED on ${ranOn} — exit ${heartbeat.exitCode} ` +
-        `at step '${heartbeat.lastStep}'. Nothing pushed this to you; that is why it is here.`,
+        `at step '${heartbeat.lastStep}'.` +
+        (exhausted > 0
+          ? ` ${exhausted} price request(s) were still failing after every retry.`
+          : ``) +
+        ` Nothing pushed this to you; that is why it is here.`,
     );
   }
   // AGAINST TODAY, NOT AGAINST THE CEILING. The ceiling is yesterday, so a job that
@@ -48,6 +48,16 @@ export {
   type JobHeartbeat,
 } from "./heartbeat.js";
 export { heartbeatPath, loadHeartbeat, loadHeartbeatLines } from "./heartbeat-io.js";
+// The instrument registry sidecar: `instruments.jsonl` rows that add instruments on
+// top of the engine's code table. Read here because every registry reader — the
+// fetch, the gap report, the TUI, the push — already depends on this package.
+export {
+  INSTRUMENT_REGISTRY_FILENAME,
+  formatInstrumentRegistryLoadIssues,
+  instrumentRegistryPath,
+  loadInstrumentRegistry,
+  loadInstrumentRegistryStrict,
+} from "./instrument-registry-io.js";
 
 export {
   GAP_REPORT_FILENAME,
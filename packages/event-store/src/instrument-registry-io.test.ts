@@ -0,0 +1,220 @@
+/**
+ * The instrument registry sidecar's loader, against real files on disk.
+ *
+ * Every line here is hand-authored. The ids on the `already-registered` cases are the
+ * code table's own, because re-pointing one of THEM is the edit the loader exists to
+ * refuse; the added rows (`vti`, `vea`, `ewz-mxn`) are invented for the fixture.
+ */
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CODE_INSTRUMENT_REGISTRY, instrumentsForSource } from "@numisma/engine";
+import { afterEach, describe, expect, it } from "vitest";
+import { resolveEventStorePaths } from "./event-store.js";
+import {
+  INSTRUMENT_REGISTRY_FILENAME,
+  formatInstrumentRegistryLoadIssues,
+  instrumentRegistryPath,
+  loadInstrumentRegistry,
+  loadInstrumentRegistryStrict,
+} from "./instrument-registry-io.js";
+
+const created: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(created.map((dir) => rm(dir, { recursive: true, force: true })));
+  created.length = 0;
+});
+
+/** A throwaway data dir and the sidecar path inside it, nothing written yet. */
+async function sidecarPath(): Promise<string> {
+  const dataDir = await mkdtemp(join(tmpdir(), "numisma-registry-"));
+  created.push(dataDir);
+  return instrumentRegistryPath(resolveEventStorePaths(dataDir));
+}
+
+async function sidecarWith(lines: readonly unknown[]): Promise<string> {
+  const path = await sidecarPath();
+  const body = lines.map((line) => (typeof line === "string" ? line : JSON.stringify(line)));
+  await writeFile(path, `${body.join("\n")}\n`, "utf8");
+  return path;
+}
+
+const VTI = {
+  instrumentId: "vti",
+  symbol: "VTI",
+  quoteCurrency: "USD",
+  source: "twelvedata",
+  addedAt: "2026-10-01",
+};
+
+describe("instrumentRegistryPath", () => {
+  it("sits beside events.jsonl under its one fixed name", () => {
+    const paths = resolveEventStorePaths("/srv/fund/data");
+    expect(instrumentRegistryPath(paths)).toBe(join("/srv/fund/data", INSTRUMENT_REGISTRY_FILENAME));
+  });
+});
+
+describe("loadInstrumentRegistry — absent and clean files", () => {
+  it("treats an absent file as the code table alone, with nothing to report", async () => {
+    const loaded = await loadInstrumentRegistry(await sidecarPath());
+    expect(loaded.load.status).toBe("loaded");
+    expect(loaded.additions).toEqual([]);
+    expect(loaded.registry).toBe(CODE_INSTRUMENT_REGISTRY);
+    expect(formatInstrumentRegistryLoadIssues(loaded)).toEqual([]);
+  });
+
+  it("appends each valid line after the code table, stamped with its line number", async () => {
+    const path = await sidecarWith([
+      VTI,
+      "",
+      { ...VTI, instrumentId: "ewz-mxn", symbol: "EWZ", quoteCurrency: "MXN", derived: true },
+    ]);
+    const loaded = await loadInstrumentRegistry(path);
+
+    expect(loaded.skipped).toEqual([]);
+    expect(loaded.additions.map(({ instrumentId, line }) => [instrumentId, line])).toEqual([
+      ["vti", 1],
+      ["ewz-mxn", 3],
+    ]);
+    expect(loaded.registry.slice(0, CODE_INSTRUMENT_REGISTRY.length)).toEqual(
+      CODE_INSTRUMENT_REGISTRY,
+    );
+    expect(instrumentsForSource("twelvedata", loaded.registry).map((e) => e.instrumentId)).toEqual(
+      [...instrumentsForSource("twelvedata").map((e) => e.instrumentId), "vti", "ewz-mxn"],
+    );
+    // The registry row does not carry the loader's line number.
+    expect(loaded.registry.at(-1)).toEqual({
+      instrumentId: "ewz-mxn",
+      symbol: "EWZ",
+      quoteCurrency: "MXN",
+      source: "twelvedata",
+      derived: true,
+      addedAt: "2026-10-01",
+    });
+  });
+
+  it("adds a direct row listed in another currency off twelvedata", async () => {
+    const loaded = await loadInstrumentRegistry(
+      await sidecarWith([{ ...VTI, instrumentId: "eunl", symbol: "EUNL", quoteCurrency: "EUR" }]),
+    );
+    expect(loaded.skipped).toEqual([]);
+    expect(loaded.registry.at(-1)).toMatchObject({ instrumentId: "eunl", quoteCurrency: "EUR" });
+  });
+
+  it("carries a fallback chain through, and nothing else the line holds", async () => {
+    const loaded = await loadInstrumentRegistry(
+      await sidecarWith([
+        { ...VTI, fallbacks: [{ provider: "alphavantage", symbol: "VTI", note: "backup" }] },
+      ]),
+    );
+    expect(loaded.skipped).toEqual([]);
+    expect(loaded.registry.at(-1)?.fallbacks).toEqual([{ provider: "alphavantage", symbol: "VTI" }]);
+  });
+
+  it("tolerates a byte-order mark on the first line", async () => {
+    const path = await sidecarPath();
+    await writeFile(path, `\uFEFF${JSON.stringify(VTI)}\n`, "utf8");
+    const loaded = await loadInstrumentRegistry(path);
+    expect(loaded.skipped).toEqual([]);
+    expect(loaded.additions).toHaveLength(1);
+  });
+});
+
+describe("loadInstrumentRegistry — every bad line is skipped and named, never merged", () => {
+  const cases: { why: string; line: unknown; reason: string }[] = [
+    { why: "not JSON", line: "{vti", reason: "not-json" },
+    { why: "not an object", line: [VTI], reason: "not-an-object" },
+    { why: "an uppercase id", line: { ...VTI, instrumentId: "VTI" }, reason: "instrument-id" },
+    { why: "a comma in the symbol", line: { ...VTI, symbol: "VTI,VEA" }, reason: "symbol" },
+    { why: "a currency the fund does not support", line: { ...VTI, quoteCurrency: "BRL" }, reason: "quote-currency" },
+    { why: "a source the feed does not speak to", line: { ...VTI, source: "yahoo" }, reason: "source" },
+    { why: "a USD row marked derived", line: { ...VTI, derived: true }, reason: "derived" },
+    { why: "a direct MXN row", line: { ...VTI, quoteCurrency: "MXN" }, reason: "derived" },
+    { why: "a EUR row marked derived", line: { ...VTI, quoteCurrency: "EUR", derived: true }, reason: "derived" },
+    {
+      why: "a EUR row off a USDT venue",
+      line: { ...VTI, instrumentId: "eur-coin", symbol: "EURUSDT", quoteCurrency: "EUR", source: "binance" },
+      reason: "derived",
+    },
+    {
+      why: "a crypto fallback behind an equity",
+      line: { ...VTI, fallbacks: [{ provider: "coinbase", symbol: "VTI-USD" }] },
+      reason: "fallbacks",
+    },
+    {
+      why: "the same fallback twice",
+      line: {
+        ...VTI,
+        fallbacks: [
+          { provider: "alphavantage", symbol: "VTI" },
+          { provider: "alphavantage", symbol: "VTI" },
+        ],
+      },
+      reason: "fallbacks",
+    },
+    { why: "no addedAt", line: { ...VTI, addedAt: undefined }, reason: "added-at" },
+    { why: "an impossible addedAt", line: { ...VTI, addedAt: "2026-02-30" }, reason: "added-at" },
+    { why: "a code-table id", line: { ...VTI, instrumentId: "aapl", symbol: "AAPL" }, reason: "already-registered" },
+  ];
+
+  for (const { why, line, reason } of cases) {
+    it(`skips ${why} as ${reason}`, async () => {
+      const loaded = await loadInstrumentRegistry(await sidecarWith([line]));
+      expect(loaded.load.status).toBe("loaded");
+      expect(loaded.additions).toEqual([]);
+      expect(loaded.skipped.map((skip) => [skip.line, skip.reason])).toEqual([[1, reason]]);
+      expect(loaded.registry).toEqual(CODE_INSTRUMENT_REGISTRY);
+    });
+  }
+
+  it("lets the FIRST line for an id stand and skips the later one", async () => {
+    const loaded = await loadInstrumentRegistry(
+      await sidecarWith([VTI, { ...VTI, symbol: "VEA" }]),
+    );
+    expect(loaded.additions.map((row) => row.symbol)).toEqual(["VTI"]);
+    expect(loaded.skipped).toMatchObject([{ line: 2, reason: "already-registered" }]);
+  });
+
+  it("keeps the good lines around a bad one", async () => {
+    const loaded = await loadInstrumentRegistry(
+      await sidecarWith([VTI, "not json", { ...VTI, instrumentId: "vea", symbol: "VEA" }]),
+    );
+    expect(loaded.additions.map((row) => row.instrumentId)).toEqual(["vti", "vea"]);
+    expect(loaded.skipped).toMatchObject([{ line: 2, reason: "not-json" }]);
+  });
+
+  it("never quotes the file in a diagnostic", async () => {
+    const loaded = await loadInstrumentRegistry(
+      await sidecarWith([{ ...VTI, symbol: "SECRET, VALUE" }]),
+    );
+    const issues = formatInstrumentRegistryLoadIssues(loaded);
+    expect(issues).toEqual([
+      "instruments.jsonl line 1 skipped (symbol): symbol is not uppercase letters, digits, " +
+        "'.', '-' or '/'",
+    ]);
+    expect(issues.join("\n")).not.toMatch(/SECRET/);
+  });
+});
+
+describe("an unreadable sidecar", () => {
+  it("is load-failed with the errno code, and still hands back the code table", async () => {
+    const path = await sidecarPath();
+    await mkdir(path);
+    const loaded = await loadInstrumentRegistry(path);
+
+    expect(loaded.load).toEqual({ status: "load-failed", sourcePath: path, message: "EISDIR" });
+    expect(loaded.registry).toBe(CODE_INSTRUMENT_REGISTRY);
+    expect(formatInstrumentRegistryLoadIssues(loaded)).toEqual([
+      "instruments.jsonl could not be read: EISDIR",
+    ]);
+  });
+
+  it("is a throw from the strict loader, never a quiet fall-back", async () => {
+    const path = await sidecarPath();
+    await mkdir(path);
+    await expect(loadInstrumentRegistryStrict(path)).rejects.toThrow(
+      /could not be read \(EISDIR\); refusing to run on the code table alone/,
+    );
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * `<dataDir>/instruments.jsonl` — the instrument registry sidecar's IO shell: the
+ * path and the total loader. The record contract is pure and lives in
+ * `@numisma/engine` (`price-feed/registry-sidecar.ts`, ADR-001).
+ *
+ * WHY THIS PACKAGE. Every reader of the registry already depends on it — the fetch
+ * (`@numisma/price-feed`), the gap report (here), the TUI and the push — and nothing
+ * else they share can do file IO. `@numisma/preferences` holds the other hand-edited
+ * sidecars, but neither this package nor the price feed may take an edge to it.
+ *
+ * READ HALF ONLY, like `heartbeat-io.ts`. The writer is the operator's editor: a new
+ * instrument is one line added at the bottom, and the loader is what holds that to
+ * append-only — a line that tries to re-register an id is skipped and reported, so an
+ * edit can only ever ADD.
+ *
+ * Diagnostics discipline, `journal.ts`'s: nothing here quotes a line of the file. A
+ * skip names the line number and the field that failed.
+ */
+import { readFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import {
+  CODE_INSTRUMENT_REGISTRY,
+  extendInstrumentRegistry,
+  isCoherentDerivation,
+  isFallbackChain,
+  isInstrumentId,
+  isIsoCalendarDate,
+  isMarkCurrency,
+  isPriceSource,
+  isProviderSymbol,
+  type InstrumentRegistrySkipReason,
+  type LoadedInstrumentRegistry,
+  type LoadedInstrumentRegistryAddition,
+  type SkippedInstrumentRegistryLine,
+} from "@numisma/engine";
+import type { EventStorePaths } from "./event-store.js";
+
+/** The sidecar's one fixed name, beside the log whose marks it names. */
+export const INSTRUMENT_REGISTRY_FILENAME = "instruments.jsonl";
+
+/** `instruments.jsonl` beside `events.jsonl` in the caller's resolved store. */
+export function instrumentRegistryPath(paths: EventStorePaths): string {
+  return join(dirname(paths.log), INSTRUMENT_REGISTRY_FILENAME);
+}
+
+/** Fixed prose for each rejection reason. Never built from the rejected line. */
+const SKIP_DETAIL: Record<InstrumentRegistrySkipReason, string> = {
+  "not-json": "line is not JSON",
+  "not-an-object": "line is JSON but not an object",
+  "instrument-id": "instrumentId is not lowercase letters, digits and hyphens",
+  symbol: "symbol is not uppercase letters, digits, '.', '-' or '/'",
+  "quote-currency": "quoteCurrency is not a currency the fund supports",
+  source: "source is not a price source the feed speaks to",
+  derived:
+    "derived disagrees with quoteCurrency/source — a derived row is MXN off twelvedata, " +
+    "a direct row is USD, or another non-MXN currency off twelvedata",
+  fallbacks:
+    "fallbacks is not a list of { provider, symbol }, each a provider that stands " +
+    "behind this row's source, once",
+  "added-at": "addedAt is not a YYYY-MM-DD calendar date",
+  "already-registered":
+    "instrumentId is already registered by the code table or an earlier line; a line " +
+    "can add an instrument, never re-point one",
+};
+
+type ReadLine =
+  | { ok: true; addition: LoadedInstrumentRegistryAddition }
+  | { ok: false; reason: Exclude<InstrumentRegistrySkipReason, "not-json"> };
+
+/**
+ * Validate ONE untrusted line into an addition, or name the field that failed.
+ * `registered` is every id the code table and the earlier lines already own.
+ */
+function readInstrumentRegistryLine(
+  value: unknown,
+  line: number,
+  registered: ReadonlySet<string>,
+): ReadLine {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { ok: false, reason: "not-an-object" };
+  }
+  const { instrumentId, symbol, quoteCurrency, source, derived, fallbacks, addedAt } =
+    value as Record<string, unknown>;
+  if (!isInstrumentId(instrumentId)) {
+    return { ok: false, reason: "instrument-id" };
+  }
+  if (!isProviderSymbol(symbol)) {
+    return { ok: false, reason: "symbol" };
+  }
+  if (!isMarkCurrency(quoteCurrency)) {
+    return { ok: false, reason: "quote-currency" };
+  }
+  if (!isPriceSource(source)) {
+    return { ok: false, reason: "source" };
+  }
+  if (
+    (derived !== undefined && typeof derived !== "boolean") ||
+    !isCoherentDerivation(derived === true, quoteCurrency, source)
+  ) {
+    return { ok: false, reason: "derived" };
+  }
+  if (fallbacks !== undefined && !isFallbackChain(fallbacks, source)) {
+    return { ok: false, reason: "fallbacks" };
+  }
+  if (!isIsoCalendarDate(addedAt)) {
+    return { ok: false, reason: "added-at" };
+  }
+  if (registered.has(instrumentId)) {
+    return { ok: false, reason: "already-registered" };
+  }
+  return {
+    ok: true,
+    addition: {
+      instrumentId,
+      symbol,
+      quoteCurrency,
+      source,
+      ...(derived === true ? { derived: true } : {}),
+      // Rebuilt field by field, so nothing else a hand-edited line carries rides in.
+      ...(fallbacks === undefined
+        ? {}
+        : { fallbacks: fallbacks.map(({ provider, symbol }) => ({ provider, symbol })) }),
+      addedAt,
+      line,
+    },
+  };
+}
+
+/**
+ * Read the sidecar into the composed registry AND the report of every line it
+ * discarded. TOTAL — it never throws. An absent file is the normal state (the code
+ * table alone); `message` on a `load-failed` outcome is the errno code, never Node's
+ * message, which would carry the absolute path.
+ */
+export async function loadInstrumentRegistry(path: string): Promise<LoadedInstrumentRegistry> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (error) {
+    const code = error instanceof Error ? (error as NodeJS.ErrnoException).code : undefined;
+    const load =
+      code === "ENOENT"
+        ? { status: "loaded" as const, sourcePath: path }
+        : {
+            status: "load-failed" as const,
+            sourcePath: path,
+            message: code ?? "unknown-read-error",
+          };
+    return { load, additions: [], skipped: [], registry: CODE_INSTRUMENT_REGISTRY };
+  }
+
+  const registered = new Set(CODE_INSTRUMENT_REGISTRY.map((entry) => entry.instrumentId));
+  const additions: LoadedInstrumentRegistryAddition[] = [];
+  const skipped: SkippedInstrumentRegistryLine[] = [];
+  const lines = (raw.startsWith("\uFEFF") ? raw.slice(1) : raw).split("\n");
+  for (let index = 0; index < lines.length; index += 1) {
+    const trimmed = (lines[index] ?? "").trim();
+    if (trimmed === "") {
+      continue;
+    }
+    const lineNumber = index + 1;
+    let value: unknown;
+    try {
+      value = JSON.parse(trimmed);
+    } catch {
+      skipped.push({ line: lineNumber, reason: "not-json", detail: SKIP_DETAIL["not-json"] });
+      continue;
+    }
+    const read = readInstrumentRegistryLine(value, lineNumber, registered);
+    if (read.ok) {
+      registered.add(read.addition.instrumentId);
+      additions.push(read.addition);
+    } else {
+      skipped.push({ line: lineNumber, reason: read.reason, detail: SKIP_DETAIL[read.reason] });
+    }
+  }
+  return {
+    load: { status: "loaded", sourcePath: path },
+    additions,
+    skipped,
+    // The loaded row carries its line number for the report; the registry does not.
+    registry: extendInstrumentRegistry(additions.map(({ line: _line, ...entry }) => entry)),
+  };
+}
+
+/**
+ * The lines a surface prints about a load it could not take whole: one for a read
+ * failure, one per discarded line. Empty when the load was clean.
+ */
+export function formatInstrumentRegistryLoadIssues(loaded: LoadedInstrumentRegistry): string[] {
+  const messages: string[] = [];
+  if (loaded.load.status === "load-failed") {
+    messages.push(`${INSTRUMENT_REGISTRY_FILENAME} could not be read: ${loaded.load.message}`);
+  }
+  for (const skip of loaded.skipped) {
+    messages.push(
+      `${INSTRUMENT_REGISTRY_FILENAME} line ${skip.line} skipped (${skip.reason}): ${skip.detail}`,
+    );
+  }
+  return messages;
+}
+
+/**
+ * The registry a caller that must NOT run on a partial one gets: the composed
+ * registry, or a throw when the sidecar exists and cannot be read. Running on the
+ * code table alone then would quietly stop expecting every instrument the operator
+ * added — the false *no* every surface here is built to refuse.
+ */
+export async function loadInstrumentRegistryStrict(path: string): Promise<LoadedInstrumentRegistry> {
+  const loaded = await loadInstrumentRegistry(path);
+  if (loaded.load.status === "load-failed") {
+    throw new Error(
+      `${INSTRUMENT_REGISTRY_FILENAME} could not be read (${loaded.load.message}); refusing ` +
+        `to run on the code table alone, which would drop every instrument it adds.`,
+    );
+  }
+  return loaded;
+}
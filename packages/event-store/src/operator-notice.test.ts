@@ -166,9 +166,10 @@ describe("the notice's lost-day cap", () => {
  * THE CASE #381 NAMES — the one that would have caught this shape at authoring time.
  *
  * The notice must be able to reach EMPTY on the real store, and before the bound it
- * could not: 2026-07-03 is observed US Independence Day, `owesMarkOn` is holiday-blind
- * by #266 D7, so that day is a permanent venue-dark finding no command will ever
- * clear. Every number here is driven off {@link MAX_NOTICE_VENUE_DARK_DAYS} — the
+ * could not: 2026-07-03 is observed US Independence Day, `owesMarkOn` was then
+ * holiday-blind by #266 D7, and that day was a permanent venue-dark finding no command
+ * would ever clear. The holiday table retires that one day, not the shape: any closure
+ * it does not list is the same permanent finding. Every number here is driven off {@link MAX_NOTICE_VENUE_DARK_DAYS} — the
  * boundary is pinned from BOTH sides, so neither widening nor narrowing the bound can
  * pass silently, and only removing it turns these red.
  */
@@ -38,3 +38,27 @@ export {
   appendReconciliation,
   unattendedReconciliationsVerdict,
 } from "./reconciliations.js";
+// The `perspectives.jsonl` sidecar's IO half: the saved lenses. The record contract,
+// its vocabularies and `pickPerspective` stay pure in `@numisma/engine` and are NOT
+// re-exported here.
+export {
+  resolvePerspectivesPath,
+  loadPerspectives,
+  formatPerspectiveLoadIssues,
+} from "./perspectives.js";
+// The `journal.jsonl` decision journal's IO half. The record contract, the subject
+// vocabulary and `journalEntriesFor` stay pure in `@numisma/engine`.
+export {
+  resolveJournalPath,
+  loadJournal,
+  appendJournalEntry,
+  formatJournalLoadIssues,
+} from "./journal.js";
+// The `closes.jsonl` period closes' IO half: a frozen weekly review per line, never
+// rewritten. The record contract, the builder and the diff stay pure in `@numisma/engine`.
+export {
+  resolvePeriodClosesPath,
+  loadPeriodCloses,
+  appendPeriodClose,
+  formatPeriodCloseLoadIssues,
+} from "./period-closes.js";
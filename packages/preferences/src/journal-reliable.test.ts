@@ -0,0 +1,110 @@
+/**
+ * The RELIABLE half of the `journal.jsonl` sidecar IO: the loader is TOTAL, every skip
+ * names the field that failed, diagnostics never quote the operator's prose, and
+ * anything the writer accepts the loader reads back. Every entry here is synthetic, and
+ * every path is a temp directory created and removed by this file.
+ */
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { tmpdir } from "node:os";
+import { JOURNAL_TEXT_MAX_LENGTH, type JournalEntry } from "@numisma/engine";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  appendJournalEntry,
+  formatJournalLoadIssues,
+  loadJournal,
+  resolveJournalPath,
+} from "./journal.js";
+
+const createdDirs: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(createdDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+  createdDirs.length = 0;
+});
+
+/** A throwaway `journal.jsonl` path under a temp data dir. The file does not exist yet. */
+async function tempPath(): Promise<string> {
+  const dir = await mkdtemp(resolve(tmpdir(), "numisma-journal-"));
+  createdDirs.push(dir);
+  const path = resolveJournalPath(resolve(dir, "data"));
+  await mkdir(dirname(path), { recursive: true });
+  return path;
+}
+
+const ENTRY: JournalEntry = {
+  subject: "position",
+  subjectId: "alt-pos",
+  writtenAt: "2026-06-02",
+  text: "Held the add: the breakout failed to close above the range.",
+};
+
+describe("loadJournal", () => {
+  it("reads an absent file as loaded and empty", async () => {
+    const path = await tempPath();
+    expect(await loadJournal(path)).toEqual({
+      load: { status: "loaded", sourcePath: path },
+      entries: [],
+      skipped: [],
+    });
+  });
+
+  it("reports an unreadable file by its errno code, never its path", async () => {
+    const path = await tempPath();
+    await mkdir(path);
+    const loaded = await loadJournal(path);
+    expect(loaded.load).toMatchObject({ status: "load-failed", message: "EISDIR" });
+    expect(formatJournalLoadIssues(loaded)).toEqual(["journal.jsonl could not be read: EISDIR"]);
+  });
+
+  it("skips each bad line with its reason and never quotes it", async () => {
+    const path = await tempPath();
+    const lines = [
+      "secret reasoning, not JSON",
+      JSON.stringify("secret"),
+      JSON.stringify({ ...ENTRY, subject: "secret" }),
+      JSON.stringify({ ...ENTRY, subject: "review", subjectId: "secret" }),
+      JSON.stringify({ ...ENTRY, writtenAt: "2026-6-2" }),
+      JSON.stringify({ ...ENTRY, text: "   " }),
+      JSON.stringify({ ...ENTRY, text: "x".repeat(JOURNAL_TEXT_MAX_LENGTH + 1) }),
+      JSON.stringify({ ...ENTRY, text: "secret but valid" }),
+    ];
+    await writeFile(path, `﻿${lines.join("\n")}\n`, "utf8");
+
+    const loaded = await loadJournal(path);
+    expect(loaded.skipped.map((skip) => [skip.line, skip.reason])).toEqual([
+      [1, "not-json"],
+      [2, "not-an-object"],
+      [3, "subject"],
+      [4, "subject-id"],
+      [5, "written-at"],
+      [6, "text"],
+      [7, "text"],
+    ]);
+    expect(loaded.entries).toEqual([{ ...ENTRY, text: "secret but valid", line: 8 }]);
+    expect(formatJournalLoadIssues(loaded).join("\n")).not.toContain("secret");
+  });
+});
+
+describe("appendJournalEntry", () => {
+  it("appends entries the loader reads back, without a line number", async () => {
+    const path = await tempPath();
+    await appendJournalEntry(path, ENTRY);
+    await appendJournalEntry(path, { ...ENTRY, line: 1 } as JournalEntry);
+
+    const raw = await readFile(path, "utf8");
+    expect(raw).not.toContain('"line"');
+    expect((await loadJournal(path)).entries).toEqual([
+      { ...ENTRY, line: 1 },
+      { ...ENTRY, line: 2 },
+    ]);
+  });
+
+  it("refuses an entry the loader would skip, and writes nothing", async () => {
+    const path = await tempPath();
+    await expect(appendJournalEntry(path, { ...ENTRY, writtenAt: "June 2" })).rejects.toThrow(
+      /could not read back \(written-at\)/,
+    );
+    expect((await loadJournal(path)).entries).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * `data/journal.jsonl` — the operator's DECISION JOURNAL.
+ *
+ * One JSON object per line: a `subject` (`position`, `reserve` or `review`), the
+ * `subjectId` it is about (a record id, or the review's date), the date it was
+ * `writtenAt`, and the `text`. The record contract and the selector are pure and live
+ * in `@numisma/engine` (`journal.ts`, ADR-001); this module is the disk read, the line
+ * check and the append.
+ *
+ * DURABLE, AND NEVER FOLDED. The file is not a `PortfolioEvent` and changes no figure
+ * NAV folds from, but it is durable, non-re-derivable truth by ADR-006's membership
+ * test — the reasoning behind a decision exists nowhere else once it is not written
+ * down — which is what admits it to `TRACKED_FILES`.
+ *
+ * Durability contract, `plans.ts`'s in mechanics:
+ *   - The append is a GENUINE append via lock + temp + rename (`./sidecar-io.ts`).
+ *   - The loader is TOTAL ({@link loadJournal}): an absent file is `loaded` and empty,
+ *     an unreadable one is `load-failed`, and every bad line is one `skipped` record.
+ *   - The round-trip invariant: anything {@link appendJournalEntry} accepts,
+ *     {@link loadJournal} reads back — the serialized line is run through the loader's
+ *     own reader before the write is allowed to happen.
+ *
+ * Diagnostics discipline: nothing this module produces quotes a line of the file. The
+ * text is the operator's reasoning about the fund; a skip names the line number and
+ * the field that failed, never what it held.
+ */
+import { readFile } from "node:fs/promises";
+import {
+  JOURNAL_TEXT_MAX_LENGTH,
+  isIsoCalendarDate,
+  isJournalSubject,
+  isJournalSubjectId,
+  type JournalEntry,
+  type JournalSkipReason,
+  type LoadedJournal,
+  type LoadedJournalEntry,
+  type SkippedJournalLine,
+} from "@numisma/engine";
+import {
+  appendSidecarLines,
+  isRecordObject,
+  resolveSidecarPath,
+  stripBom,
+} from "./sidecar-io.js";
+
+/** The sidecar's name, used by the path resolver and by nothing else. */
+const JOURNAL_FILE_NAME = "journal.jsonl";
+
+/**
+ * Resolve the sidecar path under ADR-006's invariant — absolute and homedir-derived,
+ * never CWD-relative. The cases live once in {@link resolveSidecarPath}.
+ */
+export function resolveJournalPath(dataDir?: string): string {
+  return resolveSidecarPath(JOURNAL_FILE_NAME, dataDir);
+}
+
+/** Fixed prose for each rejection reason. Never built from the rejected line. */
+const SKIP_DETAIL: Record<JournalSkipReason, string> = {
+  "not-json": "line is not JSON",
+  "not-an-object": "line is JSON but not an object",
+  subject: "subject is not position, reserve or review",
+  "subject-id": "subjectId is not a record id, or not a YYYY-MM-DD date for a review",
+  "written-at": "writtenAt is not a YYYY-MM-DD calendar date",
+  text: `text is missing, blank or longer than ${JOURNAL_TEXT_MAX_LENGTH} characters`,
+};
+
+type ReadLine =
+  | { ok: true; entry: LoadedJournalEntry }
+  | { ok: false; reason: Exclude<JournalSkipReason, "not-json"> };
+
+/**
+ * Validate ONE untrusted line into an entry, or name the field that failed. Fields
+ * this contract does not know are dropped rather than refused.
+ */
+function readJournalLine(value: unknown, line: number): ReadLine {
+  if (!isRecordObject(value)) {
+    return { ok: false, reason: "not-an-object" };
+  }
+  const { subject, subjectId, writtenAt, text } = value;
+  if (!isJournalSubject(subject)) {
+    return { ok: false, reason: "subject" };
+  }
+  if (!isJournalSubjectId(subject, subjectId)) {
+    return { ok: false, reason: "subject-id" };
+  }
+  if (!isIsoCalendarDate(writtenAt)) {
+    return { ok: false, reason: "written-at" };
+  }
+  if (typeof text !== "string" || text.trim() === "" || text.length > JOURNAL_TEXT_MAX_LENGTH) {
+    return { ok: false, reason: "text" };
+  }
+  return { ok: true, entry: { subject, subjectId, writtenAt, text, line } };
+}
+
+/**
+ * Read the sidecar into its entries AND the report of every line it discarded. TOTAL —
+ * it never throws. `message` on a `load-failed` outcome is the errno code, never Node's
+ * message, which would carry the absolute path.
+ */
+export async function loadJournal(path: string): Promise<LoadedJournal> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (error) {
+    const code = error instanceof Error ? (error as NodeJS.ErrnoException).code : undefined;
+    if (code === "ENOENT") {
+      return { load: { status: "loaded", sourcePath: path }, entries: [], skipped: [] };
+    }
+    return {
+      load: { status: "load-failed", sourcePath: path, message: code ?? "unknown-read-error" },
+      entries: [],
+      skipped: [],
+    };
+  }
+
+  const entries: LoadedJournalEntry[] = [];
+  const skipped: SkippedJournalLine[] = [];
+  const lines = stripBom(raw).split("\n");
+  for (let index = 0; index < lines.length; index += 1) {
+    const trimmed = (lines[index] ?? "").trim();
+    if (trimmed === "") {
+      continue;
+    }
+    const lineNumber = index + 1;
+    let value: unknown;
+    try {
+      value = JSON.parse(trimmed);
+    } catch {
+      skipped.push({ line: lineNumber, reason: "not-json", detail: SKIP_DETAIL["not-json"] });
+      continue;
+    }
+    const read = readJournalLine(value, lineNumber);
+    if (read.ok) {
+      entries.push(read.entry);
+    } else {
+      skipped.push({ line: lineNumber, reason: read.reason, detail: SKIP_DETAIL[read.reason] });
+    }
+  }
+  return { load: { status: "loaded", sourcePath: path }, entries, skipped };
+}
+
+/**
+ * Append ONE entry, genuinely and atomically. The canonical shape is written field by
+ * field, so a `LoadedJournalEntry` passed back in never persists its line number, and
+ * the line is read back through {@link readJournalLine} first: an entry the loader
+ * would skip is refused loudly here rather than written into an append-only file.
+ */
+export async function appendJournalEntry(path: string, entry: JournalEntry): Promise<void> {
+  const serialized = JSON.stringify({
+    subject: entry.subject,
+    subjectId: entry.subjectId,
+    writtenAt: entry.writtenAt,
+    text: entry.text,
+  });
+  const echo = readJournalLine(JSON.parse(serialized), 1);
+  if (!echo.ok) {
+    throw new Error(
+      `refusing to append a journal line this loader could not read back (${echo.reason}): ` +
+        SKIP_DETAIL[echo.reason],
+    );
+  }
+  await appendSidecarLines(path, [serialized]);
+}
+
+/**
+ * The lines a surface prints about a load it could not take whole: one for a read
+ * failure, one per discarded line. Empty when the load was clean.
+ */
+export function formatJournalLoadIssues(loaded: LoadedJournal): string[] {
+  const messages: string[] = [];
+  if (loaded.load.status === "load-failed") {
+    messages.push(`${JOURNAL_FILE_NAME} could not be read: ${loaded.load.message}`);
+  }
+  for (const skip of loaded.skipped) {
+    messages.push(`${JOURNAL_FILE_NAME} line ${skip.line} skipped (${skip.reason}): ${skip.detail}`);
+  }
+  return messages;
+}
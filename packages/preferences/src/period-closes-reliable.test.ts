@@ -0,0 +1,145 @@
+/**
+ * The RELIABLE half of the `closes.jsonl` sidecar IO: the loader is TOTAL, every skip
+ * names the part that failed and never quotes a figure, anything the writer accepts the
+ * loader reads back, and a period is closed once — the append refuses a second close
+ * and the loader keeps the first of a hand-edited pair. Every close here is synthetic,
+ * and every path is a temp directory created and removed by this file.
+ */
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { tmpdir } from "node:os";
+import type { PeriodClose } from "@numisma/engine";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  appendPeriodClose,
+  formatPeriodCloseLoadIssues,
+  loadPeriodCloses,
+  resolvePeriodClosesPath,
+} from "./period-closes.js";
+
+const createdDirs: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(createdDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+  createdDirs.length = 0;
+});
+
+/** A throwaway `closes.jsonl` path under a temp data dir. The file does not exist yet. */
+async function tempPath(): Promise<string> {
+  const dir = await mkdtemp(resolve(tmpdir(), "numisma-closes-"));
+  createdDirs.push(dir);
+  const path = resolvePeriodClosesPath(resolve(dir, "data"));
+  await mkdir(dirname(path), { recursive: true });
+  return path;
+}
+
+const CLOSE: PeriodClose = {
+  schemaVersion: 1,
+  period: "2026-06-05",
+  closedAt: "2026-06-05T22:00:00.000Z",
+  fundValueUsd: 3300,
+  usdMxn: 20,
+  prices: [{ instrumentId: "alt-usd", asOf: "2026-06-03", price: 50, currency: "USD" }],
+  tiers: [{ id: "c1", label: "c1", usdValue: 1500, percentOfFund: 45.45 }],
+  tempos: [{ id: "Pulse", label: "Pulse", usdValue: 1000, percentOfFund: 30.3 }],
+  journal: [{ subject: "position", subjectId: "alt-pos", writtenAt: "2026-06-04", line: 2 }],
+};
+
+describe("resolvePeriodClosesPath", () => {
+  it("names closes.jsonl under the data dir", () => {
+    expect(resolvePeriodClosesPath("~/numisma-data")).toMatch(/numisma-data\/closes\.jsonl$/);
+  });
+});
+
+describe("loadPeriodCloses", () => {
+  it("reads an absent file as loaded and empty", async () => {
+    const path = await tempPath();
+    expect(await loadPeriodCloses(path)).toEqual({
+      load: { status: "loaded", sourcePath: path },
+      closes: [],
+      skipped: [],
+    });
+  });
+
+  it("reports an unreadable file by its errno code, never its path", async () => {
+    const path = await tempPath();
+    await mkdir(path);
+    const loaded = await loadPeriodCloses(path);
+    expect(loaded.load).toMatchObject({ status: "load-failed", message: "EISDIR" });
+    expect(formatPeriodCloseLoadIssues(loaded)).toEqual(["closes.jsonl could not be read: EISDIR"]);
+  });
+
+  it("skips each bad line with its reason, keeps the first close per period, and sorts", async () => {
+    const path = await tempPath();
+    const later = { ...CLOSE, period: "2026-06-12", closedAt: "2026-06-12T22:00:00.000Z" };
+    const lines = [
+      "{ 987654.32",
+      JSON.stringify([987654.32]),
+      JSON.stringify({ ...CLOSE, schemaVersion: 2 }),
+      JSON.stringify({ ...CLOSE, period: "2026-02-30" }),
+      JSON.stringify({ ...CLOSE, closedAt: "Friday" }),
+      JSON.stringify({ ...CLOSE, fundValueUsd: "987654.32" }),
+      JSON.stringify({ ...CLOSE, prices: [{ ...CLOSE.prices[0], asOf: "2026-06-08" }] }),
+      JSON.stringify({ ...CLOSE, tempos: [{ id: "Pulse", usdValue: 987654.32 }] }),
+      JSON.stringify({ ...CLOSE, journal: [{ ...CLOSE.journal[0], line: 0 }] }),
+      JSON.stringify(later),
+      JSON.stringify(CLOSE),
+      JSON.stringify({ ...CLOSE, fundValueUsd: 987654.32 }),
+    ];
+    await writeFile(path, `﻿${lines.join("\n")}\n`, "utf8");
+
+    const loaded = await loadPeriodCloses(path);
+    expect(loaded.skipped.map((skip) => [skip.line, skip.reason])).toEqual([
+      [1, "not-json"],
+      [2, "not-an-object"],
+      [3, "schema-version"],
+      [4, "period"],
+      [5, "closed-at"],
+      [6, "figures"],
+      [7, "prices"],
+      [8, "allocation"],
+      [9, "journal"],
+      [12, "duplicate-period"],
+    ]);
+    expect(loaded.closes).toEqual([
+      { ...CLOSE, line: 11 },
+      { ...later, line: 10 },
+    ]);
+    expect(formatPeriodCloseLoadIssues(loaded).join("\n")).not.toContain("987654");
+  });
+});
+
+describe("appendPeriodClose", () => {
+  it("appends closes the loader reads back, without a line number", async () => {
+    const path = await tempPath();
+    await appendPeriodClose(path, CLOSE);
+    const later = { ...CLOSE, period: "2026-06-12", line: 1 } as PeriodClose;
+    await appendPeriodClose(path, later);
+
+    const written = (await readFile(path, "utf8")).trim().split("\n").map((raw) => JSON.parse(raw));
+    expect(written.map((close) => "line" in close)).toEqual([false, false]);
+    expect((await loadPeriodCloses(path)).closes).toEqual([
+      { ...CLOSE, line: 1 },
+      { ...CLOSE, period: "2026-06-12", line: 2 },
+    ]);
+  });
+
+  it("refuses a second close for a period already closed, and writes nothing", async () => {
+    const path = await tempPath();
+    await appendPeriodClose(path, CLOSE);
+    const before = await readFile(path, "utf8");
+
+    await expect(appendPeriodClose(path, { ...CLOSE, fundValueUsd: 1 })).rejects.toThrow(
+      /second close for 2026-06-05/,
+    );
+    expect(await readFile(path, "utf8")).toBe(before);
+  });
+
+  it("refuses a close the loader would skip, and writes nothing", async () => {
+    const path = await tempPath();
+    await expect(appendPeriodClose(path, { ...CLOSE, usdMxn: 0 })).rejects.toThrow(
+      /could not read back \(figures\)/,
+    );
+    expect((await loadPeriodCloses(path)).closes).toEqual([]);
+  });
+});
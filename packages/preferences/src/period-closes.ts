@@ -0,0 +1,320 @@
+/**
+ * `data/closes.jsonl` — the fund's PERIOD CLOSES, one frozen weekly review per line.
+ *
+ * Each line is a `PeriodClose`: the period it closes, when it was taken, NAV, the
+ * latest price per marked instrument, the Tier and Tempo allocation, and references to
+ * the journal entries written in the period. The record contract, the builder and the
+ * diff are pure and live in `@numisma/engine` (`period-close.ts`, ADR-001); this module
+ * is the disk read, the line check and the append.
+ *
+ * DURABLE, AND NEVER FOLDED. A close is what the fold showed on the day the operator
+ * signed the period off, and a backdated event can change what a later fold shows for
+ * the same date — so the close is non-re-derivable truth by ADR-006's membership test,
+ * which is what admits the file to `TRACKED_FILES`.
+ *
+ * ONE CLOSE PER PERIOD, AND IT IS NEVER REWRITTEN. {@link appendPeriodClose} refuses a
+ * period the file already holds, checked under the append lock so two runs cannot both
+ * pass the check. A second line for a period can then only come from a hand edit, and
+ * the loader skips it: the first close stands.
+ *
+ * Durability contract, `plans.ts`'s in mechanics: a genuine append via lock + temp +
+ * rename (`./sidecar-io.ts`); a TOTAL loader; and the round-trip invariant — the
+ * serialized line is run through the loader's own reader before it is written.
+ *
+ * Diagnostics discipline: a skip names the line number and the part that failed,
+ * never what it held. A close is fund figures.
+ */
+import { readFile } from "node:fs/promises";
+import {
+  PERIOD_CLOSE_SCHEMA_VERSION,
+  isIsoCalendarDate,
+  isJournalSubject,
+  isJournalSubjectId,
+  isPeriodCloseCurrency,
+  type LoadedPeriodClose,
+  type LoadedPeriodCloses,
+  type PeriodClose,
+  type PeriodCloseAllocation,
+  type PeriodCloseJournalRef,
+  type PeriodClosePrice,
+  type PeriodCloseSkipReason,
+  type SkippedPeriodCloseLine,
+} from "@numisma/engine";
+import {
+  appendSidecarLines,
+  isRecordObject,
+  resolveSidecarPath,
+  stripBom,
+} from "./sidecar-io.js";
+
+/** The sidecar's name, used by the path resolver and in load diagnostics. */
+const PERIOD_CLOSES_FILE_NAME = "closes.jsonl";
+
+/**
+ * Resolve the sidecar path under ADR-006's invariant — absolute and homedir-derived,
+ * never CWD-relative. The cases live once in {@link resolveSidecarPath}.
+ */
+export function resolvePeriodClosesPath(dataDir?: string): string {
+  return resolveSidecarPath(PERIOD_CLOSES_FILE_NAME, dataDir);
+}
+
+/** Fixed prose for each rejection reason. Never built from the rejected line. */
+const SKIP_DETAIL: Record<PeriodCloseSkipReason, string> = {
+  "not-json": "line is not JSON",
+  "not-an-object": "line is JSON but not an object",
+  "schema-version": `schemaVersion is missing, or newer than this build reads (${PERIOD_CLOSE_SCHEMA_VERSION})`,
+  period: "period is not a YYYY-MM-DD calendar date",
+  "closed-at": "closedAt is not an ISO-8601 timestamp",
+  figures: "fundValueUsd or usdMxn is not a finite number (usdMxn above zero)",
+  prices: "prices is not a list of { instrumentId, asOf on or before the period, positive price, currency }",
+  allocation: "tiers or tempos is not a list of { id, label, usdValue, percentOfFund }",
+  journal: "journal is not a list of { subject, subjectId, writtenAt, line } references",
+  "duplicate-period": "an earlier line already closed this period; the first close stands",
+};
+
+type ReadLine =
+  | { ok: true; close: LoadedPeriodClose }
+  | { ok: false; reason: Exclude<PeriodCloseSkipReason, "not-json" | "duplicate-period"> };
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+function readPrices(value: unknown, period: string): PeriodClosePrice[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const prices: PeriodClosePrice[] = [];
+  for (const item of value) {
+    if (!isRecordObject(item)) return undefined;
+    const { instrumentId, asOf, price, currency } = item;
+    if (
+      !isNonEmptyString(instrumentId) ||
+      !isIsoCalendarDate(asOf) ||
+      asOf > period ||
+      !isFiniteNumber(price) ||
+      price <= 0 ||
+      !isPeriodCloseCurrency(currency)
+    ) {
+      return undefined;
+    }
+    prices.push({ instrumentId, asOf, price, currency });
+  }
+  return prices;
+}
+
+function readAllocation(value: unknown): PeriodCloseAllocation[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const rows: PeriodCloseAllocation[] = [];
+  for (const item of value) {
+    if (!isRecordObject(item)) return undefined;
+    const { id, label, usdValue, percentOfFund } = item;
+    if (!isNonEmptyString(id) || typeof label !== "string" || !isFiniteNumber(usdValue) || !isFiniteNumber(percentOfFund)) {
+      return undefined;
+    }
+    rows.push({ id, label, usdValue, percentOfFund });
+  }
+  return rows;
+}
+
+function readJournalRefs(value: unknown): PeriodCloseJournalRef[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const refs: PeriodCloseJournalRef[] = [];
+  for (const item of value) {
+    if (!isRecordObject(item)) return undefined;
+    const { subject, subjectId, writtenAt, line } = item;
+    if (
+      !isJournalSubject(subject) ||
+      !isJournalSubjectId(subject, subjectId) ||
+      !isIsoCalendarDate(writtenAt) ||
+      !Number.isInteger(line) ||
+      (line as number) < 1
+    ) {
+      return undefined;
+    }
+    refs.push({ subject, subjectId, writtenAt, line: line as number });
+  }
+  return refs;
+}
+
+/**
+ * Validate ONE untrusted line into a close, or name the part that failed. Fields this
+ * contract does not know are dropped rather than refused.
+ */
+function readPeriodCloseLine(value: unknown, line: number): ReadLine {
+  if (!isRecordObject(value)) {
+    return { ok: false, reason: "not-an-object" };
+  }
+  const { schemaVersion, period, closedAt, fundValueUsd, usdMxn } = value;
+  if (
+    !Number.isInteger(schemaVersion) ||
+    (schemaVersion as number) < 1 ||
+    (schemaVersion as number) > PERIOD_CLOSE_SCHEMA_VERSION
+  ) {
+    return { ok: false, reason: "schema-version" };
+  }
+  if (!isIsoCalendarDate(period)) {
+    return { ok: false, reason: "period" };
+  }
+  if (typeof closedAt !== "string" || Number.isNaN(Date.parse(closedAt))) {
+    return { ok: false, reason: "closed-at" };
+  }
+  if (!isFiniteNumber(fundValueUsd) || !isFiniteNumber(usdMxn) || usdMxn <= 0) {
+    return { ok: false, reason: "figures" };
+  }
+  const prices = readPrices(value.prices, period);
+  if (!prices) {
+    return { ok: false, reason: "prices" };
+  }
+  const tiers = readAllocation(value.tiers);
+  const tempos = readAllocation(value.tempos);
+  if (!tiers || !tempos) {
+    return { ok: false, reason: "allocation" };
+  }
+  const journal = readJournalRefs(value.journal);
+  if (!journal) {
+    return { ok: false, reason: "journal" };
+  }
+  return {
+    ok: true,
+    close: {
+      schemaVersion: schemaVersion as number,
+      period,
+      closedAt,
+      fundValueUsd,
+      usdMxn,
+      prices,
+      tiers,
+      tempos,
+      journal,
+      line,
+    },
+  };
+}
+
+/** Read the file's text into closes and skips. The first close for a period stands. */
+function readPeriodCloses(raw: string): Pick<LoadedPeriodCloses, "closes" | "skipped"> {
+  const closes: LoadedPeriodClose[] = [];
+  const skipped: SkippedPeriodCloseLine[] = [];
+  const periods = new Set<string>();
+  const lines = stripBom(raw).split("\n");
+  for (let index = 0; index < lines.length; index += 1) {
+    const trimmed = (lines[index] ?? "").trim();
+    if (trimmed === "") {
+      continue;
+    }
+    const lineNumber = index + 1;
+    let value: unknown;
+    try {
+      value = JSON.parse(trimmed);
+    } catch {
+      skipped.push({ line: lineNumber, reason: "not-json", detail: SKIP_DETAIL["not-json"] });
+      continue;
+    }
+    const read = readPeriodCloseLine(value, lineNumber);
+    if (!read.ok) {
+      skipped.push({ line: lineNumber, reason: read.reason, detail: SKIP_DETAIL[read.reason] });
+    } else if (periods.has(read.close.period)) {
+      skipped.push({
+        line: lineNumber,
+        reason: "duplicate-period",
+        detail: SKIP_DETAIL["duplicate-period"],
+      });
+    } else {
+      periods.add(read.close.period);
+      closes.push(read.close);
+    }
+  }
+  closes.sort((a, b) => a.period.localeCompare(b.period));
+  return { closes, skipped };
+}
+
+/**
+ * Read the sidecar into its closes, in period order, AND the report of every line it
+ * discarded. TOTAL — it never throws. `message` on a `load-failed` outcome is the errno
+ * code, never Node's message, which would carry the absolute path.
+ */
+export async function loadPeriodCloses(path: string): Promise<LoadedPeriodCloses> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (error) {
+    const code = error instanceof Error ? (error as NodeJS.ErrnoException).code : undefined;
+    if (code === "ENOENT") {
+      return { load: { status: "loaded", sourcePath: path }, closes: [], skipped: [] };
+    }
+    return {
+      load: { status: "load-failed", sourcePath: path, message: code ?? "unknown-read-error" },
+      closes: [],
+      skipped: [],
+    };
+  }
+  return { load: { status: "loaded", sourcePath: path }, ...readPeriodCloses(raw) };
+}
+
+/**
+ * Append ONE close, genuinely and atomically, or throw and write nothing. The canonical
+ * shape is written field by field (so a loaded close passed back in never persists its
+ * line number) and read back through {@link readPeriodCloseLine} first; then, under the
+ * append lock, the period is checked against every close the file already holds.
+ */
+export async function appendPeriodClose(path: string, close: PeriodClose): Promise<void> {
+  const serialized = JSON.stringify({
+    schemaVersion: close.schemaVersion,
+    period: close.period,
+    closedAt: close.closedAt,
+    fundValueUsd: close.fundValueUsd,
+    usdMxn: close.usdMxn,
+    prices: close.prices.map((price) => ({
+      instrumentId: price.instrumentId,
+      asOf: price.asOf,
+      price: price.price,
+      currency: price.currency,
+    })),
+    tiers: close.tiers.map(serializeAllocation),
+    tempos: close.tempos.map(serializeAllocation),
+    journal: close.journal.map((ref) => ({
+      subject: ref.subject,
+      subjectId: ref.subjectId,
+      writtenAt: ref.writtenAt,
+      line: ref.line,
+    })),
+  });
+  const echo = readPeriodCloseLine(JSON.parse(serialized), 1);
+  if (!echo.ok) {
+    throw new Error(
+      `refusing to append a close this loader could not read back (${echo.reason}): ` +
+        SKIP_DETAIL[echo.reason],
+    );
+  }
+  await appendSidecarLines(path, [serialized], (existing) => {
+    const { closes } = readPeriodCloses(existing ?? "");
+    if (closes.some((held) => held.period === close.period)) {
+      throw new Error(
+        `refusing to append a second close for ${close.period}: ` +
+          `a close is never rewritten, and this period is already closed`,
+      );
+    }
+  });
+}
+
+function serializeAllocation(row: PeriodCloseAllocation): PeriodCloseAllocation {
+  return { id: row.id, label: row.label, usdValue: row.usdValue, percentOfFund: row.percentOfFund };
+}
+
+/**
+ * The lines a surface prints about a load it could not take whole: one for a read
+ * failure, one per discarded line. Empty when the load was clean.
+ */
+export function formatPeriodCloseLoadIssues(loaded: LoadedPeriodCloses): string[] {
+  const messages: string[] = [];
+  if (loaded.load.status === "load-failed") {
+    messages.push(`${PERIOD_CLOSES_FILE_NAME} could not be read: ${loaded.load.message}`);
+  }
+  for (const skip of loaded.skipped) {
+    messages.push(`${PERIOD_CLOSES_FILE_NAME} line ${skip.line} skipped (${skip.reason}): ${skip.detail}`);
+  }
+  return messages;
+}
@@ -0,0 +1,134 @@
+/**
+ * The RELIABLE half of the `perspectives.jsonl` sidecar IO: the loader is TOTAL, every
+ * skip names the field that failed, and diagnostics never quote the file. Every lens
+ * here is synthetic. Nothing touches the real accumulus checkout — every path is a temp
+ * directory created and removed by this file.
+ */
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { dirname, isAbsolute, resolve } from "node:path";
+import { tmpdir } from "node:os";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  formatPerspectiveLoadIssues,
+  loadPerspectives,
+  resolvePerspectivesPath,
+} from "./perspectives.js";
+
+const createdDirs: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(createdDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+  createdDirs.length = 0;
+});
+
+/** A throwaway `perspectives.jsonl` path under a temp data dir. The file does not exist yet. */
+async function tempPath(): Promise<string> {
+  const dir = await mkdtemp(resolve(tmpdir(), "numisma-perspectives-"));
+  createdDirs.push(dir);
+  const path = resolvePerspectivesPath(resolve(dir, "data"));
+  await mkdir(dirname(path), { recursive: true });
+  return path;
+}
+
+const lines = (...values: unknown[]): string =>
+  values.map((value) => (typeof value === "string" ? value : JSON.stringify(value))).join("\n");
+
+describe("resolvePerspectivesPath", () => {
+  it("is absolute and named for the sidecar", () => {
+    const path = resolvePerspectivesPath("~/numisma-data");
+    expect(isAbsolute(path)).toBe(true);
+    expect(path.endsWith("perspectives.jsonl")).toBe(true);
+  });
+});
+
+describe("loadPerspectives", () => {
+  it("reads an absent file as loaded and empty", async () => {
+    const path = await tempPath();
+    const loaded = await loadPerspectives(path);
+    expect(loaded).toEqual({ load: { status: "loaded", sourcePath: path }, perspectives: [], skipped: [] });
+    expect(formatPerspectiveLoadIssues(loaded)).toEqual([]);
+  });
+
+  it("reports an unreadable file by its errno code, never its path", async () => {
+    const path = await tempPath();
+    await mkdir(path);
+    const loaded = await loadPerspectives(path);
+    expect(loaded.load).toMatchObject({ status: "load-failed", message: "EISDIR" });
+    expect(formatPerspectiveLoadIssues(loaded)).toEqual(["perspectives.jsonl could not be read: EISDIR"]);
+  });
+
+  it("reads valid lenses through a BOM, stamping line numbers and dropping unknown keys", async () => {
+    const path = await tempPath();
+    await writeFile(
+      path,
+      "﻿" +
+        lines(
+          { name: "pulse", filter: { tempos: ["Pulse"] }, groupBy: "instrument", extra: true },
+          "",
+          {
+            name: "paper_book",
+            description: "Paper alongside live",
+            filter: { executionModes: ["live", "paper"] },
+            groupBy: "executionMode",
+            sort: { by: "label", direction: "asc" },
+            columns: ["usdValue", "records"],
+          },
+          { name: "everything", groupBy: "tempo" },
+        ),
+      "utf8",
+    );
+    const loaded = await loadPerspectives(path);
+    expect(loaded.skipped).toEqual([]);
+    expect(loaded.perspectives).toEqual([
+      { name: "pulse", filter: { tempos: ["Pulse"] }, groupBy: "instrument", line: 1 },
+      {
+        name: "paper_book",
+        description: "Paper alongside live",
+        filter: { executionModes: ["live", "paper"] },
+        groupBy: "executionMode",
+        sort: { by: "label", direction: "asc" },
+        columns: ["usdValue", "records"],
+        line: 3,
+      },
+      { name: "everything", filter: {}, groupBy: "tempo", line: 4 },
+    ]);
+  });
+
+  it("skips each bad line with its reason and never quotes it", async () => {
+    const path = await tempPath();
+    const base = { name: "ok", groupBy: "tempo" };
+    await writeFile(
+      path,
+      lines(
+        "{ secret-value",
+        [1, 2],
+        { ...base, name: "has space" },
+        { ...base, description: 7 },
+        { ...base, filter: { executionModes: ["backtest-secret"] } },
+        { ...base, filter: { tempos: [] } },
+        { ...base, groupBy: "venue" },
+        { ...base, sort: { by: "usdValue", direction: "up" } },
+        { ...base, columns: ["usdValue", "usdValue"] },
+        { ...base, columns: [] },
+      ),
+      "utf8",
+    );
+    const loaded = await loadPerspectives(path);
+    expect(loaded.perspectives).toEqual([]);
+    expect(loaded.skipped.map((skip) => [skip.line, skip.reason])).toEqual([
+      [1, "not-json"],
+      [2, "not-an-object"],
+      [3, "name"],
+      [4, "description"],
+      [5, "filter"],
+      [6, "filter"],
+      [7, "group-by"],
+      [8, "sort"],
+      [9, "columns"],
+      [10, "columns"],
+    ]);
+    const issues = formatPerspectiveLoadIssues(loaded).join("\n");
+    expect(issues).toContain("perspectives.jsonl line 7 skipped (group-by):");
+    expect(issues).not.toMatch(/secret|venue|has space/);
+  });
+});
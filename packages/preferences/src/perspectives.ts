@@ -0,0 +1,229 @@
+/**
+ * `data/perspectives.jsonl` — the operator's SAVED LENSES over the composition.
+ *
+ * One hand-authored JSON object per line: a `name`, a `filter` (Tempos, Portfolios,
+ * Execution Modes, strategies), a `groupBy`, and optionally a `sort`, the visible
+ * `columns` and a `description`. Redefining a lens is appending a line with the same
+ * name; the latest line wins (`pickPerspective`). The record contract, the closed
+ * vocabularies and the selector are pure and live in `@numisma/engine`
+ * (`perspectives.ts`, ADR-001); this module is only the disk read and the line check.
+ *
+ * A PERSPECTIVE OWNS NO CAPITAL. The file is never folded, never a `PortfolioEvent`,
+ * and changes no figure NAV folds from — which is also why it is not in
+ * `TRACKED_FILES`: it is a layout preference, not durable truth about the fund.
+ *
+ * There is NO write surface. The file is edited by hand, like `plans.jsonl` before
+ * `plans-cli` existed; a future `perspectives:save` must add its entry point on the
+ * lock + temp + rename contract of `./sidecar-io.ts` rather than a bare append.
+ *
+ * The loader is TOTAL ({@link loadPerspectives}): an absent file is `loaded` and
+ * empty, an unreadable one is `load-failed`, and every bad line is one `skipped`
+ * record with fixed prose that never quotes the line.
+ */
+import { readFile } from "node:fs/promises";
+import {
+  PERSPECTIVE_COLUMNS,
+  PERSPECTIVE_GROUP_BYS,
+  isPerspectiveExecutionMode,
+  type LoadedPerspective,
+  type LoadedPerspectives,
+  type PerspectiveColumn,
+  type PerspectiveFilter,
+  type PerspectiveGroupBy,
+  type PerspectiveSkipReason,
+  type PerspectiveSort,
+  type SkippedPerspectiveLine,
+} from "@numisma/engine";
+import { isRecordObject, resolveSidecarPath, stripBom } from "./sidecar-io.js";
+
+/** The sidecar's name, used by the path resolver and by nothing else. */
+const PERSPECTIVES_FILE_NAME = "perspectives.jsonl";
+
+/**
+ * Resolve the sidecar path under ADR-006's invariant — absolute and homedir-derived,
+ * never CWD-relative. The cases live once in {@link resolveSidecarPath}.
+ */
+export function resolvePerspectivesPath(dataDir?: string): string {
+  return resolveSidecarPath(PERSPECTIVES_FILE_NAME, dataDir);
+}
+
+/**
+ * A lens name is typed on a command line (`--perspective <name>`) and shown in a
+ * selector, so it is a plain token: a letter or digit, then letters, digits, `-`, `_`.
+ */
+const PERSPECTIVE_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/** Fixed prose for each rejection reason. Never built from the rejected line. */
+const SKIP_DETAIL: Record<PerspectiveSkipReason, string> = {
+  "not-json": "line is not JSON",
+  "not-an-object": "line is JSON but not an object",
+  name: "name is missing or not a plain token of letters, digits, '-' and '_'",
+  description: "description is present but not a string",
+  filter: "filter is not an object of non-empty string lists with known Execution Modes",
+  "group-by": "groupBy is not one of the supported groupings",
+  sort: "sort is not { by: <column or label>, direction: asc or desc }",
+  columns: "columns is not a non-empty list of distinct supported columns",
+};
+
+type ReadLine =
+  | { ok: true; perspective: LoadedPerspective }
+  | { ok: false; reason: Exclude<PerspectiveSkipReason, "not-json"> };
+
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => typeof item === "string" && item.trim() !== "")
+  );
+}
+
+function readFilter(value: unknown): PerspectiveFilter | undefined {
+  if (value === undefined) {
+    return {};
+  }
+  if (!isRecordObject(value)) {
+    return undefined;
+  }
+  const filter: PerspectiveFilter = {};
+  for (const facet of ["tempos", "portfolioIds", "strategies"] as const) {
+    const list = value[facet];
+    if (list === undefined) continue;
+    if (!isStringList(list)) return undefined;
+    filter[facet] = list;
+  }
+  const modes = value.executionModes;
+  if (modes !== undefined) {
+    if (!isStringList(modes) || !modes.every(isPerspectiveExecutionMode)) return undefined;
+    filter.executionModes = modes;
+  }
+  return filter;
+}
+
+function isColumn(value: unknown): value is PerspectiveColumn {
+  return (PERSPECTIVE_COLUMNS as readonly unknown[]).includes(value);
+}
+
+function readSort(value: unknown): PerspectiveSort | undefined {
+  if (!isRecordObject(value)) return undefined;
+  const { by, direction } = value;
+  if (by !== "label" && !isColumn(by)) return undefined;
+  if (direction !== "asc" && direction !== "desc") return undefined;
+  return { by, direction };
+}
+
+/**
+ * Validate ONE untrusted line into a lens, or name the field that failed. Fields this
+ * contract does not know are dropped rather than refused, so a newer checkout's extra
+ * key does not cost an older one the whole lens.
+ */
+function readPerspectiveLine(value: unknown, line: number): ReadLine {
+  if (!isRecordObject(value)) {
+    return { ok: false, reason: "not-an-object" };
+  }
+  if (typeof value.name !== "string" || !PERSPECTIVE_NAME.test(value.name)) {
+    return { ok: false, reason: "name" };
+  }
+  if (value.description !== undefined && typeof value.description !== "string") {
+    return { ok: false, reason: "description" };
+  }
+  const filter = readFilter(value.filter);
+  if (!filter) {
+    return { ok: false, reason: "filter" };
+  }
+  if (!(PERSPECTIVE_GROUP_BYS as readonly unknown[]).includes(value.groupBy)) {
+    return { ok: false, reason: "group-by" };
+  }
+  const groupBy = value.groupBy as PerspectiveGroupBy;
+  let sort: PerspectiveSort | undefined;
+  if (value.sort !== undefined) {
+    sort = readSort(value.sort);
+    if (!sort) {
+      return { ok: false, reason: "sort" };
+    }
+  }
+  const columns = value.columns;
+  if (
+    columns !== undefined &&
+    (!Array.isArray(columns) ||
+      columns.length === 0 ||
+      !columns.every(isColumn) ||
+      new Set(columns).size !== columns.length)
+  ) {
+    return { ok: false, reason: "columns" };
+  }
+  return {
+    ok: true,
+    perspective: {
+      name: value.name,
+      ...(value.description !== undefined ? { description: value.description } : {}),
+      filter,
+      groupBy,
+      ...(sort ? { sort } : {}),
+      ...(columns !== undefined ? { columns: columns as PerspectiveColumn[] } : {}),
+      line,
+    },
+  };
+}
+
+/**
+ * Read the sidecar into its lenses AND the report of every line it discarded. TOTAL —
+ * it never throws. `message` on a `load-failed` outcome is the errno code, never Node's
+ * message, which would carry the absolute path (see `preferences.ts`).
+ */
+export async function loadPerspectives(path: string): Promise<LoadedPerspectives> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (error) {
+    const code = error instanceof Error ? (error as NodeJS.ErrnoException).code : undefined;
+    if (code === "ENOENT") {
+      return { load: { status: "loaded", sourcePath: path }, perspectives: [], skipped: [] };
+    }
+    return {
+      load: { status: "load-failed", sourcePath: path, message: code ?? "unknown-read-error" },
+      perspectives: [],
+      skipped: [],
+    };
+  }
+
+  const perspectives: LoadedPerspective[] = [];
+  const skipped: SkippedPerspectiveLine[] = [];
+  const lines = stripBom(raw).split("\n");
+  for (let index = 0; index < lines.length; index += 1) {
+    const trimmed = (lines[index] ?? "").trim();
+    if (trimmed === "") {
+      continue;
+    }
+    const lineNumber = index + 1;
+    let value: unknown;
+    try {
+      value = JSON.parse(trimmed);
+    } catch {
+      skipped.push({ line: lineNumber, reason: "not-json", detail: SKIP_DETAIL["not-json"] });
+      continue;
+    }
+    const read = readPerspectiveLine(value, lineNumber);
+    if (read.ok) {
+      perspectives.push(read.perspective);
+    } else {
+      skipped.push({ line: lineNumber, reason: read.reason, detail: SKIP_DETAIL[read.reason] });
+    }
+  }
+  return { load: { status: "loaded", sourcePath: path }, perspectives, skipped };
+}
+
+/**
+ * The lines a surface prints about a load it could not take whole: one for a read
+ * failure, one per discarded line. Prose-only, addressed by the file's own name and a
+ * line number, never by a path or the line's content. Empty when the load was clean.
+ */
+export function formatPerspectiveLoadIssues(loaded: LoadedPerspectives): string[] {
+  const messages: string[] = [];
+  if (loaded.load.status === "load-failed") {
+    messages.push(`${PERSPECTIVES_FILE_NAME} could not be read: ${loaded.load.message}`);
+  }
+  for (const skip of loaded.skipped) {
+    messages.push(`${PERSPECTIVES_FILE_NAME} line ${skip.line} skipped (${skip.reason}): ${skip.detail}`);
+  }
+  return messages;
+}
@@ -234,8 +234,16 @@ async function withAppendLock<T>(path: string, write: () => Promise<T>): Promise
  *
  * Caller-side contract: `lines` are already serialized and already validated. This
  * function knows nothing about what a line means.
+ *
+ * `guard`, when given, sees the file as it stands UNDER THE LOCK and may throw to refuse
+ * the append — the only place a "not already in the file" rule can be checked without
+ * a second writer slipping in between the check and the write.
  */
-export async function appendSidecarLines(path: string, lines: string[]): Promise<void> {
+export async function appendSidecarLines(
+  path: string,
+  lines: string[],
+  guard?: (existing: string | undefined) => void,
+): Promise<void> {
   if (lines.length === 0) {
     return;
   }
@@ -243,6 +251,7 @@ export async function appendSidecarLines(path: string, lines: string[]): Promise
   await withAppendLock(path, async () => {
     const body = lines.join("\n");
     const existing = await readOptional(path);
+    guard?.(existing);
     const prefix = existing && existing.length > 0 && !existing.endsWith("\n") ? "\n" : "";
     const next = `${existing ?? ""}${prefix}${body}\n`;
     const tempPath = tempPathFor(path);
@@ -129,17 +129,18 @@ export default defineConfig({
         // module — `record-fill-cli.ts` says so in its own header — and those modules
         // ARE measured.
         //
-        // EXCLUDED IS NOT UNTESTED, and all four of these now prove it. Each has a
+        // EXCLUDED IS NOT UNTESTED, and all five of these now prove it. Each has a
         // suite that spawns the real shell under `tsx` against a throwaway data dir
         // and asserts its own wiring: `record-fill-cli.test.ts`,
-        // `import-orders-cli.test.ts`, `cancel-order-cli.test.ts` and
-        // `migrate-legacy-log.test.ts`. They stay excluded anyway, and the reason is
+        // `import-orders-cli.test.ts`, `import-fills-cli.test.ts`,
+        // `cancel-order-cli.test.ts` and `migrate-legacy-log.test.ts`. They stay excluded anyway, and the reason is
         // now the SECOND one rather than the first: v8 cannot report a spawned
         // subprocess's coverage back to this process, so instrumenting these files
         // would report a dishonest 0% for behavior that is in fact driven. Do not
         // read a line in this list as "nothing tests this."
         // See docs/coverage-rationale.md §1.
         "apps/tui/src/import-orders-cli.ts",
+        "apps/tui/src/import-fills-cli.ts",
         "apps/tui/src/record-fill-cli.ts",
         "apps/tui/src/cancel-order-cli.ts",
         "apps/tui/src/migrate-legacy-log.ts",
@@ -159,6 +160,12 @@ export default defineConfig({
         // See docs/coverage-rationale.md §1.
         "apps/tui/src/plans-cli.ts",
         "apps/price-feed/src/operator-notice-cli.ts",
+        // `journal-add-cli.ts` binds argv, the fold and `journal.jsonl` to the measured
+        // `addJournalEntry` flow; importing it appends an entry.
+        "apps/tui/src/journal-add-cli.ts",
+        // `period-close-cli.ts` binds argv, the as-of fold, the journal and
+        // `closes.jsonl` to the measured `closePeriod` flow; importing it takes a close.
+        "apps/tui/src/period-close-cli.ts",
         // Bun-only openTUI wiring: never executes under Node's vitest run, so
         // instrumenting it would only report dead 0%. Guarded by the openTUI
         // smokes (`pnpm smoke:tui`, `pnpm smoke:startup`).